@@ -0,0 +1,85 @@
+/**
+ * ACCOUNT ROLES - SINGLE SOURCE OF TRUTH
+ *
+ * Every signed-in session acts on one account with one role:
+ * - owner:  created the account (accounts.owner_id); billing + everything below
+ * - admin:  manages team, API keys, webhooks and business profiles
+ * - member: runs analyses and works leads
+ * - viewer: read-only
+ *
+ * Like API key scopes, authMiddleware maps the request path to the minimum
+ * role it needs instead of annotating every route:
+ * - GET/HEAD → rule.read
+ * - anything else → rule.write
+ * Paths with no rule default to viewer for reads and member for writes.
+ *
+ * Rules are matched in order; keep more specific paths first.
+ */
+
+export const ACCOUNT_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+
+export type AccountRole = typeof ACCOUNT_ROLES[number];
+
+/** Roles that can be granted through invitations / role changes (one owner per account) */
+export const ASSIGNABLE_ACCOUNT_ROLES = ['admin', 'member', 'viewer'] as const;
+
+export type AssignableAccountRole = typeof ASSIGNABLE_ACCOUNT_ROLES[number];
+
+const ACCOUNT_ROLE_RANK: Record<AccountRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3
+};
+
+interface AccountRoleRule {
+  pattern: RegExp;
+  read: AccountRole;
+  write: AccountRole;
+}
+
+const ACCOUNT_ROLE_RULES: AccountRoleRule[] = [
+  // Accepting an invite / leaving applies to the caller, not the current account
+  { pattern: /^\/api\/team\/(invitations\/accept|leave)$/, read: 'viewer', write: 'viewer' },
+  { pattern: /^\/api\/team\/invitations(\/|$)/, read: 'admin', write: 'admin' },
+  { pattern: /^\/api\/team(\/|$)/, read: 'viewer', write: 'admin' },
+  { pattern: /^\/api\/auth(\/|$)/, read: 'viewer', write: 'viewer' },
+  // Platform admin routes check the admin claim instead (adminMiddleware)
+  { pattern: /^\/api\/admin(\/|$)/, read: 'viewer', write: 'viewer' },
+  { pattern: /^\/api\/billing(\/|$)/, read: 'admin', write: 'owner' },
+  { pattern: /^\/api\/api-keys(\/|$)/, read: 'admin', write: 'admin' },
+  { pattern: /^\/api\/webhooks(\/|$)/, read: 'admin', write: 'admin' },
+  { pattern: /^\/api\/business-profiles(\/|$)/, read: 'viewer', write: 'admin' }
+];
+
+const DEFAULT_READ_ROLE: AccountRole = 'viewer';
+const DEFAULT_WRITE_ROLE: AccountRole = 'member';
+
+/**
+ * Minimum role a session needs for a request
+ */
+export function getRequiredAccountRole(method: string, path: string): AccountRole {
+  const isRead = method === 'GET' || method === 'HEAD';
+  const rule = ACCOUNT_ROLE_RULES.find(r => r.pattern.test(path));
+
+  if (!rule) {
+    return isRead ? DEFAULT_READ_ROLE : DEFAULT_WRITE_ROLE;
+  }
+
+  return isRead ? rule.read : rule.write;
+}
+
+/**
+ * Check whether a role meets a minimum role
+ */
+export function hasAccountRole(role: AccountRole, minimum: AccountRole): boolean {
+  return ACCOUNT_ROLE_RANK[role] >= ACCOUNT_ROLE_RANK[minimum];
+}
+
+/**
+ * Check whether an actor can invite, re-role or remove someone with the target role
+ * Actors only manage roles strictly below their own (admins can't touch other admins)
+ */
+export function canManageAccountRole(actorRole: AccountRole, targetRole: AccountRole): boolean {
+  return ACCOUNT_ROLE_RANK[actorRole] > ACCOUNT_ROLE_RANK[targetRole];
+}
@@ -0,0 +1,71 @@
+/**
+ * API KEY SCOPES - SINGLE SOURCE OF TRUTH
+ *
+ * Server-to-server API keys carry a list of scopes. Instead of annotating
+ * every route, authMiddleware maps the request path to the scope it needs:
+ * - GET/HEAD → <resource>:read
+ * - anything else → <resource>:write
+ *
+ * Paths with no rule (auth, billing, onboarding, API key management) are
+ * session-only: API keys are rejected there, so a leaked key can't mint
+ * more keys or change the subscription.
+ *
+ * Rules are matched in order; keep more specific paths first.
+ */
+
+import type { AccountRole } from '@/config/account-roles.config';
+
+export const API_KEY_SCOPES = [
+  'leads:read',
+  'leads:write',
+  'analysis:read',
+  'analysis:write',
+  'business:read',
+  'business:write',
+  'credits:read',
+  'watches:read',
+  'watches:write',
+  'webhooks:read',
+  'webhooks:write'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * Account role an API key acts with
+ * Scopes decide what a key can reach; the role is what services see for it
+ * (keys run analyses and work leads, they never manage the team)
+ */
+export const API_KEY_ACCOUNT_ROLE: AccountRole = 'member';
+
+interface ApiKeyScopeRule {
+  pattern: RegExp;
+  read: ApiKeyScope;
+  /** null: resource is read-only for API keys */
+  write: ApiKeyScope | null;
+}
+
+const API_KEY_SCOPE_RULES: ApiKeyScopeRule[] = [
+  // Analyses are started under /api/leads, so match them before the leads rule
+  { pattern: /^\/api\/leads\/analyze(\/|$)/, read: 'analysis:read', write: 'analysis:write' },
+  { pattern: /^\/api\/leads\/[^/]+\/(force-refresh|refresh-check)$/, read: 'analysis:read', write: 'analysis:write' },
+  { pattern: /^\/api\/analysis(\/|$)/, read: 'analysis:read', write: 'analysis:write' },
+  { pattern: /^\/api\/leads(\/|$)/, read: 'leads:read', write: 'leads:write' },
+  { pattern: /^\/api\/business-profiles(\/|$)/, read: 'business:read', write: 'business:write' },
+  { pattern: /^\/api\/business\/generate-context(\/|$)/, read: 'business:read', write: 'business:write' },
+  { pattern: /^\/api\/credits(\/|$)/, read: 'credits:read', write: null },
+  { pattern: /^\/api\/watches(\/|$)/, read: 'watches:read', write: 'watches:write' },
+  { pattern: /^\/api\/webhooks(\/|$)/, read: 'webhooks:read', write: 'webhooks:write' }
+];
+
+/**
+ * Scope an API key needs for a request
+ * Returns null when the endpoint isn't available to API keys at all
+ */
+export function getRequiredApiKeyScope(method: string, path: string): ApiKeyScope | null {
+  const rule = API_KEY_SCOPE_RULES.find(r => r.pattern.test(path));
+  if (!rule) return null;
+
+  const isRead = method === 'GET' || method === 'HEAD';
+  return isRead ? rule.read : rule.write;
+}
@@ -0,0 +1,115 @@
+// config/broadcast-events.config.ts
+
+import { z } from 'zod';
+
+/**
+ * BROADCAST EVENTS - SINGLE SOURCE OF TRUTH
+ *
+ * Every event GlobalBroadcasterDO can push over the account WebSocket
+ * (GET /api/analysis/ws), with its payload schema and the topic clients
+ * subscribe to. publishBroadcast() validates payloads against these schemas,
+ * so a publisher can't drift from what the frontend expects.
+ *
+ * Topics: clients receive every topic by default, or pick some with
+ * ?topics=analysis,credits on connect or a { type: 'subscribe', topics }
+ * message at any time.
+ *
+ * Adding an event:
+ * 1. Add its payload schema and topic to BROADCAST_EVENTS
+ * 2. Publish it with publishBroadcast() (or a helper in broadcast.publisher)
+ */
+
+export const BROADCAST_TOPICS = [
+  'analysis',
+  'batch',
+  'credits',
+  'subscription',
+  'leads',
+  'business_context'
+] as const;
+
+export type BroadcastTopic = typeof BROADCAST_TOPICS[number];
+
+const RunProgressSchema = z.object({
+  progress: z.number().min(0).max(100),
+  step: z.object({ current: z.number().int(), total: z.number().int() }),
+  status: z.string(),
+  currentStep: z.string().optional(),
+  avatarUrl: z.string().optional(),
+  leadId: z.string().optional(),
+  error: z.string().optional()
+});
+
+const BatchProgressSchema = RunProgressSchema.extend({
+  /** Aggregate batch summary (BulkBatchSummary) */
+  batch: z.unknown()
+});
+
+const CreditsUpdatedSchema = z.object({
+  credit_balance: z.number(),
+  light_analyses_balance: z.number(),
+  /** What changed the balance */
+  reason: z.enum(['analysis', 'refund', 'reservation', 'outreach', 'purchase', 'subscription', 'renewal', 'adjustment'])
+});
+
+const SubscriptionUpdatedSchema = z.object({
+  status: z.string(),
+  plan_type: z.string().nullable(),
+  current_period_end: z.string().nullable(),
+  canceled_at: z.string().nullable()
+});
+
+const LeadUpdatedSchema = z.object({
+  lead_id: z.string(),
+  business_profile_id: z.string(),
+  username: z.string(),
+  analysis_id: z.string().nullable(),
+  overall_score: z.number().nullable(),
+  lead_tier: z.string().nullable(),
+  niche: z.string().nullable()
+});
+
+const BusinessContextProgressSchema = z.object({
+  progress: z.number().min(0).max(100),
+  status: z.enum(['processing', 'complete', 'failed']),
+  current_step: z.string(),
+  business_profile_id: z.string().nullable(),
+  error: z.string().nullable()
+});
+
+export const BROADCAST_EVENTS = {
+  'analysis.progress': { topic: 'analysis', schema: RunProgressSchema },
+  'analysis.complete': { topic: 'analysis', schema: RunProgressSchema },
+  'analysis.failed': { topic: 'analysis', schema: RunProgressSchema },
+  'batch.progress': { topic: 'batch', schema: BatchProgressSchema },
+  'credits.updated': { topic: 'credits', schema: CreditsUpdatedSchema },
+  'subscription.updated': { topic: 'subscription', schema: SubscriptionUpdatedSchema },
+  'lead.updated': { topic: 'leads', schema: LeadUpdatedSchema },
+  'business_context.progress': { topic: 'business_context', schema: BusinessContextProgressSchema }
+} as const satisfies Record<string, { topic: BroadcastTopic; schema: z.ZodTypeAny }>;
+
+export type BroadcastEventType = keyof typeof BROADCAST_EVENTS;
+
+export type BroadcastEventData<T extends BroadcastEventType> = z.infer<typeof BROADCAST_EVENTS[T]['schema']>;
+
+export type CreditsUpdateReason = BroadcastEventData<'credits.updated'>['reason'];
+
+export function getBroadcastTopic(type: BroadcastEventType): BroadcastTopic {
+  return BROADCAST_EVENTS[type].topic;
+}
+
+/**
+ * Parse a comma-separated topic list (?topics=analysis,credits)
+ * Returns null when any topic is unknown
+ */
+export function parseBroadcastTopics(raw: string): BroadcastTopic[] | null {
+  const topics = raw.split(',').map(topic => topic.trim()).filter(Boolean);
+  if (topics.length === 0 || !topics.every(isBroadcastTopic)) {
+    return null;
+  }
+  return [...new Set(topics)];
+}
+
+export function isBroadcastTopic(value: unknown): value is BroadcastTopic {
+  return typeof value === 'string' && (BROADCAST_TOPICS as readonly string[]).includes(value);
+}
@@ -70,18 +70,13 @@ export interface AIModelPricing {
   reasoning_effort?: 'low' | 'medium' | 'high';
 }
 
-export interface ScrapingPricing {
-  /** Fixed cost per scrape run (USD) - Apify costs are untrackable, so we set a fixed price */
-  fixed_cost_per_run: number;
-  /** Vendor name */
-  vendor: ScrapingVendor;
-}
-
 export interface ScraperConfig {
   /** Human-readable name */
   name: string;
   /** Apify actor ID */
   actor_id: string;
+  /** Fixed cost per profile scrape (USD) - Apify costs are untrackable, so we set a fixed price */
+  cost_per_run_usd: number;
   /** Timeout in milliseconds */
   timeout_ms: number;
   /** Max retry attempts */
@@ -163,18 +158,6 @@ export const AI_MODEL_PRICING: Record<string, AIModelPricing> = {
   }
 };
 
-/** Scraping costs - fixed per-run pricing */
-export const SCRAPING_PRICING: Record<AnalysisType, ScrapingPricing> = {
-  light: {
-    fixed_cost_per_run: 0.003,
-    vendor: 'apify'
-  },
-  deep: {
-    fixed_cost_per_run: 0.003,
-    vendor: 'apify'
-  }
-};
-
 /** Credit pricing for revenue/margin calculations */
 export const CREDIT_REVENUE = {
   per_credit_usd: 0.97
@@ -184,11 +167,54 @@ export const CREDIT_REVENUE = {
 export const SCRAPER_CONFIG: ScraperConfig = {
   name: 'dS_basic',
   actor_id: 'dSCLg0C3YEZ83HzYX',
+  cost_per_run_usd: 0.003,
   timeout_ms: 60000,
   max_retries: 3,
   retry_delay_ms: 2000
 };
 
+/**
+ * Outreach draft generation (POST /api/leads/:leadId/outreach)
+ * Charged to credit_balance; stored drafts are reused without charging again
+ */
+export const OUTREACH_CONFIG = {
+  credit_cost: 1,
+  ai_model: 'gpt-5-mini',
+  ai_max_tokens: 3000
+};
+
+/**
+ * Lead re-score jobs (POST /api/rescore-jobs)
+ * Free for users; the optional AI fit step is logged to operations_ledger
+ */
+export const RESCORE_CONFIG = {
+  /** Leads re-scored per queue message */
+  leads_per_message: 100,
+  /** Leads per queue message when the AI fit step re-runs (one AI call each) */
+  ai_fit_leads_per_message: 20
+};
+
+/**
+ * Prospect sourcing jobs (POST /api/sourcing-jobs)
+ * Free for users; Apify usage is logged to operations_ledger
+ */
+export const SOURCING_CONFIG = {
+  /** General Instagram actor: hashtag/location/profile pages (posts) and post comments */
+  collector_actor_id: 'apify~instagram-scraper',
+  /** Collector runs page through many posts, so they get longer than a profile scrape */
+  collector_timeout_ms: 180000,
+  /** Default / maximum candidate usernames collected per job */
+  default_candidates: 100,
+  max_candidates: 500,
+  /** Competitor posts whose commenters are collected */
+  competitor_posts: 5,
+  /** Profiles scraped per queue message in the pre-filter phase (one actor run) */
+  prefilter_batch_size: 50,
+  /** Apify pricing per dataset item */
+  cost_per_collected_item_usd: 0.0023,
+  cost_per_profile_usd: 0.0026
+};
+
 /** Calculate AI cost for a completed call */
 export function calculateAICost(
   model: string,
@@ -207,9 +233,12 @@ export function calculateAICost(
   return parseFloat((inputCost + outputCost).toFixed(6));
 }
 
-/** Get scraping cost for an analysis type */
-export function getScrapingCost(analysisType: AnalysisType): number {
-  return SCRAPING_PRICING[analysisType].fixed_cost_per_run;
+/**
+ * Get scraping cost of one profile scrape
+ * Providers without an actor config (recorded fixtures) cost nothing
+ */
+export function getScrapingCost(scraper: ScraperConfig | undefined): number {
+  return scraper?.cost_per_run_usd ?? 0;
 }
 
 /** Get credit cost for an analysis type */
@@ -293,6 +322,8 @@ export function buildOperationsMetrics(data: {
   tokensIn: number;
   tokensOut: number;
   cacheHit: boolean;
+  /** Provider that scraped the profile (ScrapeResult.provider) and its actor config; unset on a cache hit */
+  scraper?: { provider: string; config?: ScraperConfig };
   timing: {
     cache_check: number;
     scraping?: number;
@@ -315,7 +346,8 @@ export function buildOperationsMetrics(data: {
         vendor: ScrapingVendor;
         usd: number;
         cached: boolean;
-        actor: string;
+        /** null when nothing was scraped */
+        actor: string | null;
       };
     };
   };
@@ -330,7 +362,7 @@ export function buildOperationsMetrics(data: {
     };
   };
 } {
-  const scrapingCost = data.cacheHit ? 0 : getScrapingCost(data.analysisType);
+  const scrapingCost = data.cacheHit ? 0 : getScrapingCost(data.scraper?.config);
   const aiPricing = getAIModelPricing(data.aiModel);
 
   return {
@@ -348,7 +380,7 @@ export function buildOperationsMetrics(data: {
           vendor: 'apify',
           usd: scrapingCost,
           cached: data.cacheHit,
-          actor: SCRAPER_CONFIG.actor_id
+          actor: data.scraper?.config?.actor_id ?? data.scraper?.provider ?? null
         }
       }
     },
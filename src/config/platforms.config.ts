@@ -0,0 +1,85 @@
+// config/platforms.config.ts
+
+/**
+ * LEAD PLATFORMS CONFIGURATION
+ *
+ * Single source of truth for the social platforms leads can come from.
+ * Every platform flows through the same AnalysisWorkflow, pre-analysis checks,
+ * scoring and R2 cache; only scraping and the mapping into ProfileData differ
+ * (see infrastructure/scraping/scraper.registry.ts).
+ *
+ * Adding a platform:
+ * 1. Add it to LEAD_PLATFORMS and PLATFORM_CONFIG
+ * 2. Implement a ScraperProvider that maps its data into ProfileData
+ * 3. Add its providers to SCRAPER_PROVIDERS (scraper-providers.config.ts)
+ * 4. Flip `enabled` once the scraper is live
+ */
+
+export const LEAD_PLATFORMS = ['instagram', 'tiktok', 'linkedin'] as const;
+export type LeadPlatform = typeof LEAD_PLATFORMS[number];
+
+/** Platform assumed for requests, leads and cached profiles that don't specify one */
+export const DEFAULT_LEAD_PLATFORM: LeadPlatform = 'instagram';
+
+export interface PlatformConfig {
+  /** Human-readable name (used in prompts and error messages) */
+  label: string;
+  /** Accepted by POST /api/leads/analyze */
+  enabled: boolean;
+  /** Valid handle format (without @) */
+  usernamePattern: RegExp;
+  /** Maximum handle length */
+  usernameMaxLength: number;
+  /** What a post is called on this platform (used in prompts) */
+  postNoun: string;
+  /** Public profile URL for a handle */
+  profileUrl: (username: string) => string;
+}
+
+export const PLATFORM_CONFIG: Record<LeadPlatform, PlatformConfig> = {
+  instagram: {
+    label: 'Instagram',
+    enabled: true,
+    usernamePattern: /^[a-zA-Z0-9._]+$/,
+    usernameMaxLength: 30,
+    postNoun: 'post',
+    profileUrl: username => `https://instagram.com/${username}`
+  },
+  tiktok: {
+    label: 'TikTok',
+    enabled: true,
+    usernamePattern: /^[a-zA-Z0-9._]+$/,
+    usernameMaxLength: 24,
+    postNoun: 'video',
+    profileUrl: username => `https://www.tiktok.com/@${username}`
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    enabled: false,
+    usernamePattern: /^[a-z0-9-]+$/,
+    usernameMaxLength: 100,
+    postNoun: 'update',
+    profileUrl: username => `https://www.linkedin.com/company/${username}`
+  }
+};
+
+/** Get config for a platform */
+export function getPlatformConfig(platform: LeadPlatform | null | undefined): PlatformConfig {
+  return PLATFORM_CONFIG[platform ?? DEFAULT_LEAD_PLATFORM];
+}
+
+/** Check if a platform can be analyzed */
+export function isPlatformEnabled(platform: LeadPlatform): boolean {
+  return PLATFORM_CONFIG[platform].enabled;
+}
+
+/** Platforms currently accepted for analysis */
+export function getEnabledPlatforms(): LeadPlatform[] {
+  return LEAD_PLATFORMS.filter(isPlatformEnabled);
+}
+
+/** Validate a handle against a platform's format */
+export function isValidPlatformUsername(platform: LeadPlatform, username: string): boolean {
+  const config = PLATFORM_CONFIG[platform];
+  return username.length <= config.usernameMaxLength && config.usernamePattern.test(username);
+}
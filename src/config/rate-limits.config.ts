@@ -171,6 +171,19 @@ export const WEBHOOK_RATE_LIMITS = {
   },
 } as const;
 
+/** API key rate limits (server-to-server, one bucket per key) */
+export const API_KEY_RATE_LIMITS = {
+  /**
+   * All endpoints reachable with an API key
+   * - Backend jobs poll and page through leads
+   * - Analyses stay limited by credits
+   */
+  DEFAULT: {
+    requests: 300,
+    windowSeconds: 60, // 300 per minute
+  },
+} as const;
+
 /** Billing rate limits */
 export const BILLING_RATE_LIMITS = {
   /** Subscription read */
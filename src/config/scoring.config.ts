@@ -0,0 +1,81 @@
+// config/scoring.config.ts
+
+/**
+ * LEAD SCORING CONFIGURATION
+ *
+ * Deep analysis scores a lead out of 100 points split across four components:
+ * - profileFit: how well the profile matches the business ICP (AI rated)
+ * - readiness: content quality and sophistication (pre-calculated)
+ * - partnerEngagement: active, engaged audience (pre-calculated)
+ * - authority: account maturity and credibility (pre-calculated)
+ *
+ * The overall score maps to a lead tier through the tier thresholds.
+ *
+ * Each business profile can override the weights and thresholds
+ * (business_profiles.scoring_config). Every override bumps the version, and
+ * each analysis stores the config it was scored with so historical scores
+ * stay explainable after the weights change.
+ */
+
+export interface ScoringWeights {
+  /** Points for ICP fit (AI rated) */
+  profileFit: number;
+  /** Points for content quality and sophistication */
+  readiness: number;
+  /** Points for audience engagement */
+  partnerEngagement: number;
+  /** Points for account maturity and credibility */
+  authority: number;
+}
+
+/** Minimum overall score for each tier (anything below cool is cold) */
+export interface TierThresholds {
+  hot: number;
+  warm: number;
+  cool: number;
+}
+
+export interface ScoringConfig {
+  /** 0 = built-in defaults, incremented on every business override */
+  version: number;
+  weights: ScoringWeights;
+  thresholds: TierThresholds;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  profileFit: 50,
+  readiness: 25,
+  partnerEngagement: 15,
+  authority: 10
+};
+
+export const DEFAULT_TIER_THRESHOLDS: TierThresholds = {
+  hot: 80,
+  warm: 60,
+  cool: 40
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  version: 0,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  thresholds: DEFAULT_TIER_THRESHOLDS
+};
+
+/** Weights must add up to the full score */
+export const SCORING_WEIGHTS_TOTAL = 100;
+
+/**
+ * Resolve the scoring config stored on a business profile
+ * Missing or partial configs fall back to the defaults
+ */
+export function resolveScoringConfig(stored: Partial<ScoringConfig> | null | undefined): ScoringConfig {
+  if (!stored) {
+    return DEFAULT_SCORING_CONFIG;
+  }
+
+  return {
+    version: stored.version ?? DEFAULT_SCORING_CONFIG.version,
+    weights: { ...DEFAULT_SCORING_WEIGHTS, ...stored.weights },
+    thresholds: { ...DEFAULT_TIER_THRESHOLDS, ...stored.thresholds }
+  };
+}
@@ -0,0 +1,64 @@
+// config/scraper-providers.config.ts
+
+import { SCRAPER_CONFIG, type ScraperConfig } from './operations-pricing.config';
+import type { LeadPlatform } from './platforms.config';
+
+/**
+ * SCRAPER PROVIDERS CONFIGURATION
+ *
+ * Failover chain per platform. Providers are tried in order; a provider whose
+ * recent error rate trips the circuit breaker is skipped until its cooldown
+ * ends (health is tracked in KV, see ScraperHealthTracker).
+ *
+ * Set SCRAPER_PROVIDER=fixture (non-production only) to replace every chain
+ * with recorded datasets for offline development.
+ */
+
+/** Official Apify Instagram profile actor (same dataset shape as the primary) */
+export const INSTAGRAM_FALLBACK_SCRAPER_CONFIG: ScraperConfig = {
+  name: 'apify_instagram_profile',
+  actor_id: 'apify~instagram-profile-scraper',
+  cost_per_run_usd: 0.0026,
+  timeout_ms: 90000,
+  max_retries: 2,
+  retry_delay_ms: 2000
+};
+
+export const TIKTOK_SCRAPER_CONFIG: ScraperConfig = {
+  name: 'clockworks_tiktok',
+  actor_id: 'clockworks~tiktok-scraper',
+  cost_per_run_usd: 0.003,
+  timeout_ms: 90000,
+  max_retries: 3,
+  retry_delay_ms: 2000
+};
+
+/**
+ * Apify actors per platform in failover order (empty = no scraper yet)
+ * Each actor's `name` doubles as its provider ID in health tracking and logs
+ */
+export const SCRAPER_PROVIDERS: Record<LeadPlatform, ScraperConfig[]> = {
+  instagram: [SCRAPER_CONFIG, INSTAGRAM_FALLBACK_SCRAPER_CONFIG],
+  tiktok: [TIKTOK_SCRAPER_CONFIG],
+  linkedin: []
+};
+
+/**
+ * Actor config behind a provider ID (ScrapeResult.provider)
+ * Undefined for providers that aren't Apify actors (fixtures)
+ */
+export function getScraperConfig(providerId: string): ScraperConfig | undefined {
+  return Object.values(SCRAPER_PROVIDERS).flat().find(config => config.name === providerId);
+}
+
+/** Circuit breaker settings for provider health */
+export const SCRAPER_HEALTH_CONFIG = {
+  /** Rolling window for error rate and latency */
+  window_ms: 15 * 60 * 1000,
+  /** Minimum attempts in the window before the breaker can trip */
+  min_samples: 5,
+  /** Error rate (0-1) that marks a provider unhealthy */
+  max_error_rate: 0.5,
+  /** How long an unhealthy provider is skipped */
+  cooldown_ms: 5 * 60 * 1000
+};
@@ -0,0 +1,85 @@
+// features/admin/admin-audit.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  AdminActor,
+  AdminAuditEntry,
+  AdminAuditEntryInput,
+  AuditLogQuery
+} from './admin.types';
+
+/**
+ * admin_audit_log row for an entry
+ * Shared with the RPCs that insert the entry in the same transaction as the action
+ */
+export function toAuditRow(actor: AdminActor, entry: AdminAuditEntryInput): Record<string, unknown> {
+  return {
+    admin_user_id: actor.userId,
+    admin_email: actor.email,
+    action: entry.action,
+    account_id: entry.accountId ?? null,
+    target_type: entry.targetType ?? null,
+    target_id: entry.targetId ?? null,
+    reason: entry.reason ?? null,
+    details: entry.details ?? {},
+    ip_address: actor.ipAddress
+  };
+}
+
+/**
+ * ADMIN AUDIT LOG
+ *
+ * Append-only record of every admin console action (admin_audit_log).
+ * This service only ever inserts and reads; nothing in the worker updates or
+ * deletes audit rows.
+ */
+export class AdminAuditService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Append an entry
+   * Throws when the write fails: an action that can't be audited must not
+   * report success (reads return nothing)
+   */
+  async record(actor: AdminActor, entry: AdminAuditEntryInput): Promise<AdminAuditEntry> {
+    const { data, error } = await this.supabase
+      .from('admin_audit_log')
+      .insert(toAuditRow(actor, entry))
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as AdminAuditEntry;
+  }
+
+  async list(query: AuditLogQuery): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+    const { adminUserId, accountId, action, page, pageSize } = query;
+    const offset = (page - 1) * pageSize;
+
+    let queryBuilder = this.supabase
+      .from('admin_audit_log')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (adminUserId) {
+      queryBuilder = queryBuilder.eq('admin_user_id', adminUserId);
+    }
+
+    if (accountId) {
+      queryBuilder = queryBuilder.eq('account_id', accountId);
+    }
+
+    if (action) {
+      queryBuilder = queryBuilder.eq('action', action);
+    }
+
+    const { data, error, count } = await queryBuilder;
+    if (error) throw error;
+
+    return {
+      entries: (data || []) as AdminAuditEntry[],
+      total: count || 0
+    };
+  }
+}
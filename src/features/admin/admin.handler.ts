@@ -0,0 +1,252 @@
+// features/admin/admin.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { AdminService } from './admin.service';
+import { AdminAuditService } from './admin-audit.service';
+import {
+  AccountSearchQuerySchema,
+  AccountParamsSchema,
+  AnalysisParamsSchema,
+  AdjustCreditsSchema,
+  AdminReasonSchema,
+  OperationsQuerySchema,
+  AuditLogQuerySchema
+} from './admin.types';
+import { ListTransactionsQuerySchema } from '@/features/credits/credits.types';
+import { getAdminActor } from '@/shared/middleware/auth.middleware';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, paginatedResponse, createdResponse } from '@/shared/utils/response.util';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+
+async function createService(c: Context<{ Bindings: Env }>): Promise<AdminService> {
+  const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+  return new AdminService(c.env, supabase);
+}
+
+/**
+ * GET /api/admin/accounts?email=... | ?username=...
+ * Find accounts by member email or analyzed lead username
+ */
+export async function searchAccounts(c: Context<{ Bindings: Env }>) {
+  try {
+    const query = validateQuery(AccountSearchQuerySchema, {
+      email: c.req.query('email'),
+      username: c.req.query('username')
+    });
+
+    const service = await createService(c);
+    const accounts = await service.searchAccounts(getAdminActor(c), query);
+
+    return successResponse(c, accounts);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to search accounts', {});
+  }
+}
+
+/**
+ * GET /api/admin/accounts/:accountId
+ * Account, owner, balances and subscription
+ */
+export async function getAccount(c: Context<{ Bindings: Env }>) {
+  try {
+    const { accountId } = validateQuery(AccountParamsSchema, { accountId: c.req.param('accountId') });
+
+    const service = await createService(c);
+    const overview = await service.getAccountOverview(getAdminActor(c), accountId);
+
+    return successResponse(c, overview);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get account', { accountId: c.req.param('accountId') });
+  }
+}
+
+/**
+ * GET /api/admin/accounts/:accountId/transactions
+ * The account's credit_ledger, newest first
+ */
+export async function listAccountTransactions(c: Context<{ Bindings: Env }>) {
+  try {
+    const { accountId } = validateQuery(AccountParamsSchema, { accountId: c.req.param('accountId') });
+    const query = validateQuery(ListTransactionsQuerySchema, {
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize'),
+      transactionType: c.req.query('transactionType'),
+      createdBy: c.req.query('createdBy')
+    });
+
+    const service = await createService(c);
+    const { transactions, total } = await service.listTransactions(getAdminActor(c), accountId, query);
+
+    return paginatedResponse(c, transactions, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list account transactions', { accountId: c.req.param('accountId') });
+  }
+}
+
+/**
+ * POST /api/admin/accounts/:accountId/credits
+ * Grant or revoke credits
+ */
+export async function adjustAccountCredits(c: Context<{ Bindings: Env }>) {
+  try {
+    const { accountId } = validateQuery(AccountParamsSchema, { accountId: c.req.param('accountId') });
+    const body = await c.req.json();
+    const input = validateBody(AdjustCreditsSchema, body);
+
+    const service = await createService(c);
+    const balances = await service.adjustCredits(getAdminActor(c), accountId, input);
+
+    return successResponse(c, balances);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to adjust credits', { accountId: c.req.param('accountId') });
+  }
+}
+
+/**
+ * POST /api/admin/accounts/:accountId/impersonate
+ * Read-only session token for the account owner
+ */
+export async function impersonateAccount(c: Context<{ Bindings: Env }>) {
+  try {
+    const { accountId } = validateQuery(AccountParamsSchema, { accountId: c.req.param('accountId') });
+    const body = await c.req.json();
+    const { reason } = validateBody(AdminReasonSchema, body);
+
+    const service = await createService(c);
+    const token = await service.impersonate(getAdminActor(c), accountId, reason);
+
+    return createdResponse(c, token);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to start impersonation', { accountId: c.req.param('accountId') });
+  }
+}
+
+/**
+ * GET /api/admin/analyses/:runId
+ * Analysis with its lead, operation costs and ledger entries
+ */
+export async function getAnalysis(c: Context<{ Bindings: Env }>) {
+  try {
+    const { runId } = validateQuery(AnalysisParamsSchema, { runId: c.req.param('runId') });
+
+    const service = await createService(c);
+    const detail = await service.getAnalysis(getAdminActor(c), runId);
+
+    return successResponse(c, detail);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get analysis', { runId: c.req.param('runId') });
+  }
+}
+
+/**
+ * POST /api/admin/analyses/:runId/rerun
+ * Start a new run for a failed or cancelled analysis
+ */
+export async function rerunAnalysis(c: Context<{ Bindings: Env }>) {
+  try {
+    const { runId } = validateQuery(AnalysisParamsSchema, { runId: c.req.param('runId') });
+    const body = await c.req.json();
+    const { reason } = validateBody(AdminReasonSchema, body);
+
+    const service = await createService(c);
+    const result = await service.rerunAnalysis(getAdminActor(c), runId, reason);
+
+    return createdResponse(c, result);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to re-run analysis', { runId: c.req.param('runId') });
+  }
+}
+
+/**
+ * POST /api/admin/analyses/:runId/refund
+ * Refund the charge of a failed analysis
+ */
+export async function refundAnalysis(c: Context<{ Bindings: Env }>) {
+  try {
+    const { runId } = validateQuery(AnalysisParamsSchema, { runId: c.req.param('runId') });
+    const body = await c.req.json();
+    const { reason } = validateBody(AdminReasonSchema, body);
+
+    const service = await createService(c);
+    const result = await service.refundAnalysis(getAdminActor(c), runId, reason);
+
+    return successResponse(c, result);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to refund analysis', { runId: c.req.param('runId') });
+  }
+}
+
+/**
+ * GET /api/admin/operations
+ * operations_ledger entries with cost totals
+ */
+export async function listOperations(c: Context<{ Bindings: Env }>) {
+  try {
+    const query = validateQuery(OperationsQuerySchema, {
+      accountId: c.req.query('accountId'),
+      operationType: c.req.query('operationType'),
+      operationId: c.req.query('operationId'),
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize')
+    });
+
+    const service = await createService(c);
+    const { entries, total, summary } = await service.listOperations(getAdminActor(c), query);
+
+    return paginatedResponse(c, entries, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    }, { summary });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list operations', {});
+  }
+}
+
+/**
+ * GET /api/admin/audit-log
+ * Admin actions, newest first
+ */
+export async function listAuditLog(c: Context<{ Bindings: Env }>) {
+  try {
+    const query = validateQuery(AuditLogQuerySchema, {
+      adminUserId: c.req.query('adminUserId'),
+      accountId: c.req.query('accountId'),
+      action: c.req.query('action'),
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const { entries, total } = await new AdminAuditService(supabase).list(query);
+
+    return paginatedResponse(c, entries, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list audit log', {});
+  }
+}
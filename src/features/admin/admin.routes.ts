@@ -0,0 +1,109 @@
+// features/admin/admin.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware, adminMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  searchAccounts,
+  getAccount,
+  listAccountTransactions,
+  adjustAccountCredits,
+  impersonateAccount,
+  getAnalysis,
+  rerunAnalysis,
+  refundAnalysis,
+  listOperations,
+  listAuditLog
+} from './admin.handler';
+
+/**
+ * ADMIN CONSOLE ROUTES
+ *
+ * Support tooling for Oslira staff. Requires a session whose JWT carries the
+ * admin claim (users.is_admin); API keys and impersonation sessions never do.
+ * Every action, reads included, is written to the append-only admin audit log.
+ */
+export function registerAdminRoutes(app: Hono<{ Bindings: Env }>) {
+
+  const prefixes = [
+    '/api/admin/accounts',
+    '/api/admin/accounts/*',
+    '/api/admin/analyses/*',
+    '/api/admin/operations',
+    '/api/admin/audit-log'
+  ];
+
+  for (const prefix of prefixes) {
+    app.use(prefix, authMiddleware);
+    app.use(prefix, rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+    app.use(prefix, adminMiddleware);
+  }
+
+  /**
+   * GET /api/admin/accounts
+   * Find accounts
+   * Query params: ?email=user@example.com | ?username=instagram_handle
+   */
+  app.get('/api/admin/accounts', searchAccounts);
+
+  /**
+   * GET /api/admin/accounts/:accountId
+   * Account, owner, balances and subscription
+   */
+  app.get('/api/admin/accounts/:accountId', getAccount);
+
+  /**
+   * GET /api/admin/accounts/:accountId/transactions
+   * Credit ledger
+   * Query params: ?page=1&pageSize=50&transactionType=...
+   */
+  app.get('/api/admin/accounts/:accountId/transactions', listAccountTransactions);
+
+  /**
+   * POST /api/admin/accounts/:accountId/credits
+   * Body: { action: 'grant'|'revoke', creditType: 'credits'|'light_analyses', amount: number, reason: string }
+   */
+  app.post('/api/admin/accounts/:accountId/credits', adjustAccountCredits);
+
+  /**
+   * POST /api/admin/accounts/:accountId/impersonate
+   * Body: { reason: string }
+   * Returns a 15-minute, GET-only viewer token for the account owner
+   */
+  app.post('/api/admin/accounts/:accountId/impersonate', impersonateAccount);
+
+  /**
+   * GET /api/admin/analyses/:runId
+   * Analysis, lead, operation costs and matching ledger entries
+   */
+  app.get('/api/admin/analyses/:runId', getAnalysis);
+
+  /**
+   * POST /api/admin/analyses/:runId/rerun
+   * Body: { reason: string }
+   * Failed or cancelled analyses only; the new run is charged as usual
+   */
+  app.post('/api/admin/analyses/:runId/rerun', rerunAnalysis);
+
+  /**
+   * POST /api/admin/analyses/:runId/refund
+   * Body: { reason: string }
+   * Failed analyses that were charged and not refunded yet
+   */
+  app.post('/api/admin/analyses/:runId/refund', refundAnalysis);
+
+  /**
+   * GET /api/admin/operations
+   * Query params: ?accountId=uuid&operationType=...&operationId=...&from=iso&to=iso&page=1&pageSize=50
+   * meta.summary totals costs over every matching row (last 30 days by default)
+   */
+  app.get('/api/admin/operations', listOperations);
+
+  /**
+   * GET /api/admin/audit-log
+   * Query params: ?adminUserId=uuid&accountId=uuid&action=...&page=1&pageSize=50
+   */
+  app.get('/api/admin/audit-log', listAuditLog);
+}
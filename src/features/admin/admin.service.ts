@@ -0,0 +1,829 @@
+// features/admin/admin.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { AdminAuditService, toAuditRow } from './admin-audit.service';
+import { CreditsService } from '@/features/credits/credits.service';
+import {
+  CreditsRepository,
+  getBalanceColumn,
+  type LedgerReference
+} from '@/infrastructure/database/repositories/credits.repository';
+import { AnalysisRepository, type Analysis } from '@/infrastructure/database/repositories/analysis.repository';
+import type { OperationLedgerEntry } from '@/infrastructure/database/repositories/operations-ledger.repository';
+import { MembershipService } from '@/infrastructure/auth/membership.service';
+import { JWTService } from '@/infrastructure/auth/jwt.service';
+import { publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
+import {
+  type AnalysisType,
+  type CreditType,
+  getCreditCost,
+  getCreditType
+} from '@/config/operations-pricing.config';
+import type { CreditBalance, CreditTransaction, ListTransactionsQuery } from '@/features/credits/credits.types';
+import type {
+  AdminActor,
+  AdminAccountMatch,
+  AdminAccountOverview,
+  AdminAnalysisDetail,
+  AdminOperationsSummary,
+  AccountSearchQuery,
+  AdjustCreditsInput,
+  AdminAuditEntryInput,
+  OperationsQuery,
+  ImpersonationToken
+} from './admin.types';
+import { generateId } from '@/shared/utils/id.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/** Accounts returned by one search */
+const SEARCH_RESULT_LIMIT = 20;
+
+/** Lead rows scanned for a username search (one per account and business) */
+const LEAD_SCAN_LIMIT = 200;
+
+/**
+ * Slack after a run finished when matching its ledger entries; the workflow
+ * refunds in its failure step, shortly after the run is marked failed
+ */
+const RUN_LEDGER_GRACE_MS = 60 * 1000;
+
+/** Default operations window */
+const OPERATIONS_DEFAULT_DAYS = 30;
+
+const OPERATIONS_SUMMARY_PAGE_SIZE = 1000;
+
+/** Rows read for an operations summary before it is reported as truncated */
+const OPERATIONS_SUMMARY_MAX_ROWS = 50000;
+
+interface AccountRow {
+  id: string;
+  name: string | null;
+  owner_id: string;
+  created_at: string;
+}
+
+/**
+ * ADMIN CONSOLE
+ *
+ * Support tooling for Oslira staff across every account. Each method records
+ * an admin_audit_log entry (reads included) before returning; when the audit
+ * write fails the call fails.
+ *
+ * Credit changes land in credit_ledger like any other transaction and survive
+ * balance reconciliation. They write their audit entry in the same transaction,
+ * so a change is never left unaudited.
+ */
+export class AdminService {
+  private audit: AdminAuditService;
+
+  constructor(
+    private env: Env,
+    private supabase: SupabaseClient
+  ) {
+    this.audit = new AdminAuditService(supabase);
+  }
+
+  // ===============================================================================
+  // ACCOUNTS
+  // ===============================================================================
+
+  /**
+   * Find accounts by a user's email (every account they belong to) or by the
+   * username of a lead the account analyzed
+   */
+  async searchAccounts(actor: AdminActor, query: AccountSearchQuery): Promise<AdminAccountMatch[]> {
+    const matches = query.email
+      ? await this.searchByEmail(query.email)
+      : await this.searchByLeadUsername(query.username!);
+
+    await this.audit.record(actor, {
+      action: 'account.search',
+      details: {
+        email: query.email ?? null,
+        username: query.username ?? null,
+        results: matches.length
+      }
+    });
+
+    return matches;
+  }
+
+  async getAccountOverview(actor: AdminActor, accountId: string): Promise<AdminAccountOverview> {
+    const account = await this.requireAccount(accountId);
+
+    const [ownerResult, balanceResult, subscriptionResult] = await Promise.all([
+      this.supabase
+        .from('users')
+        .select('id, email, full_name')
+        .eq('id', account.owner_id)
+        .maybeSingle(),
+      this.supabase
+        .from('balances')
+        .select('*')
+        .eq('account_id', accountId)
+        .maybeSingle(),
+      this.supabase
+        .from('subscriptions')
+        .select('plan_type, status, current_period_end')
+        .eq('account_id', accountId)
+        .maybeSingle()
+    ]);
+
+    if (ownerResult.error) throw ownerResult.error;
+    if (balanceResult.error) throw balanceResult.error;
+    if (subscriptionResult.error) throw subscriptionResult.error;
+
+    await this.audit.record(actor, { action: 'account.view', accountId });
+
+    return {
+      account,
+      owner: ownerResult.data,
+      balances: balanceResult.data as CreditBalance | null,
+      subscription: subscriptionResult.data
+    };
+  }
+
+  async listTransactions(
+    actor: AdminActor,
+    accountId: string,
+    query: ListTransactionsQuery
+  ): Promise<{ transactions: CreditTransaction[]; total: number }> {
+    await this.requireAccount(accountId);
+
+    const creditsService = new CreditsService(this.supabase, this.env);
+    const result = await creditsService.getTransactions(accountId, query);
+
+    await this.audit.record(actor, {
+      action: 'transactions.view',
+      accountId,
+      details: { page: query.page, transactionType: query.transactionType ?? null }
+    });
+
+    return result;
+  }
+
+  // ===============================================================================
+  // CREDITS
+  // ===============================================================================
+
+  /**
+   * Grant or revoke credits (admin_grant / admin_revoke ledger entries)
+   * A revoke can't take the balance below zero
+   */
+  async adjustCredits(actor: AdminActor, accountId: string, input: AdjustCreditsInput): Promise<CreditBalance> {
+    await this.requireAccount(accountId);
+
+    const { action, creditType, amount, reason } = input;
+
+    await this.applyCreditChange(actor, {
+      action: action === 'grant' ? 'credits.grant' : 'credits.revoke',
+      accountId,
+      reason,
+      details: { credit_type: creditType, amount }
+    }, {
+      creditType,
+      amount: action === 'grant' ? amount : -amount,
+      transactionType: action === 'grant' ? 'admin_grant' : 'admin_revoke',
+      description: action === 'grant' ? `Support grant: ${reason}` : `Support revoke: ${reason}`
+    });
+
+    logger.info('Admin credit adjustment', {
+      adminUserId: actor.userId,
+      accountId,
+      action,
+      creditType,
+      amount
+    });
+
+    await publishCreditsUpdated(this.env, accountId, 'adjustment');
+
+    return new CreditsService(this.supabase, this.env).getBalance(accountId);
+  }
+
+  // ===============================================================================
+  // ANALYSES
+  // ===============================================================================
+
+  async getAnalysis(actor: AdminActor, runId: string): Promise<AdminAnalysisDetail> {
+    const analysis = await this.requireAnalysis(runId);
+
+    const [leadResult, operationsResult, ledger] = await Promise.all([
+      this.supabase
+        .from('leads')
+        .select('id, username, platform')
+        .eq('id', analysis.lead_id)
+        .maybeSingle(),
+      this.supabase
+        .from('operations_ledger')
+        .select('*')
+        .eq('operation_id', runId)
+        .order('created_at', { ascending: true }),
+      this.findRunLedgerEntries(analysis)
+    ]);
+
+    if (leadResult.error) throw leadResult.error;
+    if (operationsResult.error) throw operationsResult.error;
+
+    await this.audit.record(actor, {
+      action: 'analysis.view',
+      accountId: analysis.account_id,
+      targetType: 'analysis_run',
+      targetId: runId
+    });
+
+    return {
+      analysis,
+      lead: leadResult.data,
+      operations: (operationsResult.data || []) as OperationLedgerEntry[],
+      ledger
+    };
+  }
+
+  /**
+   * Start a new run for the lead of a failed or cancelled analysis
+   * The new run charges credits through the workflow like any other analysis
+   */
+  async rerunAnalysis(
+    actor: AdminActor,
+    runId: string,
+    reason: string
+  ): Promise<{ run_id: string; original_run_id: string }> {
+    const analysis = await this.requireAnalysis(runId);
+
+    if (analysis.status !== 'failed' && analysis.status !== 'cancelled') {
+      throw new AppError(
+        `Only failed or cancelled analyses can be re-run (status: ${analysis.status})`,
+        409,
+        'ANALYSIS_NOT_FAILED'
+      );
+    }
+
+    const analysisType = this.requireChargeableType(analysis);
+
+    const { data: lead, error: leadError } = await this.supabase
+      .from('leads')
+      .select('id, username, platform')
+      .eq('id', analysis.lead_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (leadError) throw leadError;
+    if (!lead) {
+      throw new AppError('Lead of this analysis was deleted', 404, 'NOT_FOUND');
+    }
+
+    const analysisRepo = new AnalysisRepository(this.supabase);
+    const inProgress = await analysisRepo.findInProgressAnalysis(lead.id, analysis.account_id);
+    if (inProgress) {
+      throw new AppError('An analysis of this lead is already running', 409, 'DUPLICATE_ANALYSIS', {
+        run_id: inProgress.run_id
+      });
+    }
+
+    const creditsRepo = new CreditsRepository(this.supabase);
+    const hasBalance = await creditsRepo.hasSufficientBalanceForAnalysis(
+      analysis.account_id,
+      analysisType,
+      getCreditCost(analysisType)
+    );
+    if (!hasBalance) {
+      throw new AppError('Account balance is too low for the re-run', 402, 'INSUFFICIENT_BALANCE');
+    }
+
+    const newRunId = generateId('run');
+    const requestedBy = analysis.requested_by ?? null;
+
+    // create_admin_rerun inserts the pending lead_analyses row (started_at now)
+    // and the p_audit admin_audit_log row in one transaction, so the run only
+    // starts once it is audited
+    const { error: rerunError } = await this.supabase
+      .rpc('create_admin_rerun', {
+        p_analysis: {
+          run_id: newRunId,
+          lead_id: lead.id,
+          account_id: analysis.account_id,
+          business_profile_id: analysis.business_profile_id,
+          analysis_type: analysisType,
+          status: 'pending',
+          requested_by: requestedBy
+        },
+        p_audit: toAuditRow(actor, {
+          action: 'analysis.rerun',
+          accountId: analysis.account_id,
+          targetType: 'analysis_run',
+          targetId: runId,
+          reason,
+          details: { new_run_id: newRunId, analysis_type: analysisType }
+        })
+      });
+
+    if (rerunError) throw rerunError;
+
+    try {
+      await this.env.ANALYSIS_WORKFLOW.create({
+        id: newRunId,
+        params: {
+          run_id: newRunId,
+          account_id: analysis.account_id,
+          business_profile_id: analysis.business_profile_id,
+          username: lead.username,
+          platform: lead.platform,
+          analysis_type: analysisType,
+          requested_at: new Date().toISOString(),
+          requested_by: requestedBy
+        }
+      });
+    } catch (error) {
+      // Nothing was charged yet; close the run so it doesn't sit pending
+      await analysisRepo.updateAnalysis(newRunId, {
+        status: 'failed',
+        error_message: 'Re-run could not be started',
+        completed_at: new Date().toISOString()
+      });
+      throw error;
+    }
+
+    return { run_id: newRunId, original_run_id: runId };
+  }
+
+  /**
+   * Refund the charge of a failed analysis
+   *
+   * Credit charges and refunds reference their run_id; light analysis entries
+   * can't (their RPC takes no reference), so those are matched by credit type,
+   * amount and the run's time window. Refused when no charge is found (bulk
+   * runs are charged and refunded through their batch reservation) or when the
+   * run was already refunded by the workflow or an admin. Two light runs
+   * overlapping on one account can't be told apart - grant credits instead
+   * when the detail view shows that.
+   */
+  async refundAnalysis(
+    actor: AdminActor,
+    runId: string,
+    reason: string
+  ): Promise<{ run_id: string; credit_type: string; amount: number; balances: CreditBalance }> {
+    const analysis = await this.requireAnalysis(runId);
+
+    if (analysis.status !== 'failed') {
+      throw new AppError(
+        `Only failed analyses can be refunded (status: ${analysis.status})`,
+        409,
+        'ANALYSIS_NOT_FAILED'
+      );
+    }
+
+    const analysisType = this.requireChargeableType(analysis);
+    const cost = getCreditCost(analysisType);
+
+    const entries = await this.findRunLedgerEntries(analysis);
+
+    if (!entries.some(entry => entry.transaction_type === 'analysis' && entry.amount === -cost)) {
+      throw new AppError('No charge found for this analysis', 409, 'NOT_CHARGED');
+    }
+
+    if (entries.some(entry => entry.transaction_type === 'refund' && entry.amount === cost)) {
+      throw new AppError('This analysis was already refunded', 409, 'ALREADY_REFUNDED');
+    }
+
+    // The RPC refuses a second refund of the run, so concurrent refunds can't both land
+    await this.applyCreditChange(actor, {
+      action: 'analysis.refund',
+      accountId: analysis.account_id,
+      targetType: 'analysis_run',
+      targetId: runId,
+      reason,
+      details: { credit_type: getCreditType(analysisType), amount: cost }
+    }, {
+      creditType: getCreditType(analysisType),
+      amount: cost,
+      transactionType: 'refund',
+      description: `Support refund for failed analysis ${runId}`,
+      reference: { type: 'analysis_run', id: runId }
+    });
+
+    logger.info('Admin refunded failed analysis', {
+      adminUserId: actor.userId,
+      accountId: analysis.account_id,
+      runId,
+      amount: cost
+    });
+
+    await publishCreditsUpdated(this.env, analysis.account_id, 'refund');
+
+    const balances = await new CreditsService(this.supabase, this.env).getBalance(analysis.account_id);
+
+    return {
+      run_id: runId,
+      credit_type: getCreditType(analysisType),
+      amount: cost,
+      balances
+    };
+  }
+
+  // ===============================================================================
+  // OPERATIONS
+  // ===============================================================================
+
+  /**
+   * operations_ledger rows (newest first) with cost totals for the whole
+   * filtered window
+   */
+  async listOperations(
+    actor: AdminActor,
+    query: OperationsQuery
+  ): Promise<{ entries: OperationLedgerEntry[]; total: number; summary: AdminOperationsSummary }> {
+    const from = query.from
+      ?? new Date(Date.now() - OPERATIONS_DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const offset = (query.page - 1) * query.pageSize;
+
+    const { data, error, count } = await this.operationsQuery(query, from, '*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + query.pageSize - 1);
+
+    if (error) throw error;
+
+    const summary = await this.summarizeOperations(query, from);
+
+    await this.audit.record(actor, {
+      action: 'operations.view',
+      accountId: query.accountId ?? null,
+      details: {
+        from,
+        to: query.to ?? null,
+        operationType: query.operationType ?? null,
+        operationId: query.operationId ?? null
+      }
+    });
+
+    return {
+      entries: (data || []) as unknown as OperationLedgerEntry[],
+      total: count || 0,
+      summary
+    };
+  }
+
+  // ===============================================================================
+  // IMPERSONATION
+  // ===============================================================================
+
+  /**
+   * Short-lived viewer token for the account owner's session
+   * Carries impersonatedBy, which limits it to GET requests and keeps the
+   * admin claim off it. No refresh token: the admin asks again after expiry.
+   */
+  async impersonate(actor: AdminActor, accountId: string, reason: string): Promise<ImpersonationToken> {
+    const account = await this.requireAccount(accountId);
+
+    const { data: owner, error: ownerError } = await this.supabase
+      .from('users')
+      .select('id, email')
+      .eq('id', account.owner_id)
+      .maybeSingle();
+
+    if (ownerError) throw ownerError;
+    if (!owner) {
+      throw new AppError('Account owner not found', 404, 'NOT_FOUND');
+    }
+
+    const { data: businesses, error: businessError } = await this.supabase
+      .from('business_profiles')
+      .select('onboarding_completed')
+      .eq('account_id', accountId);
+
+    if (businessError) throw businessError;
+
+    const jwtService = new JWTService(this.env);
+    const accessToken = await jwtService.sign({
+      userId: owner.id,
+      accountId,
+      email: owner.email,
+      onboardingCompleted: businesses?.some(b => b.onboarding_completed) || false,
+      role: 'viewer',
+      impersonatedBy: actor.userId
+    });
+    const expiresAt = Date.now() + jwtService.getExpiryTime();
+
+    await this.audit.record(actor, {
+      action: 'impersonation.start',
+      accountId,
+      targetType: 'user',
+      targetId: owner.id,
+      reason,
+      details: { expires_at: new Date(expiresAt).toISOString() }
+    });
+
+    logger.warn('Admin impersonation started', {
+      adminUserId: actor.userId,
+      accountId,
+      userId: owner.id
+    });
+
+    return {
+      accessToken,
+      expiresAt,
+      accountId,
+      userId: owner.id,
+      role: 'viewer'
+    };
+  }
+
+  // ===============================================================================
+  // PRIVATE HELPERS
+  // ===============================================================================
+
+  private async requireAccount(accountId: string): Promise<AccountRow> {
+    const { data, error } = await this.supabase
+      .from('accounts')
+      .select('id, name, owner_id, created_at')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Account not found', 404, 'NOT_FOUND');
+    }
+
+    return data as AccountRow;
+  }
+
+  /**
+   * Load a run regardless of soft deletion: the hourly cleanup soft-deletes
+   * failed analyses, which are the ones support looks at
+   */
+  private async requireAnalysis(runId: string): Promise<Analysis> {
+    const { data, error } = await this.supabase
+      .from('lead_analyses')
+      .select('*')
+      .eq('run_id', runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Analysis not found', 404, 'NOT_FOUND');
+    }
+
+    return data as Analysis;
+  }
+
+  private requireChargeableType(analysis: Analysis): AnalysisType {
+    if (analysis.analysis_type !== 'light' && analysis.analysis_type !== 'deep') {
+      throw new AppError(
+        `Analysis type ${analysis.analysis_type} is not charged`,
+        409,
+        'NOT_CHARGED'
+      );
+    }
+    return analysis.analysis_type;
+  }
+
+  /**
+   * Change a balance and append the audit entry in one transaction
+   *
+   * apply_admin_credit_change locks the account's balances row, adds p_amount
+   * to p_balance_column (raising 'Insufficient balance' below zero), writes the
+   * credit_ledger entry with its reference and inserts p_audit into
+   * admin_audit_log with balance_after added to its details. A 'refund' whose
+   * reference already has a refund entry raises 'Already refunded'. Nothing is
+   * written when any part fails
+   */
+  private async applyCreditChange(
+    actor: AdminActor,
+    audit: AdminAuditEntryInput,
+    change: {
+      creditType: CreditType;
+      amount: number;
+      transactionType: string;
+      description: string;
+      reference?: LedgerReference;
+    }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .rpc('apply_admin_credit_change', {
+        p_account_id: audit.accountId,
+        p_balance_column: getBalanceColumn(change.creditType),
+        p_amount: change.amount,
+        p_transaction_type: change.transactionType,
+        p_description: change.description,
+        p_reference_type: change.reference?.type ?? null,
+        p_reference_id: change.reference?.id ?? null,
+        p_audit: toAuditRow(actor, audit)
+      });
+
+    if (error) {
+      if (error.message?.includes('Insufficient')) {
+        throw new AppError('Balance is lower than the amount to revoke', 409, 'INSUFFICIENT_BALANCE');
+      }
+      if (error.message?.includes('Already refunded')) {
+        throw new AppError('This analysis was already refunded', 409, 'ALREADY_REFUNDED');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Charges and refunds of the run's credit type between its start and
+   * shortly after it finished, minus those referencing another run
+   */
+  private async findRunLedgerEntries(analysis: Analysis): Promise<CreditTransaction[]> {
+    if (analysis.analysis_type !== 'light' && analysis.analysis_type !== 'deep') {
+      return [];
+    }
+
+    const start = analysis.started_at ?? analysis.created_at;
+    const end = new Date(
+      new Date(analysis.completed_at ?? analysis.updated_at).getTime() + RUN_LEDGER_GRACE_MS
+    ).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('credit_ledger')
+      .select('*')
+      .eq('account_id', analysis.account_id)
+      .eq('credit_type', getBalanceColumn(getCreditType(analysis.analysis_type)))
+      .in('transaction_type', ['analysis', 'refund'])
+      .gte('created_at', start)
+      .lte('created_at', end)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as CreditTransaction[]).filter(entry =>
+      entry.reference_type !== 'analysis_run' || entry.reference_id === analysis.run_id
+    );
+  }
+
+  private async searchByEmail(email: string): Promise<AdminAccountMatch[]> {
+    // ilike for case-insensitivity; '_' in addresses is a LIKE wildcard, so
+    // keep exact matches only
+    const { data: users, error } = await this.supabase
+      .from('users')
+      .select('id, email')
+      .ilike('email', email)
+      .limit(SEARCH_RESULT_LIMIT);
+
+    if (error) throw error;
+
+    const user = (users || []).find(row => row.email?.toLowerCase() === email.toLowerCase());
+    if (!user) return [];
+
+    const memberships = await new MembershipService(this.supabase).listForUser(user.id);
+    const accounts = await this.loadAccounts(memberships.map(m => m.account_id));
+
+    return memberships.slice(0, SEARCH_RESULT_LIMIT).flatMap(membership => {
+      const account = accounts.get(membership.account_id);
+      if (!account) return [];
+      return [{
+        account_id: membership.account_id,
+        account_name: account.name,
+        owner_id: account.owner_id,
+        owner_email: account.owner_email,
+        matched_by: 'email' as const,
+        role: membership.role
+      }];
+    });
+  }
+
+  private async searchByLeadUsername(username: string): Promise<AdminAccountMatch[]> {
+    const { data: leads, error } = await this.supabase
+      .from('leads')
+      .select('account_id, username')
+      .ilike('username', username)
+      .is('deleted_at', null)
+      .limit(LEAD_SCAN_LIMIT);
+
+    if (error) throw error;
+
+    const accountIds = [...new Set(
+      (leads || [])
+        .filter(lead => lead.username?.toLowerCase() === username)
+        .map(lead => lead.account_id as string)
+    )].slice(0, SEARCH_RESULT_LIMIT);
+
+    const accounts = await this.loadAccounts(accountIds);
+
+    return accountIds.flatMap(accountId => {
+      const account = accounts.get(accountId);
+      if (!account) return [];
+      return [{
+        account_id: accountId,
+        account_name: account.name,
+        owner_id: account.owner_id,
+        owner_email: account.owner_email,
+        matched_by: 'lead_username' as const,
+        role: null
+      }];
+    });
+  }
+
+  /**
+   * Accounts with their owner's email, keyed by account ID
+   */
+  private async loadAccounts(
+    accountIds: string[]
+  ): Promise<Map<string, { name: string | null; owner_id: string; owner_email: string | null }>> {
+    const result = new Map<string, { name: string | null; owner_id: string; owner_email: string | null }>();
+    if (accountIds.length === 0) return result;
+
+    const { data: accounts, error } = await this.supabase
+      .from('accounts')
+      .select('id, name, owner_id')
+      .in('id', accountIds);
+
+    if (error) throw error;
+
+    const ownerIds = [...new Set((accounts || []).map(account => account.owner_id as string))];
+    const { data: owners, error: ownerError } = ownerIds.length > 0
+      ? await this.supabase.from('users').select('id, email').in('id', ownerIds)
+      : { data: [], error: null };
+
+    if (ownerError) throw ownerError;
+
+    const emails = new Map((owners || []).map(owner => [owner.id as string, owner.email as string]));
+
+    for (const account of accounts || []) {
+      result.set(account.id, {
+        name: account.name ?? null,
+        owner_id: account.owner_id,
+        owner_email: emails.get(account.owner_id) ?? null
+      });
+    }
+
+    return result;
+  }
+
+  private operationsQuery(
+    query: OperationsQuery,
+    from: string,
+    columns: string,
+    options?: { count: 'exact' }
+  ) {
+    let builder = this.supabase
+      .from('operations_ledger')
+      .select(columns, options)
+      .gte('created_at', from);
+
+    if (query.to) {
+      builder = builder.lte('created_at', query.to);
+    }
+
+    if (query.accountId) {
+      builder = builder.eq('account_id', query.accountId);
+    }
+
+    if (query.operationType) {
+      builder = builder.eq('operation_type', query.operationType);
+    }
+
+    if (query.operationId) {
+      builder = builder.eq('operation_id', query.operationId);
+    }
+
+    return builder;
+  }
+
+  private async summarizeOperations(query: OperationsQuery, from: string): Promise<AdminOperationsSummary> {
+    const summary: AdminOperationsSummary = {
+      count: 0,
+      truncated: false,
+      total_usd: 0,
+      by_operation_type: {}
+    };
+
+    for (let offset = 0; ; offset += OPERATIONS_SUMMARY_PAGE_SIZE) {
+      if (offset >= OPERATIONS_SUMMARY_MAX_ROWS) {
+        summary.truncated = true;
+        break;
+      }
+
+      const { data, error } = await this.operationsQuery(query, from, 'id, operation_type, metrics')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + OPERATIONS_SUMMARY_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as Pick<OperationLedgerEntry, 'operation_type' | 'metrics'>[];
+
+      for (const row of rows) {
+        const cost = row.metrics?.cost?.total_usd ?? 0;
+        const bucket = summary.by_operation_type[row.operation_type]
+          ?? (summary.by_operation_type[row.operation_type] = { count: 0, total_usd: 0 });
+
+        bucket.count++;
+        bucket.total_usd += cost;
+        summary.count++;
+        summary.total_usd += cost;
+      }
+
+      if (rows.length < OPERATIONS_SUMMARY_PAGE_SIZE) break;
+    }
+
+    // Round away float noise from summing many small costs
+    summary.total_usd = Math.round(summary.total_usd * 1e6) / 1e6;
+    for (const bucket of Object.values(summary.by_operation_type)) {
+      bucket.total_usd = Math.round(bucket.total_usd * 1e6) / 1e6;
+    }
+
+    return summary;
+  }
+}
@@ -0,0 +1,195 @@
+// features/admin/admin.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import type { AccountRole } from '@/config/account-roles.config';
+import type { CreditBalance, CreditTransaction } from '@/features/credits/credits.types';
+import type { Analysis } from '@/infrastructure/database/repositories/analysis.repository';
+import type { OperationLedgerEntry } from '@/infrastructure/database/repositories/operations-ledger.repository';
+
+// ===============================================================================
+// AUDIT LOG
+// ===============================================================================
+
+/**
+ * Everything an admin can do, reads included: looking at a customer's data
+ * is logged the same way as changing it
+ */
+export const ADMIN_AUDIT_ACTIONS = [
+  'account.search',
+  'account.view',
+  'transactions.view',
+  'credits.grant',
+  'credits.revoke',
+  'analysis.view',
+  'analysis.rerun',
+  'analysis.refund',
+  'operations.view',
+  'impersonation.start',
+  'reconciliation.run',
+  'reconciliation.apply',
+  'reconciliation.dismiss'
+] as const;
+
+export type AdminAuditAction = typeof ADMIN_AUDIT_ACTIONS[number];
+
+/** Admin behind a request (from the JWT session) */
+export interface AdminActor {
+  userId: string;
+  email: string;
+  ipAddress: string | null;
+}
+
+export interface AdminAuditEntryInput {
+  action: AdminAuditAction;
+  /** Customer account the action concerned */
+  accountId?: string | null;
+  /** What was acted on (run_id, drift report ID, ...) */
+  targetType?: string;
+  targetId?: string;
+  reason?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Append-only row in admin_audit_log
+ * Rows are never updated or deleted
+ */
+export interface AdminAuditEntry {
+  id: string;
+  admin_user_id: string;
+  admin_email: string;
+  action: AdminAuditAction;
+  account_id: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  reason: string | null;
+  details: Record<string, unknown>;
+  ip_address: string | null;
+  created_at: string;
+}
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+/** Why the admin is doing this (support ticket, ...) - kept in the audit log */
+const ReasonSchema = z.string().trim().min(1).max(500);
+
+const RunIdSchema = z.string().startsWith('run_');
+
+export const AccountSearchQuerySchema = z.object({
+  email: z.string().trim().email().optional(),
+  /** Instagram username of a lead the account analyzed */
+  username: z.string().trim().transform(value => value.replace(/^@+/, '').toLowerCase())
+    .pipe(CommonSchemas.instagramUsername).optional()
+}).refine(data => !!data.email !== !!data.username, {
+  message: 'Provide either email or username'
+});
+
+export const AccountParamsSchema = z.object({
+  accountId: CommonSchemas.accountId
+});
+
+export const AnalysisParamsSchema = z.object({
+  runId: RunIdSchema
+});
+
+export const AdjustCreditsSchema = z.object({
+  action: z.enum(['grant', 'revoke']),
+  creditType: z.enum(['credits', 'light_analyses']),
+  amount: z.number().int().min(1).max(100000),
+  reason: ReasonSchema
+});
+
+export const AdminReasonSchema = z.object({
+  reason: ReasonSchema
+});
+
+export const OperationsQuerySchema = z.object({
+  accountId: CommonSchemas.accountId.optional(),
+  operationType: z.string().max(50).optional(),
+  /** run_id, job ID, ... */
+  operationId: z.string().max(100).optional(),
+  /** ISO date-time; defaults to 30 days ago */
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const AuditLogQuerySchema = z.object({
+  adminUserId: z.string().uuid().optional(),
+  accountId: CommonSchemas.accountId.optional(),
+  action: z.enum(ADMIN_AUDIT_ACTIONS).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export type AccountSearchQuery = z.infer<typeof AccountSearchQuerySchema>;
+export type AdjustCreditsInput = z.infer<typeof AdjustCreditsSchema>;
+export type OperationsQuery = z.infer<typeof OperationsQuerySchema>;
+export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>;
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export interface AdminAccountMatch {
+  account_id: string;
+  account_name: string | null;
+  owner_id: string;
+  owner_email: string | null;
+  matched_by: 'email' | 'lead_username';
+  /** Role of the matched user (email lookups) */
+  role: AccountRole | null;
+}
+
+export interface AdminAccountOverview {
+  account: {
+    id: string;
+    name: string | null;
+    owner_id: string;
+    created_at: string;
+  };
+  owner: {
+    id: string;
+    email: string;
+    full_name: string | null;
+  } | null;
+  balances: CreditBalance | null;
+  subscription: {
+    plan_type: string | null;
+    status: string;
+    current_period_end: string | null;
+  } | null;
+}
+
+export interface AdminAnalysisDetail {
+  analysis: Analysis;
+  lead: {
+    id: string;
+    username: string;
+    platform: string;
+  } | null;
+  /** operations_ledger rows for the run (costs) */
+  operations: OperationLedgerEntry[];
+  /** Charges and refunds of the run's credit type while it ran (matched by time) */
+  ledger: CreditTransaction[];
+}
+
+export interface AdminOperationsSummary {
+  count: number;
+  /** More rows matched than the summary reads; narrow the filters */
+  truncated: boolean;
+  total_usd: number;
+  by_operation_type: Record<string, { count: number; total_usd: number }>;
+}
+
+export interface ImpersonationToken {
+  accessToken: string;
+  expiresAt: number;
+  accountId: string;
+  userId: string;
+  role: 'viewer';
+}
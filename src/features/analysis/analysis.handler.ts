@@ -3,7 +3,7 @@
 import type { Context } from 'hono';
 import type { Env } from '@/shared/types/env.types';
 import { getAuthContext } from '@/shared/middleware/auth.middleware';
-import { validateBody } from '@/shared/utils/validation.util';
+import { validateBody, formatZodError } from '@/shared/utils/validation.util';
 import { successResponse, errorResponse } from '@/shared/utils/response.util';
 import { generateId } from '@/shared/utils/id.util';
 import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
@@ -12,13 +12,21 @@ import { AnalysisRepository } from '@/infrastructure/database/repositories/analy
 import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
 import { z } from 'zod';
 import { getCreditCost, getCreditType, type AnalysisType } from '@/config/operations-pricing.config';
+import {
+  LEAD_PLATFORMS,
+  DEFAULT_LEAD_PLATFORM,
+  getPlatformConfig,
+  isPlatformEnabled,
+  isValidPlatformUsername
+} from '@/config/platforms.config';
+import { BROADCAST_TOPICS, parseBroadcastTopics } from '@/config/broadcast-events.config';
 import { logger } from '@/shared/utils/logger.util';
 import { JWTService } from '@/infrastructure/auth/jwt.service';
 
 /**
  * ASYNC ANALYSIS HANDLERS
  * 
- * - POST /api/leads/analyze → Triggers workflow, returns immediately
+ * - POST /api/leads/analyze → Triggers workflow, returns immediately (any enabled platform)
  * - GET /api/analysis/:runId/progress → Get current progress
  * - POST /api/analysis/:runId/cancel → Cancel running analysis
  * - GET /api/analysis/:runId/result → Get final result
@@ -29,9 +37,26 @@ import { JWTService } from '@/infrastructure/auth/jwt.service';
 // ===============================================================================
 
 const AnalyzeLeadSchema = z.object({
-  username: z.string().min(1).max(50),
+  username: z.string().min(1).max(100),
+  platform: z.enum(LEAD_PLATFORMS).default(DEFAULT_LEAD_PLATFORM),
   businessProfileId: z.string().uuid(),
   analysisType: z.enum(['light', 'deep'])
+}).superRefine((data, ctx) => {
+  const { label } = getPlatformConfig(data.platform);
+
+  if (!isPlatformEnabled(data.platform)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['platform'],
+      message: `${label} analysis is not available yet`
+    });
+  } else if (!isValidPlatformUsername(data.platform, data.username)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['username'],
+      message: `Invalid ${label} username format`
+    });
+  }
 });
 
 const GetProgressParamsSchema = z.object({
@@ -52,7 +77,7 @@ const GetProgressParamsSchema = z.object({
  * POST /api/leads/analyze
  * Trigger async analysis workflow
  */
-export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
+export async function analyzeLead(c: Context<{ Bindings: Env }>) {
   const requestId = generateId('req');
   
   try {
@@ -95,7 +120,8 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
     const existingLead = await leadsRepo.findByUsername(
       auth.accountId,
       input.businessProfileId,
-      input.username
+      input.username,
+      input.platform
     );
 
     if (existingLead) {
@@ -130,6 +156,7 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
     const leadResult = await leadsRepo.upsertLead({
       account_id: auth.accountId,
       business_profile_id: input.businessProfileId,
+      platform: input.platform,
       username: input.username,
       follower_count: 0,
       following_count: 0,
@@ -146,7 +173,8 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
       account_id: auth.accountId,
       business_profile_id: input.businessProfileId,
       analysis_type: input.analysisType,
-      status: 'pending'
+      status: 'pending',
+      requested_by: auth.userId
     });
 
     logger.info('Created placeholder records for analysis', {
@@ -162,8 +190,10 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
       account_id: auth.accountId,
       business_profile_id: input.businessProfileId,
       username: input.username,
+      platform: input.platform,
       analysis_type: input.analysisType,
-      requested_at: new Date().toISOString()
+      requested_at: new Date().toISOString(),
+      requested_by: auth.userId
     };
 
     await c.env.ANALYSIS_WORKFLOW.create({ params: workflowParams });
@@ -172,6 +202,7 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
       requestId,
       runId,
       username: input.username,
+      platform: input.platform,
       analysisType: input.analysisType,
       analysisCost
     });
@@ -179,6 +210,7 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
     return successResponse(c, {
       run_id: runId,
       username: input.username,
+      platform: input.platform,
       analysis_type: input.analysisType,
       status: 'queued',
       message: 'Analysis queued successfully'
@@ -191,6 +223,10 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
       stack: error instanceof Error ? error.stack : undefined
     });
 
+    if (error instanceof z.ZodError) {
+      return errorResponse(c, 'Invalid request data', 'VALIDATION_ERROR', 400, formatZodError(error));
+    }
+
     if (error instanceof Error && error.message.includes('Insufficient') && error.message.includes('balance')) {
       return errorResponse(c, error.message, 'INSUFFICIENT_BALANCE', 402);
     }
@@ -209,44 +245,6 @@ export async function analyzeInstagramLead(c: Context<{ Bindings: Env }>) {
  * and database queries (/api/analysis/active).
  */
 
-/**
- * POST /api/internal/broadcast
- * Internal endpoint called by Workflows to broadcast progress updates
- *
- * SECURITY: This is called by Workflows (internal), not by external clients.
- * In production, add IP whitelist or internal auth token.
- */
-export async function internalBroadcast(c: Context<{ Bindings: Env }>) {
-  try {
-    const { accountId, type, runId, data } = await c.req.json();
-
-    if (!accountId || !type || !runId || !data) {
-      return errorResponse(c, 'Missing required fields', 'INVALID_INPUT', 400);
-    }
-
-    // Get broadcaster DO for this account
-    const broadcasterId = c.env.GLOBAL_BROADCASTER.idFromName(accountId);
-    const broadcasterDO = c.env.GLOBAL_BROADCASTER.get(broadcasterId);
-
-    // Forward broadcast request to DO
-    await broadcasterDO.fetch('http://do/broadcast', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        type,
-        runId,
-        data,
-        timestamp: Date.now()
-      })
-    });
-
-    return successResponse(c, { broadcasted: true });
-  } catch (error) {
-    logger.error('[InternalBroadcast] Failed', { error });
-    return errorResponse(c, 'Broadcast failed', 'BROADCAST_ERROR', 500);
-  }
-}
-
 /**
  * GET /api/analysis/ws
  * Global WebSocket connection for ALL analysis progress updates
@@ -255,6 +253,15 @@ export async function internalBroadcast(c: Context<{ Bindings: Env }>) {
  *
  * NOTE: WebSocket connections can't send Authorization headers in browsers,
  * so auth is handled via query parameter token.
+ *
+ * Resuming: every event carries a per-account `seq`. After a reconnect, pass
+ * `?since=<last seq seen>` to replay missed events before the `ready` message.
+ * `ready.resync: true` means the gap is no longer buffered; reload state from
+ * GET /api/analysis/active.
+ *
+ * Topics: every event type belongs to a topic (config/broadcast-events.config.ts).
+ * Pass `?topics=analysis,credits` to receive only those; send
+ * `{ type: 'subscribe', topics }` to change them later.
  */
 export async function globalWebSocketUpgrade(c: Context<{ Bindings: Env }>) {
   try {
@@ -279,6 +286,16 @@ export async function globalWebSocketUpgrade(c: Context<{ Bindings: Env }>) {
 
     const accountId = payload.accountId;
 
+    const since = c.req.query('since');
+    if (since !== undefined && !/^\d+$/.test(since)) {
+      return errorResponse(c, 'since must be a non-negative integer', 'INVALID_INPUT', 400);
+    }
+
+    const topics = c.req.query('topics');
+    if (topics !== undefined && !parseBroadcastTopics(topics)) {
+      return errorResponse(c, `topics must be a comma-separated list of: ${BROADCAST_TOPICS.join(', ')}`, 'INVALID_INPUT', 400);
+    }
+
     logger.info('[GlobalWebSocket] Upgrade request', {
       accountId,
       headers: Object.fromEntries(c.req.raw.headers.entries())
@@ -288,9 +305,18 @@ export async function globalWebSocketUpgrade(c: Context<{ Bindings: Env }>) {
     const broadcasterId = c.env.GLOBAL_BROADCASTER.idFromName(accountId);
     const broadcasterDO = c.env.GLOBAL_BROADCASTER.get(broadcasterId);
 
+    const doUrl = new URL('http://do/websocket');
+    doUrl.searchParams.set('accountId', accountId);
+    if (since !== undefined) {
+      doUrl.searchParams.set('since', since);
+    }
+    if (topics !== undefined) {
+      doUrl.searchParams.set('topics', topics);
+    }
+
     // Proxy WebSocket upgrade to DO
     return broadcasterDO.fetch(
-      `http://do/websocket?accountId=${accountId}`,
+      doUrl.toString(),
       {
         headers: c.req.raw.headers
       }
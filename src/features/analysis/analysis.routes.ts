@@ -6,9 +6,8 @@ import { authMiddleware } from '@/shared/middleware/auth.middleware';
 import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
 import { ANALYSIS_RATE_LIMITS, API_RATE_LIMITS } from '@/config/rate-limits.config';
 import {
-  analyzeInstagramLead,
+  analyzeLead,
   getActiveAnalyses,
-  internalBroadcast,
   globalWebSocketUpgrade
 } from './analysis.handler';
 
@@ -25,12 +24,8 @@ import {
 
 export function registerAnalysisRoutes(app: Hono<{ Bindings: Env }>) {
 
-  // Internal broadcast endpoint - called by Workflows
-  // Note: Endpoint is internal-only, called by Cloudflare Workflows (no external exposure)
-  app.post('/api/internal/broadcast', internalBroadcast);
-
   // Global WebSocket endpoint - authenticated via query parameter token
-  // Frontend connects once to receive ALL analysis progress updates
+  // Frontend connects once to receive ALL analysis progress updates (?since=<seq> replays missed events)
   app.get('/api/analysis/ws', globalWebSocketUpgrade);
 
   // All analysis routes require authentication
@@ -47,8 +42,9 @@ export function registerAnalysisRoutes(app: Hono<{ Bindings: Env }>) {
    * POST /api/leads/analyze
    * Trigger async analysis workflow
    * Returns immediately with run_id for tracking
+   * Body: { username, platform?: 'instagram' | 'tiktok' (default instagram), businessProfileId, analysisType }
    */
-  app.post('/api/leads/analyze', analyzeInstagramLead);
+  app.post('/api/leads/analyze', analyzeLead);
 
   /**
    * GET /api/analysis/active
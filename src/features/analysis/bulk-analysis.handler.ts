@@ -6,6 +6,21 @@ import { getAuthContext } from '@/shared/middleware/auth.middleware';
 import { validateBody } from '@/shared/utils/validation.util';
 import { successResponse, errorResponse } from '@/shared/utils/response.util';
 import { generateId } from '@/shared/utils/id.util';
+import {
+  BulkAnalysisService,
+  BULK_BATCH_MAX_SIZE,
+  type BulkBatchAction
+} from '@/infrastructure/batch/bulk-analysis.service';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { getCreditCost, getCreditType } from '@/config/operations-pricing.config';
+import type { BulkAnalysisQueueMessage } from '@/shared/types/env.types';
+import { logger } from '@/shared/utils/logger.util';
+import {
+  extractUsernamesFromCsv,
+  CSV_IMPORT_MAX_BYTES
+} from './bulk-csv-import.service';
 import { z } from 'zod';
 
 /**
@@ -15,10 +30,10 @@ import { z } from 'zod';
  * 
  * Features:
  * - Submit array of usernames (max 50 per batch)
- * - All analyses queued asynchronously
- * - Returns batch tracking ID
- * - Individual run IDs for each analysis
- * - Track batch progress
+ * - Batch persisted in BulkBatchDO (survives Worker restarts)
+ * - Per-username status, credit spend, failures and retries
+ * - Pause / resume / cancel
+ * - Aggregate progress pushed over the global WebSocket (batch.progress)
  * 
  * Use case: Analyze 20 prospects at once instead of one-by-one
  */
@@ -33,6 +48,13 @@ const BulkAnalyzeSchema = z.object({
   analysisType: z.enum(['light', 'deep'])
 });
 
+const BulkCsvImportSchema = z.object({
+  businessProfileId: z.string().uuid(),
+  analysisType: z.enum(['light', 'deep']),
+  column: z.string().min(1).max(100).optional(),
+  skipExisting: z.enum(['true', 'false']).default('true')
+});
+
 const BatchProgressSchema = z.object({
   batchId: z.string().startsWith('batch_')
 });
@@ -60,297 +82,336 @@ export async function bulkAnalyzeLeads(c: Context<{ Bindings: Env }>) {
     }
 
     // Business profile is already validated via authMiddleware + getAuthContext
+    // Full batch cost is reserved up front; each workflow draws from the hold
+
+    const bulkService = new BulkAnalysisService(c.env);
+    const summary = await bulkService.queueBatch({
+      accountId: auth.accountId,
+      businessProfileId: input.businessProfileId,
+      analysisType: input.analysisType,
+      usernames: uniqueUsernames,
+      requestedBy: auth.userId
+    });
 
-    // Estimate credit cost for bulk analysis
-    const creditCost = 1;
-    const totalCreditsNeeded = uniqueUsernames.length * creditCost;
-    // Note: Credit deduction happens per-analysis in the workflow
-
-    // Generate batch ID
-    const batchId = generateId('batch');
-
-    // Queue all analyses with batch processing
-    const analyses: Array<{
-      run_id: string;
-      username: string;
-      status: 'queued' | 'failed';
-    }> = [];
-
-    // Use BatchProcessor for intelligent batching (Apify limit: 10 concurrent)
-    const { BatchProcessor } = await import('@/infrastructure/batch/batch-processor.service');
-    const processor = new BatchProcessor({
-      batchSize: 10,      // 10 profiles per batch
-      maxConcurrent: 1,   // Sequential batches (Apify constraint)
-      retryAttempts: 3,
-      retryDelay: 5000
+    return c.json({
+      success: true,
+      data: {
+        ...summary,
+        batch_progress_url: `/api/leads/analyze/bulk/${summary.batch_id}/progress`,
+        message: `${summary.total_count} analyses queued`
+      }
+    }, 202); // 202 Accepted
+
+  } catch (error: any) {
+    logger.error('Bulk analysis queue failed', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
     });
 
-    // Process usernames in batches
-    const summary = await processor.processBatch(
-      uniqueUsernames,
-      async (username) => {
-        const runId = generateId('run');
-
-        // Trigger workflow for each username
-        await c.env.ANALYSIS_WORKFLOW.create({
-          params: {
-            run_id: runId,
-            account_id: auth.primaryAccountId,
-            business_profile_id: input.businessProfileId,
-            username: username,
-            analysis_type: input.analysisType,
-            requested_at: new Date().toISOString()
-          }
-        });
-
-        // Initialize progress tracker
-        const progressId = c.env.ANALYSIS_PROGRESS.idFromName(runId);
-        const progressDO = c.env.ANALYSIS_PROGRESS.get(progressId);
-        
-        await progressDO.fetch('http://do/initialize', {
-          method: 'POST',
-          body: JSON.stringify({
-            run_id: runId,
-            account_id: auth.primaryAccountId,
-            username: username,
-            analysis_type: input.analysisType
-          })
-        });
-
-        return { run_id: runId, username };
-      },
-      (completed, total) => {
-        console.log(`[BulkAnalysis] Progress: ${completed}/${total}`);
+    if (error.message?.includes('Insufficient')) {
+      return errorResponse(c, 'Insufficient balance to reserve bulk analysis', 'INSUFFICIENT_BALANCE', 402);
+    }
+
+    return errorResponse(c, 'Failed to queue bulk analysis', 'BULK_ANALYSIS_ERROR', 500);
+  }
+}
+
+/**
+ * POST /api/leads/analyze/bulk/csv
+ * Import a CSV of handles/profile URLs and queue analyses in chunks
+ *
+ * Accepts multipart/form-data (file field "file") or a raw text/csv body.
+ * Options come from form fields or query params:
+ * businessProfileId, analysisType, column (header name), skipExisting (default true)
+ *
+ * Chunks of 50 are queued through the bulk analysis queue so imports of
+ * thousands of rows don't exceed per-request subrequest limits.
+ */
+export async function importBulkAnalysisCsv(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+
+  try {
+    // Read file + options (multipart upload or raw CSV body)
+    let csvText: string;
+    let fields: Record<string, string | undefined> = {};
+
+    const contentType = c.req.header('Content-Type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const form = await c.req.parseBody();
+      const file = form['file'];
+
+      if (!file || typeof file === 'string') {
+        return errorResponse(c, 'Missing CSV file in "file" field', 'VALIDATION_ERROR', 400);
+      }
+      if (file.size > CSV_IMPORT_MAX_BYTES) {
+        return errorResponse(c, 'CSV file too large', 'FILE_TOO_LARGE', 413);
       }
-    );
 
-    // Collect results
-    for (const result of summary.results) {
-      if (result.result.success && result.result.data) {
-        analyses.push({
-          run_id: result.result.data.run_id,
-          username: result.result.data.username,
-          status: 'queued'
-        });
-      } else {
-        analyses.push({
-          run_id: 'failed',
-          username: result.item,
-          status: 'failed'
-        });
+      csvText = await file.text();
+      for (const key of ['businessProfileId', 'analysisType', 'column', 'skipExisting']) {
+        const value = form[key];
+        fields[key] = typeof value === 'string' ? value : undefined;
+      }
+    } else {
+      csvText = await c.req.text();
+      if (csvText.length > CSV_IMPORT_MAX_BYTES) {
+        return errorResponse(c, 'CSV file too large', 'FILE_TOO_LARGE', 413);
       }
     }
 
-    // Store batch metadata in KV for progress tracking
-    await c.env.OSLIRA_KV.put(
-      `batch:${batchId}`,
-      JSON.stringify({
-        batch_id: batchId,
-        account_id: auth.primaryAccountId,
+    const input = validateBody(BulkCsvImportSchema, {
+      businessProfileId: fields.businessProfileId ?? c.req.query('businessProfileId'),
+      analysisType: fields.analysisType ?? c.req.query('analysisType'),
+      column: fields.column ?? c.req.query('column'),
+      skipExisting: fields.skipExisting ?? c.req.query('skipExisting')
+    });
+
+    // Parse + normalize + de-duplicate within file
+    const parsed = extractUsernamesFromCsv(csvText, input.column);
+    if ('error' in parsed) {
+      return errorResponse(c, parsed.error, 'INVALID_CSV', 400);
+    }
+
+    // De-duplicate against existing leads for this business
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const leadsRepo = new LeadsRepository(supabase);
+
+    let toQueue = parsed.usernames;
+    let existingCount = 0;
+
+    if (input.skipExisting === 'true' && toQueue.length > 0) {
+      const existing = await leadsRepo.findExistingUsernames(
+        auth.accountId,
+        input.businessProfileId,
+        toQueue
+      );
+      existingCount = existing.size;
+      toQueue = toQueue.filter(username => !existing.has(username));
+    }
+
+    const report = {
+      total_rows: parsed.total_rows,
+      column: parsed.column,
+      valid: parsed.usernames.length,
+      invalid_count: parsed.invalid.length,
+      duplicate_rows: parsed.duplicate_rows,
+      skipped_existing: existingCount,
+      // Cap the row-level report to keep the response small
+      invalid_rows: parsed.invalid.slice(0, 200)
+    };
+
+    if (toQueue.length === 0) {
+      return successResponse(c, {
+        import_id: null,
+        queued: 0,
+        batches: [],
+        report,
+        message: 'No new usernames to analyze'
+      });
+    }
+
+    // Fail fast if the account can't cover the whole import
+    const analysisCost = getCreditCost(input.analysisType);
+    const creditsRepo = new CreditsRepository(supabase);
+    const hasBalance = await creditsRepo.hasSufficientBalanceForAnalysis(
+      auth.accountId,
+      input.analysisType,
+      analysisCost * toQueue.length
+    );
+
+    if (!hasBalance) {
+      const creditType = getCreditType(input.analysisType);
+      return errorResponse(
+        c,
+        `Insufficient ${creditType.replace('_', ' ')} balance for ${toQueue.length} analyses`,
+        'INSUFFICIENT_BALANCE',
+        402,
+        { required: analysisCost * toQueue.length, report }
+      );
+    }
+
+    // Split into bulk-sized chunks with pre-assigned batch IDs
+    const importId = generateId('import');
+    const requestedAt = new Date().toISOString();
+    const messages: BulkAnalysisQueueMessage[] = [];
+
+    for (let i = 0; i < toQueue.length; i += BULK_BATCH_MAX_SIZE) {
+      messages.push({
+        batch_id: generateId('batch'),
+        import_id: importId,
+        chunk_index: messages.length,
+        account_id: auth.accountId,
         business_profile_id: input.businessProfileId,
         analysis_type: input.analysisType,
-        total_count: uniqueUsernames.length,
-        analyses: analyses,
-        created_at: new Date().toISOString()
-      }),
-      {
-        expirationTtl: 7 * 24 * 60 * 60 // Expire after 7 days
-      }
-    );
+        usernames: toQueue.slice(i, i + BULK_BATCH_MAX_SIZE),
+        requested_at: requestedAt,
+        requested_by: auth.userId
+      });
+    }
 
-    const successCount = analyses.filter(a => a.status === 'queued').length;
-    const failedCount = analyses.filter(a => a.status === 'failed').length;
+    // sendBatch accepts at most 100 messages per call
+    for (let i = 0; i < messages.length; i += 100) {
+      await c.env.BULK_ANALYSIS_QUEUE.sendBatch(
+        messages.slice(i, i + 100).map(body => ({ body }))
+      );
+    }
 
-    return successResponse(c, {
-      batch_id: batchId,
-      total_count: uniqueUsernames.length,
-      queued: successCount,
-      failed: failedCount,
-      analyses: analyses.map(a => ({
-        username: a.username,
-        run_id: a.run_id,
-        status: a.status,
-        progress_url: a.status === 'queued' ? `/api/analysis/${a.run_id}/progress` : null
-      })),
-      batch_progress_url: `/api/leads/analyze/bulk/${batchId}/progress`,
-      message: `${successCount} analyses queued successfully${failedCount > 0 ? `, ${failedCount} failed` : ''}`
-    }, 202); // 202 Accepted
+    logger.info('CSV bulk import queued', {
+      importId,
+      accountId: auth.accountId,
+      businessProfileId: input.businessProfileId,
+      queued: toQueue.length,
+      chunks: messages.length,
+      invalid: parsed.invalid.length,
+      skippedExisting: existingCount
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        import_id: importId,
+        queued: toQueue.length,
+        batches: messages.map(m => ({
+          batch_id: m.batch_id,
+          count: m.usernames.length,
+          batch_progress_url: `/api/leads/analyze/bulk/${m.batch_id}/progress`
+        })),
+        report,
+        message: `${toQueue.length} analyses queued in ${messages.length} batches`
+      }
+    }, 202);
 
   } catch (error: any) {
-    console.error('[BulkAnalysis] Error:', error);
+    logger.error('CSV bulk import failed', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      accountId: auth.accountId
+    });
 
-    if (error.message.includes('Insufficient credits')) {
-      return errorResponse(c, 'Insufficient credits for bulk analysis', 'INSUFFICIENT_CREDITS', 402);
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid import options', 'VALIDATION_ERROR', 400, error.errors);
     }
 
-    return errorResponse(c, 'Failed to queue bulk analysis', 'BULK_ANALYSIS_ERROR', 500);
+    return errorResponse(c, 'Failed to import CSV', 'BULK_IMPORT_ERROR', 500);
   }
 }
 
 /**
  * GET /api/leads/analyze/bulk/:batchId/progress
- * Track batch progress
+ * Track batch progress (aggregate + per-username status)
  */
 export async function getBatchProgress(c: Context<{ Bindings: Env }>) {
   try {
     const auth = getAuthContext(c);
-    const batchId = c.req.param('batchId');
 
     // Validate batchId format
-    validateBody(BatchProgressSchema, { batchId });
+    const { batchId } = validateBody(BatchProgressSchema, { batchId: c.req.param('batchId') });
 
-    // Get batch metadata from KV
-    const batchData = await c.env.OSLIRA_KV.get(`batch:${batchId}`, 'json');
+    const bulkService = new BulkAnalysisService(c.env);
+    const batch = await bulkService.getBatch(auth.accountId, batchId);
 
-    if (!batchData) {
+    if (!batch) {
       return errorResponse(c, 'Batch not found or expired', 'NOT_FOUND', 404);
     }
 
-    const batch = batchData as any;
-
-    // Verify ownership
-    if (batch.account_id !== auth.primaryAccountId) {
-      return errorResponse(c, 'Unauthorized', 'UNAUTHORIZED', 403);
-    }
-
-    // Get progress for each analysis
-    const analysesWithProgress = await Promise.all(
-      batch.analyses.map(async (analysis: any) => {
-        if (analysis.status === 'failed' || analysis.run_id === 'failed') {
-          return {
-            username: analysis.username,
-            run_id: analysis.run_id,
-            status: 'failed',
-            progress: 0
-          };
-        }
-
-        try {
-          const progressId = c.env.ANALYSIS_PROGRESS.idFromName(analysis.run_id);
-          const progressDO = c.env.ANALYSIS_PROGRESS.get(progressId);
-          
-          const response = await progressDO.fetch('http://do/progress');
-          const progress = await response.json();
-
-          return {
-            username: analysis.username,
-            run_id: analysis.run_id,
-            status: progress.status,
-            progress: progress.progress,
-            current_step: progress.current_step
-          };
-        } catch (error) {
-          return {
-            username: analysis.username,
-            run_id: analysis.run_id,
-            status: 'unknown',
-            progress: 0
-          };
-        }
-      })
-    );
-
-    // Calculate batch statistics
-    const statusCounts = {
-      pending: 0,
-      processing: 0,
-      complete: 0,
-      failed: 0,
-      cancelled: 0,
-      unknown: 0
-    };
-
-    let totalProgress = 0;
-
-    for (const analysis of analysesWithProgress) {
-      const status = analysis.status as keyof typeof statusCounts;
-      if (status in statusCounts) {
-        statusCounts[status]++;
-      }
-      totalProgress += analysis.progress || 0;
-    }
-
-    const overallProgress = Math.floor(totalProgress / batch.total_count);
-    const isComplete = statusCounts.complete === batch.total_count;
-    const hasFailures = statusCounts.failed > 0;
+    const { summary, items } = batch;
+    const finished = summary.total_count - summary.counts.pending - summary.counts.dispatched;
 
     return successResponse(c, {
-      batch_id: batchId,
-      analysis_type: batch.analysis_type,
-      total_count: batch.total_count,
-      overall_progress: overallProgress,
-      is_complete: isComplete,
-      status_counts: statusCounts,
-      analyses: analysesWithProgress,
-      created_at: batch.created_at,
-      message: isComplete
+      ...summary,
+      is_complete: summary.status === 'complete',
+      analyses: items.map(item => ({
+        username: item.username,
+        run_id: item.run_id,
+        status: item.status,
+        attempts: item.attempts,
+        credits_spent: item.credits_spent,
+        error: item.error,
+        progress_url: item.status === 'dispatched' && item.run_id
+          ? `/api/analysis/${item.run_id}/progress`
+          : null
+      })),
+      message: summary.failure_reason
+        ? `Batch failed to start: ${summary.failure_reason}`
+        : summary.status === 'complete'
         ? 'Batch analysis complete'
-        : `${statusCounts.complete}/${batch.total_count} analyses complete`
+        : `${finished}/${summary.total_count} analyses finished`
     });
 
   } catch (error: any) {
-    console.error('[BulkAnalysis] Progress error:', error);
+    logger.error('Bulk batch progress failed', {
+      batchId: c.req.param('batchId'),
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid batch ID', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
     return errorResponse(c, 'Failed to get batch progress', 'PROGRESS_ERROR', 500);
   }
 }
 
+/**
+ * POST /api/leads/analyze/bulk/:batchId/pause
+ * Stop dispatching new analyses (in-flight analyses finish normally)
+ */
+export async function pauseBatch(c: Context<{ Bindings: Env }>) {
+  return controlBatch(c, 'pause');
+}
+
+/**
+ * POST /api/leads/analyze/bulk/:batchId/resume
+ * Continue dispatching a paused batch
+ */
+export async function resumeBatch(c: Context<{ Bindings: Env }>) {
+  return controlBatch(c, 'resume');
+}
+
 /**
  * POST /api/leads/analyze/bulk/:batchId/cancel
- * Cancel entire batch
+ * Cancel entire batch (pending usernames are never dispatched)
  */
 export async function cancelBatch(c: Context<{ Bindings: Env }>) {
+  return controlBatch(c, 'cancel');
+}
+
+async function controlBatch(c: Context<{ Bindings: Env }>, action: BulkBatchAction) {
   try {
     const auth = getAuthContext(c);
-    const batchId = c.req.param('batchId');
 
     // Validate batchId format
-    validateBody(BatchProgressSchema, { batchId });
+    const { batchId } = validateBody(BatchProgressSchema, { batchId: c.req.param('batchId') });
 
-    // Get batch metadata from KV
-    const batchData = await c.env.OSLIRA_KV.get(`batch:${batchId}`, 'json');
+    const bulkService = new BulkAnalysisService(c.env);
+    const batch = await bulkService.getBatch(auth.accountId, batchId);
 
-    if (!batchData) {
+    if (!batch) {
       return errorResponse(c, 'Batch not found or expired', 'NOT_FOUND', 404);
     }
 
-    const batch = batchData as any;
+    const result = await bulkService.controlBatch(batchId, action);
 
-    // Verify ownership
-    if (batch.account_id !== auth.primaryAccountId) {
-      return errorResponse(c, 'Unauthorized', 'UNAUTHORIZED', 403);
+    if ('error' in result) {
+      return errorResponse(c, result.error, 'INVALID_BATCH_STATE', 409, {
+        status: batch.summary.status
+      });
     }
 
-    // Cancel all in-progress analyses
-    let cancelledCount = 0;
-
-    for (const analysis of batch.analyses) {
-      if (analysis.status === 'failed' || analysis.run_id === 'failed') {
-        continue;
-      }
+    logger.info('Bulk batch updated', { batchId, action, accountId: auth.accountId });
 
-      try {
-        const progressId = c.env.ANALYSIS_PROGRESS.idFromName(analysis.run_id);
-        const progressDO = c.env.ANALYSIS_PROGRESS.get(progressId);
-        
-        await progressDO.fetch('http://do/cancel', {
-          method: 'POST'
-        });
-
-        cancelledCount++;
-      } catch (error) {
-        console.error(`[BulkAnalysis] Failed to cancel ${analysis.run_id}:`, error);
-      }
-    }
+    return successResponse(c, result.summary);
 
-    return successResponse(c, {
-      batch_id: batchId,
-      cancelled: cancelledCount,
-      total: batch.total_count,
-      message: `Cancelled ${cancelledCount}/${batch.total_count} analyses`
+  } catch (error: any) {
+    logger.error('Bulk batch control failed', {
+      action,
+      error: error instanceof Error ? error.message : String(error)
     });
 
-  } catch (error: any) {
-    console.error('[BulkAnalysis] Cancel error:', error);
-    return errorResponse(c, 'Failed to cancel batch', 'CANCEL_ERROR', 500);
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid batch ID', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
+    return errorResponse(c, `Failed to ${action} batch`, 'BATCH_CONTROL_ERROR', 500);
   }
 }
@@ -7,7 +7,10 @@ import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
 import { ANALYSIS_RATE_LIMITS } from '@/config/rate-limits.config';
 import {
   bulkAnalyzeLeads,
+  importBulkAnalysisCsv,
   getBatchProgress,
+  pauseBatch,
+  resumeBatch,
   cancelBatch
 } from './bulk-analysis.handler';
 
@@ -16,7 +19,10 @@ import {
  * 
  * Phase 5: Bulk operations
  * - POST /api/leads/analyze/bulk → Queue multiple analyses
+ * - POST /api/leads/analyze/bulk/csv → Import CSV and queue in chunks
  * - GET /api/leads/analyze/bulk/:batchId/progress → Track batch
+ * - POST /api/leads/analyze/bulk/:batchId/pause → Pause batch
+ * - POST /api/leads/analyze/bulk/:batchId/resume → Resume batch
  * - POST /api/leads/analyze/bulk/:batchId/cancel → Cancel batch
  */
 
@@ -27,6 +33,7 @@ export function registerBulkAnalysisRoutes(app: Hono<{ Bindings: Env }>): void {
 
   // Stricter rate limiting for bulk operations
   app.use('/api/leads/analyze/bulk', rateLimitMiddleware(ANALYSIS_RATE_LIMITS.BULK));
+  app.use('/api/leads/analyze/bulk/csv', rateLimitMiddleware(ANALYSIS_RATE_LIMITS.BULK));
 
   /**
    * POST /api/leads/analyze/bulk
@@ -35,15 +42,34 @@ export function registerBulkAnalysisRoutes(app: Hono<{ Bindings: Env }>): void {
    */
   app.post('/api/leads/analyze/bulk', bulkAnalyzeLeads);
 
+  /**
+   * POST /api/leads/analyze/bulk/csv
+   * Upload CSV of handles/URLs (up to 5000 rows)
+   * Invalid rows and duplicates are reported; existing leads skipped by default
+   */
+  app.post('/api/leads/analyze/bulk/csv', importBulkAnalysisCsv);
+
   /**
    * GET /api/leads/analyze/bulk/:batchId/progress
    * Get batch progress and individual analysis statuses
    */
   app.get('/api/leads/analyze/bulk/:batchId/progress', getBatchProgress);
 
+  /**
+   * POST /api/leads/analyze/bulk/:batchId/pause
+   * Stop dispatching pending analyses
+   */
+  app.post('/api/leads/analyze/bulk/:batchId/pause', pauseBatch);
+
+  /**
+   * POST /api/leads/analyze/bulk/:batchId/resume
+   * Continue a paused batch
+   */
+  app.post('/api/leads/analyze/bulk/:batchId/resume', resumeBatch);
+
   /**
    * POST /api/leads/analyze/bulk/:batchId/cancel
-   * Cancel all in-progress analyses in batch
+   * Cancel pending analyses in batch (in-flight analyses finish)
    */
   app.post('/api/leads/analyze/bulk/:batchId/cancel', cancelBatch);
 }
@@ -0,0 +1,296 @@
+// features/analysis/bulk-csv-import.service.ts
+
+import { CommonSchemas } from '@/shared/utils/validation.util';
+
+/**
+ * BULK CSV IMPORT
+ *
+ * Turns an uploaded spreadsheet export into a clean list of Instagram usernames.
+ *
+ * Accepts per row:
+ * - Bare handles: nike, @nike
+ * - Profile URLs: https://www.instagram.com/nike/, instagram.com/nike?igsh=..., instagr.am/nike
+ *
+ * Rejects (reported back as invalid rows):
+ * - Post/reel/story URLs and other non-profile Instagram paths
+ * - Non-Instagram URLs
+ * - Values that fail the Instagram username format
+ */
+
+export const CSV_IMPORT_MAX_ROWS = 5000;
+export const CSV_IMPORT_MAX_BYTES = 2 * 1024 * 1024;
+
+/** Header keywords recognized as the handle column (after normalizing to snake_case) */
+const HANDLE_HEADER_KEYWORDS = ['instagram', 'username', 'handle', 'ig'];
+
+/** Generic header names used as a fallback when no keyword matches */
+const HANDLE_HEADER_FALLBACKS = ['profile', 'profile_url', 'url', 'link'];
+
+/** First path segments that are Instagram pages, not profiles */
+const RESERVED_INSTAGRAM_PATHS = new Set([
+  'p', 'reel', 'reels', 'tv', 'stories', 'explore', 'accounts', 'direct',
+  'about', 'developer', 'legal', 'web', 'challenge', 'emails', 'privacy'
+]);
+
+export interface CsvImportInvalidRow {
+  row: number;
+  value: string;
+  reason: string;
+}
+
+export interface CsvImportParseResult {
+  /** Unique normalized usernames, in file order */
+  usernames: string[];
+  invalid: CsvImportInvalidRow[];
+  /** Rows whose username already appeared earlier in the file */
+  duplicate_rows: number;
+  total_rows: number;
+  /** Header used for the handle column, null when the file has no header */
+  column: string | null;
+}
+
+// ===============================================================================
+// CSV PARSING
+// ===============================================================================
+
+/**
+ * Pick the delimiter from the first line (Excel uses ';' in many locales)
+ */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF/LF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM added by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0]);
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop fully empty lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// ===============================================================================
+// NORMALIZATION
+// ===============================================================================
+
+/**
+ * Normalize a handle or profile URL to a lowercase Instagram username
+ * Returns the reason string when the value can't be used
+ */
+export function normalizeInstagramHandle(raw: string): { username: string } | { reason: string } {
+  let value = raw.trim();
+
+  if (!value) {
+    return { reason: 'Empty value' };
+  }
+
+  // Anything with a scheme or a domain-like prefix followed by a path is a URL
+  if (/^https?:\/\//i.test(value) || /^([a-z0-9-]+\.)+[a-z]{2,}\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    } catch {
+      return { reason: 'Malformed URL' };
+    }
+
+    const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+    if (host !== 'instagram.com' && host !== 'instagr.am') {
+      return { reason: 'Not an Instagram URL' };
+    }
+
+    const segment = url.pathname.split('/').filter(Boolean)[0];
+    if (!segment) {
+      return { reason: 'URL has no profile path' };
+    }
+    if (RESERVED_INSTAGRAM_PATHS.has(segment.toLowerCase())) {
+      return { reason: 'URL is not a profile link' };
+    }
+
+    value = segment;
+  }
+
+  value = value.replace(/^@+/, '').toLowerCase();
+
+  const parsed = CommonSchemas.instagramUsername.safeParse(value);
+  if (!parsed.success) {
+    return { reason: parsed.error.errors[0]?.message || 'Invalid Instagram username format' };
+  }
+
+  return { username: parsed.data };
+}
+
+// ===============================================================================
+// IMPORT
+// ===============================================================================
+
+/** "Instagram URL" → "instagram_url" */
+function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Locate the handle column
+ * Priority: explicit column name → known header name → first column that normalizes
+ */
+function resolveHandleColumn(
+  rows: string[][],
+  requestedColumn?: string
+): { index: number; hasHeader: boolean; column: string | null } | { error: string } {
+  const header = rows[0].map(cell => cell.trim());
+  const headerKeys = header.map(normalizeHeader);
+
+  if (requestedColumn) {
+    const index = headerKeys.indexOf(normalizeHeader(requestedColumn));
+    if (index === -1) {
+      return { error: `Column '${requestedColumn}' not found in CSV header` };
+    }
+    return { index, hasHeader: true, column: header[index] };
+  }
+
+  let knownIndex = headerKeys.findIndex(key =>
+    key.split('_').some(word => HANDLE_HEADER_KEYWORDS.includes(word))
+  );
+  if (knownIndex === -1) {
+    knownIndex = headerKeys.findIndex(key => HANDLE_HEADER_FALLBACKS.includes(key));
+  }
+  if (knownIndex !== -1) {
+    return { index: knownIndex, hasHeader: true, column: header[knownIndex] };
+  }
+
+  // No recognizable header: pick the column where most sampled rows normalize
+  const sample = rows.slice(0, 50);
+  const width = Math.max(...sample.map(r => r.length));
+  let bestIndex = 0;
+  let bestHits = -1;
+
+  for (let col = 0; col < width; col++) {
+    const hits = sample.filter(r => r[col] !== undefined && 'username' in normalizeInstagramHandle(r[col])).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestIndex = col;
+    }
+  }
+
+  // Treat the first row as a header only if it doesn't itself look like data
+  const firstRowValid = header[bestIndex] !== undefined && 'username' in normalizeInstagramHandle(header[bestIndex]);
+  return {
+    index: bestIndex,
+    hasHeader: !firstRowValid,
+    column: firstRowValid ? null : header[bestIndex] || null
+  };
+}
+
+/**
+ * Parse uploaded CSV into unique usernames plus a report of unusable rows
+ */
+export function extractUsernamesFromCsv(
+  text: string,
+  requestedColumn?: string
+): CsvImportParseResult | { error: string } {
+  const rows = parseCsv(text);
+
+  if (rows.length === 0) {
+    return { error: 'CSV file is empty' };
+  }
+
+  const resolved = resolveHandleColumn(rows, requestedColumn);
+  if ('error' in resolved) {
+    return resolved;
+  }
+
+  const dataRows = resolved.hasHeader ? rows.slice(1) : rows;
+  if (dataRows.length > CSV_IMPORT_MAX_ROWS) {
+    return { error: `CSV exceeds ${CSV_IMPORT_MAX_ROWS} rows` };
+  }
+
+  const seen = new Set<string>();
+  const usernames: string[] = [];
+  const invalid: CsvImportInvalidRow[] = [];
+  let duplicateRows = 0;
+
+  dataRows.forEach((row, i) => {
+    // 1-based row numbers as shown in a spreadsheet
+    const rowNumber = i + (resolved.hasHeader ? 2 : 1);
+    const value = (row[resolved.index] ?? '').trim();
+    const result = normalizeInstagramHandle(value);
+
+    if ('reason' in result) {
+      invalid.push({ row: rowNumber, value, reason: result.reason });
+      return;
+    }
+
+    if (seen.has(result.username)) {
+      duplicateRows++;
+      return;
+    }
+
+    seen.add(result.username);
+    usernames.push(result.username);
+  });
+
+  return {
+    usernames,
+    invalid,
+    duplicate_rows: duplicateRows,
+    total_rows: dataRows.length,
+    column: resolved.hasHeader ? resolved.column : null
+  };
+}
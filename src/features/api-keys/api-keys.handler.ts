@@ -0,0 +1,125 @@
+// features/api-keys/api-keys.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import type { CreatedApiKeyResponse } from './api-keys.types';
+import { CreateApiKeySchema, ApiKeyParamsSchema } from './api-keys.types';
+import { ApiKeyService } from '@/infrastructure/auth/api-key.service';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, errorResponse, createdResponse, noContentResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/api-keys
+ * Create an API key; the key is returned once and only its hash is stored
+ */
+export async function createApiKey(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateApiKeySchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new ApiKeyService(supabase);
+    const { record, key } = await service.create(
+      accountId,
+      auth.userId,
+      input.name,
+      input.scopes,
+      input.expiresInDays
+    );
+
+    logger.info('API key created', {
+      keyId: record.id,
+      accountId,
+      scopes: record.scopes
+    });
+
+    const response: CreatedApiKeyResponse = { ...record, key };
+    return createdResponse(c, response);
+
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return errorResponse(c, error.message, error.code, error.statusCode, error.details);
+    }
+
+    logger.error('Failed to create API key', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      accountId
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid request data', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
+    return errorResponse(c, 'Failed to create API key', 'INTERNAL_ERROR', 500);
+  }
+}
+
+/**
+ * GET /api/api-keys
+ * List API keys for account (including revoked, for audit)
+ */
+export async function listApiKeys(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new ApiKeyService(supabase);
+    const keys = await service.list(accountId);
+
+    return successResponse(c, keys);
+
+  } catch (error: any) {
+    logger.error('Failed to list API keys', {
+      error: error instanceof Error ? error.message : String(error),
+      accountId
+    });
+
+    return errorResponse(c, 'Failed to list API keys', 'INTERNAL_ERROR', 500);
+  }
+}
+
+/**
+ * DELETE /api/api-keys/:keyId
+ * Revoke API key (takes effect on the next request)
+ */
+export async function revokeApiKey(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { keyId } = validateQuery(ApiKeyParamsSchema, { keyId: c.req.param('keyId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new ApiKeyService(supabase);
+    const revoked = await service.revoke(accountId, keyId);
+
+    if (!revoked) {
+      return errorResponse(c, 'API key not found', 'NOT_FOUND', 404);
+    }
+
+    logger.info('API key revoked', { keyId, accountId, revokedBy: auth.userId });
+
+    return noContentResponse(c);
+
+  } catch (error: any) {
+    logger.error('Failed to revoke API key', {
+      error: error instanceof Error ? error.message : String(error),
+      accountId
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid key ID', 'VALIDATION_ERROR', 400);
+    }
+
+    return errorResponse(c, 'Failed to revoke API key', 'INTERNAL_ERROR', 500);
+  }
+}
@@ -0,0 +1,44 @@
+// features/api-keys/api-keys.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import { createApiKey, listApiKeys, revokeApiKey } from './api-keys.handler';
+
+/**
+ * API KEY ROUTES
+ *
+ * Key management requires a signed-in session: authMiddleware rejects API
+ * keys on these paths (no scope maps to them), so keys can't mint keys.
+ */
+export function registerApiKeyRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All API key routes require authentication
+  app.use('/api/api-keys', authMiddleware);
+  app.use('/api/api-keys/*', authMiddleware);
+
+  // Apply write rate limiting (key management is rare)
+  app.use('/api/api-keys', rateLimitMiddleware(API_RATE_LIMITS.WRITE));
+  app.use('/api/api-keys/*', rateLimitMiddleware(API_RATE_LIMITS.WRITE));
+
+  /**
+   * POST /api/api-keys
+   * Create key; response includes the plaintext key (shown once)
+   * Body: { name: string, scopes: ['leads:read', 'analysis:write', ...], expiresInDays?: number }
+   */
+  app.post('/api/api-keys', createApiKey);
+
+  /**
+   * GET /api/api-keys
+   * List keys with prefix, scopes and last-used timestamp
+   */
+  app.get('/api/api-keys', listApiKeys);
+
+  /**
+   * DELETE /api/api-keys/:keyId
+   * Revoke key
+   */
+  app.delete('/api/api-keys/:keyId', revokeApiKey);
+}
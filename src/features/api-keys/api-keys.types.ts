@@ -0,0 +1,42 @@
+// features/api-keys/api-keys.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import { API_KEY_SCOPES } from '@/config/api-key-scopes.config';
+import type { ApiKeyRecord } from '@/features/auth/auth.types';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
+
+export const ApiKeyParamsSchema = z.object({
+  keyId: CommonSchemas.uuid
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+/**
+ * Key as returned by list (hash never leaves the database)
+ */
+export type ApiKeyResponse = Omit<ApiKeyRecord, 'key_hash'>;
+
+/**
+ * Create response - the only time the plaintext key is returned
+ */
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+  key: string;
+}
+
+// ===============================================================================
+// TYPE EXPORTS
+// ===============================================================================
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
@@ -7,6 +7,7 @@
  * - POST /api/auth/logout - Revoke refresh token
  * - GET /api/auth/session - Fetch current user data (requires auth)
  * - GET /api/auth/bootstrap - Single source for all init data (requires auth)
+ * - POST /api/auth/switch-account - Issue tokens for another account the user belongs to (requires auth)
  */
 
 import type { Context } from 'hono';
@@ -19,11 +20,14 @@ import type {
   LogoutRequest,
   SessionResponse,
   BootstrapResponse,
+  SwitchAccountRequest,
+  SwitchAccountResponse,
 } from './auth.types';
 
 import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
 import { JWTService } from '@/infrastructure/auth/jwt.service';
 import { TokenService } from '@/infrastructure/auth/token.service';
+import { MembershipService } from '@/infrastructure/auth/membership.service';
 import { GoogleOAuthService } from '@/infrastructure/auth/google-oauth.service';
 import { getAuthContext } from '@/shared/middleware/auth.middleware';
 import { successResponse, errorResponse } from '@/shared/utils/response.util';
@@ -144,12 +148,20 @@ export async function handleGoogleCallback(c: Context<{ Bindings: Env }>): Promi
       }
     }
 
+    const { data: staff } = await supabase
+      .from('users')
+      .select('is_admin')
+      .eq('id', accountData.user_id)
+      .maybeSingle();
+
     const jwtService = new JWTService(c.env);
     const accessToken = await jwtService.sign({
       userId: accountData.user_id,
       accountId: accountData.account_id,
       email: accountData.email,
-      onboardingCompleted: accountData.onboarding_completed
+      onboardingCompleted: accountData.onboarding_completed,
+      role: 'owner',
+      admin: staff?.is_admin === true
     });
 
     const tokenService = new TokenService(supabase);
@@ -211,6 +223,14 @@ export async function handleRefresh(c: Context<{ Bindings: Env }>): Promise<Resp
       return c.json({ error: 'Invalid or expired refresh token' }, 401);
     }
 
+    // Removed team members lose access here, at most 15 minutes after removal
+    const role = await new MembershipService(supabase).getRole(tokenData.account_id, tokenData.user_id);
+
+    if (!role) {
+      await tokenService.revoke(body.refreshToken);
+      return c.json({ error: 'No longer a member of this account' }, 401);
+    }
+
     const newRefreshToken = await tokenService.rotate(
       body.refreshToken,
       tokenData.user_id,
@@ -219,7 +239,7 @@ export async function handleRefresh(c: Context<{ Bindings: Env }>): Promise<Resp
 
     const { data: user } = await supabase
       .from('users')
-      .select('email')
+      .select('email, is_admin')
       .eq('id', tokenData.user_id)
       .single();
 
@@ -234,7 +254,10 @@ export async function handleRefresh(c: Context<{ Bindings: Env }>): Promise<Resp
       userId: tokenData.user_id,
       accountId: tokenData.account_id,
       email: user?.email || tokenData.user_id,
-      onboardingCompleted: hasCompletedBusiness
+      onboardingCompleted: hasCompletedBusiness,
+      role,
+      // Re-read on every refresh, so revoking staff access takes effect within 15 minutes
+      admin: user?.is_admin === true
     });
 
     const response: RefreshResponse = {
@@ -329,7 +352,10 @@ export async function handleGetSession(c: Context<{ Bindings: Env }>): Promise<R
         userId: auth.userId,
         accountId: auth.accountId,
         email: user.email,
-        onboardingCompleted: hasCompletedBusiness
+        onboardingCompleted: hasCompletedBusiness,
+        role: auth.role,
+        admin: auth.admin,
+        impersonatedBy: auth.impersonatedBy
       });
     }
 
@@ -379,14 +405,16 @@ export async function handleBootstrap(c: Context<{ Bindings: Env }>): Promise<Re
   try {
     const supabase = await SupabaseClientFactory.createAdminClient(c.env);
 
-    const { data, error } = await supabase
-      .from('users')
-      .select(`
-        id,
-        email,
-        full_name,
-        avatar_url,
-        accounts!fk_accounts_owner (
+    // Token's account, which may be a team account the user doesn't own
+    const [userResult, accountResult, memberships] = await Promise.all([
+      supabase
+        .from('users')
+        .select('id, email, full_name, avatar_url')
+        .eq('id', auth.userId)
+        .single(),
+      supabase
+        .from('accounts')
+        .select(`
           id,
           name,
           balances (
@@ -408,20 +436,25 @@ export async function handleBootstrap(c: Context<{ Bindings: Env }>): Promise<Re
             stripe_customer_id_live,
             stripe_customer_id_test
           )
-        )
-      `)
-      .eq('id', auth.userId)
-      .single();
-
-    if (error || !data) {
-      logger.error('Bootstrap user not found', { userId: auth.userId, error: error?.message });
+        `)
+        .eq('id', auth.accountId)
+        .single(),
+      new MembershipService(supabase).listForUser(auth.userId)
+    ]);
+
+    if (userResult.error || !userResult.data || accountResult.error || !accountResult.data) {
+      logger.error('Bootstrap user not found', {
+        userId: auth.userId,
+        accountId: auth.accountId,
+        error: userResult.error?.message || accountResult.error?.message
+      });
       return errorResponse(c, 'Bootstrap failed', 'NOT_FOUND', 404);
     }
 
-    const user = data;
-    const account = Array.isArray(data.accounts) ? data.accounts[0] : data.accounts;
-    const subscription = account?.subscriptions?.[0] || null;
-    const balance = account?.balances?.[0] || null;
+    const user = userResult.data;
+    const account = accountResult.data;
+    const subscription = account.subscriptions?.[0] || null;
+    const balance = account.balances?.[0] || null;
 
     const isProduction = c.env.APP_ENV === 'production';
 
@@ -435,8 +468,10 @@ export async function handleBootstrap(c: Context<{ Bindings: Env }>): Promise<Re
       },
       account: {
         id: account.id,
-        name: account.name
+        name: account.name,
+        role: auth.role ?? 'viewer'
       },
+      memberships,
       subscription: subscription ? {
         id: subscription.id,
         tier: subscription.plan_type as 'free' | 'growth' | 'pro' | 'agency' | 'enterprise',
@@ -479,3 +514,67 @@ export async function handleBootstrap(c: Context<{ Bindings: Env }>): Promise<Re
     return errorResponse(c, 'Bootstrap failed', 'INTERNAL_ERROR', 500);
   }
 }
+
+/** POST /api/auth/switch-account - Issue tokens scoped to another account the user belongs to */
+export async function handleSwitchAccount(c: Context<{ Bindings: Env }>): Promise<Response> {
+  const auth = getAuthContext(c);
+
+  try {
+    const body = await c.req.json() as SwitchAccountRequest;
+
+    if (!body.accountId) {
+      return c.json({ error: 'Missing accountId' }, 400);
+    }
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const memberships = await new MembershipService(supabase).listForUser(auth.userId);
+    const membership = memberships.find(m => m.account_id === body.accountId);
+
+    if (!membership) {
+      return errorResponse(c, 'Not a member of this account', 'FORBIDDEN', 403);
+    }
+
+    const { data: businesses } = await supabase
+      .from('business_profiles')
+      .select('onboarding_completed')
+      .eq('account_id', membership.account_id);
+
+    const hasCompletedBusiness = businesses?.some(b => b.onboarding_completed) || false;
+
+    const jwtService = new JWTService(c.env);
+    const accessToken = await jwtService.sign({
+      userId: auth.userId,
+      accountId: membership.account_id,
+      email: auth.email,
+      onboardingCompleted: hasCompletedBusiness,
+      role: membership.role,
+      admin: auth.admin
+    });
+
+    const tokenService = new TokenService(supabase);
+    const refreshToken = await tokenService.create(auth.userId, membership.account_id);
+
+    logger.info('Switched account', {
+      userId: auth.userId,
+      fromAccountId: auth.accountId,
+      toAccountId: membership.account_id,
+      role: membership.role
+    });
+
+    const response: SwitchAccountResponse = {
+      accessToken,
+      refreshToken,
+      expiresAt: jwtService.getExpiryTime(),
+      account: membership
+    };
+
+    return successResponse(c, response);
+
+  } catch (error: unknown) {
+    logger.error('Switch account failed', {
+      error: error instanceof Error ? error.message : String(error),
+      userId: auth.userId
+    });
+    return errorResponse(c, 'Failed to switch account', 'INTERNAL_ERROR', 500);
+  }
+}
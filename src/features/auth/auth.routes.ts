@@ -11,7 +11,8 @@ import {
   handleRefresh,
   handleLogout,
   handleGetSession,
-  handleBootstrap
+  handleBootstrap,
+  handleSwitchAccount
 } from './auth.handler';
 
 /**
@@ -26,6 +27,7 @@ import {
  * Protected endpoints:
  * - GET  /api/auth/session          → Get user session info (requires auth)
  * - GET  /api/auth/bootstrap        → Single source for all initialization data (requires auth)
+ * - POST /api/auth/switch-account   → Issue tokens for another account the user belongs to (requires auth)
  */
 
 export function registerAuthRoutes(app: Hono<{ Bindings: Env }>) {
@@ -161,5 +163,22 @@ export function registerAuthRoutes(app: Hono<{ Bindings: Env }>) {
     handleBootstrap
   );
 
+  /**
+   * POST /api/auth/switch-account
+   * Switch the session to another account (owned or joined via invitation)
+   *
+   * Headers: Authorization: Bearer <accessToken>
+   * Body: { accountId: string }
+   * Returns: { accessToken, refreshToken, expiresAt, account: { account_id, account_name, role } }
+   *
+   * Rate limit: Moderate (same as token refresh)
+   */
+  app.post(
+    '/api/auth/switch-account',
+    authMiddleware,
+    rateLimitMiddleware(AUTH_RATE_LIMITS.TOKEN_REFRESH),
+    handleSwitchAccount
+  );
+
   console.log('[Routes] Auth routes registered successfully');
 }
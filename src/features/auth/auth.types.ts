@@ -1,5 +1,8 @@
 // src/features/auth/auth.types.ts
 
+import type { ApiKeyScope } from '@/config/api-key-scopes.config';
+import type { AccountRole } from '@/config/account-roles.config';
+
 /**
  * JWT PAYLOAD
  * Data stored inside the access token (15 min expiry)
@@ -9,6 +12,16 @@ export interface JWTPayload {
   accountId: string;
   email: string;
   onboardingCompleted: boolean;
+  /**
+   * Role on accountId. Absent on tokens issued before team workspaces: the
+   * auth middleware then looks the role up in membership and denies access
+   * when the user no longer belongs to the account
+   */
+  role?: AccountRole;
+  /** Oslira staff (users.is_admin) - grants the /api/admin routes */
+  admin?: boolean;
+  /** Admin user viewing this account through a read-only impersonation token */
+  impersonatedBy?: string;
   iat: number;  // Issued at (Unix timestamp)
   exp: number;  // Expires at (Unix timestamp)
 }
@@ -134,6 +147,32 @@ export interface GoogleCallbackRequest {
   code: string;
 }
 
+/**
+ * SWITCH ACCOUNT REQUEST
+ * Body for POST /api/auth/switch-account
+ */
+export interface SwitchAccountRequest {
+  accountId: string;
+}
+
+/**
+ * SWITCH ACCOUNT RESPONSE
+ * Fresh token pair scoped to the selected account
+ */
+export interface SwitchAccountResponse extends RefreshResponse {
+  account: AccountMembership;
+}
+
+/**
+ * ACCOUNT MEMBERSHIP
+ * An account the user can switch into (owned or joined via invitation)
+ */
+export interface AccountMembership {
+  account_id: string;
+  account_name: string;
+  role: AccountRole;
+}
+
 /**
  * LOGOUT REQUEST
  * Body for POST /api/auth/logout
@@ -151,6 +190,37 @@ export interface AuthContext {
   accountId: string;
   email: string;
   onboardingCompleted: boolean;
+  /** Role on accountId - API keys get API_KEY_ACCOUNT_ROLE and are limited by scope on top */
+  role?: AccountRole;
+  /** 'api_key' for server-to-server requests (defaults to a JWT session) */
+  authMethod?: 'jwt' | 'api_key';
+  /** Set when authenticated with an API key */
+  apiKeyId?: string;
+  apiKeyScopes?: ApiKeyScope[];
+  /** Platform admin session (never set for API keys or impersonation) */
+  admin?: boolean;
+  /** Admin user behind a read-only impersonation session */
+  impersonatedBy?: string;
+}
+
+/**
+ * API KEY RECORD
+ * Database representation of a server-to-server API key
+ * Only the SHA-256 hash of the key is stored; the key itself is shown once
+ */
+export interface ApiKeyRecord {
+  id: string;
+  account_id: string;
+  name: string;
+  /** First characters of the key, for recognizing it in the list */
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  created_by: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
 }
 
 /**
@@ -169,7 +239,10 @@ export interface BootstrapResponse {
   account: {
     id: string;
     name: string;
+    role: AccountRole;
   };
+  /** Every account the user belongs to (for the account switcher) */
+  memberships: AccountMembership[];
   subscription: {
     id: string;
     tier: 'free' | 'growth' | 'pro' | 'agency' | 'enterprise';
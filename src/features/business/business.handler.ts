@@ -7,7 +7,8 @@ import {
   ListBusinessProfilesQuerySchema,
   CreateBusinessProfileSchema,
   UpdateBusinessProfileSchema,
-  GetBusinessProfileParamsSchema
+  GetBusinessProfileParamsSchema,
+  ICPRulesDryRunSchema
 } from './business.types';
 import { validateQuery, validateBody } from '@/shared/utils/validation.util';
 import { successResponse, errorResponse, createdResponse, paginatedResponse } from '@/shared/utils/response.util';
@@ -164,3 +165,44 @@ export async function updateBusinessProfile(c: Context<{ Bindings: Env }>) {
     return errorResponse(c, 'Failed to update business profile', 'INTERNAL_ERROR', 500);
   }
 }
+
+/**
+ * POST /api/business-profiles/:profileId/icp-rules/dry-run
+ * Test ICP rules against existing leads without changing anything
+ */
+export async function dryRunICPRules(c: Context<{ Bindings: Env }>) {
+  try {
+    const auth = getAuthContext(c);
+    const accountId = auth.accountId;
+
+    // Validate params + body
+    const body = await c.req.json().catch(() => ({}));
+    const input = validateBody(ICPRulesDryRunSchema, {
+      ...body,
+      profileId: c.req.param('profileId')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new BusinessService(supabase);
+    const result = await service.dryRunICPRules(accountId, input);
+
+    return successResponse(c, result);
+
+  } catch (error: any) {
+    console.error('[DryRunICPRules] Error:', error);
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid request', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
+    if (error.message === 'Business profile not found') {
+      return errorResponse(c, 'Business profile not found', 'NOT_FOUND', 404);
+    }
+
+    if (error.message === 'No ICP rules configured') {
+      return errorResponse(c, 'No ICP rules given or saved on this business profile', 'NO_ICP_RULES', 400);
+    }
+
+    return errorResponse(c, 'Failed to run ICP rules', 'INTERNAL_ERROR', 500);
+  }
+}
@@ -9,7 +9,8 @@ import {
   listBusinessProfiles,
   getBusinessProfile,
   createBusinessProfile,
-  updateBusinessProfile
+  updateBusinessProfile,
+  dryRunICPRules
 } from './business.handler';
 
 export function registerBusinessRoutes(app: Hono<{ Bindings: Env }>) {
@@ -44,4 +45,11 @@ export function registerBusinessRoutes(app: Hono<{ Bindings: Env }>) {
    * Update business profile
    */
   app.put('/api/business-profiles/:profileId', updateBusinessProfile);
+
+  /**
+   * POST /api/business-profiles/:profileId/icp-rules/dry-run
+   * Evaluate ICP rules against existing leads (read-only)
+   * Body: { rules?: ICPRule[], limit?: number } - omitted rules = saved rules
+   */
+  app.post('/api/business-profiles/:profileId/icp-rules/dry-run', dryRunICPRules);
 }
@@ -6,10 +6,24 @@ import type {
   CreateBusinessProfileInput,
   UpdateBusinessProfileInput,
   BusinessProfileListItem,
-  BusinessProfileDetail
+  BusinessProfileDetail,
+  ScoringConfigInput,
+  ICPRulesDryRunInput,
+  ICPRulesDryRunResult,
+  ICPRulesDryRunLead
 } from './business.types';
+import {
+  evaluateICPRules,
+  buildStoredICPRuleSubject,
+  type ICPRule
+} from '@/infrastructure/analysis-checks';
+import { DEFAULT_SCORING_CONFIG, resolveScoringConfig, type ScoringConfig } from '@/config/scoring.config';
+import type { Analysis } from '@/infrastructure/database/repositories/analysis.repository';
 import { logger } from '@/shared/utils/logger.util';
 
+/** Stored analysis fields the ICP rules dry run reads */
+type DryRunAnalysis = Pick<Analysis, 'lead_id' | 'niche' | 'profile_snapshot' | 'extracted_data'>;
+
 export class BusinessService {
   constructor(private supabase: SupabaseClient) {}
 
@@ -134,6 +148,8 @@ export class BusinessService {
       context_generated_at: profile.context_generated_at,
       context_manually_edited: profile.context_manually_edited,
       context_updated_at: profile.context_updated_at,
+      scoring_config: resolveScoringConfig(profile.scoring_config),
+      icp_rules: profile.icp_rules ?? [],
       created_at: profile.created_at,
       updated_at: profile.updated_at,
       leads_count: leadsCount || 0,
@@ -159,7 +175,11 @@ export class BusinessService {
         business_context: input.business_context_pack, // Map business_context_pack to business_context
         context_version: 'v1.0',
         context_manually_edited: true,
-        context_updated_at: new Date().toISOString()
+        context_updated_at: new Date().toISOString(),
+        scoring_config: input.scoring_config
+          ? buildScoringConfig(null, input.scoring_config)
+          : null,
+        icp_rules: input.icp_rules?.length ? input.icp_rules : null
       })
       .select()
       .single();
@@ -177,6 +197,8 @@ export class BusinessService {
       context_generated_at: profile.context_generated_at,
       context_manually_edited: profile.context_manually_edited,
       context_updated_at: profile.context_updated_at,
+      scoring_config: resolveScoringConfig(profile.scoring_config),
+      icp_rules: profile.icp_rules ?? [],
       created_at: profile.created_at,
       updated_at: profile.updated_at,
       leads_count: 0,
@@ -224,6 +246,34 @@ export class BusinessService {
       updateData.context_manually_edited = true;
       updateData.context_updated_at = new Date().toISOString();
     }
+    if (input.scoring_config !== undefined) {
+      const { data: current } = await this.supabase
+        .from('business_profiles')
+        .select('scoring_config')
+        .eq('id', profileId)
+        .single();
+
+      // Reset (null) is stored as a new version of the defaults so versions stay unique
+      updateData.scoring_config = buildScoringConfig(
+        current?.scoring_config ?? null,
+        input.scoring_config ?? DEFAULT_SCORING_CONFIG
+      );
+
+      logger.info('Business scoring config updated', {
+        accountId,
+        profileId,
+        version: updateData.scoring_config.version
+      });
+    }
+    if (input.icp_rules !== undefined) {
+      updateData.icp_rules = input.icp_rules?.length ? input.icp_rules : null;
+
+      logger.info('Business ICP rules updated', {
+        accountId,
+        profileId,
+        rules: input.icp_rules?.map(rule => rule.type) ?? []
+      });
+    }
 
     const { data: profile, error } = await this.supabase
       .from('business_profiles')
@@ -260,6 +310,8 @@ export class BusinessService {
       context_generated_at: profile.context_generated_at,
       context_manually_edited: profile.context_manually_edited,
       context_updated_at: profile.context_updated_at,
+      scoring_config: resolveScoringConfig(profile.scoring_config),
+      icp_rules: profile.icp_rules ?? [],
       created_at: profile.created_at,
       updated_at: profile.updated_at,
       leads_count: leadsCount || 0,
@@ -267,6 +319,100 @@ export class BusinessService {
     };
   }
 
+  /**
+   * Evaluate ICP rules (given, or the stored ones) against the business's existing leads
+   * Read-only: nothing is rescored or refunded
+   */
+  async dryRunICPRules(
+    accountId: string,
+    input: ICPRulesDryRunInput
+  ): Promise<ICPRulesDryRunResult> {
+    const { data: profile, error: profileError } = await this.supabase
+      .from('business_profiles')
+      .select('id, icp_rules')
+      .eq('id', input.profileId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .single();
+
+    if (profileError && profileError.code !== 'PGRST116') throw profileError;
+    if (!profile) {
+      throw new Error('Business profile not found');
+    }
+
+    const rules: ICPRule[] = input.rules ?? profile.icp_rules ?? [];
+    if (rules.length === 0) {
+      throw new Error('No ICP rules configured');
+    }
+
+    const { data: leads, error: leadsError } = await this.supabase
+      .from('leads')
+      .select('id, username, post_count, is_business_account')
+      .eq('account_id', accountId)
+      .eq('business_profile_id', input.profileId)
+      .is('deleted_at', null)
+      .order('last_analyzed_at', { ascending: false })
+      .limit(input.limit);
+
+    if (leadsError) throw leadsError;
+
+    // Latest completed analysis per lead (rows are newest first)
+    // Chunked like findExistingUsernames: a 1000-lead .in() overflows the request URL
+    const latestAnalyses = new Map<string, DryRunAnalysis>();
+    const leadIds = (leads || []).map(lead => lead.id);
+    const chunkSize = 200;
+
+    for (let i = 0; i < leadIds.length; i += chunkSize) {
+      const { data: analyses, error: analysesError } = await this.supabase
+        .from('lead_analyses')
+        .select('lead_id, niche, profile_snapshot, extracted_data')
+        .in('lead_id', leadIds.slice(i, i + chunkSize))
+        .eq('status', 'complete')
+        .is('deleted_at', null)
+        .order('completed_at', { ascending: false });
+
+      if (analysesError) throw analysesError;
+
+      for (const analysis of (analyses || []) as DryRunAnalysis[]) {
+        if (!latestAnalyses.has(analysis.lead_id)) {
+          latestAnalyses.set(analysis.lead_id, analysis);
+        }
+      }
+    }
+
+    const byRule = rules.map(rule => ({ type: rule.type, failed: 0, unknown: 0 }));
+    const results: ICPRulesDryRunLead[] = (leads || []).map(lead => {
+      const analysis = latestAnalyses.get(lead.id) ?? null;
+      const evaluation = evaluateICPRules(rules, buildStoredICPRuleSubject(lead, analysis));
+
+      evaluation.results.forEach((result, index) => {
+        if (result.status === 'failed') byRule[index].failed++;
+        if (result.status === 'unknown') byRule[index].unknown++;
+      });
+
+      return {
+        lead_id: lead.id,
+        username: lead.username,
+        passed: evaluation.passed,
+        analyzed: analysis !== null,
+        results: evaluation.results
+      };
+    });
+
+    const leadsPassed = results.filter(lead => lead.passed).length;
+
+    return {
+      rules,
+      summary: {
+        leads_checked: results.length,
+        leads_passed: leadsPassed,
+        leads_failed: results.length - leadsPassed,
+        by_rule: byRule
+      },
+      leads: results
+    };
+  }
+
   /**
    * Verify profile belongs to account (authorization check)
    */
@@ -287,3 +433,20 @@ export class BusinessService {
     return !!data;
   }
 }
+
+/**
+ * Next scoring config version: omitted sections keep their current values
+ * (defaults when unset), and every change bumps the version
+ */
+function buildScoringConfig(
+  current: ScoringConfig | null,
+  input: ScoringConfigInput
+): ScoringConfig {
+  const base = resolveScoringConfig(current);
+
+  return {
+    version: base.version + 1,
+    weights: input.weights ?? base.weights,
+    thresholds: input.thresholds ?? base.thresholds
+  };
+}
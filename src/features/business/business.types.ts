@@ -2,6 +2,8 @@
 
 import { z } from 'zod';
 import { CommonSchemas } from '@/shared/utils/validation.util';
+import { SCORING_WEIGHTS_TOTAL, type ScoringConfig } from '@/config/scoring.config';
+import type { ICPRule, ICPRuleResult } from '@/infrastructure/analysis-checks';
 
 // ===============================================================================
 // REQUEST SCHEMAS
@@ -12,6 +14,53 @@ export const ListBusinessProfilesQuerySchema = z.object({
   pageSize: z.coerce.number().int().min(1).max(50).default(20)
 });
 
+const ScorePointsSchema = z.number().int().min(0).max(100);
+
+/**
+ * Scoring overrides: weights are points out of 100, thresholds are the
+ * minimum overall score per tier (hot > warm > cool)
+ */
+export const ScoringConfigSchema = z.object({
+  weights: z.object({
+    profileFit: ScorePointsSchema,
+    readiness: ScorePointsSchema,
+    partnerEngagement: ScorePointsSchema,
+    authority: ScorePointsSchema
+  }).refine(
+    w => w.profileFit + w.readiness + w.partnerEngagement + w.authority === SCORING_WEIGHTS_TOTAL,
+    { message: `Scoring weights must add up to ${SCORING_WEIGHTS_TOTAL}` }
+  ).optional(),
+  thresholds: z.object({
+    hot: ScorePointsSchema.min(1),
+    warm: ScorePointsSchema.min(1),
+    cool: ScorePointsSchema.min(1)
+  }).refine(
+    t => t.hot > t.warm && t.warm > t.cool,
+    { message: 'Tier thresholds must be ordered hot > warm > cool' }
+  ).optional()
+});
+
+const KeywordListSchema = z.array(z.string().trim().min(1).max(100)).min(1).max(50);
+
+/**
+ * Declarative ICP rules, all of which must pass
+ * Evaluated before analysis (ICPRulesCheck) and by the dry run
+ */
+export const ICPRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('business_account') }),
+  z.object({ type: z.literal('posted_within_days'), days: z.number().int().min(1).max(365) }),
+  z.object({ type: z.literal('min_engagement_rate'), percent: z.number().min(0).max(100) }),
+  z.object({ type: z.literal('bio_keywords'), keywords: KeywordListSchema, match: z.enum(['any', 'all']).default('any') }),
+  z.object({ type: z.literal('exclude_niches'), niches: KeywordListSchema }),
+  z.object({ type: z.literal('location'), locations: KeywordListSchema }),
+  z.object({
+    type: z.literal('language'),
+    languages: z.array(z.string().trim().toLowerCase().length(2, 'Use ISO 639-1 language codes')).min(1).max(20)
+  })
+]);
+
+export const ICPRulesSchema = z.array(ICPRuleSchema).max(20);
+
 export const CreateBusinessProfileSchema = z.object({
   business_name: z.string().min(1, 'Business name required').max(200),
   website: z.string().url('Invalid URL').optional().nullable(),
@@ -29,7 +78,9 @@ export const CreateBusinessProfileSchema = z.object({
     selling_points: z.array(z.string()).optional().nullable(),
     brand_voice: z.string().optional().nullable(),
     outreach_goals: z.string().optional().nullable()
-  })
+  }),
+  scoring_config: ScoringConfigSchema.optional(),
+  icp_rules: ICPRulesSchema.optional()
 });
 
 export const UpdateBusinessProfileSchema = z.object({
@@ -49,13 +100,27 @@ export const UpdateBusinessProfileSchema = z.object({
     selling_points: z.array(z.string()).optional().nullable(),
     brand_voice: z.string().optional().nullable(),
     outreach_goals: z.string().optional().nullable()
-  }).optional()
+  }).optional(),
+  /** null resets to the default weights and thresholds */
+  scoring_config: ScoringConfigSchema.optional().nullable(),
+  /** Replaces the whole rule set; null or [] removes all rules */
+  icp_rules: ICPRulesSchema.optional().nullable()
 });
 
 export const GetBusinessProfileParamsSchema = z.object({
   profileId: CommonSchemas.uuid
 });
 
+/**
+ * Test ICP rules against the business's existing leads without saving them
+ * Omit rules to test the stored rule set
+ */
+export const ICPRulesDryRunSchema = z.object({
+  profileId: CommonSchemas.uuid,
+  rules: ICPRulesSchema.min(1).optional(),
+  limit: z.number().int().min(1).max(1000).default(200)
+});
+
 // ===============================================================================
 // RESPONSE TYPES
 // ===============================================================================
@@ -95,12 +160,38 @@ export interface BusinessProfileDetail {
   context_generated_at: string | null;
   context_manually_edited: boolean;
   context_updated_at: string | null;
+  /** Effective scoring weights and tier thresholds (version 0 = defaults) */
+  scoring_config: ScoringConfig;
+  /** Declarative ICP rules (empty = follower limits only) */
+  icp_rules: ICPRule[];
   created_at: string;
   updated_at: string;
   leads_count: number;
   analyses_count: number;
 }
 
+export interface ICPRulesDryRunLead {
+  lead_id: string;
+  username: string;
+  /** No rule failed */
+  passed: boolean;
+  /** Lead has a completed analysis (light/deep metrics); otherwise only the lead row was checked */
+  analyzed: boolean;
+  results: ICPRuleResult[];
+}
+
+export interface ICPRulesDryRunResult {
+  rules: ICPRule[];
+  summary: {
+    leads_checked: number;
+    leads_passed: number;
+    leads_failed: number;
+    /** Per rule (same order as rules): leads failing it / leads it couldn't be evaluated for */
+    by_rule: Array<{ type: ICPRule['type']; failed: number; unknown: number }>;
+  };
+  leads: ICPRulesDryRunLead[];
+}
+
 // ===============================================================================
 // TYPE EXPORTS
 // ===============================================================================
@@ -109,3 +200,5 @@ export type ListBusinessProfilesQuery = z.infer<typeof ListBusinessProfilesQuery
 export type CreateBusinessProfileInput = z.infer<typeof CreateBusinessProfileSchema>;
 export type UpdateBusinessProfileInput = z.infer<typeof UpdateBusinessProfileSchema>;
 export type GetBusinessProfileParams = z.infer<typeof GetBusinessProfileParamsSchema>;
+export type ScoringConfigInput = z.infer<typeof ScoringConfigSchema>;
+export type ICPRulesDryRunInput = z.infer<typeof ICPRulesDryRunSchema>;
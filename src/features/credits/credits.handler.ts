@@ -52,7 +52,8 @@ export async function getTransactions(c: Context<{ Bindings: Env }>) {
     const query = validateQuery(ListTransactionsQuerySchema, {
       page: c.req.query('page'),
       pageSize: c.req.query('pageSize'),
-      transactionType: c.req.query('transactionType')
+      transactionType: c.req.query('transactionType'),
+      createdBy: c.req.query('createdBy')
     });
 
     // Get transactions - using admin client to bypass RLS (auth already validated by middleware)
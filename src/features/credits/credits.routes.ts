@@ -38,7 +38,7 @@ export function registerCreditsRoutes(app: Hono<{ Bindings: Env }>) {
   /**
    * GET /api/credits/transactions
    * Get transaction history with pagination
-   * Query params: ?page=1&pageSize=50&transactionType=analysis
+   * Query params: ?page=1&pageSize=50&transactionType=analysis&createdBy=<userId>
    */
   app.get('/api/credits/transactions', getTransactions);
 
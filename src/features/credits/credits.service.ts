@@ -54,7 +54,7 @@ export class CreditsService {
     accountId: string,
     query: ListTransactionsQuery
   ): Promise<{ transactions: CreditTransaction[]; total: number }> {
-    const { page, pageSize, transactionType } = query;
+    const { page, pageSize, transactionType, createdBy } = query;
     const offset = (page - 1) * pageSize;
 
     let queryBuilder = this.supabase
@@ -68,6 +68,10 @@ export class CreditsService {
       queryBuilder = queryBuilder.eq('transaction_type', transactionType);
     }
 
+    if (createdBy) {
+      queryBuilder = queryBuilder.eq('created_by', createdBy);
+    }
+
     const { data, error, count } = await queryBuilder;
 
     if (error) throw error;
@@ -18,11 +18,16 @@ export const ListTransactionsQuerySchema = z.object({
     'signup_bonus',
     'referral_bonus',
     'admin_grant',
+    'admin_revoke',
     'purchase',
     'subscription_renewal',
     'analysis',
-    'refund'
-  ]).optional()
+    'outreach',
+    'refund',
+    'reconciliation_adjustment'
+  ]).optional(),
+  /** Only transactions attributed to this team member */
+  createdBy: z.string().uuid().optional()
 });
 
 export const PurchaseCreditsSchema = z.object({
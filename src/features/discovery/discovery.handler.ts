@@ -0,0 +1,110 @@
+// features/discovery/discovery.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { LookalikeDiscoveryService } from './discovery.service';
+import { LookalikeQuerySchema, QueueLookalikeAnalysisSchema } from './discovery.types';
+import { BulkAnalysisService } from '@/infrastructure/batch/bulk-analysis.service';
+import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, errorResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * GET /api/discovery/lookalikes
+ * Rank new candidate usernames mined from the business's best-scoring leads
+ */
+export async function discoverLookalikes(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(LookalikeQuerySchema, {
+      businessProfileId: c.req.query('businessProfileId'),
+      seedCount: c.req.query('seedCount'),
+      minScore: c.req.query('minScore'),
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new LookalikeDiscoveryService(supabase);
+    const result = await service.discover(accountId, query);
+
+    return successResponse(c, result);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to discover lookalike leads', { accountId });
+  }
+}
+
+/**
+ * POST /api/discovery/lookalikes/analyze
+ * Queue lookalike candidates as a bulk analysis batch
+ */
+export async function analyzeLookalikes(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(QueueLookalikeAnalysisSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    let usernames: string[];
+
+    if (input.usernames) {
+      // Picked from an earlier discovery; leads may have been added since
+      const requested = [...new Set(input.usernames.map(username => username.toLowerCase()))];
+      const existing = await new LeadsRepository(supabase).findExistingUsernames(
+        accountId,
+        input.businessProfileId,
+        requested
+      );
+      usernames = requested.filter(username => !existing.has(username));
+    } else {
+      const result = await new LookalikeDiscoveryService(supabase).discover(accountId, {
+        businessProfileId: input.businessProfileId,
+        seedCount: input.seedCount,
+        minScore: input.minScore,
+        limit: input.count
+      });
+      usernames = result.usernames;
+    }
+
+    if (usernames.length === 0) {
+      return errorResponse(c, 'No new lookalike candidates to analyze', 'NO_CANDIDATES', 404);
+    }
+
+    const bulkService = new BulkAnalysisService(c.env);
+    const summary = await bulkService.queueBatch({
+      accountId,
+      businessProfileId: input.businessProfileId,
+      analysisType: input.analysisType,
+      usernames,
+      requestedBy: auth.userId
+    });
+
+    logger.info('Lookalike candidates queued for analysis', {
+      accountId,
+      businessProfileId: input.businessProfileId,
+      batchId: summary.batch_id,
+      count: usernames.length
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        ...summary,
+        usernames,
+        batch_progress_url: `/api/leads/analyze/bulk/${summary.batch_id}/progress`,
+        message: `${summary.total_count} analyses queued`
+      }
+    }, 202); // 202 Accepted
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to queue lookalike analysis', { accountId });
+  }
+}
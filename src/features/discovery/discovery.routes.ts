@@ -0,0 +1,40 @@
+// features/discovery/discovery.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS, ANALYSIS_RATE_LIMITS } from '@/config/rate-limits.config';
+import { discoverLookalikes, analyzeLookalikes } from './discovery.handler';
+
+/**
+ * DISCOVERY ROUTES
+ *
+ * Lookalike lead discovery: candidates are the accounts the business's
+ * best-scoring leads mention and tag. Discovery itself is free; queueing
+ * candidates runs a regular bulk analysis batch.
+ */
+export function registerDiscoveryRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All discovery routes require authentication
+  app.use('/api/discovery/*', authMiddleware);
+
+  // Apply general API rate limiting; queueing counts as a bulk operation
+  app.use('/api/discovery/lookalikes', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/discovery/lookalikes/analyze', rateLimitMiddleware(ANALYSIS_RATE_LIMITS.BULK));
+
+  /**
+   * GET /api/discovery/lookalikes
+   * Ranked candidate usernames (existing leads excluded)
+   * Query params: ?businessProfileId=uuid&seedCount=20&minScore=70&limit=50
+   */
+  app.get('/api/discovery/lookalikes', discoverLookalikes);
+
+  /**
+   * POST /api/discovery/lookalikes/analyze
+   * Queue candidates for bulk analysis (max 50)
+   * Body: { businessProfileId, analysisType: 'light'|'deep', usernames?: string[], count?: number, seedCount?: number, minScore?: number }
+   * Omitted usernames = the top `count` candidates of a fresh discovery
+   */
+  app.post('/api/discovery/lookalikes/analyze', analyzeLookalikes);
+}
@@ -0,0 +1,243 @@
+// features/discovery/discovery.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExtractedData } from '@/infrastructure/extraction/extraction.types';
+import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
+import { BULK_BATCH_MAX_SIZE } from '@/infrastructure/batch/bulk-analysis.service';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import type {
+  LookalikeQuery,
+  LookalikeSeed,
+  LookalikeCandidate,
+  LookalikeHashtag,
+  LookalikeDiscoveryResult
+} from './discovery.types';
+
+/**
+ * LOOKALIKE DISCOVERY SERVICE
+ *
+ * Proposes new prospects from the accounts a business's best leads interact
+ * with. Seeds are the top-scoring leads with extraction data; every account
+ * they mention in captions or tag in their media becomes a candidate, ranked
+ * by how many seeds reference it, weighted by seed score and frequency.
+ *
+ * Read-only and free: nothing is scraped until the candidates are queued
+ * for bulk analysis.
+ */
+
+/** Analyses scanned for seeds (latest per lead wins) */
+const SEED_SCAN_LIMIT = 1000;
+
+/** Shared hashtags returned alongside the candidates */
+const HASHTAG_LIMIT = 20;
+
+/** Seed usernames listed per candidate */
+const REFERENCED_BY_LIMIT = 5;
+
+interface SeedAnalysis {
+  lead_id: string;
+  overall_score: number;
+  extracted_data: ExtractedData;
+}
+
+export class LookalikeDiscoveryService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Rank candidate usernames mined from the business's top-scoring leads
+   * Existing leads of the business and the seeds themselves are excluded
+   */
+  async discover(accountId: string, query: LookalikeQuery): Promise<LookalikeDiscoveryResult> {
+    await this.verifyBusiness(accountId, query.businessProfileId);
+
+    const seeds = await this.loadSeeds(accountId, query);
+    if (seeds.length === 0) {
+      return { seeds: [], candidates: [], hashtags: [], usernames: [] };
+    }
+
+    const ranked = rankCandidates(seeds);
+
+    // Drop accounts the business already has as leads
+    const leadsRepo = new LeadsRepository(this.supabase);
+    const existing = ranked.length > 0
+      ? await leadsRepo.findExistingUsernames(
+          accountId,
+          query.businessProfileId,
+          ranked.map(candidate => candidate.username)
+        )
+      : new Set<string>();
+
+    const candidates = ranked
+      .filter(candidate => !existing.has(candidate.username))
+      .slice(0, query.limit);
+
+    return {
+      seeds: seeds.map(({ lead_id, username, overall_score }) => ({ lead_id, username, overall_score })),
+      candidates,
+      hashtags: rankHashtags(seeds),
+      usernames: candidates.slice(0, BULK_BATCH_MAX_SIZE).map(candidate => candidate.username)
+    };
+  }
+
+  /**
+   * Business must belong to the account
+   */
+  private async verifyBusiness(accountId: string, businessProfileId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('business_profiles')
+      .select('id')
+      .eq('id', businessProfileId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Business profile not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Top-scoring Instagram leads by their latest completed analysis with extraction data
+   */
+  private async loadSeeds(
+    accountId: string,
+    query: LookalikeQuery
+  ): Promise<Array<LookalikeSeed & { extracted_data: ExtractedData }>> {
+    const { data: analyses, error } = await this.supabase
+      .from('lead_analyses')
+      .select('lead_id, overall_score, extracted_data')
+      .eq('account_id', accountId)
+      .eq('business_profile_id', query.businessProfileId)
+      .eq('status', 'complete')
+      .not('extracted_data', 'is', null)
+      .is('deleted_at', null)
+      .order('completed_at', { ascending: false })
+      .limit(SEED_SCAN_LIMIT);
+
+    if (error) throw error;
+
+    // Latest analysis per lead (rows are newest first)
+    const latest = new Map<string, SeedAnalysis>();
+    for (const analysis of (analyses || []) as SeedAnalysis[]) {
+      if (!analysis.lead_id || latest.has(analysis.lead_id) || !analysis.extracted_data?.static) continue;
+      latest.set(analysis.lead_id, analysis);
+    }
+
+    const ranked = [...latest.values()]
+      .filter(analysis => query.minScore === undefined || analysis.overall_score >= query.minScore)
+      .sort((a, b) => b.overall_score - a.overall_score);
+
+    if (ranked.length === 0) return [];
+
+    // Mentions and tags are Instagram handles, so only Instagram leads can seed
+    const { data: leads, error: leadsError } = await this.supabase
+      .from('leads')
+      .select('id, username')
+      .in('id', ranked.map(analysis => analysis.lead_id))
+      .eq('platform', 'instagram')
+      .is('deleted_at', null);
+
+    if (leadsError) throw leadsError;
+
+    const usernames = new Map((leads || []).map((lead: { id: string; username: string }) => [lead.id, lead.username]));
+
+    return ranked
+      .filter(analysis => usernames.has(analysis.lead_id))
+      .slice(0, query.seedCount)
+      .map(analysis => ({
+        lead_id: analysis.lead_id,
+        username: usernames.get(analysis.lead_id)!,
+        overall_score: analysis.overall_score,
+        extracted_data: analysis.extracted_data
+      }));
+  }
+}
+
+// ===============================================================================
+// RANKING
+// ===============================================================================
+
+/**
+ * Each referencing seed adds its score (0-1) times a damped frequency, so an
+ * account tagged once by five strong leads outranks one mentioned five times
+ * by a single lead
+ */
+function rankCandidates(seeds: Array<LookalikeSeed & { extracted_data: ExtractedData }>): LookalikeCandidate[] {
+  const seedUsernames = new Set(seeds.map(seed => seed.username.toLowerCase()));
+  const candidates = new Map<string, LookalikeCandidate>();
+
+  for (const seed of seeds) {
+    const references = new Map<string, { mentions: number; tags: number }>();
+
+    for (const { username, count } of seed.extracted_data.static.topMentions ?? []) {
+      addReference(references, username, count, 'mentions');
+    }
+    for (const { username, count } of seed.extracted_data.static.topTaggedUsers ?? []) {
+      addReference(references, username, count, 'tags');
+    }
+
+    for (const [username, { mentions, tags }] of references) {
+      if (seedUsernames.has(username)) continue;
+
+      const candidate = candidates.get(username) ?? {
+        username,
+        score: 0,
+        seed_count: 0,
+        mention_count: 0,
+        tagged_count: 0,
+        referenced_by: []
+      };
+
+      candidate.score += (seed.overall_score / 100) * (1 + Math.log2(mentions + tags));
+      candidate.seed_count++;
+      candidate.mention_count += mentions;
+      candidate.tagged_count += tags;
+      if (candidate.referenced_by.length < REFERENCED_BY_LIMIT) {
+        candidate.referenced_by.push(seed.username);
+      }
+
+      candidates.set(username, candidate);
+    }
+  }
+
+  return [...candidates.values()]
+    .map(candidate => ({ ...candidate, score: Math.round(candidate.score * 100) / 100 }))
+    .sort((a, b) => b.score - a.score || b.seed_count - a.seed_count || a.username.localeCompare(b.username));
+}
+
+function addReference(
+  references: Map<string, { mentions: number; tags: number }>,
+  raw: string,
+  count: number,
+  kind: 'mentions' | 'tags'
+): void {
+  const username = raw.replace(/^@+/, '').toLowerCase().trim();
+  if (!CommonSchemas.instagramUsername.safeParse(username).success) return;
+
+  const entry = references.get(username) ?? { mentions: 0, tags: 0 };
+  entry[kind] += count;
+  references.set(username, entry);
+}
+
+/**
+ * Hashtags used by the most seeds
+ */
+function rankHashtags(seeds: Array<{ extracted_data: ExtractedData }>): LookalikeHashtag[] {
+  const hashtags = new Map<string, LookalikeHashtag>();
+
+  for (const seed of seeds) {
+    for (const { hashtag, count } of seed.extracted_data.static.topHashtags ?? []) {
+      const tag = hashtag.toLowerCase();
+      const entry = hashtags.get(tag) ?? { hashtag: tag, seed_count: 0, count: 0 };
+      entry.seed_count++;
+      entry.count += count;
+      hashtags.set(tag, entry);
+    }
+  }
+
+  return [...hashtags.values()]
+    .sort((a, b) => b.seed_count - a.seed_count || b.count - a.count)
+    .slice(0, HASHTAG_LIMIT);
+}
@@ -0,0 +1,71 @@
+// features/discovery/discovery.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const LookalikeQuerySchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  /** How many of the best-scoring leads to mine */
+  seedCount: z.coerce.number().int().min(1).max(100).default(20),
+  /** Only mine leads scoring at least this much */
+  minScore: z.coerce.number().int().min(0).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+export const QueueLookalikeAnalysisSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  analysisType: z.enum(['light', 'deep']),
+  /** Candidates picked from a previous discovery; omitted = the top `count` candidates */
+  usernames: z.array(CommonSchemas.instagramUsername).min(1).max(50).optional(),
+  count: z.number().int().min(1).max(50).default(20),
+  seedCount: z.number().int().min(1).max(100).default(20),
+  minScore: z.number().int().min(0).max(100).optional()
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export interface LookalikeSeed {
+  lead_id: string;
+  username: string;
+  overall_score: number;
+}
+
+export interface LookalikeCandidate {
+  username: string;
+  /** Ranking score: seeds referencing the account, weighted by seed score and frequency */
+  score: number;
+  /** Number of seed leads that mention or tag the account */
+  seed_count: number;
+  mention_count: number;
+  tagged_count: number;
+  /** Seed usernames referencing the account (up to 5) */
+  referenced_by: string[];
+}
+
+export interface LookalikeHashtag {
+  hashtag: string;
+  seed_count: number;
+  count: number;
+}
+
+export interface LookalikeDiscoveryResult {
+  seeds: LookalikeSeed[];
+  candidates: LookalikeCandidate[];
+  /** Hashtags shared by the seeds (starting points for hashtag sourcing) */
+  hashtags: LookalikeHashtag[];
+  /** Candidate usernames ready for POST /api/leads/analyze/bulk (max one batch) */
+  usernames: string[];
+}
+
+// ===============================================================================
+// TYPE EXPORTS
+// ===============================================================================
+
+export type LookalikeQuery = z.infer<typeof LookalikeQuerySchema>;
+export type QueueLookalikeAnalysisInput = z.infer<typeof QueueLookalikeAnalysisSchema>;
@@ -0,0 +1,190 @@
+// features/leads/leads-export.service.ts
+
+/**
+ * LEADS EXPORT
+ *
+ * Serializes lead pages into CSV or JSON Lines and exposes them as a byte stream.
+ * Pages are pulled lazily from the source iterator, so only one chunk of leads
+ * is in memory at a time regardless of account size.
+ *
+ * CSV output is spreadsheet-friendly:
+ * - UTF-8 BOM so Excel detects the encoding
+ * - RFC 4180 quoting
+ * - Formula-looking text cells are prefixed with ' to prevent CSV injection
+ */
+
+import type { LeadListItem } from './leads.types';
+
+export type LeadExportFormat = 'csv' | 'jsonl';
+
+// ===============================================================================
+// COLUMN DEFINITIONS
+// ===============================================================================
+
+type CellValue = string | number | boolean | null | undefined;
+
+interface ExportColumn {
+  header: string;
+  value: (lead: LeadListItem) => CellValue;
+}
+
+/** Join list fields into a single cell */
+function joinList(items: string[] | null | undefined): string | null {
+  return items && items.length > 0 ? items.join('; ') : null;
+}
+
+const LEAD_EXPORT_COLUMNS: ExportColumn[] = [
+  // Profile
+  { header: 'lead_id', value: l => l.id },
+  { header: 'username', value: l => l.username },
+  { header: 'display_name', value: l => l.display_name },
+  { header: 'profile_url', value: l => l.profile_url },
+  { header: 'external_url', value: l => l.external_url },
+  { header: 'follower_count', value: l => l.follower_count },
+  { header: 'following_count', value: l => l.following_count },
+  { header: 'post_count', value: l => l.post_count },
+  { header: 'is_verified', value: l => l.is_verified },
+  { header: 'is_business_account', value: l => l.is_business_account },
+  { header: 'is_private', value: l => l.is_private },
+
+  // Pipeline
+  { header: 'pipeline_stage', value: l => l.pipeline_stage },
+  { header: 'stage_changed_at', value: l => l.stage_changed_at },
+
+  // Latest analysis
+  { header: 'analysis_type', value: l => l.analysis_type },
+  { header: 'analysis_completed_at', value: l => l.analysis_completed_at },
+  { header: 'overall_score', value: l => l.overall_score },
+  { header: 'niche', value: l => l.niche },
+
+  // Extracted data - calculated
+  { header: 'lead_tier', value: l => l.extracted_data?.calculated?.lead_tier },
+  { header: 'audience_scale', value: l => l.extracted_data?.calculated?.audience_scale },
+  { header: 'engagement_score', value: l => l.extracted_data?.calculated?.engagement_score },
+  { header: 'engagement_consistency', value: l => l.extracted_data?.calculated?.engagement_consistency },
+  { header: 'profile_health_score', value: l => l.extracted_data?.calculated?.profile_health_score },
+  { header: 'engagement_health', value: l => l.extracted_data?.calculated?.engagement_health },
+  { header: 'content_sophistication', value: l => l.extracted_data?.calculated?.content_sophistication },
+  { header: 'account_maturity', value: l => l.extracted_data?.calculated?.account_maturity },
+  { header: 'authority_ratio', value: l => l.extracted_data?.calculated?.authority_ratio },
+  { header: 'fake_follower_warning', value: l => l.extracted_data?.calculated?.fake_follower_warning },
+
+  // Extracted data - static
+  { header: 'business_category', value: l => l.extracted_data?.static?.business_category_name },
+  { header: 'days_since_last_post', value: l => l.extracted_data?.static?.days_since_last_post },
+  { header: 'avg_likes_per_post', value: l => l.extracted_data?.static?.avg_likes_per_post },
+  { header: 'avg_comments_per_post', value: l => l.extracted_data?.static?.avg_comments_per_post },
+  { header: 'avg_video_views', value: l => l.extracted_data?.static?.avg_video_views },
+  { header: 'dominant_format', value: l => l.extracted_data?.static?.dominant_format },
+  { header: 'posting_consistency', value: l => l.extracted_data?.static?.posting_consistency },
+  { header: 'top_hashtags', value: l => joinList(l.extracted_data?.static?.top_hashtags.map(h => h.hashtag)) },
+  { header: 'top_mentions', value: l => joinList(l.extracted_data?.static?.top_mentions.map(m => m.username)) },
+
+  // AI analysis
+  { header: 'ai_lead_tier', value: l => l.ai_analysis?.lead_tier },
+  { header: 'strengths', value: l => joinList(l.ai_analysis?.strengths) },
+  { header: 'weaknesses', value: l => joinList(l.ai_analysis?.weaknesses) },
+  { header: 'opportunities', value: l => joinList(l.ai_analysis?.opportunities) },
+  { header: 'recommended_actions', value: l => joinList(l.ai_analysis?.recommended_actions) },
+  { header: 'risk_factors', value: l => joinList(l.ai_analysis?.risk_factors) },
+  { header: 'fit_reasoning', value: l => l.ai_analysis?.fit_reasoning },
+
+  // Timestamps
+  { header: 'last_analyzed_at', value: l => l.last_analyzed_at },
+  { header: 'created_at', value: l => l.created_at }
+];
+
+// ===============================================================================
+// SERIALIZATION
+// ===============================================================================
+
+/**
+ * Escape a single CSV cell
+ * Text starting with =, +, -, @ (or tab/CR) is neutralized so spreadsheets
+ * don't evaluate it as a formula
+ */
+function escapeCsvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  let text = value;
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toCsvLine(cells: CellValue[]): string {
+  return cells.map(escapeCsvCell).join(',') + '\r\n';
+}
+
+function serializeChunk(leads: LeadListItem[], format: LeadExportFormat): string {
+  if (format === 'jsonl') {
+    return leads.map(lead => JSON.stringify(lead)).join('\n') + '\n';
+  }
+  return leads
+    .map(lead => toCsvLine(LEAD_EXPORT_COLUMNS.map(column => column.value(lead))))
+    .join('');
+}
+
+// ===============================================================================
+// STREAM
+// ===============================================================================
+
+/**
+ * Build a byte stream from lead pages
+ * onError is invoked if a page fails mid-stream (headers are already sent by then)
+ */
+export function createLeadExportStream(
+  pages: AsyncIterable<LeadListItem[]>,
+  format: LeadExportFormat,
+  onError?: (error: unknown) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = pages[Symbol.asyncIterator]();
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent && format === 'csv') {
+        headerSent = true;
+        controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(LEAD_EXPORT_COLUMNS.map(c => c.header))));
+        return;
+      }
+
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(serializeChunk(value, format)));
+      } catch (error) {
+        onError?.(error);
+        controller.error(error);
+      }
+    },
+
+    async cancel() {
+      await iterator.return?.();
+    }
+  });
+}
+
+/**
+ * Response headers for an export download
+ */
+export function getLeadExportHeaders(format: LeadExportFormat, businessProfileId: string): Record<string, string> {
+  const date = new Date().toISOString().slice(0, 10);
+  const extension = format === 'csv' ? 'csv' : 'jsonl';
+
+  return {
+    'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+    'Content-Disposition': `attachment; filename="leads-${businessProfileId}-${date}.${extension}"`,
+    'Cache-Control': 'no-store'
+  };
+}
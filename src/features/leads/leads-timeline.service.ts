@@ -0,0 +1,260 @@
+// features/leads/leads-timeline.service.ts
+
+/**
+ * LEAD TIMELINE
+ *
+ * Diffs consecutive completed analyses of a lead into a structured change log
+ * ("what changed since last time") plus a score-over-time series.
+ *
+ * Compared fields:
+ * - follower_count, engagement_rate, overall_score (numeric deltas)
+ * - lead_tier, niche, verification, privacy (value changes)
+ * - bio (Levenshtein similarity, same threshold as cache invalidation)
+ *
+ * A change is flagged `significant` when it crosses the thresholds below;
+ * insignificant changes are still listed so the UI can decide what to show.
+ */
+
+import type {
+  LeadTimeline,
+  LeadTimelineChange,
+  LeadTimelineEntry,
+  LeadTimelinePoint
+} from './leads.types';
+import type { AnalysisProfileSnapshot } from '@/infrastructure/database/repositories/analysis.repository';
+import { calculateStringSimilarity, SIGNIFICANT_CHANGE_SIMILARITY } from '@/shared/utils/string-similarity.util';
+import { formatAbbreviated, formatPercentage, round } from '@/shared/utils/number-format.util';
+
+// ===============================================================================
+// THRESHOLDS
+// ===============================================================================
+
+/** Follower change (percent) that counts as significant, matches cache invalidation */
+const FOLLOWER_CHANGE_PERCENT = 10;
+
+/** Relative engagement rate change (percent) that counts as significant */
+const ENGAGEMENT_CHANGE_PERCENT = 20;
+
+/** Score movement (points) that counts as significant */
+const SCORE_CHANGE_POINTS = 10;
+
+// ===============================================================================
+// ROW MAPPING
+// ===============================================================================
+
+/**
+ * Columns read from lead_analyses for the timeline
+ */
+export interface LeadTimelineAnalysisRow {
+  id: string;
+  analysis_type: string;
+  overall_score: number | null;
+  niche: string | null;
+  completed_at: string | null;
+  created_at: string;
+  ai_response: any;
+  extracted_data: any;
+  profile_snapshot: AnalysisProfileSnapshot | null;
+}
+
+/**
+ * Pull comparable values out of an analysis row
+ * Profile snapshot wins over extracted_data since light analyses only have the former
+ */
+function toTimelinePoint(row: LeadTimelineAnalysisRow): LeadTimelinePoint {
+  const snapshot = row.profile_snapshot;
+  const extracted = row.extracted_data;
+
+  return {
+    analysis_id: row.id,
+    analysis_type: row.analysis_type,
+    completed_at: row.completed_at ?? row.created_at,
+    overall_score: row.overall_score ?? null,
+    lead_tier: row.ai_response?.leadTier ?? extracted?.calculated?.leadTier ?? null,
+    niche: row.niche ?? row.ai_response?.niche ?? null,
+    follower_count: snapshot?.follower_count ?? extracted?.static?.followersCount ?? null,
+    engagement_rate: extracted?.calculated?.engagementRate ?? null,
+    bio: snapshot?.bio ?? null,
+    is_verified: snapshot?.is_verified ?? extracted?.static?.verified ?? null,
+    is_private: snapshot?.is_private ?? null
+  };
+}
+
+// ===============================================================================
+// DIFFING
+// ===============================================================================
+
+function formatSigned(value: number, formatted: string): string {
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+/** Percent change from previous to current, null when previous is 0 */
+function percentChange(previous: number, current: number): number | null {
+  if (previous === 0) return null;
+  return round(((current - previous) / previous) * 100, 1);
+}
+
+function diffFollowers(previous: LeadTimelinePoint, current: LeadTimelinePoint): LeadTimelineChange | null {
+  if (previous.follower_count === null || current.follower_count === null) return null;
+  if (previous.follower_count === current.follower_count) return null;
+
+  const delta = current.follower_count - previous.follower_count;
+  const deltaPercent = percentChange(previous.follower_count, current.follower_count);
+  const deltaLabel = delta > 0 ? `+${formatAbbreviated(delta)}` : `-${formatAbbreviated(-delta)}`;
+
+  return {
+    field: 'follower_count',
+    previous: previous.follower_count,
+    current: current.follower_count,
+    delta,
+    delta_percent: deltaPercent,
+    significant: deltaPercent === null || Math.abs(deltaPercent) >= FOLLOWER_CHANGE_PERCENT,
+    description: `Followers ${deltaLabel}` +
+      (deltaPercent !== null ? ` (${formatSigned(deltaPercent, `${deltaPercent}%`)})` : '') +
+      `: ${formatAbbreviated(previous.follower_count)} → ${formatAbbreviated(current.follower_count)}`
+  };
+}
+
+function diffEngagement(previous: LeadTimelinePoint, current: LeadTimelinePoint): LeadTimelineChange | null {
+  if (previous.engagement_rate === null || current.engagement_rate === null) return null;
+
+  // Rates are decimals (0.044 = 4.4%); ignore float noise below 0.01pp
+  const delta = round(current.engagement_rate - previous.engagement_rate, 4);
+  if (delta === 0) return null;
+
+  const deltaPercent = percentChange(previous.engagement_rate, current.engagement_rate);
+
+  return {
+    field: 'engagement_rate',
+    previous: previous.engagement_rate,
+    current: current.engagement_rate,
+    delta,
+    delta_percent: deltaPercent,
+    significant: deltaPercent === null || Math.abs(deltaPercent) >= ENGAGEMENT_CHANGE_PERCENT,
+    description: `Engagement rate ${formatPercentage(previous.engagement_rate * 100)} → ${formatPercentage(current.engagement_rate * 100)}`
+  };
+}
+
+function diffScore(previous: LeadTimelinePoint, current: LeadTimelinePoint): LeadTimelineChange | null {
+  if (previous.overall_score === null || current.overall_score === null) return null;
+  if (previous.overall_score === current.overall_score) return null;
+
+  const delta = current.overall_score - previous.overall_score;
+
+  return {
+    field: 'overall_score',
+    previous: previous.overall_score,
+    current: current.overall_score,
+    delta,
+    delta_percent: percentChange(previous.overall_score, current.overall_score),
+    significant: Math.abs(delta) >= SCORE_CHANGE_POINTS,
+    description: `Score ${formatSigned(delta, String(delta))}: ${previous.overall_score} → ${current.overall_score}`
+  };
+}
+
+function diffBio(previous: LeadTimelinePoint, current: LeadTimelinePoint): LeadTimelineChange | null {
+  if (previous.bio === null || current.bio === null) return null;
+  if (previous.bio === current.bio) return null;
+
+  const similarity = round(calculateStringSimilarity(previous.bio, current.bio), 2);
+
+  return {
+    field: 'bio',
+    previous: previous.bio,
+    current: current.bio,
+    similarity,
+    significant: similarity < SIGNIFICANT_CHANGE_SIMILARITY,
+    description: `Bio changed (${Math.round((1 - similarity) * 100)}% different)`
+  };
+}
+
+/**
+ * Plain value change (tier, niche, flags); any change is significant
+ */
+function diffValue(
+  field: 'lead_tier' | 'niche' | 'is_verified' | 'is_private',
+  label: string,
+  previous: LeadTimelinePoint,
+  current: LeadTimelinePoint
+): LeadTimelineChange | null {
+  const before = previous[field];
+  const after = current[field];
+
+  if (before === null || after === null || before === after) return null;
+
+  return {
+    field,
+    previous: before,
+    current: after,
+    significant: true,
+    description: `${label}: ${before} → ${after}`
+  };
+}
+
+/**
+ * All field changes between two consecutive analyses, most significant first
+ */
+function diffPoints(previous: LeadTimelinePoint, current: LeadTimelinePoint): LeadTimelineChange[] {
+  const changes = [
+    diffScore(previous, current),
+    diffValue('lead_tier', 'Lead tier', previous, current),
+    diffFollowers(previous, current),
+    diffEngagement(previous, current),
+    diffValue('niche', 'Niche', previous, current),
+    diffBio(previous, current),
+    diffValue('is_verified', 'Verified', previous, current),
+    diffValue('is_private', 'Private', previous, current)
+  ].filter((change): change is LeadTimelineChange => change !== null);
+
+  // Stable sort keeps field order within each group
+  return changes.sort((a, b) => Number(b.significant) - Number(a.significant));
+}
+
+// ===============================================================================
+// TIMELINE
+// ===============================================================================
+
+/**
+ * Build the change log from analyses ordered newest first
+ *
+ * @param rows - Completed analyses, newest first. Pass one more row than the
+ *   number of entries wanted so the oldest returned entry has a baseline.
+ * @param limit - Number of entries to return
+ */
+export function buildLeadTimeline(
+  leadId: string,
+  rows: LeadTimelineAnalysisRow[],
+  limit: number
+): LeadTimeline {
+  const points = rows.map(toTimelinePoint);
+  const entries: LeadTimelineEntry[] = [];
+
+  for (let i = 0; i < Math.min(points.length, limit); i++) {
+    const current = points[i];
+    const previous = points[i + 1] ?? null;
+
+    entries.push({
+      analysis_id: current.analysis_id,
+      previous_analysis_id: previous?.analysis_id ?? null,
+      analysis_type: current.analysis_type,
+      completed_at: current.completed_at,
+      changes: previous ? diffPoints(previous, current) : []
+    });
+  }
+
+  const scoreHistory = points
+    .slice(0, limit)
+    .reverse()
+    .map(point => ({
+      analysis_id: point.analysis_id,
+      completed_at: point.completed_at,
+      overall_score: point.overall_score,
+      lead_tier: point.lead_tier
+    }));
+
+  return {
+    lead_id: leadId,
+    entries,
+    score_history: scoreHistory
+  };
+}
@@ -7,11 +7,17 @@ import {
   ListLeadsQuerySchema,
   GetLeadParamsSchema,
   GetLeadAnalysesQuerySchema,
-  DeleteLeadParamsSchema
+  DeleteLeadParamsSchema,
+  UpdateLeadStageSchema,
+  GetLeadStageHistoryQuerySchema,
+  ExportLeadsQuerySchema,
+  GetLeadTimelineQuerySchema
 } from './leads.types';
-import { validateQuery } from '@/shared/utils/validation.util';
+import { createLeadExportStream, getLeadExportHeaders } from './leads-export.service';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
 import { successResponse, errorResponse, paginatedResponse, noContentResponse } from '@/shared/utils/response.util';
 import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { AppError } from '@/shared/middleware/error.middleware';
 import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
 import { AvatarCacheService } from '@/infrastructure/cache/avatar-cache.service';
 import { logger } from '@/shared/utils/logger.util';
@@ -32,7 +38,21 @@ export async function listLeads(c: Context<{ Bindings: Env }>) {
       pageSize: c.req.query('pageSize'),
       sortBy: c.req.query('sortBy'),
       sortOrder: c.req.query('sortOrder'),
-      search: c.req.query('search')
+      search: c.req.query('search'),
+      stage: c.req.query('stage'),
+      ownerId: c.req.query('ownerId'),
+      includeStageCounts: c.req.query('includeStageCounts'),
+      isBusinessAccount: c.req.query('isBusinessAccount'),
+      isVerified: c.req.query('isVerified'),
+      minFollowers: c.req.query('minFollowers'),
+      maxFollowers: c.req.query('maxFollowers'),
+      leadTier: c.req.query('leadTier'),
+      audienceScale: c.req.query('audienceScale'),
+      niche: c.req.query('niche'),
+      analysisType: c.req.query('analysisType'),
+      minScore: c.req.query('minScore'),
+      maxScore: c.req.query('maxScore'),
+      includeFacets: c.req.query('includeFacets')
     });
 
     // Get leads
@@ -40,12 +60,21 @@ export async function listLeads(c: Context<{ Bindings: Env }>) {
     const service = new LeadsService(supabase);
     const { leads, total } = await service.listLeads(accountId, query);
 
+    // Optional aggregates for dashboard chips, returned alongside pagination
+    const meta: Record<string, unknown> = {};
+    if (query.includeStageCounts === 'true') {
+      meta.stageCounts = await service.getStageCounts(accountId, query.businessProfileId);
+    }
+    if (query.includeFacets === 'true') {
+      meta.facets = await service.getLeadFacets(accountId, query);
+    }
+
     return paginatedResponse(c, leads, {
       total,
       page: query.page,
       pageSize: query.pageSize,
       hasMore: (query.page * query.pageSize) < total
-    });
+    }, meta);
 
   } catch (error: any) {
     logger.error('Failed to list leads', {
@@ -61,6 +90,74 @@ export async function listLeads(c: Context<{ Bindings: Env }>) {
   }
 }
 
+/**
+ * GET /api/leads/export
+ * Stream all leads matching the list filters as CSV or JSON Lines
+ */
+export async function exportLeads(c: Context<{ Bindings: Env }>) {
+  try {
+    const auth = getAuthContext(c);
+    const accountId = auth.accountId;
+
+    const query = validateQuery(ExportLeadsQuerySchema, {
+      format: c.req.query('format'),
+      businessProfileId: c.req.query('businessProfileId'),
+      sortBy: c.req.query('sortBy'),
+      sortOrder: c.req.query('sortOrder'),
+      search: c.req.query('search'),
+      stage: c.req.query('stage'),
+      ownerId: c.req.query('ownerId'),
+      isBusinessAccount: c.req.query('isBusinessAccount'),
+      isVerified: c.req.query('isVerified'),
+      minFollowers: c.req.query('minFollowers'),
+      maxFollowers: c.req.query('maxFollowers'),
+      leadTier: c.req.query('leadTier'),
+      audienceScale: c.req.query('audienceScale'),
+      niche: c.req.query('niche'),
+      analysisType: c.req.query('analysisType'),
+      minScore: c.req.query('minScore'),
+      maxScore: c.req.query('maxScore')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new LeadsService(supabase);
+
+    // page/pageSize are ignored by streamLeads, which walks every matching lead
+    const pages = service.streamLeads(accountId, { ...query, page: 1, pageSize: 100 });
+
+    const stream = createLeadExportStream(pages, query.format, (streamError) => {
+      logger.error('Lead export failed mid-stream', {
+        error: streamError instanceof Error ? streamError.message : String(streamError),
+        accountId,
+        businessProfileId: query.businessProfileId
+      });
+    });
+
+    logger.info('Lead export started', {
+      accountId,
+      businessProfileId: query.businessProfileId,
+      format: query.format
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: getLeadExportHeaders(query.format, query.businessProfileId)
+    });
+
+  } catch (error: any) {
+    logger.error('Failed to export leads', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid query parameters', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
+    return errorResponse(c, 'Failed to export leads', 'INTERNAL_ERROR', 500);
+  }
+}
+
 /**
  * GET /api/leads/:leadId
  * Get single lead details
@@ -144,6 +241,47 @@ export async function getLeadAnalyses(c: Context<{ Bindings: Env }>) {
   }
 }
 
+/**
+ * GET /api/leads/:leadId/timeline
+ * Get what changed between consecutive analyses and score over time
+ */
+export async function getLeadTimeline(c: Context<{ Bindings: Env }>) {
+  try {
+    const auth = getAuthContext(c);
+    const accountId = auth.accountId;
+    const leadId = c.req.param('leadId');
+
+    const query = validateQuery(GetLeadTimelineQuerySchema, {
+      leadId,
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new LeadsService(supabase);
+    const hasAccess = await service.verifyLeadOwnership(accountId, query.leadId);
+
+    if (!hasAccess) {
+      return errorResponse(c, 'Lead not found', 'NOT_FOUND', 404);
+    }
+
+    const timeline = await service.getLeadTimeline(accountId, query);
+
+    return successResponse(c, timeline);
+
+  } catch (error: any) {
+    logger.error('Failed to get lead timeline', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid parameters', 'VALIDATION_ERROR', 400);
+    }
+
+    return errorResponse(c, 'Failed to get lead timeline', 'INTERNAL_ERROR', 500);
+  }
+}
+
 /**
  * DELETE /api/leads/:leadId
  * Soft delete lead and clean up R2 avatar
@@ -201,3 +339,90 @@ export async function deleteLead(c: Context<{ Bindings: Env }>) {
     return errorResponse(c, 'Failed to delete lead', 'INTERNAL_ERROR', 500);
   }
 }
+
+/**
+ * PATCH /api/leads/:leadId/stage
+ * Move lead through the pipeline and record an audit event
+ */
+export async function updateLeadStage(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const leadId = c.req.param('leadId');
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(UpdateLeadStageSchema, { ...body, leadId });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new LeadsService(supabase);
+    const event = await service.updateLeadStage(accountId, auth.userId, input);
+
+    logger.info('Lead stage updated', {
+      leadId,
+      accountId,
+      fromStage: event.from_stage,
+      toStage: event.to_stage
+    });
+
+    return successResponse(c, event);
+
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return errorResponse(c, error.message, error.code, error.statusCode, error.details);
+    }
+
+    logger.error('Failed to update lead stage', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      accountId,
+      leadId
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid request data', 'VALIDATION_ERROR', 400, error.errors);
+    }
+
+    return errorResponse(c, 'Failed to update lead stage', 'INTERNAL_ERROR', 500);
+  }
+}
+
+/**
+ * GET /api/leads/:leadId/stage-history
+ * Get pipeline audit history for lead
+ */
+export async function getLeadStageHistory(c: Context<{ Bindings: Env }>) {
+  try {
+    const auth = getAuthContext(c);
+    const accountId = auth.accountId;
+    const leadId = c.req.param('leadId');
+
+    const query = validateQuery(GetLeadStageHistoryQuerySchema, {
+      leadId,
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new LeadsService(supabase);
+    const hasAccess = await service.verifyLeadOwnership(accountId, leadId);
+
+    if (!hasAccess) {
+      return errorResponse(c, 'Lead not found', 'NOT_FOUND', 404);
+    }
+
+    const history = await service.getLeadStageHistory(accountId, query);
+
+    return successResponse(c, history);
+
+  } catch (error: any) {
+    logger.error('Failed to get lead stage history', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    if (error.name === 'ZodError') {
+      return errorResponse(c, 'Invalid parameters', 'VALIDATION_ERROR', 400);
+    }
+
+    return errorResponse(c, 'Failed to get stage history', 'INTERNAL_ERROR', 500);
+  }
+}
@@ -5,7 +5,16 @@ import type { Env } from '@/shared/types/env.types';
 import { authMiddleware } from '@/shared/middleware/auth.middleware';
 import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
 import { API_RATE_LIMITS } from '@/config/rate-limits.config';
-import { listLeads, getLead, getLeadAnalyses, deleteLead } from './leads.handler';
+import {
+  listLeads,
+  getLead,
+  getLeadAnalyses,
+  getLeadTimeline,
+  deleteLead,
+  exportLeads,
+  updateLeadStage,
+  getLeadStageHistory
+} from './leads.handler';
 
 export function registerLeadRoutes(app: Hono<{ Bindings: Env }>) {
   
@@ -19,9 +28,21 @@ export function registerLeadRoutes(app: Hono<{ Bindings: Env }>) {
    * GET /api/leads
    * List all leads with pagination
    * Query params: ?businessProfileId=uuid&page=1&pageSize=50&sortBy=last_analyzed_at&sortOrder=desc&search=nike
+   * Pipeline params: &stage=contacted&ownerId=uuid&includeStageCounts=true
+   * Profile filters: &isBusinessAccount=true&isVerified=false&minFollowers=1000&maxFollowers=50000
+   * Analysis filters: &leadTier=hot&audienceScale=micro&niche=fitness&analysisType=deep&minScore=60&maxScore=100
+   * Sorting by score: &sortBy=overall_score; facet counts: &includeFacets=true
    */
   app.get('/api/leads', listLeads);
 
+  /**
+   * GET /api/leads/export
+   * Stream all matching leads with latest analysis as a file download
+   * Query params: ?businessProfileId=uuid&format=csv|jsonl plus any list filter
+   * Registered before /:leadId so 'export' isn't captured as a lead ID
+   */
+  app.get('/api/leads/export', exportLeads);
+
   /**
    * GET /api/leads/:leadId
    * Get single lead details
@@ -35,6 +56,27 @@ export function registerLeadRoutes(app: Hono<{ Bindings: Env }>) {
    */
   app.get('/api/leads/:leadId/analyses', getLeadAnalyses);
 
+  /**
+   * GET /api/leads/:leadId/timeline
+   * Change log between consecutive analyses (followers, engagement, score, tier, niche, bio)
+   * Query params: ?limit=20
+   */
+  app.get('/api/leads/:leadId/timeline', getLeadTimeline);
+
+  /**
+   * PATCH /api/leads/:leadId/stage
+   * Move lead to a pipeline stage
+   * Body: { stage: 'contacted', note?: string, ownerId?: uuid | null }
+   */
+  app.patch('/api/leads/:leadId/stage', updateLeadStage);
+
+  /**
+   * GET /api/leads/:leadId/stage-history
+   * Get pipeline audit history for lead
+   * Query params: ?limit=50
+   */
+  app.get('/api/leads/:leadId/stage-history', getLeadStageHistory);
+
   /**
    * DELETE /api/leads/:leadId
    * Soft delete lead (30-day recovery window)
@@ -8,9 +8,41 @@ import type {
   LeadAnalysis,
   GetLeadAnalysesQuery,
   ExtractedDataResponse,
-  AIAnalysisResponse
+  AIAnalysisResponse,
+  PipelineStage,
+  PipelineStageCounts,
+  LeadStageEvent,
+  UpdateLeadStageInput,
+  GetLeadStageHistoryQuery,
+  GetLeadTimelineQuery,
+  LeadTimeline,
+  LeadFacets
 } from './leads.types';
+import { PIPELINE_STAGES, PIPELINE_STAGE_TRANSITIONS, LEAD_TIERS, AUDIENCE_SCALES } from './leads.types';
 import type { ExtractedData, AILeadAnalysis } from '@/infrastructure/extraction/extraction.types';
+import { calculateLeadTier } from '@/infrastructure/extraction/tier-classification.util';
+import { resolveScoringConfig, type ScoringConfig } from '@/config/scoring.config';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { MembershipService } from '@/infrastructure/auth/membership.service';
+import { buildLeadTimeline, type LeadTimelineAnalysisRow } from './leads-timeline.service';
+
+/**
+ * Leads joined with their latest completed analysis
+ * (latest_analysis_type, latest_overall_score, latest_niche, latest_lead_tier,
+ * latest_audience_scale), so analysis filters and score sorting run in SQL
+ */
+const LEAD_LIST_VIEW = 'lead_list_rows';
+
+/** Position of the last streamed lead: its sort column value and ID */
+interface LeadCursor {
+  value: unknown;
+  id: string;
+}
+
+/**
+ * Leads created before pipeline stages have a null stage and count as 'new'
+ */
+const NEW_STAGE_FILTER = 'pipeline_stage.eq.new,pipeline_stage.is.null';
 
 export class LeadsService {
   constructor(private supabase: SupabaseClient) {}
@@ -33,6 +65,7 @@ export class LeadsService {
         // Content signals
         top_hashtags: data.static.topHashtags ?? [],
         top_mentions: data.static.topMentions ?? [],
+        top_tagged_users: data.static.topTaggedUsers ?? [],
 
         // Activity signals
         days_since_last_post: data.static.daysSinceLastPost ?? null,
@@ -81,8 +114,13 @@ export class LeadsService {
   /**
    * Transform ai_response JSONB from database to API response format
    * Reads flattened AI analysis fields from top level of ai_response
+   * The tier comes from the score and the business's thresholds, not the AI's own pick
    */
-  private transformAIAnalysis(aiResponse: any, overallScore: number | null): AIAnalysisResponse | null {
+  private transformAIAnalysis(
+    aiResponse: any,
+    overallScore: number | null,
+    scoringConfig?: Partial<ScoringConfig> | null
+  ): AIAnalysisResponse | null {
     // Check if AI analysis fields exist (leadTier is required field)
     if (!aiResponse?.leadTier) {
       // No AI analysis available
@@ -91,7 +129,9 @@ export class LeadsService {
 
     return {
       profile_assessment_score: overallScore,
-      lead_tier: aiResponse.leadTier ?? null,
+      lead_tier: overallScore !== null && overallScore !== undefined
+        ? calculateLeadTier(overallScore, resolveScoringConfig(scoringConfig).thresholds)
+        : aiResponse.leadTier ?? null,
       niche: aiResponse.niche ?? null,
       strengths: aiResponse.strengths ?? null,
       weaknesses: aiResponse.weaknesses ?? null,
@@ -104,20 +144,180 @@ export class LeadsService {
 
   /**
    * List all leads for account with pagination
+   * Filters, sorting and the total all run in the database. Analysis-level
+   * filters (tier, niche, score, ...) and score sorting read the latest
+   * completed analysis per lead from the lead_list_rows view.
    */
   async listLeads(
     accountId: string,
     query: ListLeadsQuery
   ): Promise<{ leads: LeadListItem[]; total: number }> {
-    const { businessProfileId, page, pageSize, sortBy, sortOrder, search } = query;
+    const { page, pageSize } = query;
     const offset = (page - 1) * pageSize;
 
-    // Build base query
+    const { data: leads, error, count } = await this.buildLeadQuery(accountId, query, '*', { count: 'exact' })
+      .order(this.getSortColumn(query), { ascending: query.sortOrder === 'asc', nullsFirst: this.sortsNullsFirst(query) })
+      .order('id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) throw error;
+
+    return {
+      leads: await this.attachLatestAnalyses(accountId, leads || []),
+      total: count || 0
+    };
+  }
+
+  /**
+   * Stream every lead matching the list filters in fixed-size chunks
+   * Used by exports so large accounts never hold the full result in memory.
+   * Pages with a keyset cursor on (sort column, id), so leads added or removed
+   * mid-export can't shift later chunks into duplicates or gaps.
+   */
+  async *streamLeads(
+    accountId: string,
+    query: ListLeadsQuery,
+    chunkSize: number = 200
+  ): AsyncGenerator<LeadListItem[]> {
+    const column = this.getSortColumn(query);
+    const ascending = query.sortOrder === 'asc';
+    const nullsFirst = this.sortsNullsFirst(query);
+    let cursor: LeadCursor | null = null;
+
+    for (;;) {
+      let queryBuilder = this.buildLeadQuery(accountId, query, '*');
+      if (cursor) {
+        queryBuilder = queryBuilder.or(this.buildKeysetFilter(column, ascending, nullsFirst, cursor));
+      }
+
+      const { data, error } = await queryBuilder
+        .order(column, { ascending, nullsFirst })
+        .order('id', { ascending: true })
+        .limit(chunkSize);
+
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as Array<Record<string, unknown> & { id: string }>;
+      if (rows.length > 0) {
+        yield await this.attachLatestAnalyses(accountId, rows);
+        const last = rows[rows.length - 1];
+        cursor = { value: last[column] ?? null, id: last.id };
+      }
+      if (rows.length < chunkSize) return;
+    }
+  }
+
+  /**
+   * PostgREST or-filter for rows after the cursor in (column, id) order
+   */
+  private buildKeysetFilter(column: string, ascending: boolean, nullsFirst: boolean, cursor: LeadCursor): string {
+    const quote = (value: unknown) => `"${String(value).replace(/(["\\])/g, '\\$1')}"`;
+    const id = quote(cursor.id);
+
+    if (cursor.value === null) {
+      // In the null block: later nulls by id, then (nulls first) every non-null row
+      const sameBlock = `and(${column}.is.null,id.gt.${id})`;
+      return nullsFirst ? `${sameBlock},${column}.not.is.null` : sameBlock;
+    }
+
+    const value = quote(cursor.value);
+    const filters = [
+      `${column}.${ascending ? 'gt' : 'lt'}.${value}`,
+      `and(${column}.eq.${value},id.gt.${id})`
+    ];
+    if (!nullsFirst) {
+      filters.push(`${column}.is.null`);
+    }
+    return filters.join(',');
+  }
+
+  /**
+   * IDs of the first leads matching the list filters, in requested order
+   */
+  async resolveMatchingLeadIds(accountId: string, query: ListLeadsQuery, limit: number): Promise<string[]> {
+    const { data, error } = await this.buildLeadQuery(accountId, query, 'id')
+      .order(this.getSortColumn(query), { ascending: query.sortOrder === 'asc', nullsFirst: this.sortsNullsFirst(query) })
+      .order('id', { ascending: true })
+      .range(0, limit - 1);
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as Array<{ id: string }>).map(row => row.id);
+  }
+
+  /**
+   * Facet counts (tier, audience scale, niche, analysis type) for the current filters
+   *
+   * Aggregated by the get_lead_facets RPC over lead_list_rows. Each dimension
+   * ignores its own filter so unselected chips keep their counts; leads
+   * without a completed analysis aren't counted.
+   */
+  async getLeadFacets(accountId: string, query: ListLeadsQuery): Promise<LeadFacets> {
+    const { data, error } = await this.supabase
+      .rpc('get_lead_facets', {
+        p_account_id: accountId,
+        p_business_profile_id: query.businessProfileId,
+        p_filters: {
+          search: query.search ?? null,
+          stage: query.stage ?? null,
+          owner_id: query.ownerId ?? null,
+          is_business_account: query.isBusinessAccount === undefined ? null : query.isBusinessAccount === 'true',
+          is_verified: query.isVerified === undefined ? null : query.isVerified === 'true',
+          min_followers: query.minFollowers ?? null,
+          max_followers: query.maxFollowers ?? null,
+          lead_tier: query.leadTier ?? null,
+          audience_scale: query.audienceScale ?? null,
+          niche: query.niche ?? null,
+          analysis_type: query.analysisType ?? null,
+          min_score: query.minScore ?? null,
+          max_score: query.maxScore ?? null
+        }
+      });
+
+    if (error) throw error;
+
+    const counts = (data || {}) as Partial<LeadFacets>;
+
+    // Fixed dimensions list every value, even at zero
+    return {
+      lead_tier: { ...Object.fromEntries(LEAD_TIERS.map(tier => [tier, 0])), ...counts.lead_tier },
+      audience_scale: { ...Object.fromEntries(AUDIENCE_SCALES.map(scale => [scale, 0])), ...counts.audience_scale },
+      niche: counts.niche ?? {},
+      analysis_type: counts.analysis_type ?? {}
+    };
+  }
+
+  /**
+   * Whether the listing needs per-lead analysis data to filter or sort
+   */
+  private needsAnalysisSnapshot(query: ListLeadsQuery): boolean {
+    return query.sortBy === 'overall_score' ||
+      query.leadTier !== undefined ||
+      query.audienceScale !== undefined ||
+      query.niche !== undefined ||
+      query.analysisType !== undefined ||
+      query.minScore !== undefined ||
+      query.maxScore !== undefined;
+  }
+
+  /**
+   * Filtered lead query for the list filters
+   * Reads lead_list_rows only when an analysis-level filter or sort needs it
+   */
+  private buildLeadQuery(
+    accountId: string,
+    query: ListLeadsQuery,
+    columns: string,
+    options?: { count: 'exact' }
+  ) {
+    const { search, stage, ownerId, isBusinessAccount, isVerified, minFollowers, maxFollowers } = query;
+    const source = this.needsAnalysisSnapshot(query) ? LEAD_LIST_VIEW : 'leads';
+
     let queryBuilder = this.supabase
-      .from('leads')
-      .select('*', { count: 'exact' })
+      .from(source)
+      .select(columns, options)
       .eq('account_id', accountId)
-      .eq('business_profile_id', businessProfileId)
+      .eq('business_profile_id', query.businessProfileId)
       .is('deleted_at', null);
 
     // Search by username
@@ -125,18 +325,72 @@ export class LeadsService {
       queryBuilder = queryBuilder.ilike('username', `%${search}%`);
     }
 
-    // Sort
-    queryBuilder = queryBuilder.order(sortBy, { ascending: sortOrder === 'asc' });
+    // Pipeline filters
+    if (stage) {
+      queryBuilder = stage === 'new'
+        ? queryBuilder.or(NEW_STAGE_FILTER)
+        : queryBuilder.eq('pipeline_stage', stage);
+    }
+    if (ownerId) {
+      queryBuilder = queryBuilder.eq('pipeline_owner_id', ownerId);
+    }
 
-    // Paginate
-    queryBuilder = queryBuilder.range(offset, offset + pageSize - 1);
+    // Profile filters
+    if (isBusinessAccount) {
+      queryBuilder = queryBuilder.eq('is_business_account', isBusinessAccount === 'true');
+    }
+    if (isVerified) {
+      queryBuilder = queryBuilder.eq('is_verified', isVerified === 'true');
+    }
+    if (minFollowers !== undefined) {
+      queryBuilder = queryBuilder.gte('follower_count', minFollowers);
+    }
+    if (maxFollowers !== undefined) {
+      queryBuilder = queryBuilder.lte('follower_count', maxFollowers);
+    }
 
-    const { data: leads, error, count } = await queryBuilder;
+    // Analysis filters (lead_list_rows columns)
+    if (query.leadTier) {
+      queryBuilder = queryBuilder.eq('latest_lead_tier', query.leadTier);
+    }
+    if (query.audienceScale) {
+      queryBuilder = queryBuilder.eq('latest_audience_scale', query.audienceScale);
+    }
+    if (query.niche) {
+      // Case-insensitive equality: escape LIKE wildcards in the value
+      queryBuilder = queryBuilder.ilike('latest_niche', query.niche.replace(/[\\%_]/g, '\\$&'));
+    }
+    if (query.analysisType) {
+      queryBuilder = queryBuilder.eq('latest_analysis_type', query.analysisType);
+    }
+    if (query.minScore !== undefined) {
+      queryBuilder = queryBuilder.gte('latest_overall_score', query.minScore);
+    }
+    if (query.maxScore !== undefined) {
+      queryBuilder = queryBuilder.lte('latest_overall_score', query.maxScore);
+    }
 
-    if (error) throw error;
+    return queryBuilder;
+  }
+
+  private getSortColumn(query: ListLeadsQuery): string {
+    return query.sortBy === 'overall_score' ? 'latest_overall_score' : query.sortBy;
+  }
 
+  /**
+   * Leads without a completed analysis always sort last by score;
+   * other columns keep Postgres' default null ordering
+   */
+  private sortsNullsFirst(query: ListLeadsQuery): boolean {
+    return query.sortBy === 'overall_score' ? false : query.sortOrder === 'desc';
+  }
+
+  /**
+   * Merge each lead row with its latest completed analysis
+   */
+  private async attachLatestAnalyses(accountId: string, leads: any[]): Promise<LeadListItem[]> {
     // Get latest analysis for each lead
-    const leadIds = (leads || []).map((l: any) => l.id);
+    const leadIds = leads.map((l: any) => l.id);
 
     let latestAnalyses: any[] = [];
     if (leadIds.length > 0) {
@@ -144,7 +398,7 @@ export class LeadsService {
       // Include extracted_data and full ai_response for actionable insights
       const { data: analysesData } = await this.supabase
         .from('lead_analyses')
-        .select('lead_id, analysis_type, status, completed_at, overall_score, ai_response, extracted_data, niche')
+        .select('lead_id, analysis_type, status, completed_at, overall_score, ai_response, extracted_data, niche, scoring_config')
         .in('lead_id', leadIds)
         .eq('account_id', accountId)
         .eq('status', 'complete')
@@ -162,7 +416,7 @@ export class LeadsService {
     }
 
     // Merge lead data with analysis data
-    const leadsWithAnalysis: LeadListItem[] = (leads || []).map((lead: any) => {
+    return leads.map((lead: any) => {
       const analysis = latestAnalyses.find((a: any) => a.lead_id === lead.id);
 
       return {
@@ -181,6 +435,9 @@ export class LeadsService {
         external_url: lead.external_url,
         last_analyzed_at: lead.last_analyzed_at,
         created_at: lead.created_at,
+        pipeline_stage: lead.pipeline_stage || 'new',
+        pipeline_owner_id: lead.pipeline_owner_id || null,
+        stage_changed_at: lead.stage_changed_at || null,
         analysis_type: analysis?.analysis_type || null,
         analysis_status: analysis?.status || null,
         analysis_completed_at: analysis?.completed_at || null,
@@ -189,11 +446,9 @@ export class LeadsService {
         // Include lean extracted data (actionable signals only)
         extracted_data: this.transformExtractedData(analysis?.extracted_data),
         // Include AI analysis (leadTier, strengths, etc.)
-        ai_analysis: this.transformAIAnalysis(analysis?.ai_response, analysis?.overall_score)
+        ai_analysis: this.transformAIAnalysis(analysis?.ai_response, analysis?.overall_score, analysis?.scoring_config)
       };
     });
-
-    return { leads: leadsWithAnalysis, total: count || 0 };
   }
 
   /**
@@ -225,7 +480,7 @@ export class LeadsService {
     // Get latest analysis with full data
     const { data: latestAnalysisData } = await this.supabase
       .from('lead_analyses')
-      .select('analysis_type, status, completed_at, overall_score, ai_response, extracted_data, niche')
+      .select('analysis_type, status, completed_at, overall_score, ai_response, extracted_data, niche, scoring_config')
       .eq('lead_id', leadId)
       .eq('account_id', accountId)
       .eq('status', 'complete')
@@ -254,6 +509,9 @@ export class LeadsService {
       last_analyzed_at: lead.last_analyzed_at,
       created_at: lead.created_at,
       analyses_count: count || 0,
+      pipeline_stage: lead.pipeline_stage || 'new',
+      pipeline_owner_id: lead.pipeline_owner_id || null,
+      stage_changed_at: lead.stage_changed_at || null,
       analysis_type: latestAnalysisData?.analysis_type || null,
       analysis_status: latestAnalysisData?.status || null,
       analysis_completed_at: latestAnalysisData?.completed_at || null,
@@ -262,7 +520,7 @@ export class LeadsService {
       // Include lean extracted data (actionable signals only)
       extracted_data: this.transformExtractedData(latestAnalysisData?.extracted_data),
       // Include AI analysis (leadTier, strengths, etc.)
-      ai_analysis: this.transformAIAnalysis(latestAnalysisData?.ai_response, latestAnalysisData?.overall_score)
+      ai_analysis: this.transformAIAnalysis(latestAnalysisData?.ai_response, latestAnalysisData?.overall_score, latestAnalysisData?.scoring_config)
     };
   }
 
@@ -303,13 +561,39 @@ export class LeadsService {
       completed_at: analysis.completed_at,
       created_at: analysis.created_at,
       niche: analysis.niche || null,
+      requested_by: analysis.requested_by ?? null,
       // Include lean extracted data (actionable signals only)
       extracted_data: this.transformExtractedData(analysis.extracted_data),
       // Include AI analysis (leadTier, strengths, etc.)
-      ai_analysis: this.transformAIAnalysis(analysis.ai_response, analysis.overall_score)
+      ai_analysis: this.transformAIAnalysis(analysis.ai_response, analysis.overall_score, analysis.scoring_config)
     }));
   }
 
+  /**
+   * Get change log between consecutive completed analyses
+   * Fetches one extra analysis so the oldest entry still has a baseline
+   */
+  async getLeadTimeline(
+    accountId: string,
+    query: GetLeadTimelineQuery
+  ): Promise<LeadTimeline> {
+    const { leadId, limit } = query;
+
+    const { data, error } = await this.supabase
+      .from('lead_analyses')
+      .select('id, analysis_type, overall_score, niche, completed_at, created_at, ai_response, extracted_data, profile_snapshot')
+      .eq('lead_id', leadId)
+      .eq('account_id', accountId)
+      .eq('status', 'complete')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    return buildLeadTimeline(leadId, (data || []) as LeadTimelineAnalysisRow[], limit);
+  }
+
   /**
    * Soft delete lead
    */
@@ -343,4 +627,131 @@ export class LeadsService {
 
     return !!data;
   }
+
+  // ===============================================================================
+  // PIPELINE STAGES
+  // ===============================================================================
+
+  /**
+   * Count leads per pipeline stage for a business profile
+   * Ignores pagination and stage filter so the UI can render every column
+   */
+  async getStageCounts(accountId: string, businessProfileId: string): Promise<PipelineStageCounts> {
+    // One head count per stage: no rows are transferred, so the response row cap never applies
+    const results = await Promise.all(PIPELINE_STAGES.map(async stage => {
+      let queryBuilder = this.supabase
+        .from('leads')
+        .select('id', { count: 'exact', head: true })
+        .eq('account_id', accountId)
+        .eq('business_profile_id', businessProfileId)
+        .is('deleted_at', null);
+
+      queryBuilder = stage === 'new'
+        ? queryBuilder.or(NEW_STAGE_FILTER)
+        : queryBuilder.eq('pipeline_stage', stage);
+
+      const { count, error } = await queryBuilder;
+      if (error) throw error;
+
+      return [stage, count || 0] as const;
+    }));
+
+    return Object.fromEntries(results) as PipelineStageCounts;
+  }
+
+  /**
+   * Move lead to a new pipeline stage (or update note/owner in place)
+   * Validates the transition and records an audit event
+   */
+  async updateLeadStage(
+    accountId: string,
+    userId: string,
+    input: UpdateLeadStageInput
+  ): Promise<LeadStageEvent> {
+    const { leadId, stage, note, ownerId } = input;
+
+    const { data: lead, error: leadError } = await this.supabase
+      .from('leads')
+      .select('id, pipeline_stage, pipeline_owner_id')
+      .eq('id', leadId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .single();
+
+    if (leadError) {
+      if (leadError.code === 'PGRST116') {
+        throw new AppError('Lead not found', 404, 'NOT_FOUND');
+      }
+      throw leadError;
+    }
+
+    const currentStage: PipelineStage = lead.pipeline_stage || 'new';
+    const stageChanged = currentStage !== stage;
+
+    if (stageChanged && !PIPELINE_STAGE_TRANSITIONS[currentStage].includes(stage)) {
+      throw new AppError(
+        `Cannot move lead from '${currentStage}' to '${stage}'`,
+        409,
+        'INVALID_STAGE_TRANSITION',
+        { from: currentStage, to: stage, allowed: PIPELINE_STAGE_TRANSITIONS[currentStage] }
+      );
+    }
+
+    if (!stageChanged && note === undefined && ownerId === undefined) {
+      throw new AppError(`Lead is already in stage '${stage}'`, 409, 'INVALID_STAGE_TRANSITION', {
+        from: currentStage,
+        to: stage
+      });
+    }
+
+    // Owners are team members; null unassigns the lead
+    if (ownerId && !(await new MembershipService(this.supabase).getRole(accountId, ownerId))) {
+      throw new AppError('Owner is not a member of this account', 400, 'INVALID_OWNER', { ownerId });
+    }
+
+    const resolvedOwnerId = ownerId === undefined ? (lead.pipeline_owner_id ?? null) : ownerId;
+
+    // update_lead_stage writes the lead (stage, stage_changed_at, owner) and the
+    // lead_stage_events row in one transaction. It only applies while the lead is
+    // still in p_expected_stage (null = legacy row) and returns null otherwise.
+    const { data: event, error: rpcError } = await this.supabase
+      .rpc('update_lead_stage', {
+        p_lead_id: leadId,
+        p_account_id: accountId,
+        p_expected_stage: lead.pipeline_stage ?? null,
+        p_from_stage: currentStage,
+        p_to_stage: stage,
+        p_owner_id: resolvedOwnerId,
+        p_note: note ?? null,
+        p_changed_by: userId
+      });
+
+    if (rpcError) throw rpcError;
+
+    if (!event) {
+      throw new AppError('Lead stage changed concurrently, please retry', 409, 'STAGE_CONFLICT');
+    }
+
+    return event as LeadStageEvent;
+  }
+
+  /**
+   * Get pipeline audit history for lead (newest first)
+   */
+  async getLeadStageHistory(
+    accountId: string,
+    query: GetLeadStageHistoryQuery
+  ): Promise<LeadStageEvent[]> {
+    const { data, error } = await this.supabase
+      .from('lead_stage_events')
+      .select('id, lead_id, from_stage, to_stage, note, owner_id, changed_by, created_at')
+      .eq('lead_id', query.leadId)
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (error) throw error;
+
+    return (data || []) as LeadStageEvent[];
+  }
 }
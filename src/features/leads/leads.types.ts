@@ -3,19 +3,110 @@
 import { z } from 'zod';
 import { CommonSchemas } from '@/shared/utils/validation.util';
 
+// ===============================================================================
+// PIPELINE STAGES
+// ===============================================================================
+
+/**
+ * CRM pipeline stages a lead moves through after analysis
+ * Every lead starts in 'new'; 'won' and 'lost' are terminal until reopened
+ */
+export const PIPELINE_STAGES = ['new', 'contacted', 'replied', 'booked', 'won', 'lost'] as const;
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+/**
+ * Allowed stage transitions
+ * Forward moves follow the funnel, single-step backward moves correct mistakes,
+ * any open stage can be marked lost, and closed leads can only be reopened to 'new'
+ */
+export const PIPELINE_STAGE_TRANSITIONS: Record<PipelineStage, PipelineStage[]> = {
+  new: ['contacted', 'lost'],
+  contacted: ['new', 'replied', 'lost'],
+  replied: ['contacted', 'booked', 'lost'],
+  booked: ['replied', 'won', 'lost'],
+  won: ['new'],
+  lost: ['new']
+};
+
+// ===============================================================================
+// FILTER VALUES
+// ===============================================================================
+
+export const LEAD_TIERS = ['hot', 'warm', 'cool', 'cold'] as const;
+
+export const AUDIENCE_SCALES = ['nano', 'micro', 'mid', 'macro', 'mega', 'enterprise'] as const;
+
 // ===============================================================================
 // REQUEST SCHEMAS
 // ===============================================================================
 
-export const ListLeadsQuerySchema = z.object({
+/** min/max filter pairs; a reversed range would silently match nothing */
+const LEAD_FILTER_RANGES = [
+  ['minFollowers', 'maxFollowers'],
+  ['minScore', 'maxScore']
+] as const;
+
+type LeadFilterRanges = Partial<Record<(typeof LEAD_FILTER_RANGES)[number][number], number>>;
+
+/**
+ * Reject min filters above their max (list, export and watch filters)
+ */
+export function checkLeadFilterRanges(query: LeadFilterRanges, ctx: z.RefinementCtx): void {
+  for (const [min, max] of LEAD_FILTER_RANGES) {
+    const low = query[min];
+    const high = query[max];
+    if (low !== undefined && high !== undefined && low > high) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [min],
+        message: `${min} must not be greater than ${max}`
+      });
+    }
+  }
+}
+
+/** Lead list query fields, before the range check (for schemas that pick from it) */
+export const LeadListQueryFieldsSchema = z.object({
   businessProfileId: CommonSchemas.uuid,
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(50),
-  sortBy: z.enum(['last_analyzed_at', 'follower_count', 'created_at']).default('last_analyzed_at'),
+  sortBy: z.enum(['last_analyzed_at', 'follower_count', 'created_at', 'stage_changed_at', 'overall_score']).default('last_analyzed_at'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-  search: z.string().optional()
+  search: z.string().optional(),
+  stage: z.enum(PIPELINE_STAGES).optional(),
+  ownerId: CommonSchemas.uuid.optional(),
+  includeStageCounts: z.enum(['true', 'false']).optional(),
+
+  // Profile filters (columns on leads)
+  isBusinessAccount: z.enum(['true', 'false']).optional(),
+  isVerified: z.enum(['true', 'false']).optional(),
+  minFollowers: z.coerce.number().int().min(0).optional(),
+  maxFollowers: z.coerce.number().int().min(0).optional(),
+
+  // Analysis filters (latest completed analysis per lead)
+  leadTier: z.enum(LEAD_TIERS).optional(),
+  audienceScale: z.enum(AUDIENCE_SCALES).optional(),
+  niche: z.string().min(1).max(100).optional(),
+  analysisType: z.enum(['light', 'deep', 'private', 'not_found']).optional(),
+  minScore: z.coerce.number().min(0).max(100).optional(),
+  maxScore: z.coerce.number().min(0).max(100).optional(),
+  includeFacets: z.enum(['true', 'false']).optional()
 });
 
+export const ListLeadsQuerySchema = LeadListQueryFieldsSchema.superRefine(checkLeadFilterRanges);
+
+/**
+ * Export accepts the same filters and sorting as the list endpoint
+ * Pagination and dashboard aggregates don't apply to a full export
+ */
+export const ExportLeadsQuerySchema = LeadListQueryFieldsSchema
+  .omit({ page: true, pageSize: true, includeStageCounts: true, includeFacets: true })
+  .extend({
+    format: z.enum(['csv', 'jsonl']).default('csv')
+  })
+  .superRefine(checkLeadFilterRanges);
+
 export const GetLeadParamsSchema = z.object({
   leadId: CommonSchemas.uuid
 });
@@ -29,6 +120,23 @@ export const DeleteLeadParamsSchema = z.object({
   leadId: CommonSchemas.uuid
 });
 
+export const UpdateLeadStageSchema = z.object({
+  leadId: CommonSchemas.uuid,
+  stage: z.enum(PIPELINE_STAGES),
+  note: z.string().trim().min(1).max(2000).optional(),
+  ownerId: CommonSchemas.uuid.nullable().optional()
+});
+
+export const GetLeadStageHistoryQuerySchema = z.object({
+  leadId: CommonSchemas.uuid,
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const GetLeadTimelineQuerySchema = z.object({
+  leadId: CommonSchemas.uuid,
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
 // ===============================================================================
 // RESPONSE TYPES
 // ===============================================================================
@@ -74,6 +182,7 @@ export interface ExtractedDataResponse {
     // Content signals
     top_hashtags: HashtagFrequency[];
     top_mentions: MentionFrequency[];
+    top_tagged_users: MentionFrequency[];
 
     // Activity signals
     days_since_last_post: number | null;
@@ -150,6 +259,10 @@ export interface LeadListItem {
   external_url: string | null;
   last_analyzed_at: string;
   created_at: string;
+  // Pipeline tracking
+  pipeline_stage: PipelineStage;
+  pipeline_owner_id: string | null;
+  stage_changed_at: string | null;
   // Latest analysis fields (null if no analysis)
   analysis_type: 'light' | 'deep' | 'private' | 'not_found' | null;
   analysis_status: string | null;
@@ -184,6 +297,10 @@ export interface LeadDetail {
   last_analyzed_at: string;
   created_at: string;
   analyses_count: number;
+  // Pipeline tracking
+  pipeline_stage: PipelineStage;
+  pipeline_owner_id: string | null;
+  stage_changed_at: string | null;
   // Latest analysis fields (null if no analysis)
   analysis_type: 'light' | 'deep' | 'private' | 'not_found' | null;
   analysis_status: string | null;
@@ -209,6 +326,8 @@ export interface LeadAnalysis {
   completed_at: string | null;
   created_at: string;
   niche: string | null;
+  /** Team member who started the analysis (null for older analyses) */
+  requested_by: string | null;
 
   // ========== EXTRACTED DATA (from lead_analyses.extracted_data) ==========
   extracted_data: ExtractedDataResponse | null;
@@ -217,11 +336,111 @@ export interface LeadAnalysis {
   ai_analysis: AIAnalysisResponse | null;
 }
 
+/**
+ * Audit record of a single pipeline change
+ * from_stage equals to_stage when only the note or owner changed
+ */
+export interface LeadStageEvent {
+  id: string;
+  lead_id: string;
+  from_stage: PipelineStage | null;
+  to_stage: PipelineStage;
+  note: string | null;
+  owner_id: string | null;
+  changed_by: string;
+  created_at: string;
+}
+
+export type PipelineStageCounts = Record<PipelineStage, number>;
+
+/**
+ * Facet counts for dashboard filter chips
+ * Each dimension is counted with every other active filter applied,
+ * so selecting a tier still shows counts for the remaining tiers
+ */
+export interface LeadFacets {
+  lead_tier: Record<string, number>;
+  audience_scale: Record<string, number>;
+  niche: Record<string, number>;
+  analysis_type: Record<string, number>;
+}
+
+export type LeadTimelineField =
+  | 'follower_count'
+  | 'engagement_rate'
+  | 'overall_score'
+  | 'lead_tier'
+  | 'niche'
+  | 'bio'
+  | 'is_verified'
+  | 'is_private';
+
+/**
+ * Comparable values from one completed analysis
+ * Fields are null when the analysis didn't capture them (e.g. engagement
+ * rate on light analyses, bio on analyses that predate profile snapshots)
+ */
+export interface LeadTimelinePoint {
+  analysis_id: string;
+  analysis_type: string;
+  completed_at: string | null;
+  overall_score: number | null;
+  lead_tier: string | null;
+  niche: string | null;
+  follower_count: number | null;
+  engagement_rate: number | null;
+  bio: string | null;
+  is_verified: boolean | null;
+  is_private: boolean | null;
+}
+
+/**
+ * A single field that differs between two consecutive analyses
+ * delta/delta_percent are set for numeric fields, similarity for bio
+ */
+export interface LeadTimelineChange {
+  field: LeadTimelineField;
+  previous: string | number | boolean | null;
+  current: string | number | boolean | null;
+  delta?: number;
+  delta_percent?: number | null;
+  similarity?: number;
+  significant: boolean;
+  description: string;
+}
+
+/**
+ * One analysis compared against the one before it
+ * previous_analysis_id is null for the first analysis on record
+ */
+export interface LeadTimelineEntry {
+  analysis_id: string;
+  previous_analysis_id: string | null;
+  analysis_type: string;
+  completed_at: string | null;
+  changes: LeadTimelineChange[];
+}
+
+/**
+ * Change log for a lead
+ * - entries: newest first; entries[0] is "what changed since last time"
+ * - score_history: oldest first, for charting score over time
+ */
+export interface LeadTimeline {
+  lead_id: string;
+  entries: LeadTimelineEntry[];
+  score_history: Array<Pick<LeadTimelinePoint, 'analysis_id' | 'completed_at' | 'overall_score' | 'lead_tier'>>;
+}
+
 // ===============================================================================
 // TYPE EXPORTS
 // ===============================================================================
 
 export type ListLeadsQuery = z.infer<typeof ListLeadsQuerySchema>;
+export type ExportLeadsQuery = z.infer<typeof ExportLeadsQuerySchema>;
 export type GetLeadParams = z.infer<typeof GetLeadParamsSchema>;
 export type GetLeadAnalysesQuery = z.infer<typeof GetLeadAnalysesQuerySchema>;
 export type DeleteLeadParams = z.infer<typeof DeleteLeadParamsSchema>;
+export type UpdateLeadStageInput = z.infer<typeof UpdateLeadStageSchema>;
+export type GetLeadStageHistoryQuery = z.infer<typeof GetLeadStageHistoryQuerySchema>;
+export type GetLeadTimelineQuery = z.infer<typeof GetLeadTimelineQuerySchema>;
@@ -6,7 +6,7 @@ import { getAuthContext } from '@/shared/middleware/auth.middleware';
 import { validateBody } from '@/shared/utils/validation.util';
 import { successResponse, errorResponse } from '@/shared/utils/response.util';
 import { CacheStrategyService } from '@/infrastructure/cache/cache-strategy.service';
-import { ApifyAdapter } from '@/infrastructure/scraping/apify.adapter';
+import { createProfileScraper } from '@/infrastructure/scraping/scraper.factory';
 import { getSecret } from '@/infrastructure/config/secrets';
 import { z } from 'zod';
 import { logger } from '@/shared/utils/logger.util';
@@ -55,7 +55,7 @@ export async function checkProfileRefresh(c: Context<{ Bindings: Env }>) {
     const supabase = await c.env.createUserClient(c.req);
     const { data: lead, error } = await supabase
       .from('leads')
-      .select('username, follower_count, bio, is_private, is_verified, last_analyzed_at')
+      .select('platform, username, follower_count, bio, is_private, is_verified, last_analyzed_at')
       .eq('id', leadId)
       .eq('account_id', auth.primaryAccountId)
       .is('deleted_at', null)
@@ -65,13 +65,17 @@ export async function checkProfileRefresh(c: Context<{ Bindings: Env }>) {
       return errorResponse(c, 'Lead not found', 'NOT_FOUND', 404);
     }
 
-    // Scrape fresh data (lightweight, just basic profile)
+    // Scrape fresh data (lightweight, just basic profile) with the lead's platform scraper
     const apifyKey = await getSecret('APIFY_API_TOKEN', c.env, c.env.APP_ENV);
-    const apify = new ApifyAdapter(apifyKey);
+    const scraper = createProfileScraper(c.env, lead.platform, apifyKey);
 
-    const scrapeResult = await apify.scrapeProfileWithMeta(lead.username, { postsLimit: 0 });
+    const scrapeResult = await scraper.scrapeProfileWithMeta(lead.username, 0);
     const freshProfile = scrapeResult.profile;
 
+    if (!scrapeResult.success || !freshProfile) {
+      return errorResponse(c, 'Could not fetch the current profile', 'PROFILE_SCRAPE_FAILED', 502);
+    }
+
     // Compare with cached/stored data
     const cacheStrategy = new CacheStrategyService(c.env.R2_CACHE_BUCKET);
     const invalidationReason = await cacheStrategy.shouldInvalidate(
@@ -89,11 +93,13 @@ export async function checkProfileRefresh(c: Context<{ Bindings: Env }>) {
         is_private: freshProfile.isPrivate || false,
         is_business_account: freshProfile.isBusinessAccount || false,
         latest_posts: [],
+        platform: lead.platform,
         cached_at: new Date().toISOString(),
-        scraper_used: 'apify',
+        scraper_used: scrapeResult.provider ?? 'apify',
         data_quality: 'high'
       },
-      'light'
+      'light',
+      lead.platform
     );
 
     // Calculate changes
@@ -151,7 +157,7 @@ export async function forceProfileRefresh(c: Context<{ Bindings: Env }>) {
     const supabase = await c.env.createUserClient(c.req);
     const { data: lead, error } = await supabase
       .from('leads')
-      .select('username')
+      .select('platform, username')
       .eq('id', leadId)
       .eq('account_id', auth.primaryAccountId)
       .is('deleted_at', null)
@@ -166,7 +172,7 @@ export async function forceProfileRefresh(c: Context<{ Bindings: Env }>) {
     await cacheStrategy.invalidate(lead.username, {
       reason: 'manual',
       details: 'Forced refresh by user'
-    });
+    }, lead.platform);
 
     return successResponse(c, {
       lead_id: leadId,
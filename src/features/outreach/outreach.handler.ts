@@ -0,0 +1,74 @@
+// features/outreach/outreach.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { OutreachService } from './outreach.service';
+import { GenerateOutreachSchema, ListOutreachQuerySchema } from './outreach.types';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, createdResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/leads/:leadId/outreach
+ * Generate opener / follow-up / breakup drafts (reuses the stored set when possible)
+ */
+export async function generateOutreach(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const leadId = c.req.param('leadId');
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const input = validateBody(GenerateOutreachSchema, { ...body, leadId });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new OutreachService(c.env, supabase);
+    const draftSet = await service.generate(accountId, auth.userId, input);
+
+    if (draftSet.reused) {
+      return successResponse(c, draftSet);
+    }
+
+    logger.info('Outreach drafts generated', {
+      draftSetId: draftSet.id,
+      accountId,
+      leadId,
+      channels: draftSet.channels,
+      createdBy: auth.userId
+    });
+
+    return createdResponse(c, draftSet);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to generate outreach drafts', { accountId, leadId });
+  }
+}
+
+/**
+ * GET /api/leads/:leadId/outreach
+ * List stored draft sets for a lead
+ */
+export async function listOutreach(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const leadId = c.req.param('leadId');
+
+  try {
+    const query = validateQuery(ListOutreachQuerySchema, {
+      leadId,
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new OutreachService(c.env, supabase);
+    const draftSets = await service.list(accountId, query);
+
+    return successResponse(c, draftSets);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list outreach drafts', { accountId, leadId });
+  }
+}
@@ -0,0 +1,28 @@
+// features/outreach/outreach.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { generateOutreach, listOutreach } from './outreach.handler';
+
+/**
+ * OUTREACH ROUTES
+ *
+ * AI-written outreach drafts per lead. Registered after the lead routes, so
+ * authentication and rate limiting come from the /api/leads/* middleware.
+ */
+export function registerOutreachRoutes(app: Hono<{ Bindings: Env }>) {
+
+  /**
+   * POST /api/leads/:leadId/outreach
+   * Generate drafts from the latest analysis (1 credit; stored set is reused for free)
+   * Body: { businessProfileId?: uuid, channels?: ('instagram_dm'|'email')[], regenerate?: boolean }
+   */
+  app.post('/api/leads/:leadId/outreach', generateOutreach);
+
+  /**
+   * GET /api/leads/:leadId/outreach
+   * List stored draft sets, newest first
+   * Query params: ?limit=10
+   */
+  app.get('/api/leads/:leadId/outreach', listOutreach);
+}
@@ -0,0 +1,351 @@
+// features/outreach/outreach.service.ts
+
+/**
+ * OUTREACH SERVICE
+ *
+ * Generates, charges for and stores outreach drafts for a lead.
+ *
+ * Drafts are written from the lead's latest completed AI analysis plus the
+ * profile text (bio, captions, hashtags) rebuilt from the R2 profile cache.
+ * If the cache has expired, the bio and top hashtags/mentions saved with the
+ * analysis are used instead.
+ *
+ * A stored set is reused for the same lead + business profile + analysis +
+ * channels, so asking twice only charges once (unless regenerate is set).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import type { TextDataForAI } from '@/infrastructure/extraction/extraction.types';
+import type { Analysis } from '@/infrastructure/database/repositories/analysis.repository';
+import type { BusinessProfile } from '@/infrastructure/database/repositories/business.repository';
+import type { LeadPlatform } from '@/config/platforms.config';
+import type {
+  GenerateOutreachInput,
+  GenerateOutreachResponse,
+  ListOutreachQuery,
+  OutreachDraftSet
+} from './outreach.types';
+import {
+  generateOutreachDrafts,
+  type OutreachBusinessVoice,
+  type OutreachChannel,
+  type OutreachLeadInsights
+} from '@/infrastructure/ai/outreach-generator.service';
+import { R2CacheService } from '@/infrastructure/cache/r2-cache.service';
+import { createProfileExtractionService, profileDataToApifyFormat } from '@/infrastructure/extraction';
+import { BusinessRepository } from '@/infrastructure/database/repositories/business.repository';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { OperationsLedgerRepository } from '@/infrastructure/database/repositories/operations-ledger.repository';
+import { OUTREACH_CONFIG } from '@/config/operations-pricing.config';
+import { publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
+import { getSecret } from '@/infrastructure/config/secrets';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { logger } from '@/shared/utils/logger.util';
+
+const DRAFT_SET_COLUMNS = 'id, lead_id, business_profile_id, analysis_id, channels, drafts, model, credits_charged, created_by, created_at';
+
+interface OutreachLead {
+  id: string;
+  platform: LeadPlatform;
+  username: string;
+  display_name: string | null;
+  business_profile_id: string;
+}
+
+export class OutreachService {
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  /**
+   * Generate drafts for a lead, or return the stored set for its latest analysis
+   */
+  async generate(
+    accountId: string,
+    userId: string,
+    input: GenerateOutreachInput
+  ): Promise<GenerateOutreachResponse> {
+    const startTime = Date.now();
+    const lead = await this.getLead(accountId, input.leadId);
+    const business = await this.getBusiness(accountId, input.businessProfileId ?? lead.business_profile_id);
+    const analysis = await this.getLatestAIAnalysis(lead.id);
+    const channels = [...new Set(input.channels)];
+
+    if (!input.regenerate) {
+      const existing = await this.findReusableSet(lead.id, business.id, analysis.id, channels);
+      if (existing) {
+        return { ...existing, reused: true };
+      }
+    }
+
+    const creditsRepo = new CreditsRepository(this.supabase);
+    const balance = await creditsRepo.getBalance(accountId);
+    if (balance < OUTREACH_CONFIG.credit_cost) {
+      throw new AppError('Insufficient credit balance', 402, 'INSUFFICIENT_BALANCE', {
+        required: OUTREACH_CONFIG.credit_cost,
+        available: balance
+      });
+    }
+
+    const [openaiKey, claudeKey, aiGatewayToken] = await Promise.all([
+      getSecret('OPENAI_API_KEY', this.env, this.env.APP_ENV),
+      getSecret('ANTHROPIC_API_KEY', this.env, this.env.APP_ENV),
+      getSecret('CLOUDFLARE_AI_GATEWAY_TOKEN', this.env, this.env.APP_ENV)
+    ]);
+
+    const result = await generateOutreachDrafts(
+      {
+        business: toBusinessVoice(business),
+        lead: toLeadInsights(lead, analysis),
+        textData: await this.loadTextData(lead, analysis),
+        channels
+      },
+      this.env,
+      openaiKey,
+      claudeKey,
+      aiGatewayToken
+    );
+
+    if (!result.success) {
+      throw new AppError('Failed to generate outreach drafts', 502, result.error.code);
+    }
+
+    const { data, error } = await this.supabase
+      .from('lead_outreach_drafts')
+      .insert({
+        account_id: accountId,
+        lead_id: lead.id,
+        business_profile_id: business.id,
+        analysis_id: analysis.id,
+        channels,
+        drafts: result.drafts,
+        model: result.model,
+        credits_charged: OUTREACH_CONFIG.credit_cost,
+        created_by: userId
+      })
+      .select(DRAFT_SET_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    const draftSet = data as OutreachDraftSet;
+
+    try {
+      await creditsRepo.deductCredits(
+        accountId,
+        OUTREACH_CONFIG.credit_cost,
+        'outreach',
+        `Outreach drafts for @${lead.username}`,
+        userId
+      );
+    } catch (deductError) {
+      // Don't keep drafts that weren't paid for
+      await this.supabase.from('lead_outreach_drafts').delete().eq('id', draftSet.id);
+      throw deductError;
+    }
+
+    await publishCreditsUpdated(this.env, accountId, 'outreach');
+
+    await new OperationsLedgerRepository(this.supabase).logOperation({
+      account_id: accountId,
+      operation_type: 'outreach',
+      operation_id: draftSet.id,
+      username: lead.username,
+      metrics: {
+        cost: {
+          total_usd: result.usage.total_cost,
+          items: {
+            ai: {
+              vendor: result.model.startsWith('claude') ? 'anthropic' : 'openai',
+              usd: result.usage.total_cost,
+              model: result.model,
+              tokens_in: result.usage.input_tokens,
+              tokens_out: result.usage.output_tokens
+            }
+          }
+        },
+        duration: {
+          total_ms: Date.now() - startTime
+        }
+      }
+    });
+
+    return { ...draftSet, reused: false };
+  }
+
+  /**
+   * Stored draft sets for a lead, newest first
+   */
+  async list(accountId: string, query: ListOutreachQuery): Promise<OutreachDraftSet[]> {
+    await this.getLead(accountId, query.leadId);
+
+    const { data, error } = await this.supabase
+      .from('lead_outreach_drafts')
+      .select(DRAFT_SET_COLUMNS)
+      .eq('account_id', accountId)
+      .eq('lead_id', query.leadId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (error) throw error;
+    return (data || []) as OutreachDraftSet[];
+  }
+
+  // ===============================================================================
+  // LOOKUPS
+  // ===============================================================================
+
+  private async getLead(accountId: string, leadId: string): Promise<OutreachLead> {
+    const { data, error } = await this.supabase
+      .from('leads')
+      .select('id, platform, username, display_name, business_profile_id')
+      .eq('id', leadId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Lead not found', 404, 'NOT_FOUND');
+    }
+    return data as OutreachLead;
+  }
+
+  private async getBusiness(accountId: string, businessProfileId: string): Promise<BusinessProfile> {
+    const business = await new BusinessRepository(this.supabase).findById(businessProfileId);
+
+    if (!business || business.account_id !== accountId || business.deleted_at) {
+      throw new AppError('Business profile not found', 404, 'NOT_FOUND');
+    }
+    return business;
+  }
+
+  /**
+   * Latest completed analysis that includes AI lead qualification
+   */
+  private async getLatestAIAnalysis(leadId: string): Promise<Analysis> {
+    const { data, error } = await this.supabase
+      .from('lead_analyses')
+      .select('*')
+      .eq('lead_id', leadId)
+      .eq('status', 'complete')
+      .is('deleted_at', null)
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const analysis = data as Analysis | null;
+    if (!analysis?.ai_response?.leadTier) {
+      throw new AppError(
+        'Lead needs a completed analysis before outreach can be generated',
+        409,
+        'ANALYSIS_REQUIRED'
+      );
+    }
+    return analysis;
+  }
+
+  private async findReusableSet(
+    leadId: string,
+    businessProfileId: string,
+    analysisId: string,
+    channels: OutreachChannel[]
+  ): Promise<OutreachDraftSet | null> {
+    const { data, error } = await this.supabase
+      .from('lead_outreach_drafts')
+      .select(DRAFT_SET_COLUMNS)
+      .eq('lead_id', leadId)
+      .eq('business_profile_id', businessProfileId)
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const wanted = [...channels].sort().join(',');
+    const match = ((data || []) as OutreachDraftSet[])
+      .find(set => [...set.channels].sort().join(',') === wanted);
+
+    return match ?? null;
+  }
+
+  /**
+   * Profile text for personalization: cached profile first, analysis fallback
+   */
+  private async loadTextData(lead: OutreachLead, analysis: Analysis): Promise<TextDataForAI> {
+    const { username, platform } = lead;
+
+    try {
+      const cache = new R2CacheService(this.env.R2_CACHE_BUCKET);
+      const profile = await cache.get(username, 'deep', platform) ?? await cache.get(username, 'light', platform);
+
+      if (profile) {
+        const extraction = createProfileExtractionService().extract(profileDataToApifyFormat(profile));
+        if (extraction.success) {
+          return extraction.data.textDataForAI;
+        }
+      }
+    } catch (error: any) {
+      logger.warn('[Outreach] Cached profile unavailable, using analysis data', {
+        username,
+        error: error.message
+      });
+    }
+
+    return textDataFromAnalysis(analysis);
+  }
+}
+
+// ===============================================================================
+// MAPPING
+// ===============================================================================
+
+function toBusinessVoice(business: BusinessProfile): OutreachBusinessVoice {
+  const context = business.business_context || {};
+  const icp = business.ideal_customer_profile || {};
+
+  return {
+    businessName: business.business_name || business.full_name,
+    signatureName: business.signature_name || business.full_name,
+    communicationTone: context.communication_tone || icp.brand_voice || 'professional',
+    valueProposition: context.business_summary || business.business_summary_generated || business.business_one_liner || '',
+    targetAudience: context.target_description || icp.target_audience || ''
+  };
+}
+
+function toLeadInsights(lead: OutreachLead, analysis: Analysis): OutreachLeadInsights {
+  const ai = analysis.ai_response || {};
+
+  return {
+    username: lead.username,
+    displayName: lead.display_name,
+    leadTier: ai.leadTier ?? null,
+    strengths: ai.strengths ?? [],
+    opportunities: ai.opportunities ?? [],
+    recommendedActions: ai.recommendedActions ?? [],
+    fitReasoning: ai.fitReasoning ?? null
+  };
+}
+
+/**
+ * Minimal TextDataForAI from what the analysis row keeps (no captions)
+ */
+function textDataFromAnalysis(analysis: Analysis): TextDataForAI {
+  const hashtags = analysis.extracted_data?.static?.topHashtags ?? [];
+  const mentions = analysis.extracted_data?.static?.topMentions ?? [];
+
+  return {
+    biography: analysis.profile_snapshot?.bio ?? '',
+    recentCaptions: [],
+    allHashtags: hashtags.map((h: { hashtag: string }) => h.hashtag),
+    uniqueHashtags: hashtags.map((h: { hashtag: string }) => h.hashtag),
+    totalHashtagsCount: hashtags.length,
+    uniqueHashtagsCount: hashtags.length,
+    hashtagFrequency: hashtags,
+    allMentions: mentions.map((m: { username: string }) => m.username),
+    uniqueMentions: mentions.map((m: { username: string }) => m.username),
+    topMentions: mentions,
+    topTaggedUsers: analysis.extracted_data?.static?.topTaggedUsers ?? [],
+    externalLinkTitles: [],
+    locationNames: []
+  };
+}
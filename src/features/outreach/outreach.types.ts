@@ -0,0 +1,53 @@
+// features/outreach/outreach.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import {
+  OUTREACH_CHANNELS,
+  type OutreachChannel,
+  type OutreachDraft
+} from '@/infrastructure/ai/outreach-generator.service';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const GenerateOutreachSchema = z.object({
+  leadId: CommonSchemas.uuid,
+  /** Defaults to the lead's business profile */
+  businessProfileId: CommonSchemas.uuid.optional(),
+  channels: z.array(z.enum(OUTREACH_CHANNELS)).min(1).default([...OUTREACH_CHANNELS]),
+  /** Generate (and charge) a fresh set even if one exists for the latest analysis */
+  regenerate: z.boolean().default(false)
+});
+
+export const ListOutreachQuerySchema = z.object({
+  leadId: CommonSchemas.uuid,
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+export type GenerateOutreachInput = z.infer<typeof GenerateOutreachSchema>;
+export type ListOutreachQuery = z.infer<typeof ListOutreachQuerySchema>;
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export interface OutreachDraftSet {
+  id: string;
+  lead_id: string;
+  business_profile_id: string;
+  /** Analysis the drafts were written from */
+  analysis_id: string;
+  channels: OutreachChannel[];
+  drafts: OutreachDraft[];
+  model: string;
+  credits_charged: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface GenerateOutreachResponse extends OutreachDraftSet {
+  /** True when an existing set was returned without charging */
+  reused: boolean;
+}
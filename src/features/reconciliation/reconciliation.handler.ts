@@ -0,0 +1,167 @@
+// features/reconciliation/reconciliation.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { BalanceReconciliationService } from './reconciliation.service';
+import { AdminAuditService } from '@/features/admin/admin-audit.service';
+import {
+  RunReconciliationSchema,
+  ListDriftReportsQuerySchema,
+  DriftReportParamsSchema,
+  ApplyCorrectionSchema,
+  DismissDriftSchema
+} from './reconciliation.types';
+import { getAdminActor } from '@/shared/middleware/auth.middleware';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, errorResponse, paginatedResponse } from '@/shared/utils/response.util';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+async function createServices(c: Context<{ Bindings: Env }>): Promise<{
+  service: BalanceReconciliationService;
+  audit: AdminAuditService;
+}> {
+  const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+  return {
+    service: new BalanceReconciliationService(c.env, supabase),
+    audit: new AdminAuditService(supabase)
+  };
+}
+
+/**
+ * POST /api/admin/reconciliation/run
+ * Reconcile now instead of waiting for the daily cron
+ */
+export async function runReconciliation(c: Context<{ Bindings: Env }>) {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const input = validateBody(RunReconciliationSchema, body);
+
+    const { service, audit } = await createServices(c);
+    const summary = await service.reconcile(input);
+
+    await audit.record(getAdminActor(c), {
+      action: 'reconciliation.run',
+      accountId: input.accountId ?? null,
+      details: { ...summary }
+    });
+
+    logger.info('Manual balance reconciliation complete', { ...summary, accountId: input.accountId });
+
+    return successResponse(c, summary);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to run balance reconciliation', {});
+  }
+}
+
+/**
+ * GET /api/admin/reconciliation/drift
+ * List drift reports (open by default)
+ */
+export async function listDriftReports(c: Context<{ Bindings: Env }>) {
+  try {
+    const query = validateQuery(ListDriftReportsQuerySchema, {
+      status: c.req.query('status'),
+      accountId: c.req.query('accountId'),
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize')
+    });
+
+    const { service } = await createServices(c);
+    const { reports, total } = await service.listReports(query);
+
+    return paginatedResponse(c, reports, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list drift reports', {});
+  }
+}
+
+/**
+ * GET /api/admin/reconciliation/drift/:reportId
+ * Drift report with its audit trail
+ */
+export async function getDriftReport(c: Context<{ Bindings: Env }>) {
+  try {
+    const { reportId } = validateQuery(DriftReportParamsSchema, { reportId: c.req.param('reportId') });
+
+    const { service } = await createServices(c);
+    const report = await service.getReport(reportId);
+
+    if (!report) {
+      return errorResponse(c, 'Drift report not found', 'NOT_FOUND', 404);
+    }
+
+    return successResponse(c, report);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get drift report', { reportId: c.req.param('reportId') });
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation/drift/:reportId/apply
+ * Correct the balance or the ledger
+ */
+export async function applyDriftCorrection(c: Context<{ Bindings: Env }>) {
+  try {
+    const { reportId } = validateQuery(DriftReportParamsSchema, { reportId: c.req.param('reportId') });
+    const body = await c.req.json();
+    const input = validateBody(ApplyCorrectionSchema, body);
+
+    const actor = getAdminActor(c);
+    const { service, audit } = await createServices(c);
+    const result = await service.applyCorrection(reportId, input, actor.email);
+
+    await audit.record(actor, {
+      action: 'reconciliation.apply',
+      accountId: result.report.account_id,
+      targetType: 'balance_drift_report',
+      targetId: reportId,
+      reason: input.note ?? null,
+      details: { resolution: input.resolution, correction_id: result.correction.id }
+    });
+
+    return successResponse(c, result);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to apply drift correction', { reportId: c.req.param('reportId') });
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation/drift/:reportId/dismiss
+ * Accept the drift without changing anything
+ */
+export async function dismissDriftReport(c: Context<{ Bindings: Env }>) {
+  try {
+    const { reportId } = validateQuery(DriftReportParamsSchema, { reportId: c.req.param('reportId') });
+    const body = await c.req.json();
+    const input = validateBody(DismissDriftSchema, body);
+
+    const actor = getAdminActor(c);
+    const { service, audit } = await createServices(c);
+    const result = await service.dismissReport(reportId, input, actor.email);
+
+    await audit.record(actor, {
+      action: 'reconciliation.dismiss',
+      accountId: result.report.account_id,
+      targetType: 'balance_drift_report',
+      targetId: reportId,
+      reason: input.note,
+      details: { correction_id: result.correction.id }
+    });
+
+    return successResponse(c, result);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to dismiss drift report', { reportId: c.req.param('reportId') });
+  }
+}
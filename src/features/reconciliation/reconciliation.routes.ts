@@ -0,0 +1,64 @@
+// features/reconciliation/reconciliation.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware, adminMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  runReconciliation,
+  listDriftReports,
+  getDriftReport,
+  applyDriftCorrection,
+  dismissDriftReport
+} from './reconciliation.handler';
+
+/**
+ * BALANCE RECONCILIATION ROUTES (admin)
+ *
+ * A daily cron compares every balance with the sum of its credit_ledger
+ * entries and opens a drift report per account and balance column that
+ * disagrees. These routes review the reports and correct or dismiss them;
+ * every decision is recorded in the balance_corrections audit trail and the
+ * admin audit log. Requires the JWT admin claim, like the admin console.
+ */
+export function registerReconciliationRoutes(app: Hono<{ Bindings: Env }>) {
+
+  app.use('/api/admin/reconciliation/*', authMiddleware);
+  app.use('/api/admin/reconciliation/*', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/admin/reconciliation/*', adminMiddleware);
+
+  /**
+   * POST /api/admin/reconciliation/run
+   * Reconcile now
+   * Body: { accountId?: uuid }
+   */
+  app.post('/api/admin/reconciliation/run', runReconciliation);
+
+  /**
+   * GET /api/admin/reconciliation/drift
+   * List drift reports
+   * Query params: ?status=open|applied|dismissed|cleared&accountId=uuid&page=1&pageSize=50
+   */
+  app.get('/api/admin/reconciliation/drift', listDriftReports);
+
+  /**
+   * GET /api/admin/reconciliation/drift/:reportId
+   * Drift report with its corrections
+   */
+  app.get('/api/admin/reconciliation/drift/:reportId', getDriftReport);
+
+  /**
+   * POST /api/admin/reconciliation/drift/:reportId/apply
+   * Body: { resolution: 'match_ledger'|'adjust_ledger', note?: string }
+   * match_ledger sets the balance to the ledger total; adjust_ledger adds a
+   * reconciliation_adjustment ledger entry for the drift
+   */
+  app.post('/api/admin/reconciliation/drift/:reportId/apply', applyDriftCorrection);
+
+  /**
+   * POST /api/admin/reconciliation/drift/:reportId/dismiss
+   * Body: { note: string }
+   */
+  app.post('/api/admin/reconciliation/drift/:reportId/dismiss', dismissDriftReport);
+}
@@ -0,0 +1,398 @@
+// features/reconciliation/reconciliation.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
+import { logger } from '@/shared/utils/logger.util';
+import {
+  RECONCILED_BALANCE_COLUMNS,
+  RECONCILIATION_TRANSACTION_TYPE,
+  type ReconciledBalanceColumn,
+  type BalanceDriftReport,
+  type BalanceCorrection,
+  type BalanceCorrectionAction,
+  type ReconciliationSummary,
+  type CorrectionResult,
+  type RunReconciliationInput,
+  type ListDriftReportsQuery,
+  type ApplyCorrectionInput,
+  type DismissDriftInput
+} from './reconciliation.types';
+
+/** Accounts reconciled per round trip */
+const BALANCE_PAGE_SIZE = 200;
+
+interface BalanceMeasurement {
+  accountId: string;
+  column: ReconciledBalanceColumn;
+  balance: number;
+  ledger: number;
+  drift: number;
+}
+
+function measurementKey(accountId: string, column: string): string {
+  return `${accountId}:${column}`;
+}
+
+/**
+ * BALANCE RECONCILIATION
+ *
+ * Recomputes every balance column from the sum of the account's credit_ledger
+ * amounts and keeps one open balance_drift_reports row per account and column
+ * that disagrees. Admins review open reports and either correct one side or
+ * dismiss them; each decision is appended to balance_corrections.
+ */
+export class BalanceReconciliationService {
+  constructor(
+    private env: Env,
+    private supabase: SupabaseClient
+  ) {}
+
+  // ===============================================================================
+  // DETECTION
+  // ===============================================================================
+
+  /**
+   * Compare balances with the ledger and open, refresh or clear drift reports
+   */
+  async reconcile(options: RunReconciliationInput = {}): Promise<ReconciliationSummary> {
+    const summary: ReconciliationSummary = {
+      accountsChecked: 0,
+      driftCount: 0,
+      newDriftCount: 0,
+      clearedCount: 0,
+      totalAbsoluteDrift: 0
+    };
+
+    for (let offset = 0; ; offset += BALANCE_PAGE_SIZE) {
+      let query = this.supabase
+        .from('balances')
+        .select('account_id')
+        .order('account_id', { ascending: true })
+        .range(offset, offset + BALANCE_PAGE_SIZE - 1);
+
+      if (options.accountId) {
+        query = query.eq('account_id', options.accountId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const accountIds = (data || []).map(row => row.account_id as string);
+      if (accountIds.length > 0) {
+        await this.reconcileAccounts(accountIds, summary);
+      }
+
+      summary.accountsChecked += accountIds.length;
+      if (accountIds.length < BALANCE_PAGE_SIZE) break;
+    }
+
+    return summary;
+  }
+
+  private async reconcileAccounts(accountIds: string[], summary: ReconciliationSummary): Promise<void> {
+    const measured = await this.measure(accountIds);
+
+    // A charge committing between the balance and ledger reads looks like
+    // drift, so only report drift that is still the same on a second look
+    const driftedAccounts = [...new Set(measured.filter(m => m.drift !== 0).map(m => m.accountId))];
+    const rechecked = new Map(
+      (driftedAccounts.length > 0 ? await this.measure(driftedAccounts) : [])
+        .map(m => [measurementKey(m.accountId, m.column), m])
+    );
+
+    const { data: reviewable, error } = await this.supabase
+      .from('balance_drift_reports')
+      .select('*')
+      .in('account_id', accountIds)
+      .in('status', ['open', 'dismissed'])
+      .order('updated_at', { ascending: true });
+
+    if (error) throw error;
+
+    const openByKey = new Map<string, BalanceDriftReport>();
+    const dismissedByKey = new Map<string, BalanceDriftReport>();
+    for (const report of (reviewable || []) as BalanceDriftReport[]) {
+      const byKey = report.status === 'open' ? openByKey : dismissedByKey;
+      byKey.set(measurementKey(report.account_id, report.balance_column), report);
+    }
+
+    const now = new Date().toISOString();
+
+    for (const measurement of measured) {
+      const key = measurementKey(measurement.accountId, measurement.column);
+      const open = openByKey.get(key);
+
+      if (measurement.drift === 0) {
+        if (open) {
+          await this.updateReport(open.id, {
+            balance: measurement.balance,
+            ledger_balance: measurement.ledger,
+            drift: 0,
+            status: 'cleared',
+            last_checked_at: now,
+            resolved_at: now
+          });
+          summary.clearedCount++;
+        }
+        continue;
+      }
+
+      const confirmed = rechecked.get(key);
+      if (!confirmed || confirmed.drift !== measurement.drift) {
+        // Still moving: leave any open report as it is until the next run
+        if (open) {
+          summary.driftCount++;
+          summary.totalAbsoluteDrift += Math.abs(open.drift);
+        }
+        continue;
+      }
+
+      // An admin already accepted exactly this drift
+      if (!open && dismissedByKey.get(key)?.drift === confirmed.drift) {
+        continue;
+      }
+
+      if (open) {
+        await this.updateReport(open.id, {
+          balance: confirmed.balance,
+          ledger_balance: confirmed.ledger,
+          drift: confirmed.drift,
+          last_checked_at: now
+        });
+      } else {
+        const { error: insertError } = await this.supabase
+          .from('balance_drift_reports')
+          .insert({
+            account_id: confirmed.accountId,
+            balance_column: confirmed.column,
+            balance: confirmed.balance,
+            ledger_balance: confirmed.ledger,
+            drift: confirmed.drift,
+            status: 'open',
+            resolution: null,
+            resolved_by: null,
+            resolution_note: null,
+            detected_at: now,
+            last_checked_at: now,
+            resolved_at: null,
+            updated_at: now
+          });
+
+        if (insertError) throw insertError;
+        summary.newDriftCount++;
+
+        logger.warn('[Reconciliation] Balance drift detected', {
+          accountId: confirmed.accountId,
+          column: confirmed.column,
+          balance: confirmed.balance,
+          ledger: confirmed.ledger,
+          drift: confirmed.drift
+        });
+      }
+
+      summary.driftCount++;
+      summary.totalAbsoluteDrift += Math.abs(confirmed.drift);
+    }
+  }
+
+  /**
+   * Current balance and ledger total for each reconciled column
+   */
+  private async measure(accountIds: string[]): Promise<BalanceMeasurement[]> {
+    const { data: balances, error } = await this.supabase
+      .from('balances')
+      .select('account_id, credit_balance, light_analyses_balance')
+      .in('account_id', accountIds);
+
+    if (error) throw error;
+
+    const ledgerTotals = await this.sumLedger(accountIds);
+
+    return (balances || []).flatMap(row =>
+      RECONCILED_BALANCE_COLUMNS.map(column => {
+        const balance = Number(row[column] ?? 0);
+        const ledger = ledgerTotals.get(measurementKey(row.account_id, column)) ?? 0;
+        return { accountId: row.account_id as string, column, balance, ledger, drift: balance - ledger };
+      })
+    );
+  }
+
+  /**
+   * credit_ledger totals keyed by account and balance column
+   *
+   * sum_credit_ledger returns one { account_id, credit_type, total } row per
+   * pair that has entries: SUM(amount) over credit_ledger where account_id is
+   * in p_account_ids and credit_type in p_credit_types, GROUP BY account_id,
+   * credit_type
+   */
+  private async sumLedger(accountIds: string[]): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .rpc('sum_credit_ledger', {
+        p_account_ids: accountIds,
+        p_credit_types: [...RECONCILED_BALANCE_COLUMNS]
+      });
+
+    if (error) throw error;
+
+    // SUM over bigint comes back as numeric, which PostgREST may serialize as a string
+    return new Map(
+      ((data || []) as Array<{ account_id: string; credit_type: string; total: number | string }>)
+        .map(row => [measurementKey(row.account_id, row.credit_type), Number(row.total)])
+    );
+  }
+
+  // ===============================================================================
+  // REVIEW
+  // ===============================================================================
+
+  async listReports(query: ListDriftReportsQuery): Promise<{ reports: BalanceDriftReport[]; total: number }> {
+    const { status, accountId, page, pageSize } = query;
+    const offset = (page - 1) * pageSize;
+
+    let queryBuilder = this.supabase
+      .from('balance_drift_reports')
+      .select('*', { count: 'exact' })
+      .eq('status', status)
+      .order('detected_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (accountId) {
+      queryBuilder = queryBuilder.eq('account_id', accountId);
+    }
+
+    const { data, error, count } = await queryBuilder;
+    if (error) throw error;
+
+    return {
+      reports: (data || []) as BalanceDriftReport[],
+      total: count || 0
+    };
+  }
+
+  /**
+   * Report with its audit trail, oldest decision first
+   */
+  async getReport(reportId: string): Promise<(BalanceDriftReport & { corrections: BalanceCorrection[] }) | null> {
+    const { data: report, error } = await this.supabase
+      .from('balance_drift_reports')
+      .select('*')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!report) return null;
+
+    const { data: corrections, error: correctionsError } = await this.supabase
+      .from('balance_corrections')
+      .select('*')
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true });
+
+    if (correctionsError) throw correctionsError;
+
+    return { ...(report as BalanceDriftReport), corrections: (corrections || []) as BalanceCorrection[] };
+  }
+
+  /**
+   * Correct an open drift on the balance or the ledger side
+   * Refuses when balance or ledger moved since the report was refreshed
+   * actor is the admin's email, kept in the audit trail
+   */
+  async applyCorrection(reportId: string, input: ApplyCorrectionInput, actor: string): Promise<CorrectionResult> {
+    const result = await this.correctReport(reportId, input.resolution, actor, input.note);
+
+    logger.info('[Reconciliation] Drift corrected', {
+      reportId,
+      accountId: result.report.account_id,
+      column: result.report.balance_column,
+      resolution: input.resolution,
+      drift: result.report.drift,
+      actor
+    });
+
+    if (input.resolution === 'match_ledger') {
+      await publishCreditsUpdated(this.env, result.report.account_id, 'adjustment');
+    }
+
+    return result;
+  }
+
+  /**
+   * Close an open drift without touching balance or ledger
+   * Later runs stay quiet while the drift stays the same amount
+   */
+  async dismissReport(reportId: string, input: DismissDriftInput, actor: string): Promise<CorrectionResult> {
+    const result = await this.correctReport(reportId, 'dismiss', actor, input.note);
+
+    logger.info('[Reconciliation] Drift dismissed', {
+      reportId,
+      accountId: result.report.account_id,
+      column: result.report.balance_column,
+      drift: result.report.drift,
+      actor
+    });
+
+    return result;
+  }
+
+  /**
+   * Close an open report with its correction and audit row in one transaction
+   *
+   * apply_balance_correction claims the report while it is open (raising
+   * 'Report not open' otherwise). For match_ledger and adjust_ledger it locks
+   * the account's balances row, re-measures the column against
+   * SUM(credit_ledger.amount) and raises 'Drift changed' unless the drift is
+   * still the reported one; then it sets the balance to the ledger total
+   * (match_ledger) or inserts a p_transaction_type ledger entry of the drift
+   * that leaves the balance as is, referencing the report (adjust_ledger).
+   * 'dismiss' changes neither. It marks the report applied or dismissed,
+   * inserts the balance_corrections row and returns { report, correction }
+   */
+  private async correctReport(
+    reportId: string,
+    action: BalanceCorrectionAction,
+    actor: string,
+    note?: string
+  ): Promise<CorrectionResult> {
+    const { data, error } = await this.supabase
+      .rpc('apply_balance_correction', {
+        p_report_id: reportId,
+        p_action: action,
+        p_actor: actor,
+        p_note: note ?? null,
+        p_transaction_type: RECONCILIATION_TRANSACTION_TYPE,
+        p_description: `Reconciliation adjustment by ${actor}`
+      });
+
+    if (error) {
+      if (error.message?.includes('Drift changed')) {
+        throw new AppError(
+          'Balance or ledger changed since this drift was detected; run reconciliation again',
+          409,
+          'DRIFT_CHANGED'
+        );
+      }
+      if (error.message?.includes('Report not open')) {
+        const existing = await this.getReport(reportId);
+        if (!existing) {
+          throw new AppError('Drift report not found', 404, 'NOT_FOUND');
+        }
+        throw new AppError(`Drift report is already ${existing.status}`, 409, 'REPORT_CLOSED');
+      }
+      throw error;
+    }
+
+    return data as CorrectionResult;
+  }
+
+  private async updateReport(reportId: string, changes: Partial<BalanceDriftReport>): Promise<void> {
+    const { error } = await this.supabase
+      .from('balance_drift_reports')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', reportId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,142 @@
+// features/reconciliation/reconciliation.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+
+// ===============================================================================
+// BALANCES
+// ===============================================================================
+
+/**
+ * Balance columns checked against credit_ledger
+ * Ledger rows carry the column they moved in credit_type
+ */
+export const RECONCILED_BALANCE_COLUMNS = ['credit_balance', 'light_analyses_balance'] as const;
+
+export type ReconciledBalanceColumn = typeof RECONCILED_BALANCE_COLUMNS[number];
+
+/** Ledger transaction type written by ledger-side corrections */
+export const RECONCILIATION_TRANSACTION_TYPE = 'reconciliation_adjustment';
+
+// ===============================================================================
+// STATUSES
+// ===============================================================================
+
+/**
+ * Drift report lifecycle (one open report per account and balance column):
+ * - open: balance and ledger disagree, waiting for review
+ * - applied: an admin corrected it (see resolution)
+ * - dismissed: an admin reviewed it and left both sides as they are; not
+ *   reported again unless the drift amount changes
+ * - cleared: the drift disappeared before anyone reviewed it
+ */
+export const DRIFT_REPORT_STATUSES = ['open', 'applied', 'dismissed', 'cleared'] as const;
+
+export type DriftReportStatus = typeof DRIFT_REPORT_STATUSES[number];
+
+/**
+ * How an admin corrects a drift:
+ * - match_ledger: the ledger is right; set the balance to the ledger total
+ * - adjust_ledger: the balance is right; add a ledger entry for the difference
+ */
+export const DRIFT_RESOLUTIONS = ['match_ledger', 'adjust_ledger'] as const;
+
+export type DriftResolution = typeof DRIFT_RESOLUTIONS[number];
+
+export type BalanceCorrectionAction = DriftResolution | 'dismiss';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const RunReconciliationSchema = z.object({
+  /** Check a single account instead of every balance */
+  accountId: CommonSchemas.accountId.optional()
+});
+
+export const ListDriftReportsQuerySchema = z.object({
+  status: z.enum(DRIFT_REPORT_STATUSES).default('open'),
+  accountId: CommonSchemas.accountId.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const DriftReportParamsSchema = z.object({
+  reportId: CommonSchemas.uuid
+});
+
+export const ApplyCorrectionSchema = z.object({
+  resolution: z.enum(DRIFT_RESOLUTIONS),
+  note: z.string().trim().max(1000).optional()
+});
+
+export const DismissDriftSchema = z.object({
+  /** Why the drift is acceptable */
+  note: z.string().trim().min(1).max(1000)
+});
+
+export type RunReconciliationInput = z.infer<typeof RunReconciliationSchema>;
+export type ListDriftReportsQuery = z.infer<typeof ListDriftReportsQuerySchema>;
+export type ApplyCorrectionInput = z.infer<typeof ApplyCorrectionSchema>;
+export type DismissDriftInput = z.infer<typeof DismissDriftSchema>;
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export interface BalanceDriftReport {
+  id: string;
+  account_id: string;
+  balance_column: ReconciledBalanceColumn;
+  /** Balance column value when last checked */
+  balance: number;
+  /** Sum of the account's credit_ledger amounts for the column */
+  ledger_balance: number;
+  /** balance - ledger_balance */
+  drift: number;
+  status: DriftReportStatus;
+  resolution: DriftResolution | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  detected_at: string;
+  last_checked_at: string;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Append-only audit entry for every reviewed drift (balance_corrections)
+ * Rows are never updated or deleted
+ */
+export interface BalanceCorrection {
+  id: string;
+  report_id: string;
+  account_id: string;
+  balance_column: ReconciledBalanceColumn;
+  action: BalanceCorrectionAction;
+  balance_before: number;
+  balance_after: number;
+  ledger_before: number;
+  ledger_after: number;
+  actor: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface ReconciliationSummary {
+  accountsChecked: number;
+  /** Open reports after this run */
+  driftCount: number;
+  /** Reports opened by this run */
+  newDriftCount: number;
+  /** Open reports closed because balance and ledger agree again */
+  clearedCount: number;
+  /** Sum of |drift| across open reports */
+  totalAbsoluteDrift: number;
+}
+
+export interface CorrectionResult {
+  report: BalanceDriftReport;
+  correction: BalanceCorrection;
+}
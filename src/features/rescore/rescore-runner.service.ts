@@ -0,0 +1,532 @@
+// features/rescore/rescore-runner.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { RescoreJob, RescoreJobChange, RescoreLeadTier } from './rescore.types';
+import type { Lead } from '@/infrastructure/database/repositories/leads.repository';
+import type { Analysis } from '@/infrastructure/database/repositories/analysis.repository';
+import type { BusinessProfile } from '@/infrastructure/database/repositories/business.repository';
+import type { ExtractedData, BusinessContext } from '@/infrastructure/extraction/extraction.types';
+import { OperationsLedgerRepository } from '@/infrastructure/database/repositories/operations-ledger.repository';
+import { PreAnalysisChecksService, getICPSettings } from '@/infrastructure/analysis-checks';
+import {
+  calculateComponentScoresFromStored,
+  calculateProfileFitScore,
+  calculateOverallScore,
+  calculateLeadTier,
+  fetchBusinessContext,
+  rateLeadFit,
+  LEAD_FIT_MODEL
+} from '@/infrastructure/extraction';
+import { getSecret } from '@/infrastructure/config/secrets';
+import { DEFAULT_SCORING_WEIGHTS, type ScoringConfig } from '@/config/scoring.config';
+import { RESCORE_CONFIG } from '@/config/operations-pricing.config';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * RESCORE RUNNER
+ *
+ * Executed by the rescore queue consumer, one page of leads per message.
+ * For each lead of the job's business profile:
+ * 1. Load the latest completed analysis with stored extracted_data (deep only;
+ *    light analyses have nothing to re-score from and are skipped)
+ * 2. Recompute readiness/engagement/authority from the stored composite scores
+ *    with the job's weights
+ * 3. Profile fit: rescale the stored AI fit points to the new weight, or
+ *    re-rate fit with a small model when rerun_ai_fit is set
+ * 4. Re-run the ICP checks (follower limits + ICP rules) against the current
+ *    business settings
+ * 5. Update the analysis in place (score, tier, scoring config) and record
+ *    score/tier/ICP changes
+ *
+ * No scraping and no credits charged; AI fit costs go to operations_ledger.
+ */
+
+type LeadRow = Pick<Lead,
+  'id' | 'platform' | 'username' | 'display_name' | 'follower_count' | 'following_count' |
+  'post_count' | 'external_url' | 'is_verified' | 'is_private' | 'is_business_account'
+>;
+
+type StoredAnalysis = Pick<Analysis,
+  'id' | 'lead_id' | 'overall_score' | 'ai_response' | 'extracted_data' | 'niche' | 'profile_snapshot' | 'scoring_config'
+>;
+
+type RescoreBusiness = Pick<BusinessProfile, 'id' | 'business_context' | 'ideal_customer_profile' | 'icp_rules'>;
+
+interface AIFitContext {
+  businessContext: BusinessContext;
+  openaiKey: string;
+  claudeKey: string;
+  aiGatewayToken: string;
+}
+
+interface PageTotals {
+  rescored: number;
+  changed: number;
+  skipped: number;
+  icpFailures: number;
+  aiCostUsd: number;
+  aiTokensIn: number;
+  aiTokensOut: number;
+}
+
+type ChangeRow = Omit<RescoreJobChange, 'id' | 'created_at'>;
+
+export interface RescorePageResult {
+  /** No leads left: job completed (or was already finished) */
+  done: boolean;
+  processed: number;
+}
+
+export class RescoreRunnerService {
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  /**
+   * Re-score the next page of leads for a job
+   * Safe to redeliver: the cursor only advances after a page is written, and
+   * each saved analysis is stamped with the job, so leads re-scored by an
+   * earlier delivery are counted from what they stored instead of re-scored
+   * (no second AI fit call, no lost changes)
+   */
+  async processNextPage(jobId: string): Promise<RescorePageResult> {
+    const job = await this.getJob(jobId);
+
+    if (!job || job.status === 'complete' || job.status === 'failed') {
+      return { done: true, processed: 0 };
+    }
+
+    if (job.status === 'queued') {
+      await this.updateJob(job.id, { status: 'running', started_at: new Date().toISOString() });
+    }
+
+    const startTime = Date.now();
+    const business = await this.getBusiness(job.business_profile_id);
+    const aiFit = job.rerun_ai_fit ? await this.getAIFitContext(job.business_profile_id) : null;
+
+    const pageSize = job.rerun_ai_fit
+      ? RESCORE_CONFIG.ai_fit_leads_per_message
+      : RESCORE_CONFIG.leads_per_message;
+
+    const leads = await this.getLeadPage(job, pageSize);
+    const analyses = await this.getLatestAnalyses(leads.map(lead => lead.id));
+    const recordedChanges = await this.getRecordedChanges(job.id, leads.map(lead => lead.id));
+
+    const totals: PageTotals = {
+      rescored: 0,
+      changed: 0,
+      skipped: 0,
+      icpFailures: 0,
+      aiCostUsd: 0,
+      aiTokensIn: 0,
+      aiTokensOut: 0
+    };
+
+    for (const lead of leads) {
+      const analysis = analyses.get(lead.id);
+      if (!analysis) {
+        totals.skipped++;
+        continue;
+      }
+
+      // Saved by an earlier delivery of this page
+      if (analysis.ai_response?.rescoreJobId === job.id) {
+        totals.rescored++;
+        if (analysis.ai_response.icpViolation) totals.icpFailures++;
+        if (recordedChanges.has(lead.id)) totals.changed++;
+        continue;
+      }
+
+      const change = await this.rescoreLead(job, lead, analysis, business, aiFit, totals);
+
+      // Recorded right after the analysis update so a redelivered page keeps the report
+      if (change) {
+        const { error } = await this.supabase
+          .from('rescore_job_changes')
+          .upsert(change, { onConflict: 'job_id,lead_id' });
+
+        if (error) throw error;
+      }
+    }
+
+    if (totals.aiCostUsd > 0) {
+      await this.logAIFitCost(job, totals, Date.now() - startTime);
+    }
+
+    const done = leads.length < pageSize;
+    const now = new Date().toISOString();
+
+    await this.updateJob(job.id, {
+      cursor: leads.length > 0 ? leads[leads.length - 1].id : job.cursor,
+      leads_rescored: job.leads_rescored + totals.rescored,
+      leads_changed: job.leads_changed + totals.changed,
+      leads_skipped: job.leads_skipped + totals.skipped,
+      icp_failures: job.icp_failures + totals.icpFailures,
+      ai_cost_usd: parseFloat((job.ai_cost_usd + totals.aiCostUsd).toFixed(6)),
+      ...(done ? { status: 'complete', completed_at: now } : {})
+    });
+
+    logger.info('Re-score page processed', {
+      jobId: job.id,
+      accountId: job.account_id,
+      cursor: job.cursor,
+      leads: leads.length,
+      rescored: totals.rescored,
+      changed: totals.changed,
+      skipped: totals.skipped,
+      done
+    });
+
+    return { done, processed: leads.length };
+  }
+
+  /**
+   * Mark a job failed (consumer gave up on its message)
+   */
+  async failJob(jobId: string, errorMessage: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.updateJob(jobId, { status: 'failed', error: errorMessage, completed_at: now });
+  }
+
+  // ===============================================================================
+  // LEAD RE-SCORING
+  // ===============================================================================
+
+  /**
+   * Re-score one lead from its stored analysis
+   * Returns the change row when the score, tier or ICP result changed
+   */
+  private async rescoreLead(
+    job: RescoreJob,
+    lead: LeadRow,
+    analysis: StoredAnalysis,
+    business: RescoreBusiness,
+    aiFit: AIFitContext | null,
+    totals: PageTotals
+  ): Promise<ChangeRow | null> {
+    const extractedData = analysis.extracted_data as ExtractedData;
+    const scoring = job.scoring_config;
+    const previousScoring = analysis.ai_response?.scoring;
+
+    let profileFitScore: number;
+    let fitReasoning: string | null = null;
+
+    if (aiFit) {
+      const result = await rateLeadFit(
+        {
+          username: lead.username,
+          biography: analysis.profile_snapshot?.bio ?? '',
+          niche: analysis.niche,
+          extractedData,
+          businessContext: aiFit.businessContext
+        },
+        this.env,
+        aiFit.openaiKey,
+        aiFit.claudeKey,
+        aiFit.aiGatewayToken
+      );
+
+      if (!result.success) {
+        totals.skipped++;
+        return null;
+      }
+
+      totals.aiCostUsd += result.usage.total_cost;
+      totals.aiTokensIn += result.usage.input_tokens;
+      totals.aiTokensOut += result.usage.output_tokens;
+      profileFitScore = calculateProfileFitScore(result.profileFitRating, scoring.weights);
+      fitReasoning = result.fitReasoning;
+    } else if (typeof previousScoring?.profileFitScore === 'number') {
+      // Stored fit points are on the old weight's scale; convert back to the 0-100 rating
+      const previousWeight = analysis.scoring_config?.weights.profileFit ?? DEFAULT_SCORING_WEIGHTS.profileFit;
+      const fitRating = previousWeight > 0 ? (previousScoring.profileFitScore / previousWeight) * 100 : 0;
+      profileFitScore = calculateProfileFitScore(fitRating, scoring.weights);
+    } else {
+      // Analyzed before fit scoring existed; only the AI fit step can score it
+      totals.skipped++;
+      return null;
+    }
+
+    const components = {
+      profileFitScore,
+      ...calculateComponentScoresFromStored(extractedData.calculated, scoring.weights)
+    };
+    const newScore = calculateOverallScore(components);
+    const newTier = calculateLeadTier(newScore, scoring.thresholds) as RescoreLeadTier;
+
+    const icpCheck = await new PreAnalysisChecksService({ verbose: false }).runChecks({
+      profile: toProfileData(lead, analysis),
+      username: lead.username,
+      accountId: job.account_id,
+      businessProfileId: job.business_profile_id,
+      requestedAnalysisType: 'deep',
+      icpSettings: getICPSettings(business),
+      icpRules: business.icp_rules,
+      extractedData,
+      niche: analysis.niche
+    });
+    const icpReason = icpCheck.failedCheck?.reason ?? null;
+
+    await this.saveRescoredAnalysis(job.id, analysis, extractedData, scoring, {
+      components,
+      newScore,
+      newTier,
+      fitReasoning,
+      icpReason
+    });
+
+    totals.rescored++;
+    if (!icpCheck.allPassed) {
+      totals.icpFailures++;
+    }
+
+    const previousScore = analysis.overall_score ?? 0;
+    const previousTier = (extractedData.calculated.leadTier ?? null) as RescoreLeadTier | null;
+    const previousIcpReason = analysis.ai_response?.icpViolation ?? null;
+
+    if (newScore === previousScore && newTier === previousTier && icpReason === previousIcpReason) {
+      return null;
+    }
+
+    totals.changed++;
+    return {
+      job_id: job.id,
+      account_id: job.account_id,
+      lead_id: lead.id,
+      analysis_id: analysis.id,
+      username: lead.username,
+      previous_score: previousScore,
+      new_score: newScore,
+      score_delta: newScore - previousScore,
+      previous_tier: previousTier,
+      new_tier: newTier,
+      tier_changed: newTier !== previousTier,
+      icp_passed: icpCheck.allPassed,
+      icp_reason: icpReason
+    };
+  }
+
+  /**
+   * Write the new score into the analysis the same way the workflow saves it:
+   * overall_score + ai_response.score/scoring/leadTier + extracted_data.calculated
+   */
+  private async saveRescoredAnalysis(
+    jobId: string,
+    analysis: StoredAnalysis,
+    extractedData: ExtractedData,
+    scoring: ScoringConfig,
+    result: {
+      components: { profileFitScore: number; readinessScore: number; partnerEngagementScore: number; authorityScore: number };
+      newScore: number;
+      newTier: RescoreLeadTier;
+      fitReasoning: string | null;
+      icpReason: string | null;
+    }
+  ): Promise<void> {
+    const aiResponse = {
+      ...analysis.ai_response,
+      score: result.newScore,
+      scoring: { ...result.components, overallScore: result.newScore },
+      icpViolation: result.icpReason,
+      rescoreJobId: jobId,
+      // Only analyses with AI output carry a tier (leads.service treats it as "has AI analysis")
+      ...(analysis.ai_response?.leadTier ? { leadTier: result.newTier } : {}),
+      ...(result.fitReasoning ? { fitReasoning: result.fitReasoning } : {})
+    };
+
+    const { error } = await this.supabase
+      .from('lead_analyses')
+      .update({
+        overall_score: result.newScore,
+        ai_response: aiResponse,
+        extracted_data: {
+          ...extractedData,
+          calculated: {
+            ...extractedData.calculated,
+            readinessScore: result.components.readinessScore,
+            partnerEngagementScore: result.components.partnerEngagementScore,
+            authorityScore: result.components.authorityScore,
+            leadTier: result.newTier
+          }
+        },
+        scoring_config: scoring,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', analysis.id);
+
+    if (error) throw error;
+  }
+
+  // ===============================================================================
+  // DATA ACCESS
+  // ===============================================================================
+
+  private async getJob(jobId: string): Promise<RescoreJob | null> {
+    const { data, error } = await this.supabase
+      .from('rescore_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as RescoreJob | null;
+  }
+
+  private async updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('rescore_jobs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
+  private async getBusiness(
+    businessProfileId: string
+  ): Promise<RescoreBusiness> {
+    const { data, error } = await this.supabase
+      .from('business_profiles')
+      .select('id, business_context, ideal_customer_profile, icp_rules')
+      .eq('id', businessProfileId)
+      .is('deleted_at', null)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async getAIFitContext(businessProfileId: string): Promise<AIFitContext> {
+    const contextResult = await fetchBusinessContext(this.supabase, businessProfileId);
+    if (!contextResult.success) {
+      throw new Error(`Business context unavailable: ${contextResult.error.message}`);
+    }
+
+    const [openaiKey, claudeKey, aiGatewayToken] = await Promise.all([
+      getSecret('OPENAI_API_KEY', this.env, this.env.APP_ENV),
+      getSecret('ANTHROPIC_API_KEY', this.env, this.env.APP_ENV),
+      getSecret('CLOUDFLARE_AI_GATEWAY_TOKEN', this.env, this.env.APP_ENV)
+    ]);
+
+    return { businessContext: contextResult.data, openaiKey, claudeKey, aiGatewayToken };
+  }
+
+  /**
+   * Next page of the business profile's leads after the cursor
+   * Keyset on id, so leads added or deleted mid-job don't shift later pages
+   */
+  private async getLeadPage(job: RescoreJob, pageSize: number): Promise<LeadRow[]> {
+    let query = this.supabase
+      .from('leads')
+      .select('id, platform, username, display_name, follower_count, following_count, post_count, external_url, is_verified, is_private, is_business_account')
+      .eq('account_id', job.account_id)
+      .eq('business_profile_id', job.business_profile_id)
+      .is('deleted_at', null)
+      .order('id', { ascending: true })
+      .limit(pageSize);
+
+    if (job.cursor) {
+      query = query.gt('id', job.cursor);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as LeadRow[];
+  }
+
+  /**
+   * Leads of a page that already have a change recorded for the job
+   */
+  private async getRecordedChanges(jobId: string, leadIds: string[]): Promise<Set<string>> {
+    if (leadIds.length === 0) return new Set();
+
+    const { data, error } = await this.supabase
+      .from('rescore_job_changes')
+      .select('lead_id')
+      .eq('job_id', jobId)
+      .in('lead_id', leadIds);
+
+    if (error) throw error;
+    return new Set((data || []).map((row: { lead_id: string }) => row.lead_id));
+  }
+
+  /**
+   * Latest completed analysis per lead, kept only when it has extracted_data
+   */
+  private async getLatestAnalyses(leadIds: string[]): Promise<Map<string, StoredAnalysis>> {
+    const latest = new Map<string, StoredAnalysis>();
+    if (leadIds.length === 0) return latest;
+
+    const { data, error } = await this.supabase
+      .from('lead_analyses')
+      .select('id, lead_id, overall_score, ai_response, extracted_data, niche, profile_snapshot, scoring_config')
+      .in('lead_id', leadIds)
+      .eq('status', 'complete')
+      .is('deleted_at', null)
+      .order('completed_at', { ascending: false });
+
+    if (error) throw error;
+
+    // Rows are newest first, so the first row seen per lead wins
+    const seen = new Set<string>();
+    (data || []).forEach((row: StoredAnalysis) => {
+      if (seen.has(row.lead_id)) return;
+      seen.add(row.lead_id);
+      if (row.extracted_data?.calculated) {
+        latest.set(row.lead_id, row);
+      }
+    });
+
+    return latest;
+  }
+
+  private async logAIFitCost(job: RescoreJob, totals: PageTotals, durationMs: number): Promise<void> {
+    await new OperationsLedgerRepository(this.supabase).logOperation({
+      account_id: job.account_id,
+      operation_type: 'rescore',
+      operation_id: job.id,
+      metrics: {
+        cost: {
+          total_usd: parseFloat(totals.aiCostUsd.toFixed(6)),
+          items: {
+            ai: {
+              vendor: 'openai',
+              usd: parseFloat(totals.aiCostUsd.toFixed(6)),
+              model: LEAD_FIT_MODEL,
+              tokens_in: totals.aiTokensIn,
+              tokens_out: totals.aiTokensOut
+            }
+          }
+        },
+        duration: {
+          total_ms: durationMs
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Profile for the ICP check, rebuilt from the lead row and the analysis snapshot
+ */
+function toProfileData(lead: LeadRow, analysis: StoredAnalysis): ProfileData {
+  const snapshot = analysis.profile_snapshot;
+
+  return {
+    username: lead.username,
+    displayName: lead.display_name ?? lead.username,
+    bio: snapshot?.bio ?? '',
+    followersCount: lead.follower_count,
+    followingCount: lead.following_count,
+    postsCount: lead.post_count,
+    isVerified: lead.is_verified,
+    isPrivate: lead.is_private,
+    profilePicUrl: '',
+    externalUrl: lead.external_url,
+    isBusinessAccount: lead.is_business_account,
+    latestPosts: [],
+    platform: lead.platform,
+    scraperUsed: 'stored',
+    dataQuality: 'medium'
+  };
+}
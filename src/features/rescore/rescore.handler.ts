@@ -0,0 +1,132 @@
+// features/rescore/rescore.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { RescoreService } from './rescore.service';
+import {
+  CreateRescoreJobSchema,
+  ListRescoreJobsQuerySchema,
+  RescoreJobParamsSchema,
+  GetRescoreChangesQuerySchema
+} from './rescore.types';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, errorResponse, createdResponse, paginatedResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/rescore-jobs
+ * Re-score all leads of a business profile from stored analyses
+ */
+export async function createRescoreJob(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateRescoreJobSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new RescoreService(c.env, supabase);
+    const job = await service.createJob(accountId, auth.userId, input);
+
+    logger.info('Re-score job created', {
+      jobId: job.id,
+      accountId,
+      businessProfileId: job.business_profile_id,
+      rerunAiFit: job.rerun_ai_fit,
+      scoringVersion: job.scoring_config.version
+    });
+
+    return createdResponse(c, job);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to create re-score job', { accountId });
+  }
+}
+
+/**
+ * GET /api/rescore-jobs
+ * List re-score jobs for account
+ */
+export async function listRescoreJobs(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(ListRescoreJobsQuerySchema, {
+      businessProfileId: c.req.query('businessProfileId'),
+      status: c.req.query('status'),
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new RescoreService(c.env, supabase);
+    const jobs = await service.listJobs(accountId, query);
+
+    return successResponse(c, jobs);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list re-score jobs', { accountId });
+  }
+}
+
+/**
+ * GET /api/rescore-jobs/:jobId
+ * Job status and summary counts
+ */
+export async function getRescoreJob(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { jobId } = validateQuery(RescoreJobParamsSchema, { jobId: c.req.param('jobId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new RescoreService(c.env, supabase);
+    const job = await service.getJob(accountId, jobId);
+
+    if (!job) {
+      return errorResponse(c, 'Re-score job not found', 'NOT_FOUND', 404);
+    }
+
+    return successResponse(c, job);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get re-score job', { accountId });
+  }
+}
+
+/**
+ * GET /api/rescore-jobs/:jobId/changes
+ * Leads whose score, tier or ICP result changed
+ */
+export async function getRescoreChanges(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(GetRescoreChangesQuerySchema, {
+      jobId: c.req.param('jobId'),
+      tierChangedOnly: c.req.query('tierChangedOnly'),
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new RescoreService(c.env, supabase);
+    const { changes, total } = await service.getChanges(accountId, query);
+
+    return paginatedResponse(c, changes, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get re-score changes', { accountId });
+  }
+}
@@ -0,0 +1,58 @@
+// features/rescore/rescore.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  createRescoreJob,
+  listRescoreJobs,
+  getRescoreJob,
+  getRescoreChanges
+} from './rescore.handler';
+
+/**
+ * LEAD RE-SCORE ROUTES
+ *
+ * Recompute scores, tiers and ICP checks for a business profile's leads from
+ * stored analyses after scoring weights, ICP settings or business context
+ * changed. No scraping and no credits; jobs run on the rescore queue.
+ */
+export function registerRescoreRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All re-score routes require authentication
+  app.use('/api/rescore-jobs', authMiddleware);
+  app.use('/api/rescore-jobs/*', authMiddleware);
+
+  // Apply general API rate limiting
+  app.use('/api/rescore-jobs', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/rescore-jobs/*', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+
+  /**
+   * POST /api/rescore-jobs
+   * Start a re-score job (one running job per business profile)
+   * Body: { businessProfileId, rerunAiFit?: boolean }
+   */
+  app.post('/api/rescore-jobs', createRescoreJob);
+
+  /**
+   * GET /api/rescore-jobs
+   * List jobs
+   * Query params: ?businessProfileId=uuid&status=running&limit=20
+   */
+  app.get('/api/rescore-jobs', listRescoreJobs);
+
+  /**
+   * GET /api/rescore-jobs/:jobId
+   * Job status and summary counts
+   */
+  app.get('/api/rescore-jobs/:jobId', getRescoreJob);
+
+  /**
+   * GET /api/rescore-jobs/:jobId/changes
+   * Changed leads with previous/new score and tier
+   * Query params: ?tierChangedOnly=true&page=1&pageSize=50
+   */
+  app.get('/api/rescore-jobs/:jobId/changes', getRescoreChanges);
+}
@@ -0,0 +1,162 @@
+// features/rescore/rescore.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env, RescoreQueueMessage } from '@/shared/types/env.types';
+import type {
+  RescoreJob,
+  RescoreJobChange,
+  CreateRescoreJobInput,
+  ListRescoreJobsQuery,
+  GetRescoreChangesQuery
+} from './rescore.types';
+import { resolveScoringConfig } from '@/config/scoring.config';
+import { AppError } from '@/shared/middleware/error.middleware';
+
+export class RescoreService {
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  /**
+   * Create a re-score job for every lead of a business profile and queue it
+   * One open job per business profile; the current scoring config is captured
+   * so the whole job scores with the same weights
+   */
+  async createJob(accountId: string, userId: string, input: CreateRescoreJobInput): Promise<RescoreJob> {
+    const { data: business, error: businessError } = await this.supabase
+      .from('business_profiles')
+      .select('id, scoring_config')
+      .eq('id', input.businessProfileId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (businessError) throw businessError;
+    if (!business) {
+      throw new AppError('Business profile not found', 404, 'NOT_FOUND');
+    }
+
+    const { data: open, error: openError } = await this.supabase
+      .from('rescore_jobs')
+      .select('id')
+      .eq('business_profile_id', input.businessProfileId)
+      .in('status', ['queued', 'running'])
+      .limit(1)
+      .maybeSingle();
+
+    if (openError) throw openError;
+    if (open) {
+      throw new AppError('A re-score job is already running for this business profile', 409, 'RESCORE_IN_PROGRESS', {
+        jobId: open.id
+      });
+    }
+
+    const { data, error } = await this.supabase
+      .from('rescore_jobs')
+      .insert({
+        account_id: accountId,
+        business_profile_id: input.businessProfileId,
+        status: 'queued',
+        rerun_ai_fit: input.rerunAiFit,
+        scoring_config: resolveScoringConfig(business.scoring_config),
+        cursor: null,
+        leads_rescored: 0,
+        leads_changed: 0,
+        leads_skipped: 0,
+        icp_failures: 0,
+        ai_cost_usd: 0,
+        created_by: userId
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    const job = data as RescoreJob;
+
+    try {
+      await this.env.RESCORE_QUEUE.send({ job_id: job.id } satisfies RescoreQueueMessage);
+    } catch (queueError) {
+      // Don't leave a queued job blocking new ones when it never reached the queue
+      await this.supabase
+        .from('rescore_jobs')
+        .update({
+          status: 'failed',
+          error: 'Failed to queue job',
+          completed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+      throw queueError;
+    }
+
+    return job;
+  }
+
+  /**
+   * List re-score jobs for account, newest first
+   */
+  async listJobs(accountId: string, query: ListRescoreJobsQuery): Promise<RescoreJob[]> {
+    let dbQuery = this.supabase
+      .from('rescore_jobs')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (query.businessProfileId) {
+      dbQuery = dbQuery.eq('business_profile_id', query.businessProfileId);
+    }
+    if (query.status) {
+      dbQuery = dbQuery.eq('status', query.status);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []) as RescoreJob[];
+  }
+
+  /**
+   * Get single job (null if not found or not owned by account)
+   */
+  async getJob(accountId: string, jobId: string): Promise<RescoreJob | null> {
+    const { data, error } = await this.supabase
+      .from('rescore_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as RescoreJob | null;
+  }
+
+  /**
+   * Changed leads of a job, in processing order
+   */
+  async getChanges(
+    accountId: string,
+    query: GetRescoreChangesQuery
+  ): Promise<{ changes: RescoreJobChange[]; total: number }> {
+    const job = await this.getJob(accountId, query.jobId);
+    if (!job) {
+      throw new AppError('Re-score job not found', 404, 'NOT_FOUND');
+    }
+
+    const offset = (query.page - 1) * query.pageSize;
+
+    let dbQuery = this.supabase
+      .from('rescore_job_changes')
+      .select('*', { count: 'exact' })
+      .eq('job_id', job.id)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + query.pageSize - 1);
+
+    if (query.tierChangedOnly === 'true') {
+      dbQuery = dbQuery.eq('tier_changed', true);
+    }
+
+    const { data, error, count } = await dbQuery;
+
+    if (error) throw error;
+    return { changes: (data || []) as RescoreJobChange[], total: count ?? 0 };
+  }
+}
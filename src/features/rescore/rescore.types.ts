@@ -0,0 +1,106 @@
+// features/rescore/rescore.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import type { ScoringConfig } from '@/config/scoring.config';
+
+// ===============================================================================
+// STATUSES
+// ===============================================================================
+
+/**
+ * Re-score job lifecycle:
+ * - queued: created, waiting for the rescore queue consumer
+ * - running: leads are being re-scored page by page
+ * - complete: every lead of the business profile was processed
+ * - failed: processing stopped (see error); leads already re-scored keep their new scores
+ */
+export const RESCORE_JOB_STATUSES = ['queued', 'running', 'complete', 'failed'] as const;
+
+export type RescoreJobStatus = typeof RESCORE_JOB_STATUSES[number];
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const CreateRescoreJobSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  /** Re-rate ICP fit with a small AI model (otherwise the stored fit rating is kept) */
+  rerunAiFit: z.boolean().default(false)
+});
+
+export const ListRescoreJobsQuerySchema = z.object({
+  businessProfileId: CommonSchemas.uuid.optional(),
+  status: z.enum(RESCORE_JOB_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const RescoreJobParamsSchema = z.object({
+  jobId: CommonSchemas.uuid
+});
+
+export const GetRescoreChangesQuerySchema = z.object({
+  jobId: CommonSchemas.uuid,
+  tierChangedOnly: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export type RescoreLeadTier = 'hot' | 'warm' | 'cool' | 'cold';
+
+export interface RescoreJob {
+  id: string;
+  account_id: string;
+  business_profile_id: string;
+  status: RescoreJobStatus;
+  rerun_ai_fit: boolean;
+  /** Business scoring config the job re-scores with (captured at creation) */
+  scoring_config: ScoringConfig;
+  /** Last lead id processed (keyset over leads.id); null before the first page */
+  cursor: string | null;
+  leads_rescored: number;
+  /** Leads whose score, tier or ICP result changed */
+  leads_changed: number;
+  /** Leads without a stored deep analysis (nothing to re-score from) */
+  leads_skipped: number;
+  /** Leads now outside the ICP follower bounds */
+  icp_failures: number;
+  ai_cost_usd: number;
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+/** One re-scored lead whose score, tier or ICP result changed */
+export interface RescoreJobChange {
+  id: string;
+  job_id: string;
+  account_id: string;
+  lead_id: string;
+  analysis_id: string;
+  username: string;
+  previous_score: number;
+  new_score: number;
+  score_delta: number;
+  previous_tier: RescoreLeadTier | null;
+  new_tier: RescoreLeadTier;
+  tier_changed: boolean;
+  icp_passed: boolean;
+  icp_reason: string | null;
+  created_at: string;
+}
+
+// ===============================================================================
+// INFERRED TYPES
+// ===============================================================================
+
+export type CreateRescoreJobInput = z.infer<typeof CreateRescoreJobSchema>;
+export type ListRescoreJobsQuery = z.infer<typeof ListRescoreJobsQuerySchema>;
+export type GetRescoreChangesQuery = z.infer<typeof GetRescoreChangesQuerySchema>;
@@ -0,0 +1,376 @@
+// features/sourcing/sourcing-runner.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { BusinessProfile } from '@/infrastructure/database/repositories/business.repository';
+import type { SourcingJob, SourcingRejectReason, Prospect } from './sourcing.types';
+import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
+import { OperationsLedgerRepository, type OperationMetrics } from '@/infrastructure/database/repositories/operations-ledger.repository';
+import { ApifySourcingAdapter } from '@/infrastructure/scraping/apify-sourcing.adapter';
+import type { ProspectSource } from '@/infrastructure/scraping/scraper.types';
+import { getICPSettings } from '@/infrastructure/analysis-checks';
+import { getSecret } from '@/infrastructure/config/secrets';
+import { SOURCING_CONFIG } from '@/config/operations-pricing.config';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * SOURCING RUNNER
+ *
+ * Executed by the sourcing queue consumer, one step per message:
+ * 1. Collect: pull candidate usernames from the hashtag, location or
+ *    competitor's commenters, then drop existing leads and prospects of the
+ *    business profile
+ * 2. Pre-filter (one page of candidates per message): batch-scrape the
+ *    profiles and drop private accounts, accounts outside the ICP follower
+ *    range, and non-business accounts when the ICP rules require one
+ * 3. Store survivors as 'new' prospects, ready to be promoted to analysis
+ *
+ * No credits charged; Apify usage goes to operations_ledger.
+ */
+
+type SourcingBusiness = Pick<BusinessProfile, 'id' | 'business_context' | 'ideal_customer_profile' | 'icp_rules'>;
+
+type ProspectRow = Omit<Prospect, 'id' | 'created_at' | 'updated_at'>;
+
+export interface SourcingStepResult {
+  /** Nothing left for this message: job completed, was already finished, or another delivery continues it */
+  done: boolean;
+  processed: number;
+}
+
+/** Existing usernames are looked up in chunks (keeps the IN list short) */
+const EXISTING_LOOKUP_CHUNK = 200;
+
+export class SourcingRunnerService {
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  /**
+   * Run the next step of a job
+   * Safe to redeliver: collection restarts until candidates are saved,
+   * prospects are upserted, and a page's cursor, counts and Apify cost are
+   * recorded together, once (a delivery that lost the race records nothing)
+   */
+  async processNextStep(jobId: string): Promise<SourcingStepResult> {
+    const job = await this.getJob(jobId);
+
+    if (!job || job.status === 'complete' || job.status === 'failed') {
+      return { done: true, processed: 0 };
+    }
+
+    if (job.status === 'queued') {
+      await this.updateJob(job.id, { status: 'running', started_at: new Date().toISOString() });
+    }
+
+    const source = await this.createSource();
+
+    return job.candidates === null
+      ? this.collect(job, source)
+      : this.prefilterPage(job, source);
+  }
+
+  /**
+   * Mark a job failed (consumer gave up on its message)
+   */
+  async failJob(jobId: string, errorMessage: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.updateJob(jobId, { status: 'failed', error: errorMessage, completed_at: now });
+  }
+
+  // ===============================================================================
+  // STEPS
+  // ===============================================================================
+
+  private async collect(job: SourcingJob, source: ProspectSource): Promise<SourcingStepResult> {
+    const startTime = Date.now();
+    const collected = await source.collectCandidates(job.source_type, job.source_value, job.max_candidates);
+
+    const existing = await this.findExistingUsernames(job, collected.usernames);
+    const candidates = collected.usernames.filter(username => !existing.has(username));
+    const costUsd = collected.itemCount * SOURCING_CONFIG.cost_per_collected_item_usd;
+
+    await this.logApifyCost(job, costUsd, collected.itemCount, 'collect', Date.now() - startTime);
+
+    const done = candidates.length === 0;
+
+    await this.updateJob(job.id, {
+      candidates,
+      candidates_found: collected.usernames.length,
+      duplicates: collected.usernames.length - candidates.length,
+      apify_cost_usd: roundUsd(job.apify_cost_usd + costUsd),
+      ...(done ? { status: 'complete', completed_at: new Date().toISOString() } : {})
+    });
+
+    logger.info('Sourcing candidates collected', {
+      jobId: job.id,
+      accountId: job.account_id,
+      sourceType: job.source_type,
+      found: collected.usernames.length,
+      candidates: candidates.length
+    });
+
+    return { done, processed: collected.usernames.length };
+  }
+
+  private async prefilterPage(job: SourcingJob, source: ProspectSource): Promise<SourcingStepResult> {
+    const startTime = Date.now();
+    const candidates = job.candidates ?? [];
+    const page = candidates.slice(job.cursor, job.cursor + SOURCING_CONFIG.prefilter_batch_size);
+
+    const business = await this.getBusiness(job.business_profile_id);
+    const profiles = page.length > 0 ? await source.scrapeProfiles(page) : [];
+    const byUsername = new Map(profiles.map(profile => [profile.username.toLowerCase(), profile]));
+
+    const rejected = { ...job.rejected };
+    const rows: ProspectRow[] = [];
+
+    for (const username of page) {
+      const profile = byUsername.get(username);
+      const reason = profile ? getRejectReason(profile, business) : 'not_found';
+
+      if (reason) {
+        rejected[reason] = (rejected[reason] ?? 0) + 1;
+        continue;
+      }
+
+      rows.push(toProspectRow(job, profile!));
+    }
+
+    if (rows.length > 0) {
+      const { error } = await this.supabase
+        .from('prospects')
+        .upsert(rows, { onConflict: 'business_profile_id,platform,username', ignoreDuplicates: true });
+
+      if (error) throw error;
+    }
+
+    const costUsd = page.length * SOURCING_CONFIG.cost_per_profile_usd;
+    const cursor = job.cursor + page.length;
+    const done = cursor >= candidates.length;
+
+    const advanced = await this.advancePage(job, {
+      cursor,
+      prospectsAdded: rows.length,
+      rejected,
+      costUsd,
+      done,
+      metrics: page.length > 0
+        ? buildApifyMetrics(costUsd, page.length, 'prefilter', Date.now() - startTime)
+        : null
+    });
+
+    // The delivery that recorded the page also queues the next step
+    if (!advanced) {
+      logger.warn('Sourcing page already recorded by another delivery', {
+        jobId: job.id,
+        cursor: job.cursor
+      });
+      return { done: true, processed: 0 };
+    }
+
+    logger.info('Sourcing page pre-filtered', {
+      jobId: job.id,
+      accountId: job.account_id,
+      cursor: job.cursor,
+      candidates: page.length,
+      added: rows.length,
+      done
+    });
+
+    return { done, processed: page.length };
+  }
+
+  // ===============================================================================
+  // DATA ACCESS
+  // ===============================================================================
+
+  private async createSource(): Promise<ProspectSource> {
+    const apifyToken = await getSecret('APIFY_API_TOKEN', this.env, this.env.APP_ENV);
+    return new ApifySourcingAdapter(apifyToken);
+  }
+
+  private async getJob(jobId: string): Promise<SourcingJob | null> {
+    const { data, error } = await this.supabase
+      .from('sourcing_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SourcingJob | null;
+  }
+
+  private async updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('sourcing_jobs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record a pre-filtered page
+   *
+   * advance_sourcing_page, in one transaction and only while the job's cursor
+   * is still p_cursor: moves the cursor to p_next_cursor, adds
+   * p_prospects_added and p_cost_usd to prospects_added / apify_cost_usd,
+   * stores p_rejected, completes the job when p_done, and inserts the
+   * operations_ledger row (p_metrics, skipped when null).
+   * Returns false when the page was already recorded.
+   */
+  private async advancePage(
+    job: SourcingJob,
+    page: {
+      cursor: number;
+      prospectsAdded: number;
+      rejected: SourcingJob['rejected'];
+      costUsd: number;
+      done: boolean;
+      metrics: OperationMetrics | null;
+    }
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('advance_sourcing_page', {
+      p_job_id: job.id,
+      p_cursor: job.cursor,
+      p_next_cursor: page.cursor,
+      p_prospects_added: page.prospectsAdded,
+      p_rejected: page.rejected,
+      p_cost_usd: roundUsd(page.costUsd),
+      p_done: page.done,
+      p_metrics: page.metrics
+    });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  private async getBusiness(businessProfileId: string): Promise<SourcingBusiness> {
+    const { data, error } = await this.supabase
+      .from('business_profiles')
+      .select('id, business_context, ideal_customer_profile, icp_rules')
+      .eq('id', businessProfileId)
+      .is('deleted_at', null)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Usernames that are already leads or prospects (any status) of the business
+   */
+  private async findExistingUsernames(job: SourcingJob, usernames: string[]): Promise<Set<string>> {
+    const existing = await new LeadsRepository(this.supabase).findExistingUsernames(
+      job.account_id,
+      job.business_profile_id,
+      usernames
+    );
+
+    for (let i = 0; i < usernames.length; i += EXISTING_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('prospects')
+        .select('username')
+        .eq('business_profile_id', job.business_profile_id)
+        .eq('platform', 'instagram')
+        .in('username', usernames.slice(i, i + EXISTING_LOOKUP_CHUNK));
+
+      if (error) throw error;
+
+      (data || []).forEach((row: { username: string }) => existing.add(row.username));
+    }
+
+    return existing;
+  }
+
+  private async logApifyCost(
+    job: SourcingJob,
+    costUsd: number,
+    items: number,
+    step: 'collect' | 'prefilter',
+    durationMs: number
+  ): Promise<void> {
+    await new OperationsLedgerRepository(this.supabase).logOperation({
+      account_id: job.account_id,
+      operation_type: 'sourcing',
+      operation_id: job.id,
+      metrics: buildApifyMetrics(costUsd, items, step, durationMs)
+    });
+  }
+}
+
+function buildApifyMetrics(
+  costUsd: number,
+  items: number,
+  step: 'collect' | 'prefilter',
+  durationMs: number
+): OperationMetrics {
+  return {
+    cost: {
+      total_usd: roundUsd(costUsd),
+      items: {
+        scraping: {
+          vendor: 'apify',
+          usd: roundUsd(costUsd),
+          actor: step === 'collect' ? SOURCING_CONFIG.collector_actor_id : 'profile',
+          step,
+          items
+        }
+      }
+    },
+    duration: {
+      total_ms: durationMs
+    }
+  };
+}
+
+/**
+ * Cheap pre-filter on the scraped profile (null = keep)
+ */
+function getRejectReason(profile: ProfileData, business: SourcingBusiness): SourcingRejectReason | null {
+  if (profile.isPrivate) {
+    return 'private';
+  }
+
+  const { icp_min_followers, icp_max_followers } = getICPSettings(business);
+  if (icp_min_followers != null && profile.followersCount < icp_min_followers) {
+    return 'below_min_followers';
+  }
+  if (icp_max_followers != null && profile.followersCount > icp_max_followers) {
+    return 'above_max_followers';
+  }
+
+  const requiresBusiness = (business.icp_rules ?? []).some(rule => rule.type === 'business_account');
+  if (requiresBusiness && !profile.isBusinessAccount) {
+    return 'not_business';
+  }
+
+  return null;
+}
+
+function toProspectRow(job: SourcingJob, profile: ProfileData): ProspectRow {
+  return {
+    account_id: job.account_id,
+    business_profile_id: job.business_profile_id,
+    platform: 'instagram',
+    username: profile.username.toLowerCase(),
+    display_name: profile.displayName || null,
+    follower_count: profile.followersCount,
+    following_count: profile.followingCount,
+    post_count: profile.postsCount,
+    is_verified: profile.isVerified,
+    is_business_account: profile.isBusinessAccount,
+    profile_pic_url: profile.profilePicUrl || null,
+    bio: profile.bio || null,
+    source_job_id: job.id,
+    source_type: job.source_type,
+    source_value: job.source_value,
+    status: 'new',
+    analysis_batch_id: null,
+    promoted_at: null
+  };
+}
+
+function roundUsd(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
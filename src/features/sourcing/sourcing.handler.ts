@@ -0,0 +1,194 @@
+// features/sourcing/sourcing.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { SourcingService } from './sourcing.service';
+import {
+  CreateSourcingJobSchema,
+  ListSourcingJobsQuerySchema,
+  SourcingJobParamsSchema,
+  ListProspectsQuerySchema,
+  PromoteProspectsSchema,
+  DismissProspectsSchema
+} from './sourcing.types';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, errorResponse, createdResponse, paginatedResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/sourcing-jobs
+ * Collect prospects from a hashtag, location or competitor's commenters
+ */
+export async function createSourcingJob(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateSourcingJobSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const job = await service.createJob(accountId, auth.userId, input);
+
+    logger.info('Sourcing job created', {
+      jobId: job.id,
+      accountId,
+      businessProfileId: job.business_profile_id,
+      sourceType: job.source_type,
+      sourceValue: job.source_value
+    });
+
+    return createdResponse(c, job);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to create sourcing job', { accountId });
+  }
+}
+
+/**
+ * GET /api/sourcing-jobs
+ * List sourcing jobs for account
+ */
+export async function listSourcingJobs(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(ListSourcingJobsQuerySchema, {
+      businessProfileId: c.req.query('businessProfileId'),
+      status: c.req.query('status'),
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const jobs = await service.listJobs(accountId, query);
+
+    return successResponse(c, jobs);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list sourcing jobs', { accountId });
+  }
+}
+
+/**
+ * GET /api/sourcing-jobs/:jobId
+ * Job status, counts and pre-filter rejections
+ */
+export async function getSourcingJob(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { jobId } = validateQuery(SourcingJobParamsSchema, { jobId: c.req.param('jobId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const job = await service.getJob(accountId, jobId);
+
+    if (!job) {
+      return errorResponse(c, 'Sourcing job not found', 'NOT_FOUND', 404);
+    }
+
+    return successResponse(c, job);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get sourcing job', { accountId });
+  }
+}
+
+/**
+ * GET /api/prospects
+ * Unanalyzed prospects of a business profile
+ */
+export async function listProspects(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(ListProspectsQuerySchema, {
+      businessProfileId: c.req.query('businessProfileId'),
+      status: c.req.query('status'),
+      jobId: c.req.query('jobId'),
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const { prospects, total } = await service.listProspects(accountId, query);
+
+    return paginatedResponse(c, prospects, {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      hasMore: (query.page * query.pageSize) < total
+    });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list prospects', { accountId });
+  }
+}
+
+/**
+ * POST /api/prospects/promote
+ * Queue prospects for light or deep analysis (one bulk batch)
+ */
+export async function promoteProspects(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(PromoteProspectsSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const result = await service.promoteProspects(accountId, auth.userId, input);
+
+    logger.info('Prospects promoted to analysis', {
+      accountId,
+      businessProfileId: input.businessProfileId,
+      batchId: result.batch.batch_id,
+      promoted: result.promoted
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        ...result,
+        batch_progress_url: `/api/leads/analyze/bulk/${result.batch.batch_id}/progress`
+      }
+    }, 202); // 202 Accepted
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to promote prospects', { accountId });
+  }
+}
+
+/**
+ * POST /api/prospects/dismiss
+ * Hide prospects from the new list
+ */
+export async function dismissProspects(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(DismissProspectsSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new SourcingService(c.env, supabase);
+    const dismissed = await service.dismissProspects(accountId, input);
+
+    return successResponse(c, { dismissed });
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to dismiss prospects', { accountId });
+  }
+}
@@ -0,0 +1,81 @@
+// features/sourcing/sourcing.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS, ANALYSIS_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  createSourcingJob,
+  listSourcingJobs,
+  getSourcingJob,
+  listProspects,
+  promoteProspects,
+  dismissProspects
+} from './sourcing.handler';
+
+/**
+ * PROSPECT SOURCING ROUTES
+ *
+ * Sourcing jobs collect candidate usernames from a hashtag, a location or a
+ * competitor's recent commenters, pre-filter them against the business ICP
+ * and store the rest as unanalyzed prospects. Prospects are promoted to a
+ * regular bulk analysis batch. Jobs run on the sourcing queue.
+ */
+export function registerSourcingRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All sourcing routes require authentication
+  app.use('/api/sourcing-jobs', authMiddleware);
+  app.use('/api/sourcing-jobs/*', authMiddleware);
+  app.use('/api/prospects', authMiddleware);
+  app.use('/api/prospects/*', authMiddleware);
+
+  // Apply general API rate limiting; promoting counts as a bulk operation
+  app.use('/api/sourcing-jobs', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/sourcing-jobs/*', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/prospects', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/prospects/dismiss', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/prospects/promote', rateLimitMiddleware(ANALYSIS_RATE_LIMITS.BULK));
+
+  /**
+   * POST /api/sourcing-jobs
+   * Start a sourcing job
+   * Body: { businessProfileId, sourceType: 'hashtag'|'location'|'competitor_commenters', value, maxCandidates?: number }
+   * value: hashtag, Instagram location ID, or competitor username
+   */
+  app.post('/api/sourcing-jobs', createSourcingJob);
+
+  /**
+   * GET /api/sourcing-jobs
+   * List jobs
+   * Query params: ?businessProfileId=uuid&status=running&limit=20
+   */
+  app.get('/api/sourcing-jobs', listSourcingJobs);
+
+  /**
+   * GET /api/sourcing-jobs/:jobId
+   * Job status, counts and pre-filter rejections
+   */
+  app.get('/api/sourcing-jobs/:jobId', getSourcingJob);
+
+  /**
+   * GET /api/prospects
+   * List prospects
+   * Query params: ?businessProfileId=uuid&status=new&jobId=uuid&page=1&pageSize=50
+   */
+  app.get('/api/prospects', listProspects);
+
+  /**
+   * POST /api/prospects/promote
+   * Queue prospects for analysis (max 50)
+   * Body: { businessProfileId, prospectIds: uuid[], analysisType: 'light'|'deep' }
+   */
+  app.post('/api/prospects/promote', promoteProspects);
+
+  /**
+   * POST /api/prospects/dismiss
+   * Hide prospects
+   * Body: { businessProfileId, prospectIds: uuid[] }
+   */
+  app.post('/api/prospects/dismiss', dismissProspects);
+}
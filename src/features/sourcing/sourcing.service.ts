@@ -0,0 +1,276 @@
+// features/sourcing/sourcing.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env, SourcingQueueMessage } from '@/shared/types/env.types';
+import type { BulkBatchSummary } from '@/shared/types/bulk-batch.types';
+import type {
+  SourcingJob,
+  Prospect,
+  CreateSourcingJobInput,
+  ListSourcingJobsQuery,
+  ListProspectsQuery,
+  PromoteProspectsInput,
+  DismissProspectsInput
+} from './sourcing.types';
+import { BulkAnalysisService } from '@/infrastructure/batch/bulk-analysis.service';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { logger } from '@/shared/utils/logger.util';
+
+export interface PromoteProspectsResult {
+  batch: BulkBatchSummary;
+  promoted: number;
+  /** Requested IDs that weren't new prospects of this business (already promoted, dismissed, unknown) */
+  skipped: string[];
+}
+
+export class SourcingService {
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  /**
+   * Create a sourcing job and queue it
+   */
+  async createJob(accountId: string, userId: string, input: CreateSourcingJobInput): Promise<SourcingJob> {
+    const { data: business, error: businessError } = await this.supabase
+      .from('business_profiles')
+      .select('id')
+      .eq('id', input.businessProfileId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (businessError) throw businessError;
+    if (!business) {
+      throw new AppError('Business profile not found', 404, 'NOT_FOUND');
+    }
+
+    const { data, error } = await this.supabase
+      .from('sourcing_jobs')
+      .insert({
+        account_id: accountId,
+        business_profile_id: input.businessProfileId,
+        source_type: input.sourceType,
+        source_value: input.value,
+        status: 'queued',
+        max_candidates: input.maxCandidates,
+        candidates: null,
+        cursor: 0,
+        candidates_found: 0,
+        duplicates: 0,
+        prospects_added: 0,
+        rejected: {},
+        apify_cost_usd: 0,
+        created_by: userId
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    const job = data as SourcingJob;
+
+    try {
+      await this.env.SOURCING_QUEUE.send({ job_id: job.id } satisfies SourcingQueueMessage);
+    } catch (queueError) {
+      await this.supabase
+        .from('sourcing_jobs')
+        .update({
+          status: 'failed',
+          error: 'Failed to queue job',
+          completed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+      throw queueError;
+    }
+
+    return job;
+  }
+
+  /**
+   * List sourcing jobs for account, newest first (candidate lists omitted)
+   */
+  async listJobs(accountId: string, query: ListSourcingJobsQuery): Promise<Omit<SourcingJob, 'candidates'>[]> {
+    let dbQuery = this.supabase
+      .from('sourcing_jobs')
+      .select('id, account_id, business_profile_id, source_type, source_value, status, max_candidates, cursor, candidates_found, duplicates, prospects_added, rejected, apify_cost_usd, error, created_by, created_at, started_at, completed_at, updated_at')
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (query.businessProfileId) {
+      dbQuery = dbQuery.eq('business_profile_id', query.businessProfileId);
+    }
+    if (query.status) {
+      dbQuery = dbQuery.eq('status', query.status);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []) as Omit<SourcingJob, 'candidates'>[];
+  }
+
+  /**
+   * Get single job (null if not found or not owned by account)
+   */
+  async getJob(accountId: string, jobId: string): Promise<SourcingJob | null> {
+    const { data, error } = await this.supabase
+      .from('sourcing_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as SourcingJob | null;
+  }
+
+  /**
+   * Prospects of a business profile, newest first
+   */
+  async listProspects(
+    accountId: string,
+    query: ListProspectsQuery
+  ): Promise<{ prospects: Prospect[]; total: number }> {
+    const offset = (query.page - 1) * query.pageSize;
+
+    let dbQuery = this.supabase
+      .from('prospects')
+      .select('*', { count: 'exact' })
+      .eq('account_id', accountId)
+      .eq('business_profile_id', query.businessProfileId)
+      .eq('status', query.status)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + query.pageSize - 1);
+
+    if (query.jobId) {
+      dbQuery = dbQuery.eq('source_job_id', query.jobId);
+    }
+
+    const { data, error, count } = await dbQuery;
+
+    if (error) throw error;
+    return { prospects: (data || []) as Prospect[], total: count ?? 0 };
+  }
+
+  /**
+   * Queue new prospects for analysis as one bulk batch
+   * Prospects are claimed first ('new' → 'promoting'), so concurrent requests
+   * can't queue the same prospect twice; the claim is released if queueing fails
+   * Throws a 402 AppError when the balance can't cover the batch
+   */
+  async promoteProspects(
+    accountId: string,
+    userId: string,
+    input: PromoteProspectsInput
+  ): Promise<PromoteProspectsResult> {
+    const prospects = await this.claimNewProspects(accountId, input.businessProfileId, input.prospectIds);
+    if (prospects.length === 0) {
+      throw new AppError('No new prospects to promote', 404, 'NO_PROSPECTS');
+    }
+
+    const prospectIds = prospects.map(prospect => prospect.id);
+    let batch: BulkBatchSummary;
+
+    try {
+      batch = await new BulkAnalysisService(this.env).queueBatch({
+        accountId,
+        businessProfileId: input.businessProfileId,
+        analysisType: input.analysisType,
+        usernames: prospects.map(prospect => prospect.username),
+        requestedBy: userId
+      });
+    } catch (error) {
+      await this.releaseClaim(prospectIds);
+      throw error;
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('prospects')
+      .update({
+        status: 'promoted',
+        analysis_batch_id: batch.batch_id,
+        promoted_at: now,
+        updated_at: now
+      })
+      .in('id', prospectIds)
+      .eq('status', 'promoting');
+
+    if (error) throw error;
+
+    const promotedIds = new Set(prospects.map(prospect => prospect.id));
+
+    return {
+      batch,
+      promoted: prospects.length,
+      skipped: input.prospectIds.filter(id => !promotedIds.has(id))
+    };
+  }
+
+  /**
+   * Hide new prospects; returns how many were dismissed
+   */
+  async dismissProspects(accountId: string, input: DismissProspectsInput): Promise<number> {
+    const prospects = await this.getNewProspects(accountId, input.businessProfileId, input.prospectIds);
+    if (prospects.length === 0) return 0;
+
+    const { error } = await this.supabase
+      .from('prospects')
+      .update({ status: 'dismissed', updated_at: new Date().toISOString() })
+      .in('id', prospects.map(prospect => prospect.id));
+
+    if (error) throw error;
+    return prospects.length;
+  }
+
+  /**
+   * Move the requested 'new' prospects to 'promoting' in one conditional update
+   * Returns only the rows this request claimed
+   */
+  private async claimNewProspects(
+    accountId: string,
+    businessProfileId: string,
+    prospectIds: string[]
+  ): Promise<Pick<Prospect, 'id' | 'username'>[]> {
+    const { data, error } = await this.supabase
+      .from('prospects')
+      .update({ status: 'promoting', updated_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('business_profile_id', businessProfileId)
+      .eq('status', 'new')
+      .in('id', prospectIds)
+      .select('id, username');
+
+    if (error) throw error;
+    return (data || []) as Pick<Prospect, 'id' | 'username'>[];
+  }
+
+  private async releaseClaim(prospectIds: string[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('prospects')
+      .update({ status: 'new', updated_at: new Date().toISOString() })
+      .in('id', prospectIds)
+      .eq('status', 'promoting');
+
+    if (error) {
+      logger.error('Failed to release promoting prospects', { prospectIds, error: error.message });
+    }
+  }
+
+  private async getNewProspects(
+    accountId: string,
+    businessProfileId: string,
+    prospectIds: string[]
+  ): Promise<Pick<Prospect, 'id' | 'username'>[]> {
+    const { data, error } = await this.supabase
+      .from('prospects')
+      .select('id, username')
+      .eq('account_id', accountId)
+      .eq('business_profile_id', businessProfileId)
+      .eq('status', 'new')
+      .in('id', prospectIds);
+
+    if (error) throw error;
+    return (data || []) as Pick<Prospect, 'id' | 'username'>[];
+  }
+}
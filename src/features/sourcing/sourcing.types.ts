@@ -0,0 +1,167 @@
+// features/sourcing/sourcing.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import { SOURCING_CONFIG } from '@/config/operations-pricing.config';
+import {
+  PROSPECT_SOURCE_TYPES,
+  type ProspectSourceType
+} from '@/infrastructure/scraping/scraper.types';
+
+export { PROSPECT_SOURCE_TYPES, type ProspectSourceType };
+
+// ===============================================================================
+// STATUSES
+// ===============================================================================
+
+/**
+ * Sourcing job lifecycle:
+ * - queued: created, waiting for the sourcing queue consumer
+ * - running: candidates collected (first message), then pre-filtered page by page
+ * - complete: every candidate was pre-filtered
+ * - failed: processing stopped (see error); prospects already stored are kept
+ */
+export const SOURCING_JOB_STATUSES = ['queued', 'running', 'complete', 'failed'] as const;
+
+export type SourcingJobStatus = typeof SOURCING_JOB_STATUSES[number];
+
+/**
+ * Prospect lifecycle:
+ * - new: passed the pre-filter, not analyzed yet
+ * - promoting: claimed by a promote request while its batch is queued
+ * - promoted: queued for light/deep analysis (becomes a lead when it completes)
+ * - dismissed: hidden by the user
+ */
+export const PROSPECT_STATUSES = ['new', 'promoting', 'promoted', 'dismissed'] as const;
+
+export type ProspectStatus = typeof PROSPECT_STATUSES[number];
+
+/** Why a candidate was dropped by the pre-filter */
+export type SourcingRejectReason = 'not_found' | 'private' | 'below_min_followers' | 'above_max_followers' | 'not_business';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+const SourceValueSchemas: Record<ProspectSourceType, z.ZodType<string>> = {
+  hashtag: z.string().trim().transform(value => value.replace(/^#+/, '').toLowerCase())
+    .pipe(z.string().min(1).max(100).regex(/^[\p{L}\p{N}_]+$/u, 'Invalid hashtag')),
+  location: z.string().trim().regex(/^\d{1,20}$/, 'Location must be an Instagram location ID'),
+  competitor_commenters: z.string().trim().transform(value => value.replace(/^@+/, '').toLowerCase())
+    .pipe(CommonSchemas.instagramUsername)
+};
+
+export const CreateSourcingJobSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  sourceType: z.enum(PROSPECT_SOURCE_TYPES),
+  /** Hashtag (with or without #), Instagram location ID, or competitor username */
+  value: z.string().min(1).max(200),
+  maxCandidates: z.number().int().min(1).max(SOURCING_CONFIG.max_candidates).default(SOURCING_CONFIG.default_candidates)
+}).transform((data, ctx) => {
+  const parsed = SourceValueSchemas[data.sourceType].safeParse(data.value);
+  if (!parsed.success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: parsed.error.errors[0]?.message ?? 'Invalid value'
+    });
+    return z.NEVER;
+  }
+  return { ...data, value: parsed.data };
+});
+
+export const ListSourcingJobsQuerySchema = z.object({
+  businessProfileId: CommonSchemas.uuid.optional(),
+  status: z.enum(SOURCING_JOB_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const SourcingJobParamsSchema = z.object({
+  jobId: CommonSchemas.uuid
+});
+
+export const ListProspectsQuerySchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  status: z.enum(PROSPECT_STATUSES).default('new'),
+  jobId: CommonSchemas.uuid.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const PromoteProspectsSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  prospectIds: z.array(CommonSchemas.uuid).min(1).max(50),
+  analysisType: z.enum(['light', 'deep'])
+});
+
+export const DismissProspectsSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  prospectIds: z.array(CommonSchemas.uuid).min(1).max(500)
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export interface SourcingJob {
+  id: string;
+  account_id: string;
+  business_profile_id: string;
+  source_type: ProspectSourceType;
+  source_value: string;
+  status: SourcingJobStatus;
+  max_candidates: number;
+  /** New candidate usernames to pre-filter (null until collected) */
+  candidates: string[] | null;
+  /** Candidates pre-filtered so far (paging offset into candidates) */
+  cursor: number;
+  /** Unique usernames the source returned */
+  candidates_found: number;
+  /** Already leads or prospects of the business profile */
+  duplicates: number;
+  prospects_added: number;
+  /** Pre-filter rejections by reason */
+  rejected: Partial<Record<SourcingRejectReason, number>>;
+  apify_cost_usd: number;
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+export interface Prospect {
+  id: string;
+  account_id: string;
+  business_profile_id: string;
+  platform: 'instagram';
+  username: string;
+  display_name: string | null;
+  follower_count: number;
+  following_count: number;
+  post_count: number;
+  is_verified: boolean;
+  is_business_account: boolean;
+  profile_pic_url: string | null;
+  bio: string | null;
+  source_job_id: string;
+  source_type: ProspectSourceType;
+  source_value: string;
+  status: ProspectStatus;
+  /** Bulk analysis batch the prospect was promoted into */
+  analysis_batch_id: string | null;
+  promoted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ===============================================================================
+// TYPE EXPORTS
+// ===============================================================================
+
+export type CreateSourcingJobInput = z.infer<typeof CreateSourcingJobSchema>;
+export type ListSourcingJobsQuery = z.infer<typeof ListSourcingJobsQuerySchema>;
+export type ListProspectsQuery = z.infer<typeof ListProspectsQuerySchema>;
+export type PromoteProspectsInput = z.infer<typeof PromoteProspectsSchema>;
+export type DismissProspectsInput = z.infer<typeof DismissProspectsSchema>;
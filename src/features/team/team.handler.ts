@@ -0,0 +1,251 @@
+// features/team/team.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import type { CreatedInvitationResponse } from './team.types';
+import { TeamService } from './team.service';
+import {
+  CreateInvitationSchema,
+  AcceptInvitationSchema,
+  InvitationParamsSchema,
+  MemberParamsSchema,
+  UpdateMemberRoleSchema
+} from './team.types';
+import { EmailService } from '@/infrastructure/email/email.service';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, createdResponse, noContentResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * Invite link opened by the web app (token is single-use and expires)
+ */
+function buildInviteUrl(env: Env, token: string): string {
+  const baseUrl = env.FRONTEND_URL ||
+    (env.APP_ENV === 'production' ? 'https://app.oslira.com' : 'https://staging-app.oslira.com');
+  return `${baseUrl}/invite?token=${token}`;
+}
+
+/**
+ * GET /api/team/members
+ * List account members with roles
+ */
+export async function listMembers(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    const members = await service.listMembers(accountId);
+
+    return successResponse(c, members);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list team members', { accountId });
+  }
+}
+
+/**
+ * PATCH /api/team/members/:userId
+ * Change a member's role
+ */
+export async function updateMemberRole(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const userId = c.req.param('userId');
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(UpdateMemberRoleSchema, { ...body, userId });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    const member = await service.updateMemberRole(accountId, auth.role ?? 'viewer', input);
+
+    logger.info('Team member role changed', {
+      accountId,
+      userId: input.userId,
+      role: input.role,
+      changedBy: auth.userId
+    });
+
+    return successResponse(c, member);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to update team member', { accountId, userId });
+  }
+}
+
+/**
+ * DELETE /api/team/members/:userId
+ * Remove a member from the account
+ */
+export async function removeMember(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { userId } = validateQuery(MemberParamsSchema, { userId: c.req.param('userId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    await service.removeMember(accountId, auth.role ?? 'viewer', userId);
+
+    logger.info('Team member removed', { accountId, userId, removedBy: auth.userId });
+
+    return noContentResponse(c);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to remove team member', { accountId });
+  }
+}
+
+/**
+ * POST /api/team/leave
+ * Leave the current account
+ */
+export async function leaveTeam(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    await service.leave(accountId, auth.userId);
+
+    logger.info('Team member left', { accountId, userId: auth.userId });
+
+    return noContentResponse(c);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to leave team', { accountId });
+  }
+}
+
+/**
+ * POST /api/team/invitations
+ * Invite someone by email; the invite link is emailed and returned once
+ */
+export async function createInvitation(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateInvitationSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    const { invitation, token } = await service.createInvitation(
+      accountId,
+      auth.userId,
+      auth.role ?? 'viewer',
+      input
+    );
+
+    const inviteUrl = buildInviteUrl(c.env, token);
+    const sender = await service.getInvitationSender(accountId, auth.userId);
+    const emailSent = await new EmailService(c.env).sendTeamInvitation({
+      to: invitation.email,
+      accountName: sender.accountName,
+      inviterName: sender.inviterName,
+      role: invitation.role,
+      inviteUrl,
+      expiresAt: invitation.expires_at
+    });
+
+    logger.info('Team invitation created', {
+      invitationId: invitation.id,
+      accountId,
+      role: invitation.role,
+      emailSent
+    });
+
+    const response: CreatedInvitationResponse = {
+      ...invitation,
+      invite_url: inviteUrl,
+      email_sent: emailSent
+    };
+    return createdResponse(c, response);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to create invitation', { accountId });
+  }
+}
+
+/**
+ * GET /api/team/invitations
+ * List open invitations
+ */
+export async function listInvitations(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    const invitations = await service.listPendingInvitations(accountId);
+
+    return successResponse(c, invitations);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list invitations', { accountId });
+  }
+}
+
+/**
+ * DELETE /api/team/invitations/:invitationId
+ * Revoke an open invitation
+ */
+export async function revokeInvitation(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { invitationId } = validateQuery(InvitationParamsSchema, {
+      invitationId: c.req.param('invitationId')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    await service.revokeInvitation(accountId, invitationId);
+
+    logger.info('Team invitation revoked', { invitationId, accountId, revokedBy: auth.userId });
+
+    return noContentResponse(c);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to revoke invitation', { accountId });
+  }
+}
+
+/**
+ * POST /api/team/invitations/accept
+ * Join the inviting account; switch to it with POST /api/auth/switch-account
+ */
+export async function acceptInvitation(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+
+  try {
+    const body = await c.req.json();
+    const { token } = validateBody(AcceptInvitationSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new TeamService(supabase);
+    const membership = await service.acceptInvitation(auth.userId, auth.email, token);
+
+    logger.info('Team invitation accepted', {
+      accountId: membership.account_id,
+      userId: auth.userId,
+      role: membership.role
+    });
+
+    return successResponse(c, membership);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to accept invitation', { userId: auth.userId });
+  }
+}
@@ -0,0 +1,84 @@
+// features/team/team.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  listMembers,
+  updateMemberRole,
+  removeMember,
+  leaveTeam,
+  createInvitation,
+  listInvitations,
+  revokeInvitation,
+  acceptInvitation
+} from './team.handler';
+
+/**
+ * TEAM ROUTES
+ *
+ * Account membership and invitations. Minimum roles are enforced by
+ * authMiddleware (see account-roles.config): anyone can list members,
+ * admins manage invitations and members below their own role.
+ *
+ * Session-only: API keys are rejected here (no scope maps to /api/team).
+ */
+export function registerTeamRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All team routes require authentication
+  app.use('/api/team/*', authMiddleware);
+
+  // Apply write rate limiting (invitations send email)
+  app.use('/api/team/*', rateLimitMiddleware(API_RATE_LIMITS.WRITE));
+
+  /**
+   * GET /api/team/members
+   * List members (owner first) with roles
+   */
+  app.get('/api/team/members', listMembers);
+
+  /**
+   * PATCH /api/team/members/:userId
+   * Body: { role: 'admin' | 'member' | 'viewer' }
+   */
+  app.patch('/api/team/members/:userId', updateMemberRole);
+
+  /**
+   * DELETE /api/team/members/:userId
+   * Remove member (their sessions on this account end within 15 minutes)
+   */
+  app.delete('/api/team/members/:userId', removeMember);
+
+  /**
+   * POST /api/team/leave
+   * Leave the current account (not available to the owner)
+   */
+  app.post('/api/team/leave', leaveTeam);
+
+  /**
+   * POST /api/team/invitations
+   * Email an invitation; response includes the invite link (shown once)
+   * Body: { email: string, role?: 'admin' | 'member' | 'viewer' }
+   */
+  app.post('/api/team/invitations', createInvitation);
+
+  /**
+   * GET /api/team/invitations
+   * List open invitations
+   */
+  app.get('/api/team/invitations', listInvitations);
+
+  /**
+   * POST /api/team/invitations/accept
+   * Body: { token: string } - signed-in email must match the invitation
+   */
+  app.post('/api/team/invitations/accept', acceptInvitation);
+
+  /**
+   * DELETE /api/team/invitations/:invitationId
+   * Revoke invitation
+   */
+  app.delete('/api/team/invitations/:invitationId', revokeInvitation);
+}
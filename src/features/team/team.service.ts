@@ -0,0 +1,385 @@
+// features/team/team.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  TeamMember,
+  AccountInvitation,
+  AcceptedInvitationResponse,
+  CreateInvitationInput,
+  UpdateMemberRoleInput
+} from './team.types';
+import type { AccountRole } from '@/config/account-roles.config';
+import { canManageAccountRole } from '@/config/account-roles.config';
+import { MembershipService } from '@/infrastructure/auth/membership.service';
+import { TokenService } from '@/infrastructure/auth/token.service';
+import { ApiKeyService } from '@/infrastructure/auth/api-key.service';
+import { AppError } from '@/shared/middleware/error.middleware';
+
+/** Invitations expire after 7 days */
+const INVITATION_EXPIRY_DAYS = 7;
+
+/** Open invitations per account (stops invite spam from a compromised admin) */
+const MAX_PENDING_INVITATIONS = 50;
+
+const INVITATION_COLUMNS = 'id, account_id, email, role, invited_by, expires_at, accepted_at, accepted_by, revoked_at, created_at';
+
+export class TeamService {
+  constructor(private supabase: SupabaseClient) {}
+
+  // ===============================================================================
+  // MEMBERS
+  // ===============================================================================
+
+  /**
+   * List account members, owner first
+   */
+  async listMembers(accountId: string): Promise<TeamMember[]> {
+    const [accountResult, membersResult] = await Promise.all([
+      this.supabase
+        .from('accounts')
+        .select('owner_id, created_at, users!fk_accounts_owner(id, email, full_name, avatar_url)')
+        .eq('id', accountId)
+        .single(),
+      this.supabase
+        .from('account_members')
+        .select('user_id, role, invited_by, joined_at, users(id, email, full_name, avatar_url)')
+        .eq('account_id', accountId)
+        .order('joined_at', { ascending: true })
+    ]);
+
+    if (accountResult.error) throw accountResult.error;
+    if (membersResult.error) throw membersResult.error;
+
+    const account = accountResult.data;
+    const owner = firstRow(account.users);
+
+    const members: TeamMember[] = [{
+      user_id: account.owner_id,
+      email: owner?.email ?? '',
+      full_name: owner?.full_name ?? null,
+      avatar_url: owner?.avatar_url ?? null,
+      role: 'owner',
+      invited_by: null,
+      joined_at: account.created_at
+    }];
+
+    for (const row of membersResult.data || []) {
+      const user = firstRow(row.users);
+      members.push({
+        user_id: row.user_id,
+        email: user?.email ?? '',
+        full_name: user?.full_name ?? null,
+        avatar_url: user?.avatar_url ?? null,
+        role: row.role as AccountRole,
+        invited_by: row.invited_by,
+        joined_at: row.joined_at
+      });
+    }
+
+    return members;
+  }
+
+  /**
+   * Change a member's role
+   * Actors only manage members below their own role, and only grant roles below it
+   */
+  async updateMemberRole(
+    accountId: string,
+    actorRole: AccountRole,
+    input: UpdateMemberRoleInput
+  ): Promise<TeamMember> {
+    const current = await this.getMemberRole(accountId, input.userId);
+
+    if (!canManageAccountRole(actorRole, current) || !canManageAccountRole(actorRole, input.role)) {
+      throw new AppError('You can only manage members below your own role', 403, 'INSUFFICIENT_ROLE');
+    }
+
+    const { error } = await this.supabase
+      .from('account_members')
+      .update({ role: input.role })
+      .eq('account_id', accountId)
+      .eq('user_id', input.userId);
+
+    if (error) throw error;
+
+    const members = await this.listMembers(accountId);
+    return members.find(m => m.user_id === input.userId)!;
+  }
+
+  /**
+   * Remove a member, end their sessions and revoke their API keys on this account
+   */
+  async removeMember(accountId: string, actorRole: AccountRole, userId: string): Promise<void> {
+    const current = await this.getMemberRole(accountId, userId);
+
+    if (!canManageAccountRole(actorRole, current)) {
+      throw new AppError('You can only manage members below your own role', 403, 'INSUFFICIENT_ROLE');
+    }
+
+    await this.deleteMembership(accountId, userId);
+  }
+
+  /**
+   * Leave an account (owners can't leave their own account)
+   */
+  async leave(accountId: string, userId: string): Promise<void> {
+    const role = await new MembershipService(this.supabase).getRole(accountId, userId);
+
+    if (role === 'owner') {
+      throw new AppError('Account owners cannot leave their own account', 400, 'OWNER_CANNOT_LEAVE');
+    }
+    if (!role) {
+      throw new AppError('Member not found', 404, 'NOT_FOUND');
+    }
+
+    await this.deleteMembership(accountId, userId);
+  }
+
+  private async getMemberRole(accountId: string, userId: string): Promise<AccountRole> {
+    const role = await new MembershipService(this.supabase).getRole(accountId, userId);
+    if (!role) {
+      throw new AppError('Member not found', 404, 'NOT_FOUND');
+    }
+    return role;
+  }
+
+  private async deleteMembership(accountId: string, userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('account_members')
+      .delete()
+      .eq('account_id', accountId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    // Access token lapses within 15 minutes; refresh is refused from now on
+    await new TokenService(this.supabase).revokeAllForUserAccount(userId, accountId);
+
+    // Keys authenticate as their creator, so they go with the membership
+    await new ApiKeyService(this.supabase).revokeAllCreatedBy(accountId, userId);
+  }
+
+  // ===============================================================================
+  // INVITATIONS
+  // ===============================================================================
+
+  /**
+   * Create an invitation (replaces any open invitation for the same email)
+   *
+   * @returns Stored invitation plus the plaintext token (never retrievable again)
+   */
+  async createInvitation(
+    accountId: string,
+    invitedBy: string,
+    actorRole: AccountRole,
+    input: CreateInvitationInput
+  ): Promise<{ invitation: AccountInvitation; token: string }> {
+    if (!canManageAccountRole(actorRole, input.role)) {
+      throw new AppError(`You can't invite someone as ${input.role}`, 403, 'INSUFFICIENT_ROLE');
+    }
+
+    const members = await this.listMembers(accountId);
+    if (members.some(m => m.email.toLowerCase() === input.email)) {
+      throw new AppError('This person is already a member', 409, 'ALREADY_MEMBER');
+    }
+
+    const now = new Date().toISOString();
+
+    await this.supabase
+      .from('account_invitations')
+      .update({ revoked_at: now })
+      .eq('account_id', accountId)
+      .eq('email', input.email)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+
+    const { count, error: countError } = await this.supabase
+      .from('account_invitations')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', accountId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', now);
+
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_PENDING_INVITATIONS) {
+      throw new AppError(
+        `Invitation limit reached (${MAX_PENDING_INVITATIONS} pending)`,
+        409,
+        'INVITATION_LIMIT_REACHED'
+      );
+    }
+
+    const token = generateInvitationToken();
+    const expiresAt = new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('account_invitations')
+      .insert({
+        account_id: accountId,
+        email: input.email,
+        role: input.role,
+        token_hash: await hashInvitationToken(token),
+        invited_by: invitedBy,
+        expires_at: expiresAt
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { invitation: data as AccountInvitation, token };
+  }
+
+  /**
+   * Account and inviter names for the invitation email
+   */
+  async getInvitationSender(
+    accountId: string,
+    invitedBy: string
+  ): Promise<{ accountName: string; inviterName: string }> {
+    const [accountResult, userResult] = await Promise.all([
+      this.supabase.from('accounts').select('name').eq('id', accountId).single(),
+      this.supabase.from('users').select('email, full_name').eq('id', invitedBy).single()
+    ]);
+
+    if (accountResult.error) throw accountResult.error;
+    if (userResult.error) throw userResult.error;
+
+    return {
+      accountName: accountResult.data.name,
+      inviterName: userResult.data.full_name || userResult.data.email
+    };
+  }
+
+  /**
+   * Open (not accepted, revoked or expired) invitations, newest first
+   */
+  async listPendingInvitations(accountId: string): Promise<AccountInvitation[]> {
+    const { data, error } = await this.supabase
+      .from('account_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('account_id', accountId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as AccountInvitation[];
+  }
+
+  /**
+   * Revoke an open invitation
+   */
+  async revokeInvitation(accountId: string, invitationId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('account_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .eq('account_id', accountId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new AppError('Invitation not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Accept an invitation as the signed-in user
+   * The user's email must match the invited address
+   */
+  async acceptInvitation(
+    userId: string,
+    email: string,
+    token: string
+  ): Promise<AcceptedInvitationResponse> {
+    const { data, error } = await this.supabase
+      .from('account_invitations')
+      .select(`${INVITATION_COLUMNS}, accounts(name)`)
+      .eq('token_hash', await hashInvitationToken(token))
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || data.revoked_at) {
+      throw new AppError('Invitation not found', 404, 'INVITATION_NOT_FOUND');
+    }
+
+    const invitation = data as AccountInvitation;
+    const accountName = firstRow(data.accounts)?.name ?? '';
+
+    if (invitation.accepted_at && invitation.accepted_by !== userId) {
+      throw new AppError('Invitation has already been used', 410, 'INVITATION_USED');
+    }
+    if (!invitation.accepted_at && new Date(invitation.expires_at) < new Date()) {
+      throw new AppError('Invitation has expired', 410, 'INVITATION_EXPIRED');
+    }
+    if (invitation.email !== email.toLowerCase()) {
+      throw new AppError(
+        'This invitation was sent to a different email address',
+        403,
+        'INVITATION_EMAIL_MISMATCH'
+      );
+    }
+
+    const existingRole = await new MembershipService(this.supabase).getRole(invitation.account_id, userId);
+
+    // Accepting twice (or as the owner) is a no-op
+    if (!existingRole) {
+      const { error: memberError } = await this.supabase
+        .from('account_members')
+        .upsert({
+          account_id: invitation.account_id,
+          user_id: userId,
+          role: invitation.role,
+          invited_by: invitation.invited_by,
+          joined_at: new Date().toISOString()
+        }, { onConflict: 'account_id,user_id', ignoreDuplicates: true });
+
+      if (memberError) throw memberError;
+    }
+
+    if (!invitation.accepted_at) {
+      const { error: acceptError } = await this.supabase
+        .from('account_invitations')
+        .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+        .eq('id', invitation.id)
+        .is('accepted_at', null);
+
+      if (acceptError) throw acceptError;
+    }
+
+    return {
+      account_id: invitation.account_id,
+      account_name: accountName,
+      role: existingRole ?? invitation.role
+    };
+  }
+}
+
+/**
+ * Supabase returns to-one embeds as an object or single-element array depending on the relation
+ */
+function firstRow<T>(value: T | T[] | null | undefined): T | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+/**
+ * 32 random bytes, hex encoded
+ */
+function generateInvitationToken(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 hex digest of a token (what gets stored and looked up)
+ */
+async function hashInvitationToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
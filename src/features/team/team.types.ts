@@ -0,0 +1,87 @@
+// features/team/team.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import { ASSIGNABLE_ACCOUNT_ROLES } from '@/config/account-roles.config';
+import type { AccountRole, AssignableAccountRole } from '@/config/account-roles.config';
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+export const CreateInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(ASSIGNABLE_ACCOUNT_ROLES).default('member')
+});
+
+export const AcceptInvitationSchema = z.object({
+  token: z.string().min(1).max(200)
+});
+
+export const InvitationParamsSchema = z.object({
+  invitationId: CommonSchemas.uuid
+});
+
+export const MemberParamsSchema = z.object({
+  userId: CommonSchemas.uuid
+});
+
+export const UpdateMemberRoleSchema = z.object({
+  userId: CommonSchemas.uuid,
+  role: z.enum(ASSIGNABLE_ACCOUNT_ROLES)
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+/**
+ * Member of an account (the owner is listed first, from accounts.owner_id)
+ */
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: AccountRole;
+  invited_by: string | null;
+  joined_at: string;
+}
+
+/**
+ * Pending or historical invitation (token hash never leaves the database)
+ */
+export interface AccountInvitation {
+  id: string;
+  account_id: string;
+  email: string;
+  role: AssignableAccountRole;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Create response - the only time the invite link (with token) is returned
+ */
+export interface CreatedInvitationResponse extends AccountInvitation {
+  invite_url: string;
+  /** false if the invitation email couldn't be sent; share invite_url manually */
+  email_sent: boolean;
+}
+
+export interface AcceptedInvitationResponse {
+  account_id: string;
+  account_name: string;
+  role: AccountRole;
+}
+
+// ===============================================================================
+// TYPE EXPORTS
+// ===============================================================================
+
+export type CreateInvitationInput = z.infer<typeof CreateInvitationSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof UpdateMemberRoleSchema>;
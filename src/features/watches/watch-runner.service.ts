@@ -0,0 +1,507 @@
+// features/watches/watch-runner.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env } from '@/shared/types/env.types';
+import type {
+  LeadWatch,
+  LeadWatchRun,
+  WatchRunStatus,
+  WatchProfileSnapshot
+} from './watches.types';
+import { getNextWatchRunAt } from './watches.service';
+import { LeadsService } from '@/features/leads/leads.service';
+import { ListLeadsQuerySchema } from '@/features/leads/leads.types';
+import { CacheStrategyService, type CachedProfile } from '@/infrastructure/cache/cache-strategy.service';
+import { createProfileScraper } from '@/infrastructure/scraping/scraper.factory';
+import type { ProfileScraper } from '@/infrastructure/scraping/scraper.types';
+import { AnalysisRepository } from '@/infrastructure/database/repositories/analysis.repository';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { getSecret } from '@/infrastructure/config/secrets';
+import { getCreditCost } from '@/config/operations-pricing.config';
+import type { LeadPlatform } from '@/config/platforms.config';
+import { generateId } from '@/shared/utils/id.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * WATCH RUNNER
+ *
+ * Executed by the hourly lead watch cron. Each tick:
+ * 1. Settles queued re-analyses (records new score + delta once the workflow finished)
+ * 2. Checks leads of due watches, up to WATCH_LEADS_PER_TICK:
+ *    lightweight scrape → compare with the last baseline using the cache
+ *    invalidation triggers → re-run AnalysisWorkflow only when something changed
+ *
+ * A watch's cycle starts at next_run_at. Filter watches may take several ticks
+ * to check every matching lead; the cycle advances once none are left.
+ * Re-analyses charge credits through the workflow like any other analysis.
+ */
+
+/** Lead checks per cron tick (each is a scrape + a few queries) */
+const WATCH_LEADS_PER_TICK = 20;
+
+/** Matching leads considered per saved-filter watch cycle */
+const WATCH_FILTER_MAX_LEADS = 200;
+
+/** Queued runs older than this without a finished analysis are marked failed */
+const WATCH_RUN_SETTLE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+export interface WatchTickResult {
+  settled: number;
+  checked: number;
+  queued: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+  cyclesCompleted: number;
+}
+
+export class WatchRunnerService {
+  private scrapers = new Map<LeadPlatform, ProfileScraper>();
+
+  constructor(private env: Env, private supabase: SupabaseClient) {}
+
+  async runTick(): Promise<WatchTickResult> {
+    const result: WatchTickResult = {
+      settled: await this.settleQueuedRuns(),
+      checked: 0,
+      queued: 0,
+      unchanged: 0,
+      skipped: 0,
+      failed: 0,
+      cyclesCompleted: 0
+    };
+
+    const dueWatches = await this.getDueWatches();
+    let budget = WATCH_LEADS_PER_TICK;
+
+    for (const watch of dueWatches) {
+      if (budget <= 0) break;
+
+      try {
+        const pending = await this.getUncheckedLeadIds(watch);
+        const batch = pending.slice(0, budget);
+        let lastError: string | null = null;
+
+        for (const leadId of batch) {
+          const run = await this.checkLeadSafely(watch, leadId);
+          result[run.status as 'queued' | 'unchanged' | 'skipped' | 'failed']++;
+          result.checked++;
+          budget--;
+          if (run.error) lastError = run.error;
+        }
+
+        if (batch.length === pending.length) {
+          await this.completeCycle(watch, lastError);
+          result.cyclesCompleted++;
+        }
+      } catch (error) {
+        logger.error('Lead watch check failed', {
+          watchId: watch.id,
+          accountId: watch.account_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        await this.completeCycle(watch, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return result;
+  }
+
+  // ===============================================================================
+  // CYCLE SCHEDULING
+  // ===============================================================================
+
+  private async getDueWatches(): Promise<LeadWatch[]> {
+    const { data, error } = await this.supabase
+      .from('lead_watches')
+      .select('*')
+      .eq('status', 'active')
+      .lte('next_run_at', new Date().toISOString())
+      .is('deleted_at', null)
+      .order('next_run_at', { ascending: true })
+      .limit(50);
+
+    if (error) throw error;
+    return (data || []) as LeadWatch[];
+  }
+
+  /**
+   * Leads of this watch not yet checked in the current cycle
+   */
+  private async getUncheckedLeadIds(watch: LeadWatch): Promise<string[]> {
+    let leadIds: string[];
+
+    if (watch.lead_id) {
+      leadIds = [watch.lead_id];
+    } else {
+      const leadsService = new LeadsService(this.supabase);
+      const query = ListLeadsQuerySchema.parse({
+        ...watch.filter,
+        businessProfileId: watch.business_profile_id
+      });
+      leadIds = await leadsService.resolveMatchingLeadIds(watch.account_id, query, WATCH_FILTER_MAX_LEADS);
+    }
+
+    if (leadIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('lead_watch_runs')
+      .select('lead_id')
+      .eq('watch_id', watch.id)
+      .gte('created_at', watch.next_run_at);
+
+    if (error) throw error;
+
+    const checked = new Set((data || []).map((row: { lead_id: string }) => row.lead_id));
+    return leadIds.filter(id => !checked.has(id));
+  }
+
+  private async completeCycle(watch: LeadWatch, lastError: string | null): Promise<void> {
+    const now = new Date();
+
+    const { error } = await this.supabase
+      .from('lead_watches')
+      .update({
+        last_run_at: now.toISOString(),
+        next_run_at: getNextWatchRunAt(watch.cadence, now),
+        last_error: lastError,
+        updated_at: now.toISOString()
+      })
+      .eq('id', watch.id);
+
+    if (error) throw error;
+  }
+
+  // ===============================================================================
+  // LEAD CHECK
+  // ===============================================================================
+
+  /**
+   * One lead's failure (scrape timeout, workflow create error) is recorded as
+   * a failed run for that lead instead of aborting the rest of the cycle
+   */
+  private async checkLeadSafely(
+    watch: LeadWatch,
+    leadId: string
+  ): Promise<Pick<LeadWatchRun, 'status' | 'error'>> {
+    try {
+      return await this.checkLead(watch, leadId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Lead watch lead check failed', {
+        watchId: watch.id,
+        accountId: watch.account_id,
+        leadId,
+        error: message
+      });
+      return this.recordRun(watch, leadId, { status: 'failed', error: message });
+    }
+  }
+
+  private async checkLead(
+    watch: LeadWatch,
+    leadId: string
+  ): Promise<Pick<LeadWatchRun, 'status' | 'error'>> {
+    const { data: lead, error: leadError } = await this.supabase
+      .from('leads')
+      .select('id, platform, username, follower_count, following_count, post_count, is_private, is_verified, last_analyzed_at')
+      .eq('id', leadId)
+      .eq('account_id', watch.account_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (leadError) throw leadError;
+    if (!lead) {
+      return this.recordRun(watch, leadId, { status: 'skipped', error: 'Lead not found' });
+    }
+
+    const analysisRepo = new AnalysisRepository(this.supabase);
+    const inProgress = await analysisRepo.findInProgressAnalysis(lead.id, watch.account_id);
+    if (inProgress) {
+      return this.recordRun(watch, leadId, {
+        status: 'skipped',
+        error: `Analysis already in progress (${inProgress.run_id})`
+      });
+    }
+
+    // Check before scraping so an empty balance doesn't cost scraper runs
+    const creditsRepo = new CreditsRepository(this.supabase);
+    const creditsCost = getCreditCost(watch.analysis_type);
+    const hasBalance = await creditsRepo.hasSufficientBalanceForAnalysis(
+      watch.account_id,
+      watch.analysis_type,
+      creditsCost
+    );
+    if (!hasBalance) {
+      return this.recordRun(watch, leadId, {
+        status: 'skipped',
+        error: `Insufficient ${watch.analysis_type} analyses balance`
+      });
+    }
+
+    // Lightweight scrape (profile only, no posts)
+    const scraper = await this.getScraper(lead.platform);
+    const scrapeResult = await scraper.scrapeProfileWithMeta(lead.username, 0);
+    if (!scrapeResult.success || !scrapeResult.profile) {
+      return this.recordRun(watch, leadId, {
+        status: 'failed',
+        error: scrapeResult.error?.error || 'Profile scrape failed'
+      });
+    }
+
+    const fresh = scrapeResult.profile;
+    const current: WatchProfileSnapshot = {
+      follower_count: fresh.followersCount,
+      following_count: fresh.followingCount || 0,
+      post_count: fresh.postsCount || 0,
+      bio: fresh.bio || '',
+      is_private: fresh.isPrivate || false,
+      is_verified: fresh.isVerified || false,
+      captured_at: new Date().toISOString()
+    };
+
+    const baseline = await this.getBaseline(watch.account_id, lead, current.bio);
+    const cacheStrategy = new CacheStrategyService(this.env.R2_CACHE_BUCKET);
+    const change = cacheStrategy.compareProfiles(
+      lead.username,
+      this.toCachedProfile(lead.username, baseline),
+      this.toCachedProfile(lead.username, current)
+    );
+
+    if (!change) {
+      return this.recordRun(watch, leadId, { status: 'unchanged', profile_snapshot: current });
+    }
+
+    // Changed: drop cached profile so the workflow scrapes fresh data
+    await cacheStrategy.invalidate(lead.username, change, lead.platform);
+
+    const latest = await this.getLatestCompletedScore(lead.id);
+    const runId = generateId('run');
+
+    await analysisRepo.createAnalysis({
+      run_id: runId,
+      lead_id: lead.id,
+      account_id: watch.account_id,
+      business_profile_id: watch.business_profile_id,
+      analysis_type: watch.analysis_type,
+      status: 'pending',
+      requested_by: watch.created_by
+    });
+
+    await this.env.ANALYSIS_WORKFLOW.create({
+      id: runId,
+      params: {
+        run_id: runId,
+        account_id: watch.account_id,
+        business_profile_id: watch.business_profile_id,
+        username: lead.username,
+        platform: lead.platform,
+        analysis_type: watch.analysis_type,
+        requested_at: new Date().toISOString(),
+        requested_by: watch.created_by
+      }
+    });
+
+    logger.info('Lead watch re-analysis started', {
+      watchId: watch.id,
+      leadId: lead.id,
+      runId,
+      reason: change.reason
+    });
+
+    return this.recordRun(watch, leadId, {
+      status: 'queued',
+      run_id: runId,
+      change_reason: change.reason,
+      change_details: change.details,
+      profile_snapshot: current,
+      previous_score: latest
+    });
+  }
+
+  /**
+   * Baseline = snapshot taken when the lead was last re-analyzed by a watch,
+   * falling back to the stored lead columns (leads don't store the bio, so
+   * the first comparison can't flag a bio change)
+   */
+  private async getBaseline(
+    accountId: string,
+    lead: {
+      id: string;
+      follower_count: number;
+      following_count: number;
+      post_count: number;
+      is_private: boolean;
+      is_verified: boolean;
+      last_analyzed_at: string | null;
+    },
+    currentBio: string
+  ): Promise<WatchProfileSnapshot> {
+    const { data, error } = await this.supabase
+      .from('lead_watch_runs')
+      .select('profile_snapshot')
+      .eq('account_id', accountId)
+      .eq('lead_id', lead.id)
+      .in('status', ['queued', 'complete'])
+      .not('profile_snapshot', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data?.profile_snapshot) {
+      return data.profile_snapshot as WatchProfileSnapshot;
+    }
+
+    return {
+      follower_count: lead.follower_count,
+      following_count: lead.following_count,
+      post_count: lead.post_count,
+      bio: currentBio,
+      is_private: lead.is_private,
+      is_verified: lead.is_verified,
+      captured_at: lead.last_analyzed_at || new Date().toISOString()
+    };
+  }
+
+  private toCachedProfile(username: string, snapshot: WatchProfileSnapshot): CachedProfile {
+    return {
+      username,
+      display_name: username,
+      follower_count: snapshot.follower_count,
+      following_count: snapshot.following_count,
+      post_count: snapshot.post_count,
+      bio: snapshot.bio,
+      external_url: null,
+      profile_pic_url: '',
+      is_verified: snapshot.is_verified,
+      is_private: snapshot.is_private,
+      is_business_account: false,
+      latest_posts: [],
+      cached_at: snapshot.captured_at,
+      scraper_used: 'apify',
+      data_quality: 'high'
+    };
+  }
+
+  private async getLatestCompletedScore(leadId: string): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from('lead_analyses')
+      .select('overall_score')
+      .eq('lead_id', leadId)
+      .eq('status', 'complete')
+      .is('deleted_at', null)
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.overall_score ?? null;
+  }
+
+  private async recordRun(
+    watch: LeadWatch,
+    leadId: string,
+    run: Partial<LeadWatchRun> & { status: WatchRunStatus }
+  ): Promise<Pick<LeadWatchRun, 'status' | 'error'>> {
+    const isFinal = run.status !== 'queued';
+
+    const { error } = await this.supabase
+      .from('lead_watch_runs')
+      .insert({
+        watch_id: watch.id,
+        account_id: watch.account_id,
+        lead_id: leadId,
+        status: run.status,
+        run_id: run.run_id ?? null,
+        change_reason: run.change_reason ?? null,
+        change_details: run.change_details ?? null,
+        profile_snapshot: run.profile_snapshot ?? null,
+        previous_score: run.previous_score ?? null,
+        credits_charged: 0,
+        error: run.error ?? null,
+        completed_at: isFinal ? new Date().toISOString() : null
+      });
+
+    if (error) throw error;
+    return { status: run.status, error: run.error ?? null };
+  }
+
+  private async getScraper(platform: LeadPlatform): Promise<ProfileScraper> {
+    let scraper = this.scrapers.get(platform);
+    if (!scraper) {
+      const apifyToken = await getSecret('APIFY_API_TOKEN', this.env, this.env.APP_ENV);
+      scraper = createProfileScraper(this.env, platform, apifyToken);
+      this.scrapers.set(platform, scraper);
+    }
+    return scraper;
+  }
+
+  // ===============================================================================
+  // SETTLEMENT
+  // ===============================================================================
+
+  /**
+   * Record new score + delta for re-analyses whose workflow has finished
+   */
+  private async settleQueuedRuns(): Promise<number> {
+    const { data: runs, error } = await this.supabase
+      .from('lead_watch_runs')
+      .select('id, run_id, previous_score, created_at')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(200);
+
+    if (error) throw error;
+    if (!runs || runs.length === 0) return 0;
+
+    const runIds = runs.map((run: { run_id: string }) => run.run_id);
+    const { data: analyses, error: analysesError } = await this.supabase
+      .from('lead_analyses')
+      .select('run_id, status, analysis_type, overall_score, error_message')
+      .in('run_id', runIds);
+
+    if (analysesError) throw analysesError;
+
+    const byRunId = new Map((analyses || []).map((a: any) => [a.run_id, a]));
+    let settled = 0;
+
+    for (const run of runs) {
+      const analysis = byRunId.get(run.run_id);
+      const expired = Date.now() - Date.parse(run.created_at) > WATCH_RUN_SETTLE_TIMEOUT_MS;
+      let update: Partial<LeadWatchRun> | null = null;
+
+      if (analysis?.status === 'complete') {
+        const bypassed = analysis.analysis_type === 'private' || analysis.analysis_type === 'not_found';
+        update = bypassed
+          ? { status: 'skipped', error: `Profile ${analysis.analysis_type}` }
+          : {
+              status: 'complete',
+              new_score: analysis.overall_score,
+              score_delta: run.previous_score !== null ? analysis.overall_score - run.previous_score : null,
+              credits_charged: getCreditCost(analysis.analysis_type)
+            };
+      } else if (analysis?.status === 'failed' || analysis?.status === 'cancelled') {
+        update = { status: 'failed', error: analysis.error_message || `Analysis ${analysis.status}` };
+      } else if (expired) {
+        update = { status: 'failed', error: 'Re-analysis did not finish' };
+      }
+
+      if (!update) continue;
+
+      const { error: updateError } = await this.supabase
+        .from('lead_watch_runs')
+        .update({ ...update, completed_at: new Date().toISOString() })
+        .eq('id', run.id)
+        .eq('status', 'queued');
+
+      if (updateError) {
+        logger.error('Failed to settle lead watch run', { runId: run.run_id, error: updateError.message });
+        continue;
+      }
+      settled++;
+    }
+
+    return settled;
+  }
+}
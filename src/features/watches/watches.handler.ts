@@ -0,0 +1,148 @@
+// features/watches/watches.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { WatchesService } from './watches.service';
+import {
+  CreateWatchSchema,
+  UpdateWatchSchema,
+  ListWatchesQuerySchema,
+  WatchParamsSchema,
+  GetWatchRunsQuerySchema
+} from './watches.types';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, createdResponse, noContentResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/watches
+ * Watch a lead or a saved lead filter for scheduled re-analysis
+ */
+export async function createWatch(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateWatchSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WatchesService(supabase);
+    const watch = await service.createWatch(accountId, auth.userId, input);
+
+    logger.info('Lead watch created', {
+      watchId: watch.id,
+      accountId,
+      leadId: watch.lead_id,
+      cadence: watch.cadence
+    });
+
+    return createdResponse(c, watch);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to create watch', { accountId });
+  }
+}
+
+/**
+ * GET /api/watches
+ * List watches for account
+ */
+export async function listWatches(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(ListWatchesQuerySchema, {
+      businessProfileId: c.req.query('businessProfileId'),
+      leadId: c.req.query('leadId'),
+      status: c.req.query('status')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WatchesService(supabase);
+    const watches = await service.listWatches(accountId, query);
+
+    return successResponse(c, watches);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list watches', { accountId });
+  }
+}
+
+/**
+ * PATCH /api/watches/:watchId
+ * Change cadence/analysis type or pause/resume
+ */
+export async function updateWatch(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const watchId = c.req.param('watchId');
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(UpdateWatchSchema, { ...body, watchId });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WatchesService(supabase);
+    const watch = await service.updateWatch(accountId, input);
+
+    return successResponse(c, watch);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to update watch', { accountId, watchId });
+  }
+}
+
+/**
+ * DELETE /api/watches/:watchId
+ * Stop watching (run history is kept)
+ */
+export async function deleteWatch(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { watchId } = validateQuery(WatchParamsSchema, { watchId: c.req.param('watchId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WatchesService(supabase);
+    await service.deleteWatch(accountId, watchId);
+
+    logger.info('Lead watch deleted', { watchId, accountId });
+
+    return noContentResponse(c);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to delete watch', { accountId });
+  }
+}
+
+/**
+ * GET /api/watches/:watchId/runs
+ * Check history with detected changes and score deltas
+ */
+export async function getWatchRuns(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(GetWatchRunsQuerySchema, {
+      watchId: c.req.param('watchId'),
+      leadId: c.req.query('leadId'),
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WatchesService(supabase);
+    const runs = await service.getWatchRuns(accountId, query);
+
+    return successResponse(c, runs);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get watch runs', { accountId });
+  }
+}
@@ -0,0 +1,64 @@
+// features/watches/watches.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  createWatch,
+  listWatches,
+  updateWatch,
+  deleteWatch,
+  getWatchRuns
+} from './watches.handler';
+
+/**
+ * LEAD WATCH ROUTES
+ *
+ * Scheduled re-analysis subscriptions. The hourly watch cron checks due
+ * watches, re-analyzes leads whose profile changed and records score deltas.
+ */
+export function registerWatchRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All watch routes require authentication
+  app.use('/api/watches', authMiddleware);
+  app.use('/api/watches/*', authMiddleware);
+
+  // Apply general API rate limiting
+  app.use('/api/watches', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/watches/*', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+
+  /**
+   * POST /api/watches
+   * Watch a lead or saved filter
+   * Body: { businessProfileId, leadId?: uuid, filter?: { ...lead list filters }, cadence: 'weekly'|'monthly', analysisType?: 'light'|'deep' }
+   */
+  app.post('/api/watches', createWatch);
+
+  /**
+   * GET /api/watches
+   * List watches
+   * Query params: ?businessProfileId=uuid&leadId=uuid&status=active
+   */
+  app.get('/api/watches', listWatches);
+
+  /**
+   * PATCH /api/watches/:watchId
+   * Body: { cadence?, analysisType?, status?: 'active'|'paused' }
+   */
+  app.patch('/api/watches/:watchId', updateWatch);
+
+  /**
+   * DELETE /api/watches/:watchId
+   * Stop watching
+   */
+  app.delete('/api/watches/:watchId', deleteWatch);
+
+  /**
+   * GET /api/watches/:watchId/runs
+   * Check history with score deltas
+   * Query params: ?leadId=uuid&limit=50
+   */
+  app.get('/api/watches/:watchId/runs', getWatchRuns);
+}
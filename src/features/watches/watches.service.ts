@@ -0,0 +1,224 @@
+// features/watches/watches.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  LeadWatch,
+  LeadWatchRun,
+  CreateWatchInput,
+  UpdateWatchInput,
+  ListWatchesQuery,
+  GetWatchRunsQuery,
+  WatchCadence
+} from './watches.types';
+import { WATCH_CADENCE_DAYS } from './watches.types';
+import { AppError } from '@/shared/middleware/error.middleware';
+
+/**
+ * Next check time for a cadence, counted from `from`
+ */
+export function getNextWatchRunAt(cadence: WatchCadence, from: Date = new Date()): string {
+  return new Date(from.getTime() + WATCH_CADENCE_DAYS[cadence] * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export class WatchesService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Create a lead or saved-filter watch
+   * The first check runs on the next cron tick
+   */
+  async createWatch(accountId: string, userId: string, input: CreateWatchInput): Promise<LeadWatch> {
+    if (input.leadId) {
+      const { data: lead, error: leadError } = await this.supabase
+        .from('leads')
+        .select('id, business_profile_id')
+        .eq('id', input.leadId)
+        .eq('account_id', accountId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (leadError) throw leadError;
+      if (!lead || lead.business_profile_id !== input.businessProfileId) {
+        throw new AppError('Lead not found', 404, 'NOT_FOUND');
+      }
+
+      // One watch per lead; change cadence via PATCH instead
+      const { data: existing, error: existingError } = await this.supabase
+        .from('lead_watches')
+        .select('id')
+        .eq('account_id', accountId)
+        .eq('lead_id', input.leadId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) {
+        throw new AppError('Lead is already watched', 409, 'WATCH_EXISTS', { watchId: existing.id });
+      }
+    } else {
+      // Filter watches resolve leads by business profile, so it must be the account's own
+      await this.verifyBusiness(accountId, input.businessProfileId);
+    }
+
+    const { data, error } = await this.supabase
+      .from('lead_watches')
+      .insert({
+        account_id: accountId,
+        business_profile_id: input.businessProfileId,
+        lead_id: input.leadId ?? null,
+        filter: input.filter ?? null,
+        cadence: input.cadence,
+        analysis_type: input.analysisType,
+        status: 'active',
+        next_run_at: new Date().toISOString(),
+        created_by: userId
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as LeadWatch;
+  }
+
+  private async verifyBusiness(accountId: string, businessProfileId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('business_profiles')
+      .select('id')
+      .eq('id', businessProfileId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Business profile not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * List watches for account
+   */
+  async listWatches(accountId: string, query: ListWatchesQuery): Promise<LeadWatch[]> {
+    let dbQuery = this.supabase
+      .from('lead_watches')
+      .select('*')
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (query.businessProfileId) {
+      dbQuery = dbQuery.eq('business_profile_id', query.businessProfileId);
+    }
+    if (query.leadId) {
+      dbQuery = dbQuery.eq('lead_id', query.leadId);
+    }
+    if (query.status) {
+      dbQuery = dbQuery.eq('status', query.status);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []) as LeadWatch[];
+  }
+
+  /**
+   * Get single watch (null if not found or not owned by account)
+   */
+  async getWatch(accountId: string, watchId: string): Promise<LeadWatch | null> {
+    const { data, error } = await this.supabase
+      .from('lead_watches')
+      .select('*')
+      .eq('id', watchId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as LeadWatch | null;
+  }
+
+  /**
+   * Update cadence, analysis type or pause/resume
+   * Changing cadence reschedules from the last check
+   */
+  async updateWatch(accountId: string, input: UpdateWatchInput): Promise<LeadWatch> {
+    const watch = await this.getWatch(accountId, input.watchId);
+    if (!watch) {
+      throw new AppError('Watch not found', 404, 'NOT_FOUND');
+    }
+
+    const updates: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (input.analysisType) {
+      updates.analysis_type = input.analysisType;
+    }
+    if (input.status) {
+      updates.status = input.status;
+    }
+    if (input.cadence && input.cadence !== watch.cadence) {
+      updates.cadence = input.cadence;
+      updates.next_run_at = watch.last_run_at
+        ? getNextWatchRunAt(input.cadence, new Date(watch.last_run_at))
+        : new Date().toISOString();
+    }
+
+    const { data, error } = await this.supabase
+      .from('lead_watches')
+      .update(updates)
+      .eq('id', watch.id)
+      .eq('account_id', accountId)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as LeadWatch;
+  }
+
+  /**
+   * Soft delete watch (run history is kept)
+   */
+  async deleteWatch(accountId: string, watchId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('lead_watches')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', watchId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new AppError('Watch not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Check history with score deltas, newest first
+   */
+  async getWatchRuns(accountId: string, query: GetWatchRunsQuery): Promise<LeadWatchRun[]> {
+    const watch = await this.getWatch(accountId, query.watchId);
+    if (!watch) {
+      throw new AppError('Watch not found', 404, 'NOT_FOUND');
+    }
+
+    let dbQuery = this.supabase
+      .from('lead_watch_runs')
+      .select('*')
+      .eq('watch_id', watch.id)
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (query.leadId) {
+      dbQuery = dbQuery.eq('lead_id', query.leadId);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []) as LeadWatchRun[];
+  }
+}
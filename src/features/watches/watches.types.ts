@@ -0,0 +1,154 @@
+// features/watches/watches.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import { LeadListQueryFieldsSchema, checkLeadFilterRanges } from '@/features/leads/leads.types';
+
+// ===============================================================================
+// CADENCES
+// ===============================================================================
+
+export const WATCH_CADENCES = ['weekly', 'monthly'] as const;
+
+export type WatchCadence = typeof WATCH_CADENCES[number];
+
+/** Days between checks for each cadence */
+export const WATCH_CADENCE_DAYS: Record<WatchCadence, number> = {
+  weekly: 7,
+  monthly: 30
+};
+
+/**
+ * Per-run outcome of a watch check:
+ * - unchanged: profile didn't change enough to re-analyze (no credits charged)
+ * - queued: change detected, AnalysisWorkflow started
+ * - complete: re-analysis finished, score delta recorded
+ * - failed: scrape or re-analysis failed (workflow refunds credits)
+ * - skipped: not checked (analysis already running, insufficient balance, lead deleted)
+ */
+export const WATCH_RUN_STATUSES = ['unchanged', 'queued', 'complete', 'failed', 'skipped'] as const;
+
+export type WatchRunStatus = typeof WATCH_RUN_STATUSES[number];
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+/**
+ * Saved filter watches reuse the lead list filters
+ * Sorting/pagination/aggregates don't apply to matching
+ */
+export const WatchFilterSchema = LeadListQueryFieldsSchema
+  .omit({
+    businessProfileId: true,
+    page: true,
+    pageSize: true,
+    sortBy: true,
+    sortOrder: true,
+    includeStageCounts: true,
+    includeFacets: true
+  })
+  .strict()
+  .superRefine(checkLeadFilterRanges);
+
+export const CreateWatchSchema = z.object({
+  businessProfileId: CommonSchemas.uuid,
+  leadId: CommonSchemas.uuid.optional(),
+  filter: WatchFilterSchema.optional(),
+  cadence: z.enum(WATCH_CADENCES),
+  analysisType: z.enum(['light', 'deep']).default('light')
+}).refine(data => (data.leadId === undefined) !== (data.filter === undefined), {
+  message: 'Provide exactly one of leadId or filter'
+});
+
+export const UpdateWatchSchema = z.object({
+  watchId: CommonSchemas.uuid,
+  cadence: z.enum(WATCH_CADENCES).optional(),
+  analysisType: z.enum(['light', 'deep']).optional(),
+  status: z.enum(['active', 'paused']).optional()
+});
+
+export const ListWatchesQuerySchema = z.object({
+  businessProfileId: CommonSchemas.uuid.optional(),
+  leadId: CommonSchemas.uuid.optional(),
+  status: z.enum(['active', 'paused']).optional()
+});
+
+export const WatchParamsSchema = z.object({
+  watchId: CommonSchemas.uuid
+});
+
+export const GetWatchRunsQuerySchema = z.object({
+  watchId: CommonSchemas.uuid,
+  leadId: CommonSchemas.uuid.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+export type WatchFilter = z.infer<typeof WatchFilterSchema>;
+
+export interface LeadWatch {
+  id: string;
+  account_id: string;
+  business_profile_id: string;
+  /** Set for single-lead watches */
+  lead_id: string | null;
+  /** Set for saved-filter watches */
+  filter: WatchFilter | null;
+  cadence: WatchCadence;
+  analysis_type: 'light' | 'deep';
+  status: 'active' | 'paused';
+  /** Start of the next (or current, for filter watches mid-cycle) check cycle */
+  next_run_at: string;
+  last_run_at: string | null;
+  last_error: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Profile fields compared between checks (stored with each run so the next
+ * cycle has a baseline even after the 24h R2 cache has expired)
+ */
+export interface WatchProfileSnapshot {
+  follower_count: number;
+  following_count: number;
+  post_count: number;
+  bio: string;
+  is_private: boolean;
+  is_verified: boolean;
+  captured_at: string;
+}
+
+export interface LeadWatchRun {
+  id: string;
+  watch_id: string;
+  account_id: string;
+  lead_id: string;
+  status: WatchRunStatus;
+  /** AnalysisWorkflow run started by this check (queued/complete/failed) */
+  run_id: string | null;
+  change_reason: string | null;
+  change_details: string | null;
+  profile_snapshot: WatchProfileSnapshot | null;
+  previous_score: number | null;
+  new_score: number | null;
+  score_delta: number | null;
+  credits_charged: number;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// ===============================================================================
+// INFERRED TYPES
+// ===============================================================================
+
+export type CreateWatchInput = z.infer<typeof CreateWatchSchema>;
+export type UpdateWatchInput = z.infer<typeof UpdateWatchSchema>;
+export type ListWatchesQuery = z.infer<typeof ListWatchesQuerySchema>;
+export type GetWatchRunsQuery = z.infer<typeof GetWatchRunsQuerySchema>;
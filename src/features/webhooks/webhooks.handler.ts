@@ -0,0 +1,199 @@
+// features/webhooks/webhooks.handler.ts
+
+import type { Context } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookSchema,
+  UpdateWebhookSchema,
+  WebhookParamsSchema,
+  GetWebhookDeliveriesQuerySchema,
+  RedeliverWebhookParamsSchema
+} from './webhooks.types';
+import { WebhookDispatcher } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { validateQuery, validateBody } from '@/shared/utils/validation.util';
+import { successResponse, createdResponse, noContentResponse } from '@/shared/utils/response.util';
+import { getAuthContext } from '@/shared/middleware/auth.middleware';
+import { handleRouteError } from '@/shared/middleware/error.middleware';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * POST /api/webhooks
+ * Register a webhook endpoint
+ */
+export async function createWebhook(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(CreateWebhookSchema, body);
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const webhook = await service.createWebhook(accountId, auth.userId, input);
+
+    logger.info('Webhook endpoint created', {
+      webhookId: webhook.id,
+      accountId,
+      events: webhook.events
+    });
+
+    return createdResponse(c, webhook);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to create webhook', { accountId });
+  }
+}
+
+/**
+ * GET /api/webhooks
+ * List webhook endpoints for account
+ */
+export async function listWebhooks(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const webhooks = await service.listWebhooks(accountId);
+
+    return successResponse(c, webhooks);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to list webhooks', { accountId });
+  }
+}
+
+/**
+ * PATCH /api/webhooks/:webhookId
+ * Change URL/events or enable/disable
+ */
+export async function updateWebhook(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+  const webhookId = c.req.param('webhookId');
+
+  try {
+    const body = await c.req.json();
+    const input = validateBody(UpdateWebhookSchema, { ...body, webhookId });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const webhook = await service.updateWebhook(accountId, input);
+
+    return successResponse(c, webhook);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to update webhook', { accountId, webhookId });
+  }
+}
+
+/**
+ * POST /api/webhooks/:webhookId/rotate-secret
+ * Issue a new signing secret
+ */
+export async function rotateWebhookSecret(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { webhookId } = validateQuery(WebhookParamsSchema, { webhookId: c.req.param('webhookId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const webhook = await service.rotateSecret(accountId, webhookId);
+
+    logger.info('Webhook secret rotated', { webhookId, accountId });
+
+    return successResponse(c, webhook);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to rotate webhook secret', { accountId });
+  }
+}
+
+/**
+ * DELETE /api/webhooks/:webhookId
+ * Remove endpoint (delivery log is kept)
+ */
+export async function deleteWebhook(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { webhookId } = validateQuery(WebhookParamsSchema, { webhookId: c.req.param('webhookId') });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    await service.deleteWebhook(accountId, webhookId);
+
+    logger.info('Webhook endpoint deleted', { webhookId, accountId });
+
+    return noContentResponse(c);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to delete webhook', { accountId });
+  }
+}
+
+/**
+ * GET /api/webhooks/:webhookId/deliveries
+ * Delivery log, including dead-lettered deliveries
+ */
+export async function getWebhookDeliveries(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const query = validateQuery(GetWebhookDeliveriesQuerySchema, {
+      webhookId: c.req.param('webhookId'),
+      status: c.req.query('status'),
+      limit: c.req.query('limit')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const deliveries = await service.getDeliveries(accountId, query);
+
+    return successResponse(c, deliveries);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to get webhook deliveries', { accountId });
+  }
+}
+
+/**
+ * POST /api/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+ * Queue a dead-lettered delivery again
+ */
+export async function redeliverWebhook(c: Context<{ Bindings: Env }>) {
+  const auth = getAuthContext(c);
+  const accountId = auth.accountId;
+
+  try {
+    const { webhookId, deliveryId } = validateQuery(RedeliverWebhookParamsSchema, {
+      webhookId: c.req.param('webhookId'),
+      deliveryId: c.req.param('deliveryId')
+    });
+
+    const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+    const service = new WebhooksService(supabase);
+    const delivery = await service.getRedeliverableDelivery(accountId, webhookId, deliveryId);
+
+    const dispatcher = new WebhookDispatcher(c.env);
+    await dispatcher.redeliver(delivery);
+
+    logger.info('Webhook delivery requeued', { webhookId, deliveryId, accountId });
+
+    return c.json({
+      success: true,
+      data: { delivery_id: delivery.id, status: 'pending' }
+    }, 202);
+
+  } catch (error) {
+    return handleRouteError(c, error, 'Failed to redeliver webhook', { accountId });
+  }
+}
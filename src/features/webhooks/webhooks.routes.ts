@@ -0,0 +1,80 @@
+// features/webhooks/webhooks.routes.ts
+
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { authMiddleware } from '@/shared/middleware/auth.middleware';
+import { rateLimitMiddleware } from '@/shared/middleware/rate-limit.middleware';
+import { API_RATE_LIMITS } from '@/config/rate-limits.config';
+import {
+  createWebhook,
+  listWebhooks,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  getWebhookDeliveries,
+  redeliverWebhook
+} from './webhooks.handler';
+
+/**
+ * WEBHOOK ROUTES
+ *
+ * Outbound webhook endpoints per account. Events are signed with the
+ * endpoint secret (X-Oslira-Signature) and delivered via the webhook queue.
+ *
+ * Events: analysis.completed, analysis.failed, lead.hot_detected,
+ * batch.completed, credits.low
+ */
+export function registerWebhookRoutes(app: Hono<{ Bindings: Env }>) {
+
+  // All webhook routes require authentication
+  app.use('/api/webhooks', authMiddleware);
+  app.use('/api/webhooks/*', authMiddleware);
+
+  // Apply general API rate limiting
+  app.use('/api/webhooks', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+  app.use('/api/webhooks/*', rateLimitMiddleware(API_RATE_LIMITS.GENERAL));
+
+  /**
+   * POST /api/webhooks
+   * Register endpoint; response includes the signing secret (shown once)
+   * Body: { url: 'https://...', events: ['analysis.completed', ...], description?: string }
+   */
+  app.post('/api/webhooks', createWebhook);
+
+  /**
+   * GET /api/webhooks
+   * List endpoints (secrets omitted)
+   */
+  app.get('/api/webhooks', listWebhooks);
+
+  /**
+   * PATCH /api/webhooks/:webhookId
+   * Body: { url?, events?, description?, status?: 'active'|'disabled' }
+   */
+  app.patch('/api/webhooks/:webhookId', updateWebhook);
+
+  /**
+   * POST /api/webhooks/:webhookId/rotate-secret
+   * Issue a new signing secret (shown once)
+   */
+  app.post('/api/webhooks/:webhookId/rotate-secret', rotateWebhookSecret);
+
+  /**
+   * DELETE /api/webhooks/:webhookId
+   * Remove endpoint
+   */
+  app.delete('/api/webhooks/:webhookId', deleteWebhook);
+
+  /**
+   * GET /api/webhooks/:webhookId/deliveries
+   * Delivery log; ?status=dead_lettered for deliveries that exhausted retries
+   * Query params: ?status=delivered&limit=50
+   */
+  app.get('/api/webhooks/:webhookId/deliveries', getWebhookDeliveries);
+
+  /**
+   * POST /api/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+   * Requeue a dead-lettered delivery
+   */
+  app.post('/api/webhooks/:webhookId/deliveries/:deliveryId/redeliver', redeliverWebhook);
+}
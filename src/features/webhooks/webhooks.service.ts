@@ -0,0 +1,228 @@
+// features/webhooks/webhooks.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDelivery } from '@/shared/types/webhook.types';
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  GetWebhookDeliveriesQuery,
+  WebhookEndpointResponse,
+  WebhookEndpointWithSecret
+} from './webhooks.types';
+import { MAX_WEBHOOK_ENDPOINTS } from './webhooks.types';
+import { generateWebhookSecret } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { AppError } from '@/shared/middleware/error.middleware';
+
+/** Endpoint columns safe to return (everything except the secret) */
+const ENDPOINT_COLUMNS = 'id, account_id, url, description, events, status, created_by, created_at, updated_at';
+
+export class WebhooksService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Register an endpoint; the signing secret is returned only here and on rotate
+   */
+  async createWebhook(
+    accountId: string,
+    userId: string,
+    input: CreateWebhookInput
+  ): Promise<WebhookEndpointWithSecret> {
+    const { count, error: countError } = await this.supabase
+      .from('webhook_endpoints')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', accountId)
+      .is('deleted_at', null);
+
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
+      throw new AppError(
+        `Accounts can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`,
+        409,
+        'WEBHOOK_LIMIT_REACHED'
+      );
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .insert({
+        account_id: accountId,
+        url: input.url,
+        description: input.description ?? null,
+        events: [...new Set(input.events)],
+        secret,
+        status: 'active',
+        created_by: userId
+      })
+      .select(ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { ...(data as WebhookEndpointResponse), secret };
+  }
+
+  /**
+   * List endpoints for account (without secrets)
+   */
+  async listWebhooks(accountId: string): Promise<WebhookEndpointResponse[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select(ENDPOINT_COLUMNS)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as WebhookEndpointResponse[];
+  }
+
+  /**
+   * Change URL, subscribed events or enable/disable
+   */
+  async updateWebhook(accountId: string, input: UpdateWebhookInput): Promise<WebhookEndpointResponse> {
+    const updates: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (input.url) {
+      updates.url = input.url;
+    }
+    if (input.events) {
+      updates.events = [...new Set(input.events)];
+    }
+    if (input.description !== undefined) {
+      updates.description = input.description;
+    }
+    if (input.status) {
+      updates.status = input.status;
+    }
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update(updates)
+      .eq('id', input.webhookId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .select(ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Webhook not found', 404, 'NOT_FOUND');
+    }
+
+    return data as WebhookEndpointResponse;
+  }
+
+  /**
+   * Replace the signing secret; deliveries already queued are signed with the new one
+   */
+  async rotateSecret(accountId: string, webhookId: string): Promise<WebhookEndpointWithSecret> {
+    const secret = generateWebhookSecret();
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update({ secret, updated_at: new Date().toISOString() })
+      .eq('id', webhookId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .select(ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Webhook not found', 404, 'NOT_FOUND');
+    }
+
+    return { ...(data as WebhookEndpointResponse), secret };
+  }
+
+  /**
+   * Soft delete endpoint (pending deliveries are cancelled by the consumer)
+   */
+  async deleteWebhook(accountId: string, webhookId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', webhookId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new AppError('Webhook not found', 404, 'NOT_FOUND');
+    }
+  }
+
+  /**
+   * Delivery log for an endpoint, newest first (filter status=dead_lettered for the dead-letter log)
+   */
+  async getDeliveries(accountId: string, query: GetWebhookDeliveriesQuery): Promise<WebhookDelivery[]> {
+    await this.assertWebhookExists(accountId, query.webhookId);
+
+    let dbQuery = this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', query.webhookId)
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (query.status) {
+      dbQuery = dbQuery.eq('status', query.status);
+    }
+
+    const { data, error } = await dbQuery;
+
+    if (error) throw error;
+    return (data || []) as WebhookDelivery[];
+  }
+
+  /**
+   * Get a dead-lettered delivery that can be sent again
+   */
+  async getRedeliverableDelivery(
+    accountId: string,
+    webhookId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', deliveryId)
+      .eq('endpoint_id', webhookId)
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Delivery not found', 404, 'NOT_FOUND');
+    }
+    if (data.status !== 'dead_lettered') {
+      throw new AppError(
+        `Only dead-lettered deliveries can be redelivered (status: ${data.status})`,
+        409,
+        'INVALID_DELIVERY_STATE'
+      );
+    }
+
+    return data as WebhookDelivery;
+  }
+
+  private async assertWebhookExists(accountId: string, webhookId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('id', webhookId)
+      .eq('account_id', accountId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new AppError('Webhook not found', 404, 'NOT_FOUND');
+    }
+  }
+}
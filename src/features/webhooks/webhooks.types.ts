@@ -0,0 +1,77 @@
+// features/webhooks/webhooks.types.ts
+
+import { z } from 'zod';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+import { isPrivateNetworkUrl } from '@/shared/utils/url.util';
+import { WEBHOOK_EVENTS } from '@/shared/types/webhook.types';
+import type { WebhookEndpoint } from '@/shared/types/webhook.types';
+
+// ===============================================================================
+// LIMITS
+// ===============================================================================
+
+/** Maximum active + disabled endpoints per account */
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+// ===============================================================================
+// REQUEST SCHEMAS
+// ===============================================================================
+
+const WebhookUrlSchema = z.string()
+  .url()
+  .max(2048)
+  .refine(url => url.startsWith('https://'), { message: 'Webhook URL must use https' })
+  .refine(url => !isPrivateNetworkUrl(url), { message: 'Webhook URL must point to a public host' });
+
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().trim().max(200).optional()
+});
+
+export const UpdateWebhookSchema = z.object({
+  webhookId: CommonSchemas.uuid,
+  url: WebhookUrlSchema.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  status: z.enum(['active', 'disabled']).optional()
+});
+
+export const WebhookParamsSchema = z.object({
+  webhookId: CommonSchemas.uuid
+});
+
+export const GetWebhookDeliveriesQuerySchema = z.object({
+  webhookId: CommonSchemas.uuid,
+  status: z.enum(['pending', 'retrying', 'delivered', 'dead_lettered', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export const RedeliverWebhookParamsSchema = z.object({
+  webhookId: CommonSchemas.uuid,
+  deliveryId: CommonSchemas.uuid
+});
+
+// ===============================================================================
+// RESPONSE TYPES
+// ===============================================================================
+
+/**
+ * Endpoint as returned by list/update (secret is only shown on create/rotate)
+ */
+export type WebhookEndpointResponse = Omit<WebhookEndpoint, 'secret' | 'deleted_at'>;
+
+/**
+ * Endpoint with its signing secret (create + rotate-secret only)
+ */
+export interface WebhookEndpointWithSecret extends WebhookEndpointResponse {
+  secret: string;
+}
+
+// ===============================================================================
+// TYPE EXPORTS
+// ===============================================================================
+
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
+export type GetWebhookDeliveriesQuery = z.infer<typeof GetWebhookDeliveriesQuerySchema>;
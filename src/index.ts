@@ -11,12 +11,27 @@ import { registerBulkAnalysisRoutes } from './features/analysis/bulk-analysis.ro
 import { registerProfileRefreshRoutes } from './features/leads/profile-refresh.routes';
 import { registerOnboardingRoutes } from './features/onboarding/onboarding.routes';
 import { registerBillingRoutes } from './features/billing/billing.routes';
+import { registerWatchRoutes } from './features/watches/watches.routes';
+import { registerWebhookRoutes } from './features/webhooks/webhooks.routes';
+import { registerApiKeyRoutes } from './features/api-keys/api-keys.routes';
+import { registerTeamRoutes } from './features/team/team.routes';
+import { registerOutreachRoutes } from './features/outreach/outreach.routes';
+import { registerRescoreRoutes } from './features/rescore/rescore.routes';
+import { registerDiscoveryRoutes } from './features/discovery/discovery.routes';
+import { registerSourcingRoutes } from './features/sourcing/sourcing.routes';
+import { registerReconciliationRoutes } from './features/reconciliation/reconciliation.routes';
+import { registerAdminRoutes } from './features/admin/admin.routes';
 import { handleStripeWebhookQueue } from './infrastructure/queues/stripe-webhook.consumer';
 import { handleBusinessContextQueue } from './infrastructure/queues/business-context.consumer';
+import { handleBulkAnalysisQueue } from './infrastructure/queues/bulk-analysis.consumer';
+import { handleWebhookDeliveryQueue } from './infrastructure/queues/webhook-delivery.consumer';
+import { handleRescoreQueue } from './infrastructure/queues/rescore.consumer';
+import { handleSourcingQueue } from './infrastructure/queues/sourcing.consumer';
 import AnalysisWorkflow from './infrastructure/workflows/analysis.workflow';
 import BusinessContextWorkflow from './infrastructure/workflows/business-context.workflow';
 import { GlobalBroadcasterDO } from './infrastructure/durable-objects/global-broadcaster.do';
 import { BusinessContextProgressDO } from './infrastructure/durable-objects/business-context-progress.do';
+import { BulkBatchDO } from './infrastructure/durable-objects/bulk-batch.do';
 import { executeCronJob } from './infrastructure/cron/cron-jobs.handler';
 import { getSentryService } from './infrastructure/monitoring/sentry.service';
 import { errorHandler } from './shared/middleware/error.middleware';
@@ -99,7 +114,10 @@ app.get('/health', async (c) => {
       },
       queues: {
         stripe_webhooks: !!c.env.STRIPE_WEBHOOK_QUEUE,
-        business_context: !!c.env.BUSINESS_CONTEXT_QUEUE
+        business_context: !!c.env.BUSINESS_CONTEXT_QUEUE,
+        webhook_deliveries: !!c.env.WEBHOOK_DELIVERY_QUEUE,
+        rescore: !!c.env.RESCORE_QUEUE,
+        sourcing: !!c.env.SOURCING_QUEUE
       }
     }
   });
@@ -115,6 +133,16 @@ registerBulkAnalysisRoutes(app);
 registerProfileRefreshRoutes(app);
 registerOnboardingRoutes(app);
 registerBillingRoutes(app);
+registerWatchRoutes(app);
+registerWebhookRoutes(app);
+registerApiKeyRoutes(app);
+registerTeamRoutes(app);
+registerOutreachRoutes(app);
+registerRescoreRoutes(app);
+registerDiscoveryRoutes(app);
+registerSourcingRoutes(app);
+registerReconciliationRoutes(app);
+registerAdminRoutes(app);
 
 /** Global error handler */
 app.onError(async (err, c) => {
@@ -197,6 +225,14 @@ export default {
       await handleStripeWebhookQueue(batch, env);
     } else if (batch.queue === 'business-context-jobs' || batch.queue === 'business-context-jobs-staging') {
       await handleBusinessContextQueue(batch, env);
+    } else if (batch.queue === 'bulk-analysis-jobs' || batch.queue === 'bulk-analysis-jobs-staging') {
+      await handleBulkAnalysisQueue(batch, env);
+    } else if (batch.queue === 'webhook-deliveries' || batch.queue === 'webhook-deliveries-staging') {
+      await handleWebhookDeliveryQueue(batch, env);
+    } else if (batch.queue === 'rescore-jobs' || batch.queue === 'rescore-jobs-staging') {
+      await handleRescoreQueue(batch, env);
+    } else if (batch.queue === 'sourcing-jobs' || batch.queue === 'sourcing-jobs-staging') {
+      await handleSourcingQueue(batch, env);
     }
   }
 };
@@ -205,3 +241,4 @@ export { AnalysisWorkflow };
 export { BusinessContextWorkflow };
 export { GlobalBroadcasterDO };
 export { BusinessContextProgressDO };
+export { BulkBatchDO };
@@ -0,0 +1,308 @@
+// infrastructure/ai/outreach-generator.service.ts
+
+/**
+ * OUTREACH GENERATOR SERVICE
+ *
+ * Turns a completed lead analysis into ready-to-send outreach drafts.
+ *
+ * Process:
+ * 1. Receive lead insights (strengths, opportunities, recommendedActions)
+ *    + TextDataForAI (bio, captions, hashtags) + business voice
+ * 2. Build prompt that requires concrete bio/post references
+ * 3. Call GPT-5 mini via AI Gateway with structured output
+ * 4. Return one opener / follow-up / breakup sequence per channel
+ */
+
+import type { Env } from '@/shared/types/env.types';
+import type { TextDataForAI } from '@/infrastructure/extraction/extraction.types';
+import { AIGatewayClient } from './ai-gateway.client';
+import { OUTREACH_CONFIG } from '@/config/operations-pricing.config';
+import { logger } from '@/shared/utils/logger.util';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const OUTREACH_CHANNELS = ['instagram_dm', 'email'] as const;
+export type OutreachChannel = typeof OUTREACH_CHANNELS[number];
+
+export const OUTREACH_STAGES = ['opener', 'follow_up', 'breakup'] as const;
+export type OutreachStage = typeof OUTREACH_STAGES[number];
+
+export interface OutreachDraft {
+  channel: OutreachChannel;
+  stage: OutreachStage;
+  /** Email subject line (null for DMs) */
+  subject: string | null;
+  body: string;
+  /** Bio/post details the draft references, for the user to double-check */
+  personalization: string[];
+}
+
+export interface OutreachBusinessVoice {
+  businessName: string;
+  signatureName: string;
+  communicationTone: string;
+  valueProposition: string;
+  targetAudience: string;
+}
+
+export interface OutreachLeadInsights {
+  username: string;
+  displayName: string | null;
+  leadTier: string | null;
+  strengths: string[];
+  opportunities: string[];
+  recommendedActions: string[];
+  fitReasoning: string | null;
+}
+
+export interface OutreachGenerationInput {
+  business: OutreachBusinessVoice;
+  lead: OutreachLeadInsights;
+  textData: TextDataForAI;
+  channels: OutreachChannel[];
+}
+
+export interface OutreachGenerationResult {
+  success: true;
+  drafts: OutreachDraft[];
+  model: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_cost: number;
+  };
+}
+
+export interface OutreachGenerationError {
+  success: false;
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export type OutreachGenerationOutput = OutreachGenerationResult | OutreachGenerationError;
+
+// ============================================================================
+// TOOL SCHEMA FOR STRUCTURED OUTPUT
+// ============================================================================
+
+const OUTREACH_TOOL_SCHEMA = {
+  name: 'submit_outreach_drafts',
+  description: 'Submit personalized outreach drafts: one opener, follow-up and breakup message per requested channel.',
+  parameters: {
+    type: 'object',
+    properties: {
+      drafts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            channel: { type: 'string', enum: [...OUTREACH_CHANNELS] },
+            stage: { type: 'string', enum: [...OUTREACH_STAGES] },
+            subject: {
+              type: 'string',
+              description: 'Email subject line; empty string for Instagram DMs'
+            },
+            body: { type: 'string', description: 'Message text, signed with the sender name' },
+            personalization: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The specific bio/post details this message references (1-3 items)'
+            }
+          },
+          required: ['channel', 'stage', 'subject', 'body', 'personalization'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['drafts'],
+    additionalProperties: false
+  }
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * Generate an outreach sequence for each requested channel
+ */
+export async function generateOutreachDrafts(
+  input: OutreachGenerationInput,
+  env: Env,
+  openaiKey: string,
+  claudeKey: string,
+  aiGatewayToken: string
+): Promise<OutreachGenerationOutput> {
+  const startTime = Date.now();
+
+  try {
+    const aiClient = new AIGatewayClient(env, openaiKey, claudeKey, aiGatewayToken);
+
+    const response = await aiClient.callStructured({
+      model: OUTREACH_CONFIG.ai_model,
+      system_prompt: buildSystemPrompt(input.business),
+      user_prompt: buildUserPrompt(input),
+      max_tokens: OUTREACH_CONFIG.ai_max_tokens,
+      reasoning_effort: 'low',
+      tool_schema: OUTREACH_TOOL_SCHEMA
+    });
+
+    const drafts = normalizeDrafts(response.content?.drafts, input.channels);
+
+    if (!drafts) {
+      logger.error('[Outreach] Invalid drafts structure', { content: response.content });
+      throw new Error('AI returned an incomplete outreach sequence');
+    }
+
+    logger.info('[Outreach] Drafts generated', {
+      username: input.lead.username,
+      channels: input.channels,
+      tokensIn: response.usage.input_tokens,
+      tokensOut: response.usage.output_tokens,
+      cost: response.usage.total_cost,
+      processingTimeMs: Date.now() - startTime
+    });
+
+    return {
+      success: true,
+      drafts,
+      model: response.model_used,
+      usage: response.usage
+    };
+
+  } catch (error: any) {
+    logger.error('[Outreach] Generation failed', {
+      error: error.message,
+      processingTimeMs: Date.now() - startTime
+    });
+
+    return {
+      success: false,
+      error: {
+        code: 'OUTREACH_GENERATION_FAILED',
+        message: error.message
+      }
+    };
+  }
+}
+
+// ============================================================================
+// PROMPT BUILDERS
+// ============================================================================
+
+function buildSystemPrompt(business: OutreachBusinessVoice): string {
+  return `You write cold outreach for ${business.businessName}, signed by ${business.signatureName}.
+
+## What We Offer
+${business.valueProposition || '(not specified)'}
+
+## Who We Help
+${business.targetAudience || '(not specified)'}
+
+## Voice
+Write in a ${business.communicationTone || 'professional'} tone. Sound like a real person, not a template.
+
+## Sequence (per channel)
+- opener: first touch. Lead with one concrete detail from their bio or a recent post, connect it to one opportunity, end with a low-friction question.
+- follow_up: sent ~3 days later with no reply. Add new value (a different detail or idea); don't repeat the opener.
+- breakup: final, polite close-the-loop message. Short, no guilt, leave the door open.
+
+## Channel Rules
+- instagram_dm: 2-4 short sentences, no subject (use an empty string), no links, no formal sign-off beyond the first name.
+- email: subject line under 8 words, 60-120 word body, sign off with ${business.signatureName}.
+
+## Hard Rules
+1. Every message must reference at least one specific detail from the profile data provided - never invent details.
+2. Never mention follower counts, scores, "analysis" or that the lead was researched by software.
+3. No generic flattery ("love your content!") without a specific reason.
+4. List the referenced details in "personalization".`;
+}
+
+function buildUserPrompt(input: OutreachGenerationInput): string {
+  const { lead, textData } = input;
+
+  const captions = textData.recentCaptions
+    .filter(caption => caption && caption.trim().length > 0)
+    .slice(0, 5)
+    .map((caption, i) => `${i + 1}. "${truncate(caption, 200)}"`)
+    .join('\n');
+
+  return `Write outreach for @${lead.username}${lead.displayName ? ` (${lead.displayName})` : ''}.
+
+## Profile
+### Bio
+${textData.biography || '(No bio)'}
+
+### Recent Captions
+${captions || '(No captions available)'}
+
+### Top Hashtags
+${textData.hashtagFrequency.length > 0 ? textData.hashtagFrequency.slice(0, 8).map(h => `#${h.hashtag}`).join(', ') : '(None)'}
+
+### Frequently Mentioned
+${textData.topMentions.length > 0 ? textData.topMentions.map(m => `@${m.username}`).join(', ') : '(None)'}
+
+${textData.locationNames.length > 0 ? `### Locations\n${[...new Set(textData.locationNames)].slice(0, 3).join(', ')}\n` : ''}
+## Our Analysis of This Lead
+- Tier: ${lead.leadTier ?? 'unknown'}
+- Strengths: ${listOrNone(lead.strengths)}
+- Opportunities to pitch: ${listOrNone(lead.opportunities)}
+- Recommended actions: ${listOrNone(lead.recommendedActions)}
+${lead.fitReasoning ? `- Fit: ${lead.fitReasoning}` : ''}
+
+**Channels**: ${input.channels.join(', ')}
+
+Submit exactly one opener, follow_up and breakup for each channel using the submit_outreach_drafts tool.`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Validate AI output and keep one draft per requested channel + stage
+ * Returns null if any requested stage is missing
+ */
+function normalizeDrafts(raw: unknown, channels: OutreachChannel[]): OutreachDraft[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const drafts: OutreachDraft[] = [];
+
+  for (const channel of channels) {
+    for (const stage of OUTREACH_STAGES) {
+      const match = raw.find((d: any) =>
+        d && d.channel === channel && d.stage === stage &&
+        typeof d.body === 'string' && d.body.trim().length > 0
+      );
+
+      if (!match) return null;
+
+      drafts.push({
+        channel,
+        stage,
+        subject: channel === 'email' && typeof match.subject === 'string' && match.subject.trim()
+          ? match.subject.trim()
+          : null,
+        body: match.body.trim(),
+        personalization: Array.isArray(match.personalization)
+          ? match.personalization.filter((p: unknown): p is string => typeof p === 'string')
+          : []
+      });
+    }
+  }
+
+  return drafts;
+}
+
+function listOrNone(items: string[]): string {
+  return items.length > 0 ? items.join('; ') : '(none)';
+}
+
+function truncate(str: string, maxLength: number): string {
+  if (str.length <= maxLength) return str;
+  return str.substring(0, maxLength - 3) + '...';
+}
@@ -8,6 +8,7 @@ import {
   getAnalysisPromptConfig,
   getAnalysisPostsLimit
 } from '@/config/analysis-types.config';
+import { getPlatformConfig } from '@/config/platforms.config';
 
 /**
  * PROMPT BUILDER SERVICE
@@ -89,8 +90,9 @@ ${communicationTone}
     const avgLikes = this.calculateAvgLikes(profile);
     const avgComments = this.calculateAvgComments(profile);
     const postingFrequency = this.estimatePostingFrequency(profile);
+    const platform = getPlatformConfig(profile.platform);
 
-    return `# INSTAGRAM PROFILE TO ANALYZE
+    return `# ${platform.label.toUpperCase()} PROFILE TO ANALYZE
 
 **Username:** @${profile.username}
 **Display Name:** ${profile.display_name}
@@ -197,9 +199,10 @@ ${caption}
 
     const businessContext = this.buildBusinessContext(business);
     const recentPosts = this.buildRecentPosts(profile, postsLimit, config.captionTruncateLength);
+    const platform = getPlatformConfig(profile.platform);
 
     return {
-      system: `You are an Instagram partnership analyst. Quickly assess if a profile is worth pursuing for business outreach.
+      system: `You are a partnership analyst specializing in ${platform.label}. Quickly assess if a profile is worth pursuing for business outreach.
 
 Your task is simple: Score the profile (0-100) and provide a brief ${config.summarySentences} sentence explanation.
 
@@ -210,7 +213,7 @@ Respond in JSON format:
 }`,
       user: `${businessContext}
 
-# INSTAGRAM PROFILE
+# ${platform.label.toUpperCase()} PROFILE
 **Username:** @${profile.username}
 **Followers:** ${profile.follower_count.toLocaleString()}
 **Following:** ${profile.following_count.toLocaleString()}
@@ -264,9 +267,10 @@ Return JSON only:
     const businessContext = this.buildBusinessContext(business);
     const profileSummary = this.buildProfileSummary(profile);
     const recentPosts = this.buildRecentPosts(profile, postsLimit, config.captionTruncateLength);
+    const platform = getPlatformConfig(profile.platform);
 
     return {
-      system: `You are an expert Instagram prospecting analyst. Provide an in-depth assessment of whether an Instagram profile is a good fit for a business's partnership outreach.
+      system: `You are an expert prospecting analyst specializing in ${platform.label}. Provide an in-depth assessment of whether a ${platform.label} profile is a good fit for a business's partnership outreach.
 
 Your analysis should be thorough and cover:
 - Content alignment with business values
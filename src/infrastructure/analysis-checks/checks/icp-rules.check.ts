@@ -0,0 +1,69 @@
+// infrastructure/analysis-checks/checks/icp-rules.check.ts
+
+/**
+ * ICP RULES CHECK
+ *
+ * Evaluates the business's declarative ICP rules (business account, recent
+ * posting, engagement rate, bio keywords, excluded niches, location,
+ * language) against the scraped profile.
+ *
+ * Rules whose data isn't available report 'unknown' and don't fail the check.
+ *
+ * When triggered:
+ * - Skips AI analysis
+ * - Sets result type to 'icp_violation'
+ * - Refunds the user's balance
+ * - Stores a summary listing every failed rule
+ */
+
+import type {
+  IPreAnalysisCheck,
+  PreAnalysisCheckContext,
+  PreAnalysisCheckResult
+} from '../types';
+import { evaluateICPRules, buildICPRuleSubject } from '../icp-rules.util';
+
+export class ICPRulesCheck implements IPreAnalysisCheck {
+  readonly name = 'icp_rules';
+  readonly priority = 16; // Run right after the follower limit check
+  readonly description = 'Checks the profile against the business ICP rules';
+
+  async run(context: PreAnalysisCheckContext): Promise<PreAnalysisCheckResult> {
+    const { profile, username, icpRules } = context;
+
+    // No profile data or no rules configured: nothing to check
+    if (!profile || !icpRules || icpRules.length === 0) {
+      return {
+        passed: true,
+        checkName: this.name,
+        shouldRefund: false
+      };
+    }
+
+    const evaluation = evaluateICPRules(icpRules, buildICPRuleSubject(profile, {
+      extractedData: context.extractedData,
+      niche: context.niche
+    }));
+
+    if (evaluation.passed) {
+      return {
+        passed: true,
+        checkName: this.name,
+        shouldRefund: false
+      };
+    }
+
+    const reasons = evaluation.failed.map(result => result.reason);
+    console.log(`[PreAnalysisCheck][${this.name}] Profile @${username} failed ICP rules:`, reasons);
+
+    return {
+      passed: false,
+      checkName: this.name,
+      reason: reasons.join('; '),
+      resultType: 'icp_violation',
+      summary: `This account (@${username}) doesn't match your ICP rules: ${reasons.join('; ')}. This profile is outside your target audience and was skipped. Your balance has been refunded.`,
+      score: 0,
+      shouldRefund: true
+    };
+  }
+}
@@ -0,0 +1,220 @@
+// infrastructure/analysis-checks/icp-rules.util.ts
+
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { ExtractedData } from '@/infrastructure/extraction/extraction.types';
+import type { Lead } from '@/infrastructure/database/repositories/leads.repository';
+import type { Analysis } from '@/infrastructure/database/repositories/analysis.repository';
+import { detectLanguage } from '@/shared/utils/language-detect.util';
+import type { ICPRule, ICPRuleResult, ICPRuleEvaluation } from './types';
+
+/**
+ * ICP RULE EVALUATION
+ *
+ * Evaluates a business's declarative ICP rules against what we know about a
+ * profile. The same evaluation runs before analysis (scraped ProfileData),
+ * when re-scoring (stored extraction metrics) and in the rules dry run
+ * (stored leads), so each rule reads from a normalized subject and reports
+ * 'unknown' instead of failing when its data is missing.
+ */
+
+/**
+ * Everything the rules look at; null = not available from this source
+ */
+export interface ICPRuleSubject {
+  isBusinessAccount: boolean | null;
+  bio: string;
+  /** Days since the most recent post (null when posts weren't available) */
+  daysSinceLastPost: number | null;
+  /** Account has no posts at all */
+  hasNoPosts: boolean;
+  /** Decimal (0.044 = 4.4%) */
+  engagementRate: number | null;
+  niche: string | null;
+  /** Post location tags */
+  locations: string[];
+  /** Recent captions (language detection) */
+  captions: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluate every rule (no short-circuit, so callers can report all failures)
+ */
+export function evaluateICPRules(rules: ICPRule[], subject: ICPRuleSubject): ICPRuleEvaluation {
+  const results = rules.map(rule => evaluateRule(rule, subject));
+  const failed = results.filter(result => result.status === 'failed');
+
+  return { passed: failed.length === 0, results, failed };
+}
+
+/**
+ * Subject from a scraped profile, preferring stored extraction metrics when given
+ */
+export function buildICPRuleSubject(
+  profile: ProfileData,
+  options: { extractedData?: ExtractedData | null; niche?: string | null } = {}
+): ICPRuleSubject {
+  const posts = profile.latestPosts ?? [];
+  const extracted = options.extractedData ?? null;
+
+  return {
+    isBusinessAccount: extracted?.static.isBusinessAccount ?? profile.isBusinessAccount,
+    bio: profile.bio ?? '',
+    daysSinceLastPost: extracted ? extracted.static.daysSinceLastPost : getDaysSinceLastPost(profile),
+    hasNoPosts: profile.postsCount === 0,
+    engagementRate: extracted ? extracted.calculated.engagementRate : getEngagementRate(profile),
+    niche: options.niche ?? null,
+    locations: posts.map(post => post.locationName).filter((name): name is string => !!name),
+    captions: posts.map(post => post.caption).filter(caption => !!caption)
+  };
+}
+
+/**
+ * Subject from a stored lead and its latest completed analysis (no scraping)
+ * Captions and post locations aren't stored, so those rules rely on the bio
+ */
+export function buildStoredICPRuleSubject(
+  lead: Pick<Lead, 'is_business_account' | 'post_count'>,
+  analysis: Pick<Analysis, 'niche' | 'profile_snapshot' | 'extracted_data'> | null
+): ICPRuleSubject {
+  const extracted = (analysis?.extracted_data ?? null) as ExtractedData | null;
+  const snapshot = analysis?.profile_snapshot ?? null;
+
+  return {
+    isBusinessAccount: extracted?.static.isBusinessAccount ?? lead.is_business_account,
+    bio: snapshot?.bio ?? '',
+    daysSinceLastPost: extracted?.static.daysSinceLastPost ?? null,
+    // Leads created for a pending analysis have zero counts until it completes
+    hasNoPosts: analysis !== null && (snapshot?.post_count ?? lead.post_count) === 0,
+    engagementRate: extracted?.calculated.engagementRate ?? null,
+    niche: analysis?.niche ?? null,
+    locations: [],
+    captions: []
+  };
+}
+
+// ===============================================================================
+// RULES
+// ===============================================================================
+
+function evaluateRule(rule: ICPRule, subject: ICPRuleSubject): ICPRuleResult {
+  switch (rule.type) {
+    case 'business_account':
+      if (subject.isBusinessAccount === null) {
+        return unknown(rule, 'Account type not available');
+      }
+      return subject.isBusinessAccount
+        ? passed(rule)
+        : failed(rule, 'Not a business or creator account');
+
+    case 'posted_within_days':
+      if (subject.hasNoPosts) {
+        return failed(rule, 'Account has no posts');
+      }
+      if (subject.daysSinceLastPost === null) {
+        return unknown(rule, 'Post dates not available');
+      }
+      return subject.daysSinceLastPost <= rule.days
+        ? passed(rule)
+        : failed(rule, `Last post was ${subject.daysSinceLastPost} days ago (limit ${rule.days})`);
+
+    case 'min_engagement_rate': {
+      if (subject.engagementRate === null) {
+        return unknown(rule, 'Engagement rate not available');
+      }
+      const percent = Math.round(subject.engagementRate * 10000) / 100;
+      return percent >= rule.percent
+        ? passed(rule)
+        : failed(rule, `Engagement rate ${percent}% is below ${rule.percent}%`);
+    }
+
+    case 'bio_keywords': {
+      const found = rule.keywords.filter(keyword => containsWord(subject.bio, keyword));
+      const ok = rule.match === 'all' ? found.length === rule.keywords.length : found.length > 0;
+      return ok
+        ? passed(rule)
+        : failed(rule, `Bio doesn't mention ${rule.match === 'all' ? 'all of' : 'any of'}: ${rule.keywords.join(', ')}`);
+    }
+
+    case 'exclude_niches': {
+      // Before the first analysis there's no detected niche; fall back to the bio
+      const haystack = subject.niche ?? subject.bio;
+      const match = rule.niches.find(niche => containsWord(haystack, niche));
+      if (match) {
+        return failed(rule, subject.niche ? `Niche "${subject.niche}" is excluded` : `Bio matches excluded niche "${match}"`);
+      }
+      return passed(rule);
+    }
+
+    case 'location': {
+      const places = [...subject.locations, subject.bio].map(place => place.toLowerCase());
+      if (subject.locations.length === 0 && !subject.bio) {
+        return unknown(rule, 'No location data');
+      }
+      const match = rule.locations.some(location =>
+        places.some(place => place.includes(location.toLowerCase()))
+      );
+      if (match) {
+        return passed(rule);
+      }
+      // The bio alone rarely names a place, so only a location-tagged profile can fail
+      return subject.locations.length > 0
+        ? failed(rule, `Posts are tagged outside ${rule.locations.join(', ')}`)
+        : unknown(rule, 'No location tags on posts');
+    }
+
+    case 'language': {
+      const language = detectLanguage([subject.bio, ...subject.captions]);
+      if (!language) {
+        return unknown(rule, 'Language could not be detected');
+      }
+      return rule.languages.includes(language)
+        ? passed(rule)
+        : failed(rule, `Content language "${language}" is not one of ${rule.languages.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Case-insensitive match of a whole word or phrase ("art" doesn't match "smart")
+ * Boundaries are any non letter/digit, so accented and non-Latin text works too
+ */
+function containsWord(text: string, phrase: string): boolean {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (!escaped) return false;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function passed(rule: ICPRule): ICPRuleResult {
+  return { type: rule.type, status: 'passed' };
+}
+
+function failed(rule: ICPRule, reason: string): ICPRuleResult {
+  return { type: rule.type, status: 'failed', reason };
+}
+
+function unknown(rule: ICPRule, reason: string): ICPRuleResult {
+  return { type: rule.type, status: 'unknown', reason };
+}
+
+// ===============================================================================
+// METRICS FROM SCRAPED POSTS
+// ===============================================================================
+
+function getDaysSinceLastPost(profile: ProfileData): number | null {
+  const timestamps = (profile.latestPosts ?? [])
+    .map(post => new Date(post.timestamp).getTime())
+    .filter(time => !Number.isNaN(time));
+
+  if (timestamps.length === 0) return null;
+  return Math.floor((Date.now() - Math.max(...timestamps)) / DAY_MS);
+}
+
+function getEngagementRate(profile: ProfileData): number | null {
+  const posts = profile.latestPosts ?? [];
+  if (posts.length === 0 || profile.followersCount <= 0) return null;
+
+  const interactions = posts.reduce((sum, post) => sum + (post.likeCount || 0) + (post.commentCount || 0), 0);
+  return interactions / posts.length / profile.followersCount;
+}
@@ -0,0 +1,19 @@
+// infrastructure/analysis-checks/icp-settings.util.ts
+
+import type { BusinessProfile } from '@/infrastructure/database/repositories/business.repository';
+import type { ICPSettings } from './types';
+
+/**
+ * Follower bounds for the ICP check (business_context wins, same as the prompt builder)
+ */
+export function getICPSettings(
+  business: Pick<BusinessProfile, 'business_context' | 'ideal_customer_profile'>
+): ICPSettings {
+  const context = business.business_context || {};
+  const icp = business.ideal_customer_profile || {};
+
+  return {
+    icp_min_followers: context.icp_min_followers ?? icp.icp_min_followers ?? null,
+    icp_max_followers: context.icp_max_followers ?? icp.icp_max_followers ?? null
+  };
+}
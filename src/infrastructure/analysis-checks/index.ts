@@ -11,6 +11,7 @@
  * - ProfileNotFoundCheck: Detects deleted/non-existent profiles
  * - PrivateProfileCheck: Detects private accounts
  * - ICPFollowerLimitCheck: Validates follower count against ICP bounds
+ * - ICPRulesCheck: Evaluates the business's declarative ICP rules
  *
  * To add a new check:
  * 1. Create a new file in ./checks/ implementing IPreAnalysisCheck
@@ -31,11 +32,23 @@ export type {
   AnalysisResultType,
   ExtendedAnalysisType,
   ApifyErrorResponse,
-  ICPSettings
+  ICPSettings,
+  ICPRule,
+  ICPRuleType,
+  ICPRuleResult,
+  ICPRuleEvaluation
 } from './types';
 export { DEFAULT_CHECKS_CONFIG } from './types';
+export { getICPSettings } from './icp-settings.util';
+export {
+  evaluateICPRules,
+  buildICPRuleSubject,
+  buildStoredICPRuleSubject,
+  type ICPRuleSubject
+} from './icp-rules.util';
 
 // Individual checks (for custom registration or testing)
 export { PrivateProfileCheck } from './checks/private-profile.check';
 export { ProfileNotFoundCheck } from './checks/profile-not-found.check';
 export { ICPFollowerLimitCheck } from './checks/icp-follower-limit.check';
+export { ICPRulesCheck } from './checks/icp-rules.check';
@@ -43,6 +43,8 @@ import { DEFAULT_CHECKS_CONFIG } from './types';
 // Import all checks
 import { PrivateProfileCheck } from './checks/private-profile.check';
 import { ProfileNotFoundCheck } from './checks/profile-not-found.check';
+import { ICPFollowerLimitCheck } from './checks/icp-follower-limit.check';
+import { ICPRulesCheck } from './checks/icp-rules.check';
 
 export class PreAnalysisChecksService {
   private checks: IPreAnalysisCheck[] = [];
@@ -61,6 +63,8 @@ export class PreAnalysisChecksService {
     // Register built-in checks
     this.registerCheck(new ProfileNotFoundCheck());
     this.registerCheck(new PrivateProfileCheck());
+    this.registerCheck(new ICPFollowerLimitCheck());
+    this.registerCheck(new ICPRulesCheck());
 
     // Sort by priority after registration
     this.sortChecksByPriority();
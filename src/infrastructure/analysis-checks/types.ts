@@ -10,6 +10,7 @@
 
 import type { ProfileData } from '@/infrastructure/cache/r2-cache.service';
 import type { AnalysisType } from '@/config/operations-pricing.config';
+import type { ExtractedData } from '@/infrastructure/extraction/extraction.types';
 
 /**
  * Result types that bypass AI analysis
@@ -25,6 +26,46 @@ export interface ICPSettings {
   icp_max_followers?: number | null;
 }
 
+/**
+ * Declarative ICP rules stored on the business profile (business_profiles.icp_rules)
+ * Every rule must pass; see icp-rules.util.ts for how each one is evaluated
+ */
+export type ICPRule =
+  /** Instagram business/creator account */
+  | { type: 'business_account' }
+  /** Most recent post is at most `days` old */
+  | { type: 'posted_within_days'; days: number }
+  /** Engagement rate (avg likes + comments per post / followers) of at least `percent` % */
+  | { type: 'min_engagement_rate'; percent: number }
+  /** Bio mentions any (or all) of the keywords */
+  | { type: 'bio_keywords'; keywords: string[]; match: 'any' | 'all' }
+  /** Niche is none of these (detected niche, or the bio when no niche is known yet) */
+  | { type: 'exclude_niches'; niches: string[] }
+  /** Post locations or bio mention one of these places */
+  | { type: 'location'; locations: string[] }
+  /** Bio/captions are written in one of these languages (ISO 639-1 codes) */
+  | { type: 'language'; languages: string[] };
+
+export type ICPRuleType = ICPRule['type'];
+
+/**
+ * Outcome of one rule. 'unknown' means the data needed isn't available
+ * (e.g. no captions stored) and never fails the rule set.
+ */
+export interface ICPRuleResult {
+  type: ICPRuleType;
+  status: 'passed' | 'failed' | 'unknown';
+  /** Human-readable explanation for failed/unknown rules */
+  reason?: string;
+}
+
+export interface ICPRuleEvaluation {
+  /** No rule failed */
+  passed: boolean;
+  results: ICPRuleResult[];
+  failed: ICPRuleResult[];
+}
+
 /**
  * All valid analysis types including bypassed results
  */
@@ -49,6 +90,12 @@ export interface PreAnalysisCheckContext {
   requestedAnalysisType: AnalysisType;
   /** ICP settings for validation (optional for backward compatibility) */
   icpSettings?: ICPSettings | null;
+  /** Declarative ICP rules from the business profile */
+  icpRules?: ICPRule[] | null;
+  /** Stored extraction metrics, when re-checking an analyzed lead (preferred over posts) */
+  extractedData?: ExtractedData | null;
+  /** Niche detected by a previous analysis */
+  niche?: string | null;
 }
 
 /**
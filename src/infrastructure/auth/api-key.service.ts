@@ -0,0 +1,210 @@
+// src/infrastructure/auth/api-key.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApiKeyRecord } from '@/features/auth/auth.types';
+import type { ApiKeyScope } from '@/config/api-key-scopes.config';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * API KEY SERVICE
+ *
+ * Manages account-scoped API keys for server-to-server access
+ *
+ * Features:
+ * - Generate keys (shown to the user once)
+ * - Validate keys (check hash, expiry + revocation)
+ * - Revoke keys
+ * - Track last use (throttled to one write per minute per key)
+ *
+ * Security:
+ * - Keys are opaque: 'osk_' + 48 hex characters (24 bytes)
+ * - Only the SHA-256 hash is stored; lookups go by hash
+ * - The 'osk_' prefix lets authMiddleware tell keys apart from JWTs
+ */
+
+export const API_KEY_PREFIX = 'osk_';
+
+export class ApiKeyService {
+  private supabase: SupabaseClient;
+  private readonly MAX_KEYS_PER_ACCOUNT = 25;
+  private readonly DISPLAY_PREFIX_LENGTH = 12;
+  private readonly LAST_USED_THROTTLE_MS = 60 * 1000;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Generate cryptographically secure key
+   */
+  private generateKey(): string {
+    const array = new Uint8Array(24);
+    crypto.getRandomValues(array);
+    return API_KEY_PREFIX + Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * SHA-256 hex digest of a key (what gets stored and looked up)
+   */
+  private async hashKey(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Create new API key
+   *
+   * @returns Stored record plus the plaintext key (never retrievable again)
+   */
+  async create(
+    accountId: string,
+    userId: string,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresInDays?: number
+  ): Promise<{ record: Omit<ApiKeyRecord, 'key_hash'>; key: string }> {
+    const { count, error: countError } = await this.supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('account_id', accountId)
+      .is('revoked_at', null);
+
+    if (countError) throw countError;
+    if ((count ?? 0) >= this.MAX_KEYS_PER_ACCOUNT) {
+      throw new AppError(
+        `API key limit reached (${this.MAX_KEYS_PER_ACCOUNT} active keys)`,
+        409,
+        'API_KEY_LIMIT_REACHED'
+      );
+    }
+
+    const key = this.generateKey();
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .insert({
+        account_id: accountId,
+        name,
+        key_prefix: key.substring(0, this.DISPLAY_PREFIX_LENGTH),
+        key_hash: await this.hashKey(key),
+        scopes: [...new Set(scopes)],
+        created_by: userId,
+        expires_at: expiresAt
+      })
+      .select('id, account_id, name, key_prefix, scopes, created_by, last_used_at, expires_at, revoked_at, created_at')
+      .single();
+
+    if (error) {
+      logger.error('API key create failed', { error: error.message });
+      throw new Error('Failed to create API key');
+    }
+
+    return { record: data as Omit<ApiKeyRecord, 'key_hash'>, key };
+  }
+
+  /**
+   * List keys for account (hashes omitted), newest first
+   */
+  async list(accountId: string): Promise<Omit<ApiKeyRecord, 'key_hash'>[]> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .select('id, account_id, name, key_prefix, scopes, created_by, last_used_at, expires_at, revoked_at, created_at')
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as Omit<ApiKeyRecord, 'key_hash'>[];
+  }
+
+  /**
+   * Validate API key
+   * Checks: exists, not expired, not revoked
+   *
+   * @returns Key record or null if invalid
+   */
+  async validate(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .select('*')
+      .eq('key_hash', await this.hashKey(key))
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const record = data as ApiKeyRecord;
+
+    if (record.revoked_at) {
+      return null;
+    }
+
+    if (record.expires_at && new Date(record.expires_at) < new Date()) {
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Revoke API key
+   *
+   * @returns false if the key doesn't exist for this account or is already revoked
+   */
+  async revoke(accountId: string, keyId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .eq('account_id', accountId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) throw error;
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Revoke every active key a user created on an account (e.g. when they leave the team)
+   *
+   * @returns Number of keys revoked
+   */
+  async revokeAllCreatedBy(accountId: string, userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('created_by', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) throw error;
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Record key usage (skipped if already recorded within the last minute)
+   */
+  async touchLastUsed(record: ApiKeyRecord): Promise<void> {
+    if (record.last_used_at && Date.now() - new Date(record.last_used_at).getTime() < this.LAST_USED_THROTTLE_MS) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', record.id);
+
+    if (error) {
+      logger.error('API key last used update failed', { keyId: record.id, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,146 @@
+// src/infrastructure/auth/broadcast-signature.service.ts
+
+/**
+ * BROADCAST SIGNATURES
+ *
+ * Events reach GlobalBroadcasterDO only from inside the Worker (workflows,
+ * DOs and queue consumers via publishBroadcast). Every event is still signed, and the
+ * broadcaster drops anything that doesn't verify, so a request that reaches
+ * the DO some other way can't inject events into a customer's dashboard.
+ *
+ * Header: X-Oslira-Broadcast-Signature: t=<unix seconds>,n=<nonce>,v1=<hex>
+ * - v1 = HMAC-SHA256(secret, "<t>.<n>.<body>")
+ * - t must be within BROADCAST_SIGNATURE_TOLERANCE_SECONDS of now
+ * - n may only be used once while t is valid (checked against a nonce store)
+ */
+
+export const BROADCAST_SIGNATURE_HEADER = 'X-Oslira-Broadcast-Signature';
+export const BROADCAST_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Name of the shared HMAC secret in AWS Secrets Manager */
+export const BROADCAST_SIGNING_SECRET_NAME = 'INTERNAL_BROADCAST_SECRET';
+
+export type BroadcastVerificationFailure =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'expired'
+  | 'invalid_signature'
+  | 'replayed';
+
+export type BroadcastVerificationResult =
+  | { valid: true; timestamp: number; nonce: string }
+  | { valid: false; reason: BroadcastVerificationFailure };
+
+/**
+ * Remembers nonces until their signature can no longer verify
+ */
+export interface BroadcastNonceStore {
+  /**
+   * Record a nonce; false if it was already recorded
+   * @param expiresAt Epoch ms after which the nonce can be forgotten
+   */
+  claim(nonce: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * Build the signature header value for a broadcast body
+ */
+export async function signBroadcast(
+  secret: string,
+  body: string,
+  options: { timestamp?: number; nonce?: string } = {}
+): Promise<string> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const nonce = options.nonce ?? crypto.randomUUID();
+
+  const key = await importKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, signedPayload(timestamp, nonce, body));
+
+  return `t=${timestamp},n=${nonce},v1=${toHex(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a broadcast signature and claim its nonce
+ * The nonce is only claimed once the HMAC checks out, so forged requests
+ * can't burn nonces of real events
+ */
+export async function verifyBroadcast(
+  secret: string,
+  header: string | null | undefined,
+  body: string,
+  nonces: BroadcastNonceStore,
+  now: number = Date.now()
+): Promise<BroadcastVerificationResult> {
+  if (!header) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const parsed = parseHeader(header);
+  if (!parsed) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const { timestamp, nonce, signature } = parsed;
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > BROADCAST_SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importKey(secret, 'verify');
+  const matches = await crypto.subtle.verify('HMAC', key, signature, signedPayload(timestamp, nonce, body));
+  if (!matches) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  const expiresAt = (timestamp + BROADCAST_SIGNATURE_TOLERANCE_SECONDS) * 1000;
+  if (!(await nonces.claim(nonce, expiresAt))) {
+    return { valid: false, reason: 'replayed' };
+  }
+
+  return { valid: true, timestamp, nonce };
+}
+
+function parseHeader(header: string): { timestamp: number; nonce: string; signature: Uint8Array } | null {
+  const parts = new Map<string, string>();
+  for (const part of header.split(',')) {
+    const index = part.indexOf('=');
+    if (index <= 0) return null;
+    parts.set(part.slice(0, index).trim(), part.slice(index + 1).trim());
+  }
+
+  const timestamp = Number(parts.get('t'));
+  const nonce = parts.get('n');
+  const hex = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !nonce || !hex || !/^[0-9a-f]{64}$/i.test(hex)) {
+    return null;
+  }
+
+  return { timestamp, nonce, signature: fromHex(hex) };
+}
+
+function signedPayload(timestamp: number, nonce: string, body: string): Uint8Array {
+  return new TextEncoder().encode(`${timestamp}.${nonce}.${body}`);
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
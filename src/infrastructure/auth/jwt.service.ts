@@ -13,7 +13,7 @@ import { getSecret } from '@/infrastructure/config/secrets';
  * Token format:
  * - Algorithm: HS256 (HMAC with SHA-256)
  * - Expiry: 15 minutes
- * - Payload: { userId, accountId, email, onboardingCompleted, iat, exp }
+ * - Payload: { userId, accountId, email, onboardingCompleted, role, admin?, impersonatedBy?, iat, exp }
  */
 
 export class JWTService {
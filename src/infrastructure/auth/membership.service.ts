@@ -0,0 +1,91 @@
+// src/infrastructure/auth/membership.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AccountMembership } from '@/features/auth/auth.types';
+import type { AccountRole } from '@/config/account-roles.config';
+
+/**
+ * MEMBERSHIP SERVICE
+ *
+ * Resolves which accounts a user can act on, and with which role
+ *
+ * Model:
+ * - The owner is implicit (accounts.owner_id) - one per account, never stored in account_members
+ * - Teammates are rows in account_members (admin | member | viewer), created by accepting an invitation
+ *
+ * Used when issuing tokens (login, refresh, account switch) so a removed
+ * member loses access on their next refresh.
+ */
+
+export class MembershipService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Role of a user on an account
+   *
+   * @returns Role, or null if the user doesn't belong to the account
+   */
+  async getRole(accountId: string, userId: string): Promise<AccountRole | null> {
+    const { data: account, error: accountError } = await this.supabase
+      .from('accounts')
+      .select('owner_id')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (accountError) throw accountError;
+    if (!account) return null;
+    if (account.owner_id === userId) return 'owner';
+
+    const { data: member, error: memberError } = await this.supabase
+      .from('account_members')
+      .select('role')
+      .eq('account_id', accountId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (memberError) throw memberError;
+    return (member?.role as AccountRole | undefined) ?? null;
+  }
+
+  /**
+   * All accounts a user belongs to, owned accounts first
+   */
+  async listForUser(userId: string): Promise<AccountMembership[]> {
+    const [owned, joined] = await Promise.all([
+      this.supabase
+        .from('accounts')
+        .select('id, name')
+        .eq('owner_id', userId)
+        .order('created_at', { ascending: true }),
+      this.supabase
+        .from('account_members')
+        .select('account_id, role, accounts(name)')
+        .eq('user_id', userId)
+        .order('joined_at', { ascending: true })
+    ]);
+
+    if (owned.error) throw owned.error;
+    if (joined.error) throw joined.error;
+
+    const memberships: AccountMembership[] = (owned.data || []).map(account => ({
+      account_id: account.id,
+      account_name: account.name,
+      role: 'owner' as const
+    }));
+
+    for (const row of joined.data || []) {
+      const account = Array.isArray(row.accounts) ? row.accounts[0] : row.accounts;
+      memberships.push({
+        account_id: row.account_id,
+        account_name: (account as { name?: string } | null)?.name ?? '',
+        role: row.role as AccountRole
+      });
+    }
+
+    return memberships;
+  }
+}
@@ -171,6 +171,29 @@ async rotate(oldToken: string, userId: string, accountId: string): Promise<strin
     }
   }
 
+  /**
+   * Revoke a user's tokens for one account (removed from a team)
+   * Sessions on the user's other accounts are unaffected
+   *
+   * @param userId - User ID
+   * @param accountId - Account ID
+   */
+  async revokeAllForUserAccount(userId: string, accountId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('refresh_tokens')
+      .update({
+        revoked_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('account_id', accountId)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('[TokenService] Revoke for account failed:', error);
+      throw new Error('Failed to revoke account tokens');
+    }
+  }
+
   /**
    * Cleanup expired tokens (for cron job)
    * Deletes tokens that expired more than 30 days ago
@@ -0,0 +1,204 @@
+// infrastructure/batch/bulk-analysis.service.ts
+
+import type { Env } from '@/shared/types/env.types';
+import type {
+  BulkBatchSummary,
+  BulkBatchItem,
+  BulkBatchInitParams
+} from '@/shared/types/bulk-batch.types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { CreditsRepository, type CreditReservation } from '@/infrastructure/database/repositories/credits.repository';
+import { getAnalysisConfig } from '@/config/analysis-types.config';
+import { publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
+import { AppError } from '@/shared/middleware/error.middleware';
+import { generateId } from '@/shared/utils/id.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * BULK ANALYSIS SERVICE
+ *
+ * Shared entry point for bulk analyses:
+ * - POST /api/leads/analyze/bulk (direct, ≤50 usernames)
+ * - Bulk analysis queue consumer (CSV imports, one chunk per message)
+ *
+ * Each batch is persisted in its own BulkBatchDO, which dispatches
+ * AnalysisWorkflows, tracks per-username status and supports pause/resume.
+ *
+ * The full batch cost is reserved before the batch starts, so it can't run
+ * out of balance halfway. Workflows convert the hold into charges; the DO
+ * releases whatever is left on cancel, failure or completion.
+ */
+
+/** Maximum usernames per batch (matches the JSON bulk endpoint limit) */
+export const BULK_BATCH_MAX_SIZE = 50;
+
+export interface QueueBulkBatchParams {
+  /** Pre-assigned batch ID (CSV imports allocate IDs before enqueueing) */
+  batchId?: string;
+  accountId: string;
+  businessProfileId: string;
+  analysisType: 'light' | 'deep';
+  usernames: string[];
+  /** Import this batch belongs to, if queued from a CSV upload */
+  importId?: string;
+  /** Team member the batch's analyses and credit hold are attributed to */
+  requestedBy?: string;
+}
+
+export type BulkBatchAction = 'pause' | 'resume' | 'cancel';
+
+export class BulkAnalysisService {
+  constructor(private env: Env) {}
+
+  /**
+   * Reserve credits and create a persisted batch; dispatch starts immediately via the DO alarm
+   * Idempotent per batchId, so queue redeliveries don't duplicate work or holds
+   * Throws a 402 AppError when the balance can't cover the whole batch
+   */
+  async queueBatch(params: QueueBulkBatchParams): Promise<BulkBatchSummary> {
+    if (params.usernames.length > BULK_BATCH_MAX_SIZE) {
+      throw new Error(`Batch exceeds ${BULK_BATCH_MAX_SIZE} usernames`);
+    }
+
+    const batchId = params.batchId || generateId('batch');
+
+    const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+    const creditsRepo = new CreditsRepository(supabase);
+    const creditCost = getAnalysisConfig(params.analysisType).pricing.creditCost;
+
+    const required = creditCost * params.usernames.length;
+    let reservation: CreditReservation;
+    try {
+      reservation = await creditsRepo.reserveForAnalysis(
+        params.accountId,
+        params.analysisType,
+        required,
+        batchId,
+        `Bulk ${params.analysisType} analysis hold (${params.usernames.length} profiles)`,
+        params.requestedBy
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Insufficient')) {
+        throw new AppError('Insufficient balance to reserve bulk analysis', 402, 'INSUFFICIENT_BALANCE', { required });
+      }
+      throw error;
+    }
+
+    const initParams: BulkBatchInitParams = {
+      batch_id: batchId,
+      import_id: params.importId || null,
+      account_id: params.accountId,
+      business_profile_id: params.businessProfileId,
+      analysis_type: params.analysisType,
+      usernames: params.usernames,
+      reservation_id: reservation.id,
+      requested_by: params.requestedBy ?? null
+    };
+
+    const response = await this.getStub(batchId).fetch('http://do/init', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initParams)
+    });
+
+    if (!response.ok) {
+      // Batch never started: don't leave the hold on the account
+      await creditsRepo.releaseReservation(reservation.id, `Bulk batch ${batchId} failed to start`);
+      throw new Error(`Failed to initialize batch ${batchId}: ${response.status}`);
+    }
+
+    const summary = await response.json() as BulkBatchSummary;
+    await publishCreditsUpdated(this.env, params.accountId, 'reservation');
+
+    logger.info('Bulk batch created', {
+      batchId,
+      importId: params.importId,
+      accountId: params.accountId,
+      total: params.usernames.length,
+      reservationId: reservation.id,
+      creditsReserved: reservation.amount_reserved
+    });
+
+    return summary;
+  }
+
+  /**
+   * Persist a batch that could not start (e.g. its chunk couldn't be reserved)
+   * as failed, so the import's progress and summary report it instead of the
+   * chunk silently disappearing. Idempotent per batchId like queueBatch
+   */
+  async recordFailedBatch(params: QueueBulkBatchParams & { batchId: string }, reason: string): Promise<BulkBatchSummary> {
+    const initParams: BulkBatchInitParams = {
+      batch_id: params.batchId,
+      import_id: params.importId || null,
+      account_id: params.accountId,
+      business_profile_id: params.businessProfileId,
+      analysis_type: params.analysisType,
+      usernames: params.usernames,
+      reservation_id: null,
+      requested_by: params.requestedBy ?? null,
+      failure_reason: reason
+    };
+
+    const response = await this.getStub(params.batchId).fetch('http://do/init', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initParams)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to record failed batch ${params.batchId}: ${response.status}`);
+    }
+
+    logger.warn('Bulk batch recorded as failed', {
+      batchId: params.batchId,
+      importId: params.importId,
+      accountId: params.accountId,
+      total: params.usernames.length,
+      reason
+    });
+
+    return await response.json() as BulkBatchSummary;
+  }
+
+  /**
+   * Load batch state, or null if it doesn't exist / belongs to another account
+   */
+  async getBatch(
+    accountId: string,
+    batchId: string
+  ): Promise<{ summary: BulkBatchSummary; items: BulkBatchItem[] } | null> {
+    const response = await this.getStub(batchId).fetch('http://do/state');
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load batch ${batchId}: ${response.status}`);
+    }
+
+    const state = await response.json() as { summary: BulkBatchSummary; items: BulkBatchItem[] };
+
+    return state.summary.account_id === accountId ? state : null;
+  }
+
+  /**
+   * Pause, resume or cancel a batch
+   * Returns the updated summary, or an error message for invalid transitions
+   */
+  async controlBatch(
+    batchId: string,
+    action: BulkBatchAction
+  ): Promise<{ summary: BulkBatchSummary } | { error: string }> {
+    const response = await this.getStub(batchId).fetch(`http://do/${action}`, { method: 'POST' });
+    const body = await response.json() as BulkBatchSummary | { error: string };
+
+    if (!response.ok) {
+      return { error: 'error' in body ? body.error : `Failed to ${action} batch` };
+    }
+
+    return { summary: body as BulkBatchSummary };
+  }
+
+  private getStub(batchId: string) {
+    return this.env.BULK_BATCH.get(this.env.BULK_BATCH.idFromName(batchId));
+  }
+}
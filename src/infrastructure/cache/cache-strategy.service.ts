@@ -1,5 +1,7 @@
 import type { R2Bucket, R2Object } from '@cloudflare/workers-types';
+import { DEFAULT_LEAD_PLATFORM, type LeadPlatform } from '@/config/platforms.config';
 import { logger } from '@/shared/utils/logger.util';
+import { calculateStringSimilarity, SIGNIFICANT_CHANGE_SIMILARITY } from '@/shared/utils/string-similarity.util';
 
 /**
  * Cache Strategy Service
@@ -15,6 +17,9 @@ import { logger } from '@/shared/utils/logger.util';
  * - Bio changed significantly (>30% different)
  * - Profile went private/public
  * - Verification status changed
+ *
+ * Keys are namespaced by platform (`tiktok:<username>:v1`), so the same handle
+ * on two platforms never shares a cache entry.
  */
 
 export interface CachedProfile {
@@ -36,6 +41,8 @@ export interface CachedProfile {
     comment_count: number;
     timestamp: string;
   }>;
+  /** Absent on entries written before multi-platform support (= instagram) */
+  platform?: LeadPlatform;
   cached_at: string;
   scraper_used: string;
   data_quality: 'high' | 'medium' | 'low';
@@ -68,9 +75,10 @@ export class CacheStrategyService {
   /** Get cached profile with TTL check */
   async get(
     username: string,
-    analysisType: 'light' | 'deep'
+    analysisType: 'light' | 'deep',
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
   ): Promise<CachedProfile | null> {
-    const key = this.buildCacheKey(username);
+    const key = this.buildCacheKey(username, platform);
 
     try {
       const object = await this.bucket.get(key);
@@ -93,7 +101,7 @@ export class CacheStrategyService {
           analysisType,
           age: this.formatDuration(ageSeconds)
         });
-        await this.delete(username);
+        await this.delete(username, platform);
         return null;
       }
 
@@ -129,9 +137,10 @@ export class CacheStrategyService {
   async set(
     username: string,
     profile: CachedProfile,
-    analysisType: 'light' | 'deep'
+    analysisType: 'light' | 'deep',
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
   ): Promise<void> {
-    const key = this.buildCacheKey(username);
+    const key = this.buildCacheKey(username, platform);
     const ttl = this.TTL_CONFIG[analysisType];
 
     const metadata: CacheMetadata = {
@@ -164,14 +173,24 @@ export class CacheStrategyService {
   async shouldInvalidate(
     username: string,
     newProfile: CachedProfile,
-    analysisType: 'light' | 'deep'
+    analysisType: 'light' | 'deep',
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
   ): Promise<InvalidationReason | null> {
-    const cachedProfile = await this.get(username, analysisType);
+    const cachedProfile = await this.get(username, analysisType, platform);
 
     if (!cachedProfile) {
       return null;
     }
 
+    return this.compareProfiles(username, cachedProfile, newProfile);
+  }
+
+  /** Compare two profile snapshots against the invalidation triggers (baseline need not be cached) */
+  compareProfiles(
+    username: string,
+    cachedProfile: CachedProfile,
+    newProfile: CachedProfile
+  ): InvalidationReason | null {
     const followerDelta = newProfile.follower_count - cachedProfile.follower_count;
     const cachedAt = new Date(cachedProfile.cached_at).getTime();
     const timeElapsedMs = Date.now() - cachedAt;
@@ -197,12 +216,12 @@ export class CacheStrategyService {
       };
     }
 
-    const bioSimilarity = this.calculateStringSimilarity(
+    const bioSimilarity = calculateStringSimilarity(
       cachedProfile.bio,
       newProfile.bio
     );
 
-    if (bioSimilarity < 0.7) {
+    if (bioSimilarity < SIGNIFICANT_CHANGE_SIMILARITY) {
       return {
         reason: 'bio_change',
         details: `Bio changed significantly (${Math.round((1 - bioSimilarity) * 100)}% different)`
@@ -227,18 +246,23 @@ export class CacheStrategyService {
   }
 
   /** Invalidate (delete) cached profile */
-  async invalidate(username: string, reason: InvalidationReason): Promise<void> {
+  async invalidate(
+    username: string,
+    reason: InvalidationReason,
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
+  ): Promise<void> {
     logger.info('Cache invalidate', {
       username,
+      platform,
       reason: reason.reason,
       details: reason.details
     });
-    await this.delete(username);
+    await this.delete(username, platform);
   }
 
   /** Delete cached profile */
-  async delete(username: string): Promise<void> {
-    const key = this.buildCacheKey(username);
+  async delete(username: string, platform: LeadPlatform = DEFAULT_LEAD_PLATFORM): Promise<void> {
+    const key = this.buildCacheKey(username, platform);
 
     try {
       await this.bucket.delete(key);
@@ -282,8 +306,8 @@ export class CacheStrategyService {
     };
   }
 
-  private buildCacheKey(username: string): string {
-    return `instagram:${username.toLowerCase()}:v${this.CACHE_VERSION}`;
+  private buildCacheKey(username: string, platform: LeadPlatform): string {
+    return `${platform}:${username.toLowerCase()}:v${this.CACHE_VERSION}`;
   }
 
   private parseMetadata(object: R2Object): CacheMetadata {
@@ -325,42 +349,4 @@ export class CacheStrategyService {
     if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
     return `${(seconds / 3600).toFixed(1)}h`;
   }
-
-  private calculateStringSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1.0;
-    if (str1.length === 0 || str2.length === 0) return 0.0;
-
-    const maxLength = Math.max(str1.length, str2.length);
-    const distance = this.levenshteinDistance(str1, str2);
-
-    return 1 - (distance / maxLength);
-  }
-
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i];
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
 }
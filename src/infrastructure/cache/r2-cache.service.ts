@@ -3,6 +3,7 @@
 import type { R2Bucket } from '@cloudflare/workers-types';
 import { CacheStrategyService, type CachedProfile } from './cache-strategy.service';
 import type { ProfileData, PostData } from '@/shared/types/profile.types';
+import { DEFAULT_LEAD_PLATFORM, type LeadPlatform } from '@/config/platforms.config';
 
 /**
  * R2 CACHE SERVICE (Facade)
@@ -26,8 +27,12 @@ export class R2CacheService {
   /**
    * Get cached profile (Phase 7: with TTL check)
    */
-  async get(username: string, analysisType: 'light' | 'deep'): Promise<ProfileData | null> {
-    const cached = await this.strategy.get(username, analysisType);
+  async get(
+    username: string,
+    analysisType: 'light' | 'deep',
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
+  ): Promise<ProfileData | null> {
+    const cached = await this.strategy.get(username, analysisType, platform);
 
     if (!cached) {
       return null;
@@ -52,9 +57,12 @@ export class R2CacheService {
         likeCount: post.like_count,
         commentCount: post.comment_count,
         timestamp: post.timestamp,
-        mediaType: 'photo' as const,
+        // Media type isn't cached; every TikTok post is a short-form video
+        mediaType: platform === 'tiktok' ? 'video' as const : 'photo' as const,
+        productType: platform === 'tiktok' ? 'clips' : null,
         mediaUrl: ''
       })),
+      platform,
       scraperUsed: cached.scraper_used,
       dataQuality: cached.data_quality
     };
@@ -64,6 +72,7 @@ export class R2CacheService {
    * Set cached profile (Phase 7: with TTL)
    */
   async set(username: string, profile: ProfileData, analysisType: 'light' | 'deep' = 'light'): Promise<void> {
+    const platform = profile.platform ?? DEFAULT_LEAD_PLATFORM;
     const cachedProfile: CachedProfile = {
       username: profile.username,
       display_name: profile.displayName,
@@ -83,25 +92,27 @@ export class R2CacheService {
         comment_count: post.commentCount,
         timestamp: post.timestamp
       })),
+      platform,
       cached_at: new Date().toISOString(),
       scraper_used: profile.scraperUsed,
       data_quality: profile.dataQuality
     };
 
-    await this.strategy.set(username, cachedProfile, analysisType);
+    await this.strategy.set(username, cachedProfile, analysisType, platform);
   }
 
   /**
    * Delete cached profile
    */
-  async delete(username: string): Promise<void> {
-    await this.strategy.delete(username);
+  async delete(username: string, platform: LeadPlatform = DEFAULT_LEAD_PLATFORM): Promise<void> {
+    await this.strategy.delete(username, platform);
   }
 
   /**
    * Check if should invalidate
    */
   async shouldInvalidate(username: string, newProfile: ProfileData, analysisType: 'light' | 'deep') {
+    const platform = newProfile.platform ?? DEFAULT_LEAD_PLATFORM;
     const cachedProfile: CachedProfile = {
       username: newProfile.username,
       display_name: newProfile.displayName,
@@ -115,12 +126,13 @@ export class R2CacheService {
       external_url: newProfile.externalUrl || null,
       is_business_account: newProfile.isBusinessAccount,
       latest_posts: [],
+      platform,
       cached_at: new Date().toISOString(),
       scraper_used: newProfile.scraperUsed,
       data_quality: newProfile.dataQuality
     };
 
-    return await this.strategy.shouldInvalidate(username, cachedProfile, analysisType);
+    return await this.strategy.shouldInvalidate(username, cachedProfile, analysisType, platform);
   }
 
   /**
@@ -3,6 +3,10 @@
 import type { Env } from '@/shared/types/env.types';
 import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
 import { getSentryService } from '@/infrastructure/monitoring/sentry.service';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { WatchRunnerService } from '@/features/watches/watch-runner.service';
+import { BalanceReconciliationService } from '@/features/reconciliation/reconciliation.service';
+import { WebhookDispatcher } from '@/infrastructure/webhooks/webhook-dispatcher.service';
 import { logger } from '@/shared/utils/logger.util';
 
 /**
@@ -13,7 +17,9 @@ import { logger } from '@/shared/utils/logger.util';
  * 2. Daily refresh token cleanup (1 AM UTC)
  * 3. Monthly credit renewal (subscriptions)
  * 4. Daily cleanup (old analyses, soft deleted records)
- * 5. Hourly failed analysis refunds
+ * 5. Hourly failed analysis refunds and stale webhook delivery sweep
+ * 6. Hourly lead watch checks (scheduled re-analysis)
+ * 7. Daily balance reconciliation against the credit ledger
  */
 
 export class CronJobsHandler {
@@ -141,6 +147,8 @@ export class CronJobsHandler {
 
       logger.info('Processing active subscriptions', { count: subscriptions.length });
 
+      const creditsRepo = new CreditsRepository(supabase);
+
       let successCount = 0;
       let failCount = 0;
 
@@ -150,18 +158,13 @@ export class CronJobsHandler {
           const creditsQuota = plan.credits_per_month;
           const lightQuota = parseInt(plan.features.light_analyses);
 
-          // Reset both balances
-          const { error: updateError } = await supabase
-            .from('balances')
-            .update({
-              credit_balance: creditsQuota,
-              light_analyses_balance: lightQuota,
-              last_transaction_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            })
-            .eq('account_id', sub.account_id);
-
-          if (updateError) throw updateError;
+          // Reset both balances (ledgered, so reconciliation can account for it)
+          await creditsRepo.resetBalances(
+            sub.account_id,
+            { credits: creditsQuota, light_analyses: lightQuota },
+            'subscription_renewal',
+            `Monthly renewal (${sub.plan_type})`
+          );
 
           // Update subscription period
           await supabase
@@ -406,6 +409,113 @@ export class CronJobsHandler {
     }
   }
 
+  /**
+   * Hourly webhook enqueue sweep
+   * Re-enqueues deliveries whose emit recorded them but failed to enqueue
+   */
+  async requeueStaleWebhookDeliveries(): Promise<void> {
+    const sentry = await getSentryService(this.env);
+
+    try {
+      const requeued = await new WebhookDispatcher(this.env).enqueueStalePending();
+      if (requeued > 0) {
+        logger.warn('Re-enqueued stale webhook deliveries', { requeued });
+      }
+    } catch (error) {
+      logger.error('Webhook enqueue sweep error', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await sentry.captureException(error as Error, {
+        tags: { cron_job: 'webhook_enqueue_sweep' }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Hourly lead watch checks (:30 past the hour)
+   * Re-analyzes watched leads whose profile changed since the last baseline
+   */
+  async processLeadWatches(): Promise<void> {
+    logger.info('Starting lead watch checks');
+    const sentry = await getSentryService(this.env);
+
+    sentry.addBreadcrumb('Lead watch checks started', 'cron', 'info');
+
+    try {
+      const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+      const runner = new WatchRunnerService(this.env, supabase);
+      const result = await runner.runTick();
+
+      logger.info('Lead watch checks complete', { ...result });
+
+      if (this.env.ANALYTICS_ENGINE) {
+        this.env.ANALYTICS_ENGINE.writeDataPoint({
+          blobs: ['lead_watch_checks', 'success'],
+          doubles: [result.checked, result.queued, result.settled],
+          indexes: [new Date().toISOString().split('T')[0]]
+        });
+      }
+    } catch (error: any) {
+      logger.error('Lead watch checks error', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      await sentry.captureException(error, {
+        tags: { cron_job: 'lead_watch_checks' }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Daily balance reconciliation (4 AM UTC)
+   * Recomputes balances from credit_ledger and reports drift for admin review
+   * (GET /api/admin/reconciliation/drift); never corrects anything itself
+   */
+  async reconcileBalances(): Promise<void> {
+    logger.info('Starting balance reconciliation');
+    const sentry = await getSentryService(this.env);
+
+    sentry.addBreadcrumb('Balance reconciliation started', 'cron', 'info');
+
+    try {
+      const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+      const service = new BalanceReconciliationService(this.env, supabase);
+      const summary = await service.reconcile();
+
+      logger.info('Balance reconciliation complete', { ...summary });
+
+      if (this.env.ANALYTICS_ENGINE) {
+        this.env.ANALYTICS_ENGINE.writeDataPoint({
+          blobs: ['balance_reconciliation', summary.driftCount > 0 ? 'drift' : 'clean'],
+          doubles: [summary.accountsChecked, summary.driftCount, summary.newDriftCount, summary.clearedCount, summary.totalAbsoluteDrift],
+          indexes: [new Date().toISOString().split('T')[0]]
+        });
+      }
+
+      if (summary.driftCount > 0) {
+        await sentry.captureMessage(
+          `Balance reconciliation: ${summary.driftCount} balances drift from the ledger (${summary.newDriftCount} new)`,
+          'warning',
+          {
+            tags: { cron_job: 'balance_reconciliation' },
+            extra: { ...summary }
+          }
+        );
+      }
+    } catch (error: any) {
+      logger.error('Balance reconciliation error', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      await sentry.captureException(error, {
+        tags: { cron_job: 'balance_reconciliation' }
+      });
+      throw error;
+    }
+  }
+
   /**
    * Daily refresh token cleanup (1 AM UTC)
    * Removes revoked and expired refresh tokens to keep table clean
@@ -507,8 +617,17 @@ export async function executeCronJob(cronExpression: string, env: Env): Promise<
         await handler.dailyCleanup();
         break;
 
-      case '0 * * * *': // Hourly failed analysis cleanup
+      case '0 * * * *': // Hourly failed analysis cleanup + webhook enqueue sweep
         await handler.hourlyFailedAnalysisCleanup();
+        await handler.requeueStaleWebhookDeliveries();
+        break;
+
+      case '30 * * * *': // Hourly lead watch checks
+        await handler.processLeadWatches();
+        break;
+
+      case '0 4 * * *': // Daily balance reconciliation (4 AM UTC)
+        await handler.reconcileBalances();
         break;
 
       default:
@@ -2,6 +2,8 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseRepository } from './base.repository';
+import { DEFAULT_LEAD_PLATFORM, type LeadPlatform } from '@/config/platforms.config';
+import type { ScoringConfig } from '@/config/scoring.config';
 
 /**
  * Analysis types:
@@ -12,6 +14,21 @@ import { BaseRepository } from './base.repository';
  */
 export type AnalysisTypeResult = 'light' | 'deep' | 'private' | 'not_found';
 
+/**
+ * Profile values captured when an analysis completes
+ * Light analyses skip extraction, so this is the only per-analysis record of
+ * follower counts and bio used to diff consecutive analyses
+ */
+export interface AnalysisProfileSnapshot {
+  follower_count: number;
+  following_count: number;
+  post_count: number;
+  bio: string;
+  external_url: string | null;
+  is_verified: boolean;
+  is_private: boolean;
+}
+
 export interface Analysis {
   id: string;
   run_id: string;
@@ -23,6 +40,9 @@ export interface Analysis {
   ai_response: any;
   extracted_data: any | null;
   niche: string | null;
+  profile_snapshot?: AnalysisProfileSnapshot | null;
+  /** Team member who started the analysis (watch creator for scheduled re-analyses) */
+  requested_by?: string | null;
   status: 'pending' | 'processing' | 'complete' | 'failed' | 'cancelled';
   error_message: string | null;
   started_at: string | null;
@@ -37,6 +57,8 @@ export interface Analysis {
     profile_assessment?: string;
     lead_qualification?: string;
   } | null;
+  /** Scoring weights and tier thresholds (with version) the score was calculated with */
+  scoring_config?: ScoringConfig | null;
 }
 
 export interface CreateAnalysisData {
@@ -46,6 +68,7 @@ export interface CreateAnalysisData {
   business_profile_id: string;
   analysis_type: AnalysisTypeResult;
   status?: 'pending' | 'processing';
+  requested_by?: string | null;
 }
 
 export interface UpdateAnalysisData {
@@ -53,6 +76,7 @@ export interface UpdateAnalysisData {
   ai_response?: any;
   extracted_data?: any;
   niche?: string | null;
+  profile_snapshot?: AnalysisProfileSnapshot;
   analysis_type?: AnalysisTypeResult;
   status?: 'complete' | 'failed' | 'cancelled';
   error_message?: string;
@@ -64,6 +88,8 @@ export interface UpdateAnalysisData {
     profile_assessment?: string;
     lead_qualification?: string;
   };
+  /** Scoring weights and tier thresholds (with version) the score was calculated with */
+  scoring_config?: ScoringConfig;
 }
 
 export class AnalysisRepository extends BaseRepository<Analysis> {
@@ -205,7 +231,8 @@ export class AnalysisRepository extends BaseRepository<Analysis> {
     accountId: string,
     businessProfileId: string,
     username: string,
-    excludeRunId: string
+    excludeRunId: string,
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
   ): Promise<{ leadId: string | null; hasInProgress: boolean }> {
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
 
@@ -218,6 +245,7 @@ export class AnalysisRepository extends BaseRepository<Analysis> {
       `)
       .eq('account_id', accountId)
       .eq('business_profile_id', businessProfileId)
+      .eq('platform', platform)
       .eq('username', username)
       .is('deleted_at', null)
       .neq('lead_analyses.run_id', excludeRunId)
@@ -235,6 +263,7 @@ export class AnalysisRepository extends BaseRepository<Analysis> {
           .select('id')
           .eq('account_id', accountId)
           .eq('business_profile_id', businessProfileId)
+          .eq('platform', platform)
           .eq('username', username)
           .is('deleted_at', null)
           .single();
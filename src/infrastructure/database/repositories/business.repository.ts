@@ -2,6 +2,8 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseRepository } from './base.repository';
+import type { ScoringConfig } from '@/config/scoring.config';
+import type { ICPRule } from '@/infrastructure/analysis-checks/types';
 
 export interface BusinessProfile {
   id: string;
@@ -17,6 +19,10 @@ export interface BusinessProfile {
   context_generated_at: string | null;
   context_manually_edited: boolean;
   context_updated_at: string | null;
+  /** Scoring weight/tier overrides (null = defaults, see resolveScoringConfig) */
+  scoring_config?: ScoringConfig | null;
+  /** Declarative ICP rules (null = follower limits only) */
+  icp_rules?: ICPRule[] | null;
   deleted_at: string | null;
   created_at: string;
   updated_at: string;
@@ -26,17 +26,31 @@ export interface CreditBalance {
 const CREDIT_TYPE_RPC_MAP: Record<CreditType, {
   deductRpc: string;
   balanceColumn: string;
+  /**
+   * RPC takes p_created_by and p_reference_type/p_reference_id
+   * (only deduct_credits records who spent and on what)
+   */
+  attributes: boolean;
 }> = {
   light_analyses: {
     deductRpc: 'deduct_light_analyses',
-    balanceColumn: 'light_analyses_balance'
+    balanceColumn: 'light_analyses_balance',
+    attributes: false
   },
   credits: {
     deductRpc: 'deduct_credits',
-    balanceColumn: 'credit_balance'
+    balanceColumn: 'credit_balance',
+    attributes: true
   }
 };
 
+/**
+ * balances column (and credit_ledger.credit_type) a credit type lives in
+ */
+export function getBalanceColumn(creditType: CreditType): string {
+  return CREDIT_TYPE_RPC_MAP[creditType].balanceColumn;
+}
+
 export interface CreditTransaction {
   id: string;
   account_id: string;
@@ -44,10 +58,41 @@ export interface CreditTransaction {
   balance_after: number;
   transaction_type: string;
   description: string;
+  reference_type: string | null;
+  reference_id: string | null;
   created_by: string | null;
   created_at: string;
 }
 
+/** Entity a ledger entry is for (credit_ledger.reference_type / reference_id) */
+export interface LedgerReference {
+  type: string;
+  id: string;
+}
+
+/**
+ * Credit hold for a multi-analysis operation (bulk batches)
+ * The full amount is deducted up front; each analysis converts part of the
+ * hold into a charge, and whatever is left is refunded on release.
+ */
+export interface CreditReservation {
+  id: string;
+  account_id: string;
+  analysis_type: AnalysisType;
+  credit_type: CreditType;
+  /** Owning entity (e.g. batch_id) - one reservation per reference */
+  reference_id: string;
+  amount_reserved: number;
+  amount_charged: number;
+  amount_released: number;
+  status: 'active' | 'settled';
+  created_at: string;
+  updated_at: string;
+}
+
+/** Optimistic update attempts before giving up on a contended reservation */
+const RESERVATION_UPDATE_ATTEMPTS = 5;
+
 export class CreditsRepository extends BaseRepository<CreditBalance> {
   constructor(supabase: SupabaseClient) {
     super(supabase, 'balances');
@@ -116,14 +161,16 @@ export class CreditsRepository extends BaseRepository<CreditBalance> {
     accountId: string,
     amount: number,
     transactionType: string,
-    description: string
+    description: string,
+    createdBy?: string | null
   ): Promise<string> {
     const { data, error } = await this.supabase
       .rpc('deduct_credits', {
         p_account_id: accountId,
         p_amount: -amount, // Negate: RPC adds p_amount, so negative = deduct
         p_transaction_type: transactionType,
-        p_description: description
+        p_description: description,
+        p_created_by: createdBy ?? null
       });
 
     if (error) throw error;
@@ -183,23 +230,32 @@ export class CreditsRepository extends BaseRepository<CreditBalance> {
   /**
    * MODULAR: Deduct credits for any analysis type
    * Automatically routes to the correct credit type RPC
+   * createdBy attributes the ledger entry to a team member (credit_ledger.created_by)
+   * and reference ties it to what it paid for, where the credit type's RPC records them
    */
   async deductForAnalysis(
     accountId: string,
     analysisType: AnalysisType,
     amount: number,
     transactionType: string,
-    description: string
+    description: string,
+    createdBy?: string | null,
+    reference?: LedgerReference
   ): Promise<string> {
     const creditType = getCreditType(analysisType);
-    const { deductRpc } = CREDIT_TYPE_RPC_MAP[creditType];
+    const { deductRpc, attributes } = CREDIT_TYPE_RPC_MAP[creditType];
 
     const { data, error } = await this.supabase
       .rpc(deductRpc, {
         p_account_id: accountId,
         p_amount: -amount, // Negate: RPC adds p_amount, so negative = deduct
         p_transaction_type: transactionType,
-        p_description: description
+        p_description: description,
+        ...(attributes ? {
+          p_created_by: createdBy ?? null,
+          p_reference_type: reference?.type ?? null,
+          p_reference_id: reference?.id ?? null
+        } : {})
       });
 
     if (error) throw error;
@@ -215,9 +271,43 @@ export class CreditsRepository extends BaseRepository<CreditBalance> {
     analysisType: AnalysisType,
     amount: number,
     transactionType: string,
-    description: string
+    description: string,
+    createdBy?: string | null,
+    reference?: LedgerReference
   ): Promise<string> {
-    return this.deductForAnalysis(accountId, analysisType, -amount, transactionType, description);
+    return this.deductForAnalysis(accountId, analysisType, -amount, transactionType, description, createdBy, reference);
+  }
+
+  /**
+   * Set balances to plan quotas (renewals, upgrades)
+   * Never overwrites the columns without a ledger entry, so every reset is in
+   * credit_ledger and balances stay reconcilable
+   *
+   * reset_credit_balances locks the account's balances row and, for each
+   * column in p_targets ({ balance_column: target }), sets it to the target and
+   * ledgers the difference (nothing when unchanged) in one transaction, so a
+   * charge landing mid-reset can't be overwritten
+   */
+  async resetBalances(
+    accountId: string,
+    targets: Partial<Record<CreditType, number>>,
+    transactionType: string,
+    description: string
+  ): Promise<void> {
+    const columnTargets = Object.fromEntries(
+      (Object.entries(targets) as Array<[CreditType, number]>)
+        .map(([creditType, target]) => [CREDIT_TYPE_RPC_MAP[creditType].balanceColumn, target])
+    );
+
+    const { error } = await this.supabase
+      .rpc('reset_credit_balances', {
+        p_account_id: accountId,
+        p_targets: columnTargets,
+        p_transaction_type: transactionType,
+        p_description: description
+      });
+
+    if (error) throw error;
   }
 
   /**
@@ -267,6 +357,166 @@ export class CreditsRepository extends BaseRepository<CreditBalance> {
     return this.deductDeepAnalyses(accountId, -amount, transactionType, description);
   }
 
+  // ===============================================================================
+  // RESERVATIONS (bulk holds)
+  // ===============================================================================
+
+  /**
+   * Reserve credits for a batch of analyses (idempotent per referenceId)
+   * Deducts the full amount immediately so the balance can't run out mid-batch
+   *
+   * reserve_analysis_credits locks the account's balances row, checks and
+   * deducts the amount ('reservation' ledger entry) and inserts the reservation
+   * in one transaction. It returns the existing reservation for a known
+   * reference_id and raises 'Insufficient balance' when the hold isn't covered
+   */
+  async reserveForAnalysis(
+    accountId: string,
+    analysisType: AnalysisType,
+    amount: number,
+    referenceId: string,
+    description: string,
+    createdBy?: string | null
+  ): Promise<CreditReservation> {
+    const existing = await this.findReservationByReference(referenceId);
+    if (existing) return this.assertActive(existing);
+
+    const { data, error } = await this.supabase
+      .rpc('reserve_analysis_credits', {
+        p_account_id: accountId,
+        p_analysis_type: analysisType,
+        p_credit_type: getCreditType(analysisType),
+        p_amount: amount,
+        p_reference_id: referenceId,
+        p_description: description,
+        p_created_by: createdBy ?? null
+      });
+
+    if (error) {
+      if (error.message?.includes('Insufficient')) {
+        throw new Error(`Insufficient ${analysisType} analyses balance to reserve ${amount}`);
+      }
+      throw error;
+    }
+
+    // A concurrent reserve may have created (and settled) the hold first
+    return this.assertActive(data as CreditReservation);
+  }
+
+  /**
+   * Get reservation by ID
+   */
+  async getReservation(reservationId: string): Promise<CreditReservation | null> {
+    const { data, error } = await this.supabase
+      .from('credit_reservations')
+      .select('*')
+      .eq('id', reservationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+
+    return data as CreditReservation;
+  }
+
+  /**
+   * Get reservation by owning entity
+   */
+  async findReservationByReference(referenceId: string): Promise<CreditReservation | null> {
+    const { data, error } = await this.supabase
+      .from('credit_reservations')
+      .select('*')
+      .eq('reference_id', referenceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as CreditReservation | null;
+  }
+
+  /**
+   * Convert part of a hold into a charge (balance already deducted at reserve time)
+   */
+  async chargeReservation(reservationId: string, amount: number): Promise<CreditReservation> {
+    return this.updateReservation(reservationId, reservation => {
+      if (amount > this.getHeldAmount(reservation)) {
+        throw new Error(`Reservation ${reservationId} has insufficient held credits`);
+      }
+      return { amount_charged: reservation.amount_charged + amount };
+    });
+  }
+
+  /**
+   * Refund part of a hold to the balance; omit amount to release everything
+   * still held and settle the reservation
+   *
+   * release_credit_reservation locks the reservation, caps the amount at what
+   * is still held, adds it to amount_released and credits the balance
+   * ('reservation_release' ledger entry) in one transaction, so a failed refund
+   * never leaves credits claimed but unreturned. Raises for settled
+   * reservations; returns the amount released
+   */
+  async releaseReservation(
+    reservationId: string,
+    description: string,
+    amount?: number
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .rpc('release_credit_reservation', {
+        p_reservation_id: reservationId,
+        p_amount: amount ?? null,
+        p_description: description
+      });
+
+    if (error) throw error;
+    return Number(data ?? 0);
+  }
+
+  private assertActive(reservation: CreditReservation): CreditReservation {
+    if (reservation.status !== 'active') {
+      throw new Error(`Reservation for ${reservation.reference_id} is already settled`);
+    }
+    return reservation;
+  }
+
+  private getHeldAmount(reservation: CreditReservation): number {
+    return reservation.amount_reserved - reservation.amount_charged - reservation.amount_released;
+  }
+
+  /**
+   * Compare-and-set on charged/released amounts so concurrent workflows
+   * drawing from the same hold don't overwrite each other
+   */
+  private async updateReservation(
+    reservationId: string,
+    mutate: (reservation: CreditReservation) => Partial<CreditReservation>
+  ): Promise<CreditReservation> {
+    for (let attempt = 0; attempt < RESERVATION_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.getReservation(reservationId);
+      if (!current) {
+        throw new Error(`Reservation ${reservationId} not found`);
+      }
+      if (current.status !== 'active') {
+        throw new Error(`Reservation ${reservationId} is already settled`);
+      }
+
+      const { data, error } = await this.supabase
+        .from('credit_reservations')
+        .update({ ...mutate(current), updated_at: new Date().toISOString() })
+        .eq('id', reservationId)
+        .eq('amount_charged', current.amount_charged)
+        .eq('amount_released', current.amount_released)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) return data as CreditReservation;
+    }
+
+    throw new Error(`Reservation ${reservationId} update conflicted ${RESERVATION_UPDATE_ATTEMPTS} times`);
+  }
+
   /**
    * Check if account has sufficient credits
    */
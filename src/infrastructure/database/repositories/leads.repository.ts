@@ -2,11 +2,13 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseRepository } from './base.repository';
+import { DEFAULT_LEAD_PLATFORM, getPlatformConfig, type LeadPlatform } from '@/config/platforms.config';
 
 export interface Lead {
   id: string;
   account_id: string;
   business_profile_id: string;
+  platform: LeadPlatform;
   username: string;
   display_name: string | null;
   follower_count: number;
@@ -28,6 +30,8 @@ export interface Lead {
 export interface UpsertLeadData {
   account_id: string;
   business_profile_id: string;
+  /** Defaults to instagram */
+  platform?: LeadPlatform;
   username: string;
   display_name?: string;
   follower_count: number;
@@ -54,13 +58,17 @@ export class LeadsRepository extends BaseRepository<Lead> {
   /**
    * Upsert lead (insert or update if exists)
    * Uses native Supabase upsert with conflict resolution
+   * A handle is a different lead on each platform (unique on account, platform, username)
    */
   async upsertLead(data: UpsertLeadData): Promise<UpsertLeadResult> {
+    const platform = data.platform ?? DEFAULT_LEAD_PLATFORM;
+
     // Check if lead exists
     const existing = await this.findByUsername(
       data.account_id,
       data.business_profile_id,
-      data.username
+      data.username,
+      platform
     );
 
     const now = new Date().toISOString();
@@ -69,13 +77,14 @@ export class LeadsRepository extends BaseRepository<Lead> {
     const payload: any = {
       account_id: data.account_id,
       business_profile_id: data.business_profile_id,
+      platform,
       username: data.username,
       display_name: data.display_name || null,
       follower_count: data.follower_count,
       following_count: data.following_count,
       post_count: data.post_count,
       profile_pic_url: data.profile_pic_url || null,
-      profile_url: data.profile_url || `https://instagram.com/${data.username}`,
+      profile_url: data.profile_url || getPlatformConfig(platform).profileUrl(data.username),
       external_url: data.external_url || null,
       is_verified: data.is_verified,
       is_private: data.is_private,
@@ -90,7 +99,7 @@ export class LeadsRepository extends BaseRepository<Lead> {
     const { data: result, error } = await this.supabase
       .from('leads')
       .upsert(payload, {
-        onConflict: 'account_id,username',
+        onConflict: 'account_id,platform,username',
         ignoreDuplicates: false
       })
       .select()
@@ -136,13 +145,15 @@ export class LeadsRepository extends BaseRepository<Lead> {
   async findByUsername(
     accountId: string,
     businessProfileId: string,
-    username: string
+    username: string,
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
   ): Promise<Lead | null> {
     const { data, error } = await this.supabase
       .from('leads')
       .select('*')
       .eq('account_id', accountId)
       .eq('business_profile_id', businessProfileId)
+      .eq('platform', platform)
       .eq('username', username)
       .is('deleted_at', null)
       .single();
@@ -154,6 +165,37 @@ export class LeadsRepository extends BaseRepository<Lead> {
 
     return data as Lead;
   }
+  /**
+   * Find which usernames already exist as leads for a business
+   * Batched counterpart of findByUsername for large imports
+   */
+  async findExistingUsernames(
+    accountId: string,
+    businessProfileId: string,
+    usernames: string[],
+    platform: LeadPlatform = DEFAULT_LEAD_PLATFORM
+  ): Promise<Set<string>> {
+    const existing = new Set<string>();
+    const chunkSize = 200;
+
+    for (let i = 0; i < usernames.length; i += chunkSize) {
+      const { data, error } = await this.supabase
+        .from('leads')
+        .select('username')
+        .eq('account_id', accountId)
+        .eq('business_profile_id', businessProfileId)
+        .eq('platform', platform)
+        .in('username', usernames.slice(i, i + chunkSize))
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      (data || []).forEach((row: { username: string }) => existing.add(row.username));
+    }
+
+    return existing;
+  }
+
 
   /**
    * Search leads by username pattern
@@ -0,0 +1,103 @@
+// infrastructure/durable-objects/broadcast-event-log.ts
+
+import type { DurableObjectStorage } from '@cloudflare/workers-types';
+import type { BroadcastMessage, SequencedBroadcastMessage } from '@/shared/types/broadcast.types';
+
+/**
+ * BROADCAST EVENT LOG
+ *
+ * Numbers an account's broadcasts and keeps the most recent ones in a ring
+ * buffer in GlobalBroadcasterDO storage, so a client that reconnects after a
+ * network blip can replay what it missed.
+ *
+ * Storage layout:
+ * - 'seq': last assigned sequence number (starts at 1)
+ * - 'event:<seq % capacity>': ring slot; older events are overwritten in place
+ */
+
+/** Events kept for replay per account */
+export const BROADCAST_REPLAY_CAPACITY = 200;
+
+const SEQ_KEY = 'seq';
+const EVENT_KEY_PREFIX = 'event:';
+
+/** DurableObjectStorage.get() accepts at most 128 keys per call */
+const MAX_KEYS_PER_GET = 128;
+
+export interface BroadcastReplay {
+  events: SequencedBroadcastMessage[];
+  /** false when some missed events are no longer buffered */
+  complete: boolean;
+}
+
+export class BroadcastEventLog {
+  private seq = 0;
+
+  constructor(
+    private storage: Pick<DurableObjectStorage, 'get' | 'put'>,
+    private capacity: number = BROADCAST_REPLAY_CAPACITY
+  ) {}
+
+  /**
+   * Restore the counter (call inside blockConcurrencyWhile)
+   */
+  async load(): Promise<void> {
+    this.seq = (await this.storage.get<number>(SEQ_KEY)) ?? 0;
+  }
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Number and store an event
+   * The counter advances synchronously, so concurrent appends never share a seq
+   */
+  async append(message: BroadcastMessage): Promise<SequencedBroadcastMessage> {
+    const sequenced: SequencedBroadcastMessage = { ...message, seq: ++this.seq };
+
+    await this.storage.put({
+      [SEQ_KEY]: sequenced.seq,
+      [this.slotKey(sequenced.seq)]: sequenced
+    });
+
+    return sequenced;
+  }
+
+  /**
+   * Events after `since`, oldest first
+   */
+  async since(since: number): Promise<BroadcastReplay> {
+    // Client is ahead of the log (storage was reset): nothing to replay, state is unknown
+    if (since > this.seq) {
+      return { events: [], complete: false };
+    }
+
+    const first = Math.max(since + 1, this.seq - this.capacity + 1);
+    const seqs: number[] = [];
+    for (let seq = first; seq <= this.seq; seq++) {
+      seqs.push(seq);
+    }
+
+    const events: SequencedBroadcastMessage[] = [];
+    for (let i = 0; i < seqs.length; i += MAX_KEYS_PER_GET) {
+      const chunk = seqs.slice(i, i + MAX_KEYS_PER_GET);
+      const stored = await this.storage.get<SequencedBroadcastMessage>(chunk.map(seq => this.slotKey(seq)));
+
+      for (const seq of chunk) {
+        const event = stored.get(this.slotKey(seq));
+        // Slot never written (log predates buffering) or already reused
+        if (!event || event.seq !== seq) {
+          return { events: [], complete: false };
+        }
+        events.push(event);
+      }
+    }
+
+    return { events, complete: first === since + 1 };
+  }
+
+  private slotKey(seq: number): string {
+    return EVENT_KEY_PREFIX + (seq % this.capacity);
+  }
+}
@@ -0,0 +1,99 @@
+// infrastructure/durable-objects/broadcast.publisher.ts
+
+import type { Env } from '@/shared/types/env.types';
+import { BROADCAST_EVENTS, type BroadcastEventType, type BroadcastEventData, type CreditsUpdateReason } from '@/config/broadcast-events.config';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { getSecret } from '@/infrastructure/config/secrets';
+import {
+  signBroadcast,
+  BROADCAST_SIGNATURE_HEADER,
+  BROADCAST_SIGNING_SECRET_NAME
+} from '@/infrastructure/auth/broadcast-signature.service';
+import { logger } from '@/shared/utils/logger.util';
+
+export interface BroadcastInput<T extends BroadcastEventType> {
+  type: T;
+  runId?: string;
+  data: BroadcastEventData<T>;
+}
+
+/**
+ * Send a signed event straight to the account's GlobalBroadcasterDO
+ * Throws on invalid payloads and transport errors
+ */
+export async function publishBroadcast<T extends BroadcastEventType>(
+  env: Env,
+  accountId: string,
+  message: BroadcastInput<T>
+): Promise<Response> {
+  const data = BROADCAST_EVENTS[message.type].schema.parse(message.data);
+
+  const secret = await getSecret(BROADCAST_SIGNING_SECRET_NAME, env, env.APP_ENV);
+  const body = JSON.stringify({ type: message.type, runId: message.runId, data, timestamp: Date.now() });
+
+  const broadcasterId = env.GLOBAL_BROADCASTER.idFromName(accountId);
+  const broadcasterDO = env.GLOBAL_BROADCASTER.get(broadcasterId);
+
+  return broadcasterDO.fetch('http://do/broadcast', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [BROADCAST_SIGNATURE_HEADER]: await signBroadcast(secret, body)
+    },
+    body
+  });
+}
+
+/**
+ * publishBroadcast for callers where a missed event must never fail the operation
+ */
+export async function tryPublishBroadcast<T extends BroadcastEventType>(
+  env: Env,
+  accountId: string,
+  message: BroadcastInput<T>
+): Promise<void> {
+  try {
+    const response = await publishBroadcast(env, accountId, message);
+    if (!response.ok) {
+      logger.warn('[Broadcast] Publish rejected (non-fatal)', { accountId, type: message.type, status: response.status });
+    }
+  } catch (error) {
+    logger.warn('[Broadcast] Publish failed (non-fatal)', {
+      accountId,
+      type: message.type,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Push the account's current balances after they changed (non-fatal)
+ */
+export async function publishCreditsUpdated(env: Env, accountId: string, reason: CreditsUpdateReason): Promise<void> {
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(env);
+    const { data: balance, error } = await supabase
+      .from('balances')
+      .select('credit_balance, light_analyses_balance')
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!balance) return;
+
+    await tryPublishBroadcast(env, accountId, {
+      type: 'credits.updated',
+      data: {
+        credit_balance: balance.credit_balance ?? 0,
+        light_analyses_balance: balance.light_analyses_balance ?? 0,
+        reason
+      }
+    });
+  } catch (error) {
+    logger.warn('[Broadcast] Credits update failed (non-fatal)', {
+      accountId,
+      reason,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,640 @@
+// infrastructure/durable-objects/bulk-batch.do.ts
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '@/shared/types/env.types';
+import type {
+  BulkBatchState,
+  BulkBatchItem,
+  BulkBatchSummary,
+  BulkBatchCounts,
+  BulkBatchItemResult,
+  BulkBatchInitParams
+} from '@/shared/types/bulk-batch.types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
+import { AnalysisRepository } from '@/infrastructure/database/repositories/analysis.repository';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { getCreditCost } from '@/config/operations-pricing.config';
+import { getAnalysisConfig } from '@/config/analysis-types.config';
+import { WebhookDispatcher } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { publishBroadcast, publishCreditsUpdated } from './broadcast.publisher';
+import { generateId } from '@/shared/utils/id.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * BULK BATCH DURABLE OBJECT
+ *
+ * One instance per bulk batch (named by batch_id). Owns the batch as a durable
+ * entity so progress, pause/resume and cancellation keep working after the
+ * originating request has ended.
+ *
+ * ARCHITECTURE:
+ * - Storage holds the full batch state (≤50 items, single key)
+ * - Alarms drive dispatch: at most MAX_IN_FLIGHT workflows run concurrently (Apify limit)
+ * - AnalysisWorkflow reports each run's outcome via POST /item-result
+ * - Watchdog alarm polls workflow status for runs that never reported back
+ * - Aggregate progress is pushed to the account's GlobalBroadcasterDO as 'batch.progress'
+ *
+ * Pause/cancel stop dispatching new analyses; in-flight analyses always run to
+ * completion so their credit deduction/refund stays consistent.
+ *
+ * CREDITS:
+ * - The batch cost is held in a credit reservation created before init
+ * - Workflows charge (complete) or release (refunded bypass) their own share
+ * - This DO releases the share of cancelled, skipped-at-dispatch and
+ *   permanently failed items, then settles the remainder when the batch finishes
+ */
+
+const MAX_IN_FLIGHT = 10;
+const MAX_ATTEMPTS = 3;
+const DISPATCH_DELAY_MS = 1000;
+const WATCHDOG_INTERVAL_MS = 5 * 60 * 1000;
+const STALE_DISPATCH_MS = 10 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Workflow errors that retrying can't fix ('Insufficient' balance pauses the batch instead) */
+const NON_RETRYABLE_ERRORS = ['Business profile not found'];
+
+export class BulkBatchDO extends DurableObject<Env> {
+  private batch: BulkBatchState | null = null;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    // Load once; all handlers mutate this single in-memory copy
+    this.ctx.blockConcurrencyWhile(async () => {
+      this.batch = (await this.ctx.storage.get<BulkBatchState>('batch')) ?? null;
+    });
+  }
+
+  /**
+   * Handle HTTP requests to this Durable Object
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method;
+
+    try {
+      if (method === 'POST' && url.pathname === '/init') {
+        const params = await request.json() as BulkBatchInitParams;
+        return Response.json(await this.initialize(params));
+      }
+
+      if (!this.batch) {
+        return Response.json({ error: 'Batch not found' }, { status: 404 });
+      }
+
+      if (method === 'GET' && url.pathname === '/state') {
+        return Response.json({ summary: this.summarize(this.batch), items: this.batch.items });
+      }
+
+      if (method === 'POST' && url.pathname === '/item-result') {
+        const result = await request.json() as BulkBatchItemResult;
+        await this.applyItemResult(result);
+        return Response.json(this.summarize(this.batch));
+      }
+
+      if (method === 'POST' && url.pathname === '/pause') {
+        return this.transition('pause');
+      }
+
+      if (method === 'POST' && url.pathname === '/resume') {
+        return this.transition('resume');
+      }
+
+      if (method === 'POST' && url.pathname === '/cancel') {
+        return this.transition('cancel');
+      }
+
+      return new Response('Not found', { status: 404 });
+    } catch (error: any) {
+      logger.error('[BulkBatch] Request failed', {
+        path: url.pathname,
+        batchId: this.batch?.batch_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return Response.json({ error: error.message || 'Internal error' }, { status: 500 });
+    }
+  }
+
+  /**
+   * Alarm: watchdog → dispatch → finalize → broadcast → reschedule
+   */
+  async alarm(): Promise<void> {
+    const batch = this.batch;
+    if (!batch) return;
+
+    // Retention cleanup for finished batches
+    if (batch.completed_at && Date.now() - Date.parse(batch.completed_at) >= RETENTION_MS) {
+      logger.info('[BulkBatch] Retention expired, deleting state', { batchId: batch.batch_id });
+      await this.ctx.storage.deleteAll();
+      this.batch = null;
+      return;
+    }
+
+    await this.reconcileStaleItems(batch);
+
+    if (batch.status === 'running') {
+      await this.dispatchPending(batch);
+    }
+
+    await this.finalizeIfDone(batch);
+    await this.persist();
+    await this.broadcast(batch);
+    await this.scheduleNextAlarm(batch);
+  }
+
+  // ===============================================================================
+  // STATE TRANSITIONS
+  // ===============================================================================
+
+  /**
+   * Create batch state (idempotent - redelivered init returns existing summary)
+   * With failure_reason the batch is stored finished, every item failed, so
+   * chunks that never started still show up in progress and import summaries
+   */
+  private async initialize(params: BulkBatchInitParams): Promise<BulkBatchSummary> {
+    if (this.batch) {
+      return this.summarize(this.batch);
+    }
+
+    const now = new Date().toISOString();
+    const failure = params.failure_reason ?? null;
+    this.batch = {
+      batch_id: params.batch_id,
+      import_id: params.import_id,
+      account_id: params.account_id,
+      business_profile_id: params.business_profile_id,
+      analysis_type: params.analysis_type,
+      status: failure ? 'complete' : 'running',
+      pause_reason: null,
+      failure_reason: failure,
+      reservation_id: failure ? null : params.reservation_id,
+      requested_by: params.requested_by,
+      items: params.usernames.map(username => ({
+        username,
+        status: failure ? 'failed' : 'pending',
+        run_id: null,
+        attempts: 0,
+        credits_spent: 0,
+        error: failure,
+        dispatched_at: null,
+        updated_at: now
+      })),
+      credits_spent: 0,
+      created_at: now,
+      updated_at: now,
+      completed_at: failure ? now : null
+    };
+
+    await this.persist();
+
+    if (failure) {
+      // Retention alarm only; nothing to dispatch
+      await this.scheduleNextAlarm(this.batch);
+      await this.broadcast(this.batch);
+      await this.emitCompletedWebhook(this.batch);
+    } else {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+
+    logger.info('[BulkBatch] Initialized', {
+      batchId: params.batch_id,
+      importId: params.import_id,
+      accountId: params.account_id,
+      total: params.usernames.length,
+      failureReason: failure
+    });
+
+    return this.summarize(this.batch);
+  }
+
+  private async transition(action: 'pause' | 'resume' | 'cancel'): Promise<Response> {
+    const batch = this.batch!;
+
+    if (batch.status === 'complete' || batch.status === 'cancelled') {
+      return Response.json({ error: `Batch is already ${batch.status}` }, { status: 409 });
+    }
+
+    if (action === 'pause') {
+      batch.status = 'paused';
+      batch.pause_reason = 'user';
+    } else if (action === 'resume') {
+      if (batch.status !== 'paused') {
+        return Response.json({ error: 'Batch is not paused' }, { status: 409 });
+      }
+      batch.status = 'running';
+      batch.pause_reason = null;
+    } else {
+      const now = new Date().toISOString();
+      const cancelled = batch.items.filter(item => item.status === 'pending');
+      batch.status = 'cancelled';
+      cancelled.forEach(item => {
+        item.status = 'cancelled';
+        item.updated_at = now;
+      });
+
+      // Return the cancelled items' share now; in-flight items may still run for minutes
+      await this.releaseHold(batch, 'cancelled', cancelled.length);
+    }
+
+    await this.finalizeIfDone(batch);
+    await this.persist();
+    await this.broadcast(batch);
+    await this.scheduleNextAlarm(batch, action === 'resume' ? 0 : undefined);
+
+    logger.info('[BulkBatch] Status changed', { batchId: batch.batch_id, action, status: batch.status });
+
+    return Response.json(this.summarize(batch));
+  }
+
+  /**
+   * Record a workflow outcome (idempotent per run_id)
+   */
+  private async applyItemResult(result: BulkBatchItemResult): Promise<void> {
+    const batch = this.batch!;
+    const item = batch.items.find(i => i.run_id === result.run_id);
+
+    if (!item || item.status !== 'dispatched') {
+      return;
+    }
+
+    await this.recordOutcome(batch, item, result);
+    await this.finalizeIfDone(batch);
+    await this.persist();
+    await this.broadcast(batch);
+    await this.scheduleNextAlarm(batch, DISPATCH_DELAY_MS);
+  }
+
+  private async recordOutcome(
+    batch: BulkBatchState,
+    item: BulkBatchItem,
+    result: BulkBatchItemResult
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    item.updated_at = now;
+    item.credits_spent += result.credits_spent;
+
+    if (result.outcome === 'complete' || result.outcome === 'skipped') {
+      item.status = result.outcome;
+      item.error = result.outcome === 'skipped' ? (result.error ?? null) : null;
+    } else {
+      item.error = result.error ?? 'Analysis failed';
+      const retryable = !NON_RETRYABLE_ERRORS.some(marker => item.error!.includes(marker));
+
+      if (item.error.includes('Insufficient')) {
+        // Out of balance: every remaining item would fail the same way.
+        // Pause and keep the item pending (attempt not counted) so resume picks it up
+        item.status = 'pending';
+        item.attempts = Math.max(0, item.attempts - 1);
+        if (batch.status === 'running') {
+          batch.status = 'paused';
+          batch.pause_reason = 'insufficient_balance';
+        }
+      } else if (retryable && item.attempts < MAX_ATTEMPTS) {
+        item.status = 'pending';
+      } else {
+        item.status = 'failed';
+        // Workflows leave the hold untouched on failure so retries can use it
+        await this.releaseHold(batch, `failed: @${item.username}`, 1);
+      }
+    }
+
+    batch.credits_spent = batch.items.reduce((sum, i) => sum + i.credits_spent, 0);
+    batch.updated_at = now;
+  }
+
+  private async finalizeIfDone(batch: BulkBatchState): Promise<void> {
+    if (batch.completed_at) return;
+
+    const open = batch.items.some(i => i.status === 'pending' || i.status === 'dispatched');
+    if (open) return;
+
+    if (batch.status !== 'cancelled') {
+      batch.status = 'complete';
+      batch.pause_reason = null;
+    }
+    batch.completed_at = new Date().toISOString();
+
+    // Settle: refund anything neither charged nor already released
+    await this.releaseHold(batch, batch.status);
+
+    logger.info('[BulkBatch] Finished', {
+      batchId: batch.batch_id,
+      status: batch.status,
+      creditsSpent: batch.credits_spent
+    });
+
+    await this.emitCompletedWebhook(batch);
+  }
+
+  /**
+   * Emit batch.completed (also for cancelled batches; status tells them apart)
+   * Non-fatal: deliveries are deduped per batch, so a replayed finalize is safe
+   */
+  private async emitCompletedWebhook(batch: BulkBatchState): Promise<void> {
+    try {
+      const dispatcher = new WebhookDispatcher(this.env);
+      await dispatcher.emit(
+        batch.account_id,
+        'batch.completed',
+        `batch.completed:${batch.batch_id}`,
+        { ...this.summarize(batch) }
+      );
+    } catch (error) {
+      logger.error('[BulkBatch] Webhook emit error (non-fatal)', {
+        batchId: batch.batch_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // ===============================================================================
+  // DISPATCH
+  // ===============================================================================
+
+  /**
+   * Start workflows for pending items up to the in-flight limit
+   */
+  private async dispatchPending(batch: BulkBatchState): Promise<void> {
+    const inFlight = batch.items.filter(i => i.status === 'dispatched').length;
+    const slots = MAX_IN_FLIGHT - inFlight;
+    if (slots <= 0) return;
+
+    const candidates = batch.items.filter(i => i.status === 'pending').slice(0, slots);
+
+    for (const item of candidates) {
+      // Pause/cancel may land while awaiting a previous dispatch
+      if (batch.status !== 'running') break;
+      await this.dispatchItem(batch, item);
+    }
+  }
+
+  private async dispatchItem(batch: BulkBatchState, item: BulkBatchItem): Promise<void> {
+    const runId = generateId('run');
+    const now = new Date().toISOString();
+
+    // Claim before awaiting so concurrent alarms/results don't double-dispatch
+    item.status = 'dispatched';
+    item.run_id = runId;
+    item.attempts++;
+    item.dispatched_at = now;
+    item.updated_at = now;
+
+    try {
+      const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+      const leadsRepo = new LeadsRepository(supabase);
+      const analysisRepo = new AnalysisRepository(supabase);
+
+      // Reuse existing lead; only create a placeholder for new usernames
+      const existingLead = await leadsRepo.findByUsername(
+        batch.account_id,
+        batch.business_profile_id,
+        item.username
+      );
+
+      if (existingLead) {
+        const inProgress = await analysisRepo.findInProgressAnalysis(existingLead.id, batch.account_id);
+        if (inProgress) {
+          await this.recordOutcome(batch, item, {
+            run_id: runId,
+            outcome: 'skipped',
+            credits_spent: 0,
+            error: `Analysis already in progress (${inProgress.run_id})`
+          });
+          await this.releaseHold(batch, `skipped: @${item.username}`, 1);
+          return;
+        }
+      }
+
+      const leadId = existingLead?.id ?? (await leadsRepo.upsertLead({
+        account_id: batch.account_id,
+        business_profile_id: batch.business_profile_id,
+        username: item.username,
+        follower_count: 0,
+        following_count: 0,
+        post_count: 0,
+        is_verified: false,
+        is_private: false,
+        is_business_account: false
+      })).lead_id;
+
+      // Pending record lets getActiveAnalyses and the workflow's save step find this run
+      await analysisRepo.createAnalysis({
+        run_id: runId,
+        lead_id: leadId,
+        account_id: batch.account_id,
+        business_profile_id: batch.business_profile_id,
+        analysis_type: batch.analysis_type,
+        status: 'pending',
+        requested_by: batch.requested_by ?? null
+      });
+
+      await this.env.ANALYSIS_WORKFLOW.create({
+        id: runId,
+        params: {
+          run_id: runId,
+          account_id: batch.account_id,
+          business_profile_id: batch.business_profile_id,
+          username: item.username,
+          analysis_type: batch.analysis_type,
+          requested_at: now,
+          batch_id: batch.batch_id,
+          reservation_id: batch.reservation_id ?? undefined,
+          requested_by: batch.requested_by ?? undefined
+        }
+      });
+
+      logger.info('[BulkBatch] Dispatched', {
+        batchId: batch.batch_id,
+        username: item.username,
+        runId,
+        attempt: item.attempts
+      });
+    } catch (error: any) {
+      logger.error('[BulkBatch] Dispatch failed', {
+        batchId: batch.batch_id,
+        username: item.username,
+        runId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      await this.recordOutcome(batch, item, {
+        run_id: runId,
+        outcome: 'failed',
+        credits_spent: 0,
+        error: `Dispatch failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  /**
+   * Watchdog: resolve dispatched runs whose completion report never arrived
+   */
+  private async reconcileStaleItems(batch: BulkBatchState): Promise<void> {
+    const cutoff = Date.now() - STALE_DISPATCH_MS;
+    const stale = batch.items.filter(i =>
+      i.status === 'dispatched' && i.run_id && i.dispatched_at && Date.parse(i.dispatched_at) < cutoff
+    );
+
+    for (const item of stale) {
+      try {
+        const instance = await this.env.ANALYSIS_WORKFLOW.get(item.run_id!);
+        const status = await instance.status();
+
+        if (status.status === 'complete') {
+          const output = status.output as { bypassed?: boolean; bypass_reason?: string } | undefined;
+          await this.recordOutcome(batch, item, output?.bypassed
+            ? { run_id: item.run_id!, outcome: 'skipped', credits_spent: 0, error: output.bypass_reason }
+            : { run_id: item.run_id!, outcome: 'complete', credits_spent: getCreditCost(batch.analysis_type) });
+        } else if (status.status === 'errored' || status.status === 'terminated') {
+          await this.recordOutcome(batch, item, {
+            run_id: item.run_id!,
+            outcome: 'failed',
+            credits_spent: 0,
+            error: status.error || `Workflow ${status.status}`
+          });
+        }
+      } catch (error: any) {
+        logger.warn('[BulkBatch] Watchdog status check failed', {
+          batchId: batch.batch_id,
+          runId: item.run_id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  private async scheduleNextAlarm(batch: BulkBatchState, delayMs?: number): Promise<void> {
+    if (batch.completed_at) {
+      await this.ctx.storage.setAlarm(Date.parse(batch.completed_at) + RETENTION_MS);
+      return;
+    }
+
+    const hasPending = batch.items.some(i => i.status === 'pending');
+    const inFlight = batch.items.filter(i => i.status === 'dispatched').length;
+
+    // Paused with nothing in flight: resume schedules the next alarm
+    if (batch.status !== 'running' && inFlight === 0) return;
+
+    let nextDelay = WATCHDOG_INTERVAL_MS;
+    if (batch.status === 'running' && hasPending && inFlight < MAX_IN_FLIGHT) {
+      nextDelay = delayMs ?? DISPATCH_DELAY_MS;
+    }
+
+    // Never push an earlier alarm further out
+    const current = await this.ctx.storage.getAlarm();
+    const next = Date.now() + nextDelay;
+    if (current === null || next < current) {
+      await this.ctx.storage.setAlarm(next);
+    }
+  }
+
+  // ===============================================================================
+  // HELPERS
+  // ===============================================================================
+
+  /**
+   * Refund part of the batch hold (itemCount × analysis cost), or settle the
+   * whole remainder when itemCount is omitted (non-fatal)
+   */
+  private async releaseHold(batch: BulkBatchState, reason: string, itemCount?: number): Promise<void> {
+    // Batches created before reservations existed have no hold
+    if (!batch.reservation_id || itemCount === 0) return;
+
+    const amount = itemCount === undefined
+      ? undefined
+      : itemCount * getAnalysisConfig(batch.analysis_type).pricing.creditCost;
+
+    try {
+      const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+      const creditsRepo = new CreditsRepository(supabase);
+      const released = await creditsRepo.releaseReservation(
+        batch.reservation_id,
+        `Bulk batch ${batch.batch_id} ${reason}`,
+        amount
+      );
+
+      logger.info('[BulkBatch] Credit hold released', {
+        batchId: batch.batch_id,
+        reservationId: batch.reservation_id,
+        reason,
+        released
+      });
+
+      await publishCreditsUpdated(this.env, batch.account_id, 'refund');
+    } catch (error: any) {
+      logger.error('[BulkBatch] Credit hold release failed', {
+        batchId: batch.batch_id,
+        reservationId: batch.reservation_id,
+        reason,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (this.batch) {
+      this.batch.updated_at = new Date().toISOString();
+      await this.ctx.storage.put('batch', this.batch);
+    }
+  }
+
+  private summarize(batch: BulkBatchState): BulkBatchSummary {
+    const counts: BulkBatchCounts = {
+      pending: 0,
+      dispatched: 0,
+      complete: 0,
+      skipped: 0,
+      failed: 0,
+      cancelled: 0
+    };
+    batch.items.forEach(item => counts[item.status]++);
+
+    const total = batch.items.length;
+    const finished = counts.complete + counts.skipped + counts.failed + counts.cancelled;
+
+    return {
+      batch_id: batch.batch_id,
+      import_id: batch.import_id,
+      account_id: batch.account_id,
+      status: batch.status,
+      pause_reason: batch.pause_reason,
+      failure_reason: batch.failure_reason ?? null,
+      analysis_type: batch.analysis_type,
+      total_count: total,
+      counts,
+      progress: total > 0 ? Math.floor((finished / total) * 100) : 100,
+      credits_spent: batch.credits_spent,
+      retries: batch.items.reduce((sum, i) => sum + Math.max(0, i.attempts - 1), 0),
+      created_at: batch.created_at,
+      updated_at: batch.updated_at,
+      completed_at: batch.completed_at
+    };
+  }
+
+  /**
+   * Push aggregate progress to the account's WebSocket connections (non-fatal)
+   */
+  private async broadcast(batch: BulkBatchState): Promise<void> {
+    try {
+      const summary = this.summarize(batch);
+
+      await publishBroadcast(this.env, batch.account_id, {
+        type: 'batch.progress',
+        runId: batch.batch_id,
+        data: {
+          progress: summary.progress,
+          step: { current: summary.total_count - summary.counts.pending - summary.counts.dispatched, total: summary.total_count },
+          status: summary.status,
+          batch: summary
+        }
+      });
+    } catch (error) {
+      logger.warn('[BulkBatch] Broadcast failed (non-fatal)', {
+        batchId: batch.batch_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
@@ -1,7 +1,28 @@
 // infrastructure/durable-objects/global-broadcaster.do.ts
 
 import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '@/shared/types/env.types';
+import type {
+  BroadcastMessage,
+  BroadcastReadyMessage,
+  BroadcastSubscribedMessage
+} from '@/shared/types/broadcast.types';
+import {
+  getBroadcastTopic,
+  isBroadcastTopic,
+  parseBroadcastTopics,
+  type BroadcastTopic
+} from '@/config/broadcast-events.config';
+import { getSecret } from '@/infrastructure/config/secrets';
+import {
+  verifyBroadcast,
+  BROADCAST_SIGNATURE_HEADER,
+  BROADCAST_SIGNING_SECRET_NAME,
+  BROADCAST_SIGNATURE_TOLERANCE_SECONDS,
+  type BroadcastNonceStore
+} from '@/infrastructure/auth/broadcast-signature.service';
 import { logger } from '@/shared/utils/logger.util';
+import { BroadcastEventLog } from './broadcast-event-log';
 
 /**
  * GLOBAL BROADCASTER DURABLE OBJECT
@@ -10,8 +31,13 @@ import { logger } from '@/shared/utils/logger.util';
  *
  * ARCHITECTURE:
  * - ONE instance per account (named by accountId)
- * - Receives broadcast requests from Workflows via Worker proxy
+ * - Receives signed events straight from publishers (workflows, DOs, queue consumers)
+ *   (unsigned, expired or replayed events are rejected; see broadcast-signature.service)
  * - Broadcasts to ALL connected WebSocket clients
+ * - Numbers every event (seq) and buffers the latest ones, so a reconnecting
+ *   client can resume with ?since=<seq> (see broadcast-event-log)
+ * - Delivers only the topics a socket subscribed to (all by default; see
+ *   config/broadcast-events.config.ts)
  * - Uses WebSocket Hibernation API for cost efficiency
  *
  * BENEFITS vs per-analysis DOs:
@@ -21,25 +47,29 @@ import { logger } from '@/shared/utils/logger.util';
  * - Scales to unlimited concurrent analyses
  */
 
-interface BroadcastMessage {
-  type: 'analysis.progress' | 'analysis.complete' | 'analysis.failed';
-  runId: string;
-  data: {
-    progress: number;
-    step: { current: number; total: number };
-    status: string;
-    currentStep?: string;
-    avatarUrl?: string;
-    leadId?: string;
-    error?: string;
-  };
-  timestamp: number;
+/** Stored per nonce until its signature expires */
+const NONCE_KEY_PREFIX = 'nonce:';
+
+/** DurableObjectStorage.delete() accepts at most 128 keys per call */
+const MAX_KEYS_PER_DELETE = 128;
+
+/** Per-socket metadata (survives hibernation) */
+interface SocketAttachment {
+  accountId: string | null;
+  connectedAt: number;
+  /** null = every topic */
+  topics: BroadcastTopic[] | null;
 }
 
-export class GlobalBroadcasterDO extends DurableObject {
+export class GlobalBroadcasterDO extends DurableObject<Env> {
+  private eventLog: BroadcastEventLog;
+
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
 
+    this.eventLog = new BroadcastEventLog(this.ctx.storage);
+    this.ctx.blockConcurrencyWhile(() => this.eventLog.load());
+
     // Auto-respond to pings without waking from hibernation
     this.ctx.setWebSocketAutoResponse(
       new WebSocketRequestResponsePair(
@@ -56,31 +86,47 @@ export class GlobalBroadcasterDO extends DurableObject {
     // WEBSOCKET UPGRADE - Frontend connects here
     // =========================================================================
     if (request.headers.get('Upgrade') === 'websocket') {
+      // Read missed events before accepting, so live events can't jump the queue
+      const since = url.searchParams.get('since');
+      const replay = since !== null ? await this.eventLog.since(Number(since)) : null;
+      const topicsParam = url.searchParams.get('topics');
+      const topics = topicsParam ? parseBroadcastTopics(topicsParam) : null;
+
       const pair = new WebSocketPair();
       const [client, server] = Object.values(pair);
 
       // Accept with hibernation support
       this.ctx.acceptWebSocket(server);
 
-      // Attach account metadata
+      // Attach account metadata and topic subscription
       const accountId = url.searchParams.get('accountId');
-      if (accountId) {
-        server.serializeAttachment({
-          accountId,
-          connectedAt: Date.now()
-        });
-      }
+      server.serializeAttachment({
+        accountId,
+        connectedAt: Date.now(),
+        topics
+      } satisfies SocketAttachment);
 
       logger.info('[GlobalBroadcaster] WebSocket connected', {
         accountId,
+        since,
+        topics,
+        replayed: replay?.events.length ?? 0,
+        resync: replay ? !replay.complete : false,
         totalConnections: this.ctx.getWebSockets().length
       });
 
-      // Send ready confirmation
+      replay?.events
+        .filter(event => isSubscribed(topics, event))
+        .forEach(event => server.send(JSON.stringify(event)));
+
+      // Send ready confirmation (client is caught up, or must reload on resync)
       server.send(JSON.stringify({
         type: 'ready',
+        seq: this.eventLog.lastSeq,
+        replayed: replay?.events.length ?? 0,
+        resync: replay ? !replay.complete : false,
         timestamp: Date.now()
-      }));
+      } satisfies BroadcastReadyMessage));
 
       return new Response(null, {
         status: 101,
@@ -89,11 +135,25 @@ export class GlobalBroadcasterDO extends DurableObject {
     }
 
     // =========================================================================
-    // BROADCAST ENDPOINT - Worker calls this when Workflow updates progress
+    // BROADCAST ENDPOINT - publishBroadcast() posts signed events here
     // =========================================================================
     if (url.pathname === '/broadcast' && request.method === 'POST') {
       try {
-        const message: BroadcastMessage = await request.json();
+        const body = await request.text();
+        const secret = await getSecret(BROADCAST_SIGNING_SECRET_NAME, this.env, this.env.APP_ENV);
+        const verification = await verifyBroadcast(
+          secret,
+          request.headers.get(BROADCAST_SIGNATURE_HEADER),
+          body,
+          this.nonceStore
+        );
+
+        if (!verification.valid) {
+          logger.warn('[GlobalBroadcaster] Rejected unverified broadcast', { reason: verification.reason });
+          return Response.json({ success: false, error: 'Invalid signature' }, { status: 401 });
+        }
+
+        const message = await this.eventLog.append(JSON.parse(body) as BroadcastMessage);
 
         // Broadcast to ALL connected WebSockets
         const sockets = this.ctx.getWebSockets();
@@ -102,7 +162,8 @@ export class GlobalBroadcasterDO extends DurableObject {
 
         sockets.forEach(ws => {
           try {
-            if (ws.readyState === WebSocket.OPEN) {
+            const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+            if (ws.readyState === WebSocket.OPEN && isSubscribed(attachment?.topics ?? null, message)) {
               ws.send(JSON.stringify(message));
               successCount++;
             }
@@ -117,7 +178,7 @@ export class GlobalBroadcasterDO extends DurableObject {
         logger.info('[GlobalBroadcaster] Broadcast complete', {
           runId: message.runId,
           type: message.type,
-          progress: message.data.progress,
+          seq: message.seq,
           successCount,
           failCount,
           totalSockets: sockets.length
@@ -125,6 +186,7 @@ export class GlobalBroadcasterDO extends DurableObject {
 
         return Response.json({
           success: true,
+          seq: message.seq,
           delivered: successCount,
           failed: failCount
         });
@@ -145,6 +207,7 @@ export class GlobalBroadcasterDO extends DurableObject {
       return Response.json({
         status: 'healthy',
         connections: sockets.length,
+        seq: this.eventLog.lastSeq,
         timestamp: Date.now()
       });
     }
@@ -152,6 +215,56 @@ export class GlobalBroadcasterDO extends DurableObject {
     return new Response('Not found', { status: 404 });
   }
 
+  /**
+   * Prune nonces whose signatures have expired
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    let startAfter: string | undefined;
+    let pending = false;
+
+    // Page through nonces so each delete stays within the storage key limit
+    while (true) {
+      const page = await this.ctx.storage.list<number>({
+        prefix: NONCE_KEY_PREFIX,
+        limit: MAX_KEYS_PER_DELETE,
+        ...(startAfter ? { startAfter } : {})
+      });
+      const keys = [...page.keys()];
+      const expired = [...page].filter(([, expiresAt]) => expiresAt <= now).map(([key]) => key);
+
+      if (expired.length > 0) {
+        await this.ctx.storage.delete(expired);
+      }
+      pending ||= expired.length < keys.length;
+
+      if (keys.length < MAX_KEYS_PER_DELETE) break;
+      startAfter = keys[keys.length - 1];
+    }
+
+    if (pending) {
+      await this.ctx.storage.setAlarm(now + BROADCAST_SIGNATURE_TOLERANCE_SECONDS * 1000);
+    }
+  }
+
+  /**
+   * Nonces live in storage (not memory) so replay protection survives hibernation
+   */
+  private nonceStore: BroadcastNonceStore = {
+    claim: async (nonce, expiresAt) => {
+      const key = NONCE_KEY_PREFIX + nonce;
+      if (await this.ctx.storage.get<number>(key)) {
+        return false;
+      }
+
+      await this.ctx.storage.put(key, expiresAt);
+      if ((await this.ctx.storage.getAlarm()) === null) {
+        await this.ctx.storage.setAlarm(expiresAt);
+      }
+      return true;
+    }
+  };
+
   // Hibernation-safe WebSocket handlers
   async webSocketMessage(ws: WebSocket, message: string) {
     // Handle client messages if needed (e.g., heartbeat)
@@ -159,12 +272,35 @@ export class GlobalBroadcasterDO extends DurableObject {
       const data = JSON.parse(message);
       if (data.type === 'ping') {
         ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+      } else if (data.type === 'subscribe') {
+        this.subscribe(ws, data.topics);
       }
     } catch (error) {
       logger.warn('[GlobalBroadcaster] Invalid message', { message });
     }
   }
 
+  /**
+   * Replace a socket's topics ({ type: 'subscribe', topics: [] } = every topic)
+   */
+  private subscribe(ws: WebSocket, requested: unknown): void {
+    if (!Array.isArray(requested) || !requested.every(isBroadcastTopic)) {
+      ws.send(JSON.stringify({ type: 'error', error: 'Unknown topic', timestamp: Date.now() }));
+      return;
+    }
+
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+    const topics = requested.length > 0 ? [...new Set(requested)] : null;
+
+    ws.serializeAttachment({
+      accountId: attachment?.accountId ?? null,
+      connectedAt: attachment?.connectedAt ?? Date.now(),
+      topics
+    } satisfies SocketAttachment);
+
+    ws.send(JSON.stringify({ type: 'subscribed', topics, timestamp: Date.now() } satisfies BroadcastSubscribedMessage));
+  }
+
   async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean) {
     const attachment = ws.deserializeAttachment() as { accountId?: string } | null;
     logger.info('[GlobalBroadcaster] WebSocket closed', {
@@ -179,3 +315,7 @@ export class GlobalBroadcasterDO extends DurableObject {
     logger.error('[GlobalBroadcaster] WebSocket error', { error });
   }
 }
+
+function isSubscribed(topics: BroadcastTopic[] | null, message: BroadcastMessage): boolean {
+  return topics === null || topics.includes(getBroadcastTopic(message.type));
+}
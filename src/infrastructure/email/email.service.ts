@@ -0,0 +1,93 @@
+// infrastructure/email/email.service.ts
+
+import type { Env } from '@/shared/types/env.types';
+import { getSecret } from '@/infrastructure/config/secrets';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * EMAIL SERVICE
+ *
+ * Transactional email via the Resend HTTP API
+ * API key fetched from AWS Secrets Manager (RESEND_API_KEY)
+ *
+ * Sending is best-effort: callers get false instead of an exception so a mail
+ * outage never fails the request that triggered it.
+ */
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+const SEND_TIMEOUT_MS = 10000;
+
+export interface TeamInvitationEmail {
+  to: string;
+  accountName: string;
+  inviterName: string;
+  role: string;
+  inviteUrl: string;
+  expiresAt: string;
+}
+
+export class EmailService {
+  constructor(private env: Env) {}
+
+  /**
+   * Invite someone to join an account
+   */
+  async sendTeamInvitation(email: TeamInvitationEmail): Promise<boolean> {
+    const expires = new Date(email.expiresAt).toUTCString();
+
+    return this.send(
+      email.to,
+      `${email.inviterName} invited you to ${email.accountName} on Oslira`,
+      [
+        `<p>${escapeHtml(email.inviterName)} invited you to join <strong>${escapeHtml(email.accountName)}</strong> on Oslira as ${escapeHtml(email.role)}.</p>`,
+        `<p><a href="${escapeHtml(email.inviteUrl)}">Accept invitation</a></p>`,
+        `<p>This link expires on ${escapeHtml(expires)}. Sign in with ${escapeHtml(email.to)} to accept.</p>`
+      ].join('\n')
+    );
+  }
+
+  private async send(to: string, subject: string, html: string): Promise<boolean> {
+    try {
+      const apiKey = await getSecret('RESEND_API_KEY', this.env, this.env.APP_ENV);
+      const from = this.env.APP_ENV === 'production'
+        ? 'Oslira <team@oslira.com>'
+        : 'Oslira Staging <team@staging.oslira.com>';
+
+      const response = await fetch(RESEND_API_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ from, to: [to], subject, html }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        logger.warn('Email send rejected', {
+          status: response.status,
+          subject,
+          body: (await response.text()).substring(0, 200)
+        });
+        return false;
+      }
+
+      return true;
+
+    } catch (error: unknown) {
+      logger.warn('Email send failed', {
+        error: error instanceof Error ? error.message : String(error),
+        subject
+      });
+      return false;
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,72 @@
+// infrastructure/extraction/apify-format.util.ts
+
+/**
+ * APIFY FORMAT UTILITY
+ *
+ * Profiles are cached in R2 in the scraper-neutral ProfileData shape, but the
+ * extraction service consumes raw Apify profiles. This converts cached
+ * profiles back so they can be re-extracted without scraping again.
+ */
+
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { ApifyFullProfile } from './extraction.types';
+
+/**
+ * Convert ProfileData (cache format) to ApifyFullProfile (extraction format)
+ * Handles field name mismatches: likeCount → likesCount, commentCount → commentsCount
+ * Preserves rich metadata (hashtags, mentions, locations, video data) for accurate analysis
+ */
+export function profileDataToApifyFormat(profile: ProfileData): ApifyFullProfile {
+  return {
+    id: profile.username,
+    username: profile.username,
+    fullName: profile.displayName,
+    biography: profile.bio,
+    externalUrl: profile.externalUrl,
+    externalUrls: profile.externalUrl ? [{ title: 'External Link', url: profile.externalUrl }] : [],
+    profilePicUrl: profile.profilePicUrl,
+    followersCount: profile.followersCount,
+    followsCount: profile.followingCount,
+    postsCount: profile.postsCount,
+    verified: profile.isVerified,
+    private: profile.isPrivate,
+    isBusinessAccount: profile.isBusinessAccount,
+    hasChannel: false,
+    businessCategoryName: null,
+    latestPosts: profile.latestPosts.map(post => ({
+      id: post.id,
+      shortCode: post.id,
+      caption: post.caption,
+      likesCount: post.likeCount,
+      commentsCount: post.commentCount,
+      timestamp: post.timestamp,
+      type: mapMediaTypeToApify(post.mediaType, post.productType),
+      productType: post.productType as 'feed' | 'clips' | 'igtv' | undefined,
+      displayUrl: post.mediaUrl || '',
+      videoUrl: post.videoUrl || undefined,
+      videoViewCount: post.videoViewCount || undefined,
+      hashtags: post.hashtags || [],
+      mentions: post.mentions || [],
+      taggedUsers: [],
+      locationName: post.locationName || null,
+      locationId: null,
+      alt: null,
+      isCommentsDisabled: false
+    }))
+  };
+}
+
+/**
+ * Map ProfileData mediaType back to Apify format
+ * Considers productType for accurate Reels detection
+ */
+function mapMediaTypeToApify(
+  mediaType: 'photo' | 'video' | 'carousel',
+  productType?: string | null
+): 'Image' | 'Video' | 'Sidecar' {
+  // Reels (productType='clips') are always Videos
+  if (productType === 'clips') return 'Video';
+  if (mediaType === 'video') return 'Video';
+  if (mediaType === 'carousel') return 'Sidecar';
+  return 'Image';
+}
@@ -382,6 +382,8 @@ export interface TextDataForAI {
   uniqueMentions: string[];
   /** Top mentioned usernames with frequency counts (top 5) */
   topMentions: MentionFrequency[];
+  /** Top users tagged in post media with frequency counts (top 5) */
+  topTaggedUsers: MentionFrequency[];
   externalLinkTitles: string[];
   locationNames: string[];
 }
@@ -498,6 +500,8 @@ export interface ExtractedData {
     // Content signals
     topHashtags: HashtagFrequency[];
     topMentions: MentionFrequency[];
+    /** Missing on analyses extracted before tagged users were stored */
+    topTaggedUsers?: MentionFrequency[];
 
     // Activity signals
     daysSinceLastPost: number | null;
@@ -538,10 +542,10 @@ export interface ExtractedData {
     profileHealthScore: number;
     contentSophistication: number;
 
-    // New scoring system (0-100 total)
-    readinessScore: number;      // 0-25 points: Content quality, professionalism, sophistication
-    partnerEngagementScore: number;     // 0-15 points: Active engaged audience
-    authorityScore: number;      // 0-10 points: Account maturity and credibility
+    // New scoring system (0-100 total, points scaled to the business's scoring weights)
+    readinessScore: number;      // 0-25 points by default: Content quality, professionalism, sophistication
+    partnerEngagementScore: number;     // 0-15 points by default: Active engaged audience
+    authorityScore: number;      // 0-10 points by default: Account maturity and credibility
 
     // Tier classifications
     leadTier: 'hot' | 'warm' | 'cool' | 'cold';  // Based on overall_score (set during workflow)
@@ -598,7 +602,10 @@ export interface AILeadAnalysis {
   /** Why this ICP is/isn't a good fit */
   fitReasoning: string;
 
-  /** Scoring system (0-100 total) */
+  /**
+   * Scoring system (0-100 total)
+   * Point ranges follow the business's scoring weights (defaults shown)
+   */
   scoring: {
     /** How well the profile matches the business ICP (0-50 points, 50%) - AI calculated */
     profileFitScore: number;
@@ -92,6 +92,16 @@ export {
   type LeadAnalysisOutput
 } from './lead-analysis.service';
 
+// Services - Lead Fit Rating (re-score jobs)
+export {
+  rateLeadFit,
+  LEAD_FIT_MODEL,
+  type LeadFitInput,
+  type LeadFitResult,
+  type LeadFitError,
+  type LeadFitOutput
+} from './lead-fit.service';
+
 // Utilities - Business Context (Phase 2)
 export {
   fetchBusinessContext,
@@ -110,8 +120,18 @@ export {
   type NicheDetectionOutput
 } from './niche-detection.service';
 
+// Utilities - Scoring
+export {
+  calculateProfileFitScore,
+  calculateOverallScore,
+  calculateComponentScoresFromStored
+} from './score-calculator.service';
+
 // Utilities - Tier Classification
 export {
   calculateLeadTier,
   calculateAudienceScale
 } from './tier-classification.util';
+
+// Utilities - Cached profile → extraction input
+export { profileDataToApifyFormat } from './apify-format.util';
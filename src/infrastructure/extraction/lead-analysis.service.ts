@@ -11,7 +11,9 @@
  * 1. Receive ExtractedData + BusinessContext
  * 2. Build lean prompt with actionable signals only
  * 3. Call GPT-5 via AI Gateway with structured output
- * 4. Return AIResponsePayload for database storage
+ * 4. Score the lead with the business's scoring weights (AI fit rating +
+ *    pre-calculated readiness, engagement and authority)
+ * 5. Return AIResponsePayload for database storage
  *
  * Output is stored in the ai_response JSONB column.
  */
@@ -24,6 +26,8 @@ import {
   formatCount
 } from '@/shared/utils/number-format.util';
 import { AIGatewayClient, type AIResponse } from '@/infrastructure/ai/ai-gateway.client';
+import { DEFAULT_SCORING_CONFIG, type ScoringConfig } from '@/config/scoring.config';
+import { calculateProfileFitScore, calculateOverallScore } from './score-calculator.service';
 import type {
   ExtractedData,
   BusinessContext,
@@ -58,6 +62,12 @@ const LEAD_ANALYSIS_TOOL_SCHEMA = {
         enum: ['hot', 'warm', 'cold'],
         description: 'Lead qualification tier based on fit with business services'
       },
+      profileFitRating: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: 'How well the profile matches the business ICP (0-100). Rate fit only, not content quality or engagement'
+      },
       strengths: {
         type: 'array',
         items: { type: 'string' },
@@ -90,6 +100,7 @@ const LEAD_ANALYSIS_TOOL_SCHEMA = {
     },
     required: [
       'leadTier',
+      'profileFitRating',
       'strengths',
       'weaknesses',
       'opportunities',
@@ -109,8 +120,15 @@ export interface LeadAnalysisInput {
   extractedData: ExtractedData;
   textData: TextDataForAI;
   businessContext: BusinessContext;
+  /** Business scoring weights (defaults when the business has no override) */
+  scoring?: ScoringConfig;
 }
 
+/**
+ * Raw tool output: the AI rates ICP fit, the service turns it into scoring
+ */
+type LeadAnalysisToolOutput = Omit<AILeadAnalysis, 'scoring'> & { profileFitRating: number };
+
 export interface LeadAnalysisResult {
   success: true;
   data: AIResponsePayload;
@@ -173,15 +191,21 @@ export async function analyzeLeadWithAI(
     });
 
     // Validate response structure
-    const analysis = response.content as AILeadAnalysis;
+    const toolOutput = response.content as LeadAnalysisToolOutput;
 
-    if (!isValidAnalysis(analysis)) {
+    if (!isValidAnalysis(toolOutput)) {
       logger.error('[LeadAnalysis] Invalid analysis structure', {
         content: response.content
       });
       throw new Error('GPT-5 returned invalid analysis structure');
     }
 
+    const { profileFitRating, ...insights } = toolOutput;
+    const analysis: AILeadAnalysis = {
+      ...insights,
+      scoring: buildScoring(profileFitRating, input.extractedData, input.scoring ?? DEFAULT_SCORING_CONFIG)
+    };
+
     // Build response payload (analyzedAt and tokenUsage tracked separately in DB)
     const payload: AIResponsePayload = {
       version: '1.0',
@@ -193,6 +217,8 @@ export async function analyzeLeadWithAI(
 
     logger.info('[LeadAnalysis] Analysis complete', {
       leadTier: analysis.leadTier,
+      overallScore: analysis.scoring.overallScore,
+      scoringVersion: input.scoring?.version ?? DEFAULT_SCORING_CONFIG.version,
       tokensIn: response.usage.input_tokens,
       tokensOut: response.usage.output_tokens,
       cost: response.usage.total_cost,
@@ -351,6 +377,28 @@ function formatNumber(value: number | null | undefined): string {
   return formatAbbreviated(value, 1);
 }
 
+/**
+ * Score the lead with the business's weights
+ * Readiness, engagement and authority were scaled to the same weights during extraction
+ */
+function buildScoring(
+  profileFitRating: number,
+  data: ExtractedData,
+  scoring: ScoringConfig
+): AILeadAnalysis['scoring'] {
+  const components = {
+    profileFitScore: calculateProfileFitScore(profileFitRating, scoring.weights),
+    readinessScore: data.calculated.readinessScore,
+    partnerEngagementScore: data.calculated.partnerEngagementScore,
+    authorityScore: data.calculated.authorityScore
+  };
+
+  return {
+    ...components,
+    overallScore: calculateOverallScore(components)
+  };
+}
+
 /**
  * Truncate string to max length
  */
@@ -363,11 +411,12 @@ function truncate(str: string, maxLength: number): string {
 /**
  * Validate analysis response structure
  */
-function isValidAnalysis(analysis: any): analysis is AILeadAnalysis {
+function isValidAnalysis(analysis: any): analysis is LeadAnalysisToolOutput {
   return (
     analysis &&
     typeof analysis.leadTier === 'string' &&
     ['hot', 'warm', 'cold'].includes(analysis.leadTier) &&
+    typeof analysis.profileFitRating === 'number' &&
     Array.isArray(analysis.strengths) &&
     Array.isArray(analysis.weaknesses) &&
     Array.isArray(analysis.opportunities) &&
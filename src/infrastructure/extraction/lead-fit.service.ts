@@ -0,0 +1,203 @@
+// infrastructure/extraction/lead-fit.service.ts
+
+/**
+ * LEAD FIT RATING SERVICE
+ *
+ * Cheap AI re-rating of how well a stored lead matches the business ICP.
+ * Used by re-score jobs when the business context changed: only the
+ * profileFit component of the lead score comes from the AI, so this re-runs
+ * just that step on a small model instead of the full GPT-5 lead analysis.
+ *
+ * Input is what a deep analysis keeps (extracted_data + profile snapshot);
+ * no scraping, no captions.
+ */
+
+import type { Env } from '@/shared/types/env.types';
+import { logger } from '@/shared/utils/logger.util';
+import { formatPercentage } from '@/shared/utils/number-format.util';
+import { AIGatewayClient, type AIResponse } from '@/infrastructure/ai/ai-gateway.client';
+import type { ExtractedData, BusinessContext } from './extraction.types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LEAD_FIT_MODEL = 'gpt-5-mini';
+const MAX_OUTPUT_TOKENS = 1200;
+
+// ============================================================================
+// TOOL SCHEMA FOR STRUCTURED OUTPUT
+// ============================================================================
+
+const LEAD_FIT_TOOL_SCHEMA = {
+  name: 'submit_fit_rating',
+  description: 'Submit how well the profile matches the business ICP.',
+  parameters: {
+    type: 'object',
+    properties: {
+      profileFitRating: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: 'How well the profile matches the business ICP (0-100). Rate fit only, not content quality or engagement'
+      },
+      fitReasoning: {
+        type: 'string',
+        description: 'Why this profile is/isn\'t a good fit (2-3 sentences)'
+      }
+    },
+    required: ['profileFitRating', 'fitReasoning'],
+    additionalProperties: false
+  }
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export interface LeadFitInput {
+  username: string;
+  biography: string;
+  niche: string | null;
+  extractedData: ExtractedData;
+  businessContext: BusinessContext;
+}
+
+export interface LeadFitResult {
+  success: true;
+  profileFitRating: number;
+  fitReasoning: string;
+  model: string;
+  usage: AIResponse['usage'];
+}
+
+export interface LeadFitError {
+  success: false;
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export type LeadFitOutput = LeadFitResult | LeadFitError;
+
+/**
+ * Re-rate ICP fit for a previously analyzed lead
+ */
+export async function rateLeadFit(
+  input: LeadFitInput,
+  env: Env,
+  openaiKey: string,
+  claudeKey: string,
+  aiGatewayToken: string
+): Promise<LeadFitOutput> {
+  const startTime = Date.now();
+
+  try {
+    const aiClient = new AIGatewayClient(env, openaiKey, claudeKey, aiGatewayToken);
+
+    const response = await aiClient.callStructured({
+      model: LEAD_FIT_MODEL,
+      system_prompt: buildSystemPrompt(input.businessContext),
+      user_prompt: buildUserPrompt(input),
+      max_tokens: MAX_OUTPUT_TOKENS,
+      reasoning_effort: 'low',
+      tool_schema: LEAD_FIT_TOOL_SCHEMA
+    });
+
+    const result = response.content as { profileFitRating: number; fitReasoning: string };
+
+    if (!isValidFitResult(result)) {
+      logger.error('[LeadFit] Invalid result structure', { content: response.content });
+      throw new Error('AI returned invalid fit rating structure');
+    }
+
+    logger.info('[LeadFit] Fit rated', {
+      username: input.username,
+      profileFitRating: result.profileFitRating,
+      cost: response.usage.total_cost,
+      processingTimeMs: Date.now() - startTime
+    });
+
+    return {
+      success: true,
+      profileFitRating: result.profileFitRating,
+      fitReasoning: result.fitReasoning,
+      model: LEAD_FIT_MODEL,
+      usage: response.usage
+    };
+
+  } catch (error: any) {
+    logger.error('[LeadFit] Fit rating failed', {
+      username: input.username,
+      error: error.message,
+      processingTimeMs: Date.now() - startTime
+    });
+
+    return {
+      success: false,
+      error: {
+        code: 'FIT_RATING_FAILED',
+        message: error.message
+      }
+    };
+  }
+}
+
+// ============================================================================
+// PROMPT BUILDERS
+// ============================================================================
+
+function buildSystemPrompt(business: BusinessContext): string {
+  return `You rate how well Instagram profiles match a business's ideal customer profile (ICP).
+
+## Business Context
+**Business Name:** ${business.businessName}
+**Industry:** ${business.industry}
+**Target Audience:** ${business.targetAudience}
+**Value Proposition:** ${business.valueProposition}
+**Pain Points We Solve:** ${business.painPoints.join(', ')}
+**ICP Follower Range:** ${business.icpMinFollowers.toLocaleString()} - ${business.icpMaxFollowers ? business.icpMaxFollowers.toLocaleString() : 'unlimited'}
+
+## Rating Guidelines
+- 80-100: Clearly in the target audience with obvious need for the offer
+- 50-79: Partial match or unclear need
+- 0-49: Outside the target audience
+- Rate fit only. Content quality, engagement and account maturity are scored separately`;
+}
+
+function buildUserPrompt(input: LeadFitInput): string {
+  const { extractedData: data } = input;
+
+  return `Rate this profile's fit with the business ICP:
+
+**Username:** @${input.username}
+**Niche:** ${input.niche ?? 'unknown'}
+**Followers:** ${data.static.followersCount.toLocaleString()}
+**Business Account:** ${data.static.isBusinessAccount ? 'Yes' : 'No'}
+**Business Category:** ${data.static.businessCategoryName ?? '(None)'}
+**External Link:** ${data.static.externalUrl ?? '(None)'}
+**Engagement Rate:** ${data.calculated.engagementRate !== null ? formatPercentage(data.calculated.engagementRate * 100) : 'N/A'}
+
+## Bio
+${input.biography || '(No bio)'}
+
+## Top Hashtags
+${data.static.topHashtags.length > 0 ? data.static.topHashtags.map(h => `#${h.hashtag}`).join(' ') : '(None used)'}
+
+Provide your rating using the submit_fit_rating tool.`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isValidFitResult(result: any): boolean {
+  return (
+    result &&
+    typeof result.profileFitRating === 'number' &&
+    result.profileFitRating >= 0 &&
+    result.profileFitRating <= 100 &&
+    typeof result.fitReasoning === 'string'
+  );
+}
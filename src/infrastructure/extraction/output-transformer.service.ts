@@ -13,6 +13,7 @@
  */
 
 import { logger } from '@/shared/utils/logger.util';
+import { DEFAULT_SCORING_WEIGHTS, type ScoringWeights } from '@/config/scoring.config';
 import type {
   ExtractionResult,
   ExtractedData
@@ -32,8 +33,12 @@ import { calculateAudienceScale } from './tier-classification.util';
 
 /**
  * Transform ExtractionResult into ExtractedData for database storage
+ * Component scores are scaled to the business's scoring weights
  */
-export function transformToExtractedData(extraction: ExtractionResult): ExtractedData {
+export function transformToExtractedData(
+  extraction: ExtractionResult,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): ExtractedData {
   const startTime = Date.now();
 
   logger.debug('[OutputTransformer] Starting transformation', {
@@ -57,9 +62,9 @@ export function transformToExtractedData(extraction: ExtractionResult): Extracte
   const engagementScore = calculateEngagementScore(engagementMetrics.engagementRate);
 
   // Calculate new scoring system components
-  const readinessScore = calculateReadinessScore(extraction);
-  const partnerEngagementScore = calculatePartnerEngagementScore(extraction);
-  const authorityScore = calculateAuthorityScore(extraction);
+  const readinessScore = calculateReadinessScore(extraction, weights);
+  const partnerEngagementScore = calculatePartnerEngagementScore(extraction, weights);
+  const authorityScore = calculateAuthorityScore(extraction, weights);
 
   // Generate soft warning from fake follower risk
   const fakeFollowerWarning = generateFakeFollowerWarning(
@@ -78,6 +83,7 @@ export function transformToExtractedData(extraction: ExtractionResult): Extracte
       // Content signals
       topHashtags: textDataForAI.hashtagFrequency.slice(0, 10),
       topMentions: textDataForAI.topMentions.slice(0, 5),
+      topTaggedUsers: textDataForAI.topTaggedUsers.slice(0, 5),
 
       // Activity signals
       daysSinceLastPost: frequencyMetrics.daysSinceLastPost,
@@ -118,9 +124,9 @@ export function transformToExtractedData(extraction: ExtractionResult): Extracte
       contentSophistication: scores.contentSophistication,
 
       // New scoring system (0-100 total)
-      readinessScore,             // 0-25 points: Content quality, professionalism, sophistication
-      partnerEngagementScore,     // 0-15 points: Active engaged audience
-      authorityScore,             // 0-10 points: Account maturity and credibility
+      readinessScore,             // 0-weights.readiness points: Content quality, professionalism, sophistication
+      partnerEngagementScore,     // 0-weights.partnerEngagement points: Active engaged audience
+      authorityScore,             // 0-weights.authority points: Account maturity and credibility
 
       // Tier classifications
       leadTier: 'cold' as const,  // Placeholder - will be updated in workflow after AI analysis
@@ -1499,6 +1499,19 @@ export class ProfileExtractionService {
       .sort((a, b) => b.count - a.count)
       .slice(0, 5); // Top 5 mentions
 
+    // Top tagged users (accounts tagged in the post media, not the caption)
+    const taggedCounts = new Map<string, number>();
+    posts
+      .flatMap(p => (p.taggedUsers || []).map(t => (t.username || '').toLowerCase().trim()))
+      .filter(username => username.length > 0)
+      .forEach(username => {
+        taggedCounts.set(username, (taggedCounts.get(username) || 0) + 1);
+      });
+    const topTaggedUsers: MentionFrequency[] = Array.from(taggedCounts.entries())
+      .map(([username, count]) => ({ username, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5);
+
     // External link titles
     const externalLinkTitles = (profile.externalUrls || []).map(l => l.title);
 
@@ -1520,6 +1533,7 @@ export class ProfileExtractionService {
       allMentions,
       uniqueMentions,
       topMentions,
+      topTaggedUsers,
       externalLinkTitles,
       locationNames
     };
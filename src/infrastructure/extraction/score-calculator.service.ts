@@ -22,8 +22,10 @@
 
 import { logger } from '@/shared/utils/logger.util';
 import { clamp, round, safeNumber } from '@/shared/utils/number-format.util';
+import { DEFAULT_SCORING_WEIGHTS, type ScoringWeights } from '@/config/scoring.config';
 import type {
   ExtractionResult,
+  ExtractedData,
   CompositeScores,
   GapDetection
 } from './extraction.types';
@@ -418,10 +420,10 @@ export function calculateEngagementScore(engagementRate: number | null): number
 // ============================================================================
 
 /**
- * Calculate Readiness Score (0-25 points, 25% of total)
+ * Calculate Readiness Score (0-weights.readiness points, default 0-25)
  *
  * Measures content quality, professionalism, and sophistication.
- * Based on contentSophistication score (0-100) scaled to 0-25.
+ * Based on contentSophistication score (0-100) scaled to the readiness weight.
  *
  * Components from contentSophistication:
  * - Hashtag usage and strategy
@@ -429,14 +431,18 @@ export function calculateEngagementScore(engagementRate: number | null): number
  * - Location tagging
  * - Format diversity
  */
-export function calculateReadinessScore(extraction: ExtractionResult): number {
+export function calculateReadinessScore(
+  extraction: ExtractionResult,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
   const contentSophistication = calculateContentSophistication(extraction);
 
-  // Scale 0-100 score to 0-25
-  const readinessScore = (contentSophistication / 100) * 25;
+  // Scale 0-100 score to 0-weights.readiness
+  const readinessScore = (contentSophistication / 100) * weights.readiness;
 
   logger.debug('[ScoreCalculator] Readiness score calculated', {
     contentSophistication,
+    maxPoints: weights.readiness,
     readinessScore: round(readinessScore)
   });
 
@@ -444,24 +450,28 @@ export function calculateReadinessScore(extraction: ExtractionResult): number {
 }
 
 /**
- * Calculate Partner Engagement Score (0-15 points, 15% of total)
+ * Calculate Partner Engagement Score (0-weights.partnerEngagement points, default 0-15)
  *
  * Measures active engaged audience quality.
- * Based on engagementHealth score (0-100) scaled to 0-15.
+ * Based on engagementHealth score (0-100) scaled to the partner engagement weight.
  *
  * Components from engagementHealth:
  * - Engagement rate
  * - Engagement consistency
  * - Comment to like ratio
  */
-export function calculatePartnerEngagementScore(extraction: ExtractionResult): number {
+export function calculatePartnerEngagementScore(
+  extraction: ExtractionResult,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
   const engagementHealth = calculateEngagementHealth(extraction);
 
-  // Scale 0-100 score to 0-15
-  const partnerEngagementScore = (engagementHealth / 100) * 15;
+  // Scale 0-100 score to 0-weights.partnerEngagement
+  const partnerEngagementScore = (engagementHealth / 100) * weights.partnerEngagement;
 
   logger.debug('[ScoreCalculator] Partner engagement score calculated', {
     engagementHealth,
+    maxPoints: weights.partnerEngagement,
     partnerEngagementScore: round(partnerEngagementScore)
   });
 
@@ -469,16 +479,19 @@ export function calculatePartnerEngagementScore(extraction: ExtractionResult): n
 }
 
 /**
- * Calculate Authority Score (0-10 points, 10% of total)
+ * Calculate Authority Score (0-weights.authority points, default 0-10)
  *
  * Measures account maturity and credibility.
- * Combines accountMaturity (70%) and authorityRatio (30%) scaled to 0-10.
+ * Combines accountMaturity (70%) and authorityRatio (30%) scaled to the authority weight.
  *
  * Components:
  * - Account maturity: posting consistency, profile completeness
  * - Authority ratio: followers vs following ratio
  */
-export function calculateAuthorityScore(extraction: ExtractionResult): number {
+export function calculateAuthorityScore(
+  extraction: ExtractionResult,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
   const accountMaturity = calculateAccountMaturity(extraction);
   const { profileMetrics } = extraction;
 
@@ -488,17 +501,76 @@ export function calculateAuthorityScore(extraction: ExtractionResult): number {
   // Weighted combination: 70% maturity, 30% authority ratio
   const combinedScore = (accountMaturity * 0.7) + (authorityRatio * 0.3);
 
-  // Scale to 0-10
-  const authorityScore = (combinedScore / 100) * 10;
+  // Scale to 0-weights.authority
+  const authorityScore = (combinedScore / 100) * weights.authority;
 
   logger.debug('[ScoreCalculator] Authority score calculated', {
     accountMaturity,
     authorityRatio,
     combinedScore,
+    maxPoints: weights.authority,
     authorityScore: round(authorityScore)
   });
 
   return round(authorityScore);
 }
 
+/**
+ * Calculate Profile Fit Score (0-weights.profileFit points, default 0-50)
+ *
+ * Scales the AI's 0-100 ICP fit rating to the profile fit weight.
+ */
+export function calculateProfileFitScore(
+  fitRating: number,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
+  const rating = clamp(0, 100, safeNumber(fitRating));
+  return round((rating / 100) * weights.profileFit);
+}
+
+/**
+ * Recalculate the weighted components from stored ExtractedData
+ *
+ * The composite scores (contentSophistication, engagementHealth,
+ * accountMaturity) and authorityRatio don't depend on the weights and are
+ * stored with every deep analysis, so re-scoring needs no raw metrics.
+ * Same scaling as calculateReadinessScore / calculatePartnerEngagementScore /
+ * calculateAuthorityScore.
+ */
+export function calculateComponentScoresFromStored(
+  calculated: ExtractedData['calculated'],
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): { readinessScore: number; partnerEngagementScore: number; authorityScore: number } {
+  const contentSophistication = safeNumber(calculated.contentSophistication);
+  const engagementHealth = safeNumber(calculated.engagementHealth);
+  const accountMaturity = safeNumber(calculated.accountMaturity);
+  const authorityRatio = calculated.authorityRatio ?? 0;
+
+  return {
+    readinessScore: round((contentSophistication / 100) * weights.readiness),
+    partnerEngagementScore: round((engagementHealth / 100) * weights.partnerEngagement),
+    authorityScore: round((((accountMaturity * 0.7) + (authorityRatio * 0.3)) / 100) * weights.authority)
+  };
+}
+
+/**
+ * Calculate Overall Score (0-100)
+ *
+ * Sum of the four weighted components. Components are already scaled to
+ * their weights, so the sum is on the 0-100 scale.
+ */
+export function calculateOverallScore(components: {
+  profileFitScore: number;
+  readinessScore: number;
+  partnerEngagementScore: number;
+  authorityScore: number;
+}): number {
+  const total = components.profileFitScore +
+    components.readinessScore +
+    components.partnerEngagementScore +
+    components.authorityScore;
+
+  return Math.round(clamp(0, 100, total));
+}
+
 // Export is already done via the function declaration above
@@ -8,6 +8,8 @@
  * - Audience Scale: Based on follower count (nano/micro/mid/macro/mega/enterprise)
  */
 
+import { DEFAULT_TIER_THRESHOLDS, type TierThresholds } from '@/config/scoring.config';
+
 // ============================================================================
 // LEAD TIER CALCULATION
 // ============================================================================
@@ -15,18 +17,21 @@
 /**
  * Calculate lead tier based on overall score
  *
- * Tiers:
+ * Default tiers (business profiles can override the thresholds):
  * 🔥 Hot: 80-100%
  * 🟡 Warm: 60-79%
  * 🔵 Cool: 40-59%
  * ⚫ Cold: <40%
  */
-export function calculateLeadTier(overallScore: number): 'hot' | 'warm' | 'cool' | 'cold' {
-  if (overallScore >= 80) {
+export function calculateLeadTier(
+  overallScore: number,
+  thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS
+): 'hot' | 'warm' | 'cool' | 'cold' {
+  if (overallScore >= thresholds.hot) {
     return 'hot';
-  } else if (overallScore >= 60) {
+  } else if (overallScore >= thresholds.warm) {
     return 'warm';
-  } else if (overallScore >= 40) {
+  } else if (overallScore >= thresholds.cool) {
     return 'cool';
   } else {
     return 'cold';
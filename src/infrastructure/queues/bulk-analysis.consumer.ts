@@ -0,0 +1,115 @@
+// infrastructure/queues/bulk-analysis.consumer.ts
+
+import type { Env, BulkAnalysisQueueMessage } from '@/shared/types/env.types';
+import type { MessageBatch, Message } from '@cloudflare/workers-types';
+import { BulkAnalysisService } from '@/infrastructure/batch/bulk-analysis.service';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * BULK ANALYSIS CONSUMER
+ *
+ * Processes chunks of large bulk imports (CSV uploads)
+ * Each message is one batch of ≤50 usernames with a pre-assigned batch ID,
+ * queued through the same path as POST /api/leads/analyze/bulk
+ */
+
+/**
+ * Queue consumer handler
+ */
+export async function handleBulkAnalysisQueue(
+  batch: MessageBatch<BulkAnalysisQueueMessage>,
+  env: Env
+): Promise<void> {
+  logger.info('Processing bulk analysis batch', { batchSize: batch.messages.length });
+
+  for (const message of batch.messages) {
+    try {
+      await processBulkAnalysisMessage(message, env);
+      message.ack();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error('Bulk analysis message processing failed', {
+        batchId: message.body.batch_id,
+        importId: message.body.import_id,
+        attempts: message.attempts,
+        error: errorMessage
+      });
+
+      // Retrying can't fix a balance shortfall; later chunks of an import hit this
+      // when earlier chunks (or other spending) used the balance checked at upload
+      const permanent = errorMessage.includes('Insufficient');
+
+      if (!permanent && message.attempts < 3) {
+        message.retry({ delaySeconds: Math.pow(2, message.attempts) * 10 });
+        continue;
+      }
+
+      try {
+        await recordFailedChunk(message, env, permanent ? errorMessage : `Chunk failed to start: ${errorMessage}`);
+        message.ack();
+      } catch (recordError) {
+        // Couldn't even record it: let the queue move the chunk to the DLQ
+        logger.error('Failed to record bulk analysis chunk failure', {
+          batchId: message.body.batch_id,
+          importId: message.body.import_id,
+          usernames: message.body.usernames.length,
+          error: recordError instanceof Error ? recordError.message : String(recordError)
+        });
+        message.retry();
+      }
+    }
+  }
+}
+
+/**
+ * Create the persisted batch for a single chunk
+ */
+async function processBulkAnalysisMessage(
+  message: Message<BulkAnalysisQueueMessage>,
+  env: Env
+): Promise<void> {
+  const data = message.body;
+
+  // Batch init is idempotent per batch_id, so redeliveries are safe
+  const service = new BulkAnalysisService(env);
+  await service.queueBatch({
+    batchId: data.batch_id,
+    importId: data.import_id,
+    accountId: data.account_id,
+    businessProfileId: data.business_profile_id,
+    analysisType: data.analysis_type,
+    usernames: data.usernames,
+    requestedBy: data.requested_by
+  });
+
+  logger.info('Bulk analysis chunk queued', {
+    batchId: data.batch_id,
+    importId: data.import_id,
+    chunkIndex: data.chunk_index,
+    usernames: data.usernames.length
+  });
+}
+
+/**
+ * Persist the chunk as a failed batch so its batch_id (returned by the CSV
+ * upload) reports why nothing ran
+ */
+async function recordFailedChunk(
+  message: Message<BulkAnalysisQueueMessage>,
+  env: Env,
+  reason: string
+): Promise<void> {
+  const data = message.body;
+
+  const service = new BulkAnalysisService(env);
+  await service.recordFailedBatch({
+    batchId: data.batch_id,
+    importId: data.import_id,
+    accountId: data.account_id,
+    businessProfileId: data.business_profile_id,
+    analysisType: data.analysis_type,
+    usernames: data.usernames,
+    requestedBy: data.requested_by
+  }, reason);
+}
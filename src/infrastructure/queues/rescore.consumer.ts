@@ -0,0 +1,68 @@
+// infrastructure/queues/rescore.consumer.ts
+
+import type { Env, RescoreQueueMessage } from '@/shared/types/env.types';
+import type { MessageBatch, Message } from '@cloudflare/workers-types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { RescoreRunnerService } from '@/features/rescore/rescore-runner.service';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * RESCORE CONSUMER
+ *
+ * Processes re-score jobs one page of leads per message.
+ * Each message re-queues the job until every lead has been processed,
+ * which keeps a single invocation well inside the CPU/subrequest limits
+ * for businesses with thousands of leads.
+ */
+
+/**
+ * Queue consumer handler
+ */
+export async function handleRescoreQueue(
+  batch: MessageBatch<RescoreQueueMessage>,
+  env: Env
+): Promise<void> {
+  logger.info('Processing rescore batch', { batchSize: batch.messages.length });
+
+  for (const message of batch.messages) {
+    try {
+      await processRescoreMessage(message, env);
+      message.ack();
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error('Rescore message processing failed', {
+        jobId: message.body.job_id,
+        attempts: message.attempts,
+        error: errorMessage
+      });
+
+      // Retry logic
+      if (message.attempts < 3) {
+        message.retry({ delaySeconds: Math.pow(2, message.attempts) * 10 });
+      } else {
+        logger.error('Max retries exceeded for rescore job', { jobId: message.body.job_id });
+
+        const supabase = await SupabaseClientFactory.createAdminClient(env);
+        await new RescoreRunnerService(env, supabase).failJob(message.body.job_id, errorMessage);
+        message.ack();
+      }
+    }
+  }
+}
+
+/**
+ * Re-score the next page and queue the following one
+ */
+async function processRescoreMessage(
+  message: Message<RescoreQueueMessage>,
+  env: Env
+): Promise<void> {
+  const supabase = await SupabaseClientFactory.createAdminClient(env);
+  const runner = new RescoreRunnerService(env, supabase);
+  const result = await runner.processNextPage(message.body.job_id);
+
+  if (!result.done) {
+    await env.RESCORE_QUEUE.send({ job_id: message.body.job_id } satisfies RescoreQueueMessage);
+  }
+}
@@ -0,0 +1,68 @@
+// infrastructure/queues/sourcing.consumer.ts
+
+import type { Env, SourcingQueueMessage } from '@/shared/types/env.types';
+import type { MessageBatch, Message } from '@cloudflare/workers-types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { SourcingRunnerService } from '@/features/sourcing/sourcing-runner.service';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * SOURCING CONSUMER
+ *
+ * Processes prospect sourcing jobs one step per message: the first message
+ * collects candidates, each following one pre-filters a page of them.
+ * Every message re-queues the job until it completes, so the long Apify
+ * runs of a job never share one invocation.
+ */
+
+/**
+ * Queue consumer handler
+ */
+export async function handleSourcingQueue(
+  batch: MessageBatch<SourcingQueueMessage>,
+  env: Env
+): Promise<void> {
+  logger.info('Processing sourcing batch', { batchSize: batch.messages.length });
+
+  for (const message of batch.messages) {
+    try {
+      await processSourcingMessage(message, env);
+      message.ack();
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error('Sourcing message processing failed', {
+        jobId: message.body.job_id,
+        attempts: message.attempts,
+        error: errorMessage
+      });
+
+      // Retry logic
+      if (message.attempts < 3) {
+        message.retry({ delaySeconds: Math.pow(2, message.attempts) * 10 });
+      } else {
+        logger.error('Max retries exceeded for sourcing job', { jobId: message.body.job_id });
+
+        const supabase = await SupabaseClientFactory.createAdminClient(env);
+        await new SourcingRunnerService(env, supabase).failJob(message.body.job_id, errorMessage);
+        message.ack();
+      }
+    }
+  }
+}
+
+/**
+ * Run the next step and queue the following one
+ */
+async function processSourcingMessage(
+  message: Message<SourcingQueueMessage>,
+  env: Env
+): Promise<void> {
+  const supabase = await SupabaseClientFactory.createAdminClient(env);
+  const runner = new SourcingRunnerService(env, supabase);
+  const result = await runner.processNextStep(message.body.job_id);
+
+  if (!result.done) {
+    await env.SOURCING_QUEUE.send({ job_id: message.body.job_id } satisfies SourcingQueueMessage);
+  }
+}
@@ -6,6 +6,7 @@ import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client
 import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
 import Stripe from 'stripe';
 import { getSecret } from '@/infrastructure/config/secrets';
+import { tryPublishBroadcast, publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
 import { logger } from '@/shared/utils/logger.util';
 
 /**
@@ -19,6 +20,9 @@ import { logger } from '@/shared/utils/logger.util';
  * - invoice.payment_succeeded → Grant subscription credits
  * - customer.subscription.updated → Update subscription status
  * - customer.subscription.deleted → Cancel subscription
+ *
+ * Balance and subscription changes are pushed to the account's WebSocket
+ * (credits.updated, subscription.updated) so the dashboard doesn't poll.
  */
 
 export interface StripeWebhookMessage {
@@ -221,17 +225,14 @@ async function handleCheckoutCompleted(data: StripeWebhookMessage, env: Env): Pr
     const creditsQuota = plan.credits_per_month;
     const lightQuota = plan.light_analyses_per_month;
 
-    const { error: balanceError } = await supabase
-      .from('balances')
-      .update({
-        credit_balance: creditsQuota,
-        light_analyses_balance: lightQuota,
-        last_transaction_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('account_id', accountId);
-
-    if (balanceError) {
+    try {
+      await new CreditsRepository(supabase).resetBalances(
+        accountId,
+        { credits: creditsQuota, light_analyses: lightQuota },
+        'subscription_renewal',
+        `Plan upgrade to ${newTier} via Stripe: ${session.id}`
+      );
+    } catch (balanceError) {
       logger.error('Failed to update balances table', { error: balanceError });
       throw balanceError;
     }
@@ -242,6 +243,9 @@ async function handleCheckoutCompleted(data: StripeWebhookMessage, env: Env): Pr
     });
 
     logger.info('Account upgraded successfully', { accountId, newTier });
+
+    await publishSubscriptionUpdated(env, accountId);
+    await publishCreditsUpdated(env, accountId, 'subscription');
   }
 
   // ===============================================================================
@@ -257,6 +261,8 @@ async function handleCheckoutCompleted(data: StripeWebhookMessage, env: Env): Pr
       `Credit purchase via Stripe: ${session.id}`
     );
     logger.info('Credits granted', { accountId, credits: creditsAmount });
+
+    await publishCreditsUpdated(env, accountId, 'purchase');
   }
 }
 
@@ -302,15 +308,12 @@ async function handleInvoicePaymentSucceeded(data: StripeWebhookMessage, env: En
     const lightQuota = plan.light_analyses_per_month as number;
 
     // Reset balances (monthly renewal via Stripe invoice)
-    await supabase
-      .from('balances')
-      .update({
-        credit_balance: creditsQuota,
-        light_analyses_balance: lightQuota,
-        last_transaction_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('account_id', accountId);
+    await new CreditsRepository(supabase).resetBalances(
+      accountId,
+      { credits: creditsQuota, light_analyses: lightQuota },
+      'subscription_renewal',
+      `Subscription renewal via Stripe: ${invoice.id}`
+    );
 
     // Update subscription period dates
     await supabase
@@ -326,6 +329,9 @@ async function handleInvoicePaymentSucceeded(data: StripeWebhookMessage, env: En
       `[StripeWebhook] Reset balances for ${accountId} (${subscription.plan_type}): ` +
       `${creditsQuota} credits + ${lightQuota} light analyses`
     );
+
+    await publishSubscriptionUpdated(env, accountId);
+    await publishCreditsUpdated(env, accountId, 'renewal');
   }
 }
 
@@ -368,6 +374,8 @@ async function handleSubscriptionUpdated(data: StripeWebhookMessage, env: Env):
     .eq('account_id', accountId);
 
   logger.info(`[StripeWebhook] Updated subscription ${subscription.id} status to ${subscription.status}`);
+
+  await publishSubscriptionUpdated(env, accountId);
 }
 
 /**
@@ -394,6 +402,42 @@ async function handleSubscriptionDeleted(data: StripeWebhookMessage, env: Env):
     .eq('account_id', accountId);
 
   logger.info(`[StripeWebhook] Cancelled subscription ${subscription.id}`);
+
+  await publishSubscriptionUpdated(env, accountId);
+}
+
+/**
+ * Push the account's current subscription to its WebSocket (non-fatal)
+ */
+async function publishSubscriptionUpdated(env: Env, accountId: string): Promise<void> {
+  if (!accountId) return;
+
+  try {
+    const supabase = await SupabaseClientFactory.createAdminClient(env);
+    const { data: subscription, error } = await supabase
+      .from('subscriptions')
+      .select('status, plan_type, current_period_end, canceled_at')
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!subscription) return;
+
+    await tryPublishBroadcast(env, accountId, {
+      type: 'subscription.updated',
+      data: {
+        status: subscription.status,
+        plan_type: subscription.plan_type ?? null,
+        current_period_end: subscription.current_period_end ?? null,
+        canceled_at: subscription.canceled_at ?? null
+      }
+    });
+  } catch (error) {
+    logger.warn('[StripeWebhook] Subscription broadcast failed (non-fatal)', {
+      accountId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
 }
 
 /**
@@ -0,0 +1,234 @@
+// infrastructure/queues/webhook-delivery.consumer.ts
+
+import type { Env, WebhookDeliveryQueueMessage } from '@/shared/types/env.types';
+import type { MessageBatch, Message } from '@cloudflare/workers-types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDelivery, WebhookEndpoint } from '@/shared/types/webhook.types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { signWebhookPayload } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { isPrivateNetworkUrl } from '@/shared/utils/url.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * WEBHOOK DELIVERY CONSUMER
+ *
+ * POSTs signed event payloads to subscriber URLs
+ * Each message is one delivery (endpoint + event) recorded by WebhookDispatcher
+ *
+ * Retries:
+ * - Non-2xx responses, timeouts and network errors are retried with backoff
+ *   (30s, 2m, 10m, 30m, 1h)
+ * - After the last attempt the delivery is marked dead_lettered and kept in
+ *   webhook_deliveries so it can be inspected and redelivered via the API
+ */
+
+/** Delay before each retry; attempts = RETRY_DELAYS_SECONDS.length + 1 */
+const RETRY_DELAYS_SECONDS = [30, 120, 600, 1800, 3600];
+
+const MAX_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1;
+
+/** Subscriber response timeout */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Stored response excerpt length (delivery log) */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Queue consumer handler
+ */
+export async function handleWebhookDeliveryQueue(
+  batch: MessageBatch<WebhookDeliveryQueueMessage>,
+  env: Env
+): Promise<void> {
+  logger.info('Processing webhook delivery batch', { batchSize: batch.messages.length });
+
+  const supabase = await SupabaseClientFactory.createAdminClient(env);
+
+  for (const message of batch.messages) {
+    try {
+      await processDeliveryMessage(message, supabase);
+    } catch (error: any) {
+      // Bookkeeping failed (database), not the subscriber - let the queue retry
+      logger.error('Webhook delivery message processing failed', {
+        deliveryId: message.body.delivery_id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      message.retry({ delaySeconds: RETRY_DELAYS_SECONDS[0] });
+    }
+  }
+}
+
+/**
+ * Attempt a single delivery and ack/retry the message based on the outcome
+ */
+async function processDeliveryMessage(
+  message: Message<WebhookDeliveryQueueMessage>,
+  supabase: SupabaseClient
+): Promise<void> {
+  const { delivery_id: deliveryId } = message.body;
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!delivery || delivery.status === 'delivered' || delivery.status === 'cancelled') {
+    message.ack();
+    return;
+  }
+
+  const { data: endpoint, error: endpointError } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', delivery.endpoint_id)
+    .maybeSingle();
+
+  if (endpointError) throw endpointError;
+
+  if (!endpoint || endpoint.deleted_at || endpoint.status !== 'active') {
+    await updateDelivery(supabase, deliveryId, { status: 'cancelled' });
+    message.ack();
+    return;
+  }
+
+  // Endpoints saved before URL validation existed may still target internal hosts
+  if (isPrivateNetworkUrl(endpoint.url)) {
+    await updateDelivery(supabase, deliveryId, {
+      status: 'cancelled',
+      last_error: 'Endpoint URL targets a private network'
+    });
+    logger.warn('Webhook delivery to private network blocked', { deliveryId, endpointId: endpoint.id });
+    message.ack();
+    return;
+  }
+
+  const attempt = (delivery as WebhookDelivery).attempts + 1;
+  const result = await postEvent(endpoint as WebhookEndpoint, delivery as WebhookDelivery, attempt);
+  const now = new Date().toISOString();
+
+  if (result.ok) {
+    await updateDelivery(supabase, deliveryId, {
+      status: 'delivered',
+      attempts: attempt,
+      last_status_code: result.statusCode,
+      last_error: null,
+      last_attempt_at: now,
+      delivered_at: now
+    });
+
+    logger.info('Webhook delivered', {
+      deliveryId,
+      endpointId: endpoint.id,
+      eventType: delivery.event_type,
+      attempt
+    });
+
+    message.ack();
+    return;
+  }
+
+  if (attempt >= MAX_ATTEMPTS) {
+    await updateDelivery(supabase, deliveryId, {
+      status: 'dead_lettered',
+      attempts: attempt,
+      last_status_code: result.statusCode,
+      last_error: result.error,
+      last_attempt_at: now,
+      dead_lettered_at: now
+    });
+
+    logger.error('Webhook delivery dead-lettered', {
+      deliveryId,
+      endpointId: endpoint.id,
+      eventType: delivery.event_type,
+      attempts: attempt,
+      statusCode: result.statusCode,
+      error: result.error
+    });
+
+    message.ack();
+    return;
+  }
+
+  await updateDelivery(supabase, deliveryId, {
+    status: 'retrying',
+    attempts: attempt,
+    last_status_code: result.statusCode,
+    last_error: result.error,
+    last_attempt_at: now
+  });
+
+  const delaySeconds = RETRY_DELAYS_SECONDS[attempt - 1];
+
+  logger.warn('Webhook delivery failed, retrying', {
+    deliveryId,
+    endpointId: endpoint.id,
+    attempt,
+    statusCode: result.statusCode,
+    retryInSeconds: delaySeconds
+  });
+
+  message.retry({ delaySeconds });
+}
+
+/**
+ * POST the signed payload; never throws
+ */
+async function postEvent(
+  endpoint: WebhookEndpoint,
+  delivery: WebhookDelivery,
+  attempt: number
+): Promise<{ ok: boolean; statusCode: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    const signature = await signWebhookPayload(endpoint.secret, body);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Oslira-Webhooks/1.0',
+        'X-Oslira-Event': delivery.event_type,
+        'X-Oslira-Delivery': delivery.id,
+        'X-Oslira-Attempt': String(attempt),
+        'X-Oslira-Signature': signature
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+
+    if (response.ok) {
+      return { ok: true, statusCode: response.status, error: null };
+    }
+
+    const text = await response.text().catch(() => '');
+    return {
+      ok: false,
+      statusCode: response.status,
+      error: `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`
+    };
+  } catch (error: any) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+async function updateDelivery(
+  supabase: SupabaseClient,
+  deliveryId: string,
+  updates: Partial<WebhookDelivery>
+): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update(updates)
+    .eq('id', deliveryId);
+
+  if (error) throw error;
+}
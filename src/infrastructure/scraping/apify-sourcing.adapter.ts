@@ -0,0 +1,138 @@
+// infrastructure/scraping/apify-sourcing.adapter.ts
+
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { CollectedCandidates, ProspectSource, ProspectSourceType } from './scraper.types';
+import { ApifyAdapter, type ApifyRawProfile, type ApifyScraperInput } from './apify.adapter';
+import { SCRAPER_CONFIG, SOURCING_CONFIG, type ScraperConfig } from '@/config/operations-pricing.config';
+import { CommonSchemas } from '@/shared/utils/validation.util';
+
+/**
+ * APIFY SOURCING ADAPTER
+ *
+ * Collects prospect usernames for sourcing jobs, reusing ApifyAdapter's
+ * actor run/poll/fetch plumbing:
+ * - Hashtag and location pages: owners of the recent posts
+ * - Competitor profile: commenters on its most recent posts (two runs:
+ *   posts first, then their comments)
+ *
+ * The pre-filter scrapes candidates in batches with the regular profile
+ * actor, which accepts many usernames per run.
+ */
+
+const INSTAGRAM_URL = 'https://www.instagram.com';
+
+/** Collector actor input (posts or comments of the given pages) */
+interface CollectorInput {
+  directUrls: string[];
+  resultsType: 'posts' | 'comments';
+  resultsLimit: number;
+}
+
+/** Fields of the collector's post/comment items that sourcing reads (unvalidated) */
+interface CollectorItem {
+  ownerUsername?: unknown;
+  url?: unknown;
+}
+
+export class ApifySourcingAdapter extends ApifyAdapter implements ProspectSource {
+  constructor(apiToken: string, config: ScraperConfig = SCRAPER_CONFIG) {
+    super(apiToken, config);
+  }
+
+  /**
+   * Collect up to `limit` unique usernames from a source
+   */
+  async collectCandidates(
+    sourceType: ProspectSourceType,
+    value: string,
+    limit: number
+  ): Promise<CollectedCandidates> {
+    switch (sourceType) {
+      case 'hashtag':
+        return this.collectPostOwners(`${INSTAGRAM_URL}/explore/tags/${encodeURIComponent(value)}/`, limit);
+      case 'location':
+        return this.collectPostOwners(`${INSTAGRAM_URL}/explore/locations/${encodeURIComponent(value)}/`, limit);
+      case 'competitor_commenters':
+        return this.collectCommenters(value, limit);
+    }
+  }
+
+  /**
+   * Scrape a batch of profiles in a single actor run
+   */
+  async scrapeProfiles(usernames: string[]): Promise<ProfileData[]> {
+    if (usernames.length === 0) return [];
+
+    const input: ApifyScraperInput = { usernames };
+    const items = await this.runActor(this.actorId, input);
+
+    return items
+      .filter(item => !this.isErrorItem(item))
+      .map(item => this.transformProfile(item as ApifyRawProfile));
+  }
+
+  private async collectPostOwners(url: string, limit: number): Promise<CollectedCandidates> {
+    const items = await this.runCollector({
+      directUrls: [url],
+      resultsType: 'posts',
+      resultsLimit: limit
+    });
+
+    return {
+      usernames: uniqueUsernames(items.map(item => item.ownerUsername), limit),
+      itemCount: items.length
+    };
+  }
+
+  private async collectCommenters(competitor: string, limit: number): Promise<CollectedCandidates> {
+    const posts = await this.runCollector({
+      directUrls: [`${INSTAGRAM_URL}/${encodeURIComponent(competitor)}/`],
+      resultsType: 'posts',
+      resultsLimit: SOURCING_CONFIG.competitor_posts
+    });
+
+    const postUrls = posts
+      .map(post => post.url)
+      .filter((url): url is string => typeof url === 'string' && url.length > 0);
+
+    if (postUrls.length === 0) {
+      return { usernames: [], itemCount: posts.length };
+    }
+
+    const comments = await this.runCollector({
+      directUrls: postUrls,
+      resultsType: 'comments',
+      resultsLimit: Math.ceil(limit / postUrls.length)
+    });
+
+    const usernames = uniqueUsernames(comments.map(comment => comment.ownerUsername), limit + 1)
+      .filter(username => username !== competitor.toLowerCase())
+      .slice(0, limit);
+
+    return { usernames, itemCount: posts.length + comments.length };
+  }
+
+  private async runCollector(input: CollectorInput): Promise<CollectorItem[]> {
+    const items = await this.runActor(SOURCING_CONFIG.collector_actor_id, input, SOURCING_CONFIG.collector_timeout_ms);
+    return items as CollectorItem[];
+  }
+}
+
+/**
+ * Lowercased valid usernames, first occurrence order, capped at `limit`
+ */
+function uniqueUsernames(values: unknown[], limit: number): string[] {
+  const seen = new Set<string>();
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+
+    const username = value.replace(/^@+/, '').toLowerCase().trim();
+    if (!CommonSchemas.instagramUsername.safeParse(username).success) continue;
+
+    seen.add(username);
+    if (seen.size >= limit) break;
+  }
+
+  return [...seen];
+}
@@ -1,7 +1,11 @@
 // infrastructure/scraping/apify.adapter.ts
 
 import type { ProfileData } from '@/infrastructure/cache/r2-cache.service';
-import { SCRAPER_CONFIG } from '@/config/operations-pricing.config';
+import type { LeadPlatform } from '@/config/platforms.config';
+import type { ApifyErrorItem, ScraperProvider, ScrapeResult } from './scraper.types';
+import { SCRAPER_CONFIG, type ScraperConfig } from '@/config/operations-pricing.config';
+
+export type { ApifyErrorItem, ScrapeResult } from './scraper.types';
 
 /**
  * APIFY ADAPTER
@@ -15,7 +19,8 @@ import { SCRAPER_CONFIG } from '@/config/operations-pricing.config';
  * - Error handling for private/deleted profiles
  * - Cost tracking per scrape
  *
- * Future: Extensible for multi-channel support (Brightdata, etc)
+ * Also the base class for other Apify-backed platforms: subclasses override
+ * buildActorInput() and parseDatasetItems() (see tiktok.adapter.ts)
  */
 
 export interface ApifyScraperInput {
@@ -63,44 +68,24 @@ export interface ApifyRunResult {
   defaultDatasetId: string;
 }
 
-/**
- * Apify error response when profile cannot be found/accessed
- */
-export interface ApifyErrorItem {
-  url?: string;
-  username?: string;
-  error?: string;
-  errorDescription?: string;
-}
-
-/**
- * Result from scrapeProfileWithMeta - includes both data and error info
- * for pre-analysis checks to process
- */
-export interface ScrapeResult {
-  /** Whether the scrape succeeded */
-  success: boolean;
-  /** Profile data if successful */
-  profile?: ProfileData;
-  /** Error information if failed */
-  error?: ApifyErrorItem;
-  /** Raw items from Apify (for debugging) */
-  rawItemCount?: number;
-}
+export class ApifyAdapter implements ScraperProvider {
+  readonly platform: LeadPlatform = 'instagram';
+  readonly id: string;
 
-export class ApifyAdapter {
   private apiToken: string;
   private baseURL = 'https://api.apify.com/v2';
-  private actorId: string;
+  protected actorId: string;
+  protected config: ScraperConfig;
 
-  constructor(apiToken: string, actorId?: string) {
+  constructor(apiToken: string, config: ScraperConfig = SCRAPER_CONFIG) {
     this.apiToken = apiToken;
-    this.actorId = actorId || SCRAPER_CONFIG.actor_id;
+    this.config = config;
+    this.actorId = config.actor_id;
+    this.id = config.name;
   }
 
-
   /**
-   * Scrape Instagram profile with metadata about errors
+   * Scrape profile with metadata about errors
    * Returns a result object that includes error info for pre-analysis checks
    *
    * Use this method when you need to handle not-found or error profiles gracefully
@@ -110,7 +95,7 @@ export class ApifyAdapter {
     username: string,
     postsLimit: number = 12
   ): Promise<ScrapeResult> {
-    const maxRetries = SCRAPER_CONFIG.max_retries;
+    const maxRetries = this.config.max_retries;
     let lastError: Error | null = null;
     let lastErrorItem: ApifyErrorItem | undefined;
 
@@ -146,7 +131,7 @@ export class ApifyAdapter {
 
         // Retry on infrastructure errors
         if (attempt < maxRetries) {
-          const backoffMs = attempt * SCRAPER_CONFIG.retry_delay_ms;
+          const backoffMs = attempt * this.config.retry_delay_ms;
           console.warn(
             `[Apify] Attempt ${attempt} failed for @${username}, retrying in ${backoffMs}ms...`,
             error.message
@@ -172,10 +157,10 @@ export class ApifyAdapter {
    */
   private async executeScrape(username: string, postsLimit: number): Promise<ProfileData> {
     // Step 1: Start actor run
-    const runResult = await this.startActorRun(username, postsLimit);
+    const runResult = await this.startActorRun(this.actorId, this.buildActorInput(username, postsLimit));
 
     // Step 2: Wait for completion (with timeout)
-    await this.waitForCompletion(runResult.id, SCRAPER_CONFIG.timeout_ms);
+    await this.waitForCompletion(runResult.id, this.config.timeout_ms);
 
     // Step 3: Fetch results from dataset
     const rawProfile = await this.fetchDatasetResults(runResult.defaultDatasetId);
@@ -188,16 +173,34 @@ export class ApifyAdapter {
    * Execute single scrape attempt with metadata (for pre-analysis checks)
    */
   private async executeScrapeWithMeta(username: string, postsLimit: number): Promise<ScrapeResult> {
+    // Steps 1-3: Run the actor and fetch its raw dataset items
+    const rawItems = await this.runActor(this.actorId, this.buildActorInput(username, postsLimit));
+
+    // Step 4: Turn dataset items into a profile or an error item
+    return this.parseDatasetItems(rawItems, username);
+  }
+
+  /**
+   * Run any actor to completion and return its raw dataset items
+   * Shared with adapters that call other actors (see apify-sourcing.adapter.ts)
+   */
+  protected async runActor(actorId: string, input: object, timeoutMs: number = this.config.timeout_ms): Promise<any[]> {
     // Step 1: Start actor run
-    const runResult = await this.startActorRun(username, postsLimit);
+    const runResult = await this.startActorRun(actorId, input);
 
     // Step 2: Wait for completion (with timeout)
-    await this.waitForCompletion(runResult.id, SCRAPER_CONFIG.timeout_ms);
+    await this.waitForCompletion(runResult.id, timeoutMs);
 
     // Step 3: Fetch raw results from dataset
-    const rawItems = await this.fetchDatasetItems(runResult.defaultDatasetId);
+    return this.fetchDatasetItems(runResult.defaultDatasetId);
+  }
 
-    // Step 4: Check if we got any results
+  /**
+   * Turn raw dataset items into a ScrapeResult (one profile item per run)
+   * Public so FixtureScraperProvider can replay recorded datasets through it
+   */
+  parseDatasetItems(rawItems: any[], username: string): ScrapeResult {
+    // Check if we got any results
     if (!rawItems || rawItems.length === 0) {
       return {
         success: false,
@@ -212,7 +215,7 @@ export class ApifyAdapter {
 
     const firstItem = rawItems[0];
 
-    // Step 5: Check if the result is an error item (not_found, etc)
+    // Check if the result is an error item (not_found, etc)
     if (this.isErrorItem(firstItem)) {
       return {
         success: false,
@@ -221,7 +224,7 @@ export class ApifyAdapter {
       };
     }
 
-    // Step 6: Transform to ProfileData format
+    // Transform to ProfileData format
     const profile = this.transformProfile(firstItem as ApifyRawProfile);
 
     return {
@@ -234,7 +237,7 @@ export class ApifyAdapter {
   /**
    * Check if an Apify result item is an error (not a profile)
    */
-  private isErrorItem(item: any): boolean {
+  protected isErrorItem(item: any): boolean {
     // Error items have 'error' or 'errorDescription' fields
     // and typically lack profile data like 'fullName', 'followersCount'
     return (
@@ -247,12 +250,8 @@ export class ApifyAdapter {
   /**
    * Start Apify actor run
    */
-  private async startActorRun(username: string, postsLimit: number): Promise<ApifyRunResult> {
-    const input: ApifyScraperInput = {
-      usernames: [username]
-    };
-
-    const response = await fetch(`${this.baseURL}/acts/${this.actorId}/runs`, {
+  private async startActorRun(actorId: string, input: object): Promise<ApifyRunResult> {
+    const response = await fetch(`${this.baseURL}/acts/${actorId}/runs`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -270,6 +269,16 @@ export class ApifyAdapter {
     return result.data as ApifyRunResult;
   }
 
+  /**
+   * Actor input for a single profile
+   */
+  protected buildActorInput(username: string, _postsLimit: number): object {
+    const input: ApifyScraperInput = {
+      usernames: [username]
+    };
+    return input;
+  }
+
   /**
    * Wait for actor run to complete
    */
@@ -362,7 +371,7 @@ export class ApifyAdapter {
   /**
    * Transform Apify response to ProfileData format (camelCase for R2CacheService)
    */
-  private transformProfile(raw: ApifyRawProfile): ProfileData {
+  protected transformProfile(raw: ApifyRawProfile): ProfileData {
     const latestPosts = this.transformPosts(raw.latestPosts || []);
 
     return {
@@ -378,6 +387,7 @@ export class ApifyAdapter {
       isBusinessAccount: !!raw.businessCategoryName,
       profilePicUrl: raw.profilePicUrl,
       latestPosts: latestPosts,
+      platform: this.platform,
       scraperUsed: this.actorId,
       dataQuality: this.determineDataQuality(latestPosts.length)
     };
@@ -425,7 +435,7 @@ export class ApifyAdapter {
   /**
    * Determine data quality based on posts count
    */
-  private determineDataQuality(postsCount: number): 'high' | 'medium' | 'low' {
+  protected determineDataQuality(postsCount: number): 'high' | 'medium' | 'low' {
     if (postsCount > 3) return 'high';
     if (postsCount >= 1) return 'medium';
     return 'low';
@@ -452,7 +462,7 @@ export class ApifyAdapter {
   /**
    * Sleep utility
    */
-  private sleep(ms: number): Promise<void> {
+  protected sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -0,0 +1,162 @@
+// infrastructure/scraping/scraper-health.service.ts
+
+import type { KVNamespace } from '@cloudflare/workers-types';
+import { SCRAPER_HEALTH_CONFIG } from '@/config/scraper-providers.config';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * SCRAPER HEALTH TRACKER
+ *
+ * Rolling error rate and latency per scraper provider, persisted in KV so
+ * every isolate (workflows, watch runs) sees the same picture.
+ *
+ * Circuit breaker:
+ * - Once a provider has min_samples attempts in the window and its error
+ *   rate reaches max_error_rate, it is marked unhealthy for cooldown_ms
+ * - After the cooldown the next attempt acts as a probe; a failure re-trips
+ *   the breaker, successes bring the error rate back down
+ *
+ * KV is eventually consistent, so concurrent writers can drop a sample now
+ * and then. That is fine for a failover heuristic; health is never used for
+ * billing decisions.
+ */
+
+/** Samples kept per provider (bounds the KV value size) */
+const MAX_SAMPLES = 50;
+
+interface HealthSample {
+  /** Epoch ms */
+  at: number;
+  ok: boolean;
+  latency_ms: number;
+}
+
+interface HealthRecord {
+  samples: HealthSample[];
+  unhealthy_until: number | null;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  healthy: boolean;
+  attempts: number;
+  failures: number;
+  error_rate: number;
+  avg_latency_ms: number | null;
+  unhealthy_until: string | null;
+}
+
+export class ScraperHealthTracker {
+  constructor(private kv: KVNamespace) {}
+
+  /**
+   * Record one scrape attempt; trips the breaker when the window error rate is too high
+   */
+  async record(providerId: string, ok: boolean, latencyMs: number): Promise<void> {
+    try {
+      const now = Date.now();
+      const record = await this.load(providerId, now);
+
+      record.samples.push({ at: now, ok, latency_ms: Math.round(latencyMs) });
+      if (record.samples.length > MAX_SAMPLES) {
+        record.samples = record.samples.slice(-MAX_SAMPLES);
+      }
+
+      const { attempts, failures } = this.summarize(record.samples);
+      const errorRate = attempts > 0 ? failures / attempts : 0;
+      const cooledDown = !record.unhealthy_until || record.unhealthy_until <= now;
+
+      if (
+        !ok &&
+        cooledDown &&
+        attempts >= SCRAPER_HEALTH_CONFIG.min_samples &&
+        errorRate >= SCRAPER_HEALTH_CONFIG.max_error_rate
+      ) {
+        record.unhealthy_until = now + SCRAPER_HEALTH_CONFIG.cooldown_ms;
+        logger.warn('Scraper provider marked unhealthy', {
+          provider: providerId,
+          attempts,
+          failures,
+          errorRate: errorRate.toFixed(2),
+          cooldownMs: SCRAPER_HEALTH_CONFIG.cooldown_ms
+        });
+      }
+
+      await this.kv.put(this.key(providerId), JSON.stringify(record), {
+        expirationTtl: Math.ceil(SCRAPER_HEALTH_CONFIG.window_ms / 1000) * 2
+      });
+    } catch (error: unknown) {
+      // Health tracking must never break a scrape
+      logger.warn('Failed to record scraper health', {
+        provider: providerId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Whether a provider should be tried (unknown providers count as healthy)
+   */
+  async isHealthy(providerId: string): Promise<boolean> {
+    const health = await this.getHealth(providerId);
+    return health.healthy;
+  }
+
+  /**
+   * Current window stats for a provider
+   */
+  async getHealth(providerId: string): Promise<ProviderHealth> {
+    const now = Date.now();
+    let record: HealthRecord;
+
+    try {
+      record = await this.load(providerId, now);
+    } catch (error: unknown) {
+      logger.warn('Failed to load scraper health', {
+        provider: providerId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      record = { samples: [], unhealthy_until: null };
+    }
+
+    const { attempts, failures, totalLatency } = this.summarize(record.samples);
+    const inCooldown = !!record.unhealthy_until && record.unhealthy_until > now;
+
+    return {
+      provider: providerId,
+      healthy: !inCooldown,
+      attempts,
+      failures,
+      error_rate: attempts > 0 ? Number((failures / attempts).toFixed(3)) : 0,
+      avg_latency_ms: attempts > 0 ? Math.round(totalLatency / attempts) : null,
+      unhealthy_until: inCooldown ? new Date(record.unhealthy_until!).toISOString() : null
+    };
+  }
+
+  // ===============================================================================
+  // PRIVATE HELPERS
+  // ===============================================================================
+
+  private key(providerId: string): string {
+    return `scraper_health:${providerId}`;
+  }
+
+  /** Load a record with samples outside the window dropped */
+  private async load(providerId: string, now: number): Promise<HealthRecord> {
+    const stored = await this.kv.get(this.key(providerId), 'json') as HealthRecord | null;
+    const windowStart = now - SCRAPER_HEALTH_CONFIG.window_ms;
+
+    return {
+      samples: (stored?.samples || []).filter(sample => sample.at >= windowStart),
+      unhealthy_until: stored?.unhealthy_until ?? null
+    };
+  }
+
+  private summarize(samples: HealthSample[]): { attempts: number; failures: number; totalLatency: number } {
+    return {
+      attempts: samples.length,
+      failures: samples.filter(sample => !sample.ok).length,
+      totalLatency: samples.reduce((sum, sample) => sum + sample.latency_ms, 0)
+    };
+  }
+}
@@ -0,0 +1,60 @@
+// infrastructure/scraping/scraper.factory.ts
+
+import type { Env } from '@/shared/types/env.types';
+import type { ProfileScraper, ScraperProvider } from './scraper.types';
+import type { LeadPlatform } from '@/config/platforms.config';
+import { LEAD_PLATFORMS } from '@/config/platforms.config';
+import type { ScraperConfig } from '@/config/operations-pricing.config';
+import { SCRAPER_PROVIDERS } from '@/config/scraper-providers.config';
+import { ApifyAdapter } from './apify.adapter';
+import { TikTokAdapter } from './tiktok.adapter';
+import { FixtureScraperProvider, R2FixtureSource } from './fixture-scraper.provider';
+import { ScraperHealthTracker } from './scraper-health.service';
+import { ScraperRegistry } from './scraper.registry';
+
+/**
+ * Build the registry for this environment
+ * SCRAPER_PROVIDER=fixture swaps every chain for R2-recorded datasets (never in production)
+ */
+export function createScraperRegistry(env: Env, apifyToken: string): ScraperRegistry {
+  const registry = new ScraperRegistry(new ScraperHealthTracker(env.OSLIRA_KV));
+  const useFixtures = env.SCRAPER_PROVIDER === 'fixture' && env.APP_ENV !== 'production';
+
+  for (const platform of LEAD_PLATFORMS) {
+    if (useFixtures) {
+      if (SCRAPER_PROVIDERS[platform].length > 0) {
+        registry.register(new FixtureScraperProvider(platform, new R2FixtureSource(env.R2_CACHE_BUCKET)));
+      }
+      continue;
+    }
+
+    for (const config of SCRAPER_PROVIDERS[platform]) {
+      registry.register(createApifyProvider(platform, config, apifyToken));
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Create the failover scraper for a lead platform
+ * Throws for platforms without a scraper yet (see PLATFORM_CONFIG.enabled)
+ */
+export function createProfileScraper(env: Env, platform: LeadPlatform, apifyToken: string): ProfileScraper {
+  return createScraperRegistry(env, apifyToken).forPlatform(platform);
+}
+
+function createApifyProvider(
+  platform: LeadPlatform,
+  config: ScraperConfig,
+  apifyToken: string
+): ScraperProvider {
+  switch (platform) {
+    case 'instagram':
+      return new ApifyAdapter(apifyToken, config);
+    case 'tiktok':
+      return new TikTokAdapter(apifyToken, config);
+    default:
+      throw new Error(`No Apify adapter for platform: ${platform}`);
+  }
+}
@@ -0,0 +1,130 @@
+// infrastructure/scraping/scraper.registry.ts
+
+import type { ProfileScraper, ScraperProvider, ScrapeResult } from './scraper.types';
+import type { ScraperHealthTracker, ProviderHealth } from './scraper-health.service';
+import { getPlatformConfig, type LeadPlatform } from '@/config/platforms.config';
+import { isInfrastructureScrapeError } from './scraper.types';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * SCRAPER REGISTRY
+ *
+ * Holds the providers for each platform in failover order and hands out a
+ * FailoverScraper that walks them:
+ * - Healthy providers are tried first, in registration order
+ * - Providers in circuit-breaker cooldown are kept as a last resort, so an
+ *   outage of every provider still gets one attempt each
+ * - Only infrastructure failures (scrape_failed / scrape_error / thrown
+ *   errors) fail over; not found and private profiles are real answers and
+ *   are returned immediately
+ * - Every attempt is recorded with the health tracker (when one is set)
+ */
+
+export class ScraperRegistry {
+  private providers = new Map<LeadPlatform, ScraperProvider[]>();
+
+  constructor(private health: ScraperHealthTracker | null = null) {}
+
+  /** Append a provider to its platform's failover chain */
+  register(provider: ScraperProvider): this {
+    const chain = this.providers.get(provider.platform) || [];
+    chain.push(provider);
+    this.providers.set(provider.platform, chain);
+    return this;
+  }
+
+  getProviders(platform: LeadPlatform): ScraperProvider[] {
+    return this.providers.get(platform) || [];
+  }
+
+  /**
+   * Scraper for a platform that fails over across its providers
+   * Throws for platforms without providers (see PLATFORM_CONFIG.enabled)
+   */
+  forPlatform(platform: LeadPlatform): ProfileScraper {
+    const chain = this.getProviders(platform);
+    if (chain.length === 0) {
+      throw new Error(`${getPlatformConfig(platform).label} scraping is not supported yet`);
+    }
+    return new FailoverScraper(platform, chain, this.health);
+  }
+
+  /** Window stats for every provider of a platform */
+  async getHealth(platform: LeadPlatform): Promise<ProviderHealth[]> {
+    if (!this.health) return [];
+    const tracker = this.health;
+    return Promise.all(this.getProviders(platform).map(provider => tracker.getHealth(provider.id)));
+  }
+}
+
+export class FailoverScraper implements ProfileScraper {
+  constructor(
+    readonly platform: LeadPlatform,
+    private chain: ScraperProvider[],
+    private health: ScraperHealthTracker | null
+  ) {}
+
+  async scrapeProfileWithMeta(username: string, postsLimit?: number): Promise<ScrapeResult> {
+    const ordered = await this.orderByHealth();
+    let lastResult: ScrapeResult | null = null;
+
+    for (const [index, provider] of ordered.entries()) {
+      const startTime = Date.now();
+      let result: ScrapeResult;
+
+      try {
+        result = await provider.scrapeProfileWithMeta(username, postsLimit);
+      } catch (error: unknown) {
+        result = {
+          success: false,
+          error: {
+            username,
+            error: 'scrape_error',
+            errorDescription: error instanceof Error ? error.message : String(error)
+          }
+        };
+      }
+
+      const failed = isInfrastructureScrapeError(result);
+      await this.health?.record(provider.id, !failed, Date.now() - startTime);
+      result.provider = provider.id;
+
+      if (!failed) {
+        if (index > 0) {
+          logger.info('Scrape served by fallback provider', {
+            platform: this.platform,
+            username,
+            provider: provider.id
+          });
+        }
+        return result;
+      }
+
+      logger.warn('Scraper provider failed', {
+        platform: this.platform,
+        username,
+        provider: provider.id,
+        error: result.error?.errorDescription,
+        remainingProviders: ordered.length - index - 1
+      });
+      lastResult = result;
+    }
+
+    return lastResult!;
+  }
+
+  /** Healthy providers first, cooling-down providers last (order otherwise preserved) */
+  private async orderByHealth(): Promise<ScraperProvider[]> {
+    if (!this.health || this.chain.length === 1) {
+      return this.chain;
+    }
+
+    const tracker = this.health;
+    const healthy = await Promise.all(this.chain.map(provider => tracker.isHealthy(provider.id)));
+
+    return [
+      ...this.chain.filter((_, i) => healthy[i]),
+      ...this.chain.filter((_, i) => !healthy[i])
+    ];
+  }
+}
@@ -0,0 +1,97 @@
+// infrastructure/scraping/scraper.types.ts
+
+import type { ProfileData } from '@/shared/types/profile.types';
+import type { LeadPlatform } from '@/config/platforms.config';
+
+/**
+ * SCRAPER TYPES
+ *
+ * Platform-neutral contract between the analysis pipeline and scrapers.
+ * Every scraper returns ProfileData, so caching, pre-analysis checks,
+ * extraction and scoring don't need to know where a profile came from.
+ */
+
+/**
+ * Scraper error item (profile missing, private, scrape failed)
+ * Shape follows Apify's error items, which pre-analysis checks inspect
+ */
+export interface ApifyErrorItem {
+  url?: string;
+  username?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+/**
+ * Result from scrapeProfileWithMeta - includes both data and error info
+ * for pre-analysis checks to process
+ */
+export interface ScrapeResult {
+  /** Whether the scrape succeeded */
+  success: boolean;
+  /** Profile data if successful */
+  profile?: ProfileData;
+  /** Error information if failed */
+  error?: ApifyErrorItem;
+  /** Raw items from the scraper (for debugging) */
+  rawItemCount?: number;
+  /** Provider that produced this result (set by FailoverScraper) */
+  provider?: string;
+}
+
+/**
+ * Scrapes a single platform into ProfileData
+ */
+export interface ProfileScraper {
+  readonly platform: LeadPlatform;
+
+  /**
+   * Scrape a profile; user errors (not found, private) are returned, not thrown
+   */
+  scrapeProfileWithMeta(username: string, postsLimit?: number): Promise<ScrapeResult>;
+}
+
+/**
+ * A single scraping backend (Apify actor, fixtures, ...) registered in a
+ * platform's failover chain; `id` keys its health record
+ */
+export interface ScraperProvider extends ProfileScraper {
+  readonly id: string;
+}
+
+/**
+ * Scrape infrastructure failures (as opposed to not found / private),
+ * which count against provider health and trigger failover
+ */
+export const INFRASTRUCTURE_SCRAPE_ERRORS = ['scrape_failed', 'scrape_error'];
+
+export function isInfrastructureScrapeError(result: ScrapeResult): boolean {
+  return !result.success && INFRASTRUCTURE_SCRAPE_ERRORS.includes(result.error?.error ?? '');
+}
+
+/**
+ * Where a prospect sourcing job collects candidate usernames from
+ * - hashtag: owners of recent posts under the hashtag
+ * - location: owners of recent posts tagged at the location (Instagram location ID)
+ * - competitor_commenters: people commenting on a competitor's recent posts
+ */
+export const PROSPECT_SOURCE_TYPES = ['hashtag', 'location', 'competitor_commenters'] as const;
+
+export type ProspectSourceType = typeof PROSPECT_SOURCE_TYPES[number];
+
+export interface CollectedCandidates {
+  /** Normalized, de-duplicated usernames in collection order */
+  usernames: string[];
+  /** Dataset items the collector returned (what the run is billed for) */
+  itemCount: number;
+}
+
+/**
+ * Collects candidate usernames and batch-scrapes them for the pre-filter
+ */
+export interface ProspectSource {
+  collectCandidates(sourceType: ProspectSourceType, value: string, limit: number): Promise<CollectedCandidates>;
+
+  /** Scrape many profiles in one run; missing, private-error and not-found usernames are left out */
+  scrapeProfiles(usernames: string[]): Promise<ProfileData[]>;
+}
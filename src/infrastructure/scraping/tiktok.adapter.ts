@@ -0,0 +1,160 @@
+// infrastructure/scraping/tiktok.adapter.ts
+
+import type { ProfileData, PostData } from '@/shared/types/profile.types';
+import type { LeadPlatform } from '@/config/platforms.config';
+import type { ApifyErrorItem, ScrapeResult } from './scraper.types';
+import type { ScraperConfig } from '@/config/operations-pricing.config';
+import { TIKTOK_SCRAPER_CONFIG } from '@/config/scraper-providers.config';
+import { ApifyAdapter } from './apify.adapter';
+
+/**
+ * TIKTOK ADAPTER
+ *
+ * Scrapes TikTok profiles with the Apify TikTok actor and maps them into
+ * ProfileData so they flow through the same analysis pipeline as Instagram.
+ *
+ * The actor returns one dataset item per video, each carrying the author's
+ * profile (authorMeta). Metric mapping:
+ * - fans → followersCount, following → followingCount, video → postsCount
+ * - diggCount (hearts) → likeCount, playCount → videoViewCount
+ * - Every video is mediaType 'video' / productType 'clips', so format metrics
+ *   treat TikTok like an all-Reels account instead of flagging a Reels gap
+ * - Slideshows map to 'carousel'
+ */
+
+export interface TikTokAuthorMeta {
+  id: string;
+  name: string;
+  nickName?: string;
+  verified?: boolean;
+  signature?: string;
+  bioLink?: string | null;
+  avatar?: string;
+  privateAccount?: boolean;
+  fans?: number;
+  following?: number;
+  heart?: number;
+  video?: number;
+  commerceUserInfo?: { commerceUser?: boolean };
+  ttSeller?: boolean;
+}
+
+export interface TikTokRawVideo {
+  id: string;
+  text?: string;
+  createTimeISO?: string;
+  webVideoUrl?: string;
+  diggCount?: number;
+  commentCount?: number;
+  playCount?: number;
+  shareCount?: number;
+  isSlideshow?: boolean;
+  hashtags?: Array<{ name: string }>;
+  mentions?: string[];
+  locationMeta?: { locationName?: string; address?: string } | null;
+  videoMeta?: { coverUrl?: string };
+  authorMeta?: TikTokAuthorMeta;
+}
+
+export class TikTokAdapter extends ApifyAdapter {
+  readonly platform: LeadPlatform = 'tiktok';
+
+  constructor(apiToken: string, config: ScraperConfig = TIKTOK_SCRAPER_CONFIG) {
+    super(apiToken, config);
+  }
+
+  /**
+   * Actor input for a single profile's latest videos
+   */
+  protected buildActorInput(username: string, postsLimit: number): object {
+    return {
+      profiles: [username],
+      // Profile-only checks (postsLimit 0) still need one item for authorMeta
+      resultsPerPage: Math.max(postsLimit, 1),
+      profileScrapeSections: ['videos'],
+      shouldDownloadVideos: false,
+      shouldDownloadCovers: false,
+      shouldDownloadSubtitles: false
+    };
+  }
+
+  /**
+   * Collapse per-video items into one profile
+   */
+  parseDatasetItems(rawItems: any[], username: string): ScrapeResult {
+    if (!rawItems || rawItems.length === 0) {
+      return {
+        success: false,
+        rawItemCount: 0,
+        error: {
+          username,
+          error: 'not_found',
+          errorDescription: 'No data returned from scraper'
+        }
+      };
+    }
+
+    const videos = rawItems.filter((item): item is TikTokRawVideo => !!item?.authorMeta);
+    const author = videos[0]?.authorMeta;
+
+    if (!author) {
+      const errorItem = rawItems.find(item => item?.error || item?.errorDescription) as ApifyErrorItem | undefined;
+      return {
+        success: false,
+        rawItemCount: rawItems.length,
+        error: errorItem || {
+          username,
+          error: 'not_found',
+          errorDescription: 'Profile not found'
+        }
+      };
+    }
+
+    return {
+      success: true,
+      profile: this.transformTikTokProfile(author, videos),
+      rawItemCount: rawItems.length
+    };
+  }
+
+  private transformTikTokProfile(author: TikTokAuthorMeta, videos: TikTokRawVideo[]): ProfileData {
+    // Private accounts return author data without videos
+    const latestPosts = author.privateAccount ? [] : videos.map(video => this.transformVideo(video));
+
+    return {
+      username: author.name,
+      displayName: author.nickName || author.name,
+      followersCount: author.fans ?? 0,
+      followingCount: author.following ?? 0,
+      postsCount: author.video ?? latestPosts.length,
+      bio: author.signature || '',
+      externalUrl: author.bioLink || null,
+      isVerified: !!author.verified,
+      isPrivate: !!author.privateAccount,
+      isBusinessAccount: !!(author.commerceUserInfo?.commerceUser || author.ttSeller),
+      profilePicUrl: author.avatar || '',
+      latestPosts,
+      platform: this.platform,
+      scraperUsed: this.actorId,
+      dataQuality: this.determineDataQuality(latestPosts.length)
+    };
+  }
+
+  private transformVideo(video: TikTokRawVideo): PostData {
+    return {
+      id: video.id,
+      caption: video.text || '',
+      likeCount: video.diggCount ?? 0,
+      commentCount: video.commentCount ?? 0,
+      timestamp: video.createTimeISO || '',
+      mediaType: video.isSlideshow ? 'carousel' : 'video',
+      mediaUrl: video.videoMeta?.coverUrl || '',
+      videoUrl: video.webVideoUrl || null,
+      videoViewCount: video.playCount ?? null,
+      productType: video.isSlideshow ? 'feed' : 'clips',
+      hashtags: (video.hashtags || []).map(tag => tag.name).filter(Boolean),
+      mentions: (video.mentions || []).map(mention => mention.replace(/^@/, '')),
+      locationName: video.locationMeta?.locationName || video.locationMeta?.address || null
+    };
+  }
+}
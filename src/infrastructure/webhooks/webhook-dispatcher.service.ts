@@ -0,0 +1,250 @@
+// infrastructure/webhooks/webhook-dispatcher.service.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Env, WebhookDeliveryQueueMessage } from '@/shared/types/env.types';
+import type {
+  WebhookEventType,
+  WebhookEventEnvelope,
+  WebhookDelivery
+} from '@/shared/types/webhook.types';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { getCreditType, type AnalysisType } from '@/config/operations-pricing.config';
+import { generateId } from '@/shared/utils/id.util';
+import { logger } from '@/shared/utils/logger.util';
+
+/**
+ * WEBHOOK DISPATCHER
+ *
+ * Fan-out side of outbound webhooks. emit() records one delivery per
+ * subscribed endpoint and enqueues it; the webhook delivery consumer does the
+ * signed HTTP POST with retries/backoff. enqueued_at is only set once the
+ * queue accepted the message, so a failed enqueue is retried rather than lost.
+ *
+ * Emitters (workflow steps, DO alarms) may run more than once, so every event
+ * carries a deterministic event key and deliveries are unique per
+ * (endpoint, event key) - a replayed emit is a no-op.
+ *
+ * SIGNING:
+ * - Header X-Oslira-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ * - Signed content: `${t}.${raw body}` with the endpoint secret
+ */
+
+/** Balance at or below which credits.low fires (per credit type) */
+export const CREDITS_LOW_THRESHOLD = 10;
+
+/** Unenqueued pending deliveries older than this are picked up by the sweep */
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+/** Deliveries re-enqueued per sweep */
+const STALE_PENDING_BATCH = 500;
+
+export class WebhookDispatcher {
+  constructor(private env: Env) {}
+
+  /**
+   * Record and enqueue an event for every active endpoint subscribed to it
+   * Returns the number of new deliveries (0 when nobody subscribes or it was already emitted)
+   */
+  async emit<T extends Record<string, unknown>>(
+    accountId: string,
+    eventType: WebhookEventType,
+    eventKey: string,
+    data: T
+  ): Promise<number> {
+    const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('account_id', accountId)
+      .eq('status', 'active')
+      .contains('events', [eventType])
+      .is('deleted_at', null);
+
+    if (error) throw error;
+    if (!endpoints || endpoints.length === 0) return 0;
+
+    const envelope: WebhookEventEnvelope<T> = {
+      id: generateId('evt'),
+      type: eventType,
+      created_at: new Date().toISOString(),
+      account_id: accountId,
+      data
+    };
+
+    // ON CONFLICT DO NOTHING: a replayed emit keeps the original deliveries
+    const { error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .upsert(
+        endpoints.map(endpoint => ({
+          endpoint_id: endpoint.id,
+          account_id: accountId,
+          event_key: eventKey,
+          event_type: eventType,
+          payload: envelope,
+          status: 'pending',
+          attempts: 0,
+          enqueued_at: null
+        })),
+        { onConflict: 'endpoint_id,event_key', ignoreDuplicates: true }
+      );
+
+    if (insertError) throw insertError;
+
+    // New deliveries plus any an earlier emit recorded but failed to enqueue
+    const { data: deliveries, error: pendingError } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_type')
+      .eq('event_key', eventKey)
+      .in('endpoint_id', endpoints.map(endpoint => endpoint.id))
+      .eq('status', 'pending')
+      .is('enqueued_at', null);
+
+    if (pendingError) throw pendingError;
+    if (!deliveries || deliveries.length === 0) return 0;
+
+    await this.enqueue(supabase, deliveries);
+
+    logger.info('Webhook event emitted', {
+      accountId,
+      eventType,
+      eventKey,
+      deliveries: deliveries.length
+    });
+
+    return deliveries.length;
+  }
+
+  /**
+   * Emit credits.low when the balance used by an analysis type is running out
+   * Fires at most once per account, credit type and UTC day
+   */
+  async emitIfCreditsLow(accountId: string, analysisType: AnalysisType): Promise<void> {
+    const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+    const creditsRepo = new CreditsRepository(supabase);
+
+    const creditType = getCreditType(analysisType);
+    const balance = await creditsRepo.getBalanceByType(accountId, creditType);
+
+    if (balance > CREDITS_LOW_THRESHOLD) return;
+
+    const day = new Date().toISOString().split('T')[0];
+
+    await this.emit(accountId, 'credits.low', `credits.low:${creditType}:${day}`, {
+      credit_type: creditType,
+      balance,
+      threshold: CREDITS_LOW_THRESHOLD
+    });
+  }
+
+  /**
+   * Put a dead-lettered delivery back on the queue (manual redelivery)
+   */
+  async redeliver(delivery: Pick<WebhookDelivery, 'id' | 'endpoint_id' | 'event_type'>): Promise<void> {
+    const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'pending', attempts: 0, dead_lettered_at: null, enqueued_at: null })
+      .eq('id', delivery.id);
+
+    if (error) throw error;
+
+    await this.enqueue(supabase, [delivery]);
+  }
+
+  /**
+   * Enqueue pending deliveries that never made it onto the queue (sendBatch
+   * failed after the rows were written and the emitter didn't retry)
+   * Run from the hourly cron; returns the number re-enqueued
+   */
+  async enqueueStalePending(): Promise<number> {
+    const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+    const cutoff = new Date(Date.now() - STALE_PENDING_MS).toISOString();
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_type')
+      .eq('status', 'pending')
+      .is('enqueued_at', null)
+      .lt('created_at', cutoff)
+      .order('created_at', { ascending: true })
+      .limit(STALE_PENDING_BATCH);
+
+    if (error) throw error;
+    if (!data || data.length === 0) return 0;
+
+    await this.enqueue(supabase, data);
+    return data.length;
+  }
+
+  /**
+   * Send to the delivery queue, then stamp enqueued_at
+   * Rows stay unstamped when sendBatch throws, so emit replays and the stale
+   * sweep pick them up; a crash between the two steps at worst enqueues a
+   * delivery twice (once delivered, later messages are acked without a POST)
+   */
+  private async enqueue(
+    supabase: SupabaseClient,
+    deliveries: Array<Pick<WebhookDelivery, 'id' | 'endpoint_id' | 'event_type'>>
+  ): Promise<void> {
+    // sendBatch accepts at most 100 messages per call
+    for (let i = 0; i < deliveries.length; i += 100) {
+      const chunk = deliveries.slice(i, i + 100);
+      const messages: WebhookDeliveryQueueMessage[] = chunk.map(d => ({
+        delivery_id: d.id,
+        endpoint_id: d.endpoint_id,
+        event_type: d.event_type
+      }));
+
+      await this.env.WEBHOOK_DELIVERY_QUEUE.sendBatch(messages.map(body => ({ body })));
+
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .update({ enqueued_at: new Date().toISOString() })
+        .in('id', chunk.map(d => d.id));
+
+      if (error) throw error;
+    }
+  }
+}
+
+// ===============================================================================
+// SIGNING
+// ===============================================================================
+
+/**
+ * Generate a signing secret (shown to the user once on create/rotate)
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${toHex(bytes)}`;
+}
+
+/**
+ * Build the X-Oslira-Signature header value for a request body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const encoder = new TextEncoder();
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+
+  return `t=${timestamp},v1=${toHex(new Uint8Array(signature))}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
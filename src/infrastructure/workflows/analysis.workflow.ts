@@ -5,16 +5,20 @@ import type { Env, AnalysisWorkflowParams } from '@/shared/types/env.types';
 import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
 import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
 import { LeadsRepository } from '@/infrastructure/database/repositories/leads.repository';
-import { AnalysisRepository } from '@/infrastructure/database/repositories/analysis.repository';
+import { AnalysisRepository, type AnalysisProfileSnapshot } from '@/infrastructure/database/repositories/analysis.repository';
 import { BusinessRepository } from '@/infrastructure/database/repositories/business.repository';
 import { OperationsLedgerRepository } from '@/infrastructure/database/repositories/operations-ledger.repository';
 import { R2CacheService, type ProfileData } from '@/infrastructure/cache/r2-cache.service';
 import { AvatarCacheService } from '@/infrastructure/cache/avatar-cache.service';
-import { ApifyAdapter, type ScrapeResult, type ApifyErrorItem } from '@/infrastructure/scraping/apify.adapter';
+import type { ScrapeResult, ApifyErrorItem } from '@/infrastructure/scraping/scraper.types';
+import { createProfileScraper } from '@/infrastructure/scraping/scraper.factory';
 import { AIAnalysisService } from '@/infrastructure/ai/ai-analysis.service';
 import { getSecret } from '@/infrastructure/config/secrets';
 import { toAIProfile, type AIProfileData } from '@/shared/types/profile.types';
 import { getStepProgress } from './workflow-progress.config';
+import { DEFAULT_LEAD_PLATFORM, getPlatformConfig } from '@/config/platforms.config';
+import { resolveScoringConfig } from '@/config/scoring.config';
+import { getScraperConfig } from '@/config/scraper-providers.config';
 import {
   getCreditCost,
   getPostsLimit,
@@ -28,8 +32,13 @@ import {
 import {
   PreAnalysisChecksService,
   type PreAnalysisChecksSummary,
-  type AnalysisResultType
+  type AnalysisResultType,
+  getICPSettings
 } from '@/infrastructure/analysis-checks';
+import type { BulkBatchItemResult } from '@/shared/types/bulk-batch.types';
+import type { WebhookEventType } from '@/shared/types/webhook.types';
+import { WebhookDispatcher } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { publishBroadcast, tryPublishBroadcast, publishCreditsUpdated } from '@/infrastructure/durable-objects/broadcast.publisher';
 import { logger } from '@/shared/utils/logger.util';
 
 // Phase 2: Profile Extraction & Data Transformation
@@ -44,7 +53,7 @@ import {
   type ExtractedData,
   type AIResponsePayload,
   type TextDataForAI,
-  type ApifyFullProfile,
+  profileDataToApifyFormat,
   type NicheDetectionOutput
 } from '@/infrastructure/extraction';
 
@@ -72,65 +81,20 @@ const CRITICAL_PROGRESS_STEPS = new Set([
 ]);
 
 /**
- * Convert ProfileData (cache format) to ApifyFullProfile (extraction format)
- * Handles field name mismatches: likeCount → likesCount, commentCount → commentsCount
- * Preserves rich metadata (hashtags, mentions, locations, video data) for accurate analysis
+ * Capture the profile values stored alongside a completed analysis
  */
-function profileDataToApifyFormat(profile: ProfileData): ApifyFullProfile {
+function toAnalysisProfileSnapshot(profile: ProfileData): AnalysisProfileSnapshot {
   return {
-    id: profile.username,
-    username: profile.username,
-    fullName: profile.displayName,
-    biography: profile.bio,
-    externalUrl: profile.externalUrl,
-    externalUrls: profile.externalUrl ? [{ title: 'External Link', url: profile.externalUrl }] : [],
-    profilePicUrl: profile.profilePicUrl,
-    followersCount: profile.followersCount,
-    followsCount: profile.followingCount,
-    postsCount: profile.postsCount,
-    verified: profile.isVerified,
-    private: profile.isPrivate,
-    isBusinessAccount: profile.isBusinessAccount,
-    hasChannel: false,
-    businessCategoryName: null,
-    latestPosts: profile.latestPosts.map(post => ({
-      id: post.id,
-      shortCode: post.id,
-      caption: post.caption,
-      likesCount: post.likeCount,
-      commentsCount: post.commentCount,
-      timestamp: post.timestamp,
-      type: mapMediaTypeToApify(post.mediaType, post.productType),
-      productType: post.productType as 'feed' | 'clips' | 'igtv' | undefined,
-      displayUrl: post.mediaUrl || '',
-      videoUrl: post.videoUrl || undefined,
-      videoViewCount: post.videoViewCount || undefined,
-      hashtags: post.hashtags || [],
-      mentions: post.mentions || [],
-      taggedUsers: [],
-      locationName: post.locationName || null,
-      locationId: null,
-      alt: null,
-      isCommentsDisabled: false
-    }))
+    follower_count: profile.followersCount,
+    following_count: profile.followingCount,
+    post_count: profile.postsCount,
+    bio: profile.bio || '',
+    external_url: profile.externalUrl,
+    is_verified: profile.isVerified,
+    is_private: profile.isPrivate
   };
 }
 
-/**
- * Map ProfileData mediaType back to Apify format
- * Considers productType for accurate Reels detection
- */
-function mapMediaTypeToApify(
-  mediaType: 'photo' | 'video' | 'carousel',
-  productType?: string | null
-): 'Image' | 'Video' | 'Sidecar' {
-  // Reels (productType='clips') are always Videos
-  if (productType === 'clips') return 'Video';
-  if (mediaType === 'video') return 'Video';
-  if (mediaType === 'carousel') return 'Sidecar';
-  return 'Image';
-}
-
 export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowParams> {
 
   private accountId!: string; // Store account ID for broadcast calls
@@ -155,6 +119,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
   async run(event: WorkflowEvent<AnalysisWorkflowParams>, step: WorkflowStep) {
     const params = event.payload;
     this.accountId = params.account_id; // Store for broadcast calls
+    const platform = params.platform ?? DEFAULT_LEAD_PLATFORM;
     const creditsCost = getCreditCost(params.analysis_type);
     const workflowStartTime = Date.now();
 
@@ -162,6 +127,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
     const logContext = {
       runId: params.run_id,
       username: params.username,
+      platform,
       accountId: params.account_id,
       analysisType: params.analysis_type
     };
@@ -178,6 +144,10 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
 
     // Track scrape error info for pre-analysis checks
     let scrapeErrorInfo: ApifyErrorItem | null = null;
+    let scrapeProvider: string | undefined;
+
+    // Only a run that was actually charged gets refunded on failure
+    let balanceDeducted = false;
 
     try {
       logger.info('Analysis workflow started', {
@@ -220,7 +190,8 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             params.account_id,
             params.business_profile_id,
             params.username,
-            params.run_id
+            params.run_id,
+            platform
           );
 
           if (result.hasInProgress) {
@@ -251,6 +222,15 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           const [_, businessProfile] = await Promise.all([
             // Task 1: Verify & deduct balance (MODULAR - routes to correct credit type)
             (async () => {
+              // Bulk runs draw from the batch's credit hold (charged on completion)
+              if (params.reservation_id) {
+                logger.info('Balance held by reservation, skipping deduction', {
+                  ...logContext,
+                  reservationId: params.reservation_id
+                });
+                return;
+              }
+
               logger.info('Verifying balance', {
                 ...logContext,
                 cost: creditsCost,
@@ -277,10 +257,14 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
                 params.analysis_type as AnalysisType,
                 creditsCost,
                 'analysis',
-                `${params.analysis_type} analysis for @${params.username}`
+                `${params.analysis_type} analysis for @${params.username}`,
+                params.requested_by,
+                { type: 'analysis_run', id: params.run_id }
               );
+              balanceDeducted = true;
 
               logger.info('Balance deducted successfully', logContext);
+              await publishCreditsUpdated(this.env, params.account_id, 'analysis');
             })(),
 
             // Task 2: Load business profile
@@ -313,6 +297,12 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
         }
       });
 
+      // Replayed step: the deduction ran in an earlier attempt
+      balanceDeducted = !params.reservation_id;
+
+      // Business scoring weights/tier thresholds (defaults unless overridden)
+      const scoring = resolveScoringConfig(business.scoring_config);
+
       // Step 5: Check R2 cache
       // NOTE: Progress update skipped - non-critical step (see CRITICAL_PROGRESS_STEPS)
       let profile = await step.do('check_cache', {
@@ -323,7 +313,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
 
           const cacheStart = Date.now();
           const cacheService = new R2CacheService(this.env.R2_CACHE_BUCKET);
-          const cached = await cacheService.get(params.username, params.analysis_type);
+          const cached = await cacheService.get(params.username, params.analysis_type, platform);
           timing.cache_check = Date.now() - cacheStart;
 
           if (cached) {
@@ -350,7 +340,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           retries: { limit: 1, delay: '2 seconds' }
         }, async (): Promise<ScrapeResult> => {
           try {
-            logger.info('Scraping Instagram profile', logContext);
+            logger.info(`Scraping ${getPlatformConfig(platform).label} profile`, logContext);
             const stepInfo = getStepProgress(params.analysis_type, 'scrape_profile');
             await this.broadcastProgress(
               params.run_id,
@@ -362,7 +352,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
 
             const scrapeStart = Date.now();
             const apifyToken = await getSecret('APIFY_API_TOKEN', this.env, this.env.APP_ENV);
-            const apifyAdapter = new ApifyAdapter(apifyToken);
+            const scraper = createProfileScraper(this.env, platform, apifyToken);
 
             const postsLimit = getPostsLimit(params.analysis_type);
             logger.info('Scraping posts', {
@@ -371,12 +361,13 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             });
 
             // Use scrapeProfileWithMeta to get detailed error info instead of throwing
-            const result = await apifyAdapter.scrapeProfileWithMeta(params.username, postsLimit);
+            const result = await scraper.scrapeProfileWithMeta(params.username, postsLimit);
             timing.scraping = Date.now() - scrapeStart;
 
             if (result.success && result.profile) {
               logger.info('Profile scraped successfully', {
                 ...logContext,
+                provider: result.provider,
                 followers: result.profile.followersCount,
                 posts: result.profile.latestPosts.length,
                 isPrivate: result.profile.isPrivate
@@ -411,6 +402,8 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           }
         });
 
+        scrapeProvider = scrapeResult.provider;
+
         // Extract profile and error info from result
         if (scrapeResult.success && scrapeResult.profile) {
           profile = scrapeResult.profile;
@@ -435,7 +428,8 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             accountId: params.account_id,
             businessProfileId: params.business_profile_id,
             requestedAnalysisType: params.analysis_type as AnalysisType,
-            icpSettings: null
+            icpSettings: getICPSettings(business),
+            icpRules: business.icp_rules
           });
 
           timing.pre_checks = Date.now() - checksStart;
@@ -489,15 +483,26 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
               const supabase = await SupabaseClientFactory.createAdminClient(this.env);
               const creditsRepo = new CreditsRepository(supabase);
 
-              await creditsRepo.addForAnalysis(
-                params.account_id,
-                params.analysis_type as AnalysisType,
-                creditsCost,
-                'refund',
-                `Analysis bypassed (${failedCheck.resultType}): @${params.username}`
-              );
+              if (params.reservation_id) {
+                await creditsRepo.releaseReservation(
+                  params.reservation_id,
+                  `Analysis bypassed (${failedCheck.resultType}): @${params.username}`,
+                  creditsCost
+                );
+              } else {
+                await creditsRepo.addForAnalysis(
+                  params.account_id,
+                  params.analysis_type as AnalysisType,
+                  creditsCost,
+                  'refund',
+                  `Analysis bypassed (${failedCheck.resultType}): @${params.username}`,
+                  params.requested_by,
+                  { type: 'analysis_run', id: params.run_id }
+                );
+              }
 
               logger.info('Credits refunded for bypass', logContext);
+              await publishCreditsUpdated(this.env, params.account_id, 'refund');
             } catch (refundError) {
               logger.error('Refund for bypass failed', {
                 ...logContext,
@@ -506,6 +511,13 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
               // Continue anyway - don't fail the workflow for refund issues
             }
           });
+        } else if (params.reservation_id) {
+          // Non-refundable bypass still consumes its share of the bulk hold
+          await step.do('charge_bypass_reservation', {
+            retries: { limit: 3, delay: '1 second', backoff: 'exponential' }
+          }, async () => {
+            await this.chargeReservation(params.reservation_id!, creditsCost, logContext);
+          });
         }
 
         // Step 6d: Create minimal lead record if we have any profile data
@@ -524,6 +536,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
               const lead = await leadsRepo.upsertLead({
                 account_id: params.account_id,
                 business_profile_id: params.business_profile_id,
+                platform,
                 username: params.username,
                 display_name: aiProfile.display_name,
                 follower_count: aiProfile.follower_count,
@@ -606,6 +619,19 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             );
 
             logger.info('Bypass progress marked as complete', logContext);
+
+            await this.emitWebhook(params, 'analysis.completed', {
+              run_id: params.run_id,
+              lead_id: bypassLeadId,
+              analysis_id: bypassAnalysisId,
+              business_profile_id: params.business_profile_id,
+              username: params.username,
+              analysis_type: params.analysis_type,
+              overall_score: failedCheck.score ?? 0,
+              bypassed: true,
+              bypass_reason: failedCheck.resultType,
+              batch_id: params.batch_id ?? null
+            });
           } catch (error) {
             logger.error('Bypass progress complete failed', {
               ...logContext,
@@ -614,6 +640,20 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           }
         });
 
+        // Step 6g: Report result to bulk batch (if part of one)
+        if (params.batch_id) {
+          await step.do('notify_batch_bypass', {
+            retries: { limit: 2, delay: '1 second' }
+          }, async () => {
+            await this.notifyBatch(params, {
+              run_id: params.run_id,
+              outcome: 'skipped',
+              credits_spent: failedCheck.shouldRefund ? 0 : creditsCost,
+              error: failedCheck.resultType
+            });
+          });
+        }
+
         logger.info('Analysis bypassed', {
           ...logContext,
           leadId: bypassLeadId,
@@ -677,7 +717,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             }
 
             // Transform to ExtractedData format (lean, actionable signals only)
-            const data = transformToExtractedData(extractionResult.data);
+            const data = transformToExtractedData(extractionResult.data, scoring.weights);
 
             logger.info('Phase 2 extraction complete', {
               sampleSize: data.metadata.sampleSize,
@@ -848,7 +888,8 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
                 {
                   extractedData: extractedData!,
                   textData: textDataForAI!,
-                  businessContext: businessContextResult.data
+                  businessContext: businessContextResult.data,
+                  scoring
                 },
                 this.env,
                 secrets.openaiKey,
@@ -998,6 +1039,9 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
       phase2AIResponse = parallelAIResult.phase2Response;
       const aiResult = parallelAIResult.deepAIResult;
 
+      // Deep: weighted lead qualification score when available, else the profile assessment score
+      const overallScore = phase2AIResponse?.analysis.scoring?.overallScore ?? aiResult.overall_score;
+
       // Step 8: Upsert lead (avatar caching moved off critical path)
       // OPTIMIZED: Avatar caching is now fire-and-forget (saves 1-2s)
       const leadId = await step.do('upsert_lead', {
@@ -1025,6 +1069,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           const lead = await leadsRepo.upsertLead({
             account_id: params.account_id,
             business_profile_id: params.business_profile_id,
+            platform,
             username: params.username,
             display_name: aiProfile.display_name,
             follower_count: aiProfile.follower_count,
@@ -1102,15 +1147,20 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           // Format: { score, leadTier, strengths, weaknesses, riskFactors, fitReasoning, opportunities, recommendedActions }
           const aiResponse: any = {
             // Always include basic fields (backward compat)
-            score: aiResult.overall_score
+            score: overallScore
           };
 
+          // Tier follows overall_score and the business's tier thresholds
+          const leadTier = calculateLeadTier(overallScore, scoring.thresholds);
+
           // Flatten Phase 2 AI response fields to top level if available
           if (phase2AIResponse) {
             // Flatten analysis fields directly to top level (no nesting)
-            Object.assign(aiResponse, phase2AIResponse.analysis);
+            // The AI's own tier pick is replaced so ai_response agrees with extracted_data
+            Object.assign(aiResponse, phase2AIResponse.analysis, { leadTier });
             logger.info('Including Phase 2 AI response', {
-              leadTier: phase2AIResponse.analysis.leadTier
+              aiLeadTier: phase2AIResponse.analysis.leadTier,
+              leadTier
             });
           }
 
@@ -1120,10 +1170,9 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             logger.info('Including detected niche', { ...logContext, niche: detectedNiche });
           }
 
-          // Update extracted_data with leadTier based on overall_score
+          // Update extracted_data with leadTier based on overall_score and the business's tier thresholds
           let finalExtractedData = extractedData;
           if (extractedData) {
-            const leadTier = calculateLeadTier(aiResult.overall_score);
             finalExtractedData = {
               ...extractedData,
               calculated: {
@@ -1131,25 +1180,28 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
                 leadTier
               }
             };
-            logger.info('Lead tier calculated', { ...logContext, leadTier, score: aiResult.overall_score });
+            logger.info('Lead tier calculated', { ...logContext, leadTier, score: overallScore });
           }
 
           // UPDATE existing analysis record (created in handler before workflow started)
           // Include extracted_data from Phase 2 extraction if available
           // Include niche in separate column for easy querying
+          // Include profile snapshot so the lead timeline can diff light analyses
           // Include version tracking for A/B testing and debugging
           const analysis = await analysisRepo.updateAnalysis(params.run_id, {
-            overall_score: aiResult.overall_score,
+            overall_score: overallScore,
             ai_response: aiResponse,
             extracted_data: finalExtractedData || undefined,
             niche: detectedNiche,
+            profile_snapshot: toAnalysisProfileSnapshot(profile as ProfileData),
             status: 'complete',
             completed_at: new Date().toISOString(),
             extraction_version: finalExtractedData?.metadata?.version || '1.0',
             model_versions: {
               profile_assessment: aiResult.model_used,
               lead_qualification: phase2AIResponse?.model || aiResult.model_used
-            }
+            },
+            scoring_config: scoring
           });
 
           logger.info('Analysis updated with results', {
@@ -1169,7 +1221,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
               run_id: params.run_id,
               has_phase2_response: !!phase2AIResponse,
               has_extracted_data: !!extractedData,
-              overall_score: aiResult?.overall_score
+              overall_score: overallScore
             }
           });
           throw error;
@@ -1183,6 +1235,22 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
         try {
           logger.info('Marking analysis as complete', logContext);
 
+          const leadTier = calculateLeadTier(overallScore, scoring.thresholds);
+
+          await tryPublishBroadcast(this.env, params.account_id, {
+            type: 'lead.updated',
+            runId: params.run_id,
+            data: {
+              lead_id: leadId,
+              business_profile_id: params.business_profile_id,
+              username: params.username,
+              analysis_id: analysisId,
+              overall_score: overallScore,
+              lead_tier: leadTier,
+              niche: detectedNiche
+            }
+          });
+
           await this.broadcastProgress(
             params.run_id,
             100,
@@ -1192,12 +1260,55 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
           );
 
           logger.info('Progress marked as complete', logContext);
+
+          // Notify account webhooks (deduped per run, so step retries don't double-send)
+          const eventData = {
+            run_id: params.run_id,
+            lead_id: leadId,
+            analysis_id: analysisId,
+            business_profile_id: params.business_profile_id,
+            username: params.username,
+            analysis_type: params.analysis_type,
+            overall_score: overallScore,
+            lead_tier: leadTier,
+            niche: detectedNiche,
+            batch_id: params.batch_id ?? null
+          };
+
+          await this.emitWebhook(params, 'analysis.completed', eventData);
+          if (leadTier === 'hot') {
+            await this.emitWebhook(params, 'lead.hot_detected', eventData);
+          }
+          await this.emitCreditsLowWebhook(params);
         } catch (error: any) {
           logger.error('Complete progress failed (Step 10)', { ...logContext, error: this.serializeError(error) });
           throw error;
         }
       });
 
+      // Step 10b: Convert this run's share of the bulk hold into a charge
+      // Exhausted retries fail the run, so the batch retries or releases the share
+      if (params.reservation_id) {
+        await step.do('charge_reservation', {
+          retries: { limit: 3, delay: '1 second', backoff: 'exponential' }
+        }, async () => {
+          await this.chargeReservation(params.reservation_id!, creditsCost, logContext);
+        });
+      }
+
+      // Step 10c: Report result to bulk batch (if part of one)
+      if (params.batch_id) {
+        await step.do('notify_batch', {
+          retries: { limit: 2, delay: '1 second' }
+        }, async () => {
+          await this.notifyBatch(params, {
+            run_id: params.run_id,
+            outcome: 'complete',
+            credits_spent: creditsCost
+          });
+        });
+      }
+
       // Step 11: Log to operations ledger (using centralized pricing config)
       await step.do('log_operations', {
         retries: { limit: 2, delay: '500 milliseconds' }
@@ -1223,6 +1334,9 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
             tokensIn: aiResult.input_tokens + (phase2AIResponse?.tokenUsage?.input ?? 0),
             tokensOut: aiResult.output_tokens + (phase2AIResponse?.tokenUsage?.output ?? 0),
             cacheHit: timing.cache_hit,
+            scraper: scrapeProvider
+              ? { provider: scrapeProvider, config: getScraperConfig(scrapeProvider) }
+              : undefined,
             timing: {
               cache_check: timing.cache_check,
               scraping: timing.scraping > 0 ? timing.scraping : undefined,
@@ -1349,7 +1463,7 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
       logger.info('Workflow completed successfully', {
         leadId,
         analysisId,
-        score: aiResult.overall_score,
+        score: overallScore,
         durationMs: totalDurationMs,
         slaStatus
       });
@@ -1403,39 +1517,66 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
 
       // Refund analyses balance on failure (with retry limit)
       // MODULAR: Refunds to correct credit type based on analysis type
-      await step.do('refund_balance', {
-        retries: { limit: 3, delay: '1 second', backoff: 'exponential' }
-      }, async () => {
-        try {
-          logger.info('Attempting to refund credits', { ...logContext, credits: creditsCost });
-          const supabase = await SupabaseClientFactory.createAdminClient(this.env);
-          const creditsRepo = new CreditsRepository(supabase);
-
-          await creditsRepo.addForAnalysis(
-            params.account_id,
-            params.analysis_type as AnalysisType,
-            creditsCost,
-            'refund',
-            `Analysis failed: ${errorDetails.message}`
-          );
+      // Bulk runs were never deducted: their share stays held for batch retries
+      // and BulkBatchDO releases it once the item fails for good
+      // Runs that failed before the deduction (e.g. insufficient balance) have nothing to refund
+      if (balanceDeducted) {
+        await step.do('refund_balance', {
+          retries: { limit: 3, delay: '1 second', backoff: 'exponential' }
+        }, async () => {
+          try {
+            logger.info('Attempting to refund credits', { ...logContext, credits: creditsCost });
+            const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+            const creditsRepo = new CreditsRepository(supabase);
+
+            await creditsRepo.addForAnalysis(
+              params.account_id,
+              params.analysis_type as AnalysisType,
+              creditsCost,
+              'refund',
+              `Analysis failed: ${errorDetails.message}`,
+              params.requested_by,
+              { type: 'analysis_run', id: params.run_id }
+            );
 
-          logger.info('Credits refunded', { ...logContext, credits: creditsCost });
-        } catch (refundError: any) {
-          logger.error('Refund failed', { ...logContext, error: this.serializeError(refundError) });
-          // Don't throw - we still want to mark the analysis as failed even if refund fails
-        }
-      });
+            logger.info('Credits refunded', { ...logContext, credits: creditsCost });
+            await publishCreditsUpdated(this.env, params.account_id, 'refund');
+          } catch (refundError: any) {
+            logger.error('Refund failed', { ...logContext, error: this.serializeError(refundError) });
+            // Don't throw - we still want to mark the analysis as failed even if refund fails
+          }
+        });
+      }
 
       // Mark as failed - this will broadcast to DO and update database
       await this.markFailed(params.run_id, errorDetails.message || 'Unknown error', errorDetails);
 
+      await this.emitWebhook(params, 'analysis.failed', {
+        run_id: params.run_id,
+        business_profile_id: params.business_profile_id,
+        username: params.username,
+        analysis_type: params.analysis_type,
+        error: errorDetails.message || 'Unknown error',
+        batch_id: params.batch_id ?? null
+      });
+
+      // Report failure to bulk batch (credits refunded above or still held by its reservation)
+      if (params.batch_id) {
+        await this.notifyBatch(params, {
+          run_id: params.run_id,
+          outcome: 'failed',
+          credits_spent: 0,
+          error: errorDetails.message || 'Unknown error'
+        });
+      }
+
       throw error;
     }
   }
 
   /**
-   * Broadcast progress update via Worker internal endpoint
-   * Replaces direct DO communication with HTTP broadcast call
+   * Broadcast progress update straight to the account's GlobalBroadcasterDO
+   * (signed; the broadcaster drops unsigned or replayed events)
    */
   private async broadcastProgress(
     runId: string,
@@ -1451,25 +1592,15 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
       const type = status === 'complete' ? 'analysis.complete' :
                    status === 'failed' ? 'analysis.failed' : 'analysis.progress';
 
-      // Call internal broadcast endpoint
-      const apiUrl = this.env.APP_ENV === 'staging'
-        ? 'https://api-staging.oslira.com'
-        : 'https://api.oslira.com';
-
-      const response = await fetch(`${apiUrl}/api/internal/broadcast`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accountId: this.accountId,
-          type,
-          runId,
-          data: {
-            progress,
-            step,
-            status,
-            currentStep
-          }
-        })
+      const response = await publishBroadcast(this.env, this.accountId, {
+        type,
+        runId,
+        data: {
+          progress,
+          step,
+          status,
+          currentStep
+        }
       });
 
       if (!response.ok) {
@@ -1485,6 +1616,101 @@ export class AnalysisWorkflow extends WorkflowEntrypoint<Env, AnalysisWorkflowPa
     }
   }
 
+  /**
+   * Charge this run's share of a bulk credit hold
+   * Throws so the step retries; a share that still can't be charged fails the
+   * run instead of leaving a completed analysis unpaid
+   */
+  private async chargeReservation(
+    reservationId: string,
+    amount: number,
+    logContext: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const supabase = await SupabaseClientFactory.createAdminClient(this.env);
+      const creditsRepo = new CreditsRepository(supabase);
+      await creditsRepo.chargeReservation(reservationId, amount);
+
+      logger.info('Reservation charged', { ...logContext, reservationId, credits: amount });
+    } catch (error) {
+      logger.error('Reservation charge failed', {
+        ...logContext,
+        reservationId,
+        error: this.serializeError(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Report run outcome to the owning BulkBatchDO so it can dispatch the next username
+   * Non-fatal: the batch watchdog reconciles runs whose result never arrives
+   */
+  private async notifyBatch(params: AnalysisWorkflowParams, result: BulkBatchItemResult): Promise<void> {
+    if (!params.batch_id) return;
+
+    try {
+      const batchId = this.env.BULK_BATCH.idFromName(params.batch_id);
+      const batchDO = this.env.BULK_BATCH.get(batchId);
+
+      const response = await batchDO.fetch('http://do/item-result', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result)
+      });
+
+      if (!response.ok) {
+        logger.warn('[Workflow] Batch notify failed (non-fatal)', {
+          runId: params.run_id,
+          batchId: params.batch_id,
+          status: response.status
+        });
+      }
+    } catch (error) {
+      logger.error('[Workflow] Batch notify error (non-fatal)', {
+        runId: params.run_id,
+        batchId: params.batch_id,
+        error: this.serializeError(error)
+      });
+    }
+  }
+
+  /**
+   * Emit an account webhook event for this run
+   * Non-fatal: webhook fan-out must never fail the analysis
+   */
+  private async emitWebhook(
+    params: AnalysisWorkflowParams,
+    eventType: WebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const dispatcher = new WebhookDispatcher(this.env);
+      await dispatcher.emit(params.account_id, eventType, `${eventType}:${params.run_id}`, data);
+    } catch (error) {
+      logger.error('[Workflow] Webhook emit error (non-fatal)', {
+        runId: params.run_id,
+        eventType,
+        error: this.serializeError(error)
+      });
+    }
+  }
+
+  /**
+   * Emit credits.low if this run left the balance it drew from running out
+   */
+  private async emitCreditsLowWebhook(params: AnalysisWorkflowParams): Promise<void> {
+    try {
+      const dispatcher = new WebhookDispatcher(this.env);
+      await dispatcher.emitIfCreditsLow(params.account_id, params.analysis_type as AnalysisType);
+    } catch (error) {
+      logger.error('[Workflow] Credits low check error (non-fatal)', {
+        runId: params.run_id,
+        error: this.serializeError(error)
+      });
+    }
+  }
+
   /**
    * Mark as failed - updates database and broadcasts failure
    */
@@ -8,6 +8,7 @@ import { BusinessRepository } from '@/infrastructure/database/repositories/busin
 import { OnboardingService } from '@/features/onboarding/onboarding.service';
 import { StripeService } from '@/infrastructure/billing/stripe.service';
 import { getSecret } from '@/infrastructure/config/secrets';
+import { tryPublishBroadcast } from '@/infrastructure/durable-objects/broadcast.publisher';
 import { logger } from '@/shared/utils/logger.util';
 
 export class BusinessContextWorkflow extends WorkflowEntrypoint<Env, BusinessContextWorkflowParams> {
@@ -45,13 +46,13 @@ export class BusinessContextWorkflow extends WorkflowEntrypoint<Env, BusinessCon
       let contextResult: any;
       await step.do('generate_ai_content', async () => {
         // UPDATE 1: Start AI generation
-        await this.updateProgress(progressDO, 10, 'Generating AI content...');
+        await this.updateProgress(params, progressDO, 10, 'Generating AI content...');
 
         const service = new OnboardingService(this.env, secrets.openaiKey, secrets.claudeKey, secrets.aiGatewayToken);
         contextResult = await service.generateBusinessContext(params.user_inputs);
 
         // UPDATE 2: AI complete, saving to database
-        await this.updateProgress(progressDO, 70, 'Saving to database...');
+        await this.updateProgress(params, progressDO, 70, 'Saving to database...');
         logger.info('AI generation complete', logContext);
       });
 
@@ -233,6 +234,8 @@ await step.do('mark_complete', async () => {
 
   const completeData = await completeResponse.json();
   logger.info('Complete endpoint response', completeData);
+
+  await this.publishProgress(params, 100, 'complete', 'Complete', businessProfileId);
   logger.info('Business context workflow complete', logContext);
 });
 
@@ -253,7 +256,7 @@ await step.do('mark_complete', async () => {
         error_stack: error.stack?.split('\n').slice(0, 5).join('\n')
       });
       
-      await this.markFailed(progressDO, error.message);
+      await this.markFailed(params, progressDO, error.message);
       throw error;
     }
   }
@@ -262,23 +265,60 @@ await step.do('mark_complete', async () => {
   // HELPER METHODS
   // ===========================================================================
 
-  private async updateProgress(progressDO: any, progress: number, step: string): Promise<void> {
+  private async updateProgress(
+    params: BusinessContextWorkflowParams,
+    progressDO: any,
+    progress: number,
+    step: string
+  ): Promise<void> {
     try {
       await progressDO.fetch('http://do/update', {
         method: 'POST',
         body: JSON.stringify({ progress, current_step: step, status: 'processing' })
       });
     } catch (error: any) {
-      logger.error('Progress update failed', { runId, error: error.message });
+      logger.error('Progress update failed', { runId: params.run_id, error: error.message });
     }
+
+    await this.publishProgress(params, progress, 'processing', step);
   }
 
-  private async markFailed(progressDO: any, errorMessage: string): Promise<void> {
+  private async markFailed(
+    params: BusinessContextWorkflowParams,
+    progressDO: any,
+    errorMessage: string
+  ): Promise<void> {
+    await this.publishProgress(params, 0, 'failed', 'Failed', null, errorMessage);
+
     await progressDO.fetch('http://do/fail', {
       method: 'POST',
       body: JSON.stringify({ error_message: errorMessage })
     });
   }
+
+  /**
+   * Mirror progress to the account WebSocket (the per-run progress DO stays the source of truth)
+   */
+  private async publishProgress(
+    params: BusinessContextWorkflowParams,
+    progress: number,
+    status: 'processing' | 'complete' | 'failed',
+    currentStep: string,
+    businessProfileId: string | null = null,
+    error: string | null = null
+  ): Promise<void> {
+    await tryPublishBroadcast(this.env, params.account_id, {
+      type: 'business_context.progress',
+      runId: params.run_id,
+      data: {
+        progress,
+        status,
+        current_step: currentStep,
+        business_profile_id: businessProfileId,
+        error
+      }
+    });
+  }
 }
 
 export default BusinessContextWorkflow;
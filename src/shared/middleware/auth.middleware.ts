@@ -1,19 +1,35 @@
 import type { Context, Next } from 'hono';
 import type { Env } from '@/shared/types/env.types';
-import type { AuthContext } from '@/features/auth/auth.types';
+import type { AuthContext, JWTPayload } from '@/features/auth/auth.types';
+import type { AdminActor } from '@/features/admin/admin.types';
 import { JWTService } from '@/infrastructure/auth/jwt.service';
+import { ApiKeyService, API_KEY_PREFIX } from '@/infrastructure/auth/api-key.service';
+import { MembershipService } from '@/infrastructure/auth/membership.service';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { getRequiredApiKeyScope, API_KEY_ACCOUNT_ROLE } from '@/config/api-key-scopes.config';
+import { getRequiredAccountRole, hasAccountRole } from '@/config/account-roles.config';
+import type { AccountRole } from '@/config/account-roles.config';
 import { logger } from '@/shared/utils/logger.util';
 
 /**
- * Auth middleware - validates JWT access token and attaches auth context
+ * Auth middleware - validates JWT access token or API key and attaches auth context
  *
  * Features:
  * - Validates JWT signature + expiry
+ * - Accepts API keys (X-API-Key: osk_... or Authorization: Bearer osk_...)
  * - Enforces onboarding completion (except for auth/onboarding endpoints)
- * - Attaches auth context: { userId, accountId, email, onboardingCompleted }
+ * - Enforces the minimum account role for the path (see account-roles.config)
+ * - Rejects writes from read-only impersonation sessions
+ * - Attaches auth context: { userId, accountId, email, onboardingCompleted, role, admin?, impersonatedBy? }
  */
 export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next): Promise<Response | void> {
   try {
+    const apiKey = extractApiKey(c);
+
+    if (apiKey) {
+      return await authenticateApiKey(c, next, apiKey);
+    }
+
     const authHeader = c.req.header('Authorization');
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -34,12 +50,24 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next):
       }, 401);
     }
 
+    // Impersonation tokens can look, never touch
+    if (payload.impersonatedBy && c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+      return c.json({
+        error: 'Impersonation is read-only',
+        message: 'Impersonation sessions can only make GET requests'
+      }, 403);
+    }
+
     const path = c.req.path;
     const isAuthEndpoint = path.includes('/api/auth/');
     const isOnboardingEndpoint = path.includes('/api/onboarding/');
     const isBusinessEndpoint = path.startsWith('/api/business/');
+    // New users accept invitations before (or instead of) onboarding their own account
+    const isInvitationEndpoint = path === '/api/team/invitations/accept';
+    // Staff act on other accounts, whatever the state of their own
+    const isAdminEndpoint = path.startsWith('/api/admin/');
 
-    if (!isAuthEndpoint && !isOnboardingEndpoint && !isBusinessEndpoint && !payload.onboardingCompleted) {
+    if (!isAuthEndpoint && !isOnboardingEndpoint && !isBusinessEndpoint && !isInvitationEndpoint && !isAdminEndpoint && !payload.onboardingCompleted) {
       return c.json({
         error: 'Onboarding not completed',
         message: 'Please complete onboarding to access this resource',
@@ -47,11 +75,32 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next):
       }, 403);
     }
 
+    const role = await resolveRole(c.env, payload);
+
+    if (!role) {
+      return c.json({
+        error: 'No access to account',
+        message: 'Please log in again'
+      }, 401);
+    }
+
+    const requiredRole = getRequiredAccountRole(c.req.method, path);
+
+    if (!hasAccountRole(role, requiredRole)) {
+      return c.json({
+        error: 'Insufficient role',
+        message: `This action requires the '${requiredRole}' role or higher`,
+        requiredRole
+      }, 403);
+    }
+
     const authContext: AuthContext = {
       userId: payload.userId,
       accountId: payload.accountId,
       email: payload.email,
-      onboardingCompleted: payload.onboardingCompleted
+      onboardingCompleted: payload.onboardingCompleted,
+      role,
+      ...getPlatformClaims(payload)
     };
 
     c.set('auth', authContext);
@@ -69,6 +118,111 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next):
   }
 }
 
+/**
+ * Role of a verified JWT on its account
+ * Tokens issued before team workspaces carry no role claim; look the role up
+ * instead of assuming ownership, so a token for an account the user doesn't
+ * belong to gets nothing
+ */
+async function resolveRole(env: Env, payload: JWTPayload): Promise<AccountRole | null> {
+  if (payload.role) {
+    return payload.role;
+  }
+
+  const supabase = await SupabaseClientFactory.createAdminClient(env);
+  return new MembershipService(supabase).getRole(payload.accountId, payload.userId);
+}
+
+/**
+ * Admin and impersonation claims of a verified JWT
+ * An impersonation token never carries admin rights, whatever it claims
+ */
+function getPlatformClaims(payload: JWTPayload): Pick<AuthContext, 'admin' | 'impersonatedBy'> {
+  if (payload.impersonatedBy) {
+    return { impersonatedBy: payload.impersonatedBy };
+  }
+  return payload.admin === true ? { admin: true } : {};
+}
+
+/**
+ * Get API key from X-API-Key or a Bearer token with the API key prefix
+ */
+function extractApiKey(c: Context<{ Bindings: Env }>): string | null {
+  const headerKey = c.req.header('X-API-Key');
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const authHeader = c.req.header('Authorization');
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate a server-to-server request with an API key
+ * The endpoint must map to a scope the key was granted (see api-key-scopes.config)
+ */
+async function authenticateApiKey(
+  c: Context<{ Bindings: Env }>,
+  next: Next,
+  key: string
+): Promise<Response | void> {
+  const supabase = await SupabaseClientFactory.createAdminClient(c.env);
+  const apiKeyService = new ApiKeyService(supabase);
+  const record = await apiKeyService.validate(key);
+
+  if (!record) {
+    return c.json({
+      error: 'Invalid or revoked API key',
+      message: 'Check the key or create a new one in account settings'
+    }, 401);
+  }
+
+  const requiredScope = getRequiredApiKeyScope(c.req.method, c.req.path);
+
+  if (!requiredScope) {
+    return c.json({
+      error: 'Endpoint not available to API keys',
+      message: 'This endpoint requires a signed-in session'
+    }, 403);
+  }
+
+  if (!record.scopes.includes(requiredScope)) {
+    return c.json({
+      error: 'Insufficient API key scope',
+      message: `This endpoint requires the '${requiredScope}' scope`,
+      requiredScope
+    }, 403);
+  }
+
+  // Keys can only be created after onboarding; email is a session concept
+  const authContext: AuthContext = {
+    userId: record.created_by,
+    accountId: record.account_id,
+    email: '',
+    onboardingCompleted: true,
+    role: API_KEY_ACCOUNT_ROLE,
+    authMethod: 'api_key',
+    apiKeyId: record.id,
+    apiKeyScopes: record.scopes
+  };
+
+  c.set('auth', authContext);
+
+  // Last-used bookkeeping shouldn't delay the response
+  const touch = apiKeyService.touchLastUsed(record);
+  try {
+    c.executionCtx.waitUntil(touch);
+  } catch {
+    await touch;
+  }
+
+  await next();
+}
+
 /**
  * Optional auth middleware - attempts to authenticate but doesn't fail if token is missing/invalid
  * Useful for endpoints that work for both authenticated and anonymous users
@@ -86,12 +240,16 @@ export async function optionalAuthMiddleware(c: Context<{ Bindings: Env }>, next
     const jwtService = new JWTService(c.env);
     const payload = await jwtService.verify(token);
 
-    if (payload) {
+    const role = payload ? await resolveRole(c.env, payload) : null;
+
+    if (payload && role) {
       const authContext: AuthContext = {
         userId: payload.userId,
         accountId: payload.accountId,
         email: payload.email,
-        onboardingCompleted: payload.onboardingCompleted
+        onboardingCompleted: payload.onboardingCompleted,
+        role,
+        ...getPlatformClaims(payload)
       };
       c.set('auth', authContext);
     }
@@ -117,13 +275,33 @@ export function getAuthContext(c: Context<{ Bindings: Env }>): AuthContext {
   return auth;
 }
 
-/** Check if request has valid admin token */
+/** Check if request comes from a platform admin session */
 export function isAdmin(c: Context<{ Bindings: Env }>): boolean {
-  const adminToken = c.req.header('X-Admin-Token');
-  return adminToken === c.env.ADMIN_TOKEN;
+  try {
+    return getAuthContext(c).admin === true;
+  } catch {
+    return false;
+  }
 }
 
-/** Admin middleware - requires valid admin token in X-Admin-Token header */
+/**
+ * Admin behind the request, for the admin audit log
+ * @throws Error if auth context is missing
+ */
+export function getAdminActor(c: Context<{ Bindings: Env }>): AdminActor {
+  const auth = getAuthContext(c);
+
+  return {
+    userId: auth.userId,
+    email: auth.email,
+    ipAddress: c.req.header('cf-connecting-ip') ?? null
+  };
+}
+
+/**
+ * Admin middleware - requires the JWT admin claim (apply after authMiddleware)
+ * API keys and impersonation sessions never qualify
+ */
 export async function adminMiddleware(c: Context<{ Bindings: Env }>, next: Next): Promise<Response | void> {
   if (!isAdmin(c)) {
     return c.json({ error: 'Admin access required' }, 403);
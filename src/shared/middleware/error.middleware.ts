@@ -1,6 +1,8 @@
 import type { Context } from 'hono';
+import { ZodError } from 'zod';
 import type { Env } from '@/shared/types/env.types';
 import { logger } from '@/shared/utils/logger.util';
+import { errorResponse } from '@/shared/utils/response.util';
 
 export class AppError extends Error {
   constructor(
@@ -112,6 +114,34 @@ export function errorHandler(error: Error, c: Context<{ Bindings: Env }>): Respo
   }, classified.statusCode);
 }
 
+/**
+ * Error response for a route handler's catch block
+ * AppErrors keep their status, code and details; validation errors are 400s;
+ * anything else is logged with the handler's context and returned as a 500
+ */
+export function handleRouteError(
+  c: Context,
+  error: unknown,
+  message: string,
+  context: Record<string, unknown> = {}
+): Response {
+  if (error instanceof AppError) {
+    return errorResponse(c, error.message, error.code, error.statusCode, error.details);
+  }
+
+  if (error instanceof ZodError) {
+    return errorResponse(c, 'Invalid request data', 'VALIDATION_ERROR', 400, { issues: error.errors });
+  }
+
+  logger.error(message, {
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    ...context
+  });
+
+  return errorResponse(c, message, 'INTERNAL_ERROR', 500);
+}
+
 /**
  * Async error wrapper for route handlers
  * Catches async errors and passes to error handler
@@ -5,17 +5,26 @@ import { logger } from '@/shared/utils/logger.util';
 export type { RateLimitConfig } from '@/config/rate-limits.config';
 
 import type { RateLimitConfig } from '@/config/rate-limits.config';
-
-/** Rate limiting middleware using Cloudflare KV */
-export function rateLimitMiddleware(config: RateLimitConfig) {
+import { API_KEY_RATE_LIMITS } from '@/config/rate-limits.config';
+
+/**
+ * Rate limiting middleware using Cloudflare KV
+ * API key requests use their own bucket (per key), so backend jobs don't eat
+ * into the owner's interactive quota, and get the stricter of the route's
+ * limit and the key limit
+ */
+export function rateLimitMiddleware(routeConfig: RateLimitConfig) {
   return async (c: Context<{ Bindings: Env }>, next: Next): Promise<Response | void> => {
     if (c.env.APP_ENV === 'staging') {
       return await next();
     }
 
-    const auth = c.get('auth') as { userId?: string } | undefined;
+    const auth = c.get('auth') as { userId?: string; apiKeyId?: string } | undefined;
     const ip = c.req.header('cf-connecting-ip');
-    const identifier = auth?.userId || ip || 'anonymous';
+    const identifier = auth?.apiKeyId
+      ? `apikey:${auth.apiKeyId}`
+      : auth?.userId || ip || 'anonymous';
+    const config = auth?.apiKeyId ? stricterLimit(routeConfig, API_KEY_RATE_LIMITS.DEFAULT) : routeConfig;
 
     const key = `ratelimit:${identifier}`;
     const now = Date.now();
@@ -97,4 +106,11 @@ export function rateLimitMiddleware(config: RateLimitConfig) {
   };
 }
 
+/**
+ * Limit allowing the lower request rate
+ */
+function stricterLimit(a: RateLimitConfig, b: RateLimitConfig): RateLimitConfig {
+  return a.requests / a.windowSeconds <= b.requests / b.windowSeconds ? a : b;
+}
+
 export { RATE_LIMITS } from '@/config/rate-limits.config';
@@ -0,0 +1,57 @@
+// shared/types/broadcast.types.ts
+
+import type { BroadcastEventType, BroadcastEventData, BroadcastTopic } from '@/config/broadcast-events.config';
+
+/**
+ * BROADCAST TYPES
+ *
+ * Real-time events fanned out to an account's dashboard WebSockets by
+ * GlobalBroadcasterDO
+ */
+
+/**
+ * Envelope of every event (payloads per type: see config/broadcast-events.config.ts)
+ * runId identifies the analysis, batch or onboarding run the event belongs to
+ */
+export type BroadcastMessage<T extends BroadcastEventType = BroadcastEventType> = {
+  [K in T]: {
+    type: K;
+    runId?: string;
+    data: BroadcastEventData<K>;
+    timestamp: number;
+  }
+}[T];
+
+/**
+ * Event as delivered to clients: numbered per account by GlobalBroadcasterDO so
+ * a reconnecting client can resume with ?since=<seq>
+ */
+export type SequencedBroadcastMessage = BroadcastMessage & { seq: number };
+
+/**
+ * Sent once a connection is caught up (after any replayed events)
+ * resync = the missed events are no longer buffered; reload state from
+ * GET /api/analysis/active
+ */
+export interface BroadcastReadyMessage {
+  type: 'ready';
+  seq: number;
+  replayed: number;
+  resync: boolean;
+  timestamp: number;
+}
+
+/**
+ * Sent by clients to change their topics; answered with 'subscribed'
+ */
+export interface BroadcastSubscribeRequest {
+  type: 'subscribe';
+  topics: BroadcastTopic[];
+}
+
+export interface BroadcastSubscribedMessage {
+  type: 'subscribed';
+  /** null = every topic */
+  topics: BroadcastTopic[] | null;
+  timestamp: number;
+}
@@ -0,0 +1,107 @@
+// shared/types/bulk-batch.types.ts
+
+/**
+ * BULK BATCH TYPES
+ *
+ * State persisted by BulkBatchDO (one Durable Object per batch_id)
+ */
+
+export type BulkBatchStatus = 'running' | 'paused' | 'cancelled' | 'complete';
+
+/**
+ * Per-username lifecycle:
+ * pending → dispatched → complete | skipped | failed
+ * pending → cancelled (batch cancelled before dispatch)
+ * failed analyses return to pending until max attempts are used
+ */
+export type BulkBatchItemStatus =
+  | 'pending'
+  | 'dispatched'
+  | 'complete'
+  | 'skipped'
+  | 'failed'
+  | 'cancelled';
+
+export interface BulkBatchItem {
+  username: string;
+  status: BulkBatchItemStatus;
+  /** Current (latest) workflow run for this username */
+  run_id: string | null;
+  attempts: number;
+  credits_spent: number;
+  error: string | null;
+  dispatched_at: string | null;
+  updated_at: string;
+}
+
+export interface BulkBatchState {
+  batch_id: string;
+  import_id: string | null;
+  account_id: string;
+  business_profile_id: string;
+  analysis_type: 'light' | 'deep';
+  status: BulkBatchStatus;
+  /** Why the batch was paused automatically (e.g. insufficient balance) */
+  pause_reason: string | null;
+  /** Why the batch never started (e.g. its chunk couldn't be reserved); items are all failed */
+  failure_reason?: string | null;
+  /** Credit hold covering the whole batch (see CreditsRepository.reserveForAnalysis) */
+  reservation_id: string | null;
+  /** Team member who queued the batch (absent on batches persisted before attribution) */
+  requested_by?: string | null;
+  items: BulkBatchItem[];
+  credits_spent: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface BulkBatchCounts {
+  pending: number;
+  dispatched: number;
+  complete: number;
+  skipped: number;
+  failed: number;
+  cancelled: number;
+}
+
+/** Aggregate view returned by the API and pushed over WebSocket */
+export interface BulkBatchSummary {
+  batch_id: string;
+  import_id: string | null;
+  account_id: string;
+  status: BulkBatchStatus;
+  pause_reason: string | null;
+  failure_reason: string | null;
+  analysis_type: 'light' | 'deep';
+  total_count: number;
+  counts: BulkBatchCounts;
+  /** Percentage of items in a final state (0-100) */
+  progress: number;
+  credits_spent: number;
+  retries: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/** Result reported by AnalysisWorkflow when a batch run finishes */
+export interface BulkBatchItemResult {
+  run_id: string;
+  outcome: 'complete' | 'skipped' | 'failed';
+  credits_spent: number;
+  error?: string;
+}
+
+export interface BulkBatchInitParams {
+  batch_id: string;
+  import_id: string | null;
+  account_id: string;
+  business_profile_id: string;
+  analysis_type: 'light' | 'deep';
+  usernames: string[];
+  reservation_id: string | null;
+  requested_by: string | null;
+  /** Persist the batch as already failed (nothing is dispatched or reserved) */
+  failure_reason?: string;
+}
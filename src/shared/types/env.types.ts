@@ -1,5 +1,6 @@
 import type { KVNamespace, R2Bucket, AnalyticsEngineDataset, DurableObjectNamespace, Queue } from '@cloudflare/workers-types';
 import type { Workflow } from 'cloudflare:workers';
+import type { LeadPlatform } from '@/config/platforms.config';
 
 /**
  * Cloudflare Worker Environment Types
@@ -9,8 +10,12 @@ export interface Env {
   APP_ENV: 'production' | 'staging';
   CLOUDFLARE_ACCOUNT_ID: string;
   AI_GATEWAY_NAME: string;
+  /** Web app origin (OAuth redirects, invitation links) */
+  FRONTEND_URL?: string;
+  /** Scraper backend: 'fixture' replays recorded datasets from R2 (ignored in production) */
+  SCRAPER_PROVIDER?: 'apify' | 'fixture';
 
-  /** KV Namespace for rate limiting */
+  /** KV Namespace for rate limiting and scraper health */
   OSLIRA_KV: KVNamespace;
 
   /** R2 Bucket for profile caching */
@@ -29,10 +34,15 @@ export interface Env {
   /** Durable Objects for progress tracking & broadcasting */
   GLOBAL_BROADCASTER: DurableObjectNamespace;
   BUSINESS_CONTEXT_PROGRESS: DurableObjectNamespace;
+  BULK_BATCH: DurableObjectNamespace;
 
   /** Queues for async message processing */
   STRIPE_WEBHOOK_QUEUE: Queue;
   BUSINESS_CONTEXT_QUEUE: Queue;
+  BULK_ANALYSIS_QUEUE: Queue;
+  WEBHOOK_DELIVERY_QUEUE: Queue;
+  RESCORE_QUEUE: Queue;
+  SOURCING_QUEUE: Queue;
 }
 
 /** Analysis Workflow Parameters */
@@ -41,8 +51,46 @@ export interface AnalysisWorkflowParams {
   account_id: string;
   business_profile_id: string;
   username: string;
+  /** Lead platform (defaults to instagram) */
+  platform?: LeadPlatform;
   analysis_type: 'light' | 'deep';
   requested_at: string;
+  /** Set when dispatched by BulkBatchDO; the workflow reports its outcome back */
+  batch_id?: string;
+  /** Credit hold to draw from instead of deducting per analysis */
+  reservation_id?: string;
+  /** Team member the analysis and its credit charge are attributed to */
+  requested_by?: string;
+}
+
+/** Bulk Analysis Queue Message (one chunk of a large import) */
+export interface BulkAnalysisQueueMessage {
+  batch_id: string;
+  import_id: string;
+  chunk_index: number;
+  account_id: string;
+  business_profile_id: string;
+  analysis_type: 'light' | 'deep';
+  usernames: string[];
+  requested_at: string;
+  requested_by?: string;
+}
+
+/** Webhook Delivery Queue Message (one delivery attempt chain per message) */
+export interface WebhookDeliveryQueueMessage {
+  delivery_id: string;
+  endpoint_id: string;
+  event_type: string;
+}
+
+/** Rescore Queue Message (re-queued per page of leads until the job completes) */
+export interface RescoreQueueMessage {
+  job_id: string;
+}
+
+/** Sourcing Queue Message (re-queued per step until the job completes) */
+export interface SourcingQueueMessage {
+  job_id: string;
 }
 
 /** Analysis Progress State (stored in Durable Object) */
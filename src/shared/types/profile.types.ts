@@ -1,10 +1,13 @@
 // shared/types/profile.types.ts
 
+import { DEFAULT_LEAD_PLATFORM, type LeadPlatform } from '@/config/platforms.config';
+
 /**
  * UNIFIED PROFILE DATA TYPES
  *
- * Single source of truth for Instagram profile data structures.
+ * Single source of truth for social profile data structures (all platforms).
  * Uses camelCase naming convention (scraper format).
+ * Field names follow Instagram; scrapers for other platforms map into them.
  */
 
 export interface PostData {
@@ -37,6 +40,8 @@ export interface ProfileData {
   externalUrl: string | null;
   isBusinessAccount: boolean;
   latestPosts: PostData[];
+  /** Source platform (absent on profiles cached before multi-platform support = instagram) */
+  platform?: LeadPlatform;
   scraperUsed: string;
   dataQuality: 'high' | 'medium' | 'low';
 }
@@ -46,6 +51,7 @@ export interface ProfileData {
  * Used by prompt-builder and AI analysis service
  */
 export interface AIProfileData {
+  platform: LeadPlatform;
   username: string;
   display_name: string;
   follower_count: number;
@@ -75,6 +81,7 @@ export interface AIPostData {
  */
 export function toAIProfile(profile: ProfileData): AIProfileData {
   return {
+    platform: profile.platform ?? DEFAULT_LEAD_PLATFORM,
     username: profile.username,
     display_name: profile.displayName,
     follower_count: profile.followersCount,
@@ -0,0 +1,83 @@
+// shared/types/webhook.types.ts
+
+/**
+ * WEBHOOK TYPES
+ *
+ * Outbound webhooks let integrations (CRMs, Zapier-style tools) receive
+ * account events without holding a WebSocket open.
+ *
+ * Tables:
+ * - webhook_endpoints: per-account subscriber URLs + signing secret
+ * - webhook_deliveries: one row per (endpoint, event); doubles as the
+ *   delivery log and the dead-letter log once retries are exhausted
+ */
+
+export const WEBHOOK_EVENTS = [
+  'analysis.completed',
+  'analysis.failed',
+  'lead.hot_detected',
+  'batch.completed',
+  'credits.low'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookEndpointStatus = 'active' | 'disabled';
+
+/**
+ * Delivery lifecycle:
+ * pending → delivered
+ * pending → retrying → ... → delivered | dead_lettered
+ * any → cancelled (endpoint disabled/deleted before delivery)
+ */
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'retrying'
+  | 'delivered'
+  | 'dead_lettered'
+  | 'cancelled';
+
+export interface WebhookEndpoint {
+  id: string;
+  account_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  secret: string;
+  status: WebhookEndpointStatus;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/**
+ * Body POSTed to subscriber URLs
+ */
+export interface WebhookEventEnvelope<T = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  account_id: string;
+  data: T;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  account_id: string;
+  /** Dedupe key: the same event is delivered at most once per endpoint */
+  event_key: string;
+  event_type: WebhookEventType;
+  payload: WebhookEventEnvelope;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the delivery was put on the queue (null: recorded but not enqueued yet) */
+  enqueued_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  dead_lettered_at: string | null;
+  created_at: string;
+}
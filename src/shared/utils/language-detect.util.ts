@@ -0,0 +1,86 @@
+// shared/utils/language-detect.util.ts
+
+/**
+ * LANGUAGE DETECTION
+ *
+ * Best-effort language guess for short social texts (bios, captions) without
+ * an AI call. Non-Latin scripts are identified by Unicode range; Latin-script
+ * text is scored against common stopwords of the languages we see most.
+ *
+ * Returns an ISO 639-1 code, or null when the text is too short or ambiguous.
+ */
+
+const SCRIPT_LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ru', pattern: /[Ѐ-ӿ]/g },
+  { language: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { language: 'ar', pattern: /[؀-ۿ]/g },
+  { language: 'he', pattern: /[֐-׿]/g },
+  { language: 'hi', pattern: /[ऀ-ॿ]/g },
+  { language: 'th', pattern: /[฀-๿]/g },
+  { language: 'ko', pattern: /[가-힯]/g },
+  { language: 'zh', pattern: /[一-鿿぀-ヿ]/g }
+];
+
+/** Letters that only exist in Ukrainian (tells it apart from Russian) */
+const UKRAINIAN_LETTERS = /[іїєґІЇЄҐ]/;
+
+/** Hiragana/katakana (Japanese text mixes them with the CJK ideographs) */
+const KANA = /[぀-ヿ]/;
+
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'for', 'with', 'you', 'your', 'our', 'this', 'that', 'are', 'from', 'have', 'new', 'all', 'is', 'to', 'of', 'in', 'my', 'we']),
+  es: new Set(['el', 'la', 'los', 'las', 'y', 'para', 'con', 'que', 'por', 'una', 'del', 'tu', 'nuestro', 'es', 'en', 'de', 'mi', 'más', 'todo', 'muy']),
+  pt: new Set(['o', 'a', 'os', 'as', 'e', 'para', 'com', 'que', 'por', 'uma', 'do', 'da', 'você', 'nosso', 'é', 'em', 'de', 'meu', 'mais', 'não']),
+  fr: new Set(['le', 'la', 'les', 'et', 'pour', 'avec', 'que', 'des', 'une', 'du', 'vous', 'notre', 'est', 'en', 'de', 'mon', 'plus', 'dans', 'sur', 'pas']),
+  de: new Set(['der', 'die', 'das', 'und', 'für', 'mit', 'ist', 'ein', 'eine', 'den', 'dem', 'sie', 'wir', 'unser', 'auf', 'von', 'zu', 'mein', 'nicht', 'auch']),
+  it: new Set(['il', 'lo', 'la', 'gli', 'le', 'e', 'per', 'con', 'che', 'una', 'del', 'della', 'tuo', 'nostro', 'è', 'di', 'mio', 'più', 'non', 'anche']),
+  nl: new Set(['de', 'het', 'een', 'en', 'voor', 'met', 'van', 'ons', 'jouw', 'je', 'is', 'op', 'naar', 'niet', 'ook', 'bij', 'mijn', 'wij', 'zijn', 'uit'])
+};
+
+/** Minimum letters before guessing at all */
+const MIN_LETTERS = 12;
+
+/** A script must make up this share of letters to decide the language */
+const SCRIPT_SHARE = 0.3;
+
+/** Stopword hits needed for a Latin-script language */
+const MIN_STOPWORD_HITS = 2;
+
+/**
+ * Guess the dominant language of the given texts
+ */
+export function detectLanguage(texts: string[]): string | null {
+  const text = texts
+    .join(' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#@][\p{L}\p{N}_.]+/gu, ' ');
+
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters < MIN_LETTERS) {
+    return null;
+  }
+
+  for (const { language, pattern } of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters >= SCRIPT_SHARE) {
+      if (language === 'ru' && UKRAINIAN_LETTERS.test(text)) return 'uk';
+      if (language === 'zh' && KANA.test(text)) return 'ja';
+      return language;
+    }
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      hits: words.filter(word => stopwords.has(word)).length
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits === runnerUp.hits) {
+    return null;
+  }
+
+  return best.language;
+}
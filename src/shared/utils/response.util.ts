@@ -92,9 +92,11 @@ export function paginatedResponse<T>(
     page: number;
     pageSize: number;
     hasMore: boolean;
-  }
+  },
+  meta?: Record<string, unknown>
 ): Response {
   return successResponse(c, data, {
+    ...meta,
     pagination: {
       total: pagination.total,
       page: pagination.page,
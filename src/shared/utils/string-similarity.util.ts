@@ -0,0 +1,61 @@
+// src/shared/utils/string-similarity.util.ts
+
+/**
+ * STRING SIMILARITY UTILITY
+ *
+ * Levenshtein-based similarity used to decide whether free text (bios)
+ * changed meaningfully between two profile snapshots.
+ *
+ * - 1.0: identical
+ * - 0.0: completely different (or one side empty)
+ */
+
+/**
+ * Similarity below this ratio counts as a significant text change
+ * (shared by cache invalidation and the lead timeline)
+ */
+export const SIGNIFICANT_CHANGE_SIMILARITY = 0.7;
+
+/**
+ * Normalized similarity between two strings (0-1)
+ */
+export function calculateStringSimilarity(str1: string, str2: string): number {
+  if (str1 === str2) return 1.0;
+  if (str1.length === 0 || str2.length === 0) return 0.0;
+
+  const maxLength = Math.max(str1.length, str2.length);
+  const distance = levenshteinDistance(str1, str2);
+
+  return 1 - (distance / maxLength);
+}
+
+/**
+ * Minimum number of single-character edits to turn str1 into str2
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= str2.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= str1.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= str2.length; i++) {
+    for (let j = 1; j <= str1.length; j++) {
+      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
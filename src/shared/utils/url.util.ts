@@ -0,0 +1,59 @@
+// src/shared/utils/url.util.ts
+
+/**
+ * Checks for user-supplied URLs the Worker will call (webhook endpoints)
+ */
+
+/** Hostnames that only ever resolve inside a network */
+const LOCAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * True when the URL targets a loopback, link-local or private address
+ * (RFC 1918, CGNAT, IPv6 unique local) or a local-only hostname
+ * URL parsing normalizes IPv4 shorthands (e.g. 2130706433 → 127.0.0.1) first
+ */
+export function isPrivateNetworkUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return true;
+  }
+
+  if (hostname.startsWith('[') && hostname.endsWith(']')) {
+    return isPrivateIPv6(hostname.slice(1, -1));
+  }
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(hostname)) {
+    return isPrivateIPv4(hostname.split('.').map(Number));
+  }
+
+  return hostname === 'localhost' || LOCAL_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0                          // "this" network
+    || a === 10                           // RFC 1918
+    || a === 127                          // loopback
+    || (a === 100 && b >= 64 && b < 128)  // CGNAT
+    || (a === 169 && b === 254)           // link-local (cloud metadata)
+    || (a === 172 && b >= 16 && b < 32)   // RFC 1918
+    || (a === 192 && b === 168)           // RFC 1918
+    || a >= 224;                          // multicast, reserved, broadcast
+}
+
+function isPrivateIPv6(address: string): boolean {
+  if (address === '::' || address === '::1') return true;
+
+  // IPv4-mapped (::ffff:7f00:1 is 127.0.0.1)
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  const first = parseInt(address.split(':')[0] || '0', 16);
+  return (first & 0xfe00) === 0xfc00   // unique local fc00::/7
+    || (first & 0xffc0) === 0xfe80;    // link-local fe80::/10
+}
@@ -35,20 +35,20 @@ export const CommonSchemas = {
 /**
  * Validate request body against schema
  */
-export function validateBody<T>(
-  schema: z.ZodSchema<T>,
+export function validateBody<S extends z.ZodTypeAny>(
+  schema: S,
   data: unknown
-): T {
+): z.infer<S> {
   return schema.parse(data);
 }
 
 /**
  * Validate query parameters
  */
-export function validateQuery<T>(
-  schema: z.ZodSchema<T>,
+export function validateQuery<S extends z.ZodTypeAny>(
+  schema: S,
   params: Record<string, string | string[] | undefined>
-): T {
+): z.infer<S> {
   return schema.parse(params);
 }
 
@@ -0,0 +1,24 @@
+// tests/fixtures/apify/index.ts
+
+import type { LeadPlatform } from '@/config/platforms.config';
+import glowstudio from './instagram/glowstudio.skincare.json';
+import quietCloseFriends from './instagram/quiet.closefriends.json';
+import megabrand from './instagram/megabrand.json';
+import ghostHandle from './instagram/ghost.handle.json';
+
+/**
+ * Recorded Apify datasets (raw dataset items, as returned by the actor)
+ *
+ * - glowstudio.skincare: business account, 12 posts (normal path)
+ * - quiet.closefriends: private account, no posts
+ * - megabrand: 2.4M followers (outside a small-business ICP)
+ * - ghost.handle: actor error item for a deleted profile
+ */
+export const APIFY_DATASETS: Partial<Record<LeadPlatform, Record<string, any[]>>> = {
+  instagram: {
+    'glowstudio.skincare': glowstudio,
+    'quiet.closefriends': quietCloseFriends,
+    'megabrand': megabrand,
+    'ghost.handle': ghostHandle
+  }
+};
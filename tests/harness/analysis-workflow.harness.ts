@@ -0,0 +1,227 @@
+// tests/harness/analysis-workflow.harness.ts
+
+import { vi } from 'vitest';
+import type { WorkflowEvent } from 'cloudflare:workers';
+import type { Env, AnalysisWorkflowParams } from '@/shared/types/env.types';
+import type { LeadPlatform } from '@/config/platforms.config';
+import type { WebhookEventType } from '@/shared/types/webhook.types';
+import type { ScoringConfig } from '@/config/scoring.config';
+import type { ICPRule } from '@/infrastructure/analysis-checks';
+import type { BroadcastMessage } from '@/shared/types/broadcast.types';
+import { AnalysisWorkflow } from '@/infrastructure/workflows/analysis.workflow';
+import { SupabaseClientFactory } from '@/infrastructure/database/supabase.client';
+import { R2CacheService } from '@/infrastructure/cache/r2-cache.service';
+import { FixtureScraperProvider, MemoryFixtureSource, R2FixtureSource } from '@/infrastructure/scraping/fixture-scraper.provider';
+import { APIFY_DATASETS } from '../fixtures/apify';
+import { InMemorySupabase, type Row } from './in-memory-supabase';
+import { FakeWorkflowStep } from './fake-workflow-step';
+import { createFakeEnv, type FakeEnvBindings } from './fake-bindings';
+
+/**
+ * ANALYSIS WORKFLOW HARNESS
+ *
+ * Runs AnalysisWorkflow.run() end-to-end offline:
+ * - Scraping: SCRAPER_PROVIDER=fixture, with recorded Apify datasets copied
+ *   into the fake cache bucket (the real fixture provider + adapter mapping)
+ * - Database: InMemorySupabase behind SupabaseClientFactory.createAdminClient
+ * - Steps: FakeWorkflowStep (inline, retry-aware, recorded)
+ * - Progress broadcasts: recorded by the fake GlobalBroadcaster namespace
+ * - Other outbound fetches (avatars) are stubbed with 404s
+ *
+ * AI calls and secrets are swapped with vi.mock in the test file (see
+ * tests/integration/analysis-workflow.test.ts), since mocks are hoisted per file.
+ *
+ * Each harness seeds one account with a business profile, balances and the
+ * pending analysis row the analyze handler creates before dispatching.
+ */
+
+export const TEST_ACCOUNT_ID = 'acct-test-0001';
+export const TEST_BUSINESS_ID = 'biz-test-0001';
+export const TEST_USER_ID = 'user-test-0001';
+
+export interface HarnessOptions {
+  balances?: {
+    light_analyses_balance?: number;
+    credit_balance?: number;
+  };
+  /** ICP follower bounds stored on the business profile */
+  icp?: { min?: number | null; max?: number | null };
+  /** Scoring weights/thresholds stored on the business profile */
+  scoringConfig?: ScoringConfig;
+  /** Declarative ICP rules stored on the business profile */
+  icpRules?: ICPRule[];
+  /** Subscribe an active webhook endpoint to these events */
+  webhookEvents?: WebhookEventType[];
+  envOverrides?: Partial<Env>;
+}
+
+let runCounter = 0;
+
+export class AnalysisWorkflowHarness {
+  readonly db: InMemorySupabase;
+  readonly bindings: FakeEnvBindings;
+  readonly step = new FakeWorkflowStep();
+  private lastRunId: string | null = null;
+
+  constructor(options: HarnessOptions = {}) {
+    this.bindings = createFakeEnv(options.envOverrides);
+    this.db = new InMemorySupabase({
+      balances: [{
+        account_id: TEST_ACCOUNT_ID,
+        light_analyses_balance: options.balances?.light_analyses_balance ?? 20,
+        credit_balance: options.balances?.credit_balance ?? 20
+      }],
+      business_profiles: [{
+        ...buildBusinessProfile(options.icp),
+        scoring_config: options.scoringConfig ?? null,
+        icp_rules: options.icpRules ?? null
+      }],
+      webhook_endpoints: options.webhookEvents ? [{
+        id: 'whe-test-0001',
+        account_id: TEST_ACCOUNT_ID,
+        url: 'https://hooks.test/oslira',
+        status: 'active',
+        events: options.webhookEvents
+      }] : []
+    });
+
+    vi.spyOn(SupabaseClientFactory, 'createAdminClient').mockResolvedValue(this.db.asClient());
+    vi.stubGlobal('fetch', this.fetch);
+  }
+
+  get env(): Env {
+    return this.bindings.env;
+  }
+
+  /** Make a recorded dataset available to the fixture scraper */
+  async loadFixture(username: string, platform: LeadPlatform = 'instagram'): Promise<void> {
+    const items = APIFY_DATASETS[platform]?.[username];
+    if (!items) {
+      throw new Error(`No recorded dataset for ${platform}:${username}`);
+    }
+    await this.bindings.cacheBucket.put(
+      `${R2FixtureSource.PREFIX}/${platform}/${username}.json`,
+      JSON.stringify(items)
+    );
+  }
+
+  /** Put a fixture profile in the R2 profile cache, as a recent analysis would have */
+  async primeProfileCache(
+    username: string,
+    analysisType: 'light' | 'deep' = 'light',
+    platform: LeadPlatform = 'instagram'
+  ): Promise<void> {
+    const provider = new FixtureScraperProvider(platform, new MemoryFixtureSource(APIFY_DATASETS));
+    const result = await provider.scrapeProfileWithMeta(username);
+    if (!result.profile) {
+      throw new Error(`Fixture ${platform}:${username} has no profile to cache`);
+    }
+    await new R2CacheService(this.env.R2_CACHE_BUCKET).set(username, result.profile, analysisType);
+  }
+
+  /**
+   * Create the pending analysis row and run the workflow
+   * Resolves with the workflow result; rejects like the real instance would
+   */
+  async run(params: Partial<AnalysisWorkflowParams> & { username: string }): Promise<any> {
+    const payload: AnalysisWorkflowParams = {
+      run_id: `run-test-${++runCounter}`,
+      account_id: TEST_ACCOUNT_ID,
+      business_profile_id: TEST_BUSINESS_ID,
+      analysis_type: 'light',
+      requested_at: new Date().toISOString(),
+      requested_by: TEST_USER_ID,
+      ...params
+    };
+
+    this.db.insertRows('lead_analyses', [{
+      run_id: payload.run_id,
+      account_id: payload.account_id,
+      business_profile_id: payload.business_profile_id,
+      analysis_type: payload.analysis_type,
+      status: 'pending',
+      started_at: payload.requested_at
+    }]);
+    this.lastRunId = payload.run_id;
+
+    const workflow = new AnalysisWorkflow({} as ExecutionContext, this.env);
+    const event = {
+      payload,
+      timestamp: new Date(),
+      instanceId: payload.run_id
+    } as WorkflowEvent<AnalysisWorkflowParams>;
+
+    return workflow.run(event, this.step.asStep());
+  }
+
+  // ===============================================================================
+  // ASSERTION HELPERS
+  // ===============================================================================
+
+  /** Analysis row of the last run */
+  get analysis(): Row {
+    return this.db.rows('lead_analyses', { run_id: this.lastRunId })[0];
+  }
+
+  get leads(): Row[] {
+    return this.db.rows('leads', { account_id: TEST_ACCOUNT_ID });
+  }
+
+  get ledger(): Row[] {
+    return this.db.rows('credit_ledger', { account_id: TEST_ACCOUNT_ID });
+  }
+
+  balance(column: 'light_analyses_balance' | 'credit_balance'): number {
+    return this.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0][column];
+  }
+
+  /** Event types of queued webhook deliveries */
+  get webhookEvents(): string[] {
+    return this.db.rows('webhook_deliveries', { account_id: TEST_ACCOUNT_ID }).map(d => d.event_type);
+  }
+
+  /** Progress events published to the account's broadcaster, oldest first */
+  get broadcasts(): BroadcastMessage[] {
+    return this.bindings.broadcaster.requests
+      .filter(request => request.url.endsWith('/broadcast'))
+      .map(request => request.body);
+  }
+
+  /** Stubbed global fetch: 404s everything (avatars) */
+  private fetch = async (): Promise<Response> => new Response('Not found', { status: 404 });
+}
+
+function buildBusinessProfile(icp: HarnessOptions['icp'] = {}): Row {
+  // null means "no bound", so only fall back when the option is left out
+  const min = icp.min === undefined ? 1000 : icp.min;
+  const max = icp.max === undefined ? 250000 : icp.max;
+
+  return {
+    id: TEST_BUSINESS_ID,
+    account_id: TEST_ACCOUNT_ID,
+    full_name: 'Riley Parker',
+    signature_name: 'Riley',
+    business_name: 'Bright Funnel Studio',
+    business_one_liner: 'Booking funnels for local beauty and wellness businesses',
+    business_summary_generated: 'Bright Funnel Studio builds Instagram-to-booking funnels for spas and skincare studios.',
+    business_context: {
+      business_summary: 'We turn Instagram attention into booked appointments for beauty businesses.',
+      communication_tone: 'Friendly and direct',
+      target_description: 'Independent spas, skincare studios and estheticians',
+      icp_min_followers: min,
+      icp_max_followers: max,
+      target_company_sizes: ['solo', 'small']
+    },
+    ideal_customer_profile: {
+      business_description: 'Booking funnels for beauty businesses',
+      target_audience: 'Independent spas, skincare studios and estheticians',
+      icp_min_followers: min,
+      icp_max_followers: max,
+      brand_voice: 'Friendly and direct'
+    },
+    context_version: 'v1',
+    context_generated_at: null,
+    context_manually_edited: false,
+    context_updated_at: null
+  };
+}
@@ -0,0 +1,19 @@
+// tests/harness/cloudflare-workers.shim.ts
+
+/**
+ * Node stand-in for the `cloudflare:workers` runtime module (aliased in
+ * vitest.config.ts). Only the base classes the worker code extends are
+ * provided; types still come from @cloudflare/workers-types.
+ */
+
+export class WorkflowEntrypoint<Env = unknown, _T = unknown> {
+  constructor(protected ctx: unknown, protected env: Env) {}
+}
+
+export class WorkerEntrypoint<Env = unknown> {
+  constructor(protected ctx: unknown, protected env: Env) {}
+}
+
+export class DurableObject<Env = unknown> {
+  constructor(protected ctx: unknown, protected env: Env) {}
+}
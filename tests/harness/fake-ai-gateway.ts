@@ -0,0 +1,126 @@
+// tests/harness/fake-ai-gateway.ts
+
+import type { AIRequest, AIResponse, GPT5StructuredRequest } from '@/infrastructure/ai/ai-gateway.client';
+
+/**
+ * FAKE AI GATEWAY
+ *
+ * Drop-in for AIGatewayClient (swap it in with vi.mock). Responses are keyed
+ * by the request's schema name:
+ * - call(): json_schema.name ('light_analysis', 'deep_analysis')
+ * - callStructured(): tool_schema.name ('submit_lead_analysis', ...)
+ *
+ * Defaults cover every prompt the analysis workflow sends; tests override
+ * them with fakeAIGateway.respond() / fail(). Requests without a registered
+ * response throw, so new AI calls can't slip into the workflow unnoticed.
+ */
+
+export interface RecordedAICall {
+  name: string;
+  model: string;
+  structured: boolean;
+  request: AIRequest | GPT5StructuredRequest;
+}
+
+type Responder = (request: AIRequest | GPT5StructuredRequest) => unknown;
+
+/** Token usage reported for every fake response */
+export const FAKE_AI_USAGE = {
+  input_tokens: 1200,
+  output_tokens: 300,
+  total_cost: 0.0015
+};
+
+export const DEFAULT_AI_RESPONSES: Record<string, unknown> = {
+  light_analysis: {
+    overall_score: 72,
+    summary_text: 'Active skincare studio with a steady posting cadence and an engaged local audience. Good fit for the offer.'
+  },
+  deep_analysis: {
+    overall_score: 81,
+    summary_text: 'Established skincare studio with consistent Reels, strong engagement and clear commercial intent. The audience matches the ICP and the account is ready for outreach.'
+  },
+  submit_niche_detection: {
+    niche: 'skincare studio',
+    confidence: 'high',
+    reasoning: 'Bio, hashtags and captions all center on facials and skincare treatments.'
+  },
+  submit_lead_analysis: {
+    leadTier: 'hot',
+    profileFitRating: 88,
+    niche: 'skincare studio',
+    strengths: ['Consistent posting', 'Strong comment engagement'],
+    weaknesses: ['No link-in-bio funnel'],
+    opportunities: ['Turn treatment Reels into a booking funnel'],
+    recommendedActions: ['Open with a compliment on the before/after series'],
+    riskFactors: ['Small team may limit capacity'],
+    fitReasoning: 'Local service business with an engaged audience and clear offers.'
+  }
+};
+
+class FakeAIGatewayController {
+  readonly calls: RecordedAICall[] = [];
+  private responders = new Map<string, Responder>();
+
+  constructor() {
+    this.reset();
+  }
+
+  /** Restore default responses and clear recorded calls */
+  reset(): void {
+    this.calls.length = 0;
+    this.responders.clear();
+    for (const [name, content] of Object.entries(DEFAULT_AI_RESPONSES)) {
+      this.respond(name, content);
+    }
+  }
+
+  /** Fixed content (or a function of the request) for a schema name */
+  respond(name: string, content: unknown): void {
+    this.responders.set(
+      name,
+      typeof content === 'function' ? (content as Responder) : () => structuredClone(content)
+    );
+  }
+
+  /** Make every request for a schema name throw */
+  fail(name: string, message: string = `Fake AI failure: ${name}`): void {
+    this.responders.set(name, () => {
+      throw new Error(message);
+    });
+  }
+
+  callsFor(name: string): RecordedAICall[] {
+    return this.calls.filter(call => call.name === name);
+  }
+
+  async handle(name: string, structured: boolean, request: AIRequest | GPT5StructuredRequest): Promise<AIResponse> {
+    this.calls.push({ name, model: request.model, structured, request });
+
+    const responder = this.responders.get(name);
+    if (!responder) {
+      throw new Error(`FakeAIGateway: no response registered for "${name}"`);
+    }
+
+    return {
+      content: await responder(request),
+      usage: { ...FAKE_AI_USAGE },
+      model_used: request.model,
+      provider: request.model.startsWith('claude') ? 'anthropic' : 'openai'
+    };
+  }
+}
+
+export const fakeAIGateway = new FakeAIGatewayController();
+
+export class FakeAIGatewayClient {
+  constructor(..._args: unknown[]) {}
+
+  async call(request: AIRequest): Promise<AIResponse> {
+    return fakeAIGateway.handle(request.json_schema?.name ?? 'text', false, request);
+  }
+
+  async callStructured(request: GPT5StructuredRequest): Promise<AIResponse> {
+    return fakeAIGateway.handle(request.tool_schema.name, true, request);
+  }
+}
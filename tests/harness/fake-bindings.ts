@@ -0,0 +1,197 @@
+// tests/harness/fake-bindings.ts
+
+import type {
+  KVNamespace,
+  R2Bucket,
+  Queue,
+  DurableObjectNamespace,
+  AnalyticsEngineDataset
+} from '@cloudflare/workers-types';
+import type { Env } from '@/shared/types/env.types';
+
+/**
+ * FAKE BINDINGS
+ *
+ * Map-backed KV and R2, recording queues and Durable Object namespaces, and
+ * an Env wired to them. Only the binding methods the worker code calls are
+ * implemented.
+ */
+
+export class FakeKV {
+  readonly store = new Map<string, string>();
+
+  async get(key: string, type?: 'text' | 'json'): Promise<any> {
+    const value = this.store.get(key);
+    if (value === undefined) return null;
+    return type === 'json' ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string, _options?: { expirationTtl?: number }): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<{ keys: Array<{ name: string }>; list_complete: boolean }> {
+    const keys = [...this.store.keys()]
+      .filter(name => !options.prefix || name.startsWith(options.prefix))
+      .map(name => ({ name }));
+    return { keys, list_complete: true };
+  }
+
+  asBinding(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
+
+interface StoredObject {
+  body: string;
+  customMetadata: Record<string, string>;
+  uploaded: Date;
+}
+
+export class FakeR2Bucket {
+  readonly objects = new Map<string, StoredObject>();
+
+  async get(key: string): Promise<any> {
+    const stored = this.objects.get(key);
+    if (!stored) return null;
+
+    return {
+      key,
+      customMetadata: stored.customMetadata,
+      uploaded: stored.uploaded,
+      size: stored.body.length,
+      text: async () => stored.body,
+      json: async () => JSON.parse(stored.body),
+      arrayBuffer: async () => new TextEncoder().encode(stored.body).buffer
+    };
+  }
+
+  async head(key: string): Promise<any> {
+    const stored = this.objects.get(key);
+    return stored ? { key, customMetadata: stored.customMetadata, uploaded: stored.uploaded } : null;
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView,
+    options?: { customMetadata?: Record<string, string> }
+  ): Promise<void> {
+    const body = typeof value === 'string' ? value : new TextDecoder().decode(value as ArrayBuffer);
+    this.objects.set(key, { body, customMetadata: options?.customMetadata ?? {}, uploaded: new Date() });
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.objects.delete(key);
+    }
+  }
+
+  async list(options: { prefix?: string } = {}): Promise<any> {
+    const objects = [...this.objects.entries()]
+      .filter(([key]) => !options.prefix || key.startsWith(options.prefix))
+      .map(([key, stored]) => ({ key, customMetadata: stored.customMetadata, uploaded: stored.uploaded }));
+    return { objects, truncated: false };
+  }
+
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
+
+export class FakeQueue<T = unknown> {
+  readonly messages: T[] = [];
+
+  async send(body: T): Promise<void> {
+    this.messages.push(body);
+  }
+
+  async sendBatch(batch: Array<{ body: T }>): Promise<void> {
+    this.messages.push(...batch.map(message => message.body));
+  }
+
+  asBinding(): Queue {
+    return this as unknown as Queue;
+  }
+}
+
+/** Records every request sent to any object in the namespace */
+export class FakeDurableObjectNamespace {
+  readonly requests: Array<{ name: string; url: string; body: any; headers: Headers }> = [];
+
+  constructor(private respond: (name: string, url: string, body: any) => Response = () => Response.json({ ok: true })) {}
+
+  idFromName(name: string): { name: string; toString(): string } {
+    return { name, toString: () => name };
+  }
+
+  get(id: { name: string }): { fetch(input: string, init?: RequestInit): Promise<Response> } {
+    return {
+      fetch: async (input: string, init?: RequestInit) => {
+        const body = init?.body ? JSON.parse(String(init.body)) : null;
+        this.requests.push({ name: id.name, url: input, body, headers: new Headers(init?.headers) });
+        return this.respond(id.name, input, body);
+      }
+    };
+  }
+
+  asBinding(): DurableObjectNamespace {
+    return this as unknown as DurableObjectNamespace;
+  }
+}
+
+export interface FakeEnvBindings {
+  env: Env;
+  kv: FakeKV;
+  cacheBucket: FakeR2Bucket;
+  mediaBucket: FakeR2Bucket;
+  webhookQueue: FakeQueue;
+  rescoreQueue: FakeQueue;
+  sourcingQueue: FakeQueue;
+  bulkBatches: FakeDurableObjectNamespace;
+  broadcaster: FakeDurableObjectNamespace;
+}
+
+/**
+ * Staging Env backed by fakes, with scraping served from R2 fixtures
+ */
+export function createFakeEnv(overrides: Partial<Env> = {}): FakeEnvBindings {
+  const kv = new FakeKV();
+  const cacheBucket = new FakeR2Bucket();
+  const mediaBucket = new FakeR2Bucket();
+  const webhookQueue = new FakeQueue();
+  const rescoreQueue = new FakeQueue();
+  const sourcingQueue = new FakeQueue();
+  const bulkBatches = new FakeDurableObjectNamespace();
+  const broadcaster = new FakeDurableObjectNamespace();
+  const unusedWorkflow = {} as Env['ANALYSIS_WORKFLOW'];
+
+  const env = {
+    APP_ENV: 'staging',
+    CLOUDFLARE_ACCOUNT_ID: 'test-account',
+    AI_GATEWAY_NAME: 'test-gateway',
+    FRONTEND_URL: 'https://app.test',
+    SCRAPER_PROVIDER: 'fixture',
+    OSLIRA_KV: kv.asBinding(),
+    R2_CACHE_BUCKET: cacheBucket.asBinding(),
+    R2_MEDIA_BUCKET: mediaBucket.asBinding(),
+    ANALYTICS_ENGINE: { writeDataPoint: () => {} } as unknown as AnalyticsEngineDataset,
+    ANALYSIS_WORKFLOW: unusedWorkflow,
+    BUSINESS_CONTEXT_WORKFLOW: unusedWorkflow,
+    GLOBAL_BROADCASTER: broadcaster.asBinding(),
+    BUSINESS_CONTEXT_PROGRESS: new FakeDurableObjectNamespace().asBinding(),
+    BULK_BATCH: bulkBatches.asBinding(),
+    STRIPE_WEBHOOK_QUEUE: new FakeQueue().asBinding(),
+    BUSINESS_CONTEXT_QUEUE: new FakeQueue().asBinding(),
+    BULK_ANALYSIS_QUEUE: new FakeQueue().asBinding(),
+    WEBHOOK_DELIVERY_QUEUE: webhookQueue.asBinding(),
+    RESCORE_QUEUE: rescoreQueue.asBinding(),
+    SOURCING_QUEUE: sourcingQueue.asBinding(),
+    ...overrides
+  } as Env;
+
+  return { env, kv, cacheBucket, mediaBucket, webhookQueue, rescoreQueue, sourcingQueue, bulkBatches, broadcaster };
+}
@@ -0,0 +1,84 @@
+// tests/harness/fake-workflow-step.ts
+
+import type { WorkflowStep, WorkflowStepConfig } from 'cloudflare:workers';
+
+/**
+ * FAKE WORKFLOW STEP
+ *
+ * Runs step callbacks inline with the Workflows semantics the analysis
+ * workflow relies on:
+ * - A step that throws is retried up to `retries.limit` times (no delay)
+ * - A completed step's result is memoized by name, so re-running a workflow
+ *   against the same step replays earlier results like a resumed instance
+ *
+ * Every attempt is recorded for assertions.
+ */
+
+export interface StepRecord {
+  name: string;
+  attempts: number;
+  status: 'complete' | 'failed';
+  config?: WorkflowStepConfig;
+  error?: string;
+}
+
+type StepCallback<T> = () => Promise<T>;
+
+export class FakeWorkflowStep {
+  readonly records: StepRecord[] = [];
+  private results = new Map<string, unknown>();
+
+  asStep(): WorkflowStep {
+    return this as unknown as WorkflowStep;
+  }
+
+  async do<T>(
+    name: string,
+    configOrCallback: WorkflowStepConfig | StepCallback<T>,
+    maybeCallback?: StepCallback<T>
+  ): Promise<T> {
+    const config = typeof configOrCallback === 'function' ? undefined : configOrCallback;
+    const callback = typeof configOrCallback === 'function' ? configOrCallback : maybeCallback!;
+
+    if (this.results.has(name)) {
+      return this.results.get(name) as T;
+    }
+
+    const maxAttempts = 1 + (config?.retries?.limit ?? 0);
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        // Workflows persist step output as JSON
+        const result = JSON.parse(JSON.stringify((await callback()) ?? null)) as T;
+        this.results.set(name, result);
+        this.records.push({ name, attempts: attempt, status: 'complete', config });
+        return result;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    this.records.push({
+      name,
+      attempts: maxAttempts,
+      status: 'failed',
+      config,
+      error: lastError instanceof Error ? lastError.message : String(lastError)
+    });
+    throw lastError;
+  }
+
+  async sleep(_name: string, _duration: unknown): Promise<void> {}
+
+  async sleepUntil(_name: string, _timestamp: Date | number): Promise<void> {}
+
+  /** Names of steps that ran, in order */
+  get stepNames(): string[] {
+    return this.records.map(record => record.name);
+  }
+
+  get(name: string): StepRecord | undefined {
+    return this.records.find(record => record.name === name);
+  }
+}
@@ -0,0 +1,771 @@
+// tests/harness/in-memory-supabase.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * IN-MEMORY SUPABASE
+ *
+ * Stand-in for the PostgREST query builder used by the repositories. Tables
+ * are plain row arrays; queries are evaluated in memory with PostgREST's
+ * result/error shapes (`{ data, error, count }`, PGRST116 for `.single()`
+ * misses) so repository error handling runs unchanged.
+ *
+ * Supported:
+ * - select (columns are not projected; embedded `child!inner(...)` resources
+ *   are joined on `<parent singular>_id`), insert, update, upsert (onConflict,
+ *   ignoreDuplicates), delete
+ * - eq, neq, in, is, gt, gte, lt, lte, contains, ilike, not(col, 'is', null),
+ *   with `child.column` filters applying to embedded rows
+ * - or() strings of eq/neq/gt/gte/lt/lte/is/not.is conditions and and(...) groups
+ * - order (with nullsFirst; Postgres default is nulls first when descending),
+ *   limit, range, single, maybeSingle, count/head
+ * - rpc() via registered handlers (credit, balance reset, ledger sum, admin credit
+ *   change, admin re-run, balance correction, reservation and sourcing page RPCs
+ *   are built in)
+ *
+ * Unsupported operations throw, so a test never passes on a silently ignored filter.
+ */
+
+export type Row = Record<string, any>;
+
+export type RpcHandler = (db: InMemorySupabase, args: Record<string, any>) => any;
+
+interface QueryResult {
+  data: any;
+  error: { code: string; message: string } | null;
+  count?: number | null;
+}
+
+type Filter = (row: Row) => boolean;
+
+interface EmbeddedFilter {
+  table: string;
+  filter: Filter;
+}
+
+const BALANCE_RPC_PARAMS = ['p_account_id', 'p_amount', 'p_transaction_type', 'p_description'];
+
+/**
+ * Credit RPCs add p_amount to a balance column and write a ledger row
+ * Only deduct_credits takes the reference/attribution params, like the real functions
+ */
+const BALANCE_RPCS: Record<string, { column: string; params: string[] }> = {
+  deduct_credits: {
+    column: 'credit_balance',
+    params: [...BALANCE_RPC_PARAMS, 'p_reference_type', 'p_reference_id', 'p_created_by']
+  },
+  deduct_light_analyses: { column: 'light_analyses_balance', params: BALANCE_RPC_PARAMS },
+  deduct_deep_analyses: { column: 'deep_analyses_balance', params: BALANCE_RPC_PARAMS }
+};
+
+/** Balance column behind each credit type (reservation RPCs) */
+const CREDIT_TYPE_COLUMNS: Record<string, string> = {
+  credits: 'credit_balance',
+  light_analyses: 'light_analyses_balance'
+};
+
+export class InMemorySupabase {
+  readonly tables = new Map<string, Row[]>();
+  readonly rpcCalls: Array<{ fn: string; args: Record<string, any> }> = [];
+  private rpcHandlers = new Map<string, RpcHandler>();
+  private idCounter = 0;
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.insertRows(table, rows);
+    }
+
+    for (const [fn, { column, params }] of Object.entries(BALANCE_RPCS)) {
+      this.onRpc(fn, (db, args) => {
+        const unknown = Object.keys(args).filter(arg => !params.includes(arg));
+        if (unknown.length > 0) {
+          // PostgREST finds no overload for unexpected named arguments
+          throw Object.assign(new Error(`Could not find the function ${fn}(${Object.keys(args).join(', ')})`), { code: 'PGRST202' });
+        }
+        return db.applyBalanceChange(column, args);
+      });
+    }
+    this.onRpc('reset_credit_balances', (db, args) => db.resetCreditBalances(args));
+    this.onRpc('sum_credit_ledger', (db, args) => db.sumCreditLedger(args));
+    this.onRpc('apply_admin_credit_change', (db, args) => db.applyAdminCreditChange(args));
+    this.onRpc('create_admin_rerun', (db, args) => db.createAdminRerun(args));
+    this.onRpc('apply_balance_correction', (db, args) => db.applyBalanceCorrection(args));
+    this.onRpc('reserve_analysis_credits', (db, args) => db.reserveCredits(args));
+    this.onRpc('release_credit_reservation', (db, args) => db.releaseReservation(args));
+    this.onRpc('advance_sourcing_page', (db, args) => db.advanceSourcingPage(args));
+  }
+
+  /** Typed view for code that expects a SupabaseClient */
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  /** Rows matching every given column value */
+  rows(name: string, match: Row = {}): Row[] {
+    return this.table(name).filter(row =>
+      Object.entries(match).every(([column, value]) => row[column] === value)
+    );
+  }
+
+  insertRows(name: string, rows: Row[]): Row[] {
+    const now = new Date().toISOString();
+    const inserted = rows.map(row => ({
+      id: row.id ?? `${name}-${++this.idCounter}`,
+      created_at: now,
+      deleted_at: null,
+      ...row
+    }));
+    this.table(name).push(...inserted);
+    return inserted;
+  }
+
+  onRpc(fn: string, handler: RpcHandler): void {
+    this.rpcHandlers.set(fn, handler);
+  }
+
+  from(table: string): QueryBuilder {
+    return new QueryBuilder(this, table);
+  }
+
+  async rpc(fn: string, args: Record<string, any> = {}): Promise<QueryResult> {
+    this.rpcCalls.push({ fn, args });
+    const handler = this.rpcHandlers.get(fn);
+    if (!handler) {
+      return { data: null, error: { code: '42883', message: `function ${fn} does not exist` } };
+    }
+
+    try {
+      return { data: await handler(this, args), error: null };
+    } catch (error: any) {
+      return { data: null, error: { code: error.code ?? 'P0001', message: error.message } };
+    }
+  }
+
+  private applyBalanceChange(column: string, args: Record<string, any>): string {
+    const balance = this.rows('balances', { account_id: args.p_account_id })[0];
+    if (!balance) {
+      throw Object.assign(new Error('Account balance not found'), { code: 'P0002' });
+    }
+
+    const next = (balance[column] ?? 0) + args.p_amount;
+    if (next < 0) {
+      throw Object.assign(new Error('Insufficient balance'), { code: 'P0001' });
+    }
+    balance[column] = next;
+
+    const [entry] = this.insertRows('credit_ledger', [{
+      account_id: args.p_account_id,
+      amount: args.p_amount,
+      balance_after: next,
+      credit_type: column,
+      transaction_type: args.p_transaction_type,
+      description: args.p_description,
+      reference_type: args.p_reference_type ?? null,
+      reference_id: args.p_reference_id ?? null,
+      created_by: args.p_created_by ?? null
+    }]);
+
+    return entry.id;
+  }
+
+  /** reset_credit_balances: move each target column to its value through the ledger */
+  private resetCreditBalances(args: Record<string, any>): null {
+    const balance = this.rows('balances', { account_id: args.p_account_id })[0];
+    if (!balance) {
+      throw Object.assign(new Error('Account balance not found'), { code: 'P0002' });
+    }
+
+    for (const [column, target] of Object.entries(args.p_targets as Record<string, number>)) {
+      const delta = target - (balance[column] ?? 0);
+      if (delta === 0) continue;
+
+      this.applyBalanceChange(column, {
+        p_account_id: args.p_account_id,
+        p_amount: delta,
+        p_transaction_type: args.p_transaction_type,
+        p_description: args.p_description
+      });
+    }
+    return null;
+  }
+
+  /** sum_credit_ledger: SUM(amount) GROUP BY account_id, credit_type */
+  private sumCreditLedger(args: Record<string, any>): Row[] {
+    const totals = new Map<string, Row>();
+    for (const entry of this.table('credit_ledger')) {
+      if (!args.p_account_ids.includes(entry.account_id) || !args.p_credit_types.includes(entry.credit_type)) continue;
+
+      const key = `${entry.account_id}:${entry.credit_type}`;
+      const total = totals.get(key) ?? { account_id: entry.account_id, credit_type: entry.credit_type, total: 0 };
+      total.total += Number(entry.amount);
+      totals.set(key, total);
+    }
+    return [...totals.values()];
+  }
+
+  /** apply_admin_credit_change: balance change, ledger entry and audit row together */
+  private applyAdminCreditChange(args: Record<string, any>): string {
+    const refunded = args.p_transaction_type === 'refund' && args.p_reference_id !== null
+      && this.rows('credit_ledger', {
+        transaction_type: 'refund',
+        reference_type: args.p_reference_type,
+        reference_id: args.p_reference_id
+      }).length > 0;
+    if (refunded) {
+      throw new Error(`Already refunded: ${args.p_reference_type} ${args.p_reference_id}`);
+    }
+
+    const entryId = this.applyBalanceChange(args.p_balance_column, args);
+    const [entry] = this.rows('credit_ledger', { id: entryId });
+
+    this.insertRows('admin_audit_log', [{
+      ...args.p_audit,
+      details: { ...args.p_audit.details, balance_after: entry.balance_after }
+    }]);
+    return entryId;
+  }
+
+  /** create_admin_rerun: the new run and its audit row together */
+  private createAdminRerun(args: Record<string, any>): Row {
+    const [analysis] = this.insertRows('lead_analyses', [{ ...args.p_analysis, started_at: new Date().toISOString() }]);
+    this.insertRows('admin_audit_log', [args.p_audit]);
+    return analysis;
+  }
+
+  /** apply_balance_correction: claim the report, correct one side and record the decision */
+  private applyBalanceCorrection(args: Record<string, any>): { report: Row; correction: Row } {
+    const report = this.rows('balance_drift_reports', { id: args.p_report_id })[0];
+    if (!report || report.status !== 'open') {
+      throw new Error(`Report not open: ${args.p_report_id}`);
+    }
+
+    let before = { balance: report.balance, ledger: report.ledger_balance };
+    let after = before;
+
+    if (args.p_action !== 'dismiss') {
+      const column = report.balance_column;
+      const balances = this.rows('balances', { account_id: report.account_id })[0];
+      const ledger = this.rows('credit_ledger', { account_id: report.account_id, credit_type: column })
+        .reduce((total, entry) => total + Number(entry.amount), 0);
+      before = { balance: balances[column] ?? 0, ledger };
+
+      if (before.balance - before.ledger !== report.drift) {
+        throw new Error(`Drift changed: ${args.p_report_id}`);
+      }
+
+      if (args.p_action === 'match_ledger') {
+        balances[column] = ledger;
+        after = { balance: ledger, ledger };
+      } else {
+        this.insertRows('credit_ledger', [{
+          account_id: report.account_id,
+          amount: report.drift,
+          balance_after: before.balance,
+          credit_type: column,
+          transaction_type: args.p_transaction_type,
+          reference_type: 'balance_drift_report',
+          reference_id: report.id,
+          description: args.p_description,
+          created_by: null
+        }]);
+        after = { balance: before.balance, ledger: before.balance };
+      }
+    }
+
+    const now = new Date().toISOString();
+    Object.assign(report, {
+      status: args.p_action === 'dismiss' ? 'dismissed' : 'applied',
+      resolution: args.p_action === 'dismiss' ? report.resolution : args.p_action,
+      resolved_by: args.p_actor,
+      resolution_note: args.p_note,
+      resolved_at: now,
+      updated_at: now
+    });
+
+    const [correction] = this.insertRows('balance_corrections', [{
+      report_id: report.id,
+      account_id: report.account_id,
+      balance_column: report.balance_column,
+      action: args.p_action,
+      balance_before: before.balance,
+      balance_after: after.balance,
+      ledger_before: before.ledger,
+      ledger_after: after.ledger,
+      actor: args.p_actor,
+      note: args.p_note
+    }]);
+
+    return { report, correction };
+  }
+
+  /** reserve_analysis_credits: deduct and insert the hold, or return the existing one */
+  private reserveCredits(args: Record<string, any>): Row {
+    const existing = this.rows('credit_reservations', { reference_id: args.p_reference_id })[0];
+    if (existing) return existing;
+
+    this.applyBalanceChange(CREDIT_TYPE_COLUMNS[args.p_credit_type], {
+      p_account_id: args.p_account_id,
+      p_amount: -args.p_amount,
+      p_transaction_type: 'reservation',
+      p_description: args.p_description,
+      p_created_by: args.p_created_by
+    });
+
+    const [reservation] = this.insertRows('credit_reservations', [{
+      account_id: args.p_account_id,
+      analysis_type: args.p_analysis_type,
+      credit_type: args.p_credit_type,
+      reference_id: args.p_reference_id,
+      amount_reserved: args.p_amount,
+      amount_charged: 0,
+      amount_released: 0,
+      status: 'active'
+    }]);
+    return reservation;
+  }
+
+  /** release_credit_reservation: claim up to p_amount of the hold and refund it */
+  private releaseReservation(args: Record<string, any>): number {
+    const reservation = this.rows('credit_reservations', { id: args.p_reservation_id })[0];
+    if (!reservation) {
+      throw Object.assign(new Error(`Reservation ${args.p_reservation_id} not found`), { code: 'P0002' });
+    }
+    if (reservation.status !== 'active') {
+      throw new Error(`Reservation ${args.p_reservation_id} is already settled`);
+    }
+
+    const held = reservation.amount_reserved - reservation.amount_charged - reservation.amount_released;
+    const released = args.p_amount === null ? held : Math.min(args.p_amount, held);
+
+    if (released > 0) {
+      this.applyBalanceChange(CREDIT_TYPE_COLUMNS[reservation.credit_type], {
+        p_account_id: reservation.account_id,
+        p_amount: released,
+        p_transaction_type: 'reservation_release',
+        p_description: args.p_description,
+        p_created_by: null
+      });
+    }
+
+    reservation.amount_released += released;
+    if (args.p_amount === null) reservation.status = 'settled';
+    return released;
+  }
+
+  /** advance_sourcing_page: record a pre-filtered page unless the cursor already moved */
+  private advanceSourcingPage(args: Record<string, any>): boolean {
+    const job = this.rows('sourcing_jobs', { id: args.p_job_id })[0];
+    if (!job || job.cursor !== args.p_cursor) return false;
+
+    const now = new Date().toISOString();
+    Object.assign(job, {
+      cursor: args.p_next_cursor,
+      prospects_added: job.prospects_added + args.p_prospects_added,
+      rejected: args.p_rejected,
+      apify_cost_usd: parseFloat((job.apify_cost_usd + args.p_cost_usd).toFixed(6)),
+      updated_at: now,
+      ...(args.p_done ? { status: 'complete', completed_at: now } : {})
+    });
+
+    if (args.p_metrics) {
+      this.insertRows('operations_ledger', [{
+        account_id: job.account_id,
+        operation_type: 'sourcing',
+        operation_id: job.id,
+        metrics: args.p_metrics,
+        analysis_type: null,
+        username: null
+      }]);
+    }
+
+    return true;
+  }
+}
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private embeddedFilters: EmbeddedFilter[] = [];
+  private embeds: Array<{ table: string; inner: boolean }> = [];
+  private orderBy: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+  private limitCount: number | null = null;
+  private rangeBounds: [number, number] | null = null;
+  private mode: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {};
+  private returning = false;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private countMode = false;
+  private headOnly = false;
+
+  constructor(private db: InMemorySupabase, private tableName: string) {}
+
+  // ===============================================================================
+  // OPERATIONS
+  // ===============================================================================
+
+  select(columns: string = '*', options?: { count?: 'exact'; head?: boolean }): this {
+    if (this.mode !== 'select') {
+      this.returning = true;
+      return this;
+    }
+
+    for (const match of columns.matchAll(/(\w+)(!inner)?\s*\(/g)) {
+      this.embeds.push({ table: match[1], inner: !!match[2] });
+    }
+    this.countMode = options?.count === 'exact';
+    this.headOnly = !!options?.head;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.mode = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(values: Row): this {
+    this.mode = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.mode = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.upsertOptions = options;
+    return this;
+  }
+
+  delete(): this {
+    this.mode = 'delete';
+    return this;
+  }
+
+  // ===============================================================================
+  // FILTERS
+  // ===============================================================================
+
+  eq(column: string, value: unknown): this {
+    return this.addFilter(column, v => v === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.addFilter(column, v => v !== value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.addFilter(column, v => values.includes(v));
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.addFilter(column, v => (value === null ? v === null || v === undefined : v === value));
+  }
+
+  gt(column: string, value: any): this {
+    return this.addFilter(column, v => v != null && v > value);
+  }
+
+  gte(column: string, value: any): this {
+    return this.addFilter(column, v => v != null && v >= value);
+  }
+
+  lt(column: string, value: any): this {
+    return this.addFilter(column, v => v != null && v < value);
+  }
+
+  lte(column: string, value: any): this {
+    return this.addFilter(column, v => v != null && v <= value);
+  }
+
+  contains(column: string, values: unknown[]): this {
+    return this.addFilter(column, v => Array.isArray(v) && values.every(value => v.includes(value)));
+  }
+
+  ilike(column: string, pattern: string): this {
+    const regex = new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*')}$`, 'i');
+    return this.addFilter(column, v => typeof v === 'string' && regex.test(v));
+  }
+
+  not(column: string, operator: string, value: unknown): this {
+    if (operator !== 'is' || value !== null) {
+      throw new Error(`InMemorySupabase: not(${column}, ${operator}) is not supported`);
+    }
+    return this.addFilter(column, v => v !== null && v !== undefined);
+  }
+
+  or(filters: string): this {
+    const test = parseOrFilter(filters);
+    this.filters.push(test);
+    return this;
+  }
+
+  // ===============================================================================
+  // MODIFIERS
+  // ===============================================================================
+
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): this {
+    const ascending = options?.ascending ?? true;
+    this.orderBy.push({ column, ascending, nullsFirst: options?.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeBounds = [from, to];
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  // ===============================================================================
+  // EXECUTION
+  // ===============================================================================
+
+  private addFilter(column: string, test: (value: any) => boolean): this {
+    const [table, nested] = column.includes('.') ? column.split('.', 2) : [null, column];
+    if (table) {
+      this.embeddedFilters.push({ table, filter: row => test(row[nested]) });
+    } else {
+      this.filters.push(row => test(row[nested]));
+    }
+    return this;
+  }
+
+  private matching(): Row[] {
+    return this.db.table(this.tableName).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): QueryResult {
+    switch (this.mode) {
+      case 'insert':
+        return this.finish(this.db.insertRows(this.tableName, this.payload));
+      case 'upsert':
+        return this.finish(this.executeUpsert());
+      case 'update': {
+        const rows = this.matching();
+        rows.forEach(row => Object.assign(row, this.payload[0]));
+        return this.finish(rows);
+      }
+      case 'delete': {
+        const rows = this.matching();
+        const table = this.db.table(this.tableName);
+        this.db.tables.set(this.tableName, table.filter(row => !rows.includes(row)));
+        return this.finish(rows);
+      }
+      default:
+        return this.executeSelect();
+    }
+  }
+
+  private executeUpsert(): Row[] {
+    const conflictColumns = (this.upsertOptions.onConflict || 'id').split(',').map(c => c.trim());
+    const written: Row[] = [];
+
+    for (const payload of this.payload) {
+      const existing = this.db.table(this.tableName).find(row =>
+        conflictColumns.every(column => row[column] === payload[column])
+      );
+
+      if (!existing) {
+        written.push(...this.db.insertRows(this.tableName, [payload]));
+      } else if (!this.upsertOptions.ignoreDuplicates) {
+        Object.assign(existing, payload);
+        written.push(existing);
+      }
+    }
+
+    return written;
+  }
+
+  private executeSelect(): QueryResult {
+    let rows = this.matching().map(row => this.withEmbeds(row)).filter((row): row is Row => row !== null);
+
+    for (const { column, ascending, nullsFirst } of [...this.orderBy].reverse()) {
+      rows = [...rows].sort((a, b) => {
+        const aNull = a[column] === null || a[column] === undefined;
+        const bNull = b[column] === null || b[column] === undefined;
+        if (aNull || bNull) {
+          if (aNull && bNull) return 0;
+          return aNull === nullsFirst ? -1 : 1;
+        }
+        if (a[column] === b[column]) return 0;
+        const result = a[column] > b[column] ? 1 : -1;
+        return ascending ? result : -result;
+      });
+    }
+
+    const count = rows.length;
+    if (this.rangeBounds) rows = rows.slice(this.rangeBounds[0], this.rangeBounds[1] + 1);
+    if (this.limitCount !== null) rows = rows.slice(0, this.limitCount);
+
+    if (this.headOnly) {
+      return { data: null, error: null, count };
+    }
+
+    const result = this.finish(rows);
+    return this.countMode ? { ...result, count } : result;
+  }
+
+  /** Attach embedded child rows; inner embeds drop parents without matches */
+  private withEmbeds(row: Row): Row | null {
+    const copy = { ...row };
+    const foreignKey = `${this.tableName.replace(/s$/, '')}_id`;
+
+    for (const embed of this.embeds) {
+      const filters = this.embeddedFilters.filter(f => f.table === embed.table).map(f => f.filter);
+      const children = this.db.table(embed.table)
+        .filter(child => child[foreignKey] === row.id)
+        .filter(child => filters.every(filter => filter(child)))
+        .map(child => ({ ...child }));
+
+      if (embed.inner && children.length === 0) return null;
+      copy[embed.table] = children;
+    }
+
+    return copy;
+  }
+
+  private finish(rows: Row[]): QueryResult {
+    const copies = rows.map(row => ({ ...row }));
+
+    if (this.mode !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.singleMode) {
+      if (copies.length === 1) return { data: copies[0], error: null };
+      if (copies.length === 0 && this.singleMode === 'maybeSingle') return { data: null, error: null };
+      return {
+        data: null,
+        error: {
+          code: 'PGRST116',
+          message: `JSON object requested, multiple (or no) rows returned (${copies.length} rows)`
+        }
+      };
+    }
+
+    return { data: copies, error: null };
+  }
+}
+
+// ===============================================================================
+// OR FILTERS
+// ===============================================================================
+
+/** Split on commas outside parentheses and double quotes */
+function splitConditions(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\' && quoted) {
+      current += char + input[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseValue(raw: string): string | null {
+  if (raw === 'null') return null;
+  if (raw.startsWith('"') && raw.endsWith('"')) {
+    return raw.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return raw;
+}
+
+/** Compare a row value with a filter string, numerically for number columns */
+function compare(rowValue: any, value: string): number {
+  const right: any = typeof rowValue === 'number' ? Number(value) : value;
+  if (rowValue === right) return 0;
+  return rowValue > right ? 1 : -1;
+}
+
+function parseCondition(condition: string): Filter {
+  if (condition.startsWith('and(') && condition.endsWith(')')) {
+    const tests = splitConditions(condition.slice(4, -1)).map(parseCondition);
+    return row => tests.every(test => test(row));
+  }
+  if (condition.startsWith('or(') && condition.endsWith(')')) {
+    return parseOrFilter(condition.slice(3, -1));
+  }
+
+  const [column, ...rest] = condition.split('.');
+  let negate = false;
+  if (rest[0] === 'not') {
+    negate = true;
+    rest.shift();
+  }
+  const [operator, ...valueParts] = rest;
+  const value = parseValue(valueParts.join('.'));
+
+  const test: Filter = row => {
+    const rowValue = row[column];
+    const isNull = rowValue === null || rowValue === undefined;
+    switch (operator) {
+      case 'is':
+        return value === null ? isNull : rowValue === (value === 'true');
+      case 'eq':
+        return !isNull && compare(rowValue, value!) === 0;
+      case 'neq':
+        return !isNull && compare(rowValue, value!) !== 0;
+      case 'gt':
+        return !isNull && compare(rowValue, value!) > 0;
+      case 'gte':
+        return !isNull && compare(rowValue, value!) >= 0;
+      case 'lt':
+        return !isNull && compare(rowValue, value!) < 0;
+      case 'lte':
+        return !isNull && compare(rowValue, value!) <= 0;
+      default:
+        throw new Error(`InMemorySupabase: or() operator ${operator} is not supported`);
+    }
+  };
+
+  return negate ? row => !test(row) : test;
+}
+
+function parseOrFilter(filters: string): Filter {
+  const tests = splitConditions(filters).map(parseCondition);
+  return row => tests.some(test => test(row));
+}
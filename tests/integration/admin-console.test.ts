@@ -0,0 +1,337 @@
+// tests/integration/admin-console.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { JWTService } from '@/infrastructure/auth/jwt.service';
+import { AdminService } from '@/features/admin/admin.service';
+import type { AdminActor } from '@/features/admin/admin.types';
+import { registerAdminRoutes } from '@/features/admin/admin.routes';
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+const CUSTOMER_ACCOUNT_ID = '7d9c1b4e-2f3a-4c5d-8e6f-0a1b2c3d4e5f';
+const CUSTOMER_OWNER_ID = '3e4f5a6b-7c8d-4e9f-a0b1-c2d3e4f5a6b7';
+
+const ADMIN: AdminActor = {
+  userId: TEST_USER_ID,
+  email: 'support@oslira.com',
+  ipAddress: '203.0.113.7'
+};
+
+/** Harness with a customer account (UUIDs, so the routes accept it) next to the staff one */
+function adminHarness(): AnalysisWorkflowHarness {
+  const harness = new AnalysisWorkflowHarness();
+  harness.db.insertRows('accounts', [{ id: CUSTOMER_ACCOUNT_ID, name: 'Customer Co', owner_id: CUSTOMER_OWNER_ID }]);
+  harness.db.insertRows('users', [{ id: CUSTOMER_OWNER_ID, email: 'Owner@Customer.com', full_name: 'Cus Tomer' }]);
+  harness.db.insertRows('balances', [{ account_id: CUSTOMER_ACCOUNT_ID, credit_balance: 10, light_analyses_balance: 3 }]);
+  harness.db.insertRows('leads', [{
+    id: 'lead-customer-1',
+    account_id: CUSTOMER_ACCOUNT_ID,
+    username: 'nike',
+    platform: 'instagram'
+  }]);
+  return harness;
+}
+
+function admin(harness: AnalysisWorkflowHarness): AdminService {
+  return new AdminService(harness.env, harness.db.asClient());
+}
+
+/** Failed deep analysis of the customer, charged like the workflow charges */
+async function failedDeepRun(harness: AnalysisWorkflowHarness, runId = 'run_failed0001'): Promise<string> {
+  harness.db.insertRows('lead_analyses', [{
+    run_id: runId,
+    lead_id: 'lead-customer-1',
+    account_id: CUSTOMER_ACCOUNT_ID,
+    business_profile_id: 'biz-customer-1',
+    analysis_type: 'deep',
+    status: 'failed',
+    started_at: new Date(Date.now() - 60 * 1000).toISOString(),
+    completed_at: null,
+    updated_at: new Date().toISOString(),
+    requested_by: CUSTOMER_OWNER_ID
+  }]);
+  await new CreditsRepository(harness.db.asClient())
+    .deductForAnalysis(CUSTOMER_ACCOUNT_ID, 'deep', 1, 'analysis', 'deep analysis for @nike', CUSTOMER_OWNER_ID, {
+      type: 'analysis_run',
+      id: runId
+    });
+  return runId;
+}
+
+function session(harness: AnalysisWorkflowHarness, claims: { admin?: boolean; impersonatedBy?: string } = {}) {
+  return new JWTService(harness.env).sign({
+    userId: TEST_USER_ID,
+    accountId: TEST_ACCOUNT_ID,
+    email: ADMIN.email,
+    onboardingCompleted: true,
+    role: 'owner',
+    ...claims
+  });
+}
+
+describe('Admin console', () => {
+  it('only serves sessions with the admin claim', async () => {
+    const harness = adminHarness();
+    const app = new Hono<{ Bindings: Env }>();
+    registerAdminRoutes(app);
+
+    const search = (token: string) => app.request(
+      '/api/admin/accounts?email=owner@customer.com',
+      { headers: { Authorization: `Bearer ${token}` } },
+      harness.env
+    );
+
+    expect((await search(await session(harness))).status).toBe(403);
+    // An impersonation token never carries admin rights, whatever it claims
+    expect((await search(await session(harness, { admin: true, impersonatedBy: TEST_USER_ID }))).status).toBe(403);
+
+    const response = await search(await session(harness, { admin: true }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      data: [{
+        account_id: CUSTOMER_ACCOUNT_ID,
+        owner_email: 'Owner@Customer.com',
+        matched_by: 'email',
+        role: 'owner'
+      }]
+    });
+    expect(harness.db.rows('admin_audit_log')).toEqual([
+      expect.objectContaining({
+        admin_user_id: TEST_USER_ID,
+        admin_email: ADMIN.email,
+        action: 'account.search',
+        details: expect.objectContaining({ email: 'owner@customer.com', results: 1 })
+      })
+    ]);
+  });
+
+  it('finds accounts by the username of an analyzed lead', async () => {
+    const harness = adminHarness();
+
+    const matches = await admin(harness).searchAccounts(ADMIN, { username: 'nike' });
+
+    expect(matches).toEqual([expect.objectContaining({
+      account_id: CUSTOMER_ACCOUNT_ID,
+      account_name: 'Customer Co',
+      matched_by: 'lead_username',
+      role: null
+    })]);
+  });
+
+  it('grants and revokes credits through the ledger', async () => {
+    const harness = adminHarness();
+
+    await admin(harness).adjustCredits(ADMIN, CUSTOMER_ACCOUNT_ID, {
+      action: 'grant', creditType: 'credits', amount: 5, reason: 'Ticket #812'
+    });
+    const balances = await admin(harness).adjustCredits(ADMIN, CUSTOMER_ACCOUNT_ID, {
+      action: 'revoke', creditType: 'light_analyses', amount: 2, reason: 'Duplicate grant'
+    });
+
+    expect(balances).toMatchObject({ credit_balance: 15, light_analyses_balance: 1 });
+    expect(harness.db.rows('credit_ledger', { account_id: CUSTOMER_ACCOUNT_ID })).toEqual([
+      expect.objectContaining({ amount: 5, credit_type: 'credit_balance', transaction_type: 'admin_grant' }),
+      expect.objectContaining({ amount: -2, credit_type: 'light_analyses_balance', transaction_type: 'admin_revoke' })
+    ]);
+    expect(harness.db.rows('admin_audit_log').map(entry => [entry.action, entry.reason])).toEqual([
+      ['credits.grant', 'Ticket #812'],
+      ['credits.revoke', 'Duplicate grant']
+    ]);
+    expect(harness.broadcasts.at(-1)).toMatchObject({ type: 'credits.updated', data: { reason: 'adjustment' } });
+
+    await expect(admin(harness).adjustCredits(ADMIN, CUSTOMER_ACCOUNT_ID, {
+      action: 'revoke', creditType: 'light_analyses', amount: 5, reason: 'Too much'
+    })).rejects.toMatchObject({ statusCode: 409, code: 'INSUFFICIENT_BALANCE' });
+    expect(harness.db.rows('admin_audit_log')).toHaveLength(2);
+  });
+
+  it('refunds a charged failed analysis once', async () => {
+    const harness = adminHarness();
+    const runId = await failedDeepRun(harness);
+
+    const result = await admin(harness).refundAnalysis(ADMIN, runId, 'Scraper outage');
+
+    expect(result).toMatchObject({ run_id: runId, credit_type: 'credits', amount: 1, balances: { credit_balance: 10 } });
+    expect(harness.db.rows('credit_ledger', { transaction_type: 'refund' })).toEqual([
+      expect.objectContaining({
+        account_id: CUSTOMER_ACCOUNT_ID,
+        amount: 1,
+        credit_type: 'credit_balance',
+        reference_type: 'analysis_run',
+        reference_id: runId
+      })
+    ]);
+    expect(harness.db.rows('admin_audit_log', { action: 'analysis.refund' })).toEqual([
+      expect.objectContaining({ target_type: 'analysis_run', target_id: runId, reason: 'Scraper outage' })
+    ]);
+
+    await expect(admin(harness).refundAnalysis(ADMIN, runId, 'Again'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'ALREADY_REFUNDED' });
+  });
+
+  it('lets only one of two concurrent refunds of a run through', async () => {
+    const harness = adminHarness();
+    const runId = await failedDeepRun(harness);
+    const otherRunId = await failedDeepRun(harness, 'run_failed0002');
+
+    // Both requests pass the ledger check before either refund is written
+    const results = await Promise.allSettled([
+      admin(harness).refundAnalysis(ADMIN, runId, 'Scraper outage'),
+      admin(harness).refundAnalysis(ADMIN, runId, 'Scraper outage')
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { statusCode: 409, code: 'ALREADY_REFUNDED' }
+    });
+    expect(harness.db.rows('admin_audit_log', { action: 'analysis.refund' })).toHaveLength(1);
+
+    // The other run's charge is told apart by its reference
+    await admin(harness).refundAnalysis(ADMIN, otherRunId, 'Scraper outage');
+    expect(harness.db.rows('credit_ledger', { transaction_type: 'refund' }).map(entry => entry.reference_id))
+      .toEqual([runId, otherRunId]);
+  });
+
+  it('refuses refunds the workflow already made or that were never charged', async () => {
+    const harness = adminHarness();
+    const runId = await failedDeepRun(harness);
+    await new CreditsRepository(harness.db.asClient())
+      .addForAnalysis(CUSTOMER_ACCOUNT_ID, 'deep', 1, 'refund', 'Analysis failed: timeout');
+
+    await expect(admin(harness).refundAnalysis(ADMIN, runId, 'Scraper outage'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'ALREADY_REFUNDED' });
+
+    harness.db.insertRows('lead_analyses', [{
+      run_id: 'run_uncharged01',
+      lead_id: 'lead-customer-1',
+      account_id: CUSTOMER_ACCOUNT_ID,
+      analysis_type: 'light',
+      status: 'failed',
+      started_at: new Date(Date.now() - 60 * 1000).toISOString(),
+      updated_at: new Date().toISOString()
+    }]);
+
+    await expect(admin(harness).refundAnalysis(ADMIN, 'run_uncharged01', 'Scraper outage'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'NOT_CHARGED' });
+    expect(harness.db.rows('admin_audit_log')).toEqual([]);
+  });
+
+  it('re-runs a failed analysis as a new charged run', async () => {
+    const harness = adminHarness();
+    const create = vi.fn().mockResolvedValue({});
+    harness.env.ANALYSIS_WORKFLOW = { create } as unknown as Env['ANALYSIS_WORKFLOW'];
+    const runId = await failedDeepRun(harness);
+
+    const result = await admin(harness).rerunAnalysis(ADMIN, runId, 'Scraper outage');
+
+    expect(result.original_run_id).toBe(runId);
+    expect(harness.db.rows('lead_analyses', { run_id: result.run_id })).toEqual([
+      expect.objectContaining({ status: 'pending', analysis_type: 'deep', requested_by: CUSTOMER_OWNER_ID })
+    ]);
+    expect(create).toHaveBeenCalledWith({
+      id: result.run_id,
+      params: expect.objectContaining({ account_id: CUSTOMER_ACCOUNT_ID, username: 'nike', analysis_type: 'deep' })
+    });
+    expect(harness.db.rows('admin_audit_log', { action: 'analysis.rerun' })).toEqual([
+      expect.objectContaining({ target_id: runId, details: expect.objectContaining({ new_run_id: result.run_id }) })
+    ]);
+
+    // The new run is pending now, so a second re-run would duplicate it
+    harness.db.rows('lead_analyses', { run_id: result.run_id })[0].status = 'processing';
+    await expect(admin(harness).rerunAnalysis(ADMIN, runId, 'Again'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DUPLICATE_ANALYSIS' });
+  });
+
+  it('closes an audited re-run whose workflow could not start', async () => {
+    const harness = adminHarness();
+    const create = vi.fn().mockRejectedValue(new Error('Workflow binding unavailable'));
+    harness.env.ANALYSIS_WORKFLOW = { create } as unknown as Env['ANALYSIS_WORKFLOW'];
+    const runId = await failedDeepRun(harness);
+
+    await expect(admin(harness).rerunAnalysis(ADMIN, runId, 'Scraper outage'))
+      .rejects.toThrow('Workflow binding unavailable');
+
+    const [audit] = harness.db.rows('admin_audit_log', { action: 'analysis.rerun' });
+    expect(harness.db.rows('lead_analyses', { run_id: audit.details.new_run_id })).toEqual([
+      expect.objectContaining({ status: 'failed', error_message: 'Re-run could not be started' })
+    ]);
+  });
+
+  it('totals operations_ledger costs over the filtered window', async () => {
+    const harness = adminHarness();
+    const cost = (total_usd: number) => ({ cost: { total_usd, items: [] } });
+    harness.db.insertRows('operations_ledger', [
+      { account_id: CUSTOMER_ACCOUNT_ID, operation_type: 'analysis', operation_id: 'run_a', metrics: cost(0.012) },
+      { account_id: CUSTOMER_ACCOUNT_ID, operation_type: 'analysis', operation_id: 'run_b', metrics: cost(0.018) },
+      { account_id: CUSTOMER_ACCOUNT_ID, operation_type: 'outreach', operation_id: 'out_a', metrics: cost(0.004) },
+      { account_id: TEST_ACCOUNT_ID, operation_type: 'analysis', operation_id: 'run_c', metrics: cost(0.5) }
+    ]);
+
+    const result = await admin(harness).listOperations(ADMIN, {
+      accountId: CUSTOMER_ACCOUNT_ID, page: 1, pageSize: 2
+    });
+
+    expect(result.entries).toHaveLength(2);
+    expect(result.total).toBe(3);
+    expect(result.summary).toEqual({
+      count: 3,
+      truncated: false,
+      total_usd: 0.034,
+      by_operation_type: {
+        analysis: { count: 2, total_usd: 0.03 },
+        outreach: { count: 1, total_usd: 0.004 }
+      }
+    });
+  });
+
+  it('issues read-only impersonation tokens for the account owner', async () => {
+    const harness = adminHarness();
+    const app = new Hono<{ Bindings: Env }>();
+    registerAdminRoutes(app);
+
+    const adminToken = await session(harness, { admin: true });
+    const response = await app.request(
+      `/api/admin/accounts/${CUSTOMER_ACCOUNT_ID}/impersonate`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Reproduce dashboard bug' })
+      },
+      harness.env
+    );
+
+    expect(response.status).toBe(201);
+    const { data } = await response.json() as { data: { accessToken: string } };
+    expect(data).toMatchObject({ accountId: CUSTOMER_ACCOUNT_ID, userId: CUSTOMER_OWNER_ID, role: 'viewer' });
+    expect(await new JWTService(harness.env).verify(data.accessToken)).toMatchObject({
+      userId: CUSTOMER_OWNER_ID,
+      accountId: CUSTOMER_ACCOUNT_ID,
+      role: 'viewer',
+      impersonatedBy: TEST_USER_ID
+    });
+    expect(harness.db.rows('admin_audit_log', { action: 'impersonation.start' })).toEqual([
+      expect.objectContaining({ account_id: CUSTOMER_ACCOUNT_ID, target_id: CUSTOMER_OWNER_ID, ip_address: null })
+    ]);
+
+    // Writes are refused before any route runs, admin routes included
+    const grant = await app.request(
+      `/api/admin/accounts/${CUSTOMER_ACCOUNT_ID}/credits`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${data.accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'grant', creditType: 'credits', amount: 100, reason: 'x' })
+      },
+      harness.env
+    );
+    expect(grant.status).toBe(403);
+    expect(await grant.json()).toMatchObject({ error: 'Impersonation is read-only' });
+    expect(harness.db.rows('balances', { account_id: CUSTOMER_ACCOUNT_ID })[0].credit_balance).toBe(10);
+  });
+});
@@ -0,0 +1,371 @@
+// tests/integration/analysis-workflow.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_SCORING_CONFIG } from '@/config/scoring.config';
+import { verifyBroadcast, BROADCAST_SIGNATURE_HEADER } from '@/infrastructure/auth/broadcast-signature.service';
+import { fakeAIGateway } from '../harness/fake-ai-gateway';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID
+} from '../harness/analysis-workflow.harness';
+
+vi.mock('@/infrastructure/ai/ai-gateway.client', async () => {
+  const { FakeAIGatewayClient } = await import('../harness/fake-ai-gateway');
+  return { AIGatewayClient: FakeAIGatewayClient };
+});
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+describe('AnalysisWorkflow', () => {
+  beforeEach(() => {
+    fakeAIGateway.reset();
+  });
+
+  describe('light analysis', () => {
+    it('scrapes, scores and stores a new lead', async () => {
+      const harness = new AnalysisWorkflowHarness({ webhookEvents: ['analysis.completed'] });
+      await harness.loadFixture('glowstudio.skincare');
+
+      const result = await harness.run({ username: 'glowstudio.skincare' });
+
+      expect(result).toMatchObject({ success: true, lead_id: harness.leads[0].id });
+      expect(harness.step.stepNames).toEqual([
+        'fetch_secrets',
+        'check_duplicate',
+        'setup_parallel',
+        'check_cache',
+        'scrape_profile',
+        'pre_analysis_checks',
+        'parallel_ai_analysis',
+        'upsert_lead',
+        'save_analysis',
+        'complete_progress',
+        'log_operations'
+      ]);
+
+      expect(harness.analysis).toMatchObject({
+        status: 'complete',
+        overall_score: 72,
+        ai_response: { score: 72 },
+        profile_snapshot: { follower_count: 24180, is_private: false }
+      });
+      expect(harness.leads).toHaveLength(1);
+      expect(harness.leads[0]).toMatchObject({
+        platform: 'instagram',
+        username: 'glowstudio.skincare',
+        follower_count: 24180,
+        profile_url: 'https://instagram.com/glowstudio.skincare'
+      });
+
+      // Light runs only the profile assessment prompt
+      expect(fakeAIGateway.calls.map(call => call.name)).toEqual(['light_analysis']);
+
+      expect(harness.balance('light_analyses_balance')).toBe(19);
+      // deduct_light_analyses doesn't record who spent
+      expect(harness.ledger).toEqual([
+        expect.objectContaining({ amount: -1, transaction_type: 'analysis', created_by: null })
+      ]);
+
+      expect(harness.db.rows('operations_ledger')[0]).toMatchObject({
+        operation_type: 'analysis',
+        operation_id: result.run_id,
+        metrics: {
+          // Recorded fixtures aren't an Apify actor, so the scrape is free
+          cost: { items: { scraping: { actor: 'fixture_instagram', usd: 0, cached: false } } },
+          duration: { steps: { cache_hit: false } }
+        }
+      });
+      expect(harness.webhookEvents).toEqual(['analysis.completed']);
+      expect(harness.broadcasts.at(-1)).toMatchObject({ type: 'analysis.complete', data: { progress: 100 } });
+    });
+
+    it('caches the scraped profile for the next run', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.loadFixture('glowstudio.skincare');
+
+      await harness.run({ username: 'glowstudio.skincare' });
+
+      const cacheKeys = [...harness.bindings.cacheBucket.objects.keys()];
+      expect(cacheKeys).toContain('instagram:glowstudio.skincare:v1');
+    });
+
+    it('publishes signed progress events to the account broadcaster', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.loadFixture('glowstudio.skincare');
+
+      await harness.run({ username: 'glowstudio.skincare' });
+
+      const requests = harness.bindings.broadcaster.requests;
+      expect(requests.length).toBeGreaterThan(1);
+      expect(requests.every(request => request.name === TEST_ACCOUNT_ID)).toBe(true);
+
+      // Each event verifies once against the shared secret (mocked getSecret value)
+      const seen = new Set<string>();
+      const nonces = { claim: async (nonce: string) => !seen.has(nonce) && !!seen.add(nonce) };
+      for (const request of requests) {
+        const header = request.headers.get(BROADCAST_SIGNATURE_HEADER);
+        const body = JSON.stringify(request.body);
+        await expect(verifyBroadcast('test-internal_broadcast_secret', header, body, nonces)).resolves.toMatchObject({ valid: true });
+        await expect(verifyBroadcast('test-internal_broadcast_secret', header, body, nonces)).resolves.toMatchObject({ reason: 'replayed' });
+      }
+    });
+
+    it('pushes balance and lead updates to the account broadcaster', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.loadFixture('glowstudio.skincare');
+
+      await harness.run({ username: 'glowstudio.skincare' });
+
+      const types = harness.broadcasts.map(broadcast => broadcast.type);
+      expect(types.indexOf('credits.updated')).toBeLessThan(types.indexOf('lead.updated'));
+      expect(types.slice(-2)).toEqual(['lead.updated', 'analysis.complete']);
+
+      expect(harness.broadcasts.find(broadcast => broadcast.type === 'credits.updated')).toMatchObject({
+        data: { light_analyses_balance: 19, credit_balance: 20, reason: 'analysis' }
+      });
+      expect(harness.broadcasts.find(broadcast => broadcast.type === 'lead.updated')).toMatchObject({
+        data: {
+          lead_id: harness.leads[0].id,
+          business_profile_id: TEST_BUSINESS_ID,
+          username: 'glowstudio.skincare',
+          analysis_id: harness.analysis.id
+        }
+      });
+    });
+  });
+
+  describe('deep analysis', () => {
+    it('runs extraction, niche detection and lead qualification', async () => {
+      const harness = new AnalysisWorkflowHarness({ webhookEvents: ['analysis.completed', 'lead.hot_detected'] });
+      await harness.loadFixture('glowstudio.skincare');
+
+      await harness.run({ username: 'glowstudio.skincare', analysis_type: 'deep' });
+
+      expect(harness.step.stepNames).toEqual(expect.arrayContaining(['extract_data', 'detect_niche']));
+      expect(fakeAIGateway.calls.map(call => call.name).sort()).toEqual([
+        'deep_analysis',
+        'submit_lead_analysis',
+        'submit_niche_detection'
+      ]);
+
+      // Weighted score: 88 fit rating * 50% + pre-calculated readiness/engagement/authority
+      const { scoring } = harness.analysis.ai_response;
+      expect(scoring.profileFitScore).toBe(44);
+      expect(scoring.overallScore).toBe(Math.round(
+        scoring.profileFitScore + scoring.readinessScore + scoring.partnerEngagementScore + scoring.authorityScore
+      ));
+
+      expect(harness.analysis).toMatchObject({
+        status: 'complete',
+        overall_score: 68,
+        niche: 'skincare studio',
+        // The AI picked 'hot'; the stored tier follows the score and thresholds
+        ai_response: { score: 68, leadTier: 'warm', niche: 'skincare studio' },
+        model_versions: { profile_assessment: 'gpt-5', lead_qualification: 'gpt-5' },
+        scoring_config: DEFAULT_SCORING_CONFIG
+      });
+      expect(harness.analysis.extracted_data.metadata.sampleSize).toBe(12);
+      expect(harness.analysis.extracted_data.calculated.leadTier).toBe('warm');
+
+      expect(harness.balance('credit_balance')).toBe(19);
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+      expect(harness.webhookEvents).toEqual(['analysis.completed']);
+    });
+
+    it('scores with the business scoring weights and tier thresholds', async () => {
+      const scoringConfig = {
+        version: 3,
+        weights: { profileFit: 70, readiness: 10, partnerEngagement: 15, authority: 5 },
+        thresholds: { hot: 65, warm: 50, cool: 30 }
+      };
+      const harness = new AnalysisWorkflowHarness({ scoringConfig, webhookEvents: ['lead.hot_detected'] });
+      await harness.loadFixture('glowstudio.skincare');
+
+      await harness.run({ username: 'glowstudio.skincare', analysis_type: 'deep' });
+
+      const { calculated } = harness.analysis.extracted_data;
+      const { scoring } = harness.analysis.ai_response;
+      expect(scoring.profileFitScore).toBeCloseTo(61.6);
+      expect(calculated.readinessScore).toBeLessThanOrEqual(10);
+      expect(calculated.authorityScore).toBeLessThanOrEqual(5);
+      expect(scoring.readinessScore).toBe(calculated.readinessScore);
+
+      expect(harness.analysis.overall_score).toBe(scoring.overallScore);
+      expect(harness.analysis.overall_score).toBeGreaterThanOrEqual(65);
+      expect(calculated.leadTier).toBe('hot');
+      expect(harness.analysis.scoring_config).toEqual(scoringConfig);
+      expect(harness.webhookEvents).toEqual(['lead.hot_detected']);
+    });
+  });
+
+  describe('cached profile', () => {
+    it('skips scraping when the R2 cache has the profile', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.primeProfileCache('glowstudio.skincare');
+      // No fixture loaded: a scrape would come back not_found and bypass
+
+      const result = await harness.run({ username: 'glowstudio.skincare' });
+
+      expect(result.bypassed).toBeUndefined();
+      expect(harness.step.stepNames).not.toContain('scrape_profile');
+      expect(harness.analysis).toMatchObject({ status: 'complete', overall_score: 72 });
+      expect(harness.db.rows('operations_ledger')[0].metrics.duration.steps).toMatchObject({ cache_hit: true });
+      expect(harness.db.rows('operations_ledger')[0].metrics.cost.items.scraping).toMatchObject({ actor: null, usd: 0 });
+    });
+  });
+
+  describe('bypassed profiles', () => {
+    it('refunds and records a private profile without calling the AI', async () => {
+      const harness = new AnalysisWorkflowHarness({ webhookEvents: ['analysis.completed'] });
+      await harness.loadFixture('quiet.closefriends');
+
+      const result = await harness.run({ username: 'quiet.closefriends' });
+
+      expect(result).toMatchObject({ success: true, bypassed: true, bypass_reason: 'private' });
+      expect(fakeAIGateway.calls).toHaveLength(0);
+      expect(harness.step.stepNames).toEqual(expect.arrayContaining([
+        'refund_for_bypass',
+        'upsert_bypass_lead',
+        'save_bypass_analysis'
+      ]));
+
+      expect(harness.analysis).toMatchObject({
+        status: 'complete',
+        analysis_type: 'private',
+        overall_score: 0,
+        ai_response: { bypassed: true, bypass_check: 'private_profile' }
+      });
+      expect(harness.leads[0]).toMatchObject({ username: 'quiet.closefriends', is_private: true });
+
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+      expect(harness.ledger.map(entry => [entry.transaction_type, entry.amount])).toEqual([
+        ['analysis', -1],
+        ['refund', 1]
+      ]);
+      expect(harness.webhookEvents).toEqual(['analysis.completed']);
+    });
+
+    it('refunds a profile the actor reports as not found, without creating a lead', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.loadFixture('ghost.handle');
+
+      const result = await harness.run({ username: 'ghost.handle' });
+
+      expect(result).toMatchObject({ bypassed: true, bypass_reason: 'not_found', lead_id: null });
+      expect(harness.step.stepNames).not.toContain('upsert_bypass_lead');
+      expect(harness.leads).toHaveLength(0);
+      expect(harness.analysis).toMatchObject({ status: 'complete', analysis_type: 'not_found' });
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+    });
+
+    it('refunds a profile outside the business ICP follower range', async () => {
+      const harness = new AnalysisWorkflowHarness({ icp: { min: 1000, max: 250000 } });
+      await harness.loadFixture('megabrand');
+
+      const result = await harness.run({ username: 'megabrand' });
+
+      expect(result).toMatchObject({ bypassed: true, bypass_reason: 'icp_violation' });
+      expect(fakeAIGateway.calls).toHaveLength(0);
+      expect(harness.analysis).toMatchObject({
+        status: 'complete',
+        analysis_type: 'icp_violation',
+        ai_response: { bypass_check: 'icp_follower_limit' }
+      });
+      expect(harness.analysis.ai_response.bypass_reason).toContain('exceeds ICP maximum');
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+    });
+
+    it('analyzes the same profile when the ICP range allows it', async () => {
+      const harness = new AnalysisWorkflowHarness({ icp: { min: 1000, max: null } });
+      await harness.loadFixture('megabrand');
+
+      const result = await harness.run({ username: 'megabrand' });
+
+      expect(result.bypassed).toBeUndefined();
+      expect(harness.analysis.status).toBe('complete');
+      expect(harness.balance('light_analyses_balance')).toBe(19);
+    });
+
+    it('refunds a profile that fails the business ICP rules', async () => {
+      const harness = new AnalysisWorkflowHarness({
+        icpRules: [
+          { type: 'business_account' },
+          { type: 'location', locations: ['Miami'] }
+        ]
+      });
+      await harness.loadFixture('glowstudio.skincare');
+
+      const result = await harness.run({ username: 'glowstudio.skincare' });
+
+      expect(result).toMatchObject({ bypassed: true, bypass_reason: 'icp_violation' });
+      expect(fakeAIGateway.calls).toHaveLength(0);
+      expect(harness.analysis).toMatchObject({
+        status: 'complete',
+        analysis_type: 'icp_violation',
+        ai_response: { bypass_check: 'icp_rules' }
+      });
+      expect(harness.analysis.ai_response.bypass_reason).toBe('Posts are tagged outside Miami');
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+    });
+  });
+
+  describe('failures', () => {
+    it('refunds and marks the analysis failed when the AI call fails', async () => {
+      const harness = new AnalysisWorkflowHarness({ webhookEvents: ['analysis.failed'] });
+      await harness.loadFixture('glowstudio.skincare');
+      fakeAIGateway.fail('light_analysis', 'Gateway timeout');
+
+      await expect(harness.run({ username: 'glowstudio.skincare' })).rejects.toThrow('Gateway timeout');
+
+      // Step retry policy: 1 retry on the AI step
+      expect(harness.step.get('parallel_ai_analysis')).toMatchObject({ status: 'failed', attempts: 2 });
+      expect(fakeAIGateway.callsFor('light_analysis')).toHaveLength(2);
+
+      expect(harness.step.stepNames).toContain('refund_balance');
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+      expect(harness.broadcasts.filter(broadcast => broadcast.type === 'credits.updated').at(-1)).toMatchObject({
+        data: { light_analyses_balance: 20, reason: 'refund' }
+      });
+      expect(harness.ledger.at(-1)).toMatchObject({
+        transaction_type: 'refund',
+        amount: 1,
+        description: 'Analysis failed: Gateway timeout'
+      });
+
+      expect(harness.analysis).toMatchObject({ status: 'failed', error_message: 'Gateway timeout' });
+      expect(harness.leads).toHaveLength(0);
+      expect(harness.webhookEvents).toEqual(['analysis.failed']);
+      expect(harness.broadcasts.at(-1)).toMatchObject({ type: 'analysis.failed' });
+    });
+
+    it('does not refund a run that was never charged', async () => {
+      const harness = new AnalysisWorkflowHarness({ balances: { light_analyses_balance: 0 } });
+      await harness.loadFixture('glowstudio.skincare');
+
+      await expect(harness.run({ username: 'glowstudio.skincare' })).rejects.toThrow('Insufficient light analyses balance');
+
+      expect(harness.step.stepNames).not.toContain('refund_balance');
+      expect(harness.balance('light_analyses_balance')).toBe(0);
+      expect(harness.ledger).toHaveLength(0);
+      expect(harness.analysis.status).toBe('failed');
+    });
+
+    it('rejects a duplicate run while another analysis of the lead is in progress', async () => {
+      const harness = new AnalysisWorkflowHarness();
+      await harness.loadFixture('glowstudio.skincare');
+      const [lead] = harness.db.insertRows('leads', [{
+        account_id: TEST_ACCOUNT_ID,
+        business_profile_id: TEST_BUSINESS_ID,
+        platform: 'instagram',
+        username: 'glowstudio.skincare'
+      }]);
+      harness.db.insertRows('lead_analyses', [{ lead_id: lead.id, run_id: 'run-in-flight', status: 'processing' }]);
+
+      await expect(harness.run({ username: 'glowstudio.skincare' })).rejects.toThrow('Analysis already in progress');
+      expect(harness.balance('light_analyses_balance')).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// tests/integration/balance-reconciliation.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { Env } from '@/shared/types/env.types';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+import { BalanceReconciliationService } from '@/features/reconciliation/reconciliation.service';
+import { registerReconciliationRoutes } from '@/features/reconciliation/reconciliation.routes';
+import { JWTService } from '@/infrastructure/auth/jwt.service';
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+/** Harness account whose seeded balances are backed by opening ledger entries */
+function ledgeredHarness(): AnalysisWorkflowHarness {
+  const harness = new AnalysisWorkflowHarness({ balances: { credit_balance: 20, light_analyses_balance: 20 } });
+  harness.db.insertRows('credit_ledger', ['credit_balance', 'light_analyses_balance'].map(column => ({
+    account_id: TEST_ACCOUNT_ID,
+    amount: 20,
+    balance_after: 20,
+    credit_type: column,
+    transaction_type: 'signup_bonus',
+    description: 'Opening balance',
+    created_by: null
+  })));
+  return harness;
+}
+
+function reconciler(harness: AnalysisWorkflowHarness): BalanceReconciliationService {
+  return new BalanceReconciliationService(harness.env, harness.db.asClient());
+}
+
+describe('Balance reconciliation', () => {
+  it('reports balances that no longer match the ledger, once per account and column', async () => {
+    const harness = ledgeredHarness();
+    await new CreditsRepository(harness.db.asClient()).deductCredits(TEST_ACCOUNT_ID, 5, 'analysis', 'Deep analysis');
+    // Unledgered write, like the old direct renewal updates
+    harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0].light_analyses_balance = 35;
+
+    const first = await reconciler(harness).reconcile();
+    const second = await reconciler(harness).reconcile();
+
+    expect(first).toEqual({ accountsChecked: 1, driftCount: 1, newDriftCount: 1, clearedCount: 0, totalAbsoluteDrift: 15 });
+    expect(second).toMatchObject({ driftCount: 1, newDriftCount: 0 });
+    expect(harness.db.rows('balance_drift_reports')).toEqual([
+      expect.objectContaining({
+        account_id: TEST_ACCOUNT_ID,
+        balance_column: 'light_analyses_balance',
+        balance: 35,
+        ledger_balance: 20,
+        drift: 15,
+        status: 'open'
+      })
+    ]);
+  });
+
+  it('keeps plan resets reconcilable by writing them to the ledger', async () => {
+    const harness = ledgeredHarness();
+
+    await new CreditsRepository(harness.db.asClient()).resetBalances(
+      TEST_ACCOUNT_ID,
+      { credits: 100, light_analyses: 5 },
+      'subscription_renewal',
+      'Monthly renewal (pro)'
+    );
+
+    expect(harness.balance('credit_balance')).toBe(100);
+    expect(harness.balance('light_analyses_balance')).toBe(5);
+    expect(harness.ledger.slice(-2).map(entry => [entry.credit_type, entry.amount])).toEqual([
+      ['credit_balance', 80],
+      ['light_analyses_balance', -15]
+    ]);
+    // Read, delta and write happen in one locked call
+    expect(harness.db.rpcCalls.map(call => call.fn)).toEqual(['reset_credit_balances']);
+    expect(await reconciler(harness).reconcile()).toMatchObject({ driftCount: 0, newDriftCount: 0 });
+  });
+
+  it('sets the balance to the ledger total and records the correction', async () => {
+    const harness = ledgeredHarness();
+    harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0].credit_balance = 26;
+    await reconciler(harness).reconcile();
+    const [report] = harness.db.rows('balance_drift_reports');
+
+    const result = await reconciler(harness).applyCorrection(report.id, {
+      resolution: 'match_ledger',
+      note: 'Manual DB edit'
+    }, 'support@oslira.com');
+
+    expect(harness.balance('credit_balance')).toBe(20);
+    expect(result.report).toMatchObject({ status: 'applied', resolution: 'match_ledger', resolved_by: 'support@oslira.com' });
+    expect(harness.db.rows('balance_corrections')).toEqual([
+      expect.objectContaining({
+        report_id: report.id,
+        action: 'match_ledger',
+        balance_before: 26,
+        balance_after: 20,
+        ledger_before: 20,
+        ledger_after: 20,
+        actor: 'support@oslira.com'
+      })
+    ]);
+    expect(harness.broadcasts.at(-1)).toMatchObject({ type: 'credits.updated', data: { credit_balance: 20, reason: 'adjustment' } });
+
+    // Claimed: a second admin can't apply the same report again
+    await expect(reconciler(harness).applyCorrection(report.id, { resolution: 'match_ledger' }, 'other@oslira.com'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'REPORT_CLOSED' });
+  });
+
+  it('adds a ledger entry when the balance is right', async () => {
+    const harness = ledgeredHarness();
+    harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0].light_analyses_balance = 12;
+    await reconciler(harness).reconcile();
+    const [report] = harness.db.rows('balance_drift_reports');
+
+    await reconciler(harness).applyCorrection(report.id, { resolution: 'adjust_ledger' }, 'support@oslira.com');
+
+    expect(harness.balance('light_analyses_balance')).toBe(12);
+    expect(harness.ledger.at(-1)).toMatchObject({
+      amount: -8,
+      balance_after: 12,
+      credit_type: 'light_analyses_balance',
+      transaction_type: 'reconciliation_adjustment',
+      reference_id: report.id
+    });
+    expect(await reconciler(harness).reconcile()).toMatchObject({ driftCount: 0 });
+  });
+
+  it('refuses a stale correction and leaves the report open', async () => {
+    const harness = ledgeredHarness();
+    const balances = harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0];
+    balances.credit_balance = 26;
+    await reconciler(harness).reconcile();
+    const [report] = harness.db.rows('balance_drift_reports');
+    balances.credit_balance = 30;
+
+    await expect(reconciler(harness).applyCorrection(report.id, { resolution: 'match_ledger' }, 'support@oslira.com'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DRIFT_CHANGED' });
+
+    expect(harness.balance('credit_balance')).toBe(30);
+    expect(harness.db.rows('balance_drift_reports')[0]).toMatchObject({ status: 'open', resolved_by: null });
+    expect(harness.db.rows('balance_corrections')).toHaveLength(0);
+  });
+
+  it('clears reports whose drift went away and records dismissals', async () => {
+    const harness = ledgeredHarness();
+    const balances = harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0];
+    balances.credit_balance = 21;
+    balances.light_analyses_balance = 19;
+    await reconciler(harness).reconcile();
+    const [creditReport, lightReport] = harness.db.rows('balance_drift_reports');
+
+    await reconciler(harness).dismissReport(lightReport.id, { note: 'Goodwill credit' }, 'support@oslira.com');
+    balances.credit_balance = 20;
+    const summary = await reconciler(harness).reconcile();
+
+    expect(summary).toMatchObject({ driftCount: 0, clearedCount: 1 });
+    expect(harness.db.rows('balance_drift_reports', { id: creditReport.id })[0].status).toBe('cleared');
+    expect(harness.db.rows('balance_corrections')).toEqual([
+      expect.objectContaining({ report_id: lightReport.id, action: 'dismiss', note: 'Goodwill credit' })
+    ]);
+  });
+
+  it('requires an admin session on the review routes', async () => {
+    const harness = ledgeredHarness();
+    const app = new Hono<{ Bindings: Env }>();
+    registerReconciliationRoutes(app);
+
+    const session = (admin: boolean) => new JWTService(harness.env).sign({
+      userId: TEST_USER_ID,
+      accountId: TEST_ACCOUNT_ID,
+      email: 'support@oslira.com',
+      onboardingCompleted: true,
+      role: 'owner',
+      admin
+    });
+    const request = (token?: string) => app.request(
+      '/api/admin/reconciliation/drift',
+      { headers: token ? { Authorization: `Bearer ${token}` } : {} },
+      harness.env
+    );
+
+    expect((await request()).status).toBe(401);
+    expect((await request(await session(false))).status).toBe(403);
+
+    const response = await request(await session(true));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, data: [] });
+  });
+});
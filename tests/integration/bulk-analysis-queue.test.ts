@@ -0,0 +1,72 @@
+// tests/integration/bulk-analysis-queue.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import type { MessageBatch } from '@cloudflare/workers-types';
+import type { BulkAnalysisQueueMessage } from '@/shared/types/env.types';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID,
+  TEST_USER_ID
+} from '../harness/analysis-workflow.harness';
+import { handleBulkAnalysisQueue } from '@/infrastructure/queues/bulk-analysis.consumer';
+
+function chunkMessage(attempts: number) {
+  return {
+    body: {
+      batch_id: 'batch-chunk-2',
+      import_id: 'import-0001',
+      chunk_index: 1,
+      account_id: TEST_ACCOUNT_ID,
+      business_profile_id: TEST_BUSINESS_ID,
+      analysis_type: 'light',
+      usernames: ['nike', 'adidas'],
+      requested_at: new Date().toISOString(),
+      requested_by: TEST_USER_ID
+    } as BulkAnalysisQueueMessage,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn()
+  };
+}
+
+async function consume(harness: AnalysisWorkflowHarness, message: ReturnType<typeof chunkMessage>) {
+  const batch = { messages: [message] } as unknown as MessageBatch<BulkAnalysisQueueMessage>;
+  await handleBulkAnalysisQueue(batch, harness.env);
+}
+
+describe('Bulk analysis queue consumer', () => {
+  it('records a chunk the balance no longer covers as a failed batch instead of retrying', async () => {
+    const harness = new AnalysisWorkflowHarness({ balances: { light_analyses_balance: 1 } });
+    const message = chunkMessage(1);
+
+    await consume(harness, message);
+
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(message.ack).toHaveBeenCalledTimes(1);
+
+    const [init] = harness.bindings.bulkBatches.requests;
+    expect(init.name).toBe('batch-chunk-2');
+    expect(init.url).toBe('http://do/init');
+    expect(init.body).toMatchObject({
+      import_id: 'import-0001',
+      usernames: ['nike', 'adidas'],
+      reservation_id: null
+    });
+    expect(init.body.failure_reason).toContain('Insufficient');
+    expect(harness.balance('light_analyses_balance')).toBe(1);
+  });
+
+  it('leaves the chunk to the dead letter queue when the failure cannot be recorded', async () => {
+    const harness = new AnalysisWorkflowHarness({ balances: { light_analyses_balance: 0 } });
+    vi.spyOn(harness.bindings.bulkBatches, 'get').mockReturnValue({
+      fetch: async () => new Response('unavailable', { status: 503 })
+    });
+    const message = chunkMessage(3);
+
+    await consume(harness, message);
+
+    expect(message.ack).not.toHaveBeenCalled();
+    expect(message.retry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,77 @@
+// tests/integration/credit-reservations.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeAIGateway } from '../harness/fake-ai-gateway';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { CreditsRepository } from '@/infrastructure/database/repositories/credits.repository';
+
+vi.mock('@/infrastructure/ai/ai-gateway.client', async () => {
+  const { FakeAIGatewayClient } = await import('../harness/fake-ai-gateway');
+  return { AIGatewayClient: FakeAIGatewayClient };
+});
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+describe('Credit reservations', () => {
+  beforeEach(() => {
+    fakeAIGateway.reset();
+  });
+
+  it('reserves nothing when the balance cannot cover the hold', async () => {
+    const harness = new AnalysisWorkflowHarness({ balances: { light_analyses_balance: 2 } });
+    const repo = new CreditsRepository(harness.db.asClient());
+
+    await expect(repo.reserveForAnalysis(TEST_ACCOUNT_ID, 'light', 3, 'batch_a', 'Bulk hold'))
+      .rejects.toThrow('Insufficient light analyses balance to reserve 3');
+
+    expect(harness.db.rows('credit_reservations')).toHaveLength(0);
+    expect(harness.balance('light_analyses_balance')).toBe(2);
+    expect(harness.ledger).toHaveLength(0);
+  });
+
+  it('releases and refunds a hold in one step, then rejects the settled reservation', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    const repo = new CreditsRepository(harness.db.asClient());
+
+    const reservation = await repo.reserveForAnalysis(TEST_ACCOUNT_ID, 'light', 5, 'batch_b', 'Bulk hold', TEST_USER_ID);
+    expect(harness.balance('light_analyses_balance')).toBe(15);
+    expect(await repo.reserveForAnalysis(TEST_ACCOUNT_ID, 'light', 5, 'batch_b', 'Bulk hold')).toMatchObject({ id: reservation.id });
+
+    await repo.chargeReservation(reservation.id, 2);
+    expect(await repo.releaseReservation(reservation.id, 'Skipped item', 1)).toBe(1);
+    expect(await repo.releaseReservation(reservation.id, 'Batch complete')).toBe(2);
+
+    expect(harness.balance('light_analyses_balance')).toBe(18);
+    expect(harness.ledger.map(entry => [entry.transaction_type, entry.amount])).toEqual([
+      ['reservation', -5],
+      ['reservation_release', 1],
+      ['reservation_release', 2]
+    ]);
+
+    await expect(repo.releaseReservation(reservation.id, 'Again')).rejects.toMatchObject({
+      message: expect.stringContaining('already settled')
+    });
+    await expect(repo.reserveForAnalysis(TEST_ACCOUNT_ID, 'light', 5, 'batch_b', 'Bulk hold'))
+      .rejects.toThrow('already settled');
+    expect(harness.balance('light_analyses_balance')).toBe(18);
+  });
+
+  it('fails a bulk run whose share of the hold cannot be charged', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    await harness.loadFixture('glowstudio.skincare');
+    const repo = new CreditsRepository(harness.db.asClient());
+
+    // Batch already settled: nothing left to charge
+    const reservation = await repo.reserveForAnalysis(TEST_ACCOUNT_ID, 'light', 1, 'batch_c', 'Bulk hold');
+    await repo.releaseReservation(reservation.id, 'Batch cancelled');
+
+    await expect(harness.run({ username: 'glowstudio.skincare', reservation_id: reservation.id }))
+      .rejects.toThrow('already settled');
+
+    expect(harness.step.get('charge_reservation')).toMatchObject({ status: 'failed', attempts: 4 });
+    expect(harness.analysis.status).toBe('failed');
+    expect(harness.balance('light_analyses_balance')).toBe(20);
+  });
+});
@@ -0,0 +1,75 @@
+// tests/integration/discovery.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeAIGateway } from '../harness/fake-ai-gateway';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID
+} from '../harness/analysis-workflow.harness';
+import { LookalikeDiscoveryService } from '@/features/discovery/discovery.service';
+
+vi.mock('@/infrastructure/ai/ai-gateway.client', async () => {
+  const { FakeAIGatewayClient } = await import('../harness/fake-ai-gateway');
+  return { AIGatewayClient: FakeAIGatewayClient };
+});
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+describe('Lookalike discovery', () => {
+  beforeEach(() => {
+    fakeAIGateway.reset();
+  });
+
+  it('ranks accounts mentioned by the top leads and skips existing leads', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    await harness.loadFixture('glowstudio.skincare');
+    await harness.run({ username: 'glowstudio.skincare', analysis_type: 'deep' });
+    // The analyze handler links the pending analysis to its lead; the harness doesn't
+    harness.analysis.lead_id = harness.leads[0].id;
+
+    harness.db.table('leads').push({
+      ...harness.leads[0],
+      id: 'lead-existing-0001',
+      username: 'mia.reyes'
+    });
+
+    const service = new LookalikeDiscoveryService(harness.db.asClient());
+    const result = await service.discover(TEST_ACCOUNT_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      seedCount: 20,
+      limit: 50
+    });
+
+    expect(result.seeds).toEqual([{
+      lead_id: harness.leads[0].id,
+      username: 'glowstudio.skincare',
+      overall_score: 68
+    }]);
+    expect(result.candidates).toEqual([
+      expect.objectContaining({ username: 'bloom.botanicals', seed_count: 1, mention_count: 1, score: 0.68 }),
+      expect.objectContaining({ username: 'dana.esthetics', seed_count: 1, referenced_by: ['glowstudio.skincare'] })
+    ]);
+    expect(result.usernames).toEqual(['bloom.botanicals', 'dana.esthetics']);
+    expect(result.hashtags[0]).toMatchObject({ hashtag: 'skincare', seed_count: 1 });
+  });
+
+  it('returns nothing below the minimum seed score', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    await harness.loadFixture('glowstudio.skincare');
+    await harness.run({ username: 'glowstudio.skincare', analysis_type: 'deep' });
+    harness.analysis.lead_id = harness.leads[0].id;
+
+    const service = new LookalikeDiscoveryService(harness.db.asClient());
+    const result = await service.discover(TEST_ACCOUNT_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      seedCount: 20,
+      minScore: 80,
+      limit: 50
+    });
+
+    expect(result).toEqual({ seeds: [], candidates: [], hashtags: [], usernames: [] });
+  });
+});
@@ -0,0 +1,76 @@
+// tests/integration/icp-rules.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeAIGateway } from '../harness/fake-ai-gateway';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID
+} from '../harness/analysis-workflow.harness';
+import { BusinessService } from '@/features/business/business.service';
+
+vi.mock('@/infrastructure/ai/ai-gateway.client', async () => {
+  const { FakeAIGatewayClient } = await import('../harness/fake-ai-gateway');
+  return { AIGatewayClient: FakeAIGatewayClient };
+});
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+describe('ICP rules dry run', () => {
+  beforeEach(() => {
+    fakeAIGateway.reset();
+  });
+
+  it('evaluates rules against stored leads without changing them', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    await harness.loadFixture('glowstudio.skincare');
+    await harness.run({ username: 'glowstudio.skincare' });
+    // The analyze handler links the pending analysis to its lead; the harness doesn't
+    harness.analysis.lead_id = harness.leads[0].id;
+
+    const service = new BusinessService(harness.db.asClient());
+    const result = await service.dryRunICPRules(TEST_ACCOUNT_ID, {
+      profileId: TEST_BUSINESS_ID,
+      rules: [
+        { type: 'business_account' },
+        { type: 'bio_keywords', keywords: ['lash', 'brow'], match: 'any' },
+        { type: 'location', locations: ['Miami'] }
+      ],
+      limit: 200
+    });
+
+    expect(result.summary).toEqual({
+      leads_checked: 1,
+      leads_passed: 0,
+      leads_failed: 1,
+      by_rule: [
+        { type: 'business_account', failed: 0, unknown: 0 },
+        { type: 'bio_keywords', failed: 1, unknown: 0 },
+        // Post location tags aren't stored, and the bio alone can't fail the rule
+        { type: 'location', failed: 0, unknown: 1 }
+      ]
+    });
+    expect(result.leads).toEqual([expect.objectContaining({
+      username: 'glowstudio.skincare',
+      passed: false,
+      analyzed: true
+    })]);
+    expect(harness.analysis.overall_score).toBe(72);
+  });
+
+  it('uses the saved rules and rejects a profile without any', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    const service = new BusinessService(harness.db.asClient());
+
+    await expect(service.dryRunICPRules(TEST_ACCOUNT_ID, { profileId: TEST_BUSINESS_ID, limit: 200 }))
+      .rejects.toThrow('No ICP rules configured');
+
+    harness.db.rows('business_profiles', { id: TEST_BUSINESS_ID })[0].icp_rules = [{ type: 'business_account' }];
+    const result = await service.dryRunICPRules(TEST_ACCOUNT_ID, { profileId: TEST_BUSINESS_ID, limit: 200 });
+
+    expect(result.rules).toEqual([{ type: 'business_account' }]);
+    expect(result.summary.leads_checked).toBe(0);
+  });
+});
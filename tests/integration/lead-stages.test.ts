@@ -0,0 +1,24 @@
+// tests/integration/lead-stages.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { LeadsService } from '@/features/leads/leads.service';
+
+const LEAD_ID = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e';
+const OUTSIDER_ID = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+
+describe('Lead stages', () => {
+  it('only assigns leads to members of the account', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    harness.db.insertRows('accounts', [{ id: TEST_ACCOUNT_ID, owner_id: TEST_USER_ID }]);
+    harness.db.insertRows('leads', [{ id: LEAD_ID, account_id: TEST_ACCOUNT_ID, pipeline_stage: 'new', pipeline_owner_id: null }]);
+
+    await expect(new LeadsService(harness.db.asClient()).updateLeadStage(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      leadId: LEAD_ID,
+      stage: 'contacted',
+      ownerId: OUTSIDER_ID
+    })).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_OWNER' });
+
+    expect(harness.db.rpcCalls.map(call => call.fn)).not.toContain('update_lead_stage');
+  });
+});
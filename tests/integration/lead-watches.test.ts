@@ -0,0 +1,86 @@
+// tests/integration/lead-watches.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Env } from '@/shared/types/env.types';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { WatchesService } from '@/features/watches/watches.service';
+import { WatchRunnerService } from '@/features/watches/watch-runner.service';
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+describe('Lead watches', () => {
+  it('rejects a filter watch on another account\'s business profile', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    harness.db.insertRows('business_profiles', [{ id: 'biz-other-0001', account_id: 'acct-other-0001' }]);
+    const service = new WatchesService(harness.db.asClient());
+
+    await expect(service.createWatch(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      businessProfileId: 'biz-other-0001',
+      filter: {},
+      cadence: 'weekly',
+      analysisType: 'light'
+    })).rejects.toMatchObject({ statusCode: 404, code: 'NOT_FOUND' });
+
+    expect(harness.db.rows('lead_watches')).toHaveLength(0);
+  });
+
+  it('records a failing lead and keeps checking the rest of the cycle', async () => {
+    const created: string[] = [];
+    const workflow = {
+      create: async ({ params }: { params: { username: string } }) => {
+        if (params.username === 'glowstudio.skincare') {
+          throw new Error('Workflow create failed');
+        }
+        created.push(params.username);
+      }
+    } as unknown as Env['ANALYSIS_WORKFLOW'];
+
+    const harness = new AnalysisWorkflowHarness({ envOverrides: { ANALYSIS_WORKFLOW: workflow } });
+    await harness.loadFixture('glowstudio.skincare');
+    await harness.loadFixture('megabrand');
+
+    // Saved filters are parsed with the lead list schema, which requires a UUID
+    const businessProfileId = '3f1c2a9e-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+    harness.db.insertRows('business_profiles', [{ id: businessProfileId, account_id: TEST_ACCOUNT_ID }]);
+
+    // Stored counts differ from the fixtures, so both leads count as changed
+    harness.db.insertRows('leads', ['glowstudio.skincare', 'megabrand'].map(username => ({
+      id: `lead-${username}`,
+      account_id: TEST_ACCOUNT_ID,
+      business_profile_id: businessProfileId,
+      platform: 'instagram',
+      username,
+      follower_count: 10,
+      following_count: 10,
+      post_count: 1,
+      is_private: false,
+      is_verified: false,
+      last_analyzed_at: null
+    })));
+    harness.db.insertRows('lead_watches', [{
+      id: 'watch-0001',
+      account_id: TEST_ACCOUNT_ID,
+      business_profile_id: businessProfileId,
+      lead_id: null,
+      filter: { sortBy: 'follower_count', sortOrder: 'asc' },
+      cadence: 'weekly',
+      analysis_type: 'light',
+      status: 'active',
+      next_run_at: new Date(Date.now() - 60_000).toISOString(),
+      last_run_at: null,
+      created_by: TEST_USER_ID
+    }]);
+
+    const result = await new WatchRunnerService(harness.env, harness.db.asClient()).runTick();
+
+    expect(result).toMatchObject({ checked: 2, failed: 1, queued: 1, cyclesCompleted: 1 });
+    expect(created).toEqual(['megabrand']);
+    expect(harness.db.rows('lead_watch_runs', { lead_id: 'lead-glowstudio.skincare' })[0]).toMatchObject({
+      status: 'failed',
+      error: 'Workflow create failed'
+    });
+    expect(harness.db.rows('lead_watches', { id: 'watch-0001' })[0].last_run_at).not.toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+// tests/integration/leads-export.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_BUSINESS_ID } from '../harness/analysis-workflow.harness';
+import { LeadsService } from '@/features/leads/leads.service';
+import { LeadListQueryFieldsSchema, type ListLeadsQuery } from '@/features/leads/leads.types';
+
+const DAY_1 = '2026-01-01T00:00:00.000Z';
+const DAY_2 = '2026-01-02T00:00:00.000Z';
+const DAY_3 = '2026-01-03T00:00:00.000Z';
+
+/** Leads with tied and missing sort values, so offset paging would be ambiguous */
+function seedLeads(harness: AnalysisWorkflowHarness): void {
+  const lastAnalyzed: Array<[string, string | null, number]> = [
+    ['lead-a', DAY_1, 500],
+    ['lead-b', DAY_1, 500],
+    ['lead-c', DAY_2, 900],
+    ['lead-d', null, 100],
+    ['lead-e', DAY_3, 500],
+    ['lead-f', null, 100],
+    ['lead-g', DAY_1, 300]
+  ];
+
+  harness.db.insertRows('leads', lastAnalyzed.map(([id, lastAnalyzedAt, followers]) => ({
+    id,
+    account_id: TEST_ACCOUNT_ID,
+    business_profile_id: TEST_BUSINESS_ID,
+    username: id.replace('-', '_'),
+    last_analyzed_at: lastAnalyzedAt,
+    follower_count: followers
+  })));
+}
+
+function exportQuery(overrides: Partial<ListLeadsQuery> = {}): ListLeadsQuery {
+  return {
+    ...LeadListQueryFieldsSchema.omit({ businessProfileId: true }).parse({}),
+    businessProfileId: TEST_BUSINESS_ID,
+    ...overrides
+  };
+}
+
+async function streamIds(
+  service: LeadsService,
+  query: ListLeadsQuery,
+  onChunk?: () => void
+): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const chunk of service.streamLeads(TEST_ACCOUNT_ID, query, 2)) {
+    ids.push(...chunk.map(lead => lead.id));
+    onChunk?.();
+  }
+  return ids;
+}
+
+describe('Lead export streaming', () => {
+  it('walks ties and nulls in sort order exactly once', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    seedLeads(harness);
+    const service = new LeadsService(harness.db.asClient());
+
+    // Descending puts leads never analyzed first, like Postgres
+    expect(await streamIds(service, exportQuery())).toEqual([
+      'lead-d', 'lead-f', 'lead-e', 'lead-c', 'lead-a', 'lead-b', 'lead-g'
+    ]);
+    expect(await streamIds(service, exportQuery({ sortOrder: 'asc' }))).toEqual([
+      'lead-a', 'lead-b', 'lead-g', 'lead-c', 'lead-e', 'lead-d', 'lead-f'
+    ]);
+    expect(await streamIds(service, exportQuery({ sortBy: 'follower_count' }))).toEqual([
+      'lead-c', 'lead-a', 'lead-b', 'lead-e', 'lead-g', 'lead-d', 'lead-f'
+    ]);
+  });
+
+  it('neither repeats nor skips leads when rows change mid-export', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    seedLeads(harness);
+    const service = new LeadsService(harness.db.asClient());
+    let chunks = 0;
+
+    const ids = await streamIds(service, exportQuery(), () => {
+      if (++chunks === 1) {
+        // A lead sorting before the cursor appears, one already exported is deleted
+        harness.db.insertRows('leads', [{
+          id: 'lead-0',
+          account_id: TEST_ACCOUNT_ID,
+          business_profile_id: TEST_BUSINESS_ID,
+          username: 'lead_0',
+          last_analyzed_at: null
+        }]);
+        harness.db.rows('leads', { id: 'lead-d' })[0].deleted_at = new Date().toISOString();
+      }
+    });
+
+    expect(ids).toEqual(['lead-d', 'lead-f', 'lead-e', 'lead-c', 'lead-a', 'lead-b', 'lead-g']);
+  });
+});
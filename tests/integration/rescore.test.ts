@@ -0,0 +1,204 @@
+// tests/integration/rescore.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeAIGateway } from '../harness/fake-ai-gateway';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID,
+  TEST_USER_ID
+} from '../harness/analysis-workflow.harness';
+import { RescoreService } from '@/features/rescore/rescore.service';
+import { RescoreRunnerService } from '@/features/rescore/rescore-runner.service';
+
+vi.mock('@/infrastructure/ai/ai-gateway.client', async () => {
+  const { FakeAIGatewayClient } = await import('../harness/fake-ai-gateway');
+  return { AIGatewayClient: FakeAIGatewayClient };
+});
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+/**
+ * Deep-analyze the fixture lead with default scoring (68, warm), then let the
+ * test change the business settings before re-scoring
+ */
+async function analyzedHarness(): Promise<AnalysisWorkflowHarness> {
+  const harness = new AnalysisWorkflowHarness();
+  await harness.loadFixture('glowstudio.skincare');
+  await harness.run({ username: 'glowstudio.skincare', analysis_type: 'deep' });
+  linkAnalysisToLead(harness);
+  fakeAIGateway.reset();
+  return harness;
+}
+
+/**
+ * The analyze handler creates the lead before dispatching and stores its id on
+ * the pending analysis; the harness only creates the analysis row
+ */
+function linkAnalysisToLead(harness: AnalysisWorkflowHarness): void {
+  harness.analysis.lead_id = harness.leads[0].id;
+}
+
+async function runJob(harness: AnalysisWorkflowHarness, rerunAiFit = false) {
+  const supabase = harness.db.asClient();
+  const job = await new RescoreService(harness.env, supabase).createJob(TEST_ACCOUNT_ID, TEST_USER_ID, {
+    businessProfileId: TEST_BUSINESS_ID,
+    rerunAiFit
+  });
+
+  const result = await new RescoreRunnerService(harness.env, supabase).processNextPage(job.id);
+
+  return {
+    result,
+    job: harness.db.rows('rescore_jobs', { id: job.id })[0],
+    changes: harness.db.rows('rescore_job_changes', { job_id: job.id })
+  };
+}
+
+describe('Re-score jobs', () => {
+  beforeEach(() => {
+    fakeAIGateway.reset();
+  });
+
+  it('re-scores stored analyses with new weights without AI calls', async () => {
+    const harness = await analyzedHarness();
+    const fitScore = harness.analysis.ai_response.scoring.profileFitScore;
+
+    const scoringConfig = {
+      version: 2,
+      weights: { profileFit: 70, readiness: 10, partnerEngagement: 15, authority: 5 },
+      thresholds: { hot: 65, warm: 50, cool: 30 }
+    };
+    harness.db.rows('business_profiles', { id: TEST_BUSINESS_ID })[0].scoring_config = scoringConfig;
+
+    const { result, job, changes } = await runJob(harness);
+
+    expect(result).toEqual({ done: true, processed: 1 });
+    expect(fakeAIGateway.calls).toEqual([]);
+    expect(harness.bindings.rescoreQueue.messages).toHaveLength(1);
+
+    // Stored 44/50 fit points are the 88 rating, rescaled to the 70-point weight
+    const { scoring } = harness.analysis.ai_response;
+    expect(fitScore).toBe(44);
+    expect(scoring.profileFitScore).toBeCloseTo(61.6);
+    expect(harness.analysis.overall_score).toBe(scoring.overallScore);
+    expect(harness.analysis.extracted_data.calculated.leadTier).toBe('hot');
+    expect(harness.analysis.ai_response.leadTier).toBe('hot');
+    expect(harness.analysis.scoring_config).toEqual(scoringConfig);
+
+    expect(job).toMatchObject({
+      status: 'complete',
+      cursor: harness.leads[0].id,
+      leads_rescored: 1,
+      leads_changed: 1,
+      leads_skipped: 0,
+      icp_failures: 0
+    });
+    expect(changes).toEqual([expect.objectContaining({
+      lead_id: harness.leads[0].id,
+      previous_score: 68,
+      new_score: scoring.overallScore,
+      previous_tier: 'warm',
+      new_tier: 'hot',
+      tier_changed: true,
+      icp_passed: true
+    })]);
+  });
+
+  it('re-rates fit with the AI step when requested and logs its cost', async () => {
+    const harness = await analyzedHarness();
+    fakeAIGateway.respond('submit_fit_rating', {
+      profileFitRating: 20,
+      fitReasoning: 'Business context now targets enterprise brands.'
+    });
+
+    const { job, changes } = await runJob(harness, true);
+
+    expect(fakeAIGateway.calls.map(call => [call.name, call.model])).toEqual([['submit_fit_rating', 'gpt-5-mini']]);
+    expect(harness.analysis.ai_response).toMatchObject({
+      scoring: { profileFitScore: 10 },
+      fitReasoning: 'Business context now targets enterprise brands.'
+    });
+    expect(changes[0]).toMatchObject({ previous_score: 68, score_delta: -34 });
+
+    // Free for the user, cost tracked internally
+    expect(harness.balance('credit_balance')).toBe(19);
+    expect(job.ai_cost_usd).toBe(0.0015);
+    expect(harness.db.rows('operations_ledger', { operation_type: 'rescore' })).toEqual([
+      expect.objectContaining({ operation_id: job.id, metrics: expect.objectContaining({ cost: expect.objectContaining({ total_usd: 0.0015 }) }) })
+    ]);
+  });
+
+  it('counts a redelivered page from the saved analyses without re-rating fit', async () => {
+    const harness = await analyzedHarness();
+    fakeAIGateway.respond('submit_fit_rating', { profileFitRating: 20, fitReasoning: 'Enterprise focus.' });
+
+    const { job } = await runJob(harness, true);
+    const scored = { ...harness.analysis.ai_response };
+
+    // The page was written but its job update was lost: the message comes back
+    Object.assign(harness.db.rows('rescore_jobs', { id: job.id })[0], {
+      status: 'running',
+      cursor: null,
+      leads_rescored: 0,
+      leads_changed: 0,
+      ai_cost_usd: 0
+    });
+    fakeAIGateway.reset();
+
+    const result = await new RescoreRunnerService(harness.env, harness.db.asClient()).processNextPage(job.id);
+
+    expect(result).toEqual({ done: true, processed: 1 });
+    expect(fakeAIGateway.calls).toEqual([]);
+    expect(harness.analysis.ai_response).toEqual(scored);
+    expect(harness.db.rows('rescore_jobs', { id: job.id })[0]).toMatchObject({
+      status: 'complete',
+      leads_rescored: 1,
+      leads_changed: 1
+    });
+    expect(harness.db.rows('operations_ledger', { operation_type: 'rescore' })).toHaveLength(1);
+  });
+
+  it('reports leads now outside the ICP follower range', async () => {
+    const harness = await analyzedHarness();
+    const business = harness.db.rows('business_profiles', { id: TEST_BUSINESS_ID })[0];
+    business.business_context = { ...business.business_context, icp_max_followers: 10000 };
+
+    const { job, changes } = await runJob(harness);
+
+    expect(job).toMatchObject({ icp_failures: 1, leads_changed: 1 });
+    expect(changes[0]).toMatchObject({
+      previous_score: 68,
+      new_score: 68,
+      tier_changed: false,
+      icp_passed: false,
+      icp_reason: expect.stringContaining('exceeds ICP maximum')
+    });
+    expect(harness.analysis.ai_response.icpViolation).toBe(changes[0].icp_reason);
+  });
+
+  it('skips leads with only a light analysis and rejects a second open job', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    await harness.loadFixture('glowstudio.skincare');
+    await harness.run({ username: 'glowstudio.skincare' });
+    linkAnalysisToLead(harness);
+
+    const supabase = harness.db.asClient();
+    const service = new RescoreService(harness.env, supabase);
+    const job = await service.createJob(TEST_ACCOUNT_ID, TEST_USER_ID, { businessProfileId: TEST_BUSINESS_ID, rerunAiFit: false });
+
+    await expect(service.createJob(TEST_ACCOUNT_ID, TEST_USER_ID, { businessProfileId: TEST_BUSINESS_ID, rerunAiFit: false }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'RESCORE_IN_PROGRESS' });
+
+    await new RescoreRunnerService(harness.env, supabase).processNextPage(job.id);
+
+    expect(harness.db.rows('rescore_jobs', { id: job.id })[0]).toMatchObject({
+      status: 'complete',
+      leads_rescored: 0,
+      leads_skipped: 1
+    });
+    expect(harness.analysis.overall_score).toBe(72);
+  });
+});
@@ -0,0 +1,218 @@
+// tests/integration/sourcing.test.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ProfileData } from '@/shared/types/profile.types';
+import {
+  AnalysisWorkflowHarness,
+  TEST_ACCOUNT_ID,
+  TEST_BUSINESS_ID,
+  TEST_USER_ID
+} from '../harness/analysis-workflow.harness';
+import { SourcingService } from '@/features/sourcing/sourcing.service';
+import { SourcingRunnerService } from '@/features/sourcing/sourcing-runner.service';
+
+/** What the fake Apify sourcing adapter returns */
+const source = vi.hoisted(() => ({
+  collected: [] as string[],
+  profiles: [] as ProfileData[],
+  collectCalls: [] as Array<{ sourceType: string; value: string; limit: number }>,
+  scrapeCalls: [] as string[][]
+}));
+
+vi.mock('@/infrastructure/scraping/apify-sourcing.adapter', () => ({
+  ApifySourcingAdapter: class {
+    async collectCandidates(sourceType: string, value: string, limit: number) {
+      source.collectCalls.push({ sourceType, value, limit });
+      return { usernames: source.collected, itemCount: source.collected.length };
+    }
+
+    async scrapeProfiles(usernames: string[]) {
+      source.scrapeCalls.push(usernames);
+      return source.profiles.filter(profile => usernames.includes(profile.username));
+    }
+  }
+}));
+
+vi.mock('@/infrastructure/config/secrets', () => ({
+  getSecret: async (name: string) => `test-${name.toLowerCase()}`
+}));
+
+function profile(username: string, overrides: Partial<ProfileData> = {}): ProfileData {
+  return {
+    username,
+    displayName: username,
+    bio: 'Skincare studio',
+    followersCount: 5000,
+    followingCount: 300,
+    postsCount: 120,
+    isVerified: false,
+    isPrivate: false,
+    profilePicUrl: '',
+    externalUrl: null,
+    isBusinessAccount: true,
+    latestPosts: [],
+    platform: 'instagram',
+    scraperUsed: 'test',
+    dataQuality: 'high',
+    ...overrides
+  };
+}
+
+async function runJob(harness: AnalysisWorkflowHarness) {
+  const supabase = harness.db.asClient();
+  const job = await new SourcingService(harness.env, supabase).createJob(TEST_ACCOUNT_ID, TEST_USER_ID, {
+    businessProfileId: TEST_BUSINESS_ID,
+    sourceType: 'hashtag',
+    value: 'austinskincare',
+    maxCandidates: 100
+  });
+
+  const runner = new SourcingRunnerService(harness.env, supabase);
+  let result = await runner.processNextStep(job.id);
+  while (!result.done) {
+    result = await runner.processNextStep(job.id);
+  }
+
+  return harness.db.rows('sourcing_jobs', { id: job.id })[0];
+}
+
+describe('Prospect sourcing jobs', () => {
+  beforeEach(() => {
+    source.collected = [];
+    source.profiles = [];
+    source.collectCalls = [];
+    source.scrapeCalls = [];
+  });
+
+  it('collects, de-duplicates and pre-filters candidates into prospects', async () => {
+    const harness = new AnalysisWorkflowHarness({ icp: { min: 1000, max: 250000 } });
+    harness.db.rows('business_profiles', { id: TEST_BUSINESS_ID })[0].icp_rules = [{ type: 'business_account' }];
+    harness.db.table('leads').push({
+      id: 'lead-existing-0001',
+      account_id: TEST_ACCOUNT_ID,
+      business_profile_id: TEST_BUSINESS_ID,
+      platform: 'instagram',
+      username: 'already.lead',
+      deleted_at: null
+    });
+
+    source.collected = ['glow.spa', 'already.lead', 'tiny.page', 'huge.brand', 'locked.acct', 'hobby.page', 'gone.acct'];
+    source.profiles = [
+      profile('glow.spa'),
+      profile('tiny.page', { followersCount: 200 }),
+      profile('huge.brand', { followersCount: 900000 }),
+      profile('locked.acct', { isPrivate: true }),
+      profile('hobby.page', { isBusinessAccount: false })
+    ];
+
+    const job = await runJob(harness);
+
+    expect(source.collectCalls).toEqual([{ sourceType: 'hashtag', value: 'austinskincare', limit: 100 }]);
+    expect(source.scrapeCalls).toEqual([['glow.spa', 'tiny.page', 'huge.brand', 'locked.acct', 'hobby.page', 'gone.acct']]);
+    expect(job).toMatchObject({
+      status: 'complete',
+      candidates_found: 7,
+      duplicates: 1,
+      cursor: 6,
+      prospects_added: 1,
+      rejected: {
+        below_min_followers: 1,
+        above_max_followers: 1,
+        private: 1,
+        not_business: 1,
+        not_found: 1
+      }
+    });
+    expect(harness.db.rows('prospects')).toEqual([expect.objectContaining({
+      username: 'glow.spa',
+      source_job_id: job.id,
+      source_type: 'hashtag',
+      source_value: 'austinskincare'
+    })]);
+    expect(harness.db.rows('operations_ledger', { operation_type: 'sourcing' })).toHaveLength(2);
+  });
+
+  it('skips prospects found by an earlier job and promotes new ones to bulk analysis', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    source.collected = ['glow.spa'];
+    source.profiles = [profile('glow.spa')];
+    await runJob(harness);
+
+    const second = await runJob(harness);
+    expect(second).toMatchObject({ status: 'complete', duplicates: 1, prospects_added: 0 });
+
+    const [prospect] = harness.db.rows('prospects');
+    const service = new SourcingService(harness.env, harness.db.asClient());
+    const result = await service.promoteProspects(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      prospectIds: [prospect.id],
+      analysisType: 'light'
+    });
+
+    expect(result.promoted).toBe(1);
+    expect(harness.bindings.bulkBatches.requests[0].body).toMatchObject({
+      usernames: ['glow.spa'],
+      analysis_type: 'light'
+    });
+    expect(prospect.status).toBe('promoted');
+
+    await expect(service.promoteProspects(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      prospectIds: [prospect.id],
+      analysisType: 'light'
+    })).rejects.toMatchObject({ statusCode: 404, code: 'NO_PROSPECTS' });
+  });
+
+  it('records a page delivered twice once', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    source.collected = ['glow.spa', 'calm.studio'];
+    source.profiles = [profile('glow.spa'), profile('calm.studio')];
+
+    const supabase = harness.db.asClient();
+    const job = await new SourcingService(harness.env, supabase).createJob(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      sourceType: 'hashtag',
+      value: 'austinskincare',
+      maxCandidates: 100
+    });
+    const runner = new SourcingRunnerService(harness.env, supabase);
+    await runner.processNextStep(job.id);
+
+    // Both deliveries read the job before either records the page
+    await Promise.all([runner.processNextStep(job.id), runner.processNextStep(job.id)]);
+
+    expect(harness.db.rows('sourcing_jobs', { id: job.id })[0]).toMatchObject({
+      status: 'complete',
+      cursor: 2,
+      prospects_added: 2,
+      apify_cost_usd: 2 * 0.0023 + 2 * 0.0026
+    });
+    expect(harness.db.rows('prospects')).toHaveLength(2);
+    expect(harness.db.rows('operations_ledger', { operation_type: 'sourcing' })).toHaveLength(2);
+  });
+
+  it('promotes a prospect once and releases it when the batch cannot be queued', async () => {
+    const harness = new AnalysisWorkflowHarness({ balances: { light_analyses_balance: 0 } });
+    source.collected = ['glow.spa'];
+    source.profiles = [profile('glow.spa')];
+    await runJob(harness);
+
+    const [prospect] = harness.db.rows('prospects');
+    const service = new SourcingService(harness.env, harness.db.asClient());
+    const promote = () => service.promoteProspects(TEST_ACCOUNT_ID, TEST_USER_ID, {
+      businessProfileId: TEST_BUSINESS_ID,
+      prospectIds: [prospect.id],
+      analysisType: 'light'
+    });
+
+    await expect(promote()).rejects.toMatchObject({ statusCode: 402, code: 'INSUFFICIENT_BALANCE' });
+    expect(prospect.status).toBe('new');
+
+    harness.db.rows('balances', { account_id: TEST_ACCOUNT_ID })[0].light_analyses_balance = 5;
+    const results = await Promise.allSettled([promote(), promote()]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(harness.bindings.bulkBatches.requests).toHaveLength(1);
+    expect(prospect.status).toBe('promoted');
+  });
+});
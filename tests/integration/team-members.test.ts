@@ -0,0 +1,23 @@
+// tests/integration/team-members.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID, TEST_USER_ID } from '../harness/analysis-workflow.harness';
+import { TeamService } from '@/features/team/team.service';
+
+describe('Team members', () => {
+  it('revokes the API keys a removed member created', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    harness.db.insertRows('accounts', [{ id: TEST_ACCOUNT_ID, owner_id: TEST_USER_ID }]);
+    harness.db.insertRows('account_members', [{ account_id: TEST_ACCOUNT_ID, user_id: 'user-member-0001', role: 'member' }]);
+    harness.db.insertRows('api_keys', [
+      { id: 'key-member', account_id: TEST_ACCOUNT_ID, created_by: 'user-member-0001', revoked_at: null },
+      { id: 'key-owner', account_id: TEST_ACCOUNT_ID, created_by: TEST_USER_ID, revoked_at: null }
+    ]);
+
+    await new TeamService(harness.db.asClient()).removeMember(TEST_ACCOUNT_ID, 'admin', 'user-member-0001');
+
+    expect(harness.db.rows('account_members')).toHaveLength(0);
+    expect(harness.db.rows('api_keys', { id: 'key-member' })[0].revoked_at).not.toBeNull();
+    expect(harness.db.rows('api_keys', { id: 'key-owner' })[0].revoked_at).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+// tests/integration/webhook-dispatch.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { AnalysisWorkflowHarness, TEST_ACCOUNT_ID } from '../harness/analysis-workflow.harness';
+import { WebhookDispatcher } from '@/infrastructure/webhooks/webhook-dispatcher.service';
+import { CreateWebhookSchema } from '@/features/webhooks/webhooks.types';
+
+describe('Webhook dispatch', () => {
+  it('retries a failed enqueue on the next emit of the same event', async () => {
+    const harness = new AnalysisWorkflowHarness({ webhookEvents: ['batch.completed'] });
+    const queue = harness.bindings.webhookQueue;
+    const dispatcher = new WebhookDispatcher(harness.env);
+
+    vi.spyOn(queue, 'sendBatch').mockRejectedValueOnce(new Error('Queue unavailable'));
+    await expect(dispatcher.emit(TEST_ACCOUNT_ID, 'batch.completed', 'batch.completed:batch_1', {}))
+      .rejects.toThrow('Queue unavailable');
+
+    const [delivery] = harness.db.rows('webhook_deliveries');
+    expect(delivery).toMatchObject({ status: 'pending', enqueued_at: null });
+    expect(queue.messages).toHaveLength(0);
+
+    // The emitter's retry enqueues the recorded delivery instead of deduplicating it away
+    expect(await dispatcher.emit(TEST_ACCOUNT_ID, 'batch.completed', 'batch.completed:batch_1', {})).toBe(1);
+    expect(harness.db.rows('webhook_deliveries')).toHaveLength(1);
+    expect(queue.messages).toEqual([expect.objectContaining({ delivery_id: delivery.id })]);
+    expect(delivery.enqueued_at).not.toBeNull();
+
+    // Once enqueued, a replay is a no-op
+    expect(await dispatcher.emit(TEST_ACCOUNT_ID, 'batch.completed', 'batch.completed:batch_1', {})).toBe(0);
+    expect(queue.messages).toHaveLength(1);
+  });
+
+  it('sweeps deliveries that were recorded but never enqueued', async () => {
+    const harness = new AnalysisWorkflowHarness();
+    harness.db.insertRows('webhook_deliveries', [
+      { id: 'whd-stale', status: 'pending', enqueued_at: null, endpoint_id: 'whe-1', event_type: 'batch.completed', created_at: '2026-01-01T00:00:00.000Z' },
+      { id: 'whd-fresh', status: 'pending', enqueued_at: null, endpoint_id: 'whe-1', event_type: 'batch.completed' },
+      { id: 'whd-queued', status: 'pending', enqueued_at: '2026-01-01T00:00:01.000Z', endpoint_id: 'whe-1', event_type: 'batch.completed', created_at: '2026-01-01T00:00:00.000Z' }
+    ]);
+
+    expect(await new WebhookDispatcher(harness.env).enqueueStalePending()).toBe(1);
+    expect(harness.bindings.webhookQueue.messages).toEqual([expect.objectContaining({ delivery_id: 'whd-stale' })]);
+  });
+
+  it('rejects endpoint URLs on loopback, link-local and private networks', () => {
+    const accepts = (url: string) => CreateWebhookSchema.safeParse({ url, events: ['batch.completed'] }).success;
+
+    expect(accepts('https://hooks.example.com/oslira')).toBe(true);
+    expect(accepts('https://172.32.0.1/hook')).toBe(true);
+
+    for (const url of [
+      'https://localhost/hook',
+      'https://127.0.0.1/hook',
+      'https://2130706433/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://10.0.0.5/hook',
+      'https://172.16.4.2/hook',
+      'https://192.168.1.10/hook',
+      'https://[::1]/hook',
+      'https://[::ffff:127.0.0.1]/hook',
+      'https://[fd00::1]/hook',
+      'https://[fe80::1]/hook',
+      'https://metadata.internal/hook'
+    ]) {
+      expect(accepts(url), url).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,97 @@
+// tests/unit/broadcast-event-log.test.ts
+
+import { describe, it, expect } from 'vitest';
+import type { DurableObjectStorage } from '@cloudflare/workers-types';
+import type { BroadcastMessage } from '@/shared/types/broadcast.types';
+import { BroadcastEventLog } from '@/infrastructure/durable-objects/broadcast-event-log';
+
+/** Key-value subset of DurableObjectStorage used by the log */
+class MemoryStorage {
+  readonly values = new Map<string, unknown>();
+
+  async get(keyOrKeys: string | string[]): Promise<unknown> {
+    if (Array.isArray(keyOrKeys)) {
+      if (keyOrKeys.length > 128) throw new Error('Too many keys');
+      return new Map(keyOrKeys.filter(key => this.values.has(key)).map(key => [key, this.values.get(key)]));
+    }
+    return this.values.get(keyOrKeys);
+  }
+
+  async put(entries: Record<string, unknown>): Promise<void> {
+    Object.entries(entries).forEach(([key, value]) => this.values.set(key, structuredClone(value)));
+  }
+
+  asStorage(): DurableObjectStorage {
+    return this as unknown as DurableObjectStorage;
+  }
+}
+
+function progress(runId: string, value: number): BroadcastMessage {
+  return {
+    type: 'analysis.progress',
+    runId,
+    data: { progress: value, step: { current: 1, total: 4 }, status: 'analyzing' },
+    timestamp: Date.now()
+  };
+}
+
+async function appendMany(log: BroadcastEventLog, count: number): Promise<void> {
+  for (let i = 1; i <= count; i++) {
+    await log.append(progress(`run-${i}`, i));
+  }
+}
+
+describe('BroadcastEventLog', () => {
+  it('numbers events and replays the ones after a given seq', async () => {
+    const log = new BroadcastEventLog(new MemoryStorage().asStorage(), 10);
+    await appendMany(log, 5);
+
+    const replay = await log.since(2);
+
+    expect(log.lastSeq).toBe(5);
+    expect(replay.complete).toBe(true);
+    expect(replay.events.map(event => [event.seq, event.runId])).toEqual([[3, 'run-3'], [4, 'run-4'], [5, 'run-5']]);
+    expect(await log.since(5)).toEqual({ events: [], complete: true });
+  });
+
+  it('keeps counting where the previous instance stopped', async () => {
+    const storage = new MemoryStorage();
+    await appendMany(new BroadcastEventLog(storage.asStorage(), 10), 3);
+
+    const restarted = new BroadcastEventLog(storage.asStorage(), 10);
+    await restarted.load();
+    const next = await restarted.append(progress('run-4', 4));
+
+    expect(next.seq).toBe(4);
+    expect((await restarted.since(0)).events.map(event => event.seq)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('asks for a resync when the gap is larger than the buffer', async () => {
+    const log = new BroadcastEventLog(new MemoryStorage().asStorage(), 10);
+    await appendMany(log, 25);
+
+    const replay = await log.since(3);
+
+    // Best effort: the buffered tail is still delivered, but the client must reload
+    expect(replay.complete).toBe(false);
+    expect(replay.events.map(event => event.seq)).toEqual([16, 17, 18, 19, 20, 21, 22, 23, 24, 25]);
+    expect((await log.since(15)).complete).toBe(true);
+  });
+
+  it('asks for a resync when the client is ahead of the log', async () => {
+    const log = new BroadcastEventLog(new MemoryStorage().asStorage(), 10);
+    await appendMany(log, 2);
+
+    expect(await log.since(40)).toEqual({ events: [], complete: false });
+  });
+
+  it('reads large replays in chunks the storage API accepts', async () => {
+    const log = new BroadcastEventLog(new MemoryStorage().asStorage(), 300);
+    await appendMany(log, 300);
+
+    const replay = await log.since(0);
+
+    expect(replay.complete).toBe(true);
+    expect(replay.events).toHaveLength(300);
+  });
+});
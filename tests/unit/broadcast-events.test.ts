@@ -0,0 +1,39 @@
+// tests/unit/broadcast-events.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import {
+  BROADCAST_EVENTS,
+  BROADCAST_TOPICS,
+  parseBroadcastTopics,
+  type BroadcastEventData
+} from '@/config/broadcast-events.config';
+import { publishBroadcast } from '@/infrastructure/durable-objects/broadcast.publisher';
+import { createFakeEnv } from '../harness/fake-bindings';
+
+describe('broadcast event catalog', () => {
+  it('maps every event to a known topic', () => {
+    for (const { topic } of Object.values(BROADCAST_EVENTS)) {
+      expect(BROADCAST_TOPICS).toContain(topic);
+    }
+  });
+
+  it('parses topic lists and rejects unknown topics', () => {
+    expect(parseBroadcastTopics('credits, analysis,credits')).toEqual(['credits', 'analysis']);
+    expect(parseBroadcastTopics('analysis,invoices')).toBeNull();
+    expect(parseBroadcastTopics(' , ')).toBeNull();
+  });
+
+  it('refuses to publish a payload that does not match its schema', async () => {
+    const { env, broadcaster } = createFakeEnv();
+    // Simulates a publisher drifting from the catalog
+    const drifted: unknown = { credit_balance: 10, reason: 'analysis' };
+
+    await expect(publishBroadcast(env, 'acct-1', {
+      type: 'credits.updated',
+      data: drifted as BroadcastEventData<'credits.updated'>
+    })).rejects.toBeInstanceOf(ZodError);
+
+    expect(broadcaster.requests).toHaveLength(0);
+  });
+});
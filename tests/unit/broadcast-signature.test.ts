@@ -0,0 +1,78 @@
+// tests/unit/broadcast-signature.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  signBroadcast,
+  verifyBroadcast,
+  BROADCAST_SIGNATURE_TOLERANCE_SECONDS,
+  type BroadcastNonceStore
+} from '@/infrastructure/auth/broadcast-signature.service';
+
+const SECRET = 'test-broadcast-secret';
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+const TIMESTAMP = Math.floor(NOW / 1000);
+
+const BODY = JSON.stringify({
+  type: 'analysis.progress',
+  runId: 'run-1',
+  data: { progress: 40, step: { current: 2, total: 5 }, status: 'analyzing' },
+  timestamp: NOW
+});
+
+/** Same contract as GlobalBroadcasterDO's storage-backed store */
+class MemoryNonceStore implements BroadcastNonceStore {
+  readonly claimed = new Map<string, number>();
+
+  async claim(nonce: string, expiresAt: number): Promise<boolean> {
+    if (this.claimed.has(nonce)) return false;
+    this.claimed.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+describe('broadcast signatures', () => {
+  it('accepts a freshly signed event and claims its nonce until the signature expires', async () => {
+    const nonces = new MemoryNonceStore();
+    const header = await signBroadcast(SECRET, BODY, { timestamp: TIMESTAMP, nonce: 'nonce-1' });
+
+    const result = await verifyBroadcast(SECRET, header, BODY, nonces, NOW);
+
+    expect(result).toEqual({ valid: true, timestamp: TIMESTAMP, nonce: 'nonce-1' });
+    expect(nonces.claimed.get('nonce-1')).toBe((TIMESTAMP + BROADCAST_SIGNATURE_TOLERANCE_SECONDS) * 1000);
+  });
+
+  it('rejects a replay of an already delivered event', async () => {
+    const nonces = new MemoryNonceStore();
+    const header = await signBroadcast(SECRET, BODY, { timestamp: TIMESTAMP });
+
+    await verifyBroadcast(SECRET, header, BODY, nonces, NOW);
+    const replay = await verifyBroadcast(SECRET, header, BODY, nonces, NOW + 1000);
+
+    expect(replay).toEqual({ valid: false, reason: 'replayed' });
+  });
+
+  it('rejects forged events: missing, malformed, wrong-secret and tampered signatures', async () => {
+    const nonces = new MemoryNonceStore();
+    const header = await signBroadcast(SECRET, BODY, { timestamp: TIMESTAMP, nonce: 'nonce-1' });
+    const forged = await signBroadcast('attacker-guess', BODY, { timestamp: TIMESTAMP, nonce: 'nonce-2' });
+    const tampered = BODY.replace('"progress":40', '"progress":100');
+
+    expect(await verifyBroadcast(SECRET, null, BODY, nonces, NOW)).toEqual({ valid: false, reason: 'missing_signature' });
+    expect(await verifyBroadcast(SECRET, 'v1=abc', BODY, nonces, NOW)).toEqual({ valid: false, reason: 'malformed_signature' });
+    expect(await verifyBroadcast(SECRET, forged, BODY, nonces, NOW)).toEqual({ valid: false, reason: 'invalid_signature' });
+    expect(await verifyBroadcast(SECRET, header, tampered, nonces, NOW)).toEqual({ valid: false, reason: 'invalid_signature' });
+
+    // Forgeries never burn a nonce, so the genuine event still goes through
+    expect(nonces.claimed.size).toBe(0);
+    expect(await verifyBroadcast(SECRET, header, BODY, nonces, NOW)).toMatchObject({ valid: true });
+  });
+
+  it('rejects signatures outside the timestamp window', async () => {
+    const nonces = new MemoryNonceStore();
+    const stale = await signBroadcast(SECRET, BODY, { timestamp: TIMESTAMP - BROADCAST_SIGNATURE_TOLERANCE_SECONDS - 1 });
+    const future = await signBroadcast(SECRET, BODY, { timestamp: TIMESTAMP + BROADCAST_SIGNATURE_TOLERANCE_SECONDS + 1 });
+
+    expect(await verifyBroadcast(SECRET, stale, BODY, nonces, NOW)).toEqual({ valid: false, reason: 'expired' });
+    expect(await verifyBroadcast(SECRET, future, BODY, nonces, NOW)).toEqual({ valid: false, reason: 'expired' });
+  });
+});
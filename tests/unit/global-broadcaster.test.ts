@@ -0,0 +1,63 @@
+// tests/unit/global-broadcaster.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Env } from '@/shared/types/env.types';
+import { GlobalBroadcasterDO } from '@/infrastructure/durable-objects/global-broadcaster.do';
+
+/** Storage subset the broadcaster touches, with the runtime's key limits */
+class MemoryStorage {
+  readonly values = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get(key: string): Promise<unknown> {
+    return this.values.get(key);
+  }
+
+  async put(entries: Record<string, unknown>): Promise<void> {
+    Object.entries(entries).forEach(([key, value]) => this.values.set(key, value));
+  }
+
+  async list(options: { prefix?: string; limit?: number; startAfter?: string } = {}): Promise<Map<string, unknown>> {
+    const keys = [...this.values.keys()]
+      .filter(key => key.startsWith(options.prefix ?? '') && (!options.startAfter || key > options.startAfter))
+      .sort()
+      .slice(0, options.limit);
+    return new Map(keys.map(key => [key, this.values.get(key)]));
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    if (keys.length > 128) throw new Error('Too many keys');
+    return keys.filter(key => this.values.delete(key)).length;
+  }
+
+  async setAlarm(time: number): Promise<void> {
+    this.alarm = time;
+  }
+}
+
+function createBroadcaster(storage: MemoryStorage): GlobalBroadcasterDO {
+  vi.stubGlobal('WebSocketRequestResponsePair', class {});
+  const state = {
+    storage,
+    blockConcurrencyWhile: (fn: () => Promise<unknown>) => fn(),
+    setWebSocketAutoResponse: () => {}
+  };
+  return new GlobalBroadcasterDO(state as unknown as DurableObjectState, {} as Env);
+}
+
+describe('GlobalBroadcasterDO nonce pruning', () => {
+  it('deletes expired nonces in chunks the storage API accepts', async () => {
+    const storage = new MemoryStorage();
+    const broadcaster = createBroadcaster(storage);
+    const past = Date.now() - 1000;
+    for (let i = 0; i < 300; i++) {
+      storage.values.set(`nonce:${String(i).padStart(3, '0')}`, past);
+    }
+    storage.values.set('nonce:zzz', Date.now() + 60_000);
+
+    await broadcaster.alarm();
+
+    expect([...storage.values.keys()].filter(key => key.startsWith('nonce:'))).toEqual(['nonce:zzz']);
+    expect(storage.alarm).not.toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+// tests/unit/icp-rules.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { evaluateICPRules, type ICPRuleSubject } from '@/infrastructure/analysis-checks/icp-rules.util';
+
+function subject(overrides: Partial<ICPRuleSubject>): ICPRuleSubject {
+  return {
+    isBusinessAccount: true,
+    bio: '',
+    daysSinceLastPost: null,
+    hasNoPosts: false,
+    engagementRate: null,
+    niche: null,
+    locations: [],
+    captions: [],
+    ...overrides
+  };
+}
+
+describe('evaluateICPRules', () => {
+  it('matches bio keywords as whole words or phrases', () => {
+    const rules = [{ type: 'bio_keywords' as const, keywords: ['art', 'skin care'], match: 'any' as const }];
+
+    expect(evaluateICPRules(rules, subject({ bio: 'Smart home gadgets, party decor' })).passed).toBe(false);
+    expect(evaluateICPRules(rules, subject({ bio: 'Fine ART prints 🎨' })).passed).toBe(true);
+    expect(evaluateICPRules(rules, subject({ bio: 'Clinical skin care, Miami' })).passed).toBe(true);
+  });
+
+  it('excludes niches on word boundaries, including non-Latin text', () => {
+    const rules = [{ type: 'exclude_niches' as const, niches: ['pet', 'café'] }];
+
+    expect(evaluateICPRules(rules, subject({ niche: 'competitive esports' })).passed).toBe(true);
+    expect(evaluateICPRules(rules, subject({ niche: 'pet grooming' })).passed).toBe(false);
+    expect(evaluateICPRules(rules, subject({ bio: 'Cafés y más' })).passed).toBe(true);
+    expect(evaluateICPRules(rules, subject({ bio: 'Specialty café, Lisbon' })).passed).toBe(false);
+  });
+});
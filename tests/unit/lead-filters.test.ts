@@ -0,0 +1,24 @@
+// tests/unit/lead-filters.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { ListLeadsQuerySchema, ExportLeadsQuerySchema } from '@/features/leads/leads.types';
+import { WatchFilterSchema } from '@/features/watches/watches.types';
+
+const BUSINESS_ID = '2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f';
+
+describe('lead filter ranges', () => {
+  it('rejects a min above its max on list, export and watch filters', () => {
+    const list = ListLeadsQuerySchema.safeParse({ businessProfileId: BUSINESS_ID, minFollowers: '5000', maxFollowers: '1000' });
+
+    expect(list.success).toBe(false);
+    expect(!list.success && list.error.issues.map(issue => issue.path)).toEqual([['minFollowers']]);
+    expect(ExportLeadsQuerySchema.safeParse({ businessProfileId: BUSINESS_ID, minScore: '80', maxScore: '40' }).success).toBe(false);
+    expect(WatchFilterSchema.safeParse({ minScore: 80, maxScore: 40 }).success).toBe(false);
+  });
+
+  it('accepts ordered, equal and one-sided ranges', () => {
+    expect(ListLeadsQuerySchema.safeParse({ businessProfileId: BUSINESS_ID, minFollowers: '1000', maxFollowers: '5000' }).success).toBe(true);
+    expect(ListLeadsQuerySchema.safeParse({ businessProfileId: BUSINESS_ID, minScore: '60', maxScore: '60' }).success).toBe(true);
+    expect(ListLeadsQuerySchema.safeParse({ businessProfileId: BUSINESS_ID, minScore: '60' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+// tests/unit/operations-metrics.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { buildOperationsMetrics } from '@/config/operations-pricing.config';
+import { getScraperConfig, TIKTOK_SCRAPER_CONFIG } from '@/config/scraper-providers.config';
+
+const BASE = {
+  analysisType: 'light' as const,
+  aiCost: 0.01,
+  aiModel: 'gpt-5-mini',
+  tokensIn: 1000,
+  tokensOut: 200,
+  timing: { cache_check: 5, ai_analysis: 800, db_upsert: 20, total_ms: 1200 }
+};
+
+describe('buildOperationsMetrics', () => {
+  it('prices and records the provider that scraped the profile', () => {
+    const provider = TIKTOK_SCRAPER_CONFIG.name;
+    const metrics = buildOperationsMetrics({
+      ...BASE,
+      cacheHit: false,
+      scraper: { provider, config: getScraperConfig(provider) }
+    });
+
+    expect(metrics.cost.items.scraping).toMatchObject({
+      actor: TIKTOK_SCRAPER_CONFIG.actor_id,
+      usd: TIKTOK_SCRAPER_CONFIG.cost_per_run_usd,
+      cached: false
+    });
+    expect(metrics.cost.total_usd).toBeCloseTo(0.01 + TIKTOK_SCRAPER_CONFIG.cost_per_run_usd);
+  });
+
+  it('charges nothing for a cache hit', () => {
+    const metrics = buildOperationsMetrics({ ...BASE, cacheHit: true });
+
+    expect(metrics.cost.items.scraping).toMatchObject({ actor: null, usd: 0, cached: true });
+    expect(metrics.cost.total_usd).toBe(0.01);
+  });
+});
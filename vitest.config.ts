@@ -0,0 +1,21 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Tests run in Node with in-memory fakes for Cloudflare bindings (tests/harness).
+ * Set TEST_LOGS=1 to see the worker's structured logs.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+      'cloudflare:workers': fileURLToPath(new URL('./tests/harness/cloudflare-workers.shim.ts', import.meta.url))
+    }
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    restoreMocks: true,
+    unstubGlobals: true,
+    onConsoleLog: () => (process.env.TEST_LOGS ? undefined : false)
+  }
+});